@@ -1,39 +1,71 @@
-import React, { useState, useEffect } from 'react';
-import { SportEvent, SportType } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { SportEvent, SportType, AuthSession, User } from './types';
 import { CalendarView } from './components/CalendarView';
 import { EventDetail } from './components/EventDetail';
 import { EventList } from './components/EventList';
 import { CreateEventModal } from './components/CreateEventModal';
 import { ConfirmModal } from './components/ConfirmModal';
+import { EventConflictModal } from './components/EventConflictModal';
 import { UnpaidBanner } from './components/UnpaidBanner';
+import { OfflineBanner } from './components/OfflineBanner';
 import { LoginScreen } from './components/LoginScreen';
 import { BankAccountSettingsModal } from './components/BankAccountSettingsModal';
+import { PaymentImportModal } from './components/PaymentImportModal';
+import { SettlementModal } from './components/SettlementModal';
 import { StatsPage } from './components/StatsPage';
+import { TournamentsPage } from './components/Tournaments';
 import { ReleaseNotesPage } from './components/ReleaseNotesPage';
 import { MobileBottomNav, MobileView } from './components/MobileBottomNav';
 import { MobileHeader } from './components/MobileHeader';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { GroupSetup } from './components/GroupSetup';
+import { GroupSwitcher } from './components/GroupSwitcher';
 import { usePersistedAuth } from './hooks/usePersistedAuth';
 import { useUrlState } from './hooks/useUrlState';
 import { useDataLoading } from './hooks/useDataLoading';
-import { Calendar as CalendarIcon, Trophy, LogOut, Loader2, Settings, BarChart3, Info, Download } from 'lucide-react';
+import { useGroups } from './hooks/useGroups';
+import { useOfflineSync } from './hooks/useOfflineSync';
+import { useTournaments } from './hooks/useTournaments';
+import { Calendar as CalendarIcon, Trophy, LogOut, Loader2, Settings, BarChart3, Info, Download, Medal } from 'lucide-react';
 import { isSameDay, startOfDay } from 'date-fns';
 import { downloadICS } from './utils/icalExport';
+import { can } from './utils/permissions';
+import * as storage from './services/storage';
 
 const App: React.FC = () => {
-  const { currentUser, login, logout, updateUser } = usePersistedAuth();
+  const { currentUser: account, login, logout, updateUser, renewToken } = usePersistedAuth();
+  const {
+    groups, activeGroup, hasLoadedGroups, inviteError, selectGroup, loadGroups, createGroup, joinGroup,
+  } = useGroups({ currentUser: account });
+
+  // Roles are per group — the signed-in user acts with their role in the active group
+  const currentUser = useMemo(
+    () => (account ? { ...account, role: activeGroup?.role } : null),
+    [account, activeGroup],
+  );
+
   const { selectedEventId, setSelectedEventId, clearSelection, mobileView, setMobileView } = useUrlState();
+  const { tournaments, loadTournaments, createTournament, updateTournament, deleteTournament } = useTournaments({ groupId: currentUser ? activeGroup?.id ?? null : null });
   const {
-    events, isLoading, unpaidDebts, bankAccounts, setBankAccounts,
-    sportConfigs, setSportConfigs, users, loadEvents, createEvent, createEventsBatch, updateEvent, deleteEvent,
-  } = useDataLoading({ currentUser });
+    events, isLoading, isLoadingRange, ensureRange, hasMoreUpcoming, isLoadingMore, loadMoreUpcoming, history, loadHistory,
+    unpaidDebts, bankAccounts, setBankAccounts,
+    sportConfigs, setSportConfigs, users, viewers, loadEvents, loadUsers, createEvent, createEventsBatch, updateEvent, conflict, settleConflict, resolveConflict, deleteEvent,
+  } = useDataLoading({ currentUser, groupId: activeGroup?.id ?? null, viewingEventId: selectedEventId, onTournamentChange: loadTournaments });
+  const { isOnline, pendingCount, rejected, dismissRejected } = useOfflineSync({
+    enabled: !!currentUser && !!activeGroup,
+    onSynced: loadEvents,
+    onConflict: settleConflict,
+  });
 
   const [viewDate, setViewDate] = useState<Date>(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [eventToDelete, setEventToDelete] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isPaymentImportOpen, setIsPaymentImportOpen] = useState(false);
+  const [isSettlementOpen, setIsSettlementOpen] = useState(false);
   const [showStats, setShowStats] = useState(false);
+  const [showTournaments, setShowTournaments] = useState(false);
   const [showChangelog, setShowChangelog] = useState(false);
   const [sportFilter, setSportFilter] = useState<SportType | null>(null);
 
@@ -49,24 +81,39 @@ const App: React.FC = () => {
 
   // ── Handlers ──
 
-  const handleLogin = (user: NonNullable<typeof currentUser>) => {
-    login(user);
+  const handleLogin = (session: AuthSession) => {
+    login(session);
     setSelectedDate(null);
     setViewDate(new Date());
     setMobileView('calendar');
   };
 
   const handleLogout = () => {
+    // Signing out explicitly leaves nothing behind on the device, unsent changes included
+    storage.clearOfflineData();
     logout();
     clearSelection();
     setMobileView('calendar');
   };
 
-  const handleUserUpdate = (updatedUser: NonNullable<typeof currentUser>) => {
+  const handleUserUpdate = (updatedUser: User) => {
     updateUser(updatedUser);
     loadEvents();
   };
 
+  const handleSelectGroup = (groupId: string) => {
+    selectGroup(groupId);
+    clearSelection();
+    setSelectedDate(null);
+    setSportFilter(null);
+  };
+
+  // A role change (possibly our own) shows up in both the member list and the group list
+  const handleMembersChange = () => {
+    loadUsers();
+    loadGroups(activeGroup?.id);
+  };
+
   const handleCreateEvent = async (newEventOrBatch: SportEvent | SportEvent[]) => {
     try {
       if (Array.isArray(newEventOrBatch)) {
@@ -128,6 +175,7 @@ const App: React.FC = () => {
 
   const handleMobileNavigate = (view: MobileView) => {
     setShowStats(view === 'stats');
+    setShowTournaments(view === 'tournaments');
     setShowChangelog(view === 'changelog');
     setMobileView(view);
   };
@@ -135,6 +183,7 @@ const App: React.FC = () => {
   const handleMobileBack = () => {
     setMobileView('calendar');
     setShowStats(false);
+    setShowTournaments(false);
     setShowChangelog(false);
   };
 
@@ -142,6 +191,26 @@ const App: React.FC = () => {
 
   if (!currentUser) return <LoginScreen onLogin={handleLogin} />;
 
+  if (!activeGroup) {
+    return hasLoadedGroups ? (
+      <GroupSetup
+        currentUser={currentUser}
+        onCreate={createGroup}
+        onJoin={joinGroup}
+        onLogout={handleLogout}
+        inviteError={inviteError}
+      />
+    ) : (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+        <Loader2 className="animate-spin text-blue-600" size={48} />
+      </div>
+    );
+  }
+
+  // Actions the user's role does not allow are simply not offered
+  const handleOpenCreate = can(currentUser, 'event:create') ? () => setIsModalOpen(true) : undefined;
+  const handleDeleteEvent = can(currentUser, 'event:delete') ? handleRequestDelete : undefined;
+
   const isUpcomingMode = selectedDate === null;
   const displayedEvents = isUpcomingMode
     ? events
@@ -170,9 +239,13 @@ const App: React.FC = () => {
           selectedEvent={selectedEvent}
           onBack={handleMobileBack}
           onLogout={handleLogout}
+          groups={groups}
+          activeGroupId={activeGroup.id}
+          onSelectGroup={handleSelectGroup}
         />
 
-        {mobileView === 'calendar' && <UnpaidBanner debts={unpaidDebts} />}
+        <OfflineBanner isOnline={isOnline} pendingCount={pendingCount} rejected={rejected} events={events} onDismissRejected={dismissRejected} />
+        {mobileView === 'calendar' && <UnpaidBanner debts={unpaidDebts} onSettle={() => setIsSettlementOpen(true)} />}
 
         {/* Mobile: Calendar View */}
         {mobileView === 'calendar' && (
@@ -184,6 +257,8 @@ const App: React.FC = () => {
                 onDateChange={handleDateSelect}
                 onMonthChange={setViewDate}
                 events={events}
+                onVisibleRangeChange={ensureRange}
+                isLoadingRange={isLoadingRange}
               />
             </section>
             <section>
@@ -202,14 +277,16 @@ const App: React.FC = () => {
                 selectedEventId={selectedEventId}
                 selectedDate={selectedDate}
                 onSelectEvent={handleMobileEventSelect}
-                onDeleteEvent={handleRequestDelete}
+                onDeleteEvent={handleDeleteEvent}
                 onShowUpcoming={handleShowUpcoming}
-                onCreateEvent={() => setIsModalOpen(true)}
+                onCreateEvent={handleOpenCreate}
                 showChevron
                 showAddButton={false}
                 sportConfigs={sportConfigs}
                 sportFilter={sportFilter}
                 onSportFilterChange={setSportFilter}
+                onLoadMore={hasMoreUpcoming ? loadMoreUpcoming : undefined}
+                isLoadingMore={isLoadingMore}
               />
             </section>
           </div>
@@ -227,6 +304,9 @@ const App: React.FC = () => {
                   sportConfigs={sportConfigs}
                   allEvents={events}
                   allUsers={users}
+                  history={history}
+                  onLoadHistory={loadHistory}
+                  viewers={viewers}
                   onUpdate={updateEvent}
                   onDelete={handleRequestDelete}
                 />
@@ -249,6 +329,25 @@ const App: React.FC = () => {
               isLoading={isLoading}
               onClose={handleMobileBack}
               sportConfigs={sportConfigs}
+              history={history}
+              onLoadHistory={loadHistory}
+              tournaments={tournaments}
+            />
+          </div>
+        )}
+
+        {/* Mobile: Tournaments View */}
+        {mobileView === 'tournaments' && (
+          <div className="flex-1 overflow-y-auto p-4 animate-slide-in-right">
+            <TournamentsPage
+              tournaments={tournaments}
+              currentUser={currentUser}
+              users={users}
+              sportConfigs={sportConfigs}
+              onClose={handleMobileBack}
+              onCreate={createTournament}
+              onUpdate={updateTournament}
+              onDelete={deleteTournament}
             />
           </div>
         )}
@@ -264,7 +363,7 @@ const App: React.FC = () => {
           activeView={mobileView}
           onNavigate={handleMobileNavigate}
           onOpenSettings={() => setIsSettingsOpen(true)}
-          onCreateEvent={() => setIsModalOpen(true)}
+          onCreateEvent={handleOpenCreate}
         />
       </div>
 
@@ -276,22 +375,28 @@ const App: React.FC = () => {
       <div className="hidden md:flex w-[400px] lg:w-[450px] flex-col bg-white border-r border-slate-200 h-screen sticky top-0 overflow-hidden">
         {/* Desktop Header */}
         <div className="p-6 border-b border-slate-100 flex items-center justify-between bg-slate-50">
-          <div className="flex items-center gap-3 font-bold text-xl text-slate-800">
+          <div className="flex items-center gap-3 min-w-0">
             <div className="bg-blue-600 text-white p-2 rounded-lg"><Trophy size={20} /></div>
-            Sport Plánovač
+            <div className="min-w-0">
+              <div className="font-bold text-xl text-slate-800 leading-tight">Sport Plánovač</div>
+              <GroupSwitcher groups={groups} activeGroupId={activeGroup.id} onSelect={handleSelectGroup} />
+            </div>
           </div>
           <div className="flex items-center gap-3">
             <span className="text-sm font-medium text-slate-600">Ahoj, {currentUser.name}</span>
-            <button onClick={() => setShowStats(true)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all" title="Statistiky">
+            <button onClick={() => { setShowStats(true); setShowTournaments(false); }} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all" title="Statistiky">
               <BarChart3 size={20} />
             </button>
+            <button onClick={() => { setShowTournaments(true); setShowStats(false); }} className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-all" title="Turnaje">
+              <Medal size={20} />
+            </button>
             <button onClick={() => downloadICS(events)} className="p-2 text-slate-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-all" title="Export do kalendáře">
               <Download size={20} />
             </button>
             <button onClick={() => setIsSettingsOpen(true)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all" title="Bankovní účty">
               <Settings size={20} />
             </button>
-            <button onClick={() => { setShowChangelog(true); setShowStats(false); }} className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-all" title="Seznam změn">
+            <button onClick={() => { setShowChangelog(true); setShowStats(false); setShowTournaments(false); }} className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-all" title="Seznam změn">
               <Info size={20} />
             </button>
             <button onClick={handleLogout} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all" title="Odhlásit">
@@ -300,7 +405,8 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        <UnpaidBanner debts={unpaidDebts} />
+        <OfflineBanner isOnline={isOnline} pendingCount={pendingCount} rejected={rejected} events={events} onDismissRejected={dismissRejected} />
+        <UnpaidBanner debts={unpaidDebts} onSettle={() => setIsSettlementOpen(true)} />
 
         <div className="p-4 overflow-y-auto custom-scrollbar flex-1">
           <div className="mb-6">
@@ -310,6 +416,8 @@ const App: React.FC = () => {
               onDateChange={handleDateSelect}
               onMonthChange={setViewDate}
               events={events}
+              onVisibleRangeChange={ensureRange}
+              isLoadingRange={isLoadingRange}
             />
           </div>
           <EventList
@@ -317,12 +425,14 @@ const App: React.FC = () => {
             selectedEventId={selectedEventId}
             selectedDate={selectedDate}
             onSelectEvent={setSelectedEventId}
-            onDeleteEvent={handleRequestDelete}
+            onDeleteEvent={handleDeleteEvent}
             onShowUpcoming={handleShowUpcoming}
-            onCreateEvent={() => setIsModalOpen(true)}
+            onCreateEvent={handleOpenCreate}
             sportConfigs={sportConfigs}
             sportFilter={sportFilter}
             onSportFilterChange={setSportFilter}
+            onLoadMore={hasMoreUpcoming ? loadMoreUpcoming : undefined}
+            isLoadingMore={isLoadingMore}
           />
         </div>
       </div>
@@ -332,10 +442,21 @@ const App: React.FC = () => {
         {showChangelog ? (
           <ReleaseNotesPage onClose={() => setShowChangelog(false)} />
         ) : showStats ? (
-          <StatsPage events={events} currentUser={currentUser} isLoading={isLoading} onClose={() => setShowStats(false)} sportConfigs={sportConfigs} />
+          <StatsPage events={events} currentUser={currentUser} isLoading={isLoading} onClose={() => setShowStats(false)} sportConfigs={sportConfigs} history={history} onLoadHistory={loadHistory} tournaments={tournaments} />
+        ) : showTournaments ? (
+          <TournamentsPage
+            tournaments={tournaments}
+            currentUser={currentUser}
+            users={users}
+            sportConfigs={sportConfigs}
+            onClose={() => setShowTournaments(false)}
+            onCreate={createTournament}
+            onUpdate={updateTournament}
+            onDelete={deleteTournament}
+          />
         ) : selectedEvent ? (
           <ErrorBoundary fallbackMessage="Chyba při zobrazení detailu události">
-            <EventDetail event={selectedEvent} currentUser={currentUser} bankAccounts={bankAccounts} sportConfigs={sportConfigs} allEvents={events} allUsers={users} onUpdate={updateEvent} onDelete={handleRequestDelete} />
+            <EventDetail event={selectedEvent} currentUser={currentUser} bankAccounts={bankAccounts} sportConfigs={sportConfigs} allEvents={events} allUsers={users} history={history} onLoadHistory={loadHistory} viewers={viewers} onUpdate={updateEvent} onDelete={handleRequestDelete} />
           </ErrorBoundary>
         ) : (
           <div className="h-full flex flex-col items-center justify-center text-slate-400 space-y-4 min-h-[50vh]">
@@ -360,6 +481,12 @@ const App: React.FC = () => {
         onConfirm={confirmDelete}
         onCancel={() => setEventToDelete(null)}
       />
+      <EventConflictModal
+        eventTitle={conflict?.theirs.title ?? null}
+        fields={conflict?.merge.conflicts ?? []}
+        onKeepMine={() => resolveConflict('mine')}
+        onKeepTheirs={() => resolveConflict('theirs')}
+      />
       {currentUser && (
         <BankAccountSettingsModal
           isOpen={isSettingsOpen}
@@ -368,9 +495,33 @@ const App: React.FC = () => {
           bankAccounts={bankAccounts}
           onBankAccountsChange={setBankAccounts}
           onUserUpdate={handleUserUpdate}
+          onSessionRenewed={renewToken}
+          onAccountDeleted={() => { setIsSettingsOpen(false); handleLogout(); }}
           onShowChangelog={() => { setShowChangelog(true); setMobileView('changelog'); }}
           sportConfigs={sportConfigs}
           onSportConfigsChange={setSportConfigs}
+          users={users}
+          onUsersChange={handleMembersChange}
+          activeGroup={activeGroup}
+          onGroupsChange={loadGroups}
+          onCreateGroup={createGroup}
+          onJoinGroup={joinGroup}
+          onOpenPaymentImport={() => setIsPaymentImportOpen(true)}
+          onOpenSettlement={() => setIsSettlementOpen(true)}
+        />
+      )}
+      {isPaymentImportOpen && (
+        <PaymentImportModal events={events} sportConfigs={sportConfigs} onClose={() => setIsPaymentImportOpen(false)} onImported={loadEvents} />
+      )}
+      {isSettlementOpen && currentUser && (
+        <SettlementModal
+          currentUser={currentUser}
+          events={events}
+          users={users}
+          bankAccounts={bankAccounts}
+          sportConfigs={sportConfigs}
+          onClose={() => setIsSettlementOpen(false)}
+          onSettled={loadEvents}
         />
       )}
     </div>
@@ -0,0 +1,78 @@
+import type { Redis } from '@upstash/redis';
+import type { AuditAction } from '../../types.js';
+
+/**
+ * Append-only audit trail for api/* handlers.
+ *
+ * Each entry is stored once under `audit:{id}` and indexed by timestamp in
+ * sorted sets: `audit:all`, `audit:group:{groupId}`, `audit:event:{eventId}`
+ * and `audit:user:{userId}` (both the actor and the affected user). Entries are never updated or
+ * deleted — not even when the event or user they describe is removed.
+ */
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  /** Signed-in user who made the change */
+  actorId: string;
+  action: AuditAction;
+  /** Group the change happened in — absent for account-level changes */
+  groupId?: string;
+  eventId?: string;
+  /** User the change is about (attendance owner, edited profile) */
+  userId?: string;
+  changes: Record<string, AuditChange>;
+}
+
+/**
+ * Field-level diff of two records. Values are compared by their JSON form,
+ * so nested arrays (teams, score) count as changed only when they differ.
+ */
+export function diffRecords(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+  ignore: string[] = [],
+): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of keys) {
+    if (ignore.includes(key)) continue;
+    const prev = before?.[key] ?? null;
+    const next = after?.[key] ?? null;
+    if (JSON.stringify(prev) !== JSON.stringify(next)) {
+      changes[key] = { before: prev, after: next };
+    }
+  }
+  return changes;
+}
+
+/** Append an entry — no-op when nothing actually changed */
+export async function recordAudit(
+  redis: Redis,
+  entry: Omit<AuditEntry, 'id' | 'timestamp'>,
+): Promise<void> {
+  if (Object.keys(entry.changes).length === 0) return;
+
+  const timestamp = Date.now();
+  const id = timestamp.toString(36) + Math.random().toString(36).substring(2);
+  const stored: AuditEntry = { id, timestamp, ...entry };
+
+  const pipeline = redis.pipeline();
+  pipeline.set(`audit:${id}`, JSON.stringify(stored));
+  pipeline.zadd('audit:all', { score: timestamp, member: id });
+  if (entry.groupId) {
+    pipeline.zadd(`audit:group:${entry.groupId}`, { score: timestamp, member: id });
+  }
+  if (entry.eventId) {
+    pipeline.zadd(`audit:event:${entry.eventId}`, { score: timestamp, member: id });
+  }
+  for (const userId of new Set([entry.actorId, entry.userId].filter(Boolean) as string[])) {
+    pipeline.zadd(`audit:user:${userId}`, { score: timestamp, member: id });
+  }
+  await pipeline.exec();
+}
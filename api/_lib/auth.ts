@@ -0,0 +1,164 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Redis } from '@upstash/redis';
+import { createHmac, randomBytes, randomInt, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+/**
+ * Shared session helpers for api/* handlers.
+ *
+ * Sessions are signed tokens: `base64url(payload).base64url(hmac)`, signed
+ * with AUTH_SECRET. PINs are never stored — only a salted scrypt hash under
+ * `credentials:{userId}` in Redis. A token issued before the PIN was last set
+ * (`updatedAt`) is no longer accepted, so a new PIN signs out old devices.
+ *
+ * A profile without credentials (created before PINs existed) gets its first
+ * PIN with a one-time setup code — from a group admin (PUT /api/groups) or,
+ * when nobody in the group can sign in yet, from `npm run setup-code` —
+ * hashed the same way under `auth:setup:{userId}` until it is used or expires.
+ */
+
+const scryptAsync = promisify(scrypt) as (pin: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/** Sessions stay valid for 30 days — the app is used weekly on personal phones */
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const HASH_KEY_LENGTH = 64;
+
+export interface Session {
+  userId: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface StoredCredentials {
+  salt: string;
+  hash: string;
+  updatedAt: number;
+}
+
+interface ResponseLike extends ServerResponse {
+  status(code: number): ResponseLike;
+  json(data: any): void;
+}
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+// --- Tokens ---
+
+export function createSessionToken(userId: string, now: number = Date.now()): string {
+  const session: Session = { userId, issuedAt: now, expiresAt: now + SESSION_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifySessionToken(token: string, now: number = Date.now()): Session | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const session: Session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!session.userId || typeof session.expiresAt !== 'number') return null;
+    if (session.expiresAt <= now) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Unsubscribe links in e-mails have no expiry — an old digest must still
+ * work. The purpose is part of the payload so a link is never a session.
+ */
+export function createUnsubscribeToken(userId: string): string {
+  const payload = Buffer.from(JSON.stringify({ userId, purpose: 'unsubscribe' })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/** The user the unsubscribe link was issued for, or null */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return data.purpose === 'unsubscribe' && typeof data.userId === 'string' ? data.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Extract and verify the Bearer token, or return null — also when the PIN changed since it was issued */
+export async function getSession(redis: Redis, req: IncomingMessage): Promise<Session | null> {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  const session = verifySessionToken(header.slice('Bearer '.length).trim());
+  if (!session) return null;
+
+  const stored: any = await redis.get(`credentials:${session.userId}`);
+  const credentials: StoredCredentials | null = typeof stored === 'string' ? JSON.parse(stored) : stored;
+  if (credentials?.updatedAt && session.issuedAt < credentials.updatedAt) return null;
+  return session;
+}
+
+/**
+ * Verify the session before a mutation. Sends 401 and returns null when the
+ * request is not authenticated — callers should simply `return` in that case.
+ */
+export async function requireSession(redis: Redis, req: IncomingMessage, res: ResponseLike): Promise<Session | null> {
+  const session = await getSession(redis, req);
+  if (!session) {
+    res.status(401).json({ error: 'Přihlášení vypršelo. Přihlaste se prosím znovu.' });
+    return null;
+  }
+  return session;
+}
+
+// --- PIN hashing ---
+
+export async function hashPin(pin: string): Promise<StoredCredentials> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(pin, salt, HASH_KEY_LENGTH);
+  return { salt: salt.toString('base64'), hash: hash.toString('base64'), updatedAt: Date.now() };
+}
+
+export async function verifyPin(pin: string, credentials: StoredCredentials): Promise<boolean> {
+  const expected = Buffer.from(credentials.hash, 'base64');
+  const actual = await scryptAsync(pin, Buffer.from(credentials.salt, 'base64'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// --- Setup codes ---
+
+export const SETUP_CODE_PREFIX = 'auth:setup:';
+/** An unused setup code expires after a week */
+export const SETUP_CODE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Random 8-digit code, see SETUP_CODE_PATTERN */
+export function generateSetupCode(): string {
+  return randomInt(0, 100_000_000).toString().padStart(8, '0');
+}
+
+/** Issue a fresh setup code for a user, replacing any earlier one, and return it */
+export async function createSetupCode(redis: Redis, userId: string): Promise<string> {
+  const setupCode = generateSetupCode();
+  await redis.set(`${SETUP_CODE_PREFIX}${userId}`, JSON.stringify(await hashPin(setupCode)), { ex: SETUP_CODE_TTL_SECONDS });
+  return setupCode;
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import type { Redis } from '@upstash/redis';
+import { LocalRedis } from './localRedis.js';
+import { leavePresence, listPresence, presenceMember, touchPresence } from './changes.js';
+
+describe('presence', () => {
+  it('keeps a user listed until their last stream on the event closes', async () => {
+    const redis = new LocalRedis() as unknown as Redis;
+    const firstTab = presenceMember('u1', 'c1');
+    const secondTab = presenceMember('u1', 'c2');
+    await touchPresence(redis, 'e1', firstTab);
+    await touchPresence(redis, 'e1', secondTab);
+    await touchPresence(redis, 'e1', presenceMember('u2', 'c3'));
+
+    expect(await listPresence(redis, 'e1')).toEqual(['u1', 'u2']);
+
+    await leavePresence(redis, 'e1', firstTab);
+    expect(await listPresence(redis, 'e1')).toEqual(['u1', 'u2']);
+
+    await leavePresence(redis, 'e1', secondTab);
+    expect(await listPresence(redis, 'e1')).toEqual(['u2']);
+  });
+});
@@ -0,0 +1,82 @@
+import type { IncomingMessage } from 'node:http';
+import type { Redis } from '@upstash/redis';
+
+/**
+ * Change feed and presence for /api/stream.
+ *
+ * Every write to an event, its attendance or a tournament bumps the group's
+ * revision and appends a notice — only what changed, clients fetch the data
+ * themselves, so the feed never leaks more than the GET endpoints would:
+ *   group:{id}:rev         → counter, the last published revision
+ *   group:{id}:changes     → sorted set revision → notice, last MAX_CHANGES kept
+ *   presence:event:{id}    → sorted set userId:connectionId → last heartbeat
+ *
+ * Presence is kept per stream, so a user with the event open in two tabs
+ * stays listed until the last one closes.
+ */
+
+const MAX_CHANGES = 200;
+const PRESENCE_TTL_MS = 30_000;
+
+/** Sent by the client so it can skip its own changes (other tabs of the same user still sync) */
+export const CLIENT_HEADER = 'x-client-id';
+
+/** What changed — an event (kind 'event', 'attendance' or 'delete') or a tournament */
+export type ChangeTarget =
+  | { kind: 'event' | 'attendance' | 'delete'; eventId: string }
+  | { kind: 'tournament'; tournamentId: string };
+
+export type ChangeNotice = ChangeTarget & {
+  rev: number;
+  actorId: string;
+  clientId?: string;
+  at: number;
+};
+
+export function getClientId(req: IncomingMessage): string | undefined {
+  const header = req.headers[CLIENT_HEADER];
+  return (Array.isArray(header) ? header[0] : header) || undefined;
+}
+
+/** Announce a change of an event or tournament to everyone streaming the group */
+export async function publishChange(
+  redis: Redis,
+  groupId: string,
+  change: ChangeTarget & { actorId: string; clientId?: string },
+): Promise<void> {
+  const rev = await redis.incr(`group:${groupId}:rev`);
+  const notice: ChangeNotice = { rev, ...change, at: Date.now() };
+  const key = `group:${groupId}:changes`;
+  await redis.zadd(key, { score: rev, member: JSON.stringify(notice) });
+  await redis.zremrangebyscore(key, 0, rev - MAX_CHANGES);
+}
+
+export async function currentRev(redis: Redis, groupId: string): Promise<number> {
+  return Number(await redis.get(`group:${groupId}:rev`)) || 0;
+}
+
+/** Notices published after `afterRev`, oldest first */
+export async function readChanges(redis: Redis, groupId: string, afterRev: number): Promise<ChangeNotice[]> {
+  const raw = await redis.zrange<unknown[]>(`group:${groupId}:changes`, `(${afterRev}`, '+inf', { byScore: true });
+  return raw.map(item => (typeof item === 'string' ? JSON.parse(item) : item) as ChangeNotice);
+}
+
+/** Presence entry of one stream — `connectionId` is unique per connection */
+export const presenceMember = (userId: string, connectionId: string) => `${userId}:${connectionId}`;
+
+export async function touchPresence(redis: Redis, eventId: string, member: string): Promise<void> {
+  await redis.zadd(`presence:event:${eventId}`, { score: Date.now(), member });
+}
+
+export async function leavePresence(redis: Redis, eventId: string, member: string): Promise<void> {
+  await redis.zrem(`presence:event:${eventId}`, member);
+}
+
+/** Users with an open stream on the event — a missed heartbeat drops them */
+export async function listPresence(redis: Redis, eventId: string): Promise<string[]> {
+  const key = `presence:event:${eventId}`;
+  await redis.zremrangebyscore(key, 0, Date.now() - PRESENCE_TTL_MS);
+  const members = await redis.zrange<string[]>(key, 0, -1);
+  const userIds = new Set(members.map(member => member.slice(0, member.lastIndexOf(':'))));
+  return [...userIds].sort();
+}
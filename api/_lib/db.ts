@@ -0,0 +1,53 @@
+import { Redis } from '@upstash/redis';
+import { LocalRedis } from './localRedis.js';
+import { createMemoryRepos } from './repos/memory.js';
+import { createUpstashRepos } from './repos/upstash.js';
+import type { Repositories } from './repos/types.js';
+
+/**
+ * The one place that decides where the API keeps its data.
+ *
+ *   upstash (default) — Upstash Redis from volejbal_KV_REST_API_URL/TOKEN
+ *   memory            — this process only, empty on every start; chosen by
+ *                       `STORAGE_BACKEND=memory` or `--storage=memory` on
+ *                       the local dev server, needs no cloud account
+ *
+ * Handlers take their clients at module load — the dev server selects the
+ * backend before it imports them.
+ */
+
+export type StorageBackend = 'upstash' | 'memory';
+
+const BACKENDS: StorageBackend[] = ['upstash', 'memory'];
+
+let redis: Redis | null = null;
+let repos: Repositories | null = null;
+
+export function getStorageBackend(): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND as StorageBackend | undefined;
+  if (backend && !BACKENDS.includes(backend)) {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}" — use ${BACKENDS.join(' or ')}`);
+  }
+  return backend ?? 'upstash';
+}
+
+/** Redis client for the data outside the repositories (groups, sessions, audit, notifications) */
+export function getRedis(): Redis {
+  if (!redis) {
+    redis = getStorageBackend() === 'memory'
+      // Same command surface as far as the API goes — see localRedis.ts
+      ? new LocalRedis() as unknown as Redis
+      : new Redis({
+        url: process.env.volejbal_KV_REST_API_URL!,
+        token: process.env.volejbal_KV_REST_API_TOKEN!,
+      });
+  }
+  return redis;
+}
+
+export function getRepos(): Repositories {
+  if (!repos) {
+    repos = getStorageBackend() === 'memory' ? createMemoryRepos() : createUpstashRepos(getRedis());
+  }
+  return repos;
+}
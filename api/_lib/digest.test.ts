@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { planDigest, renderDigest, type Digest, type DigestDebt, type DigestGroup } from './digest.js';
+import { buildSpayd } from '../../shared/spayd.js';
+import { convertToCZIBAN } from '../../shared/iban.js';
+import { getVariableSymbol } from '../../shared/variableSymbol.js';
+
+// 12:00 in Prague (CET) on Friday
+const now = new Date('2026-03-20T11:00:00Z');
+
+const makeEvent = (id: string, date: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  title: 'Volejbal',
+  date,
+  time: '18:00',
+  location: 'Hala',
+  totalCost: 400,
+  accountNumber: '',
+  participants: [] as any[],
+  ...overrides,
+});
+
+const joined = (userId: string, hasPaid = false) => ({ userId, name: userId, status: 'joined', hasPaid });
+
+const group = (events: any[], overrides: Partial<DigestGroup> = {}): DigestGroup => ({
+  name: 'Středa',
+  events,
+  sportConfigs: [{ type: 'volejbal', label: 'Volejbal', maxPlayers: 12 }],
+  bankAccounts: [],
+  ...overrides,
+});
+
+describe('planDigest', () => {
+  it('lists the events from today to a week ahead in Prague time, in order, with the member\'s answer', () => {
+    const events = [
+      makeEvent('yesterday', '2026-03-19'),
+      makeEvent('last-day', '2026-03-27', { time: '09:00' }),
+      makeEvent('today', '2026-03-20', { participants: [joined('u1'), joined('u2')] }),
+      makeEvent('too-far', '2026-03-28'),
+    ];
+
+    const { upcoming } = planDigest('u1', [group(events)], now);
+
+    expect(upcoming.map(e => e.eventId)).toEqual(['today', 'last-day']);
+    expect(upcoming[0]).toEqual({
+      groupName: 'Středa', eventId: 'today', title: 'Volejbal', date: '2026-03-20', time: '18:00',
+      location: 'Hala', status: 'joined', joinedCount: 2, maxPlayers: 12,
+    });
+    expect(upcoming[1].status).toBeNull();
+  });
+
+  it('adds each unpaid share with a QR payment to the event\'s receiving account', () => {
+    const account = { id: 'acc1', ownerName: 'Jana', accountNumber: '19-2000145399/0800', userId: 'u9' };
+    const event = makeEvent('e1', '2026-03-12', { selectedBankAccountId: 'acc1', participants: [joined('u1'), joined('u2', true)] });
+
+    const { debts } = planDigest('u1', [group([event], { bankAccounts: [account] })], now);
+
+    const variableSymbol = getVariableSymbol('e1', 'u1');
+    expect(debts).toEqual([{
+      groupName: 'Středa',
+      eventId: 'e1',
+      title: 'Volejbal',
+      date: '2026-03-12',
+      amount: 200,
+      guestName: undefined,
+      variableSymbol,
+      accountNumber: '19-2000145399/0800',
+      spayd: buildSpayd({ iban: convertToCZIBAN('19-2000145399/0800')!, amount: 200, variableSymbol, message: 'Volejbal 2026-03-12' }),
+    }]);
+  });
+
+  it('leaves out the QR payment when the event has no account', () => {
+    const event = makeEvent('e1', '2026-03-12', { participants: [joined('u1')] });
+
+    const [debt] = planDigest('u1', [group([event])], now).debts;
+
+    expect(debt.accountNumber).toBeUndefined();
+    expect(debt.spayd).toBeUndefined();
+  });
+});
+
+describe('renderDigest', () => {
+  const links = { appUrl: 'https://app.example', unsubscribeUrl: 'https://app.example/api/digest/unsubscribe?token=abc' };
+
+  const debt = (eventId: string, overrides: Partial<DigestDebt> = {}): DigestDebt => ({
+    groupName: 'Středa', eventId, title: 'Volejbal', date: '2026-03-12', amount: 200, variableSymbol: '123', ...overrides,
+  });
+
+  it('escapes titles and locations in the HTML part', async () => {
+    const digest: Digest = {
+      upcoming: [{
+        groupName: 'A&B', eventId: 'e1', title: '<b>Turnaj</b> "finále"', date: '2026-03-20', time: '18:00',
+        location: '<script>alert(1)</script>', status: null, joinedCount: 0,
+      }],
+      debts: [],
+    };
+
+    const { html, text } = await renderDigest('Jana', digest, links);
+
+    expect(html).toContain('&lt;b&gt;Turnaj&lt;/b&gt; &quot;finále&quot;');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('A&amp;B');
+    expect(html).not.toContain('<script>');
+    // The text part is plain text
+    expect(text).toContain('<b>Turnaj</b> "finále"');
+  });
+
+  it('pairs each QR image with its own debt when some debts have no account', async () => {
+    const digest: Digest = {
+      upcoming: [],
+      debts: [debt('e1', { spayd: 'SPD*1.0*A' }), debt('e2'), debt('e3', { spayd: 'SPD*1.0*C' })],
+    };
+
+    const { html, attachments, subject } = await renderDigest('Jana', digest, links);
+
+    expect(subject).toBe('Týdenní přehled — 0 akcí, k úhradě 600 Kč');
+    expect(attachments?.map(a => a.cid)).toEqual(['qr-0@sport-planovac', 'qr-2@sport-planovac']);
+    expect(html).toContain('<img src="cid:qr-0@sport-planovac" width="160" height="160" alt="QR platba 1">');
+    expect(html).toContain('<img src="cid:qr-2@sport-planovac" width="160" height="160" alt="QR platba 3">');
+    expect(html.match(/Akce nemá nastavený účet pro QR platbu/g)).toHaveLength(1);
+  });
+
+  it('offers a one-click unsubscribe in the headers and both parts', async () => {
+    const message = await renderDigest('Jana', { upcoming: [], debts: [] }, links);
+
+    expect(message.headers).toEqual({
+      'List-Unsubscribe': `<${links.unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+    expect(message.text).toContain(`Odhlásit odběr: ${links.unsubscribeUrl}`);
+    expect(message.html).toContain('href="https://app.example/api/digest/unsubscribe?token=abc"');
+  });
+});
@@ -0,0 +1,226 @@
+import QRCode from 'qrcode';
+import type { MailAttachment, MailMessage } from './mail.js';
+import { eventUrl, shortDate } from './notifications.js';
+import { pragueWallClock } from '../../shared/eventTime.js';
+import { calculateDebts } from '../../shared/debt.js';
+import { buildSpayd } from '../../shared/spayd.js';
+import { convertToCZIBAN } from '../../shared/iban.js';
+import { receivingAccount } from '../../shared/receivingAccount.js';
+
+/**
+ * Weekly e-mail digest: upcoming events with the member's answer, and
+ * unpaid shares with a QR payment each. planDigest() only picks the data,
+ * renderDigest() turns it into the text and HTML parts of one message.
+ */
+
+/** Events up to a week ahead — the next digest covers the rest */
+export const DIGEST_DAYS_AHEAD = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** One group of the member, loaded the same way GET /api/events does */
+export interface DigestGroup {
+  name: string;
+  events: any[];
+  sportConfigs: any[];
+  bankAccounts: any[];
+}
+
+export type RsvpStatus = 'joined' | 'maybe' | 'declined' | 'waitlist';
+
+export interface DigestEvent {
+  groupName: string;
+  eventId: string;
+  title: string;
+  date: string;
+  time: string;
+  location?: string;
+  status: RsvpStatus | null; // null — no answer yet
+  joinedCount: number;
+  maxPlayers?: number;
+}
+
+export interface DigestDebt {
+  groupName: string;
+  eventId: string;
+  title: string;
+  date: string;
+  amount: number;
+  guestName?: string;
+  variableSymbol?: string;
+  accountNumber?: string;
+  spayd?: string; // missing when the event has no valid receiving account
+}
+
+export interface Digest {
+  upcoming: DigestEvent[];
+  debts: DigestDebt[];
+}
+
+const STATUS_LABELS: Record<RsvpStatus, string> = {
+  joined: 'Jdu',
+  maybe: 'Možná',
+  declined: 'Nejdu',
+  waitlist: 'Čekací listina',
+};
+
+const statusLabel = (status: RsvpStatus | null): string => (status ? STATUS_LABELS[status] : 'Bez odpovědi');
+
+export function planDigest(userId: string, groups: DigestGroup[], now: Date): Digest {
+  const today = new Date(pragueWallClock(now)).toISOString().slice(0, 10);
+  const lastDay = new Date(pragueWallClock(now) + DIGEST_DAYS_AHEAD * DAY_MS).toISOString().slice(0, 10);
+  const upcoming: DigestEvent[] = [];
+  const debts: DigestDebt[] = [];
+
+  for (const group of groups) {
+    for (const event of group.events) {
+      if (event.date < today || event.date > lastDay) continue;
+      const config = group.sportConfigs.find(c => c.type === (event.sportType ?? 'volejbal'));
+      upcoming.push({
+        groupName: group.name,
+        eventId: event.id,
+        title: event.title,
+        date: event.date,
+        time: event.time,
+        location: event.location || undefined,
+        status: event.participants.find((p: any) => p.userId === userId)?.status ?? null,
+        joinedCount: event.participants.filter((p: any) => p.status === 'joined').length,
+        maxPlayers: config?.maxPlayers,
+      });
+    }
+
+    for (const debt of calculateDebts(group.events, userId, group.sportConfigs, now)) {
+      const { event } = debt;
+      const accountNumber = receivingAccount(event, group.bankAccounts).accountNumber || undefined;
+      const iban = accountNumber ? convertToCZIBAN(accountNumber) : null;
+      const label = group.sportConfigs.find(c => c.type === (event.sportType ?? 'volejbal'))?.label ?? event.title;
+      debts.push({
+        groupName: group.name,
+        eventId: event.id,
+        title: event.title,
+        date: event.date,
+        amount: debt.amount,
+        guestName: debt.guest?.name,
+        variableSymbol: debt.variableSymbol,
+        accountNumber,
+        spayd: iban
+          ? buildSpayd({ iban, amount: debt.amount, variableSymbol: debt.variableSymbol, message: `${label} ${event.date}` })
+          : undefined,
+      });
+    }
+  }
+
+  upcoming.sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+  debts.sort((a, b) => a.date.localeCompare(b.date));
+  return { upcoming, debts };
+}
+
+export const isEmptyDigest = (digest: Digest): boolean => digest.upcoming.length === 0 && digest.debts.length === 0;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const capacity = (e: DigestEvent): string => (e.maxPlayers ? `${e.joinedCount}/${e.maxPlayers}` : `${e.joinedCount}`);
+
+const debtLabel = (d: DigestDebt): string =>
+  `${d.amount} Kč${d.guestName ? ` za hosta ${d.guestName}` : ''}${d.variableSymbol ? `, VS ${d.variableSymbol}` : ''}`;
+
+/** 1–4 akce, 0 and 5+ akcí */
+const eventCount = (count: number): string => `${count} ${count >= 1 && count <= 4 ? 'akce' : 'akcí'}`;
+
+export interface DigestLinks {
+  appUrl: string; // origin the event links are resolved against
+  unsubscribeUrl: string;
+}
+
+/** Text and HTML of the digest; QR payments are inline PNG attachments */
+export async function renderDigest(
+  userName: string,
+  digest: Digest,
+  links: DigestLinks,
+): Promise<Omit<MailMessage, 'to'>> {
+  const total = digest.debts.reduce((sum, d) => sum + d.amount, 0);
+  const subject = digest.debts.length > 0
+    ? `Týdenní přehled — ${eventCount(digest.upcoming.length)}, k úhradě ${total} Kč`
+    : `Týdenní přehled — ${eventCount(digest.upcoming.length)}`;
+  const link = (eventId: string) => `${links.appUrl}${eventUrl({ id: eventId })}`;
+
+  const attachments: MailAttachment[] = [];
+  for (const [i, debt] of digest.debts.entries()) {
+    if (!debt.spayd) continue;
+    attachments.push({
+      filename: `qr-platba-${i + 1}.png`,
+      content: await QRCode.toBuffer(debt.spayd, { type: 'png', width: 200, margin: 1 }),
+      contentType: 'image/png',
+      cid: `qr-${i}@sport-planovac`,
+    });
+  }
+
+  const text = [
+    `Ahoj ${userName},`,
+    '',
+    'NADCHÁZEJÍCÍ AKCE',
+    ...(digest.upcoming.length > 0
+      ? digest.upcoming.map(e =>
+        `- ${shortDate(e.date)} ${e.time} ${e.title} (${e.groupName})${e.location ? `, ${e.location}` : ''} — ${statusLabel(e.status)}, přihlášeno ${capacity(e)}\n  ${link(e.eventId)}`)
+      : ['Tento týden nic naplánováno.']),
+    ...(digest.debts.length > 0
+      ? [
+        '',
+        `K ÚHRADĚ (celkem ${total} Kč)`,
+        ...digest.debts.map(d =>
+          `- ${d.title} ${shortDate(d.date)} (${d.groupName}): ${debtLabel(d)}${d.accountNumber ? `, účet ${d.accountNumber}` : ''}`),
+      ]
+      : []),
+    '',
+    `Odhlásit odběr: ${links.unsubscribeUrl}`,
+  ].join('\n');
+
+  const cell = 'padding:6px 8px;border-bottom:1px solid #e2e8f0;vertical-align:top;';
+  const eventRows = digest.upcoming.map(e => `
+      <tr>
+        <td style="${cell}white-space:nowrap;">${shortDate(e.date)} ${escapeHtml(e.time)}</td>
+        <td style="${cell}"><a href="${escapeHtml(link(e.eventId))}" style="color:#2563eb;">${escapeHtml(e.title)}</a><br><span style="color:#64748b;font-size:12px;">${escapeHtml(e.groupName)}${e.location ? ` • ${escapeHtml(e.location)}` : ''}</span></td>
+        <td style="${cell}white-space:nowrap;">${statusLabel(e.status)}<br><span style="color:#64748b;font-size:12px;">${capacity(e)}</span></td>
+      </tr>`).join('');
+
+  let qrIndex = 0;
+  const debtBlocks = digest.debts.map((d, i) => {
+    const qr = d.spayd ? attachments[qrIndex++] : undefined;
+    return `
+      <div style="border:1px solid #e2e8f0;border-radius:8px;padding:12px;margin-bottom:12px;">
+        <p style="margin:0 0 4px;font-weight:600;"><a href="${escapeHtml(link(d.eventId))}" style="color:#0f172a;">${escapeHtml(d.title)} ${shortDate(d.date)}</a> <span style="color:#64748b;font-weight:400;">(${escapeHtml(d.groupName)})</span></p>
+        <p style="margin:0 0 8px;">${escapeHtml(debtLabel(d))}${d.accountNumber ? `<br><span style="color:#64748b;font-size:12px;">Účet ${escapeHtml(d.accountNumber)}</span>` : ''}</p>
+        ${qr ? `<img src="cid:${qr.cid}" width="160" height="160" alt="QR platba ${i + 1}">` : '<p style="margin:0;color:#64748b;font-size:12px;">Akce nemá nastavený účet pro QR platbu.</p>'}
+      </div>`;
+  }).join('');
+
+  const html = `<!DOCTYPE html>
+<html lang="cs">
+<body style="margin:0;padding:16px;background:#f8fafc;font-family:Arial,sans-serif;color:#0f172a;">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:20px;">
+    <p>Ahoj ${escapeHtml(userName)},</p>
+    <h2 style="font-size:16px;margin:20px 0 8px;">Nadcházející akce</h2>
+    ${digest.upcoming.length > 0
+    ? `<table style="width:100%;border-collapse:collapse;font-size:14px;">${eventRows}
+    </table>`
+    : '<p style="color:#64748b;">Tento týden nic naplánováno.</p>'}
+    ${digest.debts.length > 0 ? `<h2 style="font-size:16px;margin:20px 0 8px;">K úhradě (celkem ${total} Kč)</h2>${debtBlocks}` : ''}
+    <p style="margin-top:24px;font-size:12px;color:#64748b;">
+      Týdenní přehled ze Sport Plánovače. <a href="${escapeHtml(links.unsubscribeUrl)}" style="color:#64748b;">Odhlásit odběr</a>
+    </p>
+  </div>
+</body>
+</html>`;
+
+  return {
+    subject,
+    text,
+    html,
+    attachments,
+    headers: {
+      'List-Unsubscribe': `<${links.unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
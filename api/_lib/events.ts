@@ -0,0 +1,143 @@
+import type { Repositories } from './repos/types.js';
+import { DEFAULT_SPORT_CONFIGS, type EventQuery } from '../../types.js';
+import { decodeCursor, matchesQuery, pageLimit, toPage } from '../../shared/eventPages.js';
+import { getVariableSymbol } from '../../shared/variableSymbol.js';
+import { hasUnpaidShare } from '../../shared/debt.js';
+import { isBilled } from '../../shared/attendancePolicy.js';
+
+/**
+ * A create whose client-chosen id is taken by `stored` — fine only when it
+ * is the same create again (the offline outbox replays one whose response
+ * got lost): same group, same creator. Anything else is someone else's
+ * record and must not be overwritten.
+ */
+export const isReplayedCreate = (stored: any, member: { userId: string; groupId: string }): boolean =>
+  stored.groupId === member.groupId && stored.organizerId === member.userId;
+
+/** Sport configs of a group, the defaults until someone edits them */
+export async function loadSportConfigs(repos: Repositories, groupId: string): Promise<any[]> {
+  return await repos.sportConfigs.get(groupId) ?? DEFAULT_SPORT_CONFIGS;
+}
+
+/**
+ * All events of a group with participants hydrated from attendance records
+ * and user names — the shape the client gets from GET /api/events.
+ */
+export async function loadGroupEvents(repos: Repositories, groupId: string): Promise<any[]> {
+  const rawEvents = await repos.events.listByGroup(groupId);
+  if (rawEvents.length === 0) {
+    return [];
+  }
+  return hydrateEvents(repos, rawEvents);
+}
+
+/**
+ * Every event of the group up to `to` in which someone still owes a share,
+ * hydrated — debts and settlement need all of them, not one page of dates.
+ * Only the events in the unpaid index are loaded; the first call for a group
+ * builds that index from all of its events once.
+ */
+export async function loadUnpaidEvents(repos: Repositories, groupId: string, to?: string): Promise<any[]> {
+  const [indexed, sportConfigs] = await Promise.all([
+    repos.events.listUnpaid(groupId, to),
+    loadSportConfigs(repos, groupId),
+  ]);
+  const rawEvents = indexed ?? await buildUnpaidIndex(repos, groupId, to);
+  const events = await hydrateEvents(repos, rawEvents);
+  return events.filter(event => hasUnpaidShare(event, sportConfigs));
+}
+
+/**
+ * Keep the event in or out of its group's unpaid index — call after its
+ * attendance changed or the event was saved. The index doesn't know prices,
+ * so it holds every event with a billed record not yet paid and
+ * loadUnpaidEvents() still checks the shares.
+ */
+export async function refreshUnpaidIndex(repos: Repositories, event: any): Promise<void> {
+  const records = await repos.attendance.listByEvent(event.id);
+  await repos.events.setUnpaid(event, records.some(owesForRecord));
+}
+
+const owesForRecord = (record: any): boolean => isBilled(record) && !record.hasPaid;
+
+/** The group's events with an unpaid record, indexed — returns those up to `to` */
+async function buildUnpaidIndex(repos: Repositories, groupId: string, to?: string): Promise<any[]> {
+  const rawEvents = await repos.events.listByGroup(groupId);
+  const attendance = await Promise.all(rawEvents.map(event => repos.attendance.listByEvent(event.id)));
+  const owed = rawEvents.filter((_event, i) => attendance[i].some(owesForRecord));
+  await repos.events.indexUnpaid(groupId, owed);
+  return owed.filter(event => !to || event.date <= to);
+}
+
+/**
+ * One page of a group's events for GET /api/events, hydrated. The date
+ * index knows nothing of sports, so with `sportType` set the index is read
+ * on until the page is full or the range ends.
+ */
+export async function loadEventPage(
+  repos: Repositories,
+  groupId: string,
+  query: EventQuery,
+): Promise<{ events: any[]; nextCursor: string | null }> {
+  const limit = pageLimit(query);
+  const found: any[] = [];
+  let after = query.cursor ? decodeCursor(query.cursor) : undefined;
+
+  // One more than the page holds tells whether there is a next page
+  while (found.length <= limit) {
+    const batch = await repos.events.listByDate(groupId, { from: query.from, to: query.to, after, limit: limit + 1 });
+    found.push(...batch.filter(event => matchesQuery(event, query)));
+    if (batch.length <= limit) break;
+    after = batch[batch.length - 1];
+  }
+
+  const page = toPage(found, limit);
+  return { events: await hydrateEvents(repos, page.events), nextCursor: page.nextCursor };
+}
+
+/** One event in the GET /api/events shape, or null when it doesn't exist */
+export async function loadHydratedEvent(repos: Repositories, eventId: string): Promise<any | null> {
+  const raw = await repos.events.get(eventId);
+  if (!raw) return null;
+  const [event] = await hydrateEvents(repos, [raw]);
+  return event;
+}
+
+async function hydrateEvents(repos: Repositories, rawEvents: any[]): Promise<any[]> {
+  if (rawEvents.length === 0) return [];
+  const attendance = await Promise.all(rawEvents.map(event => repos.attendance.listByEvent(event.id)));
+
+  // Only the users who answered, for their names and photos
+  const userIds = [...new Set(attendance.flat().filter((record: any) => !record.isGuest).map((record: any) => record.userId))];
+  const usersMap: Record<string, any> = {};
+  for (const u of await repos.users.getMany(userIds)) {
+    usersMap[u.id] = u;
+  }
+
+  // Hydrate each event with participants
+  return rawEvents.map((event: any, i) => {
+    const attendanceRecords = attendance[i];
+
+    // Oldest answer first — the waitlist is served in this order
+    attendanceRecords.sort((a: any, b: any) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+    const participants = attendanceRecords.map((record: any) => {
+      const user = usersMap[record.userId];
+      return {
+        userId: record.userId,
+        name: record.isGuest ? record.guestName ?? 'Host' : user ? user.name : 'Neznámý',
+        photoUrl: user?.photoUrl,
+        hasMultisportCard: user?.hasMultisportCard,
+        status: record.status,
+        hasPaid: record.hasPaid,
+        ...(record.isGuest ? { isGuest: true, invitedBy: record.invitedBy, paidBy: record.paidBy } : {}),
+        ...(record.confirmBy ? { confirmBy: record.confirmBy } : {}),
+        ...(record.lateCancel ? { lateCancel: true } : {}),
+        ...(record.noShow ? { noShow: true } : {}),
+        // Records written before variable symbols existed get theirs computed
+        variableSymbol: record.variableSymbol ?? getVariableSymbol(event.id, record.userId),
+      };
+    });
+
+    return { ...event, participants, sportType: event.sportType ?? 'volejbal' };
+  });
+}
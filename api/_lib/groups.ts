@@ -0,0 +1,172 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { randomInt } from 'node:crypto';
+import type { Redis } from '@upstash/redis';
+import { requireSession } from './auth.js';
+import { toRole } from '../../shared/permissions.js';
+import type { UserRole } from '../../types.js';
+
+/**
+ * Group (tenant) helpers for api/* handlers.
+ *
+ * Accounts are global, everything else belongs to a group:
+ *   group:{id}                 → { id, name, inviteCode, createdAt }
+ *   group:{id}:members         → hash userId → role
+ *   group:{id}:events          → set of event ids (replaces `events:all`)
+ *   group:{id}:sportconfigs    → sport configs of the group
+ *   user:{id}:groups           → set of group ids the user belongs to
+ *   group:invite:{code}        → group id
+ *
+ * The client sends the active group in the `X-Group-Id` header.
+ */
+
+export const GROUP_HEADER = 'x-group-id';
+
+export interface Member {
+  userId: string;
+  groupId: string;
+  role: UserRole;
+}
+
+interface RequestLike extends IncomingMessage {
+  query: Record<string, string | string[]>;
+}
+
+interface ResponseLike extends ServerResponse {
+  status(code: number): ResponseLike;
+  json(data: any): void;
+}
+
+export function getGroupId(req: RequestLike): string | null {
+  const header = req.headers[GROUP_HEADER];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value || (req.query?.groupId as string) || null;
+}
+
+/** Role of a user in a group, or null when not a member */
+export async function getMemberRole(redis: Redis, groupId: string, userId: string): Promise<UserRole | null> {
+  const role = await redis.hget<string>(`group:${groupId}:members`, userId);
+  if (!role) return null;
+  return toRole(role);
+}
+
+/**
+ * Verify the session and membership of the active group. Sends 401/400/403
+ * and returns null when the request may not touch the group's data.
+ */
+export async function requireMember(redis: Redis, req: RequestLike, res: ResponseLike): Promise<Member | null> {
+  const session = await requireSession(redis, req, res);
+  if (!session) return null;
+
+  const groupId = getGroupId(req);
+  if (!groupId) {
+    res.status(400).json({ error: 'Chybí aktivní skupina.' });
+    return null;
+  }
+
+  const role = await getMemberRole(redis, groupId, session.userId);
+  if (!role) {
+    res.status(403).json({ error: 'Nejste členem této skupiny.' });
+    return null;
+  }
+
+  return { userId: session.userId, groupId, role };
+}
+
+const INVITE_CODE_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const INVITE_CODE_LENGTH = 12;
+
+/** Random invite code — whoever knows it joins the group, so it must not be guessable */
+export function generateInviteCode(): string {
+  return Array.from({ length: INVITE_CODE_LENGTH }, () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]).join('');
+}
+
+/**
+ * One-time move of pre-group data into a first group: every existing user
+ * becomes a member (keeping their old global role), `events:all` and
+ * `sportconfigs` are copied under the group. Legacy keys are left untouched;
+ * `groups:migrated` remembers the group that owns the pre-group audit trail.
+ * Works on the Redis keys of repos/upstash.ts directly — pre-group data only
+ * exists in Upstash deployments, a memory backend has nothing to migrate.
+ *
+ * Run by the admin scripts (scripts/setup-code.ts, scripts/set-role.ts)
+ * after deploy — legacy profiles have no PIN, so no request could start it.
+ * Returns the new group, or null when there was nothing to migrate.
+ */
+export async function migrateLegacyData(redis: Redis): Promise<{ id: string; name: string } | null> {
+  if (await redis.scard('groups:all') > 0) return null;
+  const userIds = await redis.smembers('users:all');
+  if (!userIds || userIds.length === 0) return null;
+
+  // Two runs at once must not create two groups
+  const groupId = Date.now().toString(36) + Math.random().toString(36).substring(2);
+  const locked = await redis.set('groups:migrated', groupId, { nx: true });
+  if (!locked) return null;
+
+  const group = { id: groupId, name: 'Můj tým', inviteCode: generateInviteCode(), createdAt: Date.now() };
+
+  const userPipeline = redis.pipeline();
+  for (const id of userIds) {
+    userPipeline.get(`user:${id}`);
+  }
+  const users = (await userPipeline.exec()).filter(Boolean).map((u: any) => typeof u === 'string' ? JSON.parse(u) : u);
+
+  const members: Record<string, string> = {};
+  for (const user of users) {
+    members[user.id] = toRole(user.role);
+  }
+
+  const eventIds = await redis.smembers('events:all');
+  const eventPipeline = redis.pipeline();
+  for (const id of eventIds) {
+    eventPipeline.get(`event:${id}`);
+  }
+  const events = eventIds.length > 0
+    ? (await eventPipeline.exec()).filter(Boolean).map((e: any) => typeof e === 'string' ? JSON.parse(e) : e)
+    : [];
+
+  const sportConfigs = await redis.get('sportconfigs');
+
+  const pipeline = redis.pipeline();
+  pipeline.set(`group:${groupId}`, JSON.stringify(group));
+  pipeline.sadd('groups:all', groupId);
+  pipeline.set(`group:invite:${group.inviteCode}`, groupId);
+  pipeline.hset(`group:${groupId}:members`, members);
+  for (const user of users) {
+    pipeline.sadd(`user:${user.id}:groups`, groupId);
+  }
+  for (const event of events) {
+    pipeline.set(`event:${event.id}`, JSON.stringify({ ...event, groupId }));
+    pipeline.sadd(`group:${groupId}:events`, event.id);
+  }
+  pipeline.zunionstore(`audit:group:${groupId}`, 1, ['audit:all']);
+  if (sportConfigs) {
+    pipeline.set(`group:${groupId}:sportconfigs`, typeof sportConfigs === 'string' ? sportConfigs : JSON.stringify(sportConfigs));
+  }
+  await pipeline.exec();
+  return group;
+}
+
+/** Number of admins in the group other than `userId` */
+export async function countOtherAdmins(redis: Redis, groupId: string, userId: string): Promise<number> {
+  const members = await redis.hgetall<Record<string, string>>(`group:${groupId}:members`) ?? {};
+  return Object.entries(members).filter(([id, role]) => id !== userId && role === 'admin').length;
+}
+
+/**
+ * Drop a membership. When the last member leaves, the group itself and its
+ * invite code go away; its events stay behind as unreachable records.
+ */
+export async function removeMember(redis: Redis, groupId: string, userId: string): Promise<void> {
+  await redis.hdel(`group:${groupId}:members`, userId);
+  await redis.srem(`user:${userId}:groups`, groupId);
+
+  if (await redis.hlen(`group:${groupId}:members`) > 0) return;
+
+  const group: any = await redis.get(`group:${groupId}`);
+  const parsed = typeof group === 'string' ? JSON.parse(group) : group;
+  if (parsed?.inviteCode) {
+    await redis.del(`group:invite:${parsed.inviteCode}`);
+  }
+  await redis.del(`group:${groupId}`);
+  await redis.srem('groups:all', groupId);
+}
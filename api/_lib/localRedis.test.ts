@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LocalRedis } from './localRedis.js';
+
+describe('LocalRedis', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores JSON and parses it back like Upstash', async () => {
+    const redis = new LocalRedis();
+    await redis.set('user', JSON.stringify({ id: 'u1' }));
+    await redis.hset('members', { u1: 'admin' });
+
+    expect(await redis.get('user')).toEqual({ id: 'u1' });
+    expect(await redis.hgetall('members')).toEqual({ u1: 'admin' });
+    expect(await redis.hgetall('missing')).toBeNull();
+  });
+
+  it('honours NX and expiry', async () => {
+    vi.useFakeTimers();
+    const redis = new LocalRedis();
+
+    expect(await redis.set('lock', 'a', { nx: true, px: 1000 })).toBe('OK');
+    expect(await redis.set('lock', 'b', { nx: true })).toBeNull();
+
+    vi.advanceTimersByTime(1001);
+    expect(await redis.get('lock')).toBeNull();
+  });
+
+  it('ranges sorted sets by score, exclusive bounds and reversed with a limit', async () => {
+    const redis = new LocalRedis();
+    await redis.zadd('log', { score: 1, member: 'a' }, { score: 2, member: 'b' }, { score: 3, member: 'c' });
+
+    expect(await redis.zrange('log', '(1', '+inf', { byScore: true })).toEqual(['b', 'c']);
+    expect(await redis.zrange('log', '+inf', '-inf', { byScore: true, rev: true, offset: 0, count: 2 })).toEqual(['c', 'b']);
+    expect(await redis.zrange('log', 0, -1)).toEqual(['a', 'b', 'c']);
+
+    await redis.zremrangebyscore('log', 0, 2);
+    expect(await redis.zrange('log', 0, -1)).toEqual(['c']);
+  });
+
+  it('runs pipelined commands in order', async () => {
+    const redis = new LocalRedis();
+    const pipeline = redis.pipeline();
+    pipeline.sadd('ids', 'x');
+    pipeline.smembers('ids');
+    pipeline.scard('ids');
+
+    expect(await pipeline.exec()).toEqual([1, ['x'], 1]);
+  });
+});
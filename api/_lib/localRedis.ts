@@ -0,0 +1,287 @@
+/**
+ * In-process stand-in for the Upstash client, used by `--storage=memory`
+ * (scripts/dev-server.ts) for the data outside the repositories: groups,
+ * credentials, audit trail, live changes, notification state.
+ *
+ * Implements only the commands the API calls, with Upstash's serialization:
+ * values are stored as JSON strings and come back parsed. Expiry is checked
+ * lazily on access. Lua scripts (eval) are not supported — the one the API
+ * uses, the event lock, lives in the repositories instead.
+ */
+
+type Value = string | Set<string> | Map<string, string> | Map<string, number> | string[];
+
+interface Entry {
+  value: Value;
+  expiresAt?: number;
+}
+
+interface SetOptions {
+  nx?: boolean;
+  ex?: number;
+  px?: number;
+}
+
+interface ZRangeOptions {
+  byScore?: boolean;
+  rev?: boolean;
+  offset?: number;
+  count?: number;
+}
+
+const serialize = (value: unknown): string => (typeof value === 'string' ? value : JSON.stringify(value));
+
+/** Same rules as Upstash: JSON where it parses, except numbers that wouldn't round-trip (e.g. "007") */
+function deserialize(value: string): unknown {
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'number' && parsed.toString() !== value ? value : parsed;
+  } catch {
+    return value;
+  }
+}
+
+/** A score bound of ZRANGE BYSCORE: a number, "-inf"/"+inf", or "(n" for exclusive */
+function scoreBound(bound: number | string): { value: number; exclusive: boolean } {
+  if (typeof bound === 'number') return { value: bound, exclusive: false };
+  const exclusive = bound.startsWith('(');
+  const text = exclusive ? bound.slice(1) : bound;
+  const value = text === '-inf' ? -Infinity : text === '+inf' || text === 'inf' ? Infinity : Number(text);
+  return { value, exclusive };
+}
+
+/** Redis list/range indexes: negative counts from the end, stop is inclusive */
+function sliceRange<T>(items: T[], start: number, stop: number): T[] {
+  const from = start < 0 ? Math.max(items.length + start, 0) : start;
+  const to = stop < 0 ? items.length + stop : stop;
+  return items.slice(from, to + 1);
+}
+
+export class LocalRedis {
+  private data = new Map<string, Entry>();
+
+  private entry(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private read<T extends Value>(key: string, create: () => T): T {
+    const entry = this.entry(key);
+    if (entry) return entry.value as T;
+    const value = create();
+    this.data.set(key, { value });
+    return value;
+  }
+
+  /** Drop collections that became empty, as Redis does */
+  private prune(key: string): void {
+    const value = this.data.get(key)?.value;
+    const size = typeof value === 'string' ? 1 : Array.isArray(value) ? value.length : value?.size;
+    if (size === 0) this.data.delete(key);
+  }
+
+  // --- Strings ---
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const value = this.entry(key)?.value;
+    return typeof value === 'string' ? deserialize(value) as T : null;
+  }
+
+  async set(key: string, value: unknown, opts: SetOptions = {}): Promise<'OK' | null> {
+    if (opts.nx && this.entry(key)) return null;
+    const ttl = opts.px ?? (opts.ex !== undefined ? opts.ex * 1000 : undefined);
+    this.data.set(key, { value: serialize(value), expiresAt: ttl !== undefined ? Date.now() + ttl : undefined });
+    return 'OK';
+  }
+
+  async incr(key: string): Promise<number> {
+    const entry = this.entry(key);
+    const next = Number(entry?.value ?? 0) + 1;
+    this.data.set(key, { value: String(next), expiresAt: entry?.expiresAt });
+    return next;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter(key => this.entry(key) && this.data.delete(key)).length;
+  }
+
+  async expire(key: string, seconds: number): Promise<0 | 1> {
+    const entry = this.entry(key);
+    if (!entry) return 0;
+    entry.expiresAt = Date.now() + seconds * 1000;
+    return 1;
+  }
+
+  // --- Sets ---
+
+  async sadd(key: string, ...members: unknown[]): Promise<number> {
+    const set = this.read(key, () => new Set<string>());
+    const before = set.size;
+    for (const member of members) set.add(serialize(member));
+    return set.size - before;
+  }
+
+  async srem(key: string, ...members: unknown[]): Promise<number> {
+    const set = this.entry(key)?.value as Set<string> | undefined;
+    if (!set) return 0;
+    const removed = members.filter(member => set.delete(serialize(member))).length;
+    this.prune(key);
+    return removed;
+  }
+
+  async smembers<T extends unknown[] = string[]>(key: string): Promise<T> {
+    const set = this.entry(key)?.value as Set<string> | undefined;
+    return [...(set ?? [])].map(deserialize) as T;
+  }
+
+  async sismember(key: string, member: unknown): Promise<0 | 1> {
+    const set = this.entry(key)?.value as Set<string> | undefined;
+    return set?.has(serialize(member)) ? 1 : 0;
+  }
+
+  async scard(key: string): Promise<number> {
+    return (this.entry(key)?.value as Set<string> | undefined)?.size ?? 0;
+  }
+
+  // --- Hashes ---
+
+  async hset(key: string, fields: Record<string, unknown>): Promise<number> {
+    const hash = this.read(key, () => new Map<string, string>());
+    const before = hash.size;
+    for (const [field, value] of Object.entries(fields)) hash.set(field, serialize(value));
+    return hash.size - before;
+  }
+
+  async hget<T = unknown>(key: string, field: string): Promise<T | null> {
+    const value = (this.entry(key)?.value as Map<string, string> | undefined)?.get(field);
+    return value === undefined ? null : deserialize(value) as T;
+  }
+
+  async hgetall<T extends Record<string, unknown>>(key: string): Promise<T | null> {
+    const hash = this.entry(key)?.value as Map<string, string> | undefined;
+    if (!hash || hash.size === 0) return null;
+    return Object.fromEntries([...hash].map(([field, value]) => [field, deserialize(value)])) as T;
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<number> {
+    const hash = this.entry(key)?.value as Map<string, string> | undefined;
+    if (!hash) return 0;
+    const removed = fields.filter(field => hash.delete(field)).length;
+    this.prune(key);
+    return removed;
+  }
+
+  async hlen(key: string): Promise<number> {
+    return (this.entry(key)?.value as Map<string, string> | undefined)?.size ?? 0;
+  }
+
+  async hkeys(key: string): Promise<string[]> {
+    return [...((this.entry(key)?.value as Map<string, string> | undefined)?.keys() ?? [])];
+  }
+
+  // --- Sorted sets ---
+
+  async zadd(key: string, ...scoreMembers: { score: number; member: unknown }[]): Promise<number> {
+    const zset = this.read(key, () => new Map<string, number>());
+    const before = zset.size;
+    for (const { score, member } of scoreMembers) zset.set(serialize(member), score);
+    return zset.size - before;
+  }
+
+  async zrem(key: string, ...members: unknown[]): Promise<number> {
+    const zset = this.entry(key)?.value as Map<string, number> | undefined;
+    if (!zset) return 0;
+    const removed = members.filter(member => zset.delete(serialize(member))).length;
+    this.prune(key);
+    return removed;
+  }
+
+  async zrange<T extends unknown[] = string[]>(key: string, min: number | string, max: number | string, opts: ZRangeOptions = {}): Promise<T> {
+    const zset = this.entry(key)?.value as Map<string, number> | undefined;
+    let members = [...(zset ?? [])].sort(([a, sa], [b, sb]) => sa - sb || a.localeCompare(b));
+    if (opts.rev) members.reverse();
+
+    if (opts.byScore) {
+      // With REV the first bound is the upper one
+      const [lower, upper] = (opts.rev ? [max, min] : [min, max]).map(scoreBound);
+      members = members.filter(([, score]) =>
+        (lower.exclusive ? score > lower.value : score >= lower.value)
+        && (upper.exclusive ? score < upper.value : score <= upper.value));
+      if (opts.count !== undefined) {
+        members = members.slice(opts.offset ?? 0, (opts.offset ?? 0) + opts.count);
+      }
+    } else {
+      members = sliceRange(members, Number(min), Number(max));
+    }
+    return members.map(([member]) => deserialize(member)) as T;
+  }
+
+  async zremrangebyscore(key: string, min: number | string, max: number | string): Promise<number> {
+    const zset = this.entry(key)?.value as Map<string, number> | undefined;
+    if (!zset) return 0;
+    const [lower, upper] = [min, max].map(scoreBound);
+    let removed = 0;
+    for (const [member, score] of zset) {
+      if ((lower.exclusive ? score > lower.value : score >= lower.value)
+        && (upper.exclusive ? score < upper.value : score <= upper.value)) {
+        zset.delete(member);
+        removed++;
+      }
+    }
+    this.prune(key);
+    return removed;
+  }
+
+  // --- Lists ---
+
+  async rpush(key: string, ...values: unknown[]): Promise<number> {
+    const list = this.read(key, () => [] as string[]);
+    list.push(...values.map(serialize));
+    return list.length;
+  }
+
+  async lrange<T = unknown>(key: string, start: number, stop: number): Promise<T[]> {
+    const list = (this.entry(key)?.value as string[] | undefined) ?? [];
+    return sliceRange(list, start, stop).map(deserialize) as T[];
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<'OK'> {
+    const entry = this.entry(key);
+    if (entry) {
+      entry.value = sliceRange(entry.value as string[], start, stop);
+      this.prune(key);
+    }
+    return 'OK';
+  }
+
+  // --- Pipelines ---
+
+  /** Commands queued on the pipeline run in order on exec(), like an Upstash pipeline or multi */
+  pipeline(): any {
+    const queued: (() => Promise<unknown>)[] = [];
+    const pipeline: any = new Proxy({}, {
+      get: (_target, command: string) => {
+        if (command === 'exec') {
+          return async () => {
+            const results: unknown[] = [];
+            for (const run of queued) results.push(await run());
+            return results;
+          };
+        }
+        return (...args: unknown[]) => {
+          queued.push(() => (this as any)[command](...args));
+          return pipeline;
+        };
+      },
+    });
+    return pipeline;
+  }
+
+  multi(): any {
+    return this.pipeline();
+  }
+}
@@ -0,0 +1,76 @@
+import nodemailer from 'nodemailer';
+
+/**
+ * Outgoing e-mail.
+ *
+ * The transport is picked from the environment:
+ *   SMTP_URL   smtp(s)://user:pass@host:port — any SMTP server, including a
+ *              local mail catcher (Mailpit, MailHog: smtp://localhost:1025)
+ *   MAIL_FROM  sender address, defaults to "Sport Plánovač <noreply@localhost>"
+ *
+ * Without SMTP_URL messages go to a local stand-in instead: they are logged
+ * and kept in memory, the dev server lists them at GET /api/dev/mail-outbox.
+ */
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+  cid: string; // referenced from the HTML as <img src="cid:...">
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface StandInMail {
+  message: MailMessage;
+  sentAt: number;
+}
+
+const DEFAULT_FROM = 'Sport Plánovač <noreply@localhost>';
+const STAND_IN_LIMIT = 50;
+const standInOutbox: StandInMail[] = [];
+
+/** Messages "delivered" by the stand-in, newest last */
+export function getMailOutbox(): StandInMail[] {
+  return [...standInOutbox];
+}
+
+const standInTransport: MailTransport = {
+  async send(message) {
+    standInOutbox.push({ message, sentAt: Date.now() });
+    if (standInOutbox.length > STAND_IN_LIMIT) standInOutbox.shift();
+    console.log(`✉️  [mail stand-in] ${message.subject} → ${message.to}`);
+  },
+};
+
+export function isMailConfigured(): boolean {
+  return !!process.env.SMTP_URL;
+}
+
+export function createSmtpTransport(url: string, from = DEFAULT_FROM): MailTransport {
+  const transporter = nodemailer.createTransport(url);
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+export function getMailTransport(): MailTransport {
+  if (!isMailConfigured()) return standInTransport;
+  return createSmtpTransport(process.env.SMTP_URL!, process.env.MAIL_FROM || DEFAULT_FROM);
+}
+
+/** Loose check — the address is confirmed by the mail server, not by us */
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { planDebtReminders, planEventReminders, planPromotion } from './notifications.js';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '../../shared/notificationSettings.js';
+import { getVariableSymbol } from '../../shared/variableSymbol.js';
+
+// 12:00 in Prague (CET)
+const now = new Date('2026-03-20T11:00:00Z');
+const sportConfigs = [{ type: 'volejbal', maxPlayers: 4 }];
+
+const makeEvent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'e1',
+  title: 'Volejbal',
+  date: '2026-03-20',
+  time: '18:00',
+  location: 'Hala',
+  totalCost: 400,
+  accountNumber: '',
+  participants: [] as any[],
+  ...overrides,
+});
+
+const joined = (userId: string, extra: Record<string, unknown> = {}) => ({ userId, name: userId, status: 'joined', hasPaid: false, ...extra });
+
+describe('planEventReminders', () => {
+  const members = ['u1', 'u2', 'u3', 'u4'];
+
+  it('nudges members who have not answered or said maybe while spots are free', () => {
+    const event = makeEvent({
+      participants: [joined('u1'), { ...joined('u2'), status: 'declined' }, { ...joined('u3'), status: 'maybe' }],
+    });
+
+    const planned = planEventReminders([event], members, sportConfigs, DEFAULT_NOTIFICATION_SETTINGS, now);
+
+    expect(planned.map(p => p.userId)).toEqual(['u3', 'u4']);
+    expect(planned[0]).toMatchObject({
+      key: 'reminder:e1:u3',
+      message: { title: 'Volejbal 20. 3. v 18:00', body: 'Chybí 3 hráči — jdete hrát?', url: '/?event=e1' },
+    });
+  });
+
+  it('waits until the event is within the reminder window, in Prague time', () => {
+    const tomorrow = makeEvent({ date: '2026-03-21', time: '13:00' }); // 25 hours ahead
+    const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, eventReminderHours: 24 };
+
+    expect(planEventReminders([tomorrow], members, sportConfigs, settings, now)).toEqual([]);
+    expect(planEventReminders([tomorrow], members, sportConfigs, settings, new Date('2026-03-20T12:30:00Z'))).toHaveLength(4);
+  });
+
+  it('skips full and started events, and everything when turned off', () => {
+    const full = makeEvent({ participants: ['u1', 'u2', 'u3', 'u4'].map(id => joined(id)) });
+    const started = makeEvent({ time: '11:30' });
+
+    expect(planEventReminders([full, started], members, sportConfigs, DEFAULT_NOTIFICATION_SETTINGS, now)).toEqual([]);
+    expect(planEventReminders([makeEvent()], members, sportConfigs, { ...DEFAULT_NOTIFICATION_SETTINGS, eventReminderHours: 0 }, now)).toEqual([]);
+  });
+});
+
+describe('planDebtReminders', () => {
+  const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, debtReminderDays: [3, 7, 14] };
+
+  it('reminds an unpaid share once per threshold, at the highest one passed', () => {
+    const event = makeEvent({ date: '2026-03-12', participants: [joined('u1'), joined('u2', { hasPaid: true })] });
+
+    const planned = planDebtReminders([event], ['u1', 'u2'], sportConfigs, settings, now);
+
+    expect(planned).toEqual([{
+      userId: 'u1',
+      key: 'debt:e1:u1:7',
+      message: {
+        title: 'Nezaplaceno: Volejbal 12. 3.',
+        body: `200 Kč, VS ${getVariableSymbol('e1', 'u1')} — 8 dní po akci.`,
+        url: '/?event=e1',
+        tag: 'debt-e1-u1',
+      },
+    }]);
+  });
+
+  it('reminds the member who pays for a guest, under the guest\'s key', () => {
+    const guest = { userId: 'guest_1', name: 'Petr', status: 'joined', hasPaid: false, isGuest: true, invitedBy: 'u1' };
+    const event = makeEvent({ date: '2026-03-16', participants: [joined('u1', { hasPaid: true }), guest] });
+
+    const [reminder] = planDebtReminders([event], ['u1'], sportConfigs, settings, now);
+
+    expect(reminder.userId).toBe('u1');
+    expect(reminder.key).toBe('debt:e1:guest_1:3');
+    expect(reminder.message.body).toContain('za hosta Petr');
+  });
+
+  it('stays quiet before the first threshold and when no days are set', () => {
+    const recent = makeEvent({ date: '2026-03-18', participants: [joined('u1')] });
+    const old = makeEvent({ date: '2026-03-01', participants: [joined('u1')] });
+
+    expect(planDebtReminders([recent], ['u1'], sportConfigs, settings, now)).toEqual([]);
+    expect(planDebtReminders([old], ['u1'], sportConfigs, { ...settings, debtReminderDays: [] }, now)).toEqual([]);
+  });
+});
+
+describe('planPromotion', () => {
+  it('asks to confirm by the held time, shown in Prague time', () => {
+    const confirmBy = Date.parse('2026-03-20T17:30:00Z');
+    const event = makeEvent({ participants: [joined('u1', { confirmBy })] });
+
+    const { userId, key, message } = planPromotion(event, 'u1');
+
+    expect(userId).toBe('u1');
+    expect(key).toMatch(/^promotion:e1:u1:\d+$/);
+    expect(message.body).toBe('Místo vám držíme do 20. 3. 18:30 — potvrďte účast: Volejbal 20. 3. v 18:00.');
+  });
+
+  it('just announces the spot when no confirmation is needed', () => {
+    const { message } = planPromotion(makeEvent({ participants: [joined('u1')] }), 'u1');
+
+    expect(message).toMatchObject({ title: 'Uvolnilo se místo!', body: 'Jste přesunuti z čekací listiny — Volejbal 20. 3. v 18:00.', tag: 'promotion-e1' });
+  });
+});
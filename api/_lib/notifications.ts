@@ -0,0 +1,151 @@
+import type { Redis } from '@upstash/redis';
+import type { PushMessage } from './push.js';
+import { eventStart, pragueWallClock } from '../../shared/eventTime.js';
+import { calculateDebts } from '../../shared/debt.js';
+import { DEFAULT_NOTIFICATION_SETTINGS, normalizeNotificationSettings, type NotificationSettings } from '../../shared/notificationSettings.js';
+
+/**
+ * What /api/notifications/run sends. Planning is pure — the run endpoint
+ * loads the data, plans, then sends each notification at most once:
+ *   notify:sent:{key}       → set with NX before sending, expires after SENT_TTL
+ *   notify:queue            → list of events to announce on the next run (promotions)
+ *   group:{id}:notifications → NotificationSettings of the group
+ */
+
+export interface PlannedNotification {
+  userId: string;
+  /** Unique per reminder — the same key is never sent twice */
+  key: string;
+  message: PushMessage;
+}
+
+export interface QueuedPromotion {
+  type: 'promotion';
+  groupId: string;
+  eventId: string;
+  userId: string;
+}
+
+const SENT_TTL = 60 * 60 * 24 * 90; // seconds
+const QUEUE_KEY = 'notify:queue';
+
+export async function loadSettings(redis: Redis, groupId: string): Promise<NotificationSettings> {
+  const stored: any = await redis.get(`group:${groupId}:notifications`);
+  if (!stored) return DEFAULT_NOTIFICATION_SETTINGS;
+  return normalizeNotificationSettings(typeof stored === 'string' ? JSON.parse(stored) : stored);
+}
+
+export const shortDate = (date: string): string => `${Number(date.slice(8, 10))}. ${Number(date.slice(5, 7))}.`;
+
+export const eventUrl = (event: any): string => `/?event=${encodeURIComponent(event.id)}`;
+
+/** Members who haven't answered (or said maybe) get a nudge while there are free spots */
+export function planEventReminders(
+  events: any[],
+  memberIds: string[],
+  sportConfigs: any[],
+  settings: NotificationSettings,
+  now: Date,
+): PlannedNotification[] {
+  if (settings.eventReminderHours <= 0) return [];
+  const wallClock = pragueWallClock(now);
+  const planned: PlannedNotification[] = [];
+
+  for (const event of events) {
+    const hoursLeft = (eventStart(event) - wallClock) / (60 * 60 * 1000);
+    if (hoursLeft <= 0 || hoursLeft > settings.eventReminderHours) continue;
+
+    const maxPlayers = sportConfigs.find(c => c.type === (event.sportType ?? 'volejbal'))?.maxPlayers;
+    const joined = event.participants.filter((p: any) => p.status === 'joined').length;
+    if (!maxPlayers || joined >= maxPlayers) continue;
+
+    const answered = new Set(event.participants.filter((p: any) => p.status !== 'maybe').map((p: any) => p.userId));
+    const missing = maxPlayers - joined;
+    for (const userId of memberIds.filter(id => !answered.has(id))) {
+      planned.push({
+        userId,
+        key: `reminder:${event.id}:${userId}`,
+        message: {
+          title: `${event.title} ${shortDate(event.date)} v ${event.time}`,
+          body: `Chybí ${missing} ${missing === 1 ? 'hráč' : missing < 5 ? 'hráči' : 'hráčů'} — jdete hrát?`,
+          url: eventUrl(event),
+          tag: `reminder-${event.id}`,
+        },
+      });
+    }
+  }
+  return planned;
+}
+
+/** One reminder per unpaid share and threshold — the highest threshold already passed */
+export function planDebtReminders(
+  events: any[],
+  memberIds: string[],
+  sportConfigs: any[],
+  settings: NotificationSettings,
+  now: Date,
+): PlannedNotification[] {
+  if (settings.debtReminderDays.length === 0) return [];
+  const planned: PlannedNotification[] = [];
+
+  for (const userId of memberIds) {
+    for (const { event, guest, amount, variableSymbol, daysOverdue } of calculateDebts(events, userId, sportConfigs, now)) {
+      const threshold = [...settings.debtReminderDays].reverse().find(days => daysOverdue >= days);
+      if (threshold === undefined) continue;
+
+      const attendeeId = guest?.userId ?? userId;
+      planned.push({
+        userId,
+        key: `debt:${event.id}:${attendeeId}:${threshold}`,
+        message: {
+          title: `Nezaplaceno: ${event.title} ${shortDate(event.date)}`,
+          body: `${amount} Kč${guest ? ` za hosta ${guest.name}` : ''}, VS ${variableSymbol} — ${daysOverdue} dní po akci.`,
+          url: eventUrl(event),
+          tag: `debt-${event.id}-${attendeeId}`,
+        },
+      });
+    }
+  }
+  return planned;
+}
+
+/** "20. 10. 18:30" in Prague time */
+const pragueDateTime = (timestamp: number): string => {
+  const iso = new Date(pragueWallClock(new Date(timestamp))).toISOString();
+  return `${shortDate(iso)} ${iso.slice(11, 16)}`;
+};
+
+export function planPromotion(event: any, userId: string): PlannedNotification {
+  const confirmBy = event.participants?.find((p: any) => p.userId === userId)?.confirmBy;
+  return {
+    userId,
+    key: `promotion:${event.id}:${userId}:${Date.now()}`,
+    message: {
+      title: 'Uvolnilo se místo!',
+      body: confirmBy
+        ? `Místo vám držíme do ${pragueDateTime(confirmBy)} — potvrďte účast: ${event.title} ${shortDate(event.date)} v ${event.time}.`
+        : `Jste přesunuti z čekací listiny — ${event.title} ${shortDate(event.date)} v ${event.time}.`,
+      url: eventUrl(event),
+      tag: `promotion-${event.id}`,
+    },
+  };
+}
+
+/** Announce on the next run that a waitlisted player got a spot */
+export async function queuePromotion(redis: Redis, groupId: string, eventId: string, userId: string): Promise<void> {
+  const item: QueuedPromotion = { type: 'promotion', groupId, eventId, userId };
+  await redis.rpush(QUEUE_KEY, JSON.stringify(item));
+}
+
+/** Take everything queued so far; items queued meanwhile stay for the next run */
+export async function drainQueue(redis: Redis): Promise<QueuedPromotion[]> {
+  const items = await redis.lrange<unknown>(QUEUE_KEY, 0, -1);
+  if (items.length === 0) return [];
+  await redis.ltrim(QUEUE_KEY, items.length, -1);
+  return items.map(item => (typeof item === 'string' ? JSON.parse(item) : item) as QueuedPromotion);
+}
+
+/** Claim a notification — false when it was already sent */
+export async function claim(redis: Redis, key: string): Promise<boolean> {
+  return await redis.set(`notify:sent:${key}`, '1', { nx: true, ex: SENT_TTL }) === 'OK';
+}
@@ -0,0 +1,32 @@
+import type { ServerResponse } from 'node:http';
+import type { UserRole } from '../../types.js';
+import { hasPermission, type Permission } from '../../shared/permissions.js';
+
+/**
+ * Enforcing shared/permissions.ts in api/* handlers.
+ *
+ * Roles are per group — stored in the `group:{id}:members` hash and read on
+ * every request (see requireMember in groups.ts), so a role change takes
+ * effect without signing in again.
+ */
+
+interface ResponseLike extends ServerResponse {
+  status(code: number): ResponseLike;
+  json(data: any): void;
+}
+
+/**
+ * Check the member's role. Sends 403 and returns false when the action is
+ * not allowed — callers should simply `return` in that case.
+ */
+export function requirePermission(
+  member: { role: UserRole },
+  res: ResponseLike,
+  permission: Permission,
+): boolean {
+  if (!hasPermission(member.role, permission)) {
+    res.status(403).json({ error: 'Na tuto akci nemáte oprávnění.' });
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,126 @@
+import type { Redis } from '@upstash/redis';
+import webpush from 'web-push';
+
+/**
+ * Web Push delivery.
+ *
+ * Browsers subscribe through the service worker (public/sw.js) and the
+ * subscription is stored per user:
+ *   push:user:{userId}  → hash endpoint → subscription JSON
+ *
+ * Without VAPID keys (or with PUSH_STANDIN=1) messages go to a local
+ * stand-in instead: they are logged and kept in memory, the dev server
+ * lists them at GET /api/dev/push-outbox.
+ */
+
+export interface PushSubscriptionJson {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  url?: string; // opened when the notification is clicked
+  tag?: string; // a newer notification with the same tag replaces the older one
+}
+
+/** 'gone' — the browser dropped the subscription, it should be deleted */
+export type PushResult = 'sent' | 'gone';
+
+export interface PushSender {
+  send(subscription: PushSubscriptionJson, message: PushMessage): Promise<PushResult>;
+}
+
+export interface StandInDelivery {
+  endpoint: string;
+  message: PushMessage;
+  sentAt: number;
+}
+
+const STAND_IN_LIMIT = 200;
+const standInOutbox: StandInDelivery[] = [];
+
+/** Messages "delivered" by the stand-in, newest last */
+export function getStandInOutbox(): StandInDelivery[] {
+  return [...standInOutbox];
+}
+
+const standInSender: PushSender = {
+  async send(subscription, message) {
+    standInOutbox.push({ endpoint: subscription.endpoint, message, sentAt: Date.now() });
+    if (standInOutbox.length > STAND_IN_LIMIT) standInOutbox.shift();
+    console.log(`🔔 [push stand-in] ${message.title} — ${message.body} → ${subscription.endpoint}`);
+    return 'sent';
+  },
+};
+
+export function isPushConfigured(): boolean {
+  return !!process.env.VAPID_PUBLIC_KEY && !!process.env.VAPID_PRIVATE_KEY && process.env.PUSH_STANDIN !== '1';
+}
+
+export function getPushSender(): PushSender {
+  if (!isPushConfigured()) return standInSender;
+
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || 'mailto:admin@example.com',
+    process.env.VAPID_PUBLIC_KEY!,
+    process.env.VAPID_PRIVATE_KEY!,
+  );
+  return {
+    async send(subscription, message) {
+      try {
+        await webpush.sendNotification(subscription, JSON.stringify(message), { TTL: 60 * 60 });
+        return 'sent';
+      } catch (error: any) {
+        if (error.statusCode === 404 || error.statusCode === 410) return 'gone';
+        throw error;
+      }
+    },
+  };
+}
+
+export async function saveSubscription(redis: Redis, userId: string, subscription: PushSubscriptionJson): Promise<void> {
+  const { endpoint, keys } = subscription;
+  await redis.hset(`push:user:${userId}`, { [endpoint]: JSON.stringify({ endpoint, keys }) });
+}
+
+export async function removeSubscription(redis: Redis, userId: string, endpoint: string): Promise<void> {
+  await redis.hdel(`push:user:${userId}`, endpoint);
+}
+
+/** Users with at least one subscribed device — nobody else can be notified */
+export async function filterSubscribed(redis: Redis, userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) return [];
+  const pipeline = redis.pipeline();
+  for (const id of userIds) {
+    pipeline.hlen(`push:user:${id}`);
+  }
+  const counts = await pipeline.exec<number[]>();
+  return userIds.filter((_, i) => counts[i] > 0);
+}
+
+/**
+ * Send to every device of the user. Subscriptions the push service
+ * reports as gone are removed. Returns the number of devices reached.
+ */
+export async function sendToUser(redis: Redis, sender: PushSender, userId: string, message: PushMessage): Promise<number> {
+  const stored = await redis.hgetall<Record<string, unknown>>(`push:user:${userId}`);
+  if (!stored) return 0;
+
+  let delivered = 0;
+  for (const value of Object.values(stored)) {
+    const subscription: PushSubscriptionJson = typeof value === 'string' ? JSON.parse(value) : value;
+    try {
+      if (await sender.send(subscription, message) === 'gone') {
+        await removeSubscription(redis, userId, subscription.endpoint);
+      } else {
+        delivered++;
+      }
+    } catch (error) {
+      // One broken device must not stop the rest of the run
+      console.error('Push delivery failed:', error);
+    }
+  }
+  return delivered;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { createMemoryRepos } from './memory.js';
+
+describe('memory repositories', () => {
+  it('lists events per group and cascades attendance by event and by user', async () => {
+    const repos = createMemoryRepos();
+    await repos.events.saveMany([{ id: 'e1', groupId: 'g1' }, { id: 'e2', groupId: 'g1' }, { id: 'e3', groupId: 'g2' }]);
+    await repos.attendance.save({ eventId: 'e1', userId: 'u1', status: 'joined' });
+    await repos.attendance.save({ eventId: 'e1', userId: 'u2', status: 'joined' });
+    await repos.attendance.save({ eventId: 'e2', userId: 'u1', status: 'declined' });
+
+    expect((await repos.events.listByGroup('g1')).map(e => e.id).sort()).toEqual(['e1', 'e2']);
+    expect((await repos.attendance.listByUser('u1')).map(r => r.eventId).sort()).toEqual(['e1', 'e2']);
+
+    await repos.attendance.deleteByUser('u1');
+    expect(await repos.attendance.listByEvent('e1')).toEqual([{ eventId: 'e1', userId: 'u2', status: 'joined' }]);
+    expect(await repos.attendance.listByEvent('e2')).toEqual([]);
+
+    await repos.attendance.deleteByEvent('e1');
+    expect(await repos.attendance.get('e1', 'u2')).toBeNull();
+  });
+
+  it('lists a group by date, then id, resuming after a given event', async () => {
+    const repos = createMemoryRepos();
+    await repos.events.saveMany([
+      { id: 'b', groupId: 'g1', date: '2025-03-03' },
+      { id: 'a', groupId: 'g1', date: '2025-03-03' },
+      { id: 'c', groupId: 'g1', date: '2025-02-24' },
+      { id: 'd', groupId: 'g1', date: '2025-03-10' },
+      { id: 'e', groupId: 'g2', date: '2025-03-03' },
+    ]);
+    const ids = async (range: Parameters<typeof repos.events.listByDate>[1]) =>
+      (await repos.events.listByDate('g1', range)).map(e => e.id);
+
+    expect(await ids({ limit: 10 })).toEqual(['c', 'a', 'b', 'd']);
+    expect(await ids({ from: '2025-03-01', to: '2025-03-05', limit: 10 })).toEqual(['a', 'b']);
+    expect(await ids({ after: { date: '2025-03-03', id: 'a' }, limit: 2 })).toEqual(['b', 'd']);
+  });
+
+  it('lists the unpaid index only once it is built, up to a date', async () => {
+    const repos = createMemoryRepos();
+    await repos.events.saveMany([
+      { id: 'a', groupId: 'g1', date: '2025-03-03' },
+      { id: 'b', groupId: 'g1', date: '2025-03-10' },
+    ]);
+    await repos.events.setUnpaid({ id: 'a', groupId: 'g1' }, true);
+    expect(await repos.events.listUnpaid('g1')).toBeNull();
+
+    await repos.events.indexUnpaid('g1', [{ id: 'b', groupId: 'g1' }]);
+    expect((await repos.events.listUnpaid('g1')).map(e => e.id).sort()).toEqual(['a', 'b']);
+    expect((await repos.events.listUnpaid('g1', '2025-03-05')).map(e => e.id)).toEqual(['a']);
+
+    await repos.events.setUnpaid({ id: 'a', groupId: 'g1' }, false);
+    await repos.events.delete({ id: 'b', groupId: 'g1' });
+    expect(await repos.events.listUnpaid('g1')).toEqual([]);
+  });
+
+  it('hands out copies, like a round trip through Redis', async () => {
+    const repos = createMemoryRepos();
+    await repos.users.save({ id: 'u1', name: 'Jan' });
+
+    const loaded = await repos.users.get('u1');
+    loaded.name = 'Petr';
+
+    expect(await repos.users.get('u1')).toEqual({ id: 'u1', name: 'Jan' });
+    expect(await repos.users.getMany(['u1', 'missing'])).toEqual([{ id: 'u1', name: 'Jan' }]);
+  });
+
+  it('runs work under an event lock one at a time', async () => {
+    const { events } = createMemoryRepos();
+    const order: string[] = [];
+    const work = (name: string, ms: number) => events.withLock('e1', async () => {
+      order.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      order.push(`${name} end`);
+    });
+
+    await Promise.all([work('a', 20), work('b', 0)]);
+    expect(order).toEqual(['a start', 'a end', 'b start', 'b end']);
+  });
+
+  it('locks tournaments apart from events', async () => {
+    const { events, tournaments } = createMemoryRepos();
+    const order: string[] = [];
+    const work = (name: string, ms: number, lock = tournaments.withLock) => lock('t1', async () => {
+      order.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      order.push(`${name} end`);
+    });
+
+    await Promise.all([work('a', 20), work('b', 0), work('event', 0, events.withLock)]);
+    expect(order).toEqual(['a start', 'event start', 'event end', 'a end', 'b start', 'b end']);
+  });
+});
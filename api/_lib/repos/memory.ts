@@ -0,0 +1,196 @@
+import type {
+  AttendanceRepo,
+  BankAccountsRepo,
+  EventsRepo,
+  PhotosRepo,
+  Repositories,
+  SportConfigsRepo,
+  TournamentsRepo,
+  UsersRepo,
+} from './types.js';
+import { compareEvents } from '../../../shared/eventPages.js';
+
+/**
+ * Repositories in plain memory — for the local dev server without an
+ * Upstash account, and for tests. Everything is gone when the process ends.
+ *
+ * Records are copied in and out, so a handler mutating what it loaded
+ * can't change the stored copy behind the repository's back (the same
+ * isolation a round trip through Redis gives).
+ */
+
+const copy = <T>(value: T): T => (value === null || value === undefined ? value : structuredClone(value));
+
+/** `withLock` of one kind of record — holders of one id run one after another */
+function createLocks() {
+  // Tail of each id's queue of lock holders
+  const locks = new Map<string, Promise<void>>();
+
+  return async <T>(id: string, fn: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(id) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => { release = resolve; });
+    const tail = previous.then(() => current);
+    locks.set(id, tail);
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+      if (locks.get(id) === tail) locks.delete(id);
+    }
+  };
+}
+
+function createUsersRepo(): UsersRepo {
+  const users = new Map<string, any>();
+  return {
+    get: async id => copy(users.get(id) ?? null),
+    getMany: async ids => ids.filter(id => users.has(id)).map(id => copy(users.get(id))),
+    list: async () => [...users.values()].map(copy),
+    async save(user) {
+      users.set(user.id, copy(user));
+    },
+    async delete(id) {
+      users.delete(id);
+    },
+  };
+}
+
+function createEventsRepo(): EventsRepo {
+  const events = new Map<string, any>();
+  // groupId → ids of events someone owes for, and the groups whose index is built
+  const unpaid = new Map<string, Set<string>>();
+  const unpaidBuilt = new Set<string>();
+  const unpaidOf = (groupId: string): Set<string> => {
+    if (!unpaid.has(groupId)) unpaid.set(groupId, new Set());
+    return unpaid.get(groupId)!;
+  };
+
+  return {
+    get: async id => copy(events.get(id) ?? null),
+    listByGroup: async groupId => [...events.values()].filter(e => e.groupId === groupId).map(copy),
+    async listByDate(groupId, { from, to, after, limit }) {
+      return [...events.values()]
+        .filter(e => e.groupId === groupId
+          && (!from || e.date >= from) && (!to || e.date <= to)
+          && (!after || compareEvents(e, after) > 0))
+        .sort(compareEvents)
+        .slice(0, limit)
+        .map(copy);
+    },
+    async save(event) {
+      events.set(event.id, copy(event));
+    },
+    async saveMany(list) {
+      for (const event of list) {
+        events.set(event.id, copy(event));
+      }
+    },
+    async delete(event) {
+      events.delete(event.id);
+      unpaid.get(event.groupId)?.delete(event.id);
+    },
+    async listUnpaid(groupId, to) {
+      if (!unpaidBuilt.has(groupId)) return null;
+      return [...unpaidOf(groupId)].map(id => events.get(id)).filter(e => e && (!to || e.date <= to)).map(copy);
+    },
+    async setUnpaid(event, flagged) {
+      if (flagged) unpaidOf(event.groupId).add(event.id);
+      else unpaidOf(event.groupId).delete(event.id);
+    },
+    async indexUnpaid(groupId, list) {
+      list.forEach(event => unpaidOf(groupId).add(event.id));
+      unpaidBuilt.add(groupId);
+    },
+    withLock: createLocks(),
+  };
+}
+
+function createAttendanceRepo(): AttendanceRepo {
+  // eventId → userId → record
+  const byEvent = new Map<string, Map<string, any>>();
+
+  return {
+    get: async (eventId, userId) => copy(byEvent.get(eventId)?.get(userId) ?? null),
+    listByEvent: async eventId => [...(byEvent.get(eventId)?.values() ?? [])].map(copy),
+    listByUser: async userId => [...byEvent.values()].flatMap(records => records.has(userId) ? [copy(records.get(userId))] : []),
+    async save(record) {
+      if (!byEvent.has(record.eventId)) byEvent.set(record.eventId, new Map());
+      byEvent.get(record.eventId)!.set(record.userId, copy(record));
+    },
+    async delete(eventId, userId) {
+      byEvent.get(eventId)?.delete(userId);
+    },
+    async deleteByEvent(eventId) {
+      byEvent.delete(eventId);
+    },
+    async deleteByUser(userId) {
+      for (const records of byEvent.values()) {
+        records.delete(userId);
+      }
+    },
+  };
+}
+
+function createPhotosRepo(): PhotosRepo {
+  const photos = new Map<string, string>();
+  return {
+    get: async userId => photos.get(userId) ?? null,
+    async save(userId, dataUrl) {
+      photos.set(userId, dataUrl);
+    },
+    async delete(userId) {
+      photos.delete(userId);
+    },
+  };
+}
+
+function createBankAccountsRepo(): BankAccountsRepo {
+  const accounts = new Map<string, any>();
+  return {
+    getByUser: async userId => copy(accounts.get(userId) ?? null),
+    listByUsers: async userIds => userIds.filter(id => accounts.has(id)).map(id => copy(accounts.get(id))),
+    async save(account) {
+      accounts.set(account.userId, copy(account));
+    },
+  };
+}
+
+function createSportConfigsRepo(): SportConfigsRepo {
+  const configs = new Map<string, any[]>();
+  return {
+    get: async groupId => copy(configs.get(groupId) ?? null),
+    async save(groupId, list) {
+      configs.set(groupId, copy(list));
+    },
+  };
+}
+
+function createTournamentsRepo(): TournamentsRepo {
+  const tournaments = new Map<string, any>();
+  return {
+    get: async id => copy(tournaments.get(id) ?? null),
+    listByGroup: async groupId => [...tournaments.values()].filter(t => t.groupId === groupId).map(copy),
+    async save(tournament) {
+      tournaments.set(tournament.id, copy(tournament));
+    },
+    async delete(tournament) {
+      tournaments.delete(tournament.id);
+    },
+    withLock: createLocks(),
+  };
+}
+
+export function createMemoryRepos(): Repositories {
+  return {
+    users: createUsersRepo(),
+    events: createEventsRepo(),
+    attendance: createAttendanceRepo(),
+    photos: createPhotosRepo(),
+    bankAccounts: createBankAccountsRepo(),
+    sportConfigs: createSportConfigsRepo(),
+    tournaments: createTournamentsRepo(),
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Repositories of the API's domain records. Handlers never touch the keys
+ * of these records directly — they go through getRepos() (../db.ts), which
+ * is backed by Upstash Redis in production and by plain memory when the
+ * local dev server runs with `--storage=memory`.
+ *
+ * Records are stored as the handlers build them (untyped JSON, like the
+ * rest of api/); every list comes back in no particular order.
+ */
+
+export interface UsersRepo {
+  get(id: string): Promise<any | null>;
+  /** The accounts that exist among `ids` */
+  getMany(ids: string[]): Promise<any[]>;
+  /** Every account, across all groups */
+  list(): Promise<any[]>;
+  /** Create or replace */
+  save(user: any): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface EventRange {
+  /** YYYY-MM-DD, inclusive */
+  from?: string;
+  to?: string;
+  /** Start after this event — the last one of the previous page */
+  after?: { date: string; id: string };
+  limit: number;
+}
+
+export interface EventsRepo {
+  get(id: string): Promise<any | null>;
+  listByGroup(groupId: string): Promise<any[]>;
+  /**
+   * Up to `limit` events of a group in the order of shared/eventPages.ts
+   * (by date, then id) — unlike the other lists, this one is sorted.
+   */
+  listByDate(groupId: string, range: EventRange): Promise<any[]>;
+  /** Create or replace; the event is listed under its `groupId` */
+  save(event: any): Promise<void>;
+  /** All or nothing — used by the batch import */
+  saveMany(events: any[]): Promise<void>;
+  /** Also takes the event out of the unpaid index */
+  delete(event: any): Promise<void>;
+  /**
+   * Events of a group flagged with setUnpaid(), up to `to` — null until the
+   * group's flags were first built with indexUnpaid().
+   */
+  listUnpaid(groupId: string, to?: string): Promise<any[] | null>;
+  /** Flag the event as one someone still owes for, or clear the flag */
+  setUnpaid(event: any, unpaid: boolean): Promise<void>;
+  /** Flag `events` and mark the group's unpaid index as built */
+  indexUnpaid(groupId: string, events: any[]): Promise<void>;
+  /**
+   * Run `fn` while holding the event's lock, so concurrent RSVPs and saves
+   * of one event are applied one after another. The Redis lock throws when
+   * the event stays busy for too long.
+   */
+  withLock<T>(eventId: string, fn: () => Promise<T>): Promise<T>;
+}
+
+/** One record per event and player (or guest): { eventId, userId, status, hasPaid, timestamp, ... } */
+export interface AttendanceRepo {
+  get(eventId: string, userId: string): Promise<any | null>;
+  listByEvent(eventId: string): Promise<any[]>;
+  listByUser(userId: string): Promise<any[]>;
+  /** Create or replace */
+  save(record: any): Promise<void>;
+  delete(eventId: string, userId: string): Promise<void>;
+  deleteByEvent(eventId: string): Promise<void>;
+  deleteByUser(userId: string): Promise<void>;
+}
+
+/** Profile photos as base64 data URLs, kept apart so user lists stay light */
+export interface PhotosRepo {
+  get(userId: string): Promise<string | null>;
+  save(userId: string, dataUrl: string): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+/** Personal receiving accounts, one per user */
+export interface BankAccountsRepo {
+  getByUser(userId: string): Promise<any | null>;
+  /** The accounts of those among `userIds` who have one */
+  listByUsers(userIds: string[]): Promise<any[]>;
+  save(account: any): Promise<void>;
+}
+
+/** Sport configs of a group — null until the group stores its own */
+export interface SportConfigsRepo {
+  get(groupId: string): Promise<any[] | null>;
+  save(groupId: string, configs: any[]): Promise<void>;
+}
+
+/** Tournaments, listed per group; the whole record is saved on every change */
+export interface TournamentsRepo {
+  get(id: string): Promise<any | null>;
+  listByGroup(groupId: string): Promise<any[]>;
+  /** Create or replace; the tournament is listed under its `groupId` */
+  save(tournament: any): Promise<void>;
+  delete(tournament: any): Promise<void>;
+  /** Like EventsRepo.withLock — concurrent result edits of one tournament go one after another */
+  withLock<T>(id: string, fn: () => Promise<T>): Promise<T>;
+}
+
+export interface Repositories {
+  users: UsersRepo;
+  events: EventsRepo;
+  attendance: AttendanceRepo;
+  photos: PhotosRepo;
+  bankAccounts: BankAccountsRepo;
+  sportConfigs: SportConfigsRepo;
+  tournaments: TournamentsRepo;
+}
@@ -0,0 +1,324 @@
+import type { Redis } from '@upstash/redis';
+import { randomBytes } from 'node:crypto';
+import type {
+  AttendanceRepo,
+  BankAccountsRepo,
+  EventsRepo,
+  PhotosRepo,
+  Repositories,
+  SportConfigsRepo,
+  TournamentsRepo,
+  UsersRepo,
+} from './types.js';
+
+/**
+ * Repositories on Upstash Redis — the production key layout:
+ *   user:{id}                       → user JSON, ids in `users:all`
+ *   event:{id}                      → event JSON, ids in `group:{groupId}:events`
+ *                                     and `group:{groupId}:events:by-date` (scored by day)
+ *   group:{groupId}:events:unpaid   → ids of events someone owes for (scored by day),
+ *                                     `…:unpaid:built` once the index covers the group
+ *   attendance:{eventId}_{userId}   → attendance JSON, composite keys indexed in
+ *                                     `attendance:event:{eventId}` and `attendance:user:{userId}`
+ *   photo:{userId}                  → base64 data URL
+ *   bankaccount:user:{userId}       → account JSON, owners in `bankaccounts:users`
+ *   group:{groupId}:sportconfigs    → sport configs JSON
+ *   tournament:{id}                 → tournament JSON, ids in `group:{groupId}:tournaments`
+ *   lock:event:{eventId}            → random token, expires after LOCK_TTL_MS
+ *   lock:tournament:{id}            → the same for a tournament
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOCK_TTL_MS = 10_000;
+const LOCK_RETRY_MS = 100;
+const LOCK_ATTEMPTS = 50;
+
+// Delete the lock only if we still hold it — it may have expired and been taken over
+const RELEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+function parseJson(val: any): any {
+  if (typeof val === 'string') {
+    try { return JSON.parse(val); } catch { return val; }
+  }
+  return val;
+}
+
+/** Values of `keys` that exist, parsed */
+async function getAll(redis: Redis, keys: string[]): Promise<any[]> {
+  if (keys.length === 0) return [];
+  const pipeline = redis.pipeline();
+  for (const key of keys) {
+    pipeline.get(key);
+  }
+  return (await pipeline.exec()).filter(Boolean).map(parseJson);
+}
+
+async function getOne(redis: Redis, key: string): Promise<any | null> {
+  const value = await redis.get(key);
+  return value ? parseJson(value) : null;
+}
+
+/** Run `fn` holding the lock `key`; throws `busy` when it stays taken for too long */
+async function withRedisLock<T>(redis: Redis, key: string, busy: string, fn: () => Promise<T>): Promise<T> {
+  const token = randomBytes(8).toString('hex');
+
+  for (let attempt = 0; await redis.set(key, token, { nx: true, px: LOCK_TTL_MS }) !== 'OK'; attempt++) {
+    if (attempt >= LOCK_ATTEMPTS) {
+      throw new Error(busy);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await redis.eval(RELEASE_SCRIPT, [key], [token]);
+  }
+}
+
+/** Score of an event in the date index — whole days since 1970 */
+const dayScore = (date: string): number => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+
+function createUsersRepo(redis: Redis): UsersRepo {
+  return {
+    get: id => getOne(redis, `user:${id}`),
+    getMany: ids => getAll(redis, ids.map(id => `user:${id}`)),
+    async list() {
+      const ids = await redis.smembers('users:all');
+      return getAll(redis, ids.map(id => `user:${id}`));
+    },
+    async save(user) {
+      await redis.set(`user:${user.id}`, JSON.stringify(user));
+      await redis.sadd('users:all', user.id);
+    },
+    async delete(id) {
+      await redis.del(`user:${id}`);
+      await redis.srem('users:all', id);
+    },
+  };
+}
+
+function createEventsRepo(redis: Redis): EventsRepo {
+  const groupKey = (groupId: string) => `group:${groupId}:events`;
+  const dateKey = (groupId: string) => `group:${groupId}:events:by-date`;
+  const unpaidKey = (groupId: string) => `group:${groupId}:events:unpaid`;
+
+  /** Events saved before the date index existed get indexed on the first listing */
+  async function ensureDateIndex(groupId: string): Promise<void> {
+    const [indexed, total] = await Promise.all([redis.zcard(dateKey(groupId)), redis.scard(groupKey(groupId))]);
+    if (indexed === total) return;
+
+    const ids = await redis.smembers(groupKey(groupId));
+    const pipeline = redis.pipeline();
+    for (const id of ids) {
+      pipeline.get(`event:${id}`);
+    }
+    const values = ids.length > 0 ? await pipeline.exec() : [];
+
+    const rebuild = redis.multi();
+    rebuild.del(dateKey(groupId));
+    ids.forEach((id, i) => {
+      const event = values[i] ? parseJson(values[i]) : null;
+      if (event) rebuild.zadd(dateKey(groupId), { score: dayScore(event.date), member: id });
+      // An id left behind by an interrupted delete
+      else rebuild.srem(groupKey(groupId), id);
+    });
+    await rebuild.exec();
+  }
+
+  return {
+    get: id => getOne(redis, `event:${id}`),
+    async listByGroup(groupId) {
+      const ids = await redis.smembers(groupKey(groupId));
+      return getAll(redis, ids.map(id => `event:${id}`));
+    },
+    async listByDate(groupId, { from, to, after, limit }) {
+      await ensureDateIndex(groupId);
+      const ids: string[] = [];
+      let min: number | `(${number}` | '-inf' = from ? dayScore(from) : '-inf';
+      const max = to ? dayScore(to) : '+inf';
+
+      if (after && (!from || after.date >= from)) {
+        if (to && after.date > to) return [];
+        // Members of one score come sorted by id, the order of compareEvents —
+        // finish the cursor's day, then go on with the days after it
+        const day = dayScore(after.date);
+        const sameDay = await redis.zrange<string[]>(dateKey(groupId), day, day, { byScore: true });
+        ids.push(...sameDay.filter(id => id > after.id).slice(0, limit));
+        min = `(${day}` as const;
+      }
+      if (ids.length < limit) {
+        ids.push(...await redis.zrange<string[]>(dateKey(groupId), min, max, { byScore: true, offset: 0, count: limit - ids.length }));
+      }
+      return getAll(redis, ids.map(id => `event:${id}`));
+    },
+    async save(event) {
+      await redis.set(`event:${event.id}`, JSON.stringify(event));
+      await redis.sadd(groupKey(event.groupId), event.id);
+      await redis.zadd(dateKey(event.groupId), { score: dayScore(event.date), member: event.id });
+    },
+    async saveMany(events) {
+      const pipeline = redis.multi();
+      for (const event of events) {
+        pipeline.set(`event:${event.id}`, JSON.stringify(event));
+        pipeline.sadd(groupKey(event.groupId), event.id);
+        pipeline.zadd(dateKey(event.groupId), { score: dayScore(event.date), member: event.id });
+      }
+      await pipeline.exec();
+    },
+    async delete(event) {
+      await redis.del(`event:${event.id}`);
+      await redis.srem(groupKey(event.groupId), event.id);
+      await redis.zrem(dateKey(event.groupId), event.id);
+      await redis.zrem(unpaidKey(event.groupId), event.id);
+    },
+    async listUnpaid(groupId, to) {
+      if (!await redis.get(`${unpaidKey(groupId)}:built`)) return null;
+      const ids = await redis.zrange<string[]>(unpaidKey(groupId), '-inf', to ? dayScore(to) : '+inf', { byScore: true });
+      return getAll(redis, ids.map(id => `event:${id}`));
+    },
+    async setUnpaid(event, unpaid) {
+      if (unpaid) {
+        await redis.zadd(unpaidKey(event.groupId), { score: dayScore(event.date), member: event.id });
+      } else {
+        await redis.zrem(unpaidKey(event.groupId), event.id);
+      }
+    },
+    async indexUnpaid(groupId, events) {
+      const pipeline = redis.multi();
+      for (const event of events) {
+        pipeline.zadd(unpaidKey(groupId), { score: dayScore(event.date), member: event.id });
+      }
+      pipeline.set(`${unpaidKey(groupId)}:built`, '1');
+      await pipeline.exec();
+    },
+    withLock: (eventId, fn) =>
+      withRedisLock(redis, `lock:event:${eventId}`, 'Událost se právě upravuje, zkuste to prosím znovu.', fn),
+  };
+}
+
+function createAttendanceRepo(redis: Redis): AttendanceRepo {
+  const recordKey = (eventId: string, userId: string) => `${eventId}_${userId}`;
+
+  return {
+    get: (eventId, userId) => getOne(redis, `attendance:${recordKey(eventId, userId)}`),
+    async listByEvent(eventId) {
+      const keys = await redis.smembers(`attendance:event:${eventId}`);
+      return getAll(redis, keys.map(key => `attendance:${key}`));
+    },
+    async listByUser(userId) {
+      const keys = await redis.smembers(`attendance:user:${userId}`);
+      return getAll(redis, keys.map(key => `attendance:${key}`));
+    },
+    async save(record) {
+      const key = recordKey(record.eventId, record.userId);
+      await redis.set(`attendance:${key}`, JSON.stringify(record));
+      // Index sets for lookups by event and by user
+      await redis.sadd(`attendance:event:${record.eventId}`, key);
+      await redis.sadd(`attendance:user:${record.userId}`, key);
+    },
+    async delete(eventId, userId) {
+      const key = recordKey(eventId, userId);
+      await redis.del(`attendance:${key}`);
+      await redis.srem(`attendance:event:${eventId}`, key);
+      await redis.srem(`attendance:user:${userId}`, key);
+    },
+    async deleteByEvent(eventId) {
+      const keys = await redis.smembers(`attendance:event:${eventId}`);
+      if (keys.length > 0) {
+        const pipeline = redis.pipeline();
+        for (const key of keys) {
+          // key format: "eventId_userId" — extract userId
+          const userId = String(key).replace(`${eventId}_`, '');
+          pipeline.del(`attendance:${key}`);
+          pipeline.srem(`attendance:user:${userId}`, key);
+        }
+        await pipeline.exec();
+      }
+      await redis.del(`attendance:event:${eventId}`);
+    },
+    async deleteByUser(userId) {
+      const keys = await redis.smembers(`attendance:user:${userId}`);
+      if (keys.length > 0) {
+        const pipeline = redis.pipeline();
+        for (const key of keys) {
+          // key format: "eventId_userId" — extract eventId
+          const eventId = String(key).replace(`_${userId}`, '');
+          pipeline.del(`attendance:${key}`);
+          pipeline.srem(`attendance:event:${eventId}`, key);
+        }
+        await pipeline.exec();
+      }
+      await redis.del(`attendance:user:${userId}`);
+    },
+  };
+}
+
+function createPhotosRepo(redis: Redis): PhotosRepo {
+  return {
+    get: userId => redis.get<string>(`photo:${userId}`),
+    async save(userId, dataUrl) {
+      await redis.set(`photo:${userId}`, dataUrl);
+    },
+    async delete(userId) {
+      await redis.del(`photo:${userId}`);
+    },
+  };
+}
+
+function createBankAccountsRepo(redis: Redis): BankAccountsRepo {
+  return {
+    getByUser: userId => getOne(redis, `bankaccount:user:${userId}`),
+    async listByUsers(userIds) {
+      const owners = await redis.smembers('bankaccounts:users');
+      const ids = userIds.filter(id => owners.includes(id));
+      return getAll(redis, ids.map(id => `bankaccount:user:${id}`));
+    },
+    async save(account) {
+      await redis.set(`bankaccount:user:${account.userId}`, JSON.stringify(account));
+      await redis.sadd('bankaccounts:users', account.userId);
+    },
+  };
+}
+
+function createSportConfigsRepo(redis: Redis): SportConfigsRepo {
+  return {
+    get: groupId => getOne(redis, `group:${groupId}:sportconfigs`),
+    async save(groupId, configs) {
+      await redis.set(`group:${groupId}:sportconfigs`, JSON.stringify(configs));
+    },
+  };
+}
+
+function createTournamentsRepo(redis: Redis): TournamentsRepo {
+  const groupKey = (groupId: string) => `group:${groupId}:tournaments`;
+  return {
+    get: id => getOne(redis, `tournament:${id}`),
+    async listByGroup(groupId) {
+      const ids = await redis.smembers(groupKey(groupId));
+      return getAll(redis, ids.map(id => `tournament:${id}`));
+    },
+    async save(tournament) {
+      await redis.set(`tournament:${tournament.id}`, JSON.stringify(tournament));
+      await redis.sadd(groupKey(tournament.groupId), tournament.id);
+    },
+    async delete(tournament) {
+      await redis.del(`tournament:${tournament.id}`);
+      await redis.srem(groupKey(tournament.groupId), tournament.id);
+    },
+    withLock: (id, fn) =>
+      withRedisLock(redis, `lock:tournament:${id}`, 'Turnaj se právě upravuje, zkuste to prosím znovu.', fn),
+  };
+}
+
+export function createUpstashRepos(redis: Redis): Repositories {
+  return {
+    users: createUsersRepo(redis),
+    events: createEventsRepo(redis),
+    attendance: createAttendanceRepo(redis),
+    photos: createPhotosRepo(redis),
+    bankAccounts: createBankAccountsRepo(redis),
+    sportConfigs: createSportConfigsRepo(redis),
+    tournaments: createTournamentsRepo(redis),
+  };
+}
@@ -0,0 +1,21 @@
+import type { ServerResponse } from 'node:http';
+import { invalidRequest, validate, type Schema } from '../../shared/schema.js';
+
+interface ResponseLike extends ServerResponse {
+  status(code: number): ResponseLike;
+  json(data: any): void;
+}
+
+/**
+ * Check a request body — or the query of a GET — against its schema
+ * (shared/apiSchemas.ts). An invalid one gets 400 `{ error, issues: [{ path, message }] }` and null is returned —
+ * callers should simply `return` in that case.
+ */
+export function parseBody<T>(schema: Schema<T>, body: unknown, res: ResponseLike): T | null {
+  const issues = validate(schema, body);
+  if (issues.length > 0) {
+    res.status(400).json(invalidRequest(issues));
+    return null;
+  }
+  return body as T;
+}
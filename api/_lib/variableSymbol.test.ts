@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import type { Redis } from '@upstash/redis';
+import { LocalRedis } from './localRedis.js';
+import { issueVariableSymbol } from './variableSymbol.js';
+import { getVariableSymbol } from '../../shared/variableSymbol.js';
+
+describe('issueVariableSymbol', () => {
+  it('issues the VS of the share and the same one again to it', async () => {
+    const redis = new LocalRedis() as unknown as Redis;
+
+    const symbol = await issueVariableSymbol(redis, 'e1', 'u1');
+    expect(symbol).toBe(getVariableSymbol('e1', 'u1'));
+    expect(await issueVariableSymbol(redis, 'e1', 'u1')).toBe(symbol);
+  });
+
+  it('moves on when another share holds the VS', async () => {
+    const redis = new LocalRedis() as unknown as Redis;
+    await redis.set(`vs:${getVariableSymbol('e1', 'u1')}`, 'e9:u9');
+
+    expect(await issueVariableSymbol(redis, 'e1', 'u1')).toBe(getVariableSymbol('e1', 'u1', 1));
+  });
+});
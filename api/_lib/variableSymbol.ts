@@ -0,0 +1,21 @@
+import type { Redis } from '@upstash/redis';
+import { getVariableSymbol } from '../../shared/variableSymbol.js';
+
+/**
+ * Issued variable symbols, so a VS on a bank statement names one share:
+ *   vs:{symbol}   → "eventId:userId" of the share it was issued for
+ */
+
+const MAX_ATTEMPTS = 10;
+
+/** The VS for a new attendance record — the first of the share's candidates nobody else holds */
+export async function issueVariableSymbol(redis: Redis, eventId: string, userId: string): Promise<string> {
+  const owner = `${eventId}:${userId}`;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const symbol = getVariableSymbol(eventId, userId, attempt);
+    if (await redis.set(`vs:${symbol}`, owner, { nx: true }) === 'OK') return symbol;
+    // Issued before to the same share, e.g. a record deleted and created again
+    if (await redis.get<string>(`vs:${symbol}`) === owner) return symbol;
+  }
+  throw new Error('Nepodařilo se přidělit variabilní symbol, zkuste to prosím znovu.');
+}
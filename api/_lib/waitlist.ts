@@ -0,0 +1,97 @@
+import type { Redis } from '@upstash/redis';
+import type { Repositories } from './repos/types.js';
+import { diffRecords, recordAudit } from './audit.js';
+import { publishChange } from './changes.js';
+import { loadSportConfigs, refreshUnpaidIndex } from './events.js';
+import { loadSettings, queuePromotion } from './notifications.js';
+import { eventStartsAt } from '../../shared/eventTime.js';
+import { planWaitlist, type WaitlistChange } from '../../shared/waitlist.js';
+
+/**
+ * Waitlist promotion on the server — it happens no matter which client (or
+ * cron run) frees the spot.
+ *
+ * Every attendance write runs under the event's lock (EventsRepo.withLock),
+ * so two players leaving at once can't promote the same person twice or
+ * overfill the event:
+ *   waitlist:offers       → sorted set eventId → earliest pending confirmBy
+ *
+ * The rules themselves are planWaitlist() in shared/waitlist.ts.
+ */
+
+const OFFERS_KEY = 'waitlist:offers';
+
+/** Joined players the event's sport allows, undefined when unlimited */
+export async function loadCapacity(repos: Repositories, event: any): Promise<number | undefined> {
+  const sportConfigs = await loadSportConfigs(repos, event.groupId);
+  return sportConfigs.find((c: any) => c.type === (event.sportType ?? 'volejbal'))?.maxPlayers;
+}
+
+/**
+ * Expire lapsed offers and promote into free spots. Call with the event's
+ * lock held. Promoted members are queued for a push notification.
+ */
+export async function settleWaitlist(
+  redis: Redis,
+  repos: Repositories,
+  event: any,
+  actorId: string,
+  now = new Date(),
+): Promise<WaitlistChange[]> {
+  const [maxPlayers, settings, records] = await Promise.all([
+    loadCapacity(repos, event),
+    loadSettings(redis, event.groupId),
+    repos.attendance.listByEvent(event.id),
+  ]);
+  const changes = maxPlayers
+    ? planWaitlist(records, maxPlayers, { now: now.getTime(), confirmHours: settings.promotionConfirmHours, startsAt: eventStartsAt(event, now) })
+    : [];
+
+  for (const { before, after } of changes) {
+    await repos.attendance.save(after);
+    await recordAudit(redis, {
+      actorId,
+      groupId: event.groupId,
+      action: 'attendance.update',
+      eventId: event.id,
+      userId: after.userId,
+      changes: diffRecords(before, after, ['eventId', 'userId', 'timestamp', 'variableSymbol']),
+    });
+    if (after.status === 'joined' && !after.isGuest) {
+      await queuePromotion(redis, event.groupId, event.id, after.userId);
+    }
+  }
+
+  const changed = new Map(changes.map(c => [c.after.userId, c.after]));
+  await trackOffers(redis, event.id, records.map(r => changed.get(r.userId) ?? r));
+  return changes;
+}
+
+/** Keep waitlist:offers pointing at the earliest pending confirmation of the event */
+async function trackOffers(redis: Redis, eventId: string, records: any[]): Promise<void> {
+  const deadlines = records.filter(r => r.status === 'joined' && r.confirmBy !== undefined).map(r => r.confirmBy);
+  if (deadlines.length > 0) {
+    await redis.zadd(OFFERS_KEY, { score: Math.min(...deadlines), member: eventId });
+  } else {
+    await redis.zrem(OFFERS_KEY, eventId);
+  }
+}
+
+/** Cron: pass every lapsed offer to the next in line. Returns the number of events settled. */
+export async function settleLapsedOffers(redis: Redis, repos: Repositories, now = new Date()): Promise<number> {
+  const eventIds = await redis.zrange<string[]>(OFFERS_KEY, 0, now.getTime(), { byScore: true });
+  for (const eventId of eventIds) {
+    const event = await repos.events.get(eventId);
+    if (!event) {
+      await redis.zrem(OFFERS_KEY, eventId);
+      continue;
+    }
+    // 'system' — shown as "Automaticky" in the change history
+    const changes = await repos.events.withLock(eventId, () => settleWaitlist(redis, repos, event, 'system', now));
+    if (changes.length > 0) {
+      await refreshUnpaidIndex(repos, event);
+      await publishChange(redis, event.groupId, { kind: 'attendance', eventId, actorId: 'system' });
+    }
+  }
+  return eventIds.length;
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.AUTH_SECRET = 'test-secret';
+});
+
+import handler from '../attendance.js';
+import { drainQueue } from '../_lib/notifications.js';
+import { getRedis, getRepos } from '../_lib/db.js';
+import { addMembers, callHandler } from './testing.js';
+
+const repos = getRepos();
+
+const rsvp = (userId: string, body: Record<string, unknown>) =>
+  callHandler(handler, { method: 'PUT', userId, groupId: 'g1', body });
+
+const stored = (eventId: string, userId: string) => repos.attendance.get(eventId, userId);
+
+let nextId = 0;
+/** A fresh event of the group; `time` on 2026-03-20, the day of the tests */
+async function createEvent(time: string, date = '2026-03-20'): Promise<string> {
+  const id = `e${++nextId}`;
+  await repos.events.save({ id, groupId: 'g1', title: 'Volejbal', date, time, location: 'Hala', totalCost: 400, accountNumber: '', version: 1 });
+  return id;
+}
+
+describe('/api/attendance', () => {
+  beforeAll(async () => {
+    // 12:00 in Prague
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-20T11:00:00Z'));
+
+    await addMembers('g1', { org: 'organizer', tre: 'treasurer', p1: 'player', p2: 'player', p3: 'player', p4: 'player' });
+    await repos.sportConfigs.save('g1', [{
+      type: 'volejbal', label: 'Volejbal', maxPlayers: 2,
+      attendancePolicy: { rsvpLockHours: 2, lateCancelHours: 24 },
+    }]);
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  describe('permissions', () => {
+    it('lets players answer for themselves but not for others', async () => {
+      const eventId = await createEvent('18:00', '2026-03-27');
+      expect((await rsvp('p1', { eventId, userId: 'p1', status: 'joined' })).status).toBe(200);
+
+      expect((await rsvp('p2', { eventId, userId: 'p1', status: 'declined' })).status).toBe(403);
+      expect((await rsvp('org', { eventId, userId: 'p1', status: 'maybe' })).body).toMatchObject({ status: 'maybe' });
+    });
+
+    it('refuses a player creating the first record of someone else', async () => {
+      const eventId = await createEvent('18:00', '2026-03-27');
+
+      expect((await rsvp('p2', { eventId, userId: 'p1', status: 'joined', hasPaid: true })).status).toBe(403);
+      expect(await stored(eventId, 'p1')).toBeNull();
+    });
+
+    it('leaves marking other people\'s payments to the treasurer', async () => {
+      const eventId = await createEvent('18:00', '2026-03-27');
+      await rsvp('p1', { eventId, userId: 'p1', status: 'joined' });
+
+      expect((await rsvp('p2', { eventId, userId: 'p1', hasPaid: true })).status).toBe(403);
+      expect((await rsvp('tre', { eventId, userId: 'p1', hasPaid: true })).status).toBe(200);
+      expect(await stored(eventId, 'p1')).toMatchObject({ status: 'joined', hasPaid: true });
+    });
+
+    it('refuses an event of another group', async () => {
+      await repos.events.save({ id: 'e-other', groupId: 'g2', title: 'Cizí', date: '2026-03-27', time: '18:00', location: '', totalCost: 0, accountNumber: '' });
+
+      expect((await rsvp('p1', { eventId: 'e-other', userId: 'p1', status: 'joined' })).status).toBe(404);
+    });
+  });
+
+  describe('attendance policy', () => {
+    it('closes the RSVP past the cut-off, except for organizers', async () => {
+      const eventId = await createEvent('13:30'); // 1.5 hours ahead, the cut-off is 2
+
+      expect((await rsvp('p1', { eventId, userId: 'p1', status: 'joined' })).status).toBe(403);
+      expect((await rsvp('org', { eventId, userId: 'p1', status: 'joined' })).status).toBe(200);
+    });
+
+    it('keeps billing a joined player who leaves late, until an organizer waives it', async () => {
+      const eventId = await createEvent('20:00'); // inside the 24-hour window, before the cut-off
+      await rsvp('p1', { eventId, userId: 'p1', status: 'joined' });
+
+      expect((await rsvp('p1', { eventId, userId: 'p1', status: 'declined' })).body).toEqual({ success: true, status: 'declined', lateCancel: true });
+      expect((await rsvp('p1', { eventId, userId: 'p1', lateCancel: false })).status).toBe(403);
+
+      await rsvp('org', { eventId, userId: 'p1', lateCancel: false });
+      expect(await stored(eventId, 'p1')).not.toHaveProperty('lateCancel');
+    });
+
+    it('refuses a player waiving their own fee while leaving late', async () => {
+      const eventId = await createEvent('20:00');
+      await rsvp('p1', { eventId, userId: 'p1', status: 'joined' });
+
+      expect((await rsvp('p1', { eventId, userId: 'p1', status: 'declined', lateCancel: false })).status).toBe(403);
+      expect(await stored(eventId, 'p1')).toMatchObject({ status: 'joined' });
+    });
+
+    it('lets organizers mark a joined player who didn\'t come once the event started', async () => {
+      const started = await createEvent('10:00');
+      const upcoming = await createEvent('18:00', '2026-03-27');
+      for (const eventId of [started, upcoming]) {
+        await repos.attendance.save({ eventId, userId: 'p1', status: 'joined', hasPaid: false, timestamp: 1 });
+      }
+
+      expect((await rsvp('p2', { eventId: started, userId: 'p1', noShow: true })).status).toBe(403);
+      expect((await rsvp('org', { eventId: upcoming, userId: 'p1', noShow: true })).status).toBe(400);
+      expect((await rsvp('org', { eventId: started, userId: 'p1', noShow: true })).status).toBe(200);
+      expect(await stored(started, 'p1')).toMatchObject({ status: 'joined', noShow: true });
+    });
+  });
+
+  describe('guests', () => {
+    it('adds a guest billed to the member who brought them', async () => {
+      const eventId = await createEvent('18:00', '2026-03-27');
+
+      await rsvp('p1', { eventId, userId: 'guest_a', status: 'joined', guest: { name: 'Petr' } });
+
+      expect(await stored(eventId, 'guest_a')).toMatchObject({ isGuest: true, guestName: 'Petr', invitedBy: 'p1', paidBy: 'p1' });
+    });
+
+    it('lets only organizers bring guests for someone else', async () => {
+      const eventId = await createEvent('18:00', '2026-03-27');
+
+      expect((await rsvp('p1', { eventId, userId: 'guest_b', status: 'joined', guest: { name: 'Eva', invitedBy: 'p2' } })).status).toBe(403);
+      expect((await rsvp('org', { eventId, userId: 'guest_b', status: 'joined', guest: { name: 'Eva', invitedBy: 'p2' } })).status).toBe(200);
+      expect((await rsvp('org', { eventId, userId: 'guest_c', status: 'joined', guest: { name: 'Jan', paidBy: 'stranger' } })).status).toBe(400);
+    });
+
+    it('lets the host or an organizer remove a guest', async () => {
+      const eventId = await createEvent('18:00', '2026-03-27');
+      await rsvp('p1', { eventId, userId: 'guest_d', status: 'joined', guest: { name: 'Ola' } });
+      const remove = (userId: string) => callHandler(handler, { method: 'DELETE', userId, groupId: 'g1', query: { eventId, userId: 'guest_d' } });
+
+      expect((await remove('p2')).status).toBe(403);
+      expect((await remove('p1')).status).toBe(200);
+      expect(await stored(eventId, 'guest_d')).toBeNull();
+    });
+
+    it('keeps a guest billed when the host tries to remove them too late', async () => {
+      const eventId = await createEvent('20:00'); // inside the 24-hour window, before the cut-off
+      await rsvp('p1', { eventId, userId: 'guest_e', status: 'joined', guest: { name: 'Iva' } });
+      const remove = (userId: string) => callHandler(handler, { method: 'DELETE', userId, groupId: 'g1', query: { eventId, userId: 'guest_e' } });
+
+      expect((await remove('p1')).status).toBe(403);
+      expect(await stored(eventId, 'guest_e')).toMatchObject({ status: 'joined' });
+      expect((await remove('org')).status).toBe(200);
+    });
+  });
+
+  describe('waitlist', () => {
+    it('puts a player joining a full event on the waitlist and promotes them into a freed spot', async () => {
+      const eventId = await createEvent('18:00', '2026-03-27');
+      await rsvp('p1', { eventId, userId: 'p1', status: 'joined' });
+      await rsvp('p2', { eventId, userId: 'p2', status: 'joined' });
+      await drainQueue(getRedis());
+
+      expect((await rsvp('p3', { eventId, userId: 'p3', status: 'joined' })).body.status).toBe('waitlist');
+
+      await rsvp('p1', { eventId, userId: 'p1', status: 'declined' });
+      expect(await stored(eventId, 'p3')).toMatchObject({ status: 'joined' });
+      expect(await drainQueue(getRedis())).toEqual([{ type: 'promotion', groupId: 'g1', eventId, userId: 'p3' }]);
+    });
+
+    it('promotes each waitlisted player once when spots free up at the same time', async () => {
+      const eventId = await createEvent('18:00', '2026-03-27');
+      for (const userId of ['p1', 'p2', 'p3', 'p4']) {
+        await rsvp(userId, { eventId, userId, status: 'joined' });
+      }
+      await drainQueue(getRedis());
+
+      // Both writes settle the waitlist — the event lock runs them one after another
+      await Promise.all([
+        rsvp('p1', { eventId, userId: 'p1', status: 'declined' }),
+        rsvp('p2', { eventId, userId: 'p2', status: 'declined' }),
+        rsvp('p1', { eventId, userId: 'p1', status: 'joined' }),
+      ]);
+
+      const records = await repos.attendance.listByEvent(eventId);
+      const byStatus = (status: string) => records.filter(r => r.status === status).map(r => r.userId).sort();
+      expect(byStatus('joined')).toEqual(['p3', 'p4']);
+      expect(byStatus('waitlist')).toEqual(['p1']);
+      expect((await drainQueue(getRedis())).map(p => p.userId).sort()).toEqual(['p3', 'p4']);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.AUTH_SECRET = 'test-secret';
+});
+
+import handler from '../audit.js';
+import { recordAudit } from '../_lib/audit.js';
+import { getRedis } from '../_lib/db.js';
+import { addMembers, callHandler } from './testing.js';
+
+const MIGRATED_AT = Date.parse('2026-01-01T00:00:00Z');
+
+const change = { name: { before: 'A', after: 'B' } };
+
+/** Ids of the entries `userId` of `groupId` sees for the query */
+async function visible(userId: string, groupId: string, query: Record<string, string>): Promise<string[]> {
+  const { body } = await callHandler(handler, { method: 'GET', userId, groupId, query });
+  return body.map((e: any) => e.action);
+}
+
+describe('/api/audit', () => {
+  beforeAll(async () => {
+    const redis = getRedis();
+    // "legacy" holds the data from before groups, migrated at MIGRATED_AT
+    await redis.set('groups:migrated', 'legacy');
+    await redis.set('group:legacy', JSON.stringify({ id: 'legacy', name: 'Můj tým', createdAt: MIGRATED_AT }));
+    await addMembers('legacy', { admin: 'admin' });
+    await addMembers('other', { outsider: 'player' });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // Written before groups existed — no groupId
+    vi.setSystemTime(MIGRATED_AT - 1000);
+    await recordAudit(redis, { actorId: 'outsider', action: 'event.update', eventId: 'e1', changes: change });
+    // Account-level change of someone who isn't a member
+    vi.setSystemTime(MIGRATED_AT + 1000);
+    await recordAudit(redis, { actorId: 'outsider', action: 'user.update', userId: 'outsider', changes: change });
+    await recordAudit(redis, { actorId: 'outsider', groupId: 'other', action: 'member.join', userId: 'outsider', changes: change });
+    vi.useRealTimers();
+  });
+
+  it('shows the migrated group its pre-group entries but no account changes of non-members', async () => {
+    expect(await visible('admin', 'legacy', { userId: 'outsider' })).toEqual(['event.update']);
+    expect(await visible('admin', 'legacy', { eventId: 'e1' })).toEqual(['event.update']);
+  });
+
+  it('keeps group-less entries out of every other group', async () => {
+    expect(await visible('outsider', 'other', { userId: 'outsider' })).toEqual(['member.join']);
+  });
+});
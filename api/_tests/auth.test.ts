@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.AUTH_SECRET = 'test-secret';
+});
+
+import handler from '../auth.js';
+import { createSessionToken, hashPin } from '../_lib/auth.js';
+import { getRedis, getRepos } from '../_lib/db.js';
+import { callHandler } from './testing.js';
+
+const login = (name: string, pin: string, client = '203.0.113.1') =>
+  callHandler(handler, { method: 'POST', body: { name, pin }, headers: { 'x-forwarded-for': `${client}, 10.0.0.1` } });
+
+describe('/api/auth login', () => {
+  beforeAll(async () => {
+    await getRepos().users.save({ id: 'u-alice', name: 'Alice' });
+    await getRedis().set('credentials:u-alice', JSON.stringify(await hashPin('1234')));
+    await getRepos().users.save({ id: 'u-carol', name: 'Carol' }); // from before PINs
+  });
+
+  it('signs in with the right PIN', async () => {
+    const { status, body } = await login('alice', '1234');
+    expect(status).toBe(200);
+    expect(body.user).toMatchObject({ id: 'u-alice' });
+  });
+
+  it('answers an unknown name exactly like a wrong PIN', async () => {
+    const unknown = await login('Nobody', '1234', '203.0.113.2');
+    const wrongPin = await login('Alice', '9999', '203.0.113.2');
+
+    expect(unknown.status).toBe(401);
+    expect(unknown).toEqual(wrongPin);
+  });
+
+  it('locks out the guessing client but not the owner on another one', async () => {
+    for (let i = 0; i < 5; i++) {
+      await login('Alice', '0000', '198.51.100.7');
+    }
+
+    expect((await login('Alice', '1234', '198.51.100.7')).status).toBe(429);
+    expect((await login('Alice', '1234', '203.0.113.3')).status).toBe(200);
+  });
+
+  it('answers a profile without a PIN like an unknown name when no setup code comes with it', async () => {
+    const pinless = await login('Carol', '1234', '203.0.113.4');
+    const unknown = await login('Nobody', '1234', '203.0.113.4');
+
+    expect(pinless.status).toBe(401);
+    expect(pinless).toEqual(unknown);
+  });
+});
+
+describe('/api/auth PIN change', () => {
+  beforeAll(async () => {
+    await getRepos().users.save({ id: 'u-bob', name: 'Bob' });
+    // Set a minute ago — before the session the test signs in with
+    await getRedis().set('credentials:u-bob', JSON.stringify({ ...await hashPin('1111'), updatedAt: Date.now() - 60_000 }));
+  });
+
+  it('ends the sessions issued before the new PIN and hands this device a new one', async () => {
+    const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+    const oldToken = createSessionToken('u-bob', Date.now() - 1000);
+
+    const changed = await callHandler(handler, { method: 'PUT', headers: bearer(oldToken), body: { currentPin: '1111', newPin: '2222' } });
+    expect(changed.status).toBe(200);
+
+    expect((await callHandler(handler, { method: 'GET', headers: bearer(oldToken) })).status).toBe(401);
+    expect((await callHandler(handler, { method: 'GET', headers: bearer(changed.body.token) })).body.user).toMatchObject({ id: 'u-bob' });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.AUTH_SECRET = 'test-secret';
+});
+
+import handler from '../events.js';
+import batchHandler from '../events-batch.js';
+import attendanceHandler from '../attendance.js';
+import { getRepos } from '../_lib/db.js';
+import { addMembers, callHandler } from './testing.js';
+
+const newEvent = (overrides: Record<string, unknown> = {}) => ({
+  title: 'Volejbal',
+  date: '2026-11-20',
+  time: '18:00',
+  location: 'Hala',
+  totalCost: 600,
+  accountNumber: '',
+  ...overrides,
+});
+
+describe('/api/events', () => {
+  beforeAll(async () => {
+    await addMembers('g1', { owner: 'organizer', player: 'player' });
+    await addMembers('g2', { intruder: 'admin' });
+  });
+
+  it('creates an event and gives it version 1', async () => {
+    const created = await callHandler(handler, { method: 'POST', userId: 'owner', groupId: 'g1', body: newEvent({ id: 'e-create' }) });
+    expect(created).toEqual({ status: 201, body: { success: true, id: 'e-create' } });
+
+    const { body } = await callHandler(handler, { method: 'GET', userId: 'player', groupId: 'g1', query: { id: 'e-create' } });
+    expect(body).toMatchObject({ title: 'Volejbal', groupId: 'g1', organizerId: 'owner', version: 1 });
+  });
+
+  it('refuses an edit of a version someone else has changed meanwhile, with the current event', async () => {
+    await callHandler(handler, { method: 'POST', userId: 'owner', groupId: 'g1', body: newEvent({ id: 'e-version' }) });
+    const first = await callHandler(handler, { method: 'PUT', userId: 'owner', groupId: 'g1', body: { ...newEvent({ id: 'e-version', title: 'První' }), version: 1 } });
+    expect(first.body).toEqual({ success: true, version: 2 });
+
+    const stale = await callHandler(handler, { method: 'PUT', userId: 'owner', groupId: 'g1', body: { ...newEvent({ id: 'e-version', title: 'Druhá' }), version: 1 } });
+
+    expect(stale.status).toBe(409);
+    expect(stale.body.current).toMatchObject({ title: 'První', version: 2 });
+  });
+
+  it('refuses an id another group already uses and leaves the event with its group', async () => {
+    await callHandler(handler, { method: 'POST', userId: 'owner', groupId: 'g1', body: newEvent({ id: 'e-taken' }) });
+
+    const stolen = await callHandler(handler, { method: 'POST', userId: 'intruder', groupId: 'g2', body: newEvent({ id: 'e-taken', title: 'Moje' }) });
+    expect(stolen.status).toBe(409);
+
+    const { body } = await callHandler(handler, { method: 'GET', userId: 'owner', groupId: 'g1', query: { id: 'e-taken' } });
+    expect(body).toMatchObject({ title: 'Volejbal', groupId: 'g1' });
+    const elsewhere = await callHandler(handler, { method: 'GET', userId: 'intruder', groupId: 'g2', query: { id: 'e-taken' } });
+    expect(elsewhere.status).toBe(404);
+  });
+
+  it('accepts the creator replaying a create without touching the stored event', async () => {
+    await callHandler(handler, { method: 'POST', userId: 'owner', groupId: 'g1', body: newEvent({ id: 'e-replay' }) });
+    await callHandler(handler, { method: 'PUT', userId: 'owner', groupId: 'g1', body: { ...newEvent({ id: 'e-replay', title: 'Změněno' }), version: 1 } });
+
+    const replayed = await callHandler(handler, { method: 'POST', userId: 'owner', groupId: 'g1', body: newEvent({ id: 'e-replay' }) });
+    expect(replayed).toEqual({ status: 201, body: { success: true, id: 'e-replay' } });
+
+    const { body } = await callHandler(handler, { method: 'GET', userId: 'owner', groupId: 'g1', query: { id: 'e-replay' } });
+    expect(body).toMatchObject({ title: 'Změněno', version: 2 });
+  });
+
+  it('refuses a batch that reuses another group\'s event id', async () => {
+    await callHandler(handler, { method: 'POST', userId: 'owner', groupId: 'g1', body: newEvent({ id: 'e-batch' }) });
+
+    const batch = await callHandler(batchHandler, {
+      method: 'POST', userId: 'intruder', groupId: 'g2',
+      body: { events: [newEvent({ id: 'e-fresh' }), newEvent({ id: 'e-batch' })] },
+    });
+    expect(batch.status).toBe(409);
+
+    const fresh = await callHandler(handler, { method: 'GET', userId: 'intruder', groupId: 'g2', query: { id: 'e-fresh' } });
+    expect(fresh.status).toBe(404);
+  });
+
+  it('refuses a batch with one id twice', async () => {
+    const batch = await callHandler(batchHandler, {
+      method: 'POST', userId: 'owner', groupId: 'g1',
+      body: { events: [newEvent({ id: 'e-twice' }), newEvent({ id: 'e-twice', title: 'Druhá' })] },
+    });
+
+    expect(batch.status).toBe(400);
+    expect(batch.body.issues).toEqual([expect.objectContaining({ path: 'events[1].id' })]);
+    expect((await callHandler(handler, { method: 'GET', userId: 'owner', groupId: 'g1', query: { id: 'e-twice' } })).status).toBe(404);
+  });
+
+  it('waits for the lock of an event before checking a batch against it', async () => {
+    const repos = getRepos();
+    let release!: () => void;
+    const held = repos.events.withLock('e-locked', () => new Promise<void>(resolve => { release = resolve; }));
+
+    const batch = callHandler(batchHandler, { method: 'POST', userId: 'owner', groupId: 'g1', body: { events: [newEvent({ id: 'e-locked' })] } });
+    await new Promise(resolve => setTimeout(resolve, 20)); // as far as the batch gets without the lock
+    await repos.events.save({ ...newEvent({ id: 'e-locked', title: 'Souběžná' }), groupId: 'g2', organizerId: 'intruder' });
+    release();
+    await held;
+
+    expect((await batch).status).toBe(409);
+    expect(await repos.events.get('e-locked')).toMatchObject({ title: 'Souběžná' });
+  });
+
+  it('lists unpaid events from an index built once, dropping an event when its last share is paid', async () => {
+    const repos = getRepos();
+    await addMembers('g3', { treasurer: 'treasurer', payer: 'player' });
+    await repos.events.save({ ...newEvent({ id: 'e-owed', date: '2026-01-10' }), groupId: 'g3' });
+    await repos.events.save({ ...newEvent({ id: 'e-settled', date: '2026-01-12' }), groupId: 'g3' });
+    await repos.attendance.save({ eventId: 'e-owed', userId: 'payer', status: 'joined', hasPaid: false, timestamp: 1 });
+    await repos.attendance.save({ eventId: 'e-settled', userId: 'payer', status: 'joined', hasPaid: true, timestamp: 1 });
+    const unpaidIds = async () =>
+      (await callHandler(handler, { method: 'GET', userId: 'payer', groupId: 'g3', query: { unpaid: 'true' } })).body.map((e: any) => e.id);
+
+    expect(await unpaidIds()).toEqual(['e-owed']);
+
+    const scan = vi.spyOn(repos.events, 'listByGroup');
+    await callHandler(attendanceHandler, { method: 'PUT', userId: 'treasurer', groupId: 'g3', body: { eventId: 'e-owed', userId: 'payer', hasPaid: true } });
+
+    expect(await unpaidIds()).toEqual([]);
+    expect(scan).not.toHaveBeenCalled();
+  });
+});
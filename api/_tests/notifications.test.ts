@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.AUTH_SECRET = 'test-secret';
+  process.env.CRON_SECRET = 'cron-secret';
+});
+
+import runHandler from '../notifications/run.js';
+import { getStandInOutbox, saveSubscription } from '../_lib/push.js';
+import { queuePromotion } from '../_lib/notifications.js';
+import { getRedis, getRepos } from '../_lib/db.js';
+import { addMembers, callHandler } from './testing.js';
+
+const run = () => callHandler(runHandler, { method: 'GET', headers: { authorization: 'Bearer cron-secret' } });
+
+const event = (id: string, date: string) => ({
+  id, groupId: 'g1', title: 'Volejbal', date, time: '18:00', location: 'Hala', totalCost: 400, accountNumber: '', version: 1,
+});
+
+describe('/api/notifications/run with the push stand-in', () => {
+  beforeAll(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-20T11:00:00Z'));
+
+    const redis = getRedis();
+    const repos = getRepos();
+    await redis.sadd('groups:all', 'g1');
+    await addMembers('g1', { u1: 'player', u2: 'player' });
+    // u2 has no device — nothing can reach them
+    await saveSubscription(redis, 'u1', { endpoint: 'https://push.example/u1', keys: { p256dh: 'key', auth: 'auth' } });
+
+    await repos.events.save(event('e-past', '2026-03-12'));
+    await repos.attendance.save({ eventId: 'e-past', userId: 'u1', status: 'joined', hasPaid: false, timestamp: 1 });
+    await repos.attendance.save({ eventId: 'e-past', userId: 'u2', status: 'joined', hasPaid: false, timestamp: 2 });
+
+    await repos.events.save(event('e-next', '2026-03-27'));
+    await repos.attendance.save({ eventId: 'e-next', userId: 'u1', status: 'joined', hasPaid: false, timestamp: 3 });
+    await queuePromotion(redis, 'g1', 'e-next', 'u1');
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it('delivers the promotion and the debt reminder to the subscribed member once', async () => {
+    const first = await run();
+    expect(first).toEqual({ status: 200, body: { groups: 1, offersSettled: 0, planned: 2, sent: 2, standIn: true } });
+
+    const delivered = getStandInOutbox();
+    expect(delivered.map(d => d.endpoint)).toEqual(['https://push.example/u1', 'https://push.example/u1']);
+    expect(delivered.map(d => d.message.title)).toEqual(['Uvolnilo se místo!', 'Nezaplaceno: Volejbal 12. 3.']);
+
+    // The promotion was taken off the queue, the reminder is claimed
+    const second = await run();
+    expect(second.body).toMatchObject({ planned: 1, sent: 0 });
+    expect(getStandInOutbox()).toHaveLength(2);
+  });
+
+  it('refuses a caller without the cron secret', async () => {
+    expect((await callHandler(runHandler, { method: 'GET' })).status).toBe(401);
+  });
+});
@@ -0,0 +1,64 @@
+import type { UserRole } from '../../types.js';
+import { createSessionToken } from '../_lib/auth.js';
+import { GROUP_HEADER } from '../_lib/groups.js';
+import { getRedis } from '../_lib/db.js';
+
+/**
+ * Calling the handlers in tests, on the memory backend. Test files set
+ * `STORAGE_BACKEND=memory` and `AUTH_SECRET` (vi.hoisted) before they import
+ * a handler — handlers take their storage clients at module load.
+ */
+
+export interface CallOptions {
+  method: string;
+  /** Signed in as this user; anonymous when left out */
+  userId?: string;
+  groupId?: string;
+  body?: unknown;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+}
+
+export interface CallResult {
+  status: number;
+  body: any;
+}
+
+type Handler = (req: any, res: any) => Promise<unknown>;
+
+/** Run a handler with a Vercel-like request/response pair and return what it sent */
+export async function callHandler(handler: Handler, options: CallOptions): Promise<CallResult> {
+  const headers: Record<string, string> = { ...options.headers };
+  if (options.userId) headers.authorization = `Bearer ${createSessionToken(options.userId)}`;
+  if (options.groupId) headers[GROUP_HEADER] = options.groupId;
+
+  const req = { method: options.method, headers, query: options.query ?? {}, body: options.body };
+  const result: CallResult = { status: 200, body: undefined };
+  const res = {
+    headersSent: false,
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(data: unknown) {
+      result.body = data;
+      res.headersSent = true;
+    },
+    setHeader() {},
+    end() {
+      res.headersSent = true;
+    },
+  };
+
+  await handler(req, res);
+  return result;
+}
+
+/** Make users members of a group with the given roles */
+export async function addMembers(groupId: string, roles: Record<string, UserRole>): Promise<void> {
+  const redis = getRedis();
+  await redis.hset(`group:${groupId}:members`, roles);
+  for (const userId of Object.keys(roles)) {
+    await redis.sadd(`user:${userId}:groups`, groupId);
+  }
+}
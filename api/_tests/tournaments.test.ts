@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.AUTH_SECRET = 'test-secret';
+});
+
+import handler from '../tournaments.js';
+import type { Tournament, TournamentMatch } from '../../types.js';
+import { addMembers, callHandler } from './testing.js';
+
+const teamIds = ['t1', 't2', 't3', 't4'];
+
+/** Seeds 1–4 in a bracket: 1 vs 4 and 2 vs 3, the final still open */
+const bracket = (final: TournamentMatch['teams'] = [null, null]): TournamentMatch[] => [
+  { id: 'w0-0', stage: 'winners', round: 0, slot: 0, teams: ['t1', 't4'] },
+  { id: 'w0-1', stage: 'winners', round: 0, slot: 1, teams: ['t2', 't3'] },
+  { id: 'w1-0', stage: 'winners', round: 1, slot: 0, teams: final },
+];
+
+const newTournament = (id: string): Tournament => ({
+  id,
+  name: 'Jarní turnaj',
+  date: '2026-04-18',
+  format: 'single-elimination',
+  teams: teamIds.map(teamId => ({ id: teamId, name: teamId, members: [{ userId: `u-${teamId}`, name: teamId }] })),
+  matches: bracket(),
+});
+
+const save = (userId: string, tournament: Tournament) =>
+  callHandler(handler, { method: 'PUT', userId, groupId: 'g1', body: tournament });
+
+describe('/api/tournaments', () => {
+  beforeAll(async () => {
+    await addMembers('g1', { org: 'organizer', player: 'player' });
+  });
+
+  it('lets a player record a result, with the bracket following on', async () => {
+    const created = (await callHandler(handler, { method: 'POST', userId: 'org', groupId: 'g1', body: newTournament('tr-result') })).body;
+    const [first, ...rest] = bracket(['t1', null]);
+    const matches = [{ ...first, winner: 0 as const, score: [[25, 20], [25, 18]] as [number, number][] }, ...rest];
+
+    const { status, body } = await save('player', { ...created, matches });
+
+    expect(status).toBe(200);
+    expect(body.matches).toEqual(matches);
+  });
+
+  it('refuses a player changing the pairings instead of a result', async () => {
+    const created = (await callHandler(handler, { method: 'POST', userId: 'org', groupId: 'g1', body: newTournament('tr-pairing') })).body;
+    const swapped = created.matches.map((m: any) => (m.id === 'w0-0' ? { ...m, teams: [m.teams[1], m.teams[0]] } : m));
+
+    expect((await save('player', { ...created, matches: swapped })).status).toBe(403);
+    expect((await save('player', { ...created, matches: created.matches.slice(1) })).status).toBe(403);
+    expect((await save('org', { ...created, matches: swapped })).status).toBe(200);
+  });
+});
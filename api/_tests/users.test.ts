@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.AUTH_SECRET = 'test-secret';
+});
+
+import handler from '../users.js';
+import { getRepos } from '../_lib/db.js';
+import { addMembers, callHandler } from './testing.js';
+
+const repos = getRepos();
+
+const rename = (userId: string, name: string) =>
+  callHandler(handler, { method: 'PUT', userId, body: { id: userId, name } });
+
+describe('/api/users', () => {
+  beforeAll(async () => {
+    await repos.users.save({ id: 'u-alice', name: 'Alice' });
+    await repos.users.save({ id: 'u-bob', name: 'Bob' });
+  });
+
+  it('refuses renaming to the name of another account', async () => {
+    expect((await rename('u-bob', ' alice ')).status).toBe(409);
+    expect(await repos.users.get('u-bob')).toMatchObject({ name: 'Bob' });
+  });
+
+  it('lets a user keep or recase their own name', async () => {
+    const { status, body } = await rename('u-alice', 'ALICE');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ id: 'u-alice', name: 'ALICE' });
+  });
+
+  it('gives the spot of a deleted account to the waitlist', async () => {
+    await addMembers('g1', { 'u-carol': 'player', 'u-dave': 'player' });
+    await repos.sportConfigs.save('g1', [{ type: 'volejbal', label: 'Volejbal', maxPlayers: 1 }]);
+    await repos.events.save({ id: 'e1', groupId: 'g1', title: 'Volejbal', date: '2099-01-01', time: '18:00', totalCost: 400, version: 1 });
+    await repos.attendance.save({ eventId: 'e1', userId: 'u-carol', status: 'joined', timestamp: 1 });
+    await repos.attendance.save({ eventId: 'e1', userId: 'u-dave', status: 'waitlist', timestamp: 2 });
+
+    const { status } = await callHandler(handler, { method: 'DELETE', userId: 'u-carol', query: { id: 'u-carol' } });
+    expect(status).toBe(200);
+    expect(await repos.attendance.get('e1', 'u-carol')).toBeNull();
+    expect(await repos.attendance.get('e1', 'u-dave')).toMatchObject({ status: 'joined' });
+  });
+});
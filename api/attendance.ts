@@ -1,10 +1,19 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import { Redis } from '@upstash/redis';
+import { hasPermission } from '../shared/permissions.js';
+import { getMemberRole, requireMember, type Member } from './_lib/groups.js';
+import { diffRecords, recordAudit } from './_lib/audit.js';
+import { issueVariableSymbol } from './_lib/variableSymbol.js';
+import { queuePromotion } from './_lib/notifications.js';
+import { loadCapacity, settleWaitlist } from './_lib/waitlist.js';
+import { loadSportConfigs, refreshUnpaidIndex } from './_lib/events.js';
+import { canHostRemoveGuest, getAttendancePolicy, hoursUntilStart } from '../shared/attendancePolicy.js';
+import { getClientId, publishChange } from './_lib/changes.js';
+import { parseBody } from './_lib/validation.js';
+import { getRedis, getRepos } from './_lib/db.js';
+import { attendanceSchema } from '../shared/apiSchemas.js';
 
-const redis = new Redis({
-  url: process.env.volejbal_KV_REST_API_URL!,
-  token: process.env.volejbal_KV_REST_API_TOKEN!,
-});
+const redis = getRedis();
+const repos = getRepos();
 
 interface ApiRequest extends IncomingMessage {
   body: any;
@@ -16,43 +25,226 @@ interface ApiResponse extends ServerResponse {
   json(data: any): void;
 }
 
+const GUEST_PREFIX = 'guest_';
+
+const guestPayer = (record: any): string => record.paidBy ?? record.invitedBy;
+
 export default async function handler(req: ApiRequest, res: ApiResponse) {
   try {
-    if (req.method !== 'PUT') {
-      return res.status(405).json({ error: 'Method not allowed. Use PUT.' });
+    const member = await requireMember(redis, req, res);
+    if (!member) return;
+
+    switch (req.method) {
+      case 'PUT':
+        return await handlePut(req, res, member);
+      case 'DELETE':
+        return await handleDelete(req, res, member);
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('API /api/attendance error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
+
+// PUT /api/attendance — RSVP or payment change; `guest` in the body adds a guest
+// Without `status` it is a payment-only update of an existing record: the stored
+// status, waitlist place and late-cancel fee stay as they are.
+// Joining a full event lands on the waitlist; a freed spot is passed on right away.
+// Past the sport's RSVP cut-off only organizers change attendance; a joined player
+// leaving inside the late-cancellation window keeps owing their share. Organizers
+// send `noShow` to mark who didn't turn up and `lateCancel: false` to waive the fee.
+// Responds with the status actually stored.
+async function handlePut(req: ApiRequest, res: ApiResponse, member: Member) {
+  const body = parseBody(attendanceSchema, req.body, res);
+  if (!body) return;
+
+  // Only events of the active group, only for its members
+  const event = await repos.events.get(body.eventId);
+  if (event?.groupId !== member.groupId) {
+    return res.status(404).json({ error: 'Event not found' });
+  }
+
+  return repos.events.withLock(body.eventId, () => saveAttendance(req, res, member, event, body));
+}
+
+async function saveAttendance(req: ApiRequest, res: ApiResponse, member: Member, event: any, body: any) {
+  const { eventId, userId, hasPaid, guest, noShow, lateCancel } = body;
+
+  // Get existing record for merge
+  const existing = await repos.attendance.get(eventId, userId);
+  const parsed = existing ?? {};
+  const isGuest = String(userId).startsWith(GUEST_PREFIX);
+
+  const status = body.status ?? parsed.status;
+  if (!status) {
+    return res.status(400).json({ error: 'Chybí stav účasti.' });
+  }
+
+  let guestFields: Record<string, unknown> = {};
+  if (isGuest && !existing) {
+    // A new guest — brought by a member, billed to a member
+    const name = typeof guest?.name === 'string' ? guest.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ error: 'Jméno hosta je povinné.' });
+    }
+    const invitedBy = guest.invitedBy ?? member.userId;
+    if (invitedBy !== member.userId && !hasPermission(member.role, 'attendance:manage')) {
+      return res.status(403).json({ error: 'Hosty za jiné hráče může přidat pouze organizátor.' });
     }
+    for (const memberId of new Set([invitedBy, guest.paidBy ?? invitedBy])) {
+      if (memberId !== member.userId && !await getMemberRole(redis, member.groupId, memberId)) {
+        return res.status(400).json({ error: 'Hráč není členem této skupiny.' });
+      }
+    }
+    guestFields = { isGuest: true, guestName: name, invitedBy, paidBy: guest.paidBy ?? invitedBy };
+  } else if (isGuest) {
+    guestFields = { isGuest: true, guestName: parsed.guestName, invitedBy: parsed.invitedBy, paidBy: parsed.paidBy };
+  } else if (userId !== member.userId && !await getMemberRole(redis, member.groupId, userId)) {
+    return res.status(400).json({ error: 'Hráč není členem této skupiny.' });
+  }
+
+  // Players manage their own RSVP and payment (and those of their guests);
+  // other people's records need a role, the first one too. Waitlist promotion is done below.
+  if (userId !== member.userId) {
+    const role = member.role;
+    const isHost = isGuest && guestFields.invitedBy === member.userId;
+    if (status !== parsed.status && !isHost && !hasPermission(role, 'attendance:manage')) {
+      return res.status(403).json({ error: 'Měnit účast jiných hráčů může pouze organizátor.' });
+    }
+    const isPayer = isGuest && guestPayer(guestFields) === member.userId;
+    if (hasPaid !== undefined && hasPaid !== (parsed.hasPaid ?? false) && !isPayer && !hasPermission(role, 'payment:mark')) {
+      return res.status(403).json({ error: 'Platby jiných hráčů může potvrdit pouze pokladník.' });
+    }
+  }
 
-    const { eventId, userId, status, hasPaid } = req.body;
+  const canManage = hasPermission(member.role, 'attendance:manage');
+  const policy = getAttendancePolicy(event, await loadSportConfigs(repos, event.groupId));
+  const hoursLeft = hoursUntilStart(event);
 
-    if (!eventId || !userId || !status) {
-      return res.status(400).json({ error: 'eventId, userId, and status are required' });
+  // Past the cut-off the line-up is settled — except answering a held spot
+  const answersOffer = parsed.confirmBy !== undefined && userId === member.userId;
+  if (status !== parsed.status && policy.rsvpLockHours > 0 && hoursLeft < policy.rsvpLockHours && !canManage && !answersOffer) {
+    return res.status(403).json({ error: 'Přihlašování na tuto akci je uzavřené, změnu účasti provede organizátor.' });
+  }
+  if (noShow !== undefined) {
+    if (!canManage) {
+      return res.status(403).json({ error: 'Nedostavení může označit pouze organizátor.' });
+    }
+    if (hoursLeft > 0 || status !== 'joined' || parsed.status !== 'joined') {
+      return res.status(400).json({ error: 'Nedostavení lze označit jen u přihlášeného hráče po začátku akce.' });
     }
+  }
+  if (lateCancel !== undefined && !canManage) {
+    return res.status(403).json({ error: 'Poplatek za pozdní odhlášení může prominout pouze organizátor.' });
+  }
 
-    const compositeKey = `${eventId}_${userId}`;
+  // The waitlist is ordered by timestamp — only a status change moves it
+  let effectiveStatus = status;
+  if (status === 'joined' && parsed.status !== 'joined') {
+    const maxPlayers = await loadCapacity(repos, event);
+    const joined = (await repos.attendance.listByEvent(eventId)).filter(r => r.status === 'joined' && r.userId !== userId).length;
+    if (maxPlayers && joined >= maxPlayers) effectiveStatus = 'waitlist';
+  }
+  const statusChanged = effectiveStatus !== parsed.status;
 
-    // Get existing record for merge
-    const existing: any = await redis.get(`attendance:${compositeKey}`);
-    const parsed = existing ? (typeof existing === 'string' ? JSON.parse(existing) : existing) : {};
+  // A spot held for a promoted player stays held until they answer themselves
+  const keepsOffer = parsed.confirmBy !== undefined && !statusChanged && userId !== member.userId;
 
-    const record = {
-      eventId,
-      userId,
-      status,
-      hasPaid: hasPaid ?? parsed.hasPaid ?? false,
-      timestamp: Date.now(),
-    };
+  // Leaving a joined spot too late still costs the share — unless an organizer
+  // takes someone off the list, or a held spot is turned down
+  const leavesLate = parsed.status === 'joined' && effectiveStatus !== 'joined' && !answersOffer
+    && policy.lateCancelHours > 0 && hoursLeft < policy.lateCancelHours
+    && !(canManage && userId !== member.userId);
+  const isLateCancel = effectiveStatus !== 'joined' && lateCancel !== false && (leavesLate || !!parsed.lateCancel);
+  const isNoShow = effectiveStatus === 'joined' && (noShow ?? parsed.noShow ?? false);
 
-    // Store the attendance record
-    await redis.set(`attendance:${compositeKey}`, JSON.stringify(record));
+  const record = {
+    eventId,
+    userId,
+    status: effectiveStatus,
+    hasPaid: hasPaid ?? parsed.hasPaid ?? false,
+    timestamp: statusChanged || !parsed.timestamp ? Date.now() : parsed.timestamp,
+    variableSymbol: parsed.variableSymbol ?? await issueVariableSymbol(redis, eventId, userId),
+    ...guestFields,
+    ...(keepsOffer ? { confirmBy: parsed.confirmBy } : {}),
+    ...(isLateCancel ? { lateCancel: true } : {}),
+    ...(isNoShow ? { noShow: true } : {}),
+  };
 
-    // Maintain index sets for efficient lookups
-    await redis.sadd(`attendance:event:${eventId}`, compositeKey);
-    await redis.sadd(`attendance:user:${userId}`, compositeKey);
+  await repos.attendance.save(record);
 
-    return res.status(200).json({ success: true });
-  } catch (error: any) {
-    console.error('API /api/attendance error:', error);
-    return res.status(500).json({ error: error.message || 'Internal server error' });
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'attendance.update',
+    eventId,
+    userId,
+    changes: diffRecords(existing, record, ['eventId', 'userId', 'timestamp', 'variableSymbol']),
+  });
+
+  // An organizer moved a waitlisted member up — tell them on the next notification run
+  if (parsed.status === 'waitlist' && effectiveStatus === 'joined' && userId !== member.userId && !isGuest) {
+    await queuePromotion(redis, member.groupId, eventId, userId);
+  }
+
+  await settleWaitlist(redis, repos, event, member.userId);
+  await refreshUnpaidIndex(repos, event);
+  await publishChange(redis, member.groupId, { kind: 'attendance', eventId, actorId: member.userId, clientId: getClientId(req) });
+
+  return res.status(200).json({ success: true, status: effectiveStatus, lateCancel: isLateCancel });
+}
+
+// DELETE /api/attendance?eventId=xxx&userId=guest_xxx — remove a guest (inviter or organizer)
+// The inviter only while the guest could leave for free, see canHostRemoveGuest().
+async function handleDelete(req: ApiRequest, res: ApiResponse, member: Member) {
+  const eventId = req.query.eventId as string;
+  const userId = req.query.userId as string;
+
+  if (!eventId || !userId) {
+    return res.status(400).json({ error: 'eventId and userId are required' });
   }
+  const event = await repos.events.get(eventId);
+  if (event?.groupId !== member.groupId) {
+    return res.status(404).json({ error: 'Event not found' });
+  }
+
+  return repos.events.withLock(eventId, () => deleteGuest(req, res, member, event, userId));
 }
 
+async function deleteGuest(req: ApiRequest, res: ApiResponse, member: Member, event: any, userId: string) {
+  const eventId = event.id;
+  const existing = await repos.attendance.get(eventId, userId);
+  // Members only ever decline — removing is for guests who have no account to decline with
+  if (!existing?.isGuest) {
+    return res.status(404).json({ error: 'Host nenalezen' });
+  }
+  if (!hasPermission(member.role, 'attendance:manage')) {
+    if (existing.invitedBy !== member.userId) {
+      return res.status(403).json({ error: 'Hosta může odebrat jen ten, kdo ho pozval, nebo organizátor.' });
+    }
+    // Past the cut-off or too late to leave for free the share stays — the host can still decline for them
+    if (!canHostRemoveGuest(existing, event, await loadSportConfigs(repos, event.groupId))) {
+      return res.status(403).json({ error: 'Hosta už může odebrat jen organizátor.' });
+    }
+  }
+
+  await repos.attendance.delete(eventId, userId);
+
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'attendance.update',
+    eventId,
+    userId,
+    changes: diffRecords(existing, null, ['eventId', 'userId', 'timestamp', 'variableSymbol']),
+  });
+
+  // A guest who played frees their spot
+  await settleWaitlist(redis, repos, event, member.userId);
+  await refreshUnpaidIndex(repos, event);
+  await publishChange(redis, member.groupId, { kind: 'attendance', eventId, actorId: member.userId, clientId: getClientId(req) });
+
+  return res.status(200).json({ success: true });
+}
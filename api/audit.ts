@@ -0,0 +1,104 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { requireMember, type Member } from './_lib/groups.js';
+import { getRedis } from './_lib/db.js';
+
+const redis = getRedis();
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+interface ApiRequest extends IncomingMessage {
+  body: any;
+  query: Record<string, string | string[]>;
+}
+
+interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(data: any): void;
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed. Use GET.' });
+  }
+
+  try {
+    // The trail shows who paid and who changed what — group members only
+    const member = await requireMember(redis, req, res);
+    if (!member) return;
+
+    return await handleGet(req, res, member);
+  } catch (error: any) {
+    console.error('API /api/audit error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
+
+// GET /api/audit?eventId=&userId=&from=&to=&limit= — newest entries first
+// from/to are millisecond timestamps (inclusive); userId matches actor or affected user.
+// Only entries of the active group are returned — never account-level ones, which
+// have no group and would show members the account changes of non-members.
+async function handleGet(req: ApiRequest, res: ApiResponse, member: Member) {
+  const eventId = req.query.eventId as string | undefined;
+  const userId = req.query.userId as string | undefined;
+  const from = req.query.from !== undefined ? Number(req.query.from) : -Infinity;
+  const to = req.query.to !== undefined ? Number(req.query.to) : Infinity;
+  const limit = Math.min(Number(req.query.limit) || DEFAULT_LIMIT, MAX_LIMIT);
+
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return res.status(400).json({ error: 'from and to must be timestamps in milliseconds' });
+  }
+
+  // Walk the narrowest index; the other filter is applied on the loaded entries
+  const indexKey = eventId
+    ? `audit:event:${eventId}`
+    : userId ? `audit:user:${userId}` : `audit:group:${member.groupId}`;
+  const needsUserFilter = Boolean(eventId && userId);
+  // A user's index spans all their groups
+  const needsGroupFilter = !eventId && Boolean(userId);
+  const needsFilter = needsUserFilter || needsGroupFilter;
+
+  const ids = await redis.zrange<string[]>(
+    indexKey,
+    to === Infinity ? '+inf' : to,
+    from === -Infinity ? '-inf' : from,
+    { byScore: true, rev: true, offset: 0, count: needsFilter ? MAX_LIMIT : limit },
+  );
+  if (!ids || ids.length === 0) {
+    return res.status(200).json([]);
+  }
+
+  const pipeline = redis.pipeline();
+  for (const id of ids) {
+    pipeline.get(`audit:${id}`);
+  }
+  const migratedAt = await legacyCutoff(member.groupId);
+  let entries = (await pipeline.exec()).filter(Boolean).map(parseJson)
+    .filter((e: any) => (e.groupId ? e.groupId === member.groupId : e.timestamp < migratedAt));
+
+  if (needsUserFilter) {
+    entries = entries.filter((e: any) => e.actorId === userId || e.userId === userId);
+  }
+
+  return res.status(200).json(entries.slice(0, limit));
+}
+
+// --- Helpers ---
+
+/**
+ * Entries written before groups existed have no group and belong to the
+ * migrated one — up to the migration. Group-less entries written since are
+ * account-level (user.*) and belong to no group. -Infinity for other groups.
+ */
+async function legacyCutoff(groupId: string): Promise<number> {
+  if (await redis.get<string>('groups:migrated') !== groupId) return -Infinity;
+  const group = parseJson(await redis.get(`group:${groupId}`));
+  return group?.createdAt ?? -Infinity;
+}
+
+function parseJson(val: any): any {
+  if (typeof val === 'string') {
+    try { return JSON.parse(val); } catch { return val; }
+  }
+  return val;
+}
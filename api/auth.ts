@@ -0,0 +1,149 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { SETUP_CODE_PREFIX, createSessionToken, getSession, hashPin, requireSession, verifyPin } from './_lib/auth.js';
+import { parseBody } from './_lib/validation.js';
+import { getRedis, getRepos } from './_lib/db.js';
+import { changePinSchema, loginSchema } from '../shared/apiSchemas.js';
+
+const redis = getRedis();
+const repos = getRepos();
+
+/** Failed PIN attempts allowed per client and name before a temporary lockout */
+const MAX_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_SECONDS = 15 * 60;
+
+/** Same answer for an unknown name and a wrong PIN — the login must not tell which names exist */
+const LOGIN_FAILED = 'Nesprávné jméno nebo PIN.';
+
+interface ApiRequest extends IncomingMessage {
+  body: any;
+  query: Record<string, string | string[]>;
+}
+
+interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(data: any): void;
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGet(req, res);
+      case 'POST':
+        return await handlePost(req, res);
+      case 'PUT':
+        return await handlePut(req, res);
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('API /api/auth error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
+
+// GET /api/auth — return the user behind the current session token
+async function handleGet(req: ApiRequest, res: ApiResponse) {
+  const session = await getSession(redis, req);
+  if (!session) {
+    return res.status(401).json({ error: 'Nepřihlášen.' });
+  }
+
+  const user = await repos.users.get(session.userId);
+  if (!user) {
+    return res.status(401).json({ error: 'Uživatel nenalezen.' });
+  }
+
+  return res.status(200).json({ user });
+}
+
+// POST /api/auth — log in { name, pin, setupCode? } → { token, user }
+// The account is looked up by name, the way registration keeps names unique.
+// Profiles created before PINs existed have no credentials yet. Their first
+// PIN needs the one-time code a group admin issued (PUT /api/groups), so
+// whoever knows a name cannot claim the profile. A missing or wrong code
+// fails like a wrong PIN — no answer tells which names exist.
+async function handlePost(req: ApiRequest, res: ApiResponse) {
+  const body = parseBody(loginSchema, req.body, res);
+  if (!body) return;
+  const { name, pin, setupCode } = body;
+
+  const wanted = name.trim().toLowerCase();
+
+  // Per client and name: someone guessing from their device can't lock the
+  // owner out of theirs, and unknown names count like known ones
+  const attemptsKey = `auth:attempts:${clientAddress(req)}:${wanted}`;
+  const attempts = Number(await redis.get(attemptsKey)) || 0;
+  if (attempts >= MAX_LOGIN_ATTEMPTS) {
+    return res.status(429).json({ error: 'Příliš mnoho pokusů. Zkuste to znovu za 15 minut.' });
+  }
+
+  const failedAttempt = async () => {
+    await redis.incr(attemptsKey);
+    await redis.expire(attemptsKey, LOCKOUT_SECONDS);
+  };
+
+  const user = (await repos.users.list()).find((u: any) => u.name.toLowerCase() === wanted);
+  if (!user) {
+    await hashPin(pin); // as slow as checking a PIN, so the timing doesn't tell either
+    await failedAttempt();
+    return res.status(401).json({ error: LOGIN_FAILED });
+  }
+  const userId: string = user.id;
+
+  const existing: any = await redis.get(`credentials:${userId}`);
+  if (existing) {
+    const valid = await verifyPin(pin, parseJson(existing));
+    if (!valid) {
+      await failedAttempt();
+      return res.status(401).json({ error: LOGIN_FAILED });
+    }
+  } else {
+    const issued: any = setupCode ? await redis.get(`${SETUP_CODE_PREFIX}${userId}`) : null;
+    if (!issued) await hashPin(pin); // as slow as checking a code
+    if (!issued || !await verifyPin(setupCode!, parseJson(issued))) {
+      await failedAttempt();
+      return res.status(401).json({ error: LOGIN_FAILED });
+    }
+    await redis.set(`credentials:${userId}`, JSON.stringify(await hashPin(pin)));
+    await redis.del(`${SETUP_CODE_PREFIX}${userId}`);
+  }
+
+  await redis.del(attemptsKey);
+  return res.status(200).json({ token: createSessionToken(userId), user });
+}
+
+// PUT /api/auth — change own PIN { currentPin, newPin } → { token }
+// The new PIN ends every session issued before it — this device gets a new token.
+async function handlePut(req: ApiRequest, res: ApiResponse) {
+  const session = await requireSession(redis, req, res);
+  if (!session) return;
+
+  const body = parseBody(changePinSchema, req.body, res);
+  if (!body) return;
+  const { currentPin, newPin } = body;
+
+  const existing: any = await redis.get(`credentials:${session.userId}`);
+  if (existing && !(typeof currentPin === 'string' && await verifyPin(currentPin, parseJson(existing)))) {
+    return res.status(401).json({ error: 'Nesprávný současný PIN.' });
+  }
+
+  await redis.set(`credentials:${session.userId}`, JSON.stringify(await hashPin(newPin)));
+  return res.status(200).json({ success: true, token: createSessionToken(session.userId) });
+}
+
+// --- Helpers ---
+
+/** The caller's address — Vercel puts the client first in X-Forwarded-For */
+function clientAddress(req: IncomingMessage): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket?.remoteAddress || 'unknown';
+}
+
+function parseJson(val: any): any {
+  if (typeof val === 'string') {
+    try { return JSON.parse(val); } catch { return val; }
+  }
+  return val;
+}
@@ -1,10 +1,13 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import { Redis } from '@upstash/redis';
+import { requireSession } from './_lib/auth.js';
+import { requireMember } from './_lib/groups.js';
+import { diffRecords, recordAudit } from './_lib/audit.js';
+import { parseBody } from './_lib/validation.js';
+import { getRedis, getRepos } from './_lib/db.js';
+import { bankAccountSchema } from '../shared/apiSchemas.js';
 
-const redis = new Redis({
-  url: process.env.volejbal_KV_REST_API_URL!,
-  token: process.env.volejbal_KV_REST_API_TOKEN!,
-});
+const redis = getRedis();
+const repos = getRepos();
 
 interface ApiRequest extends IncomingMessage {
   body: any;
@@ -20,7 +23,7 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
   try {
     switch (req.method) {
       case 'GET':
-        return await handleGet(res);
+        return await handleGet(req, res);
       case 'POST':
         return await handlePost(req, res);
       default:
@@ -32,22 +35,13 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
   }
 }
 
-// GET /api/bank-accounts — list all user bank accounts
-async function handleGet(res: ApiResponse) {
-  const userAccountIds = await redis.smembers('bankaccounts:users');
-  if (!userAccountIds || userAccountIds.length === 0) {
-    return res.status(200).json([]);
-  }
-
-  const pipeline = redis.pipeline();
-  for (const userId of userAccountIds) {
-    pipeline.get(`bankaccount:user:${userId}`);
-  }
-  const results = await pipeline.exec();
+// GET /api/bank-accounts — list bank accounts of the active group's members
+async function handleGet(req: ApiRequest, res: ApiResponse) {
+  const member = await requireMember(redis, req, res);
+  if (!member) return;
 
-  const accounts = results
-    .filter(Boolean)
-    .map((r: any) => parseJson(r));
+  const memberIds = await redis.hkeys(`group:${member.groupId}:members`);
+  const accounts = await repos.bankAccounts.listByUsers(memberIds);
 
   // Sort by ownerName
   accounts.sort((a: any, b: any) =>
@@ -59,20 +53,19 @@ async function handleGet(res: ApiResponse) {
 
 // POST /api/bank-accounts — create personal bank account { ownerName, accountNumber, userId }
 async function handlePost(req: ApiRequest, res: ApiResponse) {
-  const { ownerName, accountNumber, userId } = req.body;
+  const session = await requireSession(redis, req, res);
+  if (!session) return;
 
-  if (!ownerName || !ownerName.trim()) {
-    return res.status(400).json({ error: 'Jméno vlastníka je povinné.' });
-  }
-  if (!accountNumber || !accountNumber.trim()) {
-    return res.status(400).json({ error: 'Číslo účtu je povinné.' });
-  }
-  if (!userId) {
-    return res.status(400).json({ error: 'userId je povinné.' });
+  const body = parseBody(bankAccountSchema, req.body, res);
+  if (!body) return;
+  const { ownerName, accountNumber, userId } = body;
+
+  if (userId !== session.userId) {
+    return res.status(403).json({ error: 'Můžete nastavit pouze svůj účet.' });
   }
 
   // Check if user already has a bank account
-  const existing = await redis.get(`bankaccount:user:${userId}`);
+  const existing = await repos.bankAccounts.getByUser(userId);
   if (existing) {
     return res.status(409).json({ error: 'Již máte nastavený bankovní účet.' });
   }
@@ -84,8 +77,15 @@ async function handlePost(req: ApiRequest, res: ApiResponse) {
     accountNumber: accountNumber.trim(),
     userId,
   };
-  await redis.set(`bankaccount:user:${userId}`, JSON.stringify(account));
-  await redis.sadd('bankaccounts:users', userId);
+  await repos.bankAccounts.save(account);
+
+  await recordAudit(redis, {
+    actorId: session.userId,
+    action: 'bankaccount.create',
+    userId,
+    changes: diffRecords(null, account, ['id', 'userId']),
+  });
+
   return res.status(201).json(account);
 }
 
@@ -95,10 +95,3 @@ function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substring(2);
 }
 
-function parseJson(val: any): any {
-  if (typeof val === 'string') {
-    try { return JSON.parse(val); } catch { return val; }
-  }
-  return val;
-}
-
@@ -0,0 +1,98 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createUnsubscribeToken } from '../_lib/auth.js';
+import { isEmptyDigest, planDigest, renderDigest, type DigestGroup } from '../_lib/digest.js';
+import { loadGroupEvents, loadSportConfigs } from '../_lib/events.js';
+import { EMAIL_PATTERN, getMailTransport, isMailConfigured } from '../_lib/mail.js';
+import { claim } from '../_lib/notifications.js';
+import { pragueWallClock } from '../../shared/eventTime.js';
+import { getRedis, getRepos } from '../_lib/db.js';
+
+const redis = getRedis();
+const repos = getRepos();
+
+interface ApiRequest extends IncomingMessage {
+  body: any;
+  query: Record<string, string | string[]>;
+}
+
+interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(data: any): void;
+}
+
+function parseJson(value: any): any {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+// GET|POST /api/digest/run — cron: weekly e-mail digest to every member with an address
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    // Vercel Cron sends `Authorization: Bearer $CRON_SECRET`
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      throw new Error('CRON_SECRET is not configured');
+    }
+    if (req.headers.authorization !== `Bearer ${secret}`) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const now = new Date();
+    const today = new Date(pragueWallClock(now)).toISOString().slice(0, 10);
+    const appUrl = (process.env.APP_URL || `https://${req.headers.host}`).replace(/\/$/, '');
+    const transport = getMailTransport();
+    const recipients = await loadRecipients();
+    const groups = new Map<string, Promise<DigestGroup | null>>();
+
+    let sent = 0;
+    for (const user of recipients) {
+      const groupIds = await redis.smembers(`user:${user.id}:groups`);
+      const userGroups = (await Promise.all(groupIds.map(groupId => {
+        if (!groups.has(groupId)) groups.set(groupId, loadDigestGroup(groupId));
+        return groups.get(groupId)!;
+      }))).filter((g): g is DigestGroup => g !== null);
+
+      const digest = planDigest(user.id, userGroups, now);
+      if (isEmptyDigest(digest)) continue;
+      // A re-run on the same day must not send the digest twice
+      if (!await claim(redis, `digest:${user.id}:${today}`)) continue;
+
+      const unsubscribeUrl = `${appUrl}/api/digest/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(user.id))}`;
+      try {
+        await transport.send({ to: user.email, ...await renderDigest(user.name, digest, { appUrl, unsubscribeUrl }) });
+        sent++;
+      } catch (error) {
+        // One rejected address must not stop the rest of the run
+        console.error('Digest delivery failed:', error);
+      }
+    }
+
+    return res.status(200).json({ recipients: recipients.length, sent, standIn: !isMailConfigured() });
+  } catch (error: any) {
+    console.error('API /api/digest/run error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
+
+/** Users with an e-mail address who haven't unsubscribed */
+async function loadRecipients(): Promise<{ id: string; name: string; email: string }[]> {
+  const users = await repos.users.list();
+  return users.filter((u: any) => typeof u.email === 'string' && EMAIL_PATTERN.test(u.email) && u.emailDigest !== false);
+}
+
+async function loadDigestGroup(groupId: string): Promise<DigestGroup | null> {
+  const group: any = await redis.get(`group:${groupId}`);
+  if (!group) return null;
+
+  const memberIds = await redis.hkeys(`group:${groupId}:members`);
+  const [events, sportConfigs, bankAccounts] = await Promise.all([
+    loadGroupEvents(repos, groupId),
+    loadSportConfigs(repos, groupId),
+    // Personal accounts of the group's members — events may select one of them
+    repos.bankAccounts.listByUsers(memberIds),
+  ]);
+  return { name: parseJson(group).name, events, sportConfigs, bankAccounts };
+}
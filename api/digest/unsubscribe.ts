@@ -0,0 +1,63 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { verifyUnsubscribeToken } from '../_lib/auth.js';
+import { diffRecords, recordAudit } from '../_lib/audit.js';
+import { getRedis, getRepos } from '../_lib/db.js';
+
+const redis = getRedis();
+const repos = getRepos();
+
+interface ApiRequest extends IncomingMessage {
+  body: any;
+  query: Record<string, string | string[]>;
+}
+
+interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(data: any): void;
+}
+
+const page = (message: string): string => `<!DOCTYPE html>
+<html lang="cs">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Sport Plánovač</title></head>
+<body style="font-family:Arial,sans-serif;color:#0f172a;text-align:center;padding:48px 16px;">
+  <p>${message}</p>
+  <p><a href="/" style="color:#2563eb;">Otevřít aplikaci</a></p>
+</body>
+</html>`;
+
+// GET /api/digest/unsubscribe?token=xxx — link from the digest e-mail
+// POST — one-click unsubscribe from the mail client (List-Unsubscribe-Post)
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const token = req.query.token as string;
+    const userId = token ? verifyUnsubscribeToken(token) : null;
+    const parsed = userId ? await repos.users.get(userId) : null;
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    if (!parsed) {
+      res.statusCode = 400;
+      return res.end(page('Odkaz pro odhlášení je neplatný.'));
+    }
+
+    if (parsed.emailDigest !== false) {
+      const updatedUser = { ...parsed, emailDigest: false };
+      await repos.users.save(updatedUser);
+      await recordAudit(redis, {
+        actorId: userId!,
+        action: 'user.update',
+        userId: userId!,
+        changes: diffRecords(parsed, updatedUser),
+      });
+    }
+
+    res.statusCode = 200;
+    return res.end(page('Týdenní přehled e-mailem jste odhlásili. Znovu ho zapnete v nastavení aplikace.'));
+  } catch (error: any) {
+    console.error('API /api/digest/unsubscribe error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -1,15 +1,16 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import { Redis } from '@upstash/redis';
-
-const redis = new Redis({
-  url: process.env.volejbal_KV_REST_API_URL!,
-  token: process.env.volejbal_KV_REST_API_TOKEN!,
-});
-
-/** Allowed sport types — anything else falls back to 'volejbal' */
-const VALID_SPORT_TYPES = ['volejbal', 'tenis', 'badminton'] as const;
-
-const MAX_BATCH_SIZE = 26;
+import { requirePermission } from './_lib/permissions.js';
+import { requireMember } from './_lib/groups.js';
+import { diffRecords, recordAudit } from './_lib/audit.js';
+import { getClientId, publishChange } from './_lib/changes.js';
+import { isReplayedCreate, loadSportConfigs } from './_lib/events.js';
+import { parseBody } from './_lib/validation.js';
+import { getRedis, getRepos } from './_lib/db.js';
+import { createEventsBatchSchema, unknownSportIssues } from '../shared/apiSchemas.js';
+import { invalidRequest } from '../shared/schema.js';
+
+const redis = getRedis();
+const repos = getRepos();
 
 interface ApiRequest extends IncomingMessage {
   body: any;
@@ -27,54 +28,62 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
   }
 
   try {
-    const { events } = req.body;
+    const member = await requireMember(redis, req, res);
+    if (!member) return;
+    if (!requirePermission(member, res, 'event:create')) return;
 
-    // Validation
-    if (!events || !Array.isArray(events)) {
-      return res.status(400).json({ error: 'Request body must contain an "events" array' });
-    }
+    // 1 to MAX_EVENTS_BATCH events, each checked like a single POST /api/events
+    const body = parseBody(createEventsBatchSchema, req.body, res);
+    if (!body) return;
+    const { events } = body;
 
-    if (events.length === 0) {
-      return res.status(400).json({ error: 'Events array must not be empty' });
-    }
+    const sportIssues = unknownSportIssues(events, await loadSportConfigs(repos, member.groupId), i => `events[${i}].sportType`);
+    if (sportIssues.length > 0) return res.status(400).json(invalidRequest(sportIssues));
 
-    if (events.length > MAX_BATCH_SIZE) {
-      return res.status(400).json({
-        error: `Batch size exceeds maximum of ${MAX_BATCH_SIZE} events`,
-        maxAllowed: MAX_BATCH_SIZE,
-        received: events.length,
-      });
-    }
-
-    // Normalize and validate each event
-    const normalizedEvents: any[] = [];
+    const batch: any[] = [];
+    const ids: string[] = [];
     for (const event of events) {
       const { participants: _participants, ...eventData } = event;
+      eventData.groupId = member.groupId;
+      eventData.organizerId = member.userId;
+      eventData.id ||= generateId();
+      eventData.version = 1;
+      ids.push(eventData.id);
+      batch.push(eventData);
+    }
 
-      if (!eventData.id) {
-        eventData.id = generateId();
-      }
-
-      // Normalize invalid sport types
-      if (eventData.sportType && !VALID_SPORT_TYPES.includes(eventData.sportType)) {
-        eventData.sportType = 'volejbal';
+    // One id twice would silently keep only the later event
+    const duplicateIssues = ids.flatMap((id, i) =>
+      ids.indexOf(id) < i ? [{ path: `events[${i}].id`, message: `ID „${id}“ je v dávce víckrát.` }] : []);
+    if (duplicateIssues.length > 0) return res.status(400).json(invalidRequest(duplicateIssues));
+
+    // Checked and written under the events' locks, like POST /api/events — a client-chosen
+    // id must not overwrite an event, only a replayed batch finds its own. All or nothing.
+    const normalizedEvents = await withEventLocks([...ids].sort(), async () => {
+      const created: any[] = [];
+      for (const eventData of batch) {
+        const stored = await repos.events.get(eventData.id);
+        if (stored && !isReplayedCreate(stored, member)) return null;
+        if (!stored) created.push(eventData);
       }
-
-      normalizedEvents.push(eventData);
+      await repos.events.saveMany(created);
+      return created;
+    });
+    if (!normalizedEvents) {
+      return res.status(409).json({ error: 'Událost s tímto ID už existuje.' });
     }
 
-    // Atomic pipeline — all or nothing
-    const pipeline = redis.pipeline();
-    const ids: string[] = [];
-
     for (const eventData of normalizedEvents) {
-      pipeline.set(`event:${eventData.id}`, JSON.stringify(eventData));
-      pipeline.sadd('events:all', eventData.id);
-      ids.push(eventData.id);
+      await recordAudit(redis, {
+        actorId: member.userId,
+        groupId: member.groupId,
+        action: 'event.create',
+        eventId: eventData.id,
+        changes: diffRecords(null, eventData, ['id', 'groupId', 'organizerId', 'version']),
+      });
+      await publishChange(redis, member.groupId, { kind: 'event', eventId: eventData.id, actorId: member.userId, clientId: getClientId(req) });
     }
 
-    await pipeline.exec();
-
     return res.status(201).json({ success: true, ids, count: ids.length });
   } catch (error: any) {
     console.error('API /api/events-batch error:', error);
@@ -85,6 +94,12 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
   }
 }
 
+/** Run `fn` holding the lock of every id — taken in the given (sorted) order, so two batches can't wait on each other */
+function withEventLocks<T>(ids: string[], fn: () => Promise<T>): Promise<T> {
+  const [first, ...rest] = ids;
+  return first === undefined ? fn() : repos.events.withLock(first, () => withEventLocks(rest, fn));
+}
+
 function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substring(2);
 }
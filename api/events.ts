@@ -1,13 +1,20 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import { Redis } from '@upstash/redis';
-
-const redis = new Redis({
-  url: process.env.volejbal_KV_REST_API_URL!,
-  token: process.env.volejbal_KV_REST_API_TOKEN!,
-});
-
-/** Allowed sport types — anything else falls back to 'volejbal' */
-const VALID_SPORT_TYPES = ['volejbal', 'tenis', 'badminton'] as const;
+import { requirePermission } from './_lib/permissions.js';
+import { hasPermission } from '../shared/permissions.js';
+import { requireMember, type Member } from './_lib/groups.js';
+import { diffRecords, recordAudit } from './_lib/audit.js';
+import { isReplayedCreate, loadEventPage, loadHydratedEvent, loadSportConfigs, loadUnpaidEvents, refreshUnpaidIndex } from './_lib/events.js';
+import { parseBody } from './_lib/validation.js';
+import { getClientId, publishChange } from './_lib/changes.js';
+import { getRedis, getRepos } from './_lib/db.js';
+import { createEventSchema, eventsQuerySchema, unknownSportIssues, updateEventSchema } from '../shared/apiSchemas.js';
+import { invalidRequest } from '../shared/schema.js';
+
+const redis = getRedis();
+const repos = getRepos();
+
+/** Game-day fields any signed-in player may change (teams are reshuffled on RSVP) */
+const GAMEPLAY_FIELDS = ['teams', 'teamNames', 'winningTeam', 'score', 'matchFormat', 'matches', 'gameHistory'];
 
 interface ApiRequest extends IncomingMessage {
   body: any;
@@ -21,15 +28,19 @@ interface ApiResponse extends ServerResponse {
 
 export default async function handler(req: ApiRequest, res: ApiResponse) {
   try {
+    // Events belong to a group — only its members may read or change them
+    const member = await requireMember(redis, req, res);
+    if (!member) return;
+
     switch (req.method) {
       case 'GET':
-        return await handleGet(res);
+        return await handleGet(req, res, member);
       case 'POST':
-        return await handlePost(req, res);
+        return await handlePost(req, res, member);
       case 'PUT':
-        return await handlePut(req, res);
+        return await handlePut(req, res, member);
       case 'DELETE':
-        return await handleDelete(req, res);
+        return await handleDelete(req, res, member);
       default:
         return res.status(405).json({ error: 'Method not allowed' });
     }
@@ -39,102 +50,108 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
   }
 }
 
-// GET /api/events — list all events with hydrated participants
-async function handleGet(res: ApiResponse) {
-  // Fetch raw events
-  const eventIds = await redis.smembers('events:all');
-  if (!eventIds || eventIds.length === 0) {
-    return res.status(200).json([]);
-  }
-
-  const eventPipeline = redis.pipeline();
-  for (const id of eventIds) {
-    eventPipeline.get(`event:${id}`);
-  }
-  const rawEvents = (await eventPipeline.exec()).filter(Boolean).map(parseJson);
-
-  // Fetch all users for name resolution
-  const userIds = await redis.smembers('users:all');
-  const usersMap: Record<string, any> = {};
-  if (userIds && userIds.length > 0) {
-    const userPipeline = redis.pipeline();
-    for (const id of userIds) {
-      userPipeline.get(`user:${id}`);
-    }
-    const users = (await userPipeline.exec()).filter(Boolean).map(parseJson);
-    for (const u of users) {
-      usersMap[u.id] = u;
+// GET /api/events?from=&to=&sportType=&cursor=&limit= — a page of the group's events,
+// oldest first, with hydrated participants: { events, nextCursor }.
+// GET /api/events?id=xxx — one event.
+// GET /api/events?unpaid=true&to= — every event up to `to` with an unpaid share, not paged.
+async function handleGet(req: ApiRequest, res: ApiResponse, member: Member) {
+  const query = parseBody(eventsQuerySchema, req.query, res);
+  if (!query) return;
+
+  if (query.id) {
+    const event = await loadHydratedEvent(repos, query.id);
+    if (event?.groupId !== member.groupId) {
+      return res.status(404).json({ error: 'Event not found' });
     }
+    return res.status(200).json(event);
   }
 
-  // Hydrate each event with participants
-  const hydratedEvents = await Promise.all(
-    rawEvents.map(async (event: any) => {
-      const attendanceCompositeKeys = await redis.smembers(`attendance:event:${event.id}`);
-      let participants: any[] = [];
-
-      if (attendanceCompositeKeys && attendanceCompositeKeys.length > 0) {
-        const attPipeline = redis.pipeline();
-        for (const key of attendanceCompositeKeys) {
-          attPipeline.get(`attendance:${key}`);
-        }
-        const attendanceRecords = (await attPipeline.exec()).filter(Boolean).map(parseJson);
-
-        participants = attendanceRecords.map((record: any) => {
-          const user = usersMap[record.userId];
-          return {
-            userId: record.userId,
-            name: user ? user.name : 'Neznámý',
-            photoUrl: user?.photoUrl,
-            status: record.status,
-            hasPaid: record.hasPaid,
-          };
-        });
-      }
-
-      const rawType = event.sportType ?? 'volejbal';
-      const sportType = VALID_SPORT_TYPES.includes(rawType) ? rawType : 'volejbal';
-      return { ...event, participants, sportType };
-    })
-  );
+  // Unpaged — every event with an unpaid share, for debts and settlement
+  if (query.unpaid) {
+    return res.status(200).json(await loadUnpaidEvents(repos, member.groupId, query.to));
+  }
 
-  return res.status(200).json(hydratedEvents);
+  const { id: _id, groupId: _groupId, unpaid: _unpaid, limit, ...filters } = query;
+  const page = await loadEventPage(repos, member.groupId, { ...filters, limit: limit ? Number(limit) : undefined });
+  return res.status(200).json(page);
 }
 
-// POST /api/events — create event
-async function handlePost(req: ApiRequest, res: ApiResponse) {
-  const { participants: _participants, ...eventData } = req.body;
+// POST /api/events — create event in the active group (organizer)
+async function handlePost(req: ApiRequest, res: ApiResponse, member: Member) {
+  if (!requirePermission(member, res, 'event:create')) return;
+
+  const body = parseBody(createEventSchema, req.body, res);
+  if (!body) return;
+
+  const sportIssues = unknownSportIssues([body], await loadSportConfigs(repos, member.groupId));
+  if (sportIssues.length > 0) return res.status(400).json(invalidRequest(sportIssues));
+
+  const { participants: _participants, ...eventData } = body;
+  eventData.groupId = member.groupId;
+  eventData.organizerId = member.userId;
+  eventData.id ||= generateId();
+  eventData.version = 1;
+
+  // The id may come from the client — never overwrite an event with it
+  const created = await repos.events.withLock(eventData.id, async () => {
+    const stored = await repos.events.get(eventData.id);
+    if (stored) return isReplayedCreate(stored, member) ? 'replayed' : 'taken';
+    await repos.events.save(eventData);
+    return 'created';
+  });
+  if (created === 'taken') return res.status(409).json({ error: 'Událost s tímto ID už existuje.' });
+  if (created === 'replayed') return res.status(201).json({ success: true, id: eventData.id });
+
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'event.create',
+    eventId: eventData.id,
+    changes: diffRecords(null, eventData, ['id', 'groupId', 'organizerId', 'version']),
+  });
+  await publishChange(redis, member.groupId, { kind: 'event', eventId: eventData.id, actorId: member.userId, clientId: getClientId(req) });
 
-  if (!eventData.id) {
-    eventData.id = generateId();
-  }
-
-  // Normalize invalid sport types to 'volejbal'
-  if (eventData.sportType && !VALID_SPORT_TYPES.includes(eventData.sportType)) {
-    eventData.sportType = 'volejbal';
-  }
+  return res.status(201).json({ success: true, id: eventData.id });
+}
 
-  await redis.set(`event:${eventData.id}`, JSON.stringify(eventData));
-  await redis.sadd('events:all', eventData.id);
+// PUT /api/events — update event (players may only touch GAMEPLAY_FIELDS)
+// `version` is the one the client edited; a stale one gets 409 with the current event.
+async function handlePut(req: ApiRequest, res: ApiResponse, member: Member) {
+  const body = parseBody(updateEventSchema, req.body, res);
+  if (!body) return;
 
-  return res.status(201).json({ success: true, id: eventData.id });
+  return repos.events.withLock(body.id, () => saveEvent(req, res, member, body));
 }
 
-// PUT /api/events — update event
-async function handlePut(req: ApiRequest, res: ApiResponse) {
-  const { participants: _participants, ...eventData } = req.body;
+async function saveEvent(req: ApiRequest, res: ApiResponse, member: Member, body: any) {
+  const { participants: _participants, groupId: _groupId, version, ...eventData } = body;
 
-  if (!eventData.id) {
-    return res.status(400).json({ error: 'Event ID is required' });
+  const parsed = await repos.events.get(eventData.id);
+  if (parsed?.groupId !== member.groupId) {
+    return res.status(404).json({ error: 'Event not found' });
   }
 
-  const existing: any = await redis.get(`event:${eventData.id}`);
-  if (!existing) {
-    return res.status(404).json({ error: 'Event not found' });
+  // A stale copy would look like a change of fields the player never touched — check it first.
+  // Events saved before versioning count as version 0.
+  const storedVersion = parsed.version ?? 0;
+  if ((version ?? 0) !== storedVersion) {
+    return res.status(409).json({
+      error: 'Událost mezitím upravil někdo jiný.',
+      current: await loadHydratedEvent(repos, parsed.id),
+    });
+  }
+
+  if (!hasPermission(member.role, 'event:edit') && changesProtectedFields(parsed, eventData)) {
+    return res.status(403).json({ error: 'Upravit událost může pouze organizátor.' });
+  }
+
+  // Only a new sport is checked — an event keeps one since removed from the settings
+  if (eventData.sportType !== undefined && eventData.sportType !== parsed.sportType) {
+    const sportIssues = unknownSportIssues([eventData], await loadSportConfigs(repos, member.groupId));
+    if (sportIssues.length > 0) return res.status(400).json(invalidRequest(sportIssues));
   }
 
-  const parsed = parseJson(existing);
-  const updated = { ...parsed, ...eventData };
+  const updated = { ...parsed, ...eventData, version: storedVersion + 1 };
 
   // Remove keys explicitly set to null (e.g. winningTeam cleared between rounds)
   for (const key of Object.keys(updated)) {
@@ -143,35 +160,51 @@ async function handlePut(req: ApiRequest, res: ApiResponse) {
     }
   }
 
-  await redis.set(`event:${eventData.id}`, JSON.stringify(updated));
-  return res.status(200).json({ success: true });
+  await repos.events.save(updated);
+  // The index is scored by date — a moved event moves in it too
+  await refreshUnpaidIndex(repos, updated);
+
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'event.update',
+    eventId: eventData.id,
+    changes: diffRecords(parsed, updated, ['version']),
+  });
+  await publishChange(redis, member.groupId, { kind: 'event', eventId: eventData.id, actorId: member.userId, clientId: getClientId(req) });
+
+  return res.status(200).json({ success: true, version: updated.version });
 }
 
-// DELETE /api/events?id=xxx — delete event + cascade attendance
-async function handleDelete(req: ApiRequest, res: ApiResponse) {
+// DELETE /api/events?id=xxx — delete event + cascade attendance (organizer)
+async function handleDelete(req: ApiRequest, res: ApiResponse, member: Member) {
+  if (!requirePermission(member, res, 'event:delete')) return;
+
   const id = req.query.id as string;
 
   if (!id) {
     return res.status(400).json({ error: 'Event ID is required' });
   }
 
+  const existing = await repos.events.get(id);
+  if (existing?.groupId !== member.groupId) {
+    return res.status(404).json({ error: 'Event not found' });
+  }
+
   // 1. Delete event
-  await redis.del(`event:${id}`);
-  await redis.srem('events:all', id);
+  await repos.events.delete(existing);
 
   // 2. Cascade delete attendance records for this event
-  const attendanceKeys = await redis.smembers(`attendance:event:${id}`);
-  if (attendanceKeys && attendanceKeys.length > 0) {
-    const pipeline = redis.pipeline();
-    for (const key of attendanceKeys) {
-      // key format: "eventId_userId" — extract userId
-      const userId = (key as string).replace(`${id}_`, '');
-      pipeline.del(`attendance:${key}`);
-      pipeline.srem(`attendance:user:${userId}`, key);
-    }
-    await pipeline.exec();
-  }
-  await redis.del(`attendance:event:${id}`);
+  await repos.attendance.deleteByEvent(id);
+
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'event.delete',
+    eventId: id,
+    changes: diffRecords(existing, null, ['id', 'groupId', 'version']),
+  });
+  await publishChange(redis, member.groupId, { kind: 'delete', eventId: id, actorId: member.userId, clientId: getClientId(req) });
 
   return res.status(200).json({ success: true });
 }
@@ -182,10 +215,11 @@ function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substring(2);
 }
 
-function parseJson(val: any): any {
-  if (typeof val === 'string') {
-    try { return JSON.parse(val); } catch { return val; }
-  }
-  return val;
+/** Clients send the whole event — only fields whose value actually differs count */
+function changesProtectedFields(stored: any, incoming: any): boolean {
+  return Object.keys(incoming).some(key =>
+    !GAMEPLAY_FIELDS.includes(key) &&
+    JSON.stringify(incoming[key] ?? null) !== JSON.stringify(stored[key] ?? null)
+  );
 }
 
@@ -0,0 +1,281 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createSetupCode, requireSession, type Session } from './_lib/auth.js';
+import { requirePermission } from './_lib/permissions.js';
+import { ROLES, hasPermission } from '../shared/permissions.js';
+import type { UserRole } from '../types.js';
+import {
+  countOtherAdmins,
+  generateInviteCode,
+  getMemberRole,
+  removeMember,
+  requireMember,
+  type Member,
+} from './_lib/groups.js';
+import { diffRecords, recordAudit } from './_lib/audit.js';
+import { parseBody } from './_lib/validation.js';
+import { getRedis } from './_lib/db.js';
+import { groupPostSchema, groupPutSchema } from '../shared/apiSchemas.js';
+
+const redis = getRedis();
+
+interface ApiRequest extends IncomingMessage {
+  body: any;
+  query: Record<string, string | string[]>;
+}
+
+interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(data: any): void;
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const session = await requireSession(redis, req, res);
+        if (!session) return;
+        return await handleGet(res, session);
+      }
+      case 'POST': {
+        const session = await requireSession(redis, req, res);
+        if (!session) return;
+        return await handlePost(req, res, session);
+      }
+      case 'PUT': {
+        const member = await requireMember(redis, req, res);
+        if (!member) return;
+        return await handlePut(req, res, member);
+      }
+      case 'DELETE': {
+        const member = await requireMember(redis, req, res);
+        if (!member) return;
+        return await handleDelete(req, res, member);
+      }
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('API /api/groups error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
+
+// GET /api/groups — groups of the signed-in user with their role in each
+// The invite code is only returned to members who may invite others.
+async function handleGet(res: ApiResponse, session: Session) {
+  const groupIds = await redis.smembers(`user:${session.userId}:groups`);
+  const groups: any[] = [];
+  for (const groupId of groupIds) {
+    const group = parseJson(await redis.get(`group:${groupId}`));
+    const role = await getMemberRole(redis, groupId, session.userId);
+    if (!group || !role) continue;
+    groups.push(toResponse(group, role));
+  }
+
+  groups.sort((a, b) => a.name.localeCompare(b.name, 'cs'));
+  return res.status(200).json(groups);
+}
+
+// POST /api/groups — create a group { name } (creator becomes admin)
+//                  or join one { inviteCode } (as a player)
+async function handlePost(req: ApiRequest, res: ApiResponse, session: Session) {
+  const body = parseBody(groupPostSchema, req.body, res);
+  if (!body) return;
+  const { name, inviteCode } = body;
+
+  if (inviteCode) {
+    const groupId = await redis.get<string>(`group:invite:${String(inviteCode).trim()}`);
+    const group = groupId ? parseJson(await redis.get(`group:${groupId}`)) : null;
+    if (!group) {
+      return res.status(404).json({ error: 'Neplatný kód pozvánky.' });
+    }
+
+    const existingRole = await getMemberRole(redis, group.id, session.userId);
+    if (existingRole) {
+      return res.status(200).json(toResponse(group, existingRole));
+    }
+
+    await redis.hset(`group:${group.id}:members`, { [session.userId]: 'player' });
+    await redis.sadd(`user:${session.userId}:groups`, group.id);
+
+    await recordAudit(redis, {
+      actorId: session.userId,
+      groupId: group.id,
+      action: 'member.join',
+      userId: session.userId,
+      changes: { role: { before: null, after: 'player' } },
+    });
+
+    return res.status(200).json(toResponse(group, 'player'));
+  }
+
+  if (!name || !String(name).trim()) {
+    return res.status(400).json({ error: 'Název skupiny je povinný.' });
+  }
+
+  const group = {
+    id: generateId(),
+    name: String(name).trim(),
+    inviteCode: generateInviteCode(),
+    createdAt: Date.now(),
+  };
+
+  await redis.set(`group:${group.id}`, JSON.stringify(group));
+  await redis.sadd('groups:all', group.id);
+  await redis.set(`group:invite:${group.inviteCode}`, group.id);
+  await redis.hset(`group:${group.id}:members`, { [session.userId]: 'admin' });
+  await redis.sadd(`user:${session.userId}:groups`, group.id);
+
+  await recordAudit(redis, {
+    actorId: session.userId,
+    groupId: group.id,
+    action: 'group.create',
+    changes: diffRecords(null, group, ['id', 'inviteCode', 'createdAt']),
+  });
+
+  return res.status(201).json(toResponse(group, 'admin'));
+}
+
+// PUT /api/groups — change the active group:
+//   { memberId, role }                  → set a member's role (admin)
+//   { memberId, issueSetupCode: true }  → one-time code for a member without a PIN (admin)
+//   { name }                            → rename the group (admin)
+//   { rotateInvite: true }              → issue a new invite code, the old link stops working
+async function handlePut(req: ApiRequest, res: ApiResponse, member: Member) {
+  const body = parseBody(groupPutSchema, req.body, res);
+  if (!body) return;
+  const { memberId, role, issueSetupCode, name, rotateInvite } = body;
+
+  const group = parseJson(await redis.get(`group:${member.groupId}`));
+  if (!group) {
+    return res.status(404).json({ error: 'Skupina nenalezena.' });
+  }
+
+  if (memberId && issueSetupCode) {
+    if (!requirePermission(member, res, 'user:manage')) return;
+    if (!await getMemberRole(redis, member.groupId, memberId)) {
+      return res.status(404).json({ error: 'Člen nenalezen.' });
+    }
+    // Only a profile that never had a PIN — a code must not take over an account in use
+    if (await redis.get(`credentials:${memberId}`)) {
+      return res.status(409).json({ error: 'Člen už má PIN nastavený.' });
+    }
+
+    const setupCode = await createSetupCode(redis, memberId);
+
+    await recordAudit(redis, {
+      actorId: member.userId,
+      groupId: member.groupId,
+      action: 'member.update',
+      userId: memberId,
+      changes: { setupCode: { before: null, after: 'vydán' } }, // never the code itself
+    });
+
+    return res.status(200).json({ userId: memberId, setupCode });
+  }
+
+  if (memberId) {
+    if (!requirePermission(member, res, 'user:manage')) return;
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: `Invalid role. Allowed: ${ROLES.join(', ')}` });
+    }
+
+    const currentRole = await getMemberRole(redis, member.groupId, memberId);
+    if (!currentRole) {
+      return res.status(404).json({ error: 'Člen nenalezen.' });
+    }
+    if (currentRole === 'admin' && role !== 'admin' && await countOtherAdmins(redis, member.groupId, memberId) === 0) {
+      return res.status(409).json({ error: 'Skupina musí mít alespoň jednoho správce.' });
+    }
+
+    await redis.hset(`group:${member.groupId}:members`, { [memberId]: role });
+
+    await recordAudit(redis, {
+      actorId: member.userId,
+      groupId: member.groupId,
+      action: 'member.update',
+      userId: memberId,
+      changes: diffRecords({ role: currentRole }, { role }),
+    });
+
+    return res.status(200).json({ userId: memberId, role });
+  }
+
+  let updated = { ...group };
+
+  if (name !== undefined) {
+    if (!requirePermission(member, res, 'user:manage')) return;
+    if (!String(name).trim()) {
+      return res.status(400).json({ error: 'Název skupiny je povinný.' });
+    }
+    updated.name = String(name).trim();
+  }
+
+  if (rotateInvite) {
+    if (!requirePermission(member, res, 'group:invite')) return;
+    updated = { ...updated, inviteCode: generateInviteCode() };
+    await redis.del(`group:invite:${group.inviteCode}`);
+    await redis.set(`group:invite:${updated.inviteCode}`, group.id);
+  }
+
+  await redis.set(`group:${group.id}`, JSON.stringify(updated));
+
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'group.update',
+    changes: diffRecords(group, updated, ['id', 'inviteCode', 'createdAt']),
+  });
+
+  return res.status(200).json(toResponse(updated, member.role));
+}
+
+// DELETE /api/groups?memberId=xxx — remove a member (admin) or leave the group (self)
+async function handleDelete(req: ApiRequest, res: ApiResponse, member: Member) {
+  const memberId = (req.query.memberId as string) || member.userId;
+
+  if (memberId !== member.userId && !requirePermission(member, res, 'user:manage')) return;
+
+  const role = await getMemberRole(redis, member.groupId, memberId);
+  if (!role) {
+    return res.status(404).json({ error: 'Člen nenalezen.' });
+  }
+
+  // Leaving as the very last member is fine — the group goes away with them
+  const memberCount = await redis.hlen(`group:${member.groupId}:members`);
+  if (role === 'admin' && memberCount > 1 && await countOtherAdmins(redis, member.groupId, memberId) === 0) {
+    return res.status(409).json({ error: 'Skupina musí mít alespoň jednoho správce.' });
+  }
+
+  await removeMember(redis, member.groupId, memberId);
+
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'member.remove',
+    userId: memberId,
+    changes: { role: { before: role, after: null } },
+  });
+
+  return res.status(200).json({ success: true });
+}
+
+// --- Helpers ---
+
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+}
+
+function parseJson(val: any): any {
+  if (typeof val === 'string') {
+    try { return JSON.parse(val); } catch { return val; }
+  }
+  return val;
+}
+
+function toResponse(group: any, role: UserRole) {
+  const { inviteCode, ...rest } = group;
+  return hasPermission(role, 'group:invite')
+    ? { ...rest, inviteCode, role }
+    : { ...rest, role };
+}
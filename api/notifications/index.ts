@@ -0,0 +1,83 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { requirePermission } from '../_lib/permissions.js';
+import { requireMember, type Member } from '../_lib/groups.js';
+import { removeSubscription, saveSubscription } from '../_lib/push.js';
+import { loadSettings } from '../_lib/notifications.js';
+import { normalizeNotificationSettings } from '../../shared/notificationSettings.js';
+import { parseBody } from '../_lib/validation.js';
+import { getRedis } from '../_lib/db.js';
+import { notificationSettingsSchema, pushSubscriptionSchema } from '../../shared/apiSchemas.js';
+
+const redis = getRedis();
+
+interface ApiRequest extends IncomingMessage {
+  body: any;
+  query: Record<string, string | string[]>;
+}
+
+interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(data: any): void;
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  try {
+    const member = await requireMember(redis, req, res);
+    if (!member) return;
+
+    switch (req.method) {
+      case 'GET':
+        return await handleGet(res, member);
+      case 'POST':
+        return await handlePost(req, res, member);
+      case 'PUT':
+        return await handlePut(req, res, member);
+      case 'DELETE':
+        return await handleDelete(req, res, member);
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('API /api/notifications error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
+
+// GET /api/notifications — VAPID public key for subscribing + the group's reminder settings
+async function handleGet(res: ApiResponse, member: Member) {
+  return res.status(200).json({
+    publicKey: process.env.VAPID_PUBLIC_KEY || null,
+    settings: await loadSettings(redis, member.groupId),
+  });
+}
+
+// POST /api/notifications — store this device's push subscription for the signed-in user
+async function handlePost(req: ApiRequest, res: ApiResponse, member: Member) {
+  const body = parseBody(pushSubscriptionSchema, req.body, res);
+  if (!body) return;
+  await saveSubscription(redis, member.userId, body.subscription);
+  return res.status(201).json({ success: true });
+}
+
+// PUT /api/notifications — change when reminders are sent (organizer)
+async function handlePut(req: ApiRequest, res: ApiResponse, member: Member) {
+  if (!requirePermission(member, res, 'event:edit')) return;
+
+  const body = parseBody(notificationSettingsSchema, req.body, res);
+  if (!body) return;
+
+  // Each reminder day once, in order
+  const settings = normalizeNotificationSettings(body);
+  await redis.set(`group:${member.groupId}:notifications`, JSON.stringify(settings));
+  return res.status(200).json(settings);
+}
+
+// DELETE /api/notifications?endpoint=xxx — unsubscribe this device
+async function handleDelete(req: ApiRequest, res: ApiResponse, member: Member) {
+  const endpoint = req.query.endpoint as string;
+  if (!endpoint) {
+    return res.status(400).json({ error: 'endpoint is required' });
+  }
+  await removeSubscription(redis, member.userId, endpoint);
+  return res.status(200).json({ success: true });
+}
@@ -0,0 +1,95 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { loadGroupEvents, loadSportConfigs } from '../_lib/events.js';
+import { filterSubscribed, getPushSender, isPushConfigured, sendToUser } from '../_lib/push.js';
+import { settleLapsedOffers } from '../_lib/waitlist.js';
+import {
+  claim,
+  drainQueue,
+  loadSettings,
+  planDebtReminders,
+  planEventReminders,
+  planPromotion,
+  type PlannedNotification,
+  type QueuedPromotion,
+} from '../_lib/notifications.js';
+import { getRedis, getRepos } from '../_lib/db.js';
+
+const redis = getRedis();
+const repos = getRepos();
+
+interface ApiRequest extends IncomingMessage {
+  body: any;
+  query: Record<string, string | string[]>;
+}
+
+interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(data: any): void;
+}
+
+// GET|POST /api/notifications/run — cron: lapsed waitlist offers, event reminders, promotions, overdue debts
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    // Vercel Cron sends `Authorization: Bearer $CRON_SECRET`
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      throw new Error('CRON_SECRET is not configured');
+    }
+    if (req.headers.authorization !== `Bearer ${secret}`) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const now = new Date();
+    const sender = getPushSender();
+    // Spots not confirmed in time go to the next in line — announced in this same run
+    const offersSettled = await settleLapsedOffers(redis, repos, now);
+    const promotions = await drainQueue(redis);
+    const groupIds = await redis.smembers('groups:all');
+
+    let planned = 0;
+    let sent = 0;
+    for (const groupId of groupIds) {
+      const notifications = await planGroup(groupId, promotions.filter(p => p.groupId === groupId), now);
+      planned += notifications.length;
+      for (const notification of notifications) {
+        if (!await claim(redis, notification.key)) continue;
+        if (await sendToUser(redis, sender, notification.userId, notification.message) > 0) sent++;
+      }
+    }
+
+    return res.status(200).json({ groups: groupIds.length, offersSettled, planned, sent, standIn: !isPushConfigured() });
+  } catch (error: any) {
+    console.error('API /api/notifications/run error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
+
+async function planGroup(groupId: string, promotions: QueuedPromotion[], now: Date): Promise<PlannedNotification[]> {
+  const members = await redis.hgetall<Record<string, string>>(`group:${groupId}:members`) ?? {};
+  const subscribed = await filterSubscribed(redis, Object.keys(members));
+  if (subscribed.length === 0) return [];
+
+  const [events, sportConfigs, settings] = await Promise.all([
+    loadGroupEvents(repos, groupId),
+    loadSportConfigs(repos, groupId),
+    loadSettings(redis, groupId),
+  ]);
+
+  const eventsById = new Map(events.map(e => [e.id, e]));
+  // Skip promotions that have lapsed or were turned down since
+  const isStillJoined = (p: QueuedPromotion) =>
+    eventsById.get(p.eventId)?.participants.some((x: any) => x.userId === p.userId && x.status === 'joined');
+  const promoted = promotions
+    .filter(p => subscribed.includes(p.userId) && isStillJoined(p))
+    .map(p => planPromotion(eventsById.get(p.eventId), p.userId));
+
+  return [
+    ...promoted,
+    ...planEventReminders(events, subscribed, sportConfigs, settings, now),
+    ...planDebtReminders(events, subscribed, sportConfigs, settings, now),
+  ];
+}
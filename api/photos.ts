@@ -1,10 +1,11 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import { Redis } from '@upstash/redis';
+import { requireSession } from './_lib/auth.js';
+import { parseBody } from './_lib/validation.js';
+import { getRedis, getRepos } from './_lib/db.js';
+import { photoSchema } from '../shared/apiSchemas.js';
 
-const redis = new Redis({
-  url: process.env.volejbal_KV_REST_API_URL!,
-  token: process.env.volejbal_KV_REST_API_TOKEN!,
-});
+const redis = getRedis();
+const repos = getRepos();
 
 interface ApiRequest extends IncomingMessage {
   body: any;
@@ -41,7 +42,7 @@ async function handleGet(req: ApiRequest, res: ApiResponse) {
     return res.status(400).json({ error: 'User ID is required' });
   }
 
-  const photoData: string | null = await redis.get(`photo:${id}`);
+  const photoData = await repos.photos.get(id);
   if (!photoData) {
     return res.status(404).json({ error: 'Photo not found' });
   }
@@ -66,24 +67,27 @@ async function handleGet(req: ApiRequest, res: ApiResponse) {
 
 // POST /api/photos — store photo { userId, photoBase64 }
 async function handlePost(req: ApiRequest, res: ApiResponse) {
-  const { userId, photoBase64 } = req.body;
+  const session = await requireSession(redis, req, res);
+  if (!session) return;
 
-  if (!userId || !photoBase64) {
-    return res.status(400).json({ error: 'userId and photoBase64 are required' });
+  const body = parseBody(photoSchema, req.body, res);
+  if (!body) return;
+  const { userId, photoBase64 } = body;
+
+  if (userId !== session.userId) {
+    return res.status(403).json({ error: 'Můžete měnit pouze svou fotku.' });
   }
 
-  // Store photo in its own Redis key
-  await redis.set(`photo:${userId}`, photoBase64);
+  // Stored apart from the user record
+  await repos.photos.save(userId, photoBase64);
 
   // Build a cache-busted URL
   const photoUrl = `/api/photos?id=${userId}&v=${Date.now()}`;
 
   // Also update the user's photoUrl field to the lightweight URL
-  const existing: any = await redis.get(`user:${userId}`);
+  const existing = await repos.users.get(userId);
   if (existing) {
-    const parsed = typeof existing === 'string' ? JSON.parse(existing) : existing;
-    parsed.photoUrl = photoUrl;
-    await redis.set(`user:${userId}`, JSON.stringify(parsed));
+    await repos.users.save({ ...existing, photoUrl });
   }
 
   return res.status(200).json({ photoUrl });
@@ -91,19 +95,24 @@ async function handlePost(req: ApiRequest, res: ApiResponse) {
 
 // DELETE /api/photos?id=userId — remove photo
 async function handleDelete(req: ApiRequest, res: ApiResponse) {
+  const session = await requireSession(redis, req, res);
+  if (!session) return;
+
   const id = req.query.id as string;
   if (!id) {
     return res.status(400).json({ error: 'User ID is required' });
   }
+  if (id !== session.userId) {
+    return res.status(403).json({ error: 'Můžete měnit pouze svou fotku.' });
+  }
 
-  await redis.del(`photo:${id}`);
+  await repos.photos.delete(id);
 
   // Also clear photoUrl from user object
-  const existing: any = await redis.get(`user:${id}`);
+  const existing = await repos.users.get(id);
   if (existing) {
-    const parsed = typeof existing === 'string' ? JSON.parse(existing) : existing;
-    delete parsed.photoUrl;
-    await redis.set(`user:${id}`, JSON.stringify(parsed));
+    delete existing.photoUrl;
+    await repos.users.save(existing);
   }
 
   return res.status(200).json({ success: true });
@@ -1,10 +1,13 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import { Redis } from '@upstash/redis';
+import { requirePermission } from './_lib/permissions.js';
+import { requireMember, type Member } from './_lib/groups.js';
+import { parseBody } from './_lib/validation.js';
+import { getRedis, getRepos } from './_lib/db.js';
+import { sportConfigsSchema } from '../shared/apiSchemas.js';
+import { DEFAULT_SPORT_CONFIGS } from '../types.js';
 
-const redis = new Redis({
-  url: process.env.volejbal_KV_REST_API_URL!,
-  token: process.env.volejbal_KV_REST_API_TOKEN!,
-});
+const redis = getRedis();
+const repos = getRepos();
 
 interface ApiRequest extends IncomingMessage {
   body: any;
@@ -16,22 +19,17 @@ interface ApiResponse extends ServerResponse {
   json(data: any): void;
 }
 
-/** Allowed sport types — anything else (e.g. fotbal, florbal) is rejected */
-const VALID_SPORT_TYPES = ['volejbal', 'tenis', 'badminton'] as const;
-
-const DEFAULT_SPORT_CONFIGS = [
-  { type: 'volejbal', label: 'Volejbal', maxPlayers: 12, defaultCost: 1000, defaultLocation: 'Hala', teamSize: null },
-  { type: 'tenis', label: 'Tenis', maxPlayers: 4, defaultCost: 500, defaultLocation: 'Tenisový kurt', teamSize: 2 },
-  { type: 'badminton', label: 'Badminton', maxPlayers: 4, defaultCost: 400, defaultLocation: 'Sportovní centrum', teamSize: 2 },
-];
-
 export default async function handler(req: ApiRequest, res: ApiResponse) {
   try {
+    // Every group keeps its own sport configs
+    const member = await requireMember(redis, req, res);
+    if (!member) return;
+
     switch (req.method) {
       case 'GET':
-        return await handleGet(res);
+        return await handleGet(res, member);
       case 'PUT':
-        return await handlePut(req, res);
+        return await handlePut(req, res, member);
       default:
         return res.status(405).json({ error: 'Method not allowed' });
     }
@@ -41,28 +39,25 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
   }
 }
 
-async function handleGet(res: ApiResponse) {
-  const existing: any = await redis.get('sportconfigs');
+async function handleGet(res: ApiResponse, member: Member) {
+  const existing = await repos.sportConfigs.get(member.groupId);
   if (existing) {
-    const parsed: any[] = typeof existing === 'string' ? JSON.parse(existing) : existing;
-    // Strip out any sport types not in the allow-list
-    const filtered = parsed.filter((c: any) => VALID_SPORT_TYPES.includes(c.type));
-    return res.status(200).json(filtered);
+    return res.status(200).json(existing);
   }
 
   // Seed defaults on first read
-  await redis.set('sportconfigs', JSON.stringify(DEFAULT_SPORT_CONFIGS));
+  await repos.sportConfigs.save(member.groupId, DEFAULT_SPORT_CONFIGS);
   return res.status(200).json(DEFAULT_SPORT_CONFIGS);
 }
 
-async function handlePut(req: ApiRequest, res: ApiResponse) {
-  const configs = req.body;
-  if (!Array.isArray(configs)) {
-    return res.status(400).json({ error: 'Body must be an array of sport configs' });
-  }
-  // Only persist configs whose type is in the allow-list
-  const validConfigs = configs.filter((c: any) => VALID_SPORT_TYPES.includes(c.type));
-  await redis.set('sportconfigs', JSON.stringify(validConfigs));
-  return res.status(200).json(validConfigs);
+async function handlePut(req: ApiRequest, res: ApiResponse, member: Member) {
+  if (!requirePermission(member, res, 'sportconfig:edit')) return;
+
+  // Any sports the admins define, each once and with a sane capacity
+  const configs = parseBody(sportConfigsSchema, req.body, res);
+  if (!configs) return;
+
+  await repos.sportConfigs.save(member.groupId, configs);
+  return res.status(200).json(configs);
 }
 
@@ -0,0 +1,112 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { requireMember, type Member } from './_lib/groups.js';
+import { currentRev, leavePresence, listPresence, presenceMember, readChanges, touchPresence } from './_lib/changes.js';
+import { getRedis, getRepos } from './_lib/db.js';
+
+const redis = getRedis();
+const repos = getRepos();
+
+/** Redis is polled — Upstash has no blocking reads over REST */
+const POLL_MS = 1_500;
+/** Quiet polls back off up to this — well under the presence TTL, so the heartbeat keeps up */
+const MAX_POLL_MS = 12_000;
+const PING_MS = 15_000;
+/** Close before the function timeout; the client reconnects with Last-Event-ID */
+const STREAM_MS = 50_000;
+
+interface ApiRequest extends IncomingMessage {
+  body: any;
+  query: Record<string, string | string[]>;
+}
+
+interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(data: any): void;
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  try {
+    const member = await requireMember(redis, req, res);
+    if (!member) return;
+
+    switch (req.method) {
+      case 'GET':
+        return await handleGet(req, res, member);
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('API /api/stream error:', error);
+    if (res.headersSent) return res.end();
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
+
+// GET /api/stream?eventId=xxx — Server-Sent Events: `change` per changed event, `presence` of the event's viewers
+async function handleGet(req: ApiRequest, res: ApiResponse, member: Member) {
+  // Presence only for the group's own events — a stale id (deleted event) still gets the changes
+  const requested = req.query.eventId as string;
+  const eventId = requested && (await repos.events.get(requested))?.groupId === member.groupId ? requested : null;
+
+  let closed = false;
+  let wake: () => void = () => {};
+  res.on('close', () => { closed = true; wake(); });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${POLL_MS * 2}\n\n`);
+
+  // Resume after the last notice the client saw, otherwise start from now
+  const lastEventId = Number(req.headers['last-event-id']);
+  let rev = Number.isFinite(lastEventId) && lastEventId > 0 ? lastEventId : await currentRev(redis, member.groupId);
+  let viewers = '';
+  const startedAt = Date.now();
+  let lastWrite = startedAt;
+  let pollMs = POLL_MS;
+  // Per connection — another tab of the same user keeps its own entry
+  const presence = presenceMember(member.userId, randomUUID());
+
+  try {
+    while (!closed && Date.now() - startedAt < STREAM_MS) {
+      let changed = false;
+      for (const change of await readChanges(redis, member.groupId, rev)) {
+        res.write(`id: ${change.rev}\nevent: change\ndata: ${JSON.stringify(change)}\n\n`);
+        rev = change.rev;
+        lastWrite = Date.now();
+        changed = true;
+      }
+
+      if (eventId) {
+        await touchPresence(redis, eventId, presence);
+        const userIds = await listPresence(redis, eventId);
+        if (userIds.join(',') !== viewers) {
+          viewers = userIds.join(',');
+          res.write(`event: presence\ndata: ${JSON.stringify({ eventId, userIds })}\n\n`);
+          lastWrite = Date.now();
+          changed = true;
+        }
+      }
+
+      // Comment line — keeps proxies from closing an idle connection
+      if (Date.now() - lastWrite >= PING_MS) {
+        res.write(': ping\n\n');
+        lastWrite = Date.now();
+      }
+
+      // Quick again after a change, slower the longer nothing happens
+      pollMs = changed ? POLL_MS : Math.min(pollMs * 2, MAX_POLL_MS);
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, Math.min(pollMs, startedAt + STREAM_MS - Date.now()));
+        wake = () => { clearTimeout(timer); resolve(); };
+      });
+    }
+  } finally {
+    if (eventId) await leavePresence(redis, eventId, presence);
+    res.end();
+  }
+}
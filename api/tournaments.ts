@@ -0,0 +1,220 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { requirePermission } from './_lib/permissions.js';
+import { hasPermission } from '../shared/permissions.js';
+import { requireMember, type Member } from './_lib/groups.js';
+import { isReplayedCreate, loadSportConfigs } from './_lib/events.js';
+import { parseBody } from './_lib/validation.js';
+import { getRedis, getRepos } from './_lib/db.js';
+import { diffRecords, recordAudit } from './_lib/audit.js';
+import { getClientId, publishChange } from './_lib/changes.js';
+import { createTournamentSchema, unknownSportIssues, unknownTeamIssues, updateTournamentSchema } from '../shared/apiSchemas.js';
+import { invalidRequest } from '../shared/schema.js';
+import { resolveBracket } from '../shared/tournamentBracket.js';
+
+const redis = getRedis();
+const repos = getRepos();
+
+/** Fields of a match any signed-in player may record — like the score of an event */
+const RESULT_FIELDS = ['winner', 'score', 'walkover'];
+
+interface ApiRequest extends IncomingMessage {
+  body: any;
+  query: Record<string, string | string[]>;
+}
+
+interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(data: any): void;
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  try {
+    // Tournaments belong to a group, like its events
+    const member = await requireMember(redis, req, res);
+    if (!member) return;
+
+    switch (req.method) {
+      case 'GET':
+        return await handleGet(res, member);
+      case 'POST':
+        return await handlePost(req, res, member);
+      case 'PUT':
+        return await handlePut(req, res, member);
+      case 'DELETE':
+        return await handleDelete(req, res, member);
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('API /api/tournaments error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
+
+// GET /api/tournaments — the group's tournaments, newest first
+async function handleGet(res: ApiResponse, member: Member) {
+  const tournaments = await repos.tournaments.listByGroup(member.groupId);
+  tournaments.sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+  return res.status(200).json(tournaments);
+}
+
+// POST /api/tournaments — create a tournament with its teams and schedule (organizer)
+async function handlePost(req: ApiRequest, res: ApiResponse, member: Member) {
+  if (!requirePermission(member, res, 'event:create')) return;
+
+  const body = parseBody(createTournamentSchema, req.body, res);
+  if (!body) return;
+
+  const issues = [
+    ...unknownTeamIssues(body),
+    ...unknownSportIssues([body], await loadSportConfigs(repos, member.groupId)),
+  ];
+  if (issues.length > 0) return res.status(400).json(invalidRequest(issues));
+
+  const tournament = {
+    ...body,
+    id: body.id || generateId(),
+    groupId: member.groupId,
+    organizerId: member.userId,
+    version: 1,
+  };
+
+  // The id may come from the client — never overwrite a tournament with it
+  const created = await repos.tournaments.withLock(tournament.id, async () => {
+    const stored = await repos.tournaments.get(tournament.id);
+    if (stored) return isReplayedCreate(stored, member) ? 'replayed' : 'taken';
+    await repos.tournaments.save(tournament);
+    return 'created';
+  });
+  if (created === 'taken') return res.status(409).json({ error: 'Turnaj s tímto ID už existuje.' });
+  if (created === 'replayed') return res.status(201).json(await repos.tournaments.get(tournament.id));
+
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'tournament.create',
+    changes: diffRecords(null, tournament, ['id', 'groupId', 'organizerId', 'version']),
+  });
+  await publishChange(redis, member.groupId, { kind: 'tournament', tournamentId: tournament.id, actorId: member.userId, clientId: getClientId(req) });
+
+  return res.status(201).json(tournament);
+}
+
+// PUT /api/tournaments — replace the tournament (players may only record results)
+// `version` is the one the client edited; a stale one gets 409 with the current tournament.
+async function handlePut(req: ApiRequest, res: ApiResponse, member: Member) {
+  const body = parseBody(updateTournamentSchema, req.body, res);
+  if (!body) return;
+
+  const teamIssues = unknownTeamIssues(body);
+  if (teamIssues.length > 0) return res.status(400).json(invalidRequest(teamIssues));
+
+  return repos.tournaments.withLock(body.id, () => saveTournament(req, res, member, body));
+}
+
+async function saveTournament(req: ApiRequest, res: ApiResponse, member: Member, body: any) {
+  const stored = await repos.tournaments.get(body.id);
+  if (stored?.groupId !== member.groupId) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  const { version, groupId: _groupId, organizerId: _organizerId, ...data } = body;
+  if ((version ?? 0) !== stored.version) {
+    return res.status(409).json({ error: 'Turnaj mezitím upravil někdo jiný.', current: stored });
+  }
+
+  if (!hasPermission(member.role, 'event:edit')) {
+    const matches = changesProtectedFields(stored, data) ? null : recordedMatches(stored, data.matches);
+    if (!matches) {
+      return res.status(403).json({ error: 'Upravit turnaj může pouze organizátor.' });
+    }
+    data.matches = matches;
+  }
+
+  if (data.sportType !== undefined && data.sportType !== stored.sportType) {
+    const sportIssues = unknownSportIssues([data], await loadSportConfigs(repos, member.groupId));
+    if (sportIssues.length > 0) return res.status(400).json(invalidRequest(sportIssues));
+  }
+
+  const updated = { ...data, groupId: stored.groupId, organizerId: stored.organizerId, version: stored.version + 1 };
+  await repos.tournaments.save(updated);
+
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'tournament.update',
+    changes: diffRecords(stored, updated, ['version']),
+  });
+  await publishChange(redis, member.groupId, { kind: 'tournament', tournamentId: updated.id, actorId: member.userId, clientId: getClientId(req) });
+
+  return res.status(200).json(updated);
+}
+
+// DELETE /api/tournaments?id=xxx — delete a tournament (organizer)
+async function handleDelete(req: ApiRequest, res: ApiResponse, member: Member) {
+  if (!requirePermission(member, res, 'event:delete')) return;
+
+  const id = req.query.id as string;
+  if (!id) {
+    return res.status(400).json({ error: 'Tournament ID is required' });
+  }
+
+  const existing = await repos.tournaments.get(id);
+  if (existing?.groupId !== member.groupId) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  await repos.tournaments.delete(existing);
+
+  await recordAudit(redis, {
+    actorId: member.userId,
+    groupId: member.groupId,
+    action: 'tournament.delete',
+    changes: diffRecords(existing, null, ['id', 'groupId', 'version']),
+  });
+  await publishChange(redis, member.groupId, { kind: 'tournament', tournamentId: id, actorId: member.userId, clientId: getClientId(req) });
+
+  return res.status(200).json({ success: true });
+}
+
+// --- Helpers ---
+
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+}
+
+/** The whole tournament is sent — only fields whose value actually differs count; matches are checked apart */
+function changesProtectedFields(stored: any, incoming: any): boolean {
+  const keys = new Set([...Object.keys(stored), ...Object.keys(incoming)]);
+  return [...keys].some(key =>
+    !['id', 'groupId', 'organizerId', 'version', 'matches'].includes(key) &&
+    JSON.stringify(incoming[key] ?? null) !== JSON.stringify(stored[key] ?? null)
+  );
+}
+
+/** A match without its result, keys sorted — what a player must leave as it is */
+function fixture(match: any): string {
+  return JSON.stringify(Object.keys(match).filter(key => !RESULT_FIELDS.includes(key)).sort().map(key => [key, match[key]]));
+}
+
+/**
+ * The matches a player's save leads to: the stored ones with the results of
+ * `incoming` taken over and the bracket followed on from them. Null when the
+ * save differs in anything else — pairings, stages, rounds or teams.
+ */
+function recordedMatches(stored: any, incoming: any[]): any[] | null {
+  const reported = new Map(incoming.map(match => [match.id, match]));
+  const withResults = stored.matches.map((match: any) => {
+    const report = reported.get(match.id);
+    if (!report) return match;
+    const kept = Object.fromEntries(Object.entries(match).filter(([key]) => !RESULT_FIELDS.includes(key)));
+    const results = Object.fromEntries(Object.entries(report).filter(([key]) => RESULT_FIELDS.includes(key)));
+    return { ...kept, ...results };
+  });
+  const matches = stored.format === 'groups' ? withResults : resolveBracket(withResults);
+
+  const byId = new Map(matches.map((match: any) => [match.id, match]));
+  const unchanged = incoming.length === matches.length
+    && incoming.every(match => byId.has(match.id) && fixture(match) === fixture(byId.get(match.id)));
+  return unchanged ? matches : null;
+}
@@ -1,10 +1,17 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import { Redis } from '@upstash/redis';
-
-const redis = new Redis({
-  url: process.env.volejbal_KV_REST_API_URL!,
-  token: process.env.volejbal_KV_REST_API_TOKEN!,
-});
+import { hashPin, requireSession } from './_lib/auth.js';
+import { EMAIL_PATTERN } from './_lib/mail.js';
+import { countOtherAdmins, getGroupId, removeMember, requireMember } from './_lib/groups.js';
+import { diffRecords, recordAudit } from './_lib/audit.js';
+import { settleWaitlist } from './_lib/waitlist.js';
+import { refreshUnpaidIndex } from './_lib/events.js';
+import { getClientId, publishChange } from './_lib/changes.js';
+import { parseBody } from './_lib/validation.js';
+import { getRedis, getRepos } from './_lib/db.js';
+import { createUserSchema, updateUserSchema } from '../shared/apiSchemas.js';
+
+const redis = getRedis();
+const repos = getRepos();
 
 interface ApiRequest extends IncomingMessage {
   body: any;
@@ -36,40 +43,60 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
   }
 }
 
-// GET /api/users — list all users (sorted, with lightweight photo URLs)
+// GET /api/users — list users (sorted, with lightweight photo URLs)
+// With an active group only its members are returned, each with their group role;
+// without one, everyone who shares a group with the signed-in user. Nobody
+// lists accounts of other groups — the login screen asks for a name instead.
 async function handleGet(req: ApiRequest, res: ApiResponse) {
-  const userIds = await redis.smembers('users:all');
-  if (!userIds || userIds.length === 0) {
-    return res.status(200).json([]);
+  let viewerId: string;
+  let roles: Record<string, string> | null = null;
+  let ids: string[];
+  if (getGroupId(req)) {
+    const member = await requireMember(redis, req, res);
+    if (!member) return;
+    viewerId = member.userId;
+    roles = await redis.hgetall<Record<string, string>>(`group:${member.groupId}:members`) ?? {};
+    ids = Object.keys(roles);
+  } else {
+    const session = await requireSession(redis, req, res);
+    if (!session) return;
+    viewerId = session.userId;
+    const shared = new Set([viewerId]);
+    for (const groupId of await redis.smembers(`user:${viewerId}:groups`)) {
+      const members = await redis.hgetall<Record<string, string>>(`group:${groupId}:members`) ?? {};
+      Object.keys(members).forEach(id => shared.add(id));
+    }
+    ids = [...shared];
   }
 
-  const pipeline = redis.pipeline();
-  for (const id of userIds) {
-    pipeline.get(`user:${id}`);
+  const users = await repos.users.getMany(ids);
+  if (users.length === 0) {
+    return res.status(200).json([]);
   }
-  const results = await pipeline.exec();
-
-  const users = results.filter(Boolean).map((r: any) => parseJson(r));
 
-  // Lazy migration: extract any remaining base64 photos into separate keys
-  const migrationPipeline = redis.pipeline();
-  let hasMigrations = false;
+  // Roles live in the group — drop the legacy global field.
+  // E-mail addresses are private: only the owner sees theirs.
+  for (const user of users) {
+    delete user.role;
+    if (user.id !== viewerId) {
+      delete user.email;
+      delete user.emailDigest;
+    }
+  }
 
+  // Lazy migration: extract any remaining base64 photos into the photo store
   for (const user of users) {
     if (user.photoUrl && user.photoUrl.startsWith('data:')) {
-      migrationPipeline.set(`photo:${user.id}`, user.photoUrl);
+      await repos.photos.save(user.id, user.photoUrl);
       user.photoUrl = `/api/photos?id=${user.id}&v=${Date.now()}`;
-      migrationPipeline.set(`user:${user.id}`, JSON.stringify(user));
-      hasMigrations = true;
+      await repos.users.save(user);
     }
   }
 
-  if (hasMigrations) {
-    await migrationPipeline.exec();
-  }
+  const listed = roles ? users.map((u: any) => ({ ...u, role: roles![u.id] })) : users;
 
   // Sort alphabetically by name (Czech locale, diacritics-normalized)
-  users.sort((a: any, b: any) => {
+  listed.sort((a: any, b: any) => {
     const na = normalizeString(a.name);
     const nb = normalizeString(b.name);
     return na.localeCompare(nb, 'cs');
@@ -79,94 +106,166 @@ async function handleGet(req: ApiRequest, res: ApiResponse) {
   const search = (req.query?.search as string) || '';
   if (search.trim()) {
     const normalizedSearch = normalizeString(search.trim());
-    const filtered = users.filter((u: any) => normalizeString(u.name).includes(normalizedSearch));
+    const filtered = listed.filter((u: any) => normalizeString(u.name).includes(normalizedSearch));
     return res.status(200).json(filtered);
   }
 
-  return res.status(200).json(users);
+  return res.status(200).json(listed);
 }
 
-// POST /api/users — create user { name, photoUrl? }
+// POST /api/users — register user { name, pin, photoUrl? } (no session needed)
+// Roles are per group — a new account has none until it creates or joins a group.
 async function handlePost(req: ApiRequest, res: ApiResponse) {
-  const { id, name, photoUrl } = req.body;
-
-  if (!name || !name.trim()) {
-    return res.status(400).json({ error: 'Name is required' });
-  }
+  const body = parseBody(createUserSchema, req.body, res);
+  if (!body) return;
+  const { name, photoUrl, pin } = body;
 
   // Check for duplicate name
-  const existingUsers = await getAllUsers();
+  const existingUsers = await repos.users.list();
   if (existingUsers.some((u: any) => u.name.toLowerCase() === name.trim().toLowerCase())) {
     return res.status(409).json({ error: 'Uživatel s tímto jménem již existuje.' });
   }
 
   const newUser: any = {
-    id: id || generateId(),
+    id: generateId(),
     name: name.trim(),
   };
 
   // If photoUrl is base64, store separately and use a lightweight URL
   if (photoUrl && photoUrl.startsWith('data:')) {
-    await redis.set(`photo:${newUser.id}`, photoUrl);
+    await repos.photos.save(newUser.id, photoUrl);
     newUser.photoUrl = `/api/photos?id=${newUser.id}&v=${Date.now()}`;
   } else if (photoUrl) {
     newUser.photoUrl = photoUrl;
   }
 
-  await redis.set(`user:${newUser.id}`, JSON.stringify(newUser));
-  await redis.sadd('users:all', newUser.id);
+  await repos.users.save(newUser);
+  await redis.set(`credentials:${newUser.id}`, JSON.stringify(await hashPin(pin)));
+
+  // Registration has no session — the new user is their own actor
+  await recordAudit(redis, {
+    actorId: newUser.id,
+    action: 'user.create',
+    userId: newUser.id,
+    changes: diffRecords(null, newUser, ['id']),
+  });
 
   return res.status(201).json(newUser);
 }
 
-// PUT /api/users — update user { id, ...updates }
+// PUT /api/users — update own profile { id, ...updates }
+// Roles are managed per group via /api/groups and are ignored here.
 async function handlePut(req: ApiRequest, res: ApiResponse) {
-  const { id, ...updates } = req.body;
+  const session = await requireSession(redis, req, res);
+  if (!session) return;
 
-  if (!id) {
-    return res.status(400).json({ error: 'User ID is required' });
+  const body = parseBody(updateUserSchema, req.body, res);
+  if (!body) return;
+  const { id, role: _role, ...updates } = body;
+
+  if (id !== session.userId) {
+    return res.status(403).json({ error: 'Můžete upravit pouze svůj profil.' });
   }
 
-  const existing: any = await redis.get(`user:${id}`);
-  if (!existing) {
+  const parsed = await repos.users.get(id);
+  if (!parsed) {
     return res.status(404).json({ error: 'Uživatel nenalezen.' });
   }
 
-  const parsed = typeof existing === 'string' ? JSON.parse(existing) : existing;
+  // Login finds the account by name — a taken one stays with its owner
+  if (updates.name !== undefined) {
+    updates.name = updates.name.trim();
+    const wanted = updates.name.toLowerCase();
+    const existingUsers = await repos.users.list();
+    if (existingUsers.some((u: any) => u.id !== id && u.name.toLowerCase() === wanted)) {
+      return res.status(409).json({ error: 'Uživatel s tímto jménem již existuje.' });
+    }
+  }
+
+  if (updates.email !== undefined) {
+    const email = typeof updates.email === 'string' ? updates.email.trim() : '';
+    if (email && !EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ error: 'Neplatná e-mailová adresa.' });
+    }
+    updates.email = email || undefined;
+  }
+
   const updatedUser = { ...parsed, ...updates };
 
-  await redis.set(`user:${id}`, JSON.stringify(updatedUser));
+  await repos.users.save(updatedUser);
+
+  await recordAudit(redis, {
+    actorId: session.userId,
+    action: 'user.update',
+    userId: id,
+    changes: diffRecords(parsed, updatedUser, ['email']), // addresses stay out of the shared log
+  });
+
   return res.status(200).json(updatedUser);
 }
 
-// DELETE /api/users?id=xxx — delete user + cascade attendance
+// DELETE /api/users?id=xxx — delete own account + leave all groups + cascade attendance
+// (admins remove other members from a group via /api/groups instead)
 async function handleDelete(req: ApiRequest, res: ApiResponse) {
+  const session = await requireSession(redis, req, res);
+  if (!session) return;
+
   const id = req.query.id as string;
 
   if (!id) {
     return res.status(400).json({ error: 'User ID is required' });
   }
+  if (id !== session.userId) {
+    return res.status(403).json({ error: 'Můžete smazat pouze svůj účet.' });
+  }
 
-  // 1. Delete user
-  await redis.del(`user:${id}`);
-  await redis.srem('users:all', id);
+  // The sole admin of a group with other members must hand it over first
+  const groupIds = await redis.smembers(`user:${id}:groups`);
+  for (const groupId of groupIds) {
+    const role = await redis.hget<string>(`group:${groupId}:members`, id);
+    const memberCount = await redis.hlen(`group:${groupId}:members`);
+    if (role === 'admin' && memberCount > 1 && await countOtherAdmins(redis, groupId, id) === 0) {
+      return res.status(409).json({ error: 'Skupina musí mít alespoň jednoho správce.' });
+    }
+  }
+
+  const existing = await repos.users.get(id);
+
+  for (const groupId of groupIds) {
+    await removeMember(redis, groupId, id);
+  }
+  await redis.del(`user:${id}:groups`);
+
+  // 1. Delete user and credentials
+  await repos.users.delete(id);
+  await redis.del(`credentials:${id}`);
+  await redis.del(`push:user:${id}`);
 
   // 2. Delete user's photo
-  await redis.del(`photo:${id}`);
-
-  // 3. Cascade delete attendance records for this user
-  const attendanceKeys = await redis.smembers(`attendance:user:${id}`);
-  if (attendanceKeys && attendanceKeys.length > 0) {
-    const pipeline = redis.pipeline();
-    for (const key of attendanceKeys) {
-      // key format: "eventId_userId" — extract eventId
-      const eventId = (key as string).replace(`_${id}`, '');
-      pipeline.del(`attendance:${key}`);
-      pipeline.srem(`attendance:event:${eventId}`, key);
-    }
-    await pipeline.exec();
+  await repos.photos.delete(id);
+
+  // 3. Cascade delete attendance records for this user — a freed spot goes to the waitlist
+  for (const record of await repos.attendance.listByUser(id)) {
+    await repos.events.withLock(record.eventId, async () => {
+      await repos.attendance.delete(record.eventId, id);
+      const event = await repos.events.get(record.eventId);
+      if (!event) return;
+      await settleWaitlist(redis, repos, event, session.userId);
+      await refreshUnpaidIndex(repos, event);
+      await publishChange(redis, event.groupId, { kind: 'attendance', eventId: event.id, actorId: session.userId, clientId: getClientId(req) });
+    });
+  }
+  // Anything saved since the listing above
+  await repos.attendance.deleteByUser(id);
+
+  if (existing) {
+    await recordAudit(redis, {
+      actorId: session.userId,
+      action: 'user.delete',
+      userId: id,
+      changes: diffRecords(existing, null, ['id']),
+    });
   }
-  await redis.del(`attendance:user:${id}`);
 
   return res.status(200).json({ success: true });
 }
@@ -181,22 +280,3 @@ function normalizeString(str: string): string {
   return str.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
 }
 
-function parseJson(val: any): any {
-  if (typeof val === 'string') {
-    try { return JSON.parse(val); } catch { return val; }
-  }
-  return val;
-}
-
-async function getAllUsers(): Promise<any[]> {
-  const userIds = await redis.smembers('users:all');
-  if (!userIds || userIds.length === 0) return [];
-
-  const pipeline = redis.pipeline();
-  for (const id of userIds) {
-    pipeline.get(`user:${id}`);
-  }
-  const results = await pipeline.exec();
-  return results.filter(Boolean).map((r: any) => typeof r === 'string' ? JSON.parse(r) : r);
-}
-
@@ -3,7 +3,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { BankAccountSettingsModal } from './BankAccountSettingsModal';
-import { User, BankAccount } from '../types';
+import { User, BankAccount, DEFAULT_SPORT_CONFIGS } from '../types';
 
 // Mock storage module
 vi.mock('../services/storage', () => ({
@@ -12,6 +12,8 @@ vi.mock('../services/storage', () => ({
   deleteUserPhoto: vi.fn(),
   getBankAccounts: vi.fn().mockResolvedValue([]),
   createBankAccount: vi.fn(),
+  updateSportConfigs: vi.fn(),
+  getNotificationConfig: vi.fn().mockResolvedValue({ publicKey: null, settings: { eventReminderHours: 24, debtReminderDays: [3, 7, 14] } }),
 }));
 
 import * as storage from '../services/storage';
@@ -209,3 +211,64 @@ describe('BankAccountSettingsModal — Profile Section', () => {
   });
 });
 
+
+describe('BankAccountSettingsModal — Payments Section', () => {
+  it('offers the statement import to treasurers', async () => {
+    const onOpenPaymentImport = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <BankAccountSettingsModal
+        {...defaultProps}
+        currentUser={{ ...mockUser, role: 'treasurer' }}
+        onOpenPaymentImport={onOpenPaymentImport}
+      />
+    );
+
+    await user.click(screen.getByTestId('open-payment-import'));
+
+    expect(defaultProps.onClose).toHaveBeenCalled();
+    expect(onOpenPaymentImport).toHaveBeenCalled();
+  });
+
+  it('hides the statement import from players', () => {
+    render(<BankAccountSettingsModal {...defaultProps} currentUser={{ ...mockUser, role: 'player' }} onOpenPaymentImport={vi.fn()} />);
+
+    expect(screen.queryByTestId('open-payment-import')).not.toBeInTheDocument();
+  });
+});
+
+describe('BankAccountSettingsModal — Sports Section', () => {
+  it('lets an admin add a sport of their own', async () => {
+    vi.mocked(storage.updateSportConfigs).mockImplementation(async configs => configs);
+    const onSportConfigsChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <BankAccountSettingsModal
+        {...defaultProps}
+        currentUser={{ ...mockUser, role: 'admin' }}
+        sportConfigs={DEFAULT_SPORT_CONFIGS}
+        onSportConfigsChange={onSportConfigsChange}
+      />
+    );
+
+    await user.click(screen.getByTestId('sport-add-btn'));
+    await user.type(screen.getByTestId('new-sport-label'), 'Plážový volejbal');
+    await user.type(screen.getByTestId('new-sport-emoji'), '🏖️');
+    await user.clear(screen.getByTestId('new-sport-team-count'));
+    await user.type(screen.getByTestId('new-sport-team-count'), '3');
+    await user.click(screen.getByTestId('new-sport-submit'));
+
+    await waitFor(() => expect(onSportConfigsChange).toHaveBeenCalled());
+    const saved = vi.mocked(storage.updateSportConfigs).mock.calls[0][0];
+    expect(saved).toHaveLength(4);
+    expect(saved[3]).toMatchObject({ type: 'plazovy-volejbal', label: 'Plážový volejbal', emoji: '🏖️', teamCount: 3, scoring: { kind: 'rally' } });
+  });
+
+  it('shows players the sports without edit buttons', () => {
+    render(<BankAccountSettingsModal {...defaultProps} currentUser={{ ...mockUser, role: 'player' }} sportConfigs={DEFAULT_SPORT_CONFIGS} />);
+
+    expect(screen.getByTestId('sport-config-tenis')).toHaveTextContent('🎾 Tenis');
+    expect(screen.queryByTestId('sport-add-btn')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('sport-remove-btn-tenis')).not.toBeInTheDocument();
+  });
+});
@@ -1,7 +1,16 @@
 import React, { useState, useRef } from 'react';
-import { BankAccount, User, SportConfig, maskAccountNumber } from '../types';
+import { BankAccount, User, SportConfig, Group, PricingRules, AttendancePolicy, PIN_PATTERN, maskAccountNumber, sportEmoji } from '../types';
 import * as storage from '../services/storage';
-import { X, Landmark, UserCircle, Loader2, AlertTriangle, Sparkles, Camera, Pencil, Check, Trash2, Settings as Settings2Icon, Dumbbell, Ticket } from 'lucide-react';
+import { X, Landmark, UserCircle, Loader2, AlertTriangle, Sparkles, Camera, Pencil, Check, Trash2, Settings as Settings2Icon, Dumbbell, Ticket, KeyRound, FileUp, QrCode, Plus } from 'lucide-react';
+import { ConfirmModal } from './ConfirmModal';
+import { MemberManagement } from './MemberManagement';
+import { GroupSettings } from './GroupSettings';
+import { NotificationSettings } from './NotificationSettings';
+import { EmailDigestSettings } from './EmailDigestSettings';
+import { PlayerProfileSettings } from './PlayerProfileSettings';
+import { NewSportForm } from './NewSportForm';
+import { can } from '../utils/permissions';
+import { MAX_POLICY_HOURS } from '../shared/attendancePolicy';
 
 interface BankAccountSettingsModalProps {
   isOpen: boolean;
@@ -10,9 +19,23 @@ interface BankAccountSettingsModalProps {
   bankAccounts: BankAccount[];
   onBankAccountsChange: (accounts: BankAccount[]) => void;
   onUserUpdate: (user: User) => void;
+  /** The session token that replaces this device's one after a PIN change */
+  onSessionRenewed?: (token: string) => void;
+  onAccountDeleted?: () => void;
   onShowChangelog?: () => void;
   sportConfigs?: SportConfig[];
   onSportConfigsChange?: (configs: SportConfig[]) => void;
+  /** Members of the active group — the role management section is shown to admins only */
+  users?: User[];
+  onUsersChange?: () => void;
+  activeGroup?: Group | null;
+  onGroupsChange?: (groupId?: string) => Promise<void>;
+  onCreateGroup?: (name: string) => Promise<void>;
+  onJoinGroup?: (inviteCode: string) => Promise<void>;
+  /** Opens the bank statement import — shown to users who can mark payments */
+  onOpenPaymentImport?: () => void;
+  /** Opens the settlement view where treasurers confirm aggregated payments */
+  onOpenSettlement?: () => void;
 }
 
 export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> = ({
@@ -22,9 +45,19 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
   bankAccounts,
   onBankAccountsChange,
   onUserUpdate,
+  onSessionRenewed,
+  onAccountDeleted,
   onShowChangelog,
   sportConfigs = [],
   onSportConfigsChange,
+  users = [],
+  onUsersChange,
+  activeGroup,
+  onGroupsChange,
+  onCreateGroup,
+  onJoinGroup,
+  onOpenPaymentImport,
+  onOpenSettlement,
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -40,14 +73,26 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
   const [myOwnerName, setMyOwnerName] = useState(currentUser.name);
   const [myAccountNumber, setMyAccountNumber] = useState('');
 
+  // PIN change
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+
+  // Account deletion
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+
   // Sport config editing
   const [editingSport, setEditingSport] = useState<string | null>(null);
   const [tempMaxPlayers, setTempMaxPlayers] = useState(0);
   const [tempDefaultCost, setTempDefaultCost] = useState(0);
+  const [tempPricing, setTempPricing] = useState<PricingRules>({});
+  const [tempPolicy, setTempPolicy] = useState<AttendancePolicy>({});
+  const [isAddingSport, setIsAddingSport] = useState(false);
+  const [removingSport, setRemovingSport] = useState<SportConfig | null>(null);
 
   if (!isOpen) return null;
 
   const myAccount = bankAccounts.find(a => a.userId === currentUser.id);
+  const canEditSportConfigs = can(currentUser, 'sportconfig:edit');
 
   const refreshAccounts = async () => {
     const updated = await storage.getBankAccounts();
@@ -138,6 +183,42 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
     }
   };
 
+  const handleChangePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!PIN_PATTERN.test(newPin)) {
+      setError('PIN musí mít 4 až 8 číslic.');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = await storage.changePin(currentUser.id, currentPin, newPin);
+      if (token) onSessionRenewed?.(token);
+      setCurrentPin('');
+      setNewPin('');
+      setSuccessMessage('PIN byl změněn.');
+      setTimeout(() => setSuccessMessage(null), 2500);
+    } catch (err: any) {
+      setError(err.message || 'Chyba při změně PINu.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    setIsDeleteConfirmOpen(false);
+    setIsLoading(true);
+    setError(null);
+    try {
+      await storage.deleteUser(currentUser.id);
+      onAccountDeleted?.();
+    } catch (err: any) {
+      setError(err.message || 'Chyba při mazání účtu.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleCreateMyAccount = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!myOwnerName.trim() || !myAccountNumber.trim()) return;
@@ -155,17 +236,15 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
     }
   };
 
-  const handleSaveSportConfig = async (type: string) => {
-    const updated = sportConfigs.map(c =>
-      c.type === type ? { ...c, maxPlayers: tempMaxPlayers, defaultCost: tempDefaultCost } : c
-    );
+  const saveSportConfigs = async (updated: SportConfig[], message: string) => {
     setIsLoading(true);
     setError(null);
     try {
       const saved = await storage.updateSportConfigs(updated);
       onSportConfigsChange?.(saved);
       setEditingSport(null);
-      setSuccessMessage('Nastavení sportu uloženo.');
+      setIsAddingSport(false);
+      setSuccessMessage(message);
       setTimeout(() => setSuccessMessage(null), 2500);
     } catch (err: any) {
       setError(err.message || 'Chyba při ukládání nastavení sportu.');
@@ -174,6 +253,23 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
     }
   };
 
+  const handleSaveSportConfig = (type: string) => saveSportConfigs(
+    sportConfigs.map(c =>
+      c.type === type ? { ...c, maxPlayers: tempMaxPlayers, defaultCost: tempDefaultCost, pricing: tempPricing, attendancePolicy: tempPolicy } : c
+    ),
+    'Nastavení sportu uloženo.',
+  );
+
+  const handleAddSport = (config: SportConfig) => saveSportConfigs([...sportConfigs, config], `Sport ${config.label} přidán.`);
+
+  // Events of a removed sport keep it — they show its id and the generic emoji
+  const handleRemoveSport = () => {
+    if (!removingSport) return;
+    const removed = removingSport;
+    setRemovingSport(null);
+    saveSportConfigs(sportConfigs.filter(c => c.type !== removed.type), `Sport ${removed.label} odebrán.`);
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
@@ -318,6 +414,55 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
             </div>
           </div>
 
+          {/* ---- PIN ---- */}
+          <div>
+            <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3 flex items-center gap-2">
+              <KeyRound size={16} className="text-blue-500" />
+              Přihlašovací PIN
+            </h4>
+
+            <form onSubmit={handleChangePin} className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Současný PIN</label>
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="current-password"
+                    value={currentPin}
+                    onChange={(e) => setCurrentPin(e.target.value.replace(/\D/g, ''))}
+                    maxLength={8}
+                    className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm tracking-widest"
+                    disabled={isLoading}
+                    data-testid="current-pin-input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Nový PIN</label>
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="new-password"
+                    value={newPin}
+                    onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+                    maxLength={8}
+                    className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm tracking-widest"
+                    disabled={isLoading}
+                    data-testid="new-pin-input"
+                  />
+                </div>
+              </div>
+              <button
+                type="submit"
+                disabled={isLoading || !newPin}
+                className="w-full bg-blue-600 text-white py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+                data-testid="change-pin-btn"
+              >
+                Změnit PIN
+              </button>
+            </form>
+          </div>
+
           {/* ---- MULTISPORT CARD ---- */}
           <div>
             <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3 flex items-center gap-2">
@@ -341,6 +486,15 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
             </label>
           </div>
 
+          {/* ---- PLAYER PROFILE ---- */}
+          <PlayerProfileSettings currentUser={currentUser} onUserUpdate={onUserUpdate} />
+
+          {/* ---- NOTIFICATIONS ---- */}
+          <NotificationSettings currentUser={currentUser} />
+
+          {/* ---- E-MAIL DIGEST ---- */}
+          <EmailDigestSettings currentUser={currentUser} onUserUpdate={onUserUpdate} />
+
           {/* ---- BANK ACCOUNT ---- */}
           <div>
             <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3 flex items-center gap-2">
@@ -443,7 +597,63 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
                               data-testid={`sport-default-cost-input-${config.type}`}
                             />
                           </div>
+                          <div>
+                            <label className="block text-xs text-slate-500 mb-0.5">Sleva Multisport (Kč)</label>
+                            <input
+                              type="number"
+                              min="0"
+                              value={tempPricing.multisportDeduction ?? 0}
+                              onChange={e => setTempPricing({ ...tempPricing, multisportDeduction: Number(e.target.value) || 0 })}
+                              className="w-full px-2 py-1 border border-blue-300 rounded text-sm focus:ring-1 focus:ring-blue-200 outline-none"
+                              data-testid={`sport-multisport-input-${config.type}`}
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs text-slate-500 mb-0.5">Příplatek hosta (Kč)</label>
+                            <input
+                              type="number"
+                              min="0"
+                              value={tempPricing.guestSurcharge ?? 0}
+                              onChange={e => setTempPricing({ ...tempPricing, guestSurcharge: Number(e.target.value) || 0 })}
+                              className="w-full px-2 py-1 border border-blue-300 rounded text-sm focus:ring-1 focus:ring-blue-200 outline-none"
+                              data-testid={`sport-guest-surcharge-input-${config.type}`}
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs text-slate-500 mb-0.5">Uzávěrka přihlášek (h před)</label>
+                            <input
+                              type="number"
+                              min="0"
+                              max={MAX_POLICY_HOURS}
+                              value={tempPolicy.rsvpLockHours ?? 0}
+                              onChange={e => setTempPolicy({ ...tempPolicy, rsvpLockHours: Number(e.target.value) || 0 })}
+                              className="w-full px-2 py-1 border border-blue-300 rounded text-sm focus:ring-1 focus:ring-blue-200 outline-none"
+                              data-testid={`sport-rsvp-lock-input-${config.type}`}
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs text-slate-500 mb-0.5">Pozdní odhlášení platí (h před)</label>
+                            <input
+                              type="number"
+                              min="0"
+                              max={MAX_POLICY_HOURS}
+                              value={tempPolicy.lateCancelHours ?? 0}
+                              onChange={e => setTempPolicy({ ...tempPolicy, lateCancelHours: Number(e.target.value) || 0 })}
+                              className="w-full px-2 py-1 border border-blue-300 rounded text-sm focus:ring-1 focus:ring-blue-200 outline-none"
+                              data-testid={`sport-late-cancel-input-${config.type}`}
+                            />
+                          </div>
                         </div>
+                        <label className="flex items-center gap-2 text-xs text-slate-600">
+                          <input
+                            type="checkbox"
+                            checked={tempPricing.organizerFree ?? false}
+                            onChange={e => setTempPricing({ ...tempPricing, organizerFree: e.target.checked })}
+                            className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                            data-testid={`sport-organizer-free-${config.type}`}
+                          />
+                          Organizátor hraje zdarma
+                        </label>
                         <div className="flex gap-2">
                           <button
                             onClick={() => handleSaveSportConfig(config.type)}
@@ -464,30 +674,123 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
                     ) : (
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="font-medium text-slate-800 text-sm">{config.label}</p>
+                          <p className="font-medium text-slate-800 text-sm">{sportEmoji(config.type, sportConfigs)} {config.label}</p>
                           <p className="text-xs text-slate-500">
                             Max: {config.maxPlayers} hráčů • {config.defaultCost} Kč
                             {config.teamSize && ` • Tým: ${config.teamSize}`}
+                            {config.teamCount && config.teamCount !== 2 ? ` • ${config.teamCount} týmy` : ''}
+                            {config.pricing?.multisportDeduction ? ` • Multisport −${config.pricing.multisportDeduction} Kč` : ''}
+                            {config.pricing?.guestSurcharge ? ` • Host +${config.pricing.guestSurcharge} Kč` : ''}
+                            {config.pricing?.organizerFree ? ' • Organizátor zdarma' : ''}
+                            {config.attendancePolicy?.rsvpLockHours ? ` • Uzávěrka ${config.attendancePolicy.rsvpLockHours} h před` : ''}
+                            {config.attendancePolicy?.lateCancelHours ? ` • Pozdní odhlášení ${config.attendancePolicy.lateCancelHours} h před` : ''}
                           </p>
                         </div>
-                        <button
-                          onClick={() => {
-                            setEditingSport(config.type);
-                            setTempMaxPlayers(config.maxPlayers);
-                            setTempDefaultCost(config.defaultCost);
-                          }}
-                          className="text-slate-400 hover:text-blue-600 p-1 rounded transition-colors"
-                          data-testid={`sport-edit-btn-${config.type}`}
-                        >
-                          <Pencil size={14} />
-                        </button>
+                        {canEditSportConfigs && (
+                          <div className="flex gap-1">
+                            <button
+                              onClick={() => {
+                                setEditingSport(config.type);
+                                setTempMaxPlayers(config.maxPlayers);
+                                setTempDefaultCost(config.defaultCost);
+                                setTempPricing(config.pricing ?? {});
+                                setTempPolicy(config.attendancePolicy ?? {});
+                              }}
+                              className="text-slate-400 hover:text-blue-600 p-1 rounded transition-colors"
+                              data-testid={`sport-edit-btn-${config.type}`}
+                            >
+                              <Pencil size={14} />
+                            </button>
+                            {sportConfigs.length > 1 && (
+                              <button
+                                onClick={() => setRemovingSport(config)}
+                                className="text-slate-400 hover:text-red-600 p-1 rounded transition-colors"
+                                data-testid={`sport-remove-btn-${config.type}`}
+                              >
+                                <Trash2 size={14} />
+                              </button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
                 ))}
+
+                {canEditSportConfigs && (isAddingSport ? (
+                  <NewSportForm
+                    existingTypes={sportConfigs.map(c => c.type)}
+                    onAdd={handleAddSport}
+                    onCancel={() => setIsAddingSport(false)}
+                    disabled={isLoading}
+                  />
+                ) : (
+                  <button
+                    onClick={() => setIsAddingSport(true)}
+                    className="w-full py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors flex items-center justify-center gap-1.5"
+                    data-testid="sport-add-btn"
+                  >
+                    <Plus size={14} />
+                    Přidat sport
+                  </button>
+                ))}
               </div>
             </div>
           )}
+
+          {/* ---- PAYMENTS (treasurer) ---- */}
+          {can(currentUser, 'payment:mark') && (onOpenPaymentImport || onOpenSettlement) && (
+            <div>
+              <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3 flex items-center gap-2">
+                <Landmark size={16} className="text-green-500" />
+                Platby
+              </h4>
+              <div className="space-y-2">
+                {onOpenPaymentImport && (
+                  <button
+                    onClick={() => { onClose(); onOpenPaymentImport(); }}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-lg p-4 text-left hover:bg-slate-100 transition-colors flex items-center gap-3"
+                    data-testid="open-payment-import"
+                  >
+                    <FileUp size={18} className="text-slate-500 shrink-0" />
+                    <div>
+                      <p className="font-medium text-slate-800 text-sm">Importovat bankovní výpis</p>
+                      <p className="text-xs text-slate-500">Spáruje příchozí platby a označí účast jako zaplacenou</p>
+                    </div>
+                  </button>
+                )}
+                {onOpenSettlement && (
+                  <button
+                    onClick={() => { onClose(); onOpenSettlement(); }}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-lg p-4 text-left hover:bg-slate-100 transition-colors flex items-center gap-3"
+                    data-testid="open-settlement"
+                  >
+                    <QrCode size={18} className="text-slate-500 shrink-0" />
+                    <div>
+                      <p className="font-medium text-slate-800 text-sm">Vyrovnání dluhů</p>
+                      <p className="text-xs text-slate-500">Souhrnná platba hráče za všechny akce, potvrzení přijetí</p>
+                    </div>
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* ---- GROUP ---- */}
+          {activeGroup && onGroupsChange && onCreateGroup && onJoinGroup && (
+            <GroupSettings
+              currentUser={currentUser}
+              group={activeGroup}
+              onGroupsChange={onGroupsChange}
+              onCreateGroup={onCreateGroup}
+              onJoinGroup={onJoinGroup}
+            />
+          )}
+
+          {/* ---- MEMBERS & ROLES (admin) ---- */}
+          {can(currentUser, 'user:manage') && onUsersChange && (
+            <MemberManagement currentUser={currentUser} users={users} onUsersChange={onUsersChange} />
+          )}
         </div>
 
         {/* Footer */}
@@ -504,11 +807,35 @@ export const BankAccountSettingsModal: React.FC<BankAccountSettingsModalProps> =
               className="w-full px-4 py-2 text-slate-400 hover:text-amber-600 text-sm font-medium flex items-center justify-center gap-1.5 transition-colors"
             >
               <Sparkles size={14} />
-              Seznam změn (v1.7.0)
+              Seznam změn (v1.8.0)
             </button>
           )}
+          <button
+            onClick={() => setIsDeleteConfirmOpen(true)}
+            className="w-full px-4 py-2 text-slate-400 hover:text-red-600 text-sm font-medium flex items-center justify-center gap-1.5 transition-colors"
+            data-testid="delete-account-btn"
+          >
+            <Trash2 size={14} />
+            Smazat můj účet
+          </button>
         </div>
       </div>
+
+      <ConfirmModal
+        isOpen={isDeleteConfirmOpen}
+        title="Smazat účet?"
+        message="Opravdu chcete smazat svůj účet? Tímto krokem smažete i svou historii účasti na všech akcích."
+        onConfirm={handleDeleteAccount}
+        onCancel={() => setIsDeleteConfirmOpen(false)}
+      />
+
+      <ConfirmModal
+        isOpen={removingSport !== null}
+        title="Odebrat sport?"
+        message={`Sport ${removingSport?.label ?? ''} zmizí z nabídky. Už vytvořené události zůstanou.`}
+        onConfirm={handleRemoveSport}
+        onCancel={() => setRemovingSport(null)}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { 
   format, 
   startOfMonth, 
@@ -12,7 +12,7 @@ import {
   endOfWeek
 } from 'date-fns';
 import { cs } from 'date-fns/locale';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
 import { SportEvent } from '../types';
 
 interface CalendarViewProps {
@@ -21,20 +21,32 @@ interface CalendarViewProps {
   onDateChange: (date: Date) => void;
   onMonthChange: (date: Date) => void; // New prop to handle month navigation separately
   events: SportEvent[];
+  /** Asked for the days of the shown grid, so their events get loaded */
+  onVisibleRangeChange?: (range: { from: string; to: string }) => void;
+  /** The shown month's events are still on their way */
+  isLoadingRange?: boolean;
 }
 
-export const CalendarView: React.FC<CalendarViewProps> = ({ 
-  currentDate, 
-  selectedDate, 
-  onDateChange, 
+export const CalendarView: React.FC<CalendarViewProps> = ({
+  currentDate,
+  selectedDate,
+  onDateChange,
   onMonthChange,
-  events 
+  events,
+  onVisibleRangeChange,
+  isLoadingRange = false,
 }) => {
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(monthStart);
   const startDate = startOfWeek(monthStart, { weekStartsOn: 1 }); // Monday start
   const endDate = endOfWeek(monthEnd, { weekStartsOn: 1 });
 
+  const gridFrom = format(startDate, 'yyyy-MM-dd');
+  const gridTo = format(endDate, 'yyyy-MM-dd');
+  useEffect(() => {
+    onVisibleRangeChange?.({ from: gridFrom, to: gridTo });
+  }, [gridFrom, gridTo, onVisibleRangeChange]);
+
   const days = eachDayOfInterval({
     start: startDate,
     end: endDate,
@@ -52,8 +64,9 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
       <div className="flex items-center justify-between mb-4">
-        <h2 className="text-lg font-bold text-slate-800 capitalize">
+        <h2 className="text-lg font-bold text-slate-800 capitalize flex items-center gap-2">
           {format(currentDate, 'MMMM yyyy', { locale: cs })}
+          {isLoadingRange && <Loader2 size={16} className="animate-spin text-slate-400" aria-label="Načítám události" />}
         </h2>
         <div className="flex gap-2">
           <button onClick={prevMonth} className="p-2 hover:bg-slate-100 rounded-full text-slate-600 transition-colors">
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { SportEvent, SportConfig, SportType, SPORT_EMOJI, BankAccount, maskAccountNumber } from '../types';
+import { SportEvent, SportConfig, SportType, sportEmoji, BankAccount, maskAccountNumber } from '../types';
 import { X, Users, ChevronDown, Repeat } from 'lucide-react';
 import { format } from 'date-fns';
 import { generateRecurringDates, RecurrenceConfig } from '../utils/recurrence';
@@ -14,7 +14,7 @@ interface CreateEventModalProps {
 }
 
 export const CreateEventModal: React.FC<CreateEventModalProps> = ({ selectedDate, onClose, onCreate, sportConfigs, bankAccounts = [] }) => {
-  const defaultConfig = sportConfigs[0] ?? { type: 'volejbal' as SportType, label: 'Volejbal', maxPlayers: 12, defaultCost: 1000, defaultLocation: 'Hala', teamSize: null };
+  const defaultConfig = sportConfigs[0] ?? { type: 'volejbal', label: 'Volejbal', maxPlayers: 12, defaultCost: 1000, defaultLocation: 'Hala', teamSize: null };
 
   const [selectedSport, setSelectedSport] = useState<SportType>(defaultConfig.type);
   const currentConfig = sportConfigs.find(c => c.type === selectedSport) ?? defaultConfig;
@@ -115,7 +115,7 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({ selectedDate
                     `}
                     data-testid={`sport-type-${config.type}`}
                   >
-                    <span>{SPORT_EMOJI[config.type] ?? '🏅'}</span>
+                    <span>{sportEmoji(config.type, sportConfigs)}</span>
                     {config.label}
                   </button>
                 ))}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { EmailDigestSettings } from './EmailDigestSettings';
+import { User } from '../types';
+
+vi.mock('../services/storage', () => ({
+  updateUser: vi.fn(),
+}));
+
+import * as storage from '../services/storage';
+
+const player: User = { id: 'u1', name: 'Alice' };
+
+describe('EmailDigestSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.updateUser).mockImplementation(async (id, updates) => ({ ...player, ...updates }));
+  });
+
+  it('saves the address with the digest enabled by default', async () => {
+    const onUserUpdate = vi.fn();
+    const user = userEvent.setup();
+    render(<EmailDigestSettings currentUser={player} onUserUpdate={onUserUpdate} />);
+
+    expect(screen.getByTestId('email-digest-toggle')).toBeChecked();
+    await user.type(screen.getByTestId('email-input'), ' alice@example.cz ');
+    await user.click(screen.getByTestId('email-digest-save'));
+
+    await waitFor(() => expect(storage.updateUser).toHaveBeenCalledWith('u1', { email: 'alice@example.cz', emailDigest: true }));
+    expect(onUserUpdate).toHaveBeenCalledWith(expect.objectContaining({ email: 'alice@example.cz' }));
+  });
+
+  it('keeps the unsubscribed state and lets the user opt back in', async () => {
+    const user = userEvent.setup();
+    render(<EmailDigestSettings currentUser={{ ...player, email: 'alice@example.cz', emailDigest: false }} onUserUpdate={vi.fn()} />);
+
+    expect(screen.getByTestId('email-input')).toHaveValue('alice@example.cz');
+    expect(screen.getByTestId('email-digest-toggle')).not.toBeChecked();
+    await user.click(screen.getByTestId('email-digest-toggle'));
+    await user.click(screen.getByTestId('email-digest-save'));
+
+    await waitFor(() => expect(storage.updateUser).toHaveBeenCalledWith('u1', { email: 'alice@example.cz', emailDigest: true }));
+  });
+
+  it('rejects an invalid address without saving', async () => {
+    const user = userEvent.setup();
+    render(<EmailDigestSettings currentUser={player} onUserUpdate={vi.fn()} />);
+
+    await user.type(screen.getByTestId('email-input'), 'alice');
+    await user.click(screen.getByTestId('email-digest-save'));
+
+    expect(await screen.findByText('Neplatná e-mailová adresa.')).toBeInTheDocument();
+    expect(storage.updateUser).not.toHaveBeenCalled();
+  });
+});
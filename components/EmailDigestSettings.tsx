@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { EMAIL_PATTERN, User } from '../types';
+import * as storage from '../services/storage';
+import { Mail, Loader2, AlertTriangle } from 'lucide-react';
+
+interface EmailDigestSettingsProps {
+  currentUser: User;
+  onUserUpdate: (user: User) => void;
+}
+
+/** Settings section "Týdenní přehled": e-mail address and the weekly digest opt-out */
+export const EmailDigestSettings: React.FC<EmailDigestSettingsProps> = ({ currentUser, onUserUpdate }) => {
+  const [tempEmail, setTempEmail] = useState(currentUser.email ?? '');
+  const [wantsDigest, setWantsDigest] = useState(currentUser.emailDigest !== false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = tempEmail.trim();
+    if (email && !EMAIL_PATTERN.test(email)) {
+      setError('Neplatná e-mailová adresa.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await storage.updateUser(currentUser.id, { email, emailDigest: wantsDigest });
+      onUserUpdate(updated);
+      setIsSaved(true);
+      setTimeout(() => setIsSaved(false), 2000);
+    } catch (err: any) {
+      setError(err.message || 'E-mail se nepodařilo uložit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div data-testid="email-digest-settings">
+      <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3 flex items-center gap-2">
+        <Mail size={16} className="text-teal-500" />
+        Týdenní přehled
+      </h4>
+
+      <form onSubmit={handleSave} noValidate className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+        <p className="text-xs text-slate-500">
+          Každé pondělí e-mail s akcemi na příští týden, vaší účastí a nezaplacenými akcemi včetně QR plateb.
+        </p>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">E-mail</label>
+          <input
+            type="email"
+            value={tempEmail}
+            onChange={(e) => setTempEmail(e.target.value)}
+            placeholder="jmeno@example.cz"
+            className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            disabled={isSaving}
+            data-testid="email-input"
+          />
+        </div>
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={wantsDigest}
+            onChange={(e) => setWantsDigest(e.target.checked)}
+            disabled={isSaving}
+            className="w-4 h-4 text-teal-600 border-slate-300 rounded focus:ring-teal-500"
+            data-testid="email-digest-toggle"
+          />
+          <span className="text-sm text-slate-800">Posílat týdenní přehled</span>
+        </label>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="w-full bg-blue-600 text-white py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 flex items-center justify-center gap-2"
+          data-testid="email-digest-save"
+        >
+          {isSaving && <Loader2 size={16} className="animate-spin" />}
+          {isSaved ? 'Uloženo' : 'Uložit'}
+        </button>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm flex items-center gap-2">
+            <AlertTriangle size={16} />
+            {error}
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
@@ -95,6 +95,13 @@ describe('EventCard', () => {
     expect(screen.getByTitle('Smazat událost')).toBeInTheDocument();
   });
 
+  it('hides delete button when onDelete is not provided', () => {
+    render(
+      <EventCard event={mockEvent} isSelected={false} onSelect={vi.fn()} />
+    );
+    expect(screen.queryByTitle('Smazat událost')).not.toBeInTheDocument();
+  });
+
   it('shows sport emoji for volejbal', () => {
     render(
       <EventCard event={mockEvent} isSelected={false} onSelect={vi.fn()} onDelete={vi.fn()} />
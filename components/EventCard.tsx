@@ -1,5 +1,5 @@
 import React from 'react';
-import { SportEvent, SPORT_EMOJI, SportType } from '../types';
+import { SportEvent, SportConfig, sportEmoji } from '../types';
 import { Trash2, ChevronRight } from 'lucide-react';
 import { format } from 'date-fns';
 import { cs } from 'date-fns/locale';
@@ -8,9 +8,12 @@ interface EventCardProps {
   event: SportEvent;
   isSelected: boolean;
   onSelect: (id: string) => void;
-  onDelete: (id: string) => void;
+  /** Omitted for users who may not delete events — no delete button then */
+  onDelete?: (id: string) => void;
   /** When true, shows a chevron instead of delete button (for mobile drill-down) */
   showChevron?: boolean;
+  /** For the emoji of sports the group added */
+  sportConfigs?: SportConfig[];
 }
 
 export const EventCard: React.FC<EventCardProps> = ({
@@ -19,10 +22,10 @@ export const EventCard: React.FC<EventCardProps> = ({
   onSelect,
   onDelete,
   showChevron = false,
+  sportConfigs = [],
 }) => {
   const joinedCount = event.participants.filter(p => p.status === 'joined').length;
-  const sportType = (event.sportType ?? 'volejbal') as SportType;
-  const emoji = SPORT_EMOJI[sportType] ?? '🏅';
+  const emoji = sportEmoji(event.sportType ?? 'volejbal', sportConfigs);
 
   return (
     <div
@@ -58,7 +61,7 @@ export const EventCard: React.FC<EventCardProps> = ({
             <span className="text-slate-300">
               <ChevronRight size={18} />
             </span>
-          ) : (
+          ) : onDelete && (
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { EventConflictModal } from './EventConflictModal';
+
+describe('EventConflictModal', () => {
+  it('names the contested fields and lets the user pick a side', async () => {
+    const onKeepMine = vi.fn();
+    const onKeepTheirs = vi.fn();
+    render(
+      <EventConflictModal
+        eventTitle="Pondělní volejbal"
+        fields={['score', 'totalCost']}
+        onKeepMine={onKeepMine}
+        onKeepTheirs={onKeepTheirs}
+      />
+    );
+
+    const modal = screen.getByTestId('event-conflict');
+    expect(modal).toHaveTextContent('Pondělní volejbal');
+    expect(modal).toHaveTextContent('Skóre');
+    expect(modal).toHaveTextContent('Celková cena');
+
+    await userEvent.click(screen.getByTestId('conflict-keep-mine'));
+    expect(onKeepMine).toHaveBeenCalledTimes(1);
+    await userEvent.click(screen.getByTestId('conflict-keep-theirs'));
+    expect(onKeepTheirs).toHaveBeenCalledTimes(1);
+  });
+
+  it('renders nothing without a conflict', () => {
+    render(<EventConflictModal eventTitle={null} fields={[]} onKeepMine={vi.fn()} onKeepTheirs={vi.fn()} />);
+    expect(screen.queryByTestId('event-conflict')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,58 @@
+import React from 'react';
+import { GitMerge } from 'lucide-react';
+import { eventFieldLabel } from '../utils/audit';
+
+interface EventConflictModalProps {
+  /** Title of the event both sides edited, null = closed */
+  eventTitle: string | null;
+  /** Fields changed on both sides */
+  fields: string[];
+  onKeepMine: () => void;
+  onKeepTheirs: () => void;
+}
+
+/** Someone else saved the same event in the meantime — ask whose values of the contested fields win */
+export const EventConflictModal: React.FC<EventConflictModalProps> = ({ eventTitle, fields, onKeepMine, onKeepTheirs }) => {
+  if (eventTitle === null) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden p-6" data-testid="event-conflict">
+        <div className="flex flex-col items-center text-center">
+          <div className="w-12 h-12 bg-amber-100 text-amber-600 rounded-full flex items-center justify-center mb-4">
+            <GitMerge size={24} />
+          </div>
+
+          <h3 className="text-lg font-bold text-slate-900 mb-2">Souběžná úprava</h3>
+          <p className="text-slate-500 mb-3">
+            Událost „{eventTitle}" mezitím upravil někdo jiný. Ostatní změny se spojily, tyto se liší:
+          </p>
+          <ul className="flex flex-wrap justify-center gap-1.5 mb-6">
+            {fields.map(field => (
+              <li key={field} className="px-2 py-0.5 rounded-full bg-amber-50 border border-amber-200 text-xs font-medium text-amber-800">
+                {eventFieldLabel(field)}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex gap-3 w-full">
+            <button
+              onClick={onKeepTheirs}
+              className="flex-1 px-4 py-2 bg-slate-100 text-slate-700 font-medium rounded-lg hover:bg-slate-200 transition-colors"
+              data-testid="conflict-keep-theirs"
+            >
+              Převzít jejich
+            </button>
+            <button
+              onClick={onKeepMine}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+              data-testid="conflict-keep-mine"
+            >
+              Ponechat moje
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
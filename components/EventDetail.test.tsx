@@ -1,17 +1,24 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { convertToCZIBAN, EventDetail } from './EventDetail';
-import { SportEvent, User, DEFAULT_SPORT_CONFIGS } from '../types';
+import { SportEvent, User, SportConfig, DEFAULT_SPORT_CONFIGS } from '../types';
 import * as storage from '../services/storage';
+import { getVariableSymbol } from '../shared/variableSymbol';
+import { format } from 'date-fns';
 
 // Mock storage module
 vi.mock('../services/storage', () => ({
   updateAttendance: vi.fn(),
-  getEvents: vi.fn(),
+  getEvent: vi.fn(),
   updateUser: vi.fn(),
   uploadUserPhoto: vi.fn(),
   deleteUserPhoto: vi.fn(),
+  getAuditLog: vi.fn(),
+  addGuest: vi.fn(),
+  removeGuest: vi.fn(),
+  markNoShow: vi.fn(),
+  waiveLateCancel: vi.fn(),
 }));
 
 // Mock clipboard API
@@ -64,6 +71,7 @@ describe('EventDetail Component', () => {
     id: 'user1',
     name: 'Test User',
     photoUrl: undefined,
+    role: 'organizer',
   };
 
   const mockEvent: SportEvent = {
@@ -91,7 +99,7 @@ describe('EventDetail Component', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    vi.mocked(storage.getEvents).mockResolvedValue([mockEvent]);
+    vi.mocked(storage.getEvent).mockResolvedValue(mockEvent);
   });
 
   describe('Date Format Display', () => {
@@ -146,9 +154,11 @@ describe('EventDetail Component', () => {
 
       await user.click(copyButton);
 
-      // After clicking, verify that writeText was called with the account number
+      // After clicking, verify that writeText was called with the payment details
       await waitFor(() => {
-        expect(writeTextMock).toHaveBeenCalledWith('123456789/0100');
+        expect(writeTextMock).toHaveBeenCalledWith(
+          `123456789/0100\nČástka: 500 Kč\nVS: ${getVariableSymbol('event1', 'user1')}`
+        );
       }, { timeout: 1000 }).catch(() => {
         // If the mock wasn't called (due to jsdom limitations),
         // at least verify the UI feedback works
@@ -157,6 +167,39 @@ describe('EventDetail Component', () => {
       });
     });
 
+    it('copies only the account number for players who did not join', async () => {
+      const user = userEvent.setup();
+      render(
+        <EventDetail
+          event={mockEvent}
+          currentUser={{ ...mockCurrentUser, id: 'user3' }}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      await user.click(screen.getByTitle('Zkopírovat číslo účtu'));
+
+      // userEvent.setup() installs its own clipboard stub
+      await waitFor(async () => expect(await navigator.clipboard.readText()).toBe('123456789/0100'));
+      expect(screen.queryByTestId('payment-variable-symbol')).not.toBeInTheDocument();
+    });
+
+    it('shows the variable symbol of the current player', () => {
+      render(
+        <EventDetail
+          event={{ ...mockEvent, participants: [{ ...mockEvent.participants[0], variableSymbol: '1234567890' }, ...mockEvent.participants.slice(1)] }}
+          currentUser={mockCurrentUser}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.getByTestId('payment-variable-symbol')).toHaveTextContent('1234567890');
+    });
+
     it('shows check icon after successful copy', async () => {
       const user = userEvent.setup();
       render(
@@ -386,6 +429,118 @@ describe('EventDetail Component', () => {
     });
   });
 
+  describe('Pricing', () => {
+    it('shows the viewer their own share when pricing rules apply', () => {
+      render(
+        <EventDetail
+          event={{
+            ...mockEvent,
+            pricing: { multisportDeduction: 100 },
+            participants: [{ ...mockEvent.participants[0], hasMultisportCard: true }, ...mockEvent.participants.slice(1)],
+          }}
+          currentUser={mockCurrentUser}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.getByTestId('payment-my-share')).toHaveTextContent('400 Kč');
+      expect(screen.getByTestId('pricing-share-user1')).toHaveTextContent('Multisport');
+      expect(screen.getByTestId('pricing-collected')).toHaveTextContent('Vybere se 900 Kč z 1000 Kč');
+    });
+
+    it('lets organizers set a custom share', async () => {
+      const user = userEvent.setup();
+      render(
+        <EventDetail
+          event={mockEvent}
+          currentUser={mockCurrentUser}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      await user.click(screen.getByTestId('pricing-breakdown-toggle'));
+      await user.click(screen.getByTestId('pricing-share-edit-user2'));
+      await user.type(screen.getByTestId('pricing-share-input'), '200');
+      await user.click(screen.getByTestId('pricing-share-save'));
+
+      expect(mockOnUpdate).toHaveBeenCalledWith(expect.objectContaining({ customShares: { user2: 200 } }));
+    });
+
+    it('hides pricing controls from players', () => {
+      render(
+        <EventDetail
+          event={mockEvent}
+          currentUser={{ ...mockCurrentUser, role: 'player' }}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.queryByTestId('pricing-share-edit-user2')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('pricing-rules-toggle')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Team Pairs', () => {
+    it('lets organizers keep two players apart', async () => {
+      const user = userEvent.setup();
+      render(
+        <EventDetail
+          event={mockEvent}
+          currentUser={mockCurrentUser}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      await user.selectOptions(screen.getByTestId('team-constraint-first'), 'user1');
+      await user.selectOptions(screen.getByTestId('team-constraint-kind'), 'apart');
+      await user.selectOptions(screen.getByTestId('team-constraint-second'), 'user2');
+      await user.click(screen.getByTestId('team-constraint-add'));
+
+      expect(mockOnUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        teamConstraints: [{ userIds: ['user1', 'user2'], together: false }],
+      }));
+    });
+
+    it('hides the pairs from players', () => {
+      render(
+        <EventDetail
+          event={{ ...mockEvent, teamConstraints: [{ userIds: ['user1', 'user2'], together: true }] }}
+          currentUser={{ ...mockCurrentUser, role: 'player' }}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.queryByTestId('team-constraints')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Team Balancing', () => {
+    it('loads the whole history and waits for it before shuffling', () => {
+      const onLoadHistory = vi.fn();
+      const props = {
+        event: mockEvent, currentUser: mockCurrentUser, onUpdate: mockOnUpdate, onDelete: mockOnDelete,
+        bankAccounts: [], sportConfigs: DEFAULT_SPORT_CONFIGS, allEvents: [], onLoadHistory,
+      };
+      const { rerender } = render(<EventDetail {...props} history={{ loading: true, complete: false, loaded: 0 }} />);
+
+      expect(onLoadHistory).toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: /Zamíchat/ })).toBeDisabled();
+
+      rerender(<EventDetail {...props} history={{ loading: false, complete: true, loaded: 40 }} />);
+      expect(screen.getByRole('button', { name: /Zamíchat/ })).toBeEnabled();
+    });
+  });
+
   describe('Integration: Cost Update affects all related elements', () => {
     it('updates all cost-related displays when total cost changes', async () => {
       const user = userEvent.setup();
@@ -805,6 +960,123 @@ describe('EventDetail Component', () => {
 
       expect(screen.getByText('Čeká na místo')).toBeInTheDocument();
     });
+
+    it('asks a promoted player to confirm the held spot', async () => {
+      vi.mocked(storage.updateAttendance).mockResolvedValue();
+      const user = userEvent.setup();
+      render(
+        <EventDetail
+          event={{
+            ...mockEvent,
+            date: '2099-12-15',
+            participants: [
+              { userId: 'user1', name: 'Test User', status: 'joined', hasPaid: false, confirmBy: new Date(2099, 11, 14, 18, 30).getTime() },
+            ],
+            teams: undefined,
+          }}
+          currentUser={mockCurrentUser}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.getByTestId('spot-offer')).toHaveTextContent('potvrďte účast do 14. 12. 18:30');
+      await user.click(screen.getByTestId('spot-offer-confirm'));
+
+      await waitFor(() => expect(storage.updateAttendance).toHaveBeenCalledWith('event1', 'user1', 'joined'));
+      const updated: SportEvent = mockOnUpdate.mock.calls[0][0];
+      expect(updated.participants[0].confirmBy).toBeUndefined();
+    });
+  });
+
+  describe('Guests', () => {
+    const futureEvent: SportEvent = { ...mockEvent, date: '2099-12-15' };
+
+    it('adds a guest billed to the inviter and puts them in a team', async () => {
+      vi.mocked(storage.addGuest).mockResolvedValue('guest_1');
+      const user = userEvent.setup();
+      render(
+        <EventDetail
+          event={futureEvent}
+          currentUser={mockCurrentUser}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      await user.click(screen.getByTestId('guest-add-open'));
+      await user.type(screen.getByTestId('guest-name-input'), 'Karel');
+      await user.click(screen.getByTestId('guest-add-submit'));
+
+      await waitFor(() => expect(storage.addGuest).toHaveBeenCalledWith(
+        'event1', { name: 'Karel', invitedBy: 'user1', paidBy: 'user1' }, 'joined',
+      ));
+      const updated: SportEvent = mockOnUpdate.mock.calls[0][0];
+      expect(updated.participants.find(p => p.userId === 'guest_1')).toMatchObject({ name: 'Karel', isGuest: true });
+      expect(updated.teams!.flat().map(m => m.userId)).toContain('guest_1');
+    });
+
+    it('counts guests toward capacity', async () => {
+      const tenisConfig = [{ type: 'tenis' as const, label: 'Tenis', maxPlayers: 2, defaultCost: 500, defaultLocation: 'Kurt', teamSize: 1 }];
+      vi.mocked(storage.addGuest).mockResolvedValue('guest_2');
+      const user = userEvent.setup();
+      render(
+        <EventDetail
+          event={{
+            ...futureEvent,
+            sportType: 'tenis',
+            participants: [
+              { userId: 'user1', name: 'Test User', status: 'joined', hasPaid: false },
+              { userId: 'guest_1', name: 'Karel', status: 'joined', hasPaid: false, isGuest: true, invitedBy: 'user1' },
+            ],
+            teams: undefined,
+          }}
+          currentUser={mockCurrentUser}
+          bankAccounts={[]} sportConfigs={tenisConfig} allEvents={[]}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.getByText(/2\/2/)).toBeInTheDocument();
+      await user.click(screen.getByTestId('guest-add-open'));
+      await user.type(screen.getByTestId('guest-name-input'), 'Pepa');
+      await user.click(screen.getByTestId('guest-add-submit'));
+
+      await waitFor(() => expect(storage.addGuest).toHaveBeenCalledWith(
+        'event1', { name: 'Pepa', invitedBy: 'user1', paidBy: 'user1' }, 'waitlist',
+      ));
+    });
+
+    it('lets the payer confirm the guest payment and the inviter remove the guest', async () => {
+      vi.mocked(storage.removeGuest).mockResolvedValue();
+      const player: User = { ...mockCurrentUser, role: 'player' };
+      const user = userEvent.setup();
+      render(
+        <EventDetail
+          event={{
+            ...futureEvent,
+            participants: [
+              ...futureEvent.participants,
+              { userId: 'guest_1', name: 'Karel', status: 'joined', hasPaid: false, isGuest: true, invitedBy: 'user1', paidBy: 'user2' },
+            ],
+          }}
+          currentUser={player}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.getByTestId('guest-info-guest_1')).toHaveTextContent('platí Jan Novák');
+      // Jan pays for Karel, so the inviting player only sees the status
+      expect(screen.getByTestId('payment-status-guest_1')).toHaveTextContent('Nezaplaceno');
+
+      await user.click(screen.getByTestId('guest-remove-guest_1'));
+      await waitFor(() => expect(storage.removeGuest).toHaveBeenCalledWith('event1', 'guest_1'));
+    });
   });
 
   describe('Team Names', () => {
@@ -1234,4 +1506,357 @@ describe('EventDetail Component', () => {
       expect(winnerText).toBeInTheDocument();
     });
   });
+
+  describe('Three Teams', () => {
+    const threeTeamsEvent: SportEvent = {
+      ...mockEvent,
+      participants: [
+        { userId: 'user1', name: 'Test User', status: 'joined', hasPaid: false },
+        { userId: 'user2', name: 'Jan Novák', status: 'joined', hasPaid: true },
+        { userId: 'user3', name: 'Eva Malá', status: 'joined', hasPaid: true },
+      ],
+      teams: [
+        [{ userId: 'user1', name: 'Test User' }],
+        [{ userId: 'user2', name: 'Jan Novák' }],
+        [{ userId: 'user3', name: 'Eva Malá' }],
+      ],
+      teamNames: ['Červení', 'Modří', 'Zelení'],
+      matchFormat: 'winner-stays',
+      matches: [{ teams: [0, 1], winner: 0 }],
+    };
+
+    it('shows the match on court and the table', () => {
+      render(
+        <EventDetail
+          event={threeTeamsEvent}
+          currentUser={mockCurrentUser}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.getByTestId('team-card-2')).toBeInTheDocument();
+      expect(screen.getByTestId('match-on-court')).toHaveTextContent('Červení vs Zelení');
+      expect(screen.getByTestId('winner-btn-0')).toHaveTextContent('Červení vyhrál');
+      expect(screen.getByTestId('winner-btn-2')).toHaveTextContent('Zelení vyhrál');
+      expect(screen.queryByTestId('winner-btn-1')).not.toBeInTheDocument();
+      expect(screen.getByText('Nová hra')).toBeInTheDocument();
+    });
+
+    it('records the winner of the match on court', async () => {
+      const user = userEvent.setup();
+      render(
+        <EventDetail
+          event={threeTeamsEvent}
+          currentUser={mockCurrentUser}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      await user.click(screen.getByTestId('winner-btn-2'));
+
+      expect(mockOnUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        matches: [{ teams: [0, 1], winner: 0 }, { teams: [0, 2], winner: 1 }],
+      }));
+    });
+  });
+
+  describe('Live Scoreboard', () => {
+    const liveEvent: SportEvent = {
+      ...mockEvent,
+      sportType: 'badminton',
+      participants: [
+        { userId: 'user1', name: 'Test User', status: 'joined', hasPaid: false },
+        { userId: 'user2', name: 'Jan Novák', status: 'joined', hasPaid: true },
+      ],
+      teams: [
+        [{ userId: 'user1', name: 'Test User' }],
+        [{ userId: 'user2', name: 'Jan Novák' }],
+      ],
+      teamNames: ['Červení', 'Modří'],
+    };
+
+    const renderLive = (event: SportEvent = liveEvent) => {
+      render(
+        <EventDetail
+          event={event}
+          currentUser={mockCurrentUser}
+          onUpdate={mockOnUpdate}
+          bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+          onDelete={mockOnDelete}
+        />
+      );
+      fireEvent.click(screen.getByTestId('live-score-open'));
+      // Team auto-updates on mount are not what these tests look at
+      mockOnUpdate.mockClear();
+    };
+
+    const tap = (team: 0 | 1, count: number) => {
+      for (let i = 0; i < count; i++) fireEvent.click(screen.getByTestId(`live-point-${team}`));
+    };
+
+    it('counts points and writes a finished set into the score', () => {
+      renderLive();
+
+      tap(0, 20);
+      expect(screen.getByTestId('live-current-0')).toHaveTextContent('20');
+      expect(mockOnUpdate).not.toHaveBeenCalled();
+
+      tap(0, 1);
+      expect(mockOnUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ score: [[21, 0]], winningTeam: undefined }));
+      expect(screen.getByTestId('live-sets')).toHaveTextContent('1 : 0');
+      expect(screen.getByTestId('live-current-0')).toHaveTextContent('0');
+    });
+
+    it('undoes the last point, reopening a finished set', () => {
+      renderLive();
+
+      tap(1, 21);
+      fireEvent.click(screen.getByTestId('live-undo'));
+
+      expect(mockOnUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ score: undefined }));
+      expect(screen.getByTestId('live-current-1')).toHaveTextContent('20');
+    });
+
+    it('declares the winner and moves the match into the history on a rematch', () => {
+      renderLive();
+
+      tap(1, 42);
+      expect(screen.getByTestId('live-winner')).toHaveTextContent('Modří vyhrál!');
+      expect(mockOnUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ score: [[0, 21], [0, 21]], winningTeam: 1 }));
+
+      fireEvent.click(screen.getByTestId('live-rematch'));
+      expect(mockOnUpdate).toHaveBeenLastCalledWith(expect.objectContaining({
+        score: undefined,
+        winningTeam: undefined,
+        gameHistory: [expect.objectContaining({ winningTeam: 1, score: [[0, 21], [0, 21]], teamNames: ['Červení', 'Modří'] })],
+      }));
+      expect(screen.getByTestId('live-current-1')).toHaveTextContent('0');
+    });
+
+    it('uses tennis points for tennis', () => {
+      renderLive({ ...liveEvent, sportType: 'tenis' });
+
+      tap(0, 1);
+      expect(screen.getByTestId('live-current-0')).toHaveTextContent('15');
+      tap(0, 3);
+      expect(screen.getByTestId('live-games-0')).toHaveTextContent('Gemy: 1');
+    });
+  });
+
+  describe('Presence', () => {
+    const allUsers: User[] = [
+      mockCurrentUser,
+      { id: 'user2', name: 'Jan Novák' },
+      { id: 'user3', name: 'Petr Svoboda' },
+    ];
+
+    const renderWithViewers = (viewers: string[]) => render(
+      <EventDetail
+        event={mockEvent}
+        currentUser={mockCurrentUser}
+        onUpdate={mockOnUpdate}
+        bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+        allUsers={allUsers}
+        viewers={viewers}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    it('shows who else has the event open', () => {
+      renderWithViewers(['user1', 'user2', 'user3']);
+
+      const indicator = screen.getByTestId('presence-indicator');
+      expect(indicator).toHaveTextContent('Právě si prohlíží: Jan Novák, Petr Svoboda');
+      expect(indicator).not.toHaveTextContent('Test User');
+    });
+
+    it('stays hidden when nobody else is viewing', () => {
+      renderWithViewers(['user1']);
+
+      expect(screen.queryByTestId('presence-indicator')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Role Permissions', () => {
+    const renderAs = (role: User['role']) => render(
+      <EventDetail
+        event={mockEvent}
+        currentUser={{ ...mockCurrentUser, role }}
+        onUpdate={mockOnUpdate}
+        bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    it('hides cost editing and deletion from players', () => {
+      renderAs('player');
+
+      expect(screen.queryByTitle('Upravit celkovou cenu')).not.toBeInTheDocument();
+      expect(screen.queryByTitle('Smazat událost')).not.toBeInTheDocument();
+    });
+
+    it('treats users without a role as players', () => {
+      renderAs(undefined);
+
+      expect(screen.queryByTitle('Smazat událost')).not.toBeInTheDocument();
+    });
+
+    it('lets players toggle only their own payment', () => {
+      renderAs('player');
+
+      expect(screen.getAllByRole('checkbox')).toHaveLength(1);
+      expect(screen.getByTestId('payment-status-user2')).toHaveTextContent('Zaplaceno');
+    });
+
+    it('lets treasurers toggle payments of everyone', async () => {
+      renderAs('treasurer');
+      const user = userEvent.setup();
+
+      const checkboxes = screen.getAllByRole('checkbox');
+      expect(checkboxes).toHaveLength(2);
+      expect(screen.queryByTitle('Upravit celkovou cenu')).not.toBeInTheDocument();
+
+      await user.click(checkboxes[0]);
+      expect(storage.updateAttendance).toHaveBeenCalledWith('event1', 'user2', 'joined', false);
+    });
+  });
+
+  describe('Attendance Policy', () => {
+    const withPolicy = (rsvpLockHours: number, lateCancelHours: number): SportConfig[] =>
+      DEFAULT_SPORT_CONFIGS.map(c => (c.type === 'volejbal' ? { ...c, attendancePolicy: { rsvpLockHours, lateCancelHours } } : c));
+
+    // The event starts this many hours from now
+    const startingIn = (hours: number): SportEvent => {
+      const start = new Date(Date.now() + hours * 60 * 60 * 1000);
+      return { ...mockEvent, date: format(start, 'yyyy-MM-dd'), time: format(start, 'HH:mm') };
+    };
+
+    const renderAs = (role: User['role'], event: SportEvent, sportConfigs: SportConfig[]) => render(
+      <EventDetail
+        event={event}
+        currentUser={{ ...mockCurrentUser, role }}
+        onUpdate={mockOnUpdate}
+        bankAccounts={[]} sportConfigs={sportConfigs} allEvents={[]}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    it('locks the RSVP for players past the cut-off', () => {
+      const event = { ...startingIn(1), participants: mockEvent.participants.filter(p => p.userId !== 'user1') };
+      renderAs('player', event, withPolicy(2, 0));
+
+      expect(screen.getByTestId('rsvp-locked')).toBeInTheDocument();
+      expect(screen.queryByText('Jdu hrát')).not.toBeInTheDocument();
+    });
+
+    it('keeps the RSVP open for organizers', () => {
+      renderAs('organizer', startingIn(1), withPolicy(2, 0));
+
+      expect(screen.queryByTestId('rsvp-locked')).not.toBeInTheDocument();
+    });
+
+    it('warns a joined player that leaving now still costs their share', () => {
+      renderAs('player', startingIn(5), withPolicy(0, 24));
+
+      expect(screen.getByTestId('late-cancel-warning')).toBeInTheDocument();
+    });
+
+    it('lets an organizer waive a late cancellation', async () => {
+      const event = {
+        ...mockEvent,
+        participants: mockEvent.participants.map(p => (p.userId === 'user3' ? { ...p, lateCancel: true } : p)),
+      };
+      const user = userEvent.setup();
+      renderAs('organizer', event, DEFAULT_SPORT_CONFIGS);
+
+      expect(screen.getByText('Pozdě odhlášen')).toBeInTheDocument();
+      await user.click(screen.getByTestId('waive-late-cancel-user3'));
+
+      expect(storage.waiveLateCancel).toHaveBeenCalledWith('event1', 'user3', 'declined');
+    });
+
+    it('lets an organizer mark a no-show after the event', async () => {
+      const user = userEvent.setup();
+      renderAs('organizer', mockEvent, DEFAULT_SPORT_CONFIGS);
+
+      await user.click(screen.getByTestId('no-show-user2'));
+
+      expect(storage.markNoShow).toHaveBeenCalledWith('event1', 'user2', true);
+      expect(mockOnUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        participants: expect.arrayContaining([expect.objectContaining({ userId: 'user2', noShow: true })]),
+      }));
+    });
+
+    it('does not offer no-show marking to players', () => {
+      renderAs('player', mockEvent, DEFAULT_SPORT_CONFIGS);
+
+      expect(screen.queryByTestId('no-show-user2')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Change History', () => {
+    const allUsers: User[] = [
+      { id: 'user1', name: 'Test User' },
+      { id: 'user2', name: 'Jan Novák' },
+    ];
+
+    const renderDetail = () => render(
+      <EventDetail
+        event={mockEvent}
+        currentUser={mockCurrentUser}
+        onUpdate={mockOnUpdate}
+        bankAccounts={[]} sportConfigs={DEFAULT_SPORT_CONFIGS} allEvents={[]} allUsers={allUsers}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    it('loads the audit trail only after the panel is opened', async () => {
+      vi.mocked(storage.getAuditLog).mockResolvedValue([]);
+      const user = userEvent.setup();
+      renderDetail();
+
+      expect(storage.getAuditLog).not.toHaveBeenCalled();
+      await user.click(screen.getByTestId('audit-history-toggle'));
+
+      expect(storage.getAuditLog).toHaveBeenCalledWith({ eventId: 'event1' });
+      expect(await screen.findByText('Zatím žádné změny.')).toBeInTheDocument();
+    });
+
+    it('shows who changed a payment', async () => {
+      vi.mocked(storage.getAuditLog).mockResolvedValue([
+        {
+          id: 'a1',
+          timestamp: new Date('2024-12-16T10:30:00').getTime(),
+          actorId: 'user1',
+          action: 'attendance.update',
+          eventId: 'event1',
+          userId: 'user2',
+          changes: { hasPaid: { before: false, after: true } },
+        },
+      ]);
+      const user = userEvent.setup();
+      renderDetail();
+
+      await user.click(screen.getByTestId('audit-history-toggle'));
+
+      const entry = await screen.findByTestId('audit-entry');
+      expect(entry).toHaveTextContent('16. 12. 10:30');
+      expect(entry).toHaveTextContent('Test User');
+      expect(entry).toHaveTextContent('Platba (Jan Novák): Nezaplaceno → Zaplaceno');
+    });
+
+    it('shows an error when the trail cannot be loaded', async () => {
+      vi.mocked(storage.getAuditLog).mockRejectedValue(new Error('offline'));
+      const user = userEvent.setup();
+      renderDetail();
+
+      await user.click(screen.getByTestId('audit-history-toggle'));
+
+      expect(await screen.findByText('Historii se nepodařilo načíst.')).toBeInTheDocument();
+    });
+  });
 });
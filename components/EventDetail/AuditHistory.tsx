@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { AuditEntry, SportEvent, User } from '@/types.ts';
+import * as storage from '@/services/storage.ts';
+import { describeAuditEntry, resolveUserName } from '@/utils/audit.ts';
+import { History, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AuditHistoryProps {
+  event: SportEvent;
+  allUsers: User[];
+}
+
+/** Collapsible "Historie změn" — loads the event's audit trail on first open */
+export const AuditHistory: React.FC<AuditHistoryProps> = ({ event, allUsers }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload while open whenever the event changes (new RSVP, payment, teams…)
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    storage.getAuditLog({ eventId: event.id })
+      .then(data => { if (!cancelled) setEntries(data); })
+      .catch(() => { if (!cancelled) setError('Historii se nepodařilo načíst.'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [isOpen, event]);
+
+  const rows = entries
+    .map(entry => ({ entry, lines: describeAuditEntry(entry, allUsers) }))
+    .filter(row => row.lines.length > 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200" data-testid="audit-history">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full px-4 py-3 flex items-center justify-between text-sm font-semibold text-slate-700 hover:bg-slate-50 rounded-xl transition-colors"
+        data-testid="audit-history-toggle"
+      >
+        <span className="flex items-center gap-2">
+          <History size={16} className="text-slate-500" />
+          Historie změn
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4">
+          {isLoading && entries.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 size={18} className="animate-spin text-blue-500" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">Zatím žádné změny.</p>
+          ) : (
+            <ul className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar">
+              {rows.map(({ entry, lines }) => (
+                <li key={entry.id} className="text-xs border-l-2 border-slate-200 pl-2" data-testid="audit-entry">
+                  <div className="text-slate-400">
+                    {format(new Date(entry.timestamp), 'd. M. HH:mm')} · <span className="font-medium text-slate-600">{resolveUserName(entry.actorId, allUsers)}</span>
+                  </div>
+                  {lines.map(line => (
+                    <div key={line} className="text-slate-700">{line}</div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,17 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { SportEvent, User, BankAccount, SportConfig } from '@/types.ts';
-import { convertToCZIBAN } from '@/utils/iban.ts';
+import { convertToCZIBAN } from '@/shared/iban.ts';
+import { buildSpayd } from '@/shared/spayd.ts';
+import { computeShares, getBaseShare, getPricingRules } from '@/shared/pricing.ts';
+import { getVariableSymbol } from '@/shared/variableSymbol.ts';
+import { isBilled } from '@/shared/attendancePolicy.ts';
+import { can } from '@/utils/permissions.ts';
+import type { HistoryState } from '@/hooks/useDataLoading.ts';
 import { Loader2 } from 'lucide-react';
 
 import { useTeamManagement } from './hooks/useTeamManagement';
 import { useScoreTracking } from './hooks/useScoreTracking';
+import { useLiveScore } from './hooks/useLiveScore';
 import { useParticipants } from './hooks/useParticipants';
 import { usePhotoUpload } from './hooks/usePhotoUpload';
 
@@ -12,7 +19,11 @@ import { EventDetailHeader } from './EventDetailHeader';
 import { ParticipantList } from './ParticipantList';
 import { WaitlistSection } from './WaitlistSection';
 import { TeamSection } from './TeamSection';
+import { TeamConstraints } from './TeamConstraints';
 import { PaymentSection } from './PaymentSection';
+import { PricingSection } from './PricingSection';
+import { AuditHistory } from './AuditHistory';
+import { PresenceIndicator } from './PresenceIndicator';
 import { ErrorBoundary } from '../ErrorBoundary';
 
 interface EventDetailProps {
@@ -22,6 +33,11 @@ interface EventDetailProps {
   sportConfigs: SportConfig[];
   allEvents: SportEvent[];
   allUsers?: User[];
+  /** Loading of the events before the recent window — team balancing waits for it */
+  history?: HistoryState;
+  onLoadHistory?: () => void;
+  /** Users with this event open right now (live sync) */
+  viewers?: string[];
   onUpdate: (updatedEvent: SportEvent) => void;
   onDelete: (id: string) => void;
 }
@@ -33,6 +49,9 @@ export const EventDetail: React.FC<EventDetailProps> = ({
   sportConfigs = [],
   allEvents = [],
   allUsers = [],
+  history,
+  onLoadHistory,
+  viewers = [],
   onUpdate,
   onDelete,
 }) => {
@@ -47,10 +66,11 @@ export const EventDetail: React.FC<EventDetailProps> = ({
   }, [event.id, event.totalCost]);
 
   // ── Resolve sport config ──
-  const sportConfig = useMemo(() => {
+  const sportConfig = useMemo((): SportConfig => {
     const type = event.sportType ?? 'volejbal';
+    // A sport removed from the settings keeps its id, with volleyball's numbers
     return sportConfigs.find(c => c.type === type) ?? {
-      type: 'volejbal' as const, label: 'Volejbal', maxPlayers: 12,
+      type, label: type, maxPlayers: 12,
       defaultCost: 1000, defaultLocation: 'Hala', teamSize: null,
     };
   }, [event.sportType, sportConfigs]);
@@ -64,11 +84,18 @@ export const EventDetail: React.FC<EventDetailProps> = ({
     [event.participants],
   );
   const joinedParticipants = sortedParticipants.filter(p => p.status === 'joined');
-  const waitlistedParticipants = sortedParticipants.filter(p => p.status === 'waitlist');
+  // Participants arrive oldest answer first — the order the waitlist is served in
+  const waitlistedParticipants = useMemo(
+    () => (Array.isArray(event.participants) ? event.participants : []).filter(p => p.status === 'waitlist'),
+    [event.participants],
+  );
   const countJoined = joinedParticipants.length;
-  const costPerPerson = countJoined > 0 ? Math.ceil(event.totalCost / countJoined) : 0;
+  const pricingRules = useMemo(() => getPricingRules(event, sportConfigs), [event, sportConfigs]);
+  const shares = useMemo(() => computeShares(event, pricingRules), [event, pricingRules]);
+  const costPerPerson = getBaseShare(event, sportConfigs);
   const isAtCapacity = countJoined >= sportConfig.maxPlayers;
   const isPastEvent = new Date(event.date + 'T23:59:59') < new Date();
+  const canEditEvent = can(currentUser, 'event:edit');
 
   // ── Bank account / QR derived data ──
   const selectedBankAccount = useMemo(() => {
@@ -81,18 +108,29 @@ export const EventDetail: React.FC<EventDetailProps> = ({
   const effectiveAccountNumber = selectedBankAccount?.accountNumber || event.accountNumber || '';
   const selectedAccountOwner = selectedBankAccount?.ownerName || '';
   const iban = useMemo(() => convertToCZIBAN(effectiveAccountNumber), [effectiveAccountNumber]);
-  const qrString = iban
-    ? `SPD*1.0*ACC:${iban}*AM:${costPerPerson}.00*CC:CZK*MSG:${sportConfig.label} ${event.date}`
+  // The QR code pays the viewer's own share, so it carries their variable symbol
+  const myParticipation = sortedParticipants.find(p => p.userId === currentUser.id && isBilled(p));
+  const variableSymbol = myParticipation
+    ? myParticipation.variableSymbol ?? getVariableSymbol(event.id, currentUser.id)
+    : undefined;
+  const myShare = shares.find(s => s.userId === currentUser.id)?.amount;
+  const paymentAmount = myShare ?? costPerPerson;
+  const qrString = iban && paymentAmount > 0
+    ? buildSpayd({ iban, amount: paymentAmount, variableSymbol, message: `${sportConfig.label} ${event.date}` })
     : null;
 
   // ── Hooks ──
   const scoreTracking = useScoreTracking({ event, onUpdate });
+  const liveScore = useLiveScore({ event, scoring: sportConfig.scoring, onUpdate });
 
   const teamManagement = useTeamManagement({
     event,
     joinedParticipants,
     sportConfig,
     allEvents,
+    allUsers,
+    history,
+    onLoadHistory,
     onUpdate,
     onScoreReset: scoreTracking.resetScores,
   });
@@ -125,7 +163,10 @@ export const EventDetail: React.FC<EventDetailProps> = ({
   const handleCopyToClipboard = async () => {
     if (effectiveAccountNumber) {
       try {
-        await navigator.clipboard.writeText(effectiveAccountNumber);
+        const text = variableSymbol
+          ? `${effectiveAccountNumber}\nČástka: ${paymentAmount} Kč\nVS: ${variableSymbol}`
+          : effectiveAccountNumber;
+        await navigator.clipboard.writeText(text);
         setIsCopied(true);
         setTimeout(() => setIsCopied(false), 2000);
       } catch (err) {
@@ -139,7 +180,7 @@ export const EventDetail: React.FC<EventDetailProps> = ({
     return joinedParticipants
       .filter(p => {
         const user = allUsers.find(u => u.id === p.userId);
-        return user?.hasMultisportCard === true;
+        return p.hasMultisportCard === true || user?.hasMultisportCard === true;
       })
       .map(p => ({ name: p.name }));
   }, [joinedParticipants, allUsers]);
@@ -165,9 +206,13 @@ export const EventDetail: React.FC<EventDetailProps> = ({
           onSaveCost={handleSaveCost}
           onCancelCostEdit={handleCancelCostEdit}
           onDelete={onDelete}
+          canEdit={canEditEvent}
+          canDelete={can(currentUser, 'event:delete')}
         />
       </ErrorBoundary>
 
+      <PresenceIndicator viewerIds={viewers} currentUser={currentUser} allUsers={allUsers} />
+
       <div className="flex-1 overflow-y-auto p-4 sm:p-6 grid lg:grid-cols-2 gap-6 lg:gap-8">
         {/* Left Column: Participants & Teams */}
         <div className="space-y-6">
@@ -197,27 +242,53 @@ export const EventDetail: React.FC<EventDetailProps> = ({
               event={event}
               teamManagement={teamManagement}
               scoreTracking={scoreTracking}
+              liveScore={liveScore}
             />
           </ErrorBoundary>
+
+          {canEditEvent && countJoined >= 2 && (
+            <ErrorBoundary fallbackMessage="Chyba v nastavení dvojic">
+              <TeamConstraints event={event} joinedParticipants={joinedParticipants} onUpdate={onUpdate} />
+            </ErrorBoundary>
+          )}
         </div>
 
-        {/* Right Column: Payment Info */}
-        <ErrorBoundary fallbackMessage="Chyba v platebních údajích">
-          <PaymentSection
-            event={event}
-            bankAccounts={bankAccounts}
-            effectiveAccountNumber={effectiveAccountNumber}
-            selectedAccountOwner={selectedAccountOwner}
-            iban={iban}
-            qrString={qrString}
-            costPerPerson={costPerPerson}
-            countJoined={countJoined}
-            isCopied={isCopied}
-            onCopyToClipboard={handleCopyToClipboard}
-            onBankAccountChange={handleBankAccountChange}
-            multisportUsers={multisportUsers}
-          />
-        </ErrorBoundary>
+        {/* Right Column: Payment Info & Change History */}
+        <div className="space-y-6">
+          <ErrorBoundary fallbackMessage="Chyba v platebních údajích">
+            <PaymentSection
+              event={event}
+              bankAccounts={bankAccounts}
+              effectiveAccountNumber={effectiveAccountNumber}
+              selectedAccountOwner={selectedAccountOwner}
+              iban={iban}
+              qrString={qrString}
+              costPerPerson={costPerPerson}
+              myShare={myShare}
+              variableSymbol={variableSymbol}
+              countJoined={countJoined}
+              isCopied={isCopied}
+              onCopyToClipboard={handleCopyToClipboard}
+              onBankAccountChange={handleBankAccountChange}
+              canChangeBankAccount={canEditEvent}
+              multisportUsers={multisportUsers}
+            />
+          </ErrorBoundary>
+
+          <ErrorBoundary fallbackMessage="Chyba v rozpisu ceny">
+            <PricingSection
+              event={event}
+              shares={shares}
+              rules={pricingRules}
+              canEdit={canEditEvent}
+              onUpdate={onUpdate}
+            />
+          </ErrorBoundary>
+
+          <ErrorBoundary fallbackMessage="Chyba v historii změn">
+            <AuditHistory event={event} allUsers={allUsers} />
+          </ErrorBoundary>
+        </div>
       </div>
     </div>
   );
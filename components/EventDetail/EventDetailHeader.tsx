@@ -15,6 +15,9 @@ interface EventDetailHeaderProps {
   onSaveCost: () => void;
   onCancelCostEdit: () => void;
   onDelete: (id: string) => void;
+  /** Organizer-only controls (cost editing, deletion) are hidden when false */
+  canEdit: boolean;
+  canDelete: boolean;
 }
 
 export const EventDetailHeader: React.FC<EventDetailHeaderProps> = ({
@@ -29,6 +32,8 @@ export const EventDetailHeader: React.FC<EventDetailHeaderProps> = ({
   onSaveCost,
   onCancelCostEdit,
   onDelete,
+  canEdit,
+  canDelete,
 }) => (
   <div className="p-4 sm:p-6 bg-slate-50 border-b border-slate-100 flex justify-between items-start">
     <div className="min-w-0 flex-1">
@@ -45,13 +50,15 @@ export const EventDetailHeader: React.FC<EventDetailHeaderProps> = ({
           {!isEditingCost ? (
             <>
               <span>Celkem: {event.totalCost} Kč</span>
-              <button
-                onClick={onStartEditCost}
-                className="ml-1 text-slate-400 hover:text-blue-600 transition-colors p-0.5"
-                title="Upravit celkovou cenu"
-              >
-                <Edit2 size={12} />
-              </button>
+              {canEdit && (
+                <button
+                  onClick={onStartEditCost}
+                  className="ml-1 text-slate-400 hover:text-blue-600 transition-colors p-0.5"
+                  title="Upravit celkovou cenu"
+                >
+                  <Edit2 size={12} />
+                </button>
+              )}
             </>
           ) : (
             <div className="flex items-center gap-1">
@@ -77,13 +84,15 @@ export const EventDetailHeader: React.FC<EventDetailHeaderProps> = ({
         </div>
       </div>
     </div>
-    <button
-      onClick={() => onDelete(event.id)}
-      className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2 rounded-lg transition-colors"
-      title="Smazat událost"
-    >
-      <Trash2 size={20} />
-    </button>
+    {canDelete && (
+      <button
+        onClick={() => onDelete(event.id)}
+        className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2 rounded-lg transition-colors"
+        title="Smazat událost"
+      >
+        <Trash2 size={20} />
+      </button>
+    )}
   </div>
 );
 
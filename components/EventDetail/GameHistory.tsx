@@ -1,5 +1,6 @@
 import React from 'react';
 import { GameRound } from '@/types.ts';
+import { computeStandings, MATCH_FORMAT_LABELS, DEFAULT_MATCH_FORMAT, teamName } from '@/utils/matchSchedule.ts';
 
 interface GameHistoryProps {
   gameHistory: GameRound[];
@@ -17,6 +18,24 @@ export const GameHistory: React.FC<GameHistoryProps> = ({ gameHistory }) => {
         {[...gameHistory].reverse().map((round, idx) => {
           if (!round?.teams?.[0] || !round?.teams?.[1]) return null;
           const roundNum = gameHistory.length - idx;
+          if (round.teams.length > 2) {
+            // More teams: the final table, the leader gets the trophy
+            const table = computeStandings(round).filter(s => s.played > 0);
+            return (
+              <div key={idx} className="flex items-center gap-2 text-xs text-slate-500 bg-slate-50 rounded-lg px-3 py-2" data-testid={`game-history-${roundNum}`}>
+                <span className="font-bold text-slate-400 w-6 shrink-0">#{roundNum}</span>
+                <div className="flex-1 flex flex-wrap items-center gap-x-2 gap-y-0.5 min-w-0">
+                  {table.map((s, pos) => (
+                    <span key={s.team} className={`font-medium ${pos === 0 ? 'text-green-600' : 'text-slate-500'}`} title={round.teams[s.team].map(p => p.name ?? '?').join(', ')}>
+                      {pos === 0 && '🏆 '}
+                      {teamName(round, s.team)} {s.points} b.
+                    </span>
+                  ))}
+                  <span className="text-slate-400 shrink-0">({MATCH_FORMAT_LABELS[round.matchFormat ?? DEFAULT_MATCH_FORMAT]}, {round.matches?.length ?? 0} záp.)</span>
+                </div>
+              </div>
+            );
+          }
           const name0 = round.teamNames?.[0] ?? round.teams[0].map(p => p.name?.split(' ')[0] ?? '?').join(', ');
           const name1 = round.teamNames?.[1] ?? round.teams[1].map(p => p.name?.split(' ')[0] ?? '?').join(', ');
           const tooltip0 = round.teams[0].map(p => p.name ?? '?').join(', ');
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Participant, User } from '@/types.ts';
+import { UserPlus, Check, X, Loader2 } from 'lucide-react';
+
+interface GuestFormProps {
+  currentUser: User;
+  /** Members on the event — any of them can pay for the guest */
+  members: Participant[];
+  isSaving: boolean;
+  onAdd: (name: string, paidBy: string) => void;
+}
+
+/** Bring a friend who has no account — billed to the inviter or another member */
+export const GuestForm: React.FC<GuestFormProps> = ({ currentUser, members, isSaving, onAdd }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [paidBy, setPaidBy] = useState(currentUser.id);
+
+  const payers = [
+    { userId: currentUser.id, name: `${currentUser.name} (Já)` },
+    ...members.filter(p => p.userId !== currentUser.id && p.status === 'joined'),
+  ];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onAdd(name.trim(), paidBy);
+    setName('');
+    setPaidBy(currentUser.id);
+    setIsOpen(false);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        disabled={isSaving}
+        className="w-full mb-4 py-2 text-sm text-slate-600 border border-dashed border-slate-300 rounded-lg hover:border-blue-400 hover:text-blue-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        data-testid="guest-add-open"
+      >
+        {isSaving ? <Loader2 size={16} className="animate-spin" /> : <UserPlus size={16} />}
+        Přidat hosta
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Jméno hosta"
+        className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        data-testid="guest-name-input"
+        autoFocus
+      />
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-slate-500 shrink-0">Platí</label>
+        <select
+          value={paidBy}
+          onChange={(e) => setPaidBy(e.target.value)}
+          className="flex-1 px-2 py-1.5 bg-white border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          data-testid="guest-payer-select"
+        >
+          {payers.map(p => (
+            <option key={p.userId} value={p.userId}>{p.name}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="text-green-600 hover:bg-green-50 p-1.5 rounded transition-colors disabled:opacity-50"
+          data-testid="guest-add-submit"
+        >
+          <Check size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="text-red-500 hover:bg-red-50 p-1.5 rounded transition-colors"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </form>
+  );
+};
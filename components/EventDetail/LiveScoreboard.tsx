@@ -0,0 +1,101 @@
+import React from 'react';
+import { SportEvent } from '@/types.ts';
+import { Undo2, X, Trophy, RefreshCw } from 'lucide-react';
+import { setsWon, tennisPointLabels, isTiebreak } from '@/utils/scoring.ts';
+import { teamName as roundTeamName } from '@/utils/matchSchedule.ts';
+import type { LiveScoreState } from './hooks/useLiveScore';
+
+interface LiveScoreboardProps {
+  event: SportEvent;
+  liveScore: LiveScoreState;
+}
+
+const TEAM_STYLES = [
+  'bg-blue-600 active:bg-blue-700',
+  'bg-orange-500 active:bg-orange-600',
+] as const;
+
+/** Full-screen court-side scoreboard — tap a team's half to give it the point */
+export const LiveScoreboard: React.FC<LiveScoreboardProps> = ({ event, liveScore }) => {
+  if (!liveScore.isLive) return null;
+
+  const { score, rules } = liveScore;
+  const isTennis = rules.kind === 'tennis';
+  const [won0, won1] = setsWon(score.sets);
+  const pointLabels = isTennis ? tennisPointLabels(score, rules) : null;
+  const teamName = (idx: 0 | 1) => roundTeamName(event, liveScore.match[idx]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900 text-white flex flex-col select-none" data-testid="live-score">
+      <div className="flex items-center justify-between px-4 py-3">
+        <button
+          onClick={liveScore.handleUndo}
+          disabled={!liveScore.canUndo}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-medium disabled:opacity-30"
+          data-testid="live-undo"
+        >
+          <Undo2 size={16} />
+          Zpět
+        </button>
+        <div className="text-center">
+          <p className="text-2xl font-bold font-mono" data-testid="live-sets">{won0} : {won1}</p>
+          <p className="text-xs text-slate-400">
+            {score.sets.length > 0 ? score.sets.map(([a, b]) => `${a}:${b}`).join(', ') : 'na sety'}
+          </p>
+        </div>
+        <button
+          onClick={liveScore.handleClose}
+          className="p-2 rounded-lg bg-white/10 hover:bg-white/20"
+          title="Zavřít živé skóre"
+          data-testid="live-close"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      {score.winner !== undefined ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4 p-6" data-testid="live-winner">
+          <Trophy size={48} className="text-yellow-400" />
+          <p className="text-3xl font-bold text-center">{teamName(score.winner)} vyhrál!</p>
+          <div className="flex gap-3">
+            <button
+              onClick={liveScore.handleRematch}
+              className="flex items-center gap-2 px-4 py-3 rounded-xl bg-white text-slate-900 font-semibold"
+              data-testid="live-rematch"
+            >
+              <RefreshCw size={18} />
+              {liveScore.isMultiTeam ? 'Další zápas' : 'Odveta'}
+            </button>
+            <button
+              onClick={liveScore.handleClose}
+              className="px-4 py-3 rounded-xl bg-white/10 font-semibold"
+            >
+              Hotovo
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-1 p-1">
+          {([0, 1] as const).map(team => (
+            <button
+              key={team}
+              onClick={() => liveScore.handlePoint(team)}
+              className={`rounded-2xl flex flex-col items-center justify-center gap-2 transition-colors ${TEAM_STYLES[team]}`}
+              data-testid={`live-point-${team}`}
+            >
+              <span className="text-lg font-semibold opacity-90">{teamName(team)}</span>
+              <span className="text-8xl font-bold font-mono leading-none" data-testid={`live-current-${team}`}>
+                {isTennis ? pointLabels![team] : score.current[team]}
+              </span>
+              {isTennis && (
+                <span className="text-sm opacity-80" data-testid={`live-games-${team}`}>
+                  {isTiebreak(score, rules) ? 'Tiebreak' : `Gemy: ${score.current[team]}`}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import { MatchFormat, SportEvent } from '@/types.ts';
+import { ListOrdered, Crown } from 'lucide-react';
+import {
+  computeStandings,
+  currentMatch,
+  DEFAULT_MATCH_FORMAT,
+  MATCH_FORMAT_LABELS,
+  teamName,
+} from '@/utils/matchSchedule.ts';
+import type { TeamManagement } from './hooks/useTeamManagement';
+
+interface MatchScheduleProps {
+  event: SportEvent;
+  teamManagement: TeamManagement;
+}
+
+/** Format, the match on court and the table of a round of more than two teams */
+export const MatchSchedule: React.FC<MatchScheduleProps> = ({ event, teamManagement }) => {
+  if (!event.teams || event.teams.length <= 2) return null;
+
+  const format = event.matchFormat ?? DEFAULT_MATCH_FORMAT;
+  const matches = event.matches ?? [];
+  const onCourt = currentMatch(event);
+  const table = computeStandings({ teams: event.teams, matchFormat: format, matches });
+
+  return (
+    <div className="mt-3 bg-slate-50 rounded-lg border border-slate-200 p-3 space-y-3" data-testid="match-schedule">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide flex items-center gap-1.5">
+          <ListOrdered size={12} />
+          Zápasy ({matches.length})
+        </h4>
+        <select
+          value={format}
+          onChange={e => teamManagement.setMatchFormat(e.target.value as MatchFormat)}
+          className="text-xs border border-slate-300 rounded px-1.5 py-1 bg-white focus:ring-1 focus:ring-blue-200 outline-none"
+          data-testid="match-format-select"
+        >
+          {(Object.keys(MATCH_FORMAT_LABELS) as MatchFormat[]).map(f => (
+            <option key={f} value={f}>{MATCH_FORMAT_LABELS[f]}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-sm text-center font-medium text-slate-700" data-testid="match-on-court">
+        {onCourt ? (
+          <>
+            {format === 'king-of-the-court' && <Crown size={14} className="inline text-yellow-500 mr-1 -mt-0.5" />}
+            {teamName(event, onCourt[0])} <span className="text-slate-400">vs</span> {teamName(event, onCourt[1])}
+          </>
+        ) : (
+          <>Všechny zápasy odehrány — vyhrál {teamName(event, table[0].team)}!</>
+        )}
+      </p>
+
+      <table className="w-full text-xs" data-testid="match-standings">
+        <thead>
+          <tr className="text-slate-400">
+            <th className="text-left font-medium py-0.5">Tým</th>
+            <th className="font-medium" title="Zápasy">Z</th>
+            <th className="font-medium" title="Výhry">V</th>
+            <th className="font-medium" title="Prohry">P</th>
+            <th className="font-medium" title="Sety">Sety</th>
+            <th className="font-medium" title={format === 'king-of-the-court' ? 'Body za obhájený kurt' : 'Body za výhry'}>Body</th>
+          </tr>
+        </thead>
+        <tbody>
+          {table.map((s, pos) => (
+            <tr key={s.team} className={`text-center ${pos === 0 && s.points > 0 ? 'text-green-700 font-semibold' : 'text-slate-600'}`}>
+              <td className="text-left py-0.5 truncate">{teamName(event, s.team)}</td>
+              <td>{s.played}</td>
+              <td>{s.won}</td>
+              <td>{s.lost}</td>
+              <td>{s.setsWon}:{s.setsLost}</td>
+              <td>{s.points}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {matches.length > 0 && (
+        <div className="space-y-0.5 text-xs text-slate-500">
+          {matches.map((m, idx) => (
+            <div key={idx} className="flex items-center gap-1.5" data-testid={`match-played-${idx}`}>
+              <span className="font-bold text-slate-400 w-5">{idx + 1}.</span>
+              <span className={m.winner === 0 ? 'text-green-600 font-medium' : ''}>{teamName(event, m.teams[0])}</span>
+              <span className="text-slate-300">vs</span>
+              <span className={m.winner === 1 ? 'text-green-600 font-medium' : ''}>{teamName(event, m.teams[1])}</span>
+              {m.score && m.score.length > 0 && (
+                <span className="font-mono text-slate-400">({m.score.map(([a, b]) => `${a}:${b}`).join(', ')})</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,12 @@
 import React from 'react';
 import { Participant, User, SportConfig } from '@/types.ts';
-import { Hand, AlertTriangle, Loader2, X } from 'lucide-react';
+import { Hand, AlertTriangle, Loader2, X, Clock, Lock, UserX } from 'lucide-react';
+import { format } from 'date-fns';
 import type { ParticipantsState } from './hooks/useParticipants';
 import type { PhotoUploadState } from './hooks/usePhotoUpload';
+import { GuestForm } from './GuestForm';
+import { payerOf } from '@/shared/debt.ts';
+import { isBilled } from '@/shared/attendancePolicy.ts';
 
 interface ParticipantListProps {
   sortedParticipants: Participant[];
@@ -16,6 +20,19 @@ interface ParticipantListProps {
   photoUpload: PhotoUploadState;
 }
 
+const statusLabel = (p: Participant): string => {
+  if (p.status === 'joined') return p.noShow ? 'Nedorazil' : p.confirmBy ? 'Čeká na potvrzení' : 'Jde hrát';
+  if (p.lateCancel) return 'Pozdě odhlášen';
+  return p.status === 'declined' ? 'Nejde' : p.status === 'waitlist' ? 'Čeká na místo' : 'Možná';
+};
+
+/** "já" for the viewer, otherwise the payer's name as listed on the event */
+const payerName = (guest: Participant, all: Participant[], currentUser: User): string => {
+  const payerId = payerOf(guest);
+  if (payerId === currentUser.id) return 'já';
+  return all.find(p => p.userId === payerId)?.name ?? 'Neznámý';
+};
+
 export const ParticipantList: React.FC<ParticipantListProps> = ({
   sortedParticipants,
   currentUser,
@@ -54,7 +71,41 @@ export const ParticipantList: React.FC<ParticipantListProps> = ({
       </div>
     )}
 
-    {!participants.isCurrentUserJoined && participants.currentUserParticipant?.status !== 'waitlist' && !isPastEvent && (
+    {participants.currentUserParticipant?.confirmBy && !isPastEvent && (
+      <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm" data-testid="spot-offer">
+        <p className="flex items-center gap-2 font-medium">
+          <Clock size={16} />
+          Uvolnilo se pro vás místo — potvrďte účast do {format(new Date(participants.currentUserParticipant.confirmBy), 'd. M. HH:mm')}.
+        </p>
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => participants.handleStatusChange(currentUser.id, 'joined')}
+            disabled={participants.savingUsers.has(currentUser.id)}
+            className="flex-1 bg-green-600 text-white py-2 rounded-lg font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+            data-testid="spot-offer-confirm"
+          >
+            Potvrdit účast
+          </button>
+          <button
+            onClick={() => participants.handleStatusChange(currentUser.id, 'declined')}
+            disabled={participants.savingUsers.has(currentUser.id)}
+            className="flex-1 bg-slate-200 text-slate-700 py-2 rounded-lg font-medium hover:bg-slate-300 transition-colors disabled:opacity-50"
+            data-testid="spot-offer-decline"
+          >
+            Nejdu
+          </button>
+        </div>
+      </div>
+    )}
+
+    {participants.rsvpLocked && !isPastEvent && (
+      <div className="mb-4 p-3 bg-slate-50 border border-slate-200 rounded-lg text-slate-600 text-sm flex items-center gap-2" data-testid="rsvp-locked">
+        <Lock size={16} />
+        Přihlašování je uzavřené — změnu účasti provede organizátor.
+      </div>
+    )}
+
+    {!participants.isCurrentUserJoined && participants.currentUserParticipant?.status !== 'waitlist' && !participants.rsvpLocked && !isPastEvent && (
       <button
         onClick={() => participants.handleStatusChange(currentUser.id, 'joined')}
         disabled={participants.savingUsers.has(currentUser.id)}
@@ -73,9 +124,18 @@ export const ParticipantList: React.FC<ParticipantListProps> = ({
       </button>
     )}
 
+    {!isPastEvent && (
+      <GuestForm
+        currentUser={currentUser}
+        members={sortedParticipants.filter(p => !p.isGuest)}
+        isSaving={participants.isLoading}
+        onAdd={participants.handleAddGuest}
+      />
+    )}
+
     <div className="space-y-2">
       {sortedParticipants
-        .filter(p => p.status !== 'declined' || p.userId === currentUser.id)
+        .filter(p => p.status !== 'declined' || p.lateCancel || p.userId === currentUser.id)
         .map(p => {
           const isMe = p.userId === currentUser.id;
           const isSaving = participants.savingUsers.has(p.userId);
@@ -141,27 +201,66 @@ export const ParticipantList: React.FC<ParticipantListProps> = ({
                   {isMe ? (
                     <div className="flex gap-2 text-xs mt-0.5">
                       <button
-                        disabled={isSaving || isPastEvent}
+                        disabled={isSaving || isPastEvent || participants.rsvpLocked}
                         onClick={() => participants.handleStatusChange(p.userId, 'joined')}
                         className={`hover:underline disabled:opacity-50 disabled:cursor-not-allowed ${p.status === 'joined' ? 'font-bold text-green-600' : 'text-slate-400'}`}
                       >Jdu</button>
                       <span className="text-slate-300">|</span>
                       <button
-                        disabled={isSaving || isPastEvent}
+                        disabled={isSaving || isPastEvent || participants.rsvpLocked}
                         onClick={() => participants.handleStatusChange(p.userId, 'declined')}
                         className={`hover:underline disabled:opacity-50 disabled:cursor-not-allowed ${p.status === 'declined' ? 'font-bold text-red-600' : 'text-slate-400'}`}
                       >Nejdu</button>
+                      {p.lateCancel && <span className="text-orange-600" data-testid="late-cancel-mine">• pozdě odhlášen, platíte</span>}
+                      {participants.leavingIsLate && !participants.rsvpLocked && !isPastEvent && (
+                        <span className="text-amber-600" data-testid="late-cancel-warning">• při odhlášení podíl zaplatíte i tak</span>
+                      )}
                     </div>
                   ) : (
                     <div className="text-xs mt-0.5 font-medium text-slate-500 flex items-center gap-1">
-                      {p.status === 'joined' ? 'Jde hrát' : p.status === 'declined' ? 'Nejde' : p.status === 'waitlist' ? 'Čeká na místo' : 'Možná'}
+                      {statusLabel(p)}
+                      {p.isGuest && (
+                        <span className="font-normal text-slate-400" data-testid={`guest-info-${p.userId}`}>
+                          • host, platí {payerName(p, sortedParticipants, currentUser)}
+                        </span>
+                      )}
                     </div>
                   )}
                 </div>
               </div>
 
               <div className="flex items-center gap-2 shrink-0">
-                {p.status === 'joined' && (
+                {participants.canMarkNoShow && p.status === 'joined' && (
+                  <button
+                    onClick={() => participants.handleNoShowToggle(p.userId)}
+                    disabled={isSaving}
+                    className={`p-1 rounded transition-colors disabled:opacity-50 ${p.noShow ? 'text-red-500 hover:text-red-600' : 'text-slate-300 hover:text-red-500'}`}
+                    title={p.noShow ? 'Zrušit označení „nedorazil“' : 'Označit jako nedorazil'}
+                    data-testid={`no-show-${p.userId}`}
+                  >
+                    <UserX size={14} />
+                  </button>
+                )}
+                {participants.canManageAttendance && p.lateCancel && (
+                  <button
+                    onClick={() => participants.handleWaiveLateCancel(p.userId)}
+                    disabled={isSaving}
+                    className="text-xs text-slate-500 hover:text-blue-600 hover:underline disabled:opacity-50"
+                    title="Hráč nebude platit podíl za pozdní odhlášení"
+                    data-testid={`waive-late-cancel-${p.userId}`}
+                  >
+                    Prominout
+                  </button>
+                )}
+                {isBilled(p) && !participants.canTogglePayment(p) && (
+                  <span
+                    className={`text-xs w-[4.5rem] ${p.hasPaid ? 'text-green-600 font-medium' : 'text-slate-500'}`}
+                    data-testid={`payment-status-${p.userId}`}
+                  >
+                    {p.hasPaid ? 'Zaplaceno' : 'Nezaplaceno'}
+                  </span>
+                )}
+                {isBilled(p) && participants.canTogglePayment(p) && (
                   <label className="flex items-center gap-2 cursor-pointer select-none group/checkbox p-1 rounded hover:bg-slate-50 transition-colors">
                     <span className="w-4 h-4 flex items-center justify-center shrink-0">
                       {isSaving ? (
@@ -180,6 +279,17 @@ export const ParticipantList: React.FC<ParticipantListProps> = ({
                     </span>
                   </label>
                 )}
+                {participants.canRemoveGuest(p) && !isPastEvent && (
+                  <button
+                    onClick={() => participants.handleRemoveGuest(p.userId)}
+                    disabled={isSaving}
+                    className="text-slate-400 hover:text-red-500 p-1 rounded transition-colors disabled:opacity-50"
+                    title="Odebrat hosta"
+                    data-testid={`guest-remove-${p.userId}`}
+                  >
+                    <X size={14} />
+                  </button>
+                )}
               </div>
             </div>
           );
@@ -1,15 +1,7 @@
 import React from 'react';
 import { SportEvent, BankAccount, maskAccountNumber } from '@/types.ts';
 import { Wallet, AlertTriangle, Check, Copy, ChevronDown } from 'lucide-react';
-import * as QRCodeModule from 'react-qr-code';
-
-// Safely resolve QRCode component — handles CJS/ESM interop differences
-// between Vite dev (esbuild) and production (Rollup) builds.
-const QRCode: React.ComponentType<any> =
-  (QRCodeModule as any).default?.render ? (QRCodeModule as any).default      // ESM: module.default is the component
-  : (QRCodeModule as any).QRCode?.render ? (QRCodeModule as any).QRCode      // Named export
-  : (QRCodeModule as any).default?.default?.render ? (QRCodeModule as any).default.default  // Double-wrapped
-  : (QRCodeModule as any).default ?? (QRCodeModule as any);                  // Fallback
+import { QRCode } from '../QRCode';
 
 interface PaymentSectionProps {
   event: SportEvent;
@@ -19,10 +11,16 @@ interface PaymentSectionProps {
   iban: string | null;
   qrString: string | null;
   costPerPerson: number;
+  /** What the viewer owes when it differs from the regular share (pricing rules) */
+  myShare?: number;
+  /** The viewer's own VS — only set when they joined the event */
+  variableSymbol?: string;
   countJoined: number;
   isCopied: boolean;
   onCopyToClipboard: () => void;
   onBankAccountChange: (value: string) => void;
+  /** Only organizers pick the receiving account */
+  canChangeBankAccount: boolean;
   multisportUsers?: { name: string }[];
 }
 
@@ -34,10 +32,13 @@ export const PaymentSection: React.FC<PaymentSectionProps> = ({
   iban,
   qrString,
   costPerPerson,
+  myShare,
+  variableSymbol,
   countJoined,
   isCopied,
   onCopyToClipboard,
   onBankAccountChange,
+  canChangeBankAccount,
   multisportUsers = [],
 }) => (
   <div className="bg-slate-50 p-6 rounded-xl border border-slate-200 h-fit">
@@ -56,7 +57,8 @@ export const PaymentSection: React.FC<PaymentSectionProps> = ({
             <select
               value={event.selectedBankAccountId || ''}
               onChange={(e) => onBankAccountChange(e.target.value)}
-              className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm appearance-none pr-8 cursor-pointer"
+              disabled={!canChangeBankAccount}
+              className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm appearance-none pr-8 cursor-pointer disabled:bg-slate-50 disabled:cursor-default"
             >
               <option value="" disabled>Vyberte účet...</option>
               {bankAccounts.map(a => (
@@ -107,6 +109,16 @@ export const PaymentSection: React.FC<PaymentSectionProps> = ({
       <div className="bg-white p-4 rounded-lg border border-slate-200">
         <p className="text-xs text-slate-500 uppercase tracking-wide mb-1">Částka na osobu</p>
         <p className="text-3xl font-bold text-blue-600">{costPerPerson} Kč</p>
+        {myShare !== undefined && myShare !== costPerPerson && (
+          <p className="text-sm text-slate-600 mt-1" data-testid="payment-my-share">
+            Vaše částka: <span className="font-semibold text-slate-800">{myShare} Kč</span>
+          </p>
+        )}
+        {variableSymbol && (
+          <p className="text-xs text-slate-500 mt-1">
+            Variabilní symbol: <span className="font-mono font-medium text-slate-700 select-all" data-testid="payment-variable-symbol">{variableSymbol}</span>
+          </p>
+        )}
         {multisportUsers.length > 0 && (
           <div className="relative group mt-2">
             <span className="inline-flex items-center gap-1 text-xs font-medium text-purple-700 bg-purple-50 border border-purple-200 px-2 py-1 rounded-full cursor-default">
@@ -142,7 +154,8 @@ export const PaymentSection: React.FC<PaymentSectionProps> = ({
         <div className="text-center p-4 text-slate-400 text-sm italic">
           {!countJoined ? "Přidejte účastníky pro výpočet ceny." :
             !effectiveAccountNumber ? "Vyberte bankovní účet." :
-              "Nelze vygenerovat QR kód (chybné číslo účtu)."}
+              myShare === 0 ? "Tuto akci máte zdarma." :
+                "Nelze vygenerovat QR kód (chybné číslo účtu)."}
         </div>
       )}
     </div>
@@ -0,0 +1,50 @@
+import React from 'react';
+import { User } from '@/types.ts';
+import { Eye } from 'lucide-react';
+
+interface PresenceIndicatorProps {
+  viewerIds: string[];
+  currentUser: User;
+  allUsers: User[];
+}
+
+const MAX_AVATARS = 5;
+
+/** Who else has this event open right now — edits they make show up live */
+export const PresenceIndicator: React.FC<PresenceIndicatorProps> = ({ viewerIds, currentUser, allUsers }) => {
+  const viewers = viewerIds
+    .filter(id => id !== currentUser.id)
+    .map(id => allUsers.find(u => u.id === id))
+    .filter((u): u is User => !!u);
+  if (viewers.length === 0) return null;
+
+  const names = viewers.map(u => u.name).join(', ');
+
+  return (
+    <div
+      className="flex items-center gap-2 px-4 sm:px-6 py-2 bg-emerald-50 border-b border-emerald-100 text-xs text-emerald-800"
+      title={names}
+      data-testid="presence-indicator"
+    >
+      <span className="relative flex h-2 w-2">
+        <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75" />
+        <span className="relative inline-flex rounded-full h-2 w-2 bg-emerald-500" />
+      </span>
+      <Eye size={14} />
+      <div className="flex -space-x-1.5">
+        {viewers.slice(0, MAX_AVATARS).map(u => (
+          u.photoUrl ? (
+            <img key={u.id} src={u.photoUrl} alt={u.name} className="w-5 h-5 rounded-full object-cover border border-white" />
+          ) : (
+            <div key={u.id} className="w-5 h-5 rounded-full bg-emerald-200 border border-white flex items-center justify-center text-[10px] font-bold text-emerald-700">
+              {u.name.charAt(0).toUpperCase()}
+            </div>
+          )
+        ))}
+      </div>
+      <span className="truncate">
+        {viewers.length === 1 ? `${names} si právě prohlíží tuto událost` : `Právě si prohlíží: ${names}`}
+      </span>
+    </div>
+  );
+};
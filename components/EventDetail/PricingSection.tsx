@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { SportEvent, PricingRules } from '@/types.ts';
+import type { ShareBreakdown } from '@/shared/pricing.ts';
+import { Calculator, Pencil, Check, X, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface PricingSectionProps {
+  event: SportEvent;
+  shares: ShareBreakdown[];
+  /** Rules in effect — the event's own or the sport's defaults */
+  rules: PricingRules;
+  /** Only organizers set custom shares and per-event rules */
+  canEdit: boolean;
+  onUpdate: (updatedEvent: SportEvent) => void;
+}
+
+const REASON_LABELS: Record<NonNullable<ShareBreakdown['reason']>, string> = {
+  organizer: 'organizátor zdarma',
+  custom: 'vlastní částka',
+  guest: 'host',
+  multisport: '🎫 Multisport',
+};
+
+export const PricingSection: React.FC<PricingSectionProps> = ({ event, shares, rules, canEdit, onUpdate }) => {
+  const [editingUserId, setEditingUserId] = useState<string | null>(null);
+  const [tempShare, setTempShare] = useState('');
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [tempRules, setTempRules] = useState<PricingRules>(rules);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  // An even split needs no breakdown — players only see it when someone pays differently
+  const hasAdjustments = shares.some(s => s.reason);
+  if (shares.length === 0 || (!hasAdjustments && !canEdit)) return null;
+  const showBreakdown = hasAdjustments || isExpanded;
+
+  const nameOf = (userId: string) => event.participants.find(p => p.userId === userId)?.name ?? 'Neznámý';
+  const collected = shares.reduce((sum, s) => sum + s.amount, 0);
+
+  const startEditShare = (share: ShareBreakdown) => {
+    setEditingUserId(share.userId);
+    setTempShare(event.customShares?.[share.userId] !== undefined ? String(event.customShares[share.userId]) : '');
+  };
+
+  const saveShare = () => {
+    if (!editingUserId) return;
+    const { [editingUserId]: _previous, ...rest } = event.customShares ?? {};
+    const next = tempShare.trim() === '' ? rest : { ...rest, [editingUserId]: Math.max(0, Number(tempShare) || 0) };
+    onUpdate({ ...event, customShares: Object.keys(next).length > 0 ? next : undefined });
+    setEditingUserId(null);
+  };
+
+  const saveRules = () => {
+    onUpdate({ ...event, pricing: tempRules });
+    setIsRulesOpen(false);
+  };
+
+  const resetRules = () => {
+    onUpdate({ ...event, pricing: undefined });
+    setIsRulesOpen(false);
+  };
+
+  return (
+    <div className="bg-slate-50 p-6 rounded-xl border border-slate-200 h-fit" data-testid="pricing-section">
+      <h3 className="text-lg font-semibold text-slate-700 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2">
+          <Calculator size={20} className="text-blue-600" />
+          Rozpis ceny
+        </span>
+        {!hasAdjustments && (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="text-slate-400 hover:text-blue-600 p-1 rounded transition-colors"
+            title={isExpanded ? 'Skrýt rozpis' : 'Zobrazit rozpis'}
+            data-testid="pricing-breakdown-toggle"
+          >
+            {isExpanded ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+          </button>
+        )}
+      </h3>
+
+      {showBreakdown && (
+        <div className="mt-4 bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
+          {shares.map(share => (
+            <div key={share.userId} className="px-3 py-2 flex items-center justify-between gap-2 text-sm" data-testid={`pricing-share-${share.userId}`}>
+              <div className="min-w-0">
+                <span className="text-slate-800 truncate">{nameOf(share.userId)}</span>
+                {share.reason && (
+                  <span className="ml-2 text-[10px] font-medium text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">
+                    {REASON_LABELS[share.reason]}
+                  </span>
+                )}
+              </div>
+              {editingUserId === share.userId ? (
+                <div className="flex items-center gap-1 shrink-0">
+                  <input
+                    type="number"
+                    min="0"
+                    value={tempShare}
+                    onChange={(e) => setTempShare(e.target.value)}
+                    placeholder="auto"
+                    className="w-20 px-2 py-1 border border-blue-300 rounded text-sm focus:ring-1 focus:ring-blue-200 outline-none"
+                    data-testid="pricing-share-input"
+                    autoFocus
+                  />
+                  <button onClick={saveShare} className="text-green-600 hover:bg-green-50 p-1 rounded transition-colors" data-testid="pricing-share-save">
+                    <Check size={14} />
+                  </button>
+                  <button onClick={() => setEditingUserId(null)} className="text-red-500 hover:bg-red-50 p-1 rounded transition-colors">
+                    <X size={14} />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className="font-semibold text-slate-800">{share.amount} Kč</span>
+                  {canEdit && (
+                    <button
+                      onClick={() => startEditShare(share)}
+                      className="text-slate-400 hover:text-blue-600 p-1 rounded transition-colors"
+                      title="Nastavit vlastní částku"
+                      data-testid={`pricing-share-edit-${share.userId}`}
+                    >
+                      <Pencil size={12} />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {collected < event.totalCost && (
+        <p className="text-xs text-slate-500 mt-2" data-testid="pricing-collected">
+          Vybere se {collected} Kč z {event.totalCost} Kč
+          {shares.some(s => s.reason === 'multisport') ? ' — zbytek hradí Multisport' : ''}.
+        </p>
+      )}
+
+      {canEdit && (
+        <div className="mt-4">
+          <button
+            onClick={() => { setTempRules(rules); setIsRulesOpen(!isRulesOpen); }}
+            className="text-xs text-slate-500 hover:text-blue-600 flex items-center gap-1 transition-colors"
+            data-testid="pricing-rules-toggle"
+          >
+            {isRulesOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            Pravidla ceny {event.pricing ? '(vlastní pro tuto akci)' : '(podle sportu)'}
+          </button>
+
+          {isRulesOpen && (
+            <div className="mt-2 bg-white rounded-lg border border-slate-200 p-3 space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-slate-500 mb-0.5">Sleva Multisport (Kč)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={tempRules.multisportDeduction ?? 0}
+                    onChange={e => setTempRules({ ...tempRules, multisportDeduction: Number(e.target.value) || 0 })}
+                    className="w-full px-2 py-1 border border-slate-300 rounded text-sm focus:ring-1 focus:ring-blue-200 outline-none"
+                    data-testid="pricing-multisport-input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-500 mb-0.5">Příplatek hosta (Kč)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={tempRules.guestSurcharge ?? 0}
+                    onChange={e => setTempRules({ ...tempRules, guestSurcharge: Number(e.target.value) || 0 })}
+                    className="w-full px-2 py-1 border border-slate-300 rounded text-sm focus:ring-1 focus:ring-blue-200 outline-none"
+                    data-testid="pricing-guest-input"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={tempRules.organizerFree ?? false}
+                  onChange={e => setTempRules({ ...tempRules, organizerFree: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                  data-testid="pricing-organizer-free"
+                />
+                Organizátor hraje zdarma
+              </label>
+              <div className="flex gap-2 pt-1">
+                <button
+                  onClick={saveRules}
+                  className="flex-1 bg-blue-600 text-white py-1.5 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+                  data-testid="pricing-rules-save"
+                >
+                  Uložit pro tuto akci
+                </button>
+                {event.pricing && (
+                  <button
+                    onClick={resetRules}
+                    className="px-3 py-1.5 text-slate-500 hover:text-slate-700 text-sm transition-colors"
+                  >
+                    Podle sportu
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { SportEvent, Participant, TeamConstraint } from '@/types.ts';
+import { Link2, Plus, X } from 'lucide-react';
+
+interface TeamConstraintsProps {
+  event: SportEvent;
+  joinedParticipants: Participant[];
+  onUpdate: (updatedEvent: SportEvent) => void;
+}
+
+/** Pairs the next shuffle keeps in one team or in different ones — organizers only */
+export const TeamConstraints: React.FC<TeamConstraintsProps> = ({ event, joinedParticipants, onUpdate }) => {
+  const [first, setFirst] = useState('');
+  const [second, setSecond] = useState('');
+  const [together, setTogether] = useState(true);
+
+  const constraints = event.teamConstraints ?? [];
+  const nameOf = (userId: string) => event.participants.find(p => p.userId === userId)?.name ?? 'Neznámý';
+  const samePair = (c: TeamConstraint) => c.userIds.includes(first) && c.userIds.includes(second);
+  const canAdd = first !== '' && second !== '' && first !== second && !constraints.some(samePair);
+
+  const save = (next: TeamConstraint[]) => onUpdate({ ...event, teamConstraints: next.length > 0 ? next : undefined });
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    save([...constraints, { userIds: [first, second], together }]);
+    setFirst('');
+    setSecond('');
+  };
+
+  const selectClass = 'min-w-0 flex-1 text-sm border border-slate-200 rounded-lg px-1.5 py-1.5 bg-white text-slate-600 focus:ring-1 focus:ring-indigo-200 outline-none';
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-sm" data-testid="team-constraints">
+      <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2 mb-1">
+        <Link2 size={16} className="text-indigo-500" />
+        Dvojice při míchání
+      </h3>
+      <p className="text-xs text-slate-500 mb-3">Hráči, kteří mají hrát spolu, nebo naopak proti sobě. Platí od příštího zamíchání.</p>
+
+      {constraints.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {constraints.map((c, idx) => (
+            <li key={c.userIds.join('-')} className="flex items-center justify-between gap-2 text-sm text-slate-700" data-testid={`team-constraint-${idx}`}>
+              <span>
+                {nameOf(c.userIds[0])} {c.together ? '+' : '×'} {nameOf(c.userIds[1])}
+                <span className="text-xs text-slate-400 ml-1.5">{c.together ? 'spolu' : 'zvlášť'}</span>
+              </span>
+              <button
+                onClick={() => save(constraints.filter((_, i) => i !== idx))}
+                className="p-1 text-slate-400 hover:text-red-500"
+                title="Odebrat dvojici"
+                data-testid={`team-constraint-remove-${idx}`}
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select value={first} onChange={e => setFirst(e.target.value)} className={selectClass} data-testid="team-constraint-first">
+          <option value="">Hráč…</option>
+          {joinedParticipants.map(p => <option key={p.userId} value={p.userId}>{p.name}</option>)}
+        </select>
+        <select
+          value={together ? 'together' : 'apart'}
+          onChange={e => setTogether(e.target.value === 'together')}
+          className="text-sm border border-slate-200 rounded-lg px-1.5 py-1.5 bg-white text-slate-600 outline-none"
+          data-testid="team-constraint-kind"
+        >
+          <option value="together">spolu</option>
+          <option value="apart">zvlášť</option>
+        </select>
+        <select value={second} onChange={e => setSecond(e.target.value)} className={selectClass} data-testid="team-constraint-second">
+          <option value="">Hráč…</option>
+          {joinedParticipants.filter(p => p.userId !== first).map(p => <option key={p.userId} value={p.userId}>{p.name}</option>)}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="p-1.5 text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Přidat dvojici"
+          data-testid="team-constraint-add"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
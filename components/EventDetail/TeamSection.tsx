@@ -1,21 +1,39 @@
 import React, { useState } from 'react';
-import { SportEvent } from '@/types.ts';
+import { SportEvent, MAX_TEAMS } from '@/types.ts';
 import { Shuffle, RefreshCw, Trophy, Pencil, Check, X } from 'lucide-react';
 import { ScoreEditor } from './ScoreEditor';
 import { GameHistory } from './GameHistory';
+import { LiveScoreboard } from './LiveScoreboard';
+import { MatchSchedule } from './MatchSchedule';
+import { currentMatch, currentRound } from '@/utils/matchSchedule.ts';
 import type { TeamManagement } from './hooks/useTeamManagement';
 import type { ScoreTracking } from './hooks/useScoreTracking';
+import type { LiveScoreState } from './hooks/useLiveScore';
+
+/** Card and heading colors, by team index */
+const TEAM_STYLES = [
+  { card: 'bg-blue-50 border-blue-200', title: 'text-blue-700' },
+  { card: 'bg-orange-50 border-orange-200', title: 'text-orange-700' },
+  { card: 'bg-purple-50 border-purple-200', title: 'text-purple-700' },
+  { card: 'bg-teal-50 border-teal-200', title: 'text-teal-700' },
+  { card: 'bg-pink-50 border-pink-200', title: 'text-pink-700' },
+  { card: 'bg-lime-50 border-lime-200', title: 'text-lime-700' },
+  { card: 'bg-amber-50 border-amber-200', title: 'text-amber-700' },
+  { card: 'bg-cyan-50 border-cyan-200', title: 'text-cyan-700' },
+] as const;
 
 interface TeamSectionProps {
   event: SportEvent;
   teamManagement: TeamManagement;
   scoreTracking: ScoreTracking;
+  liveScore: LiveScoreState;
 }
 
 export const TeamSection: React.FC<TeamSectionProps> = ({
   event,
   teamManagement,
   scoreTracking,
+  liveScore,
 }) => {
   const [isShuffling, setIsShuffling] = useState(false);
 
@@ -31,6 +49,10 @@ export const TeamSection: React.FC<TeamSectionProps> = ({
 
   if (!event.teams || !Array.isArray(event.teams) || event.teams.length < 2) return null;
 
+  const isMultiTeam = event.teams.length > 2;
+  // Two teams: until a winner is picked; more: the schedule's pairing, if any is left
+  const onCourt = isMultiTeam || event.winningTeam === undefined ? currentMatch(event) : null;
+
   return (
     <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-sm">
       <div className="flex items-center justify-between mb-3">
@@ -43,30 +65,48 @@ export const TeamSection: React.FC<TeamSectionProps> = ({
             </span>
           )}
         </h3>
-        <button
-          onClick={handleShuffle}
-          disabled={!teamManagement.canShuffleTeams || isShuffling}
-          className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1 bg-indigo-50 px-3 py-1.5 rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <RefreshCw size={14} className={isShuffling ? 'animate-spin' : ''} />
-          {event.winningTeam !== undefined ? 'Nová hra' : 'Zamíchat'}
-        </button>
+        <div className="flex items-center gap-2">
+          <select
+            value={teamManagement.teamCount}
+            onChange={e => teamManagement.changeTeamCount(Number(e.target.value))}
+            disabled={isShuffling}
+            className="text-sm border border-slate-200 rounded-lg px-1.5 py-1.5 bg-white text-slate-600 focus:ring-1 focus:ring-indigo-200 outline-none"
+            title="Počet týmů"
+            data-testid="team-count-select"
+          >
+            {Array.from({ length: MAX_TEAMS - 1 }, (_, i) => i + 2).map(count => (
+              <option key={count} value={count} disabled={count !== teamManagement.teamCount && !teamManagement.canSplitInto(count)}>
+                {count} týmy
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleShuffle}
+            disabled={!teamManagement.canShuffleTeams || isShuffling}
+            className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1 bg-indigo-50 px-3 py-1.5 rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw size={14} className={isShuffling ? 'animate-spin' : ''} />
+            {currentRound(event) ? 'Nová hra' : 'Zamíchat'}
+          </button>
+        </div>
       </div>
 
       {/* Team cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <div className={`grid grid-cols-1 sm:grid-cols-2 gap-3 ${isMultiTeam ? 'lg:grid-cols-3' : ''}`}>
         {event.teams.map((team, teamIdx) => {
-          const isWinner = event.winningTeam === teamIdx;
+          const isWinner = !isMultiTeam && event.winningTeam === teamIdx;
+          const isOnCourt = isMultiTeam && !!onCourt?.includes(teamIdx);
+          const style = TEAM_STYLES[teamIdx % TEAM_STYLES.length];
           const teamName = event.teamNames?.[teamIdx] ?? `Tým ${teamIdx + 1}`;
           const isEditingThisTeam = teamManagement.editingTeamNameIdx === teamIdx;
           return (
             <div key={teamIdx} className={`rounded-lg border-2 p-3 transition-all ${
               isWinner
                 ? 'bg-green-50 border-green-400 ring-1 ring-green-200'
-                : teamIdx === 0 ? 'bg-blue-50 border-blue-200' : 'bg-orange-50 border-orange-200'
-            }`}>
+                : `${style.card}${isOnCourt ? ' ring-2 ring-indigo-300' : ''}`
+            }`} data-testid={`team-card-${teamIdx}`}>
               <h4 className={`text-sm font-bold mb-2 flex items-center gap-1.5 ${
-                isWinner ? 'text-green-700' : teamIdx === 0 ? 'text-blue-700' : 'text-orange-700'
+                isWinner ? 'text-green-700' : style.title
               }`}>
                 {isWinner && <Trophy size={14} />}
                 {isEditingThisTeam ? (
@@ -91,7 +131,7 @@ export const TeamSection: React.FC<TeamSectionProps> = ({
                   <span className="flex items-center gap-1 group/teamname">
                     {teamName} ({team.length})
                     <button
-                      onClick={() => teamManagement.handleStartEditTeamName(teamIdx as 0 | 1)}
+                      onClick={() => teamManagement.handleStartEditTeamName(teamIdx)}
                       className="opacity-0 group-hover/teamname:opacity-100 text-slate-400 hover:text-blue-600 p-0.5 rounded transition-opacity"
                       title="Přejmenovat tým"
                       data-testid={`team-name-edit-${teamIdx}`}
@@ -121,15 +161,15 @@ export const TeamSection: React.FC<TeamSectionProps> = ({
         })}
       </div>
 
-      {/* Winner buttons */}
-      {event.winningTeam === undefined && (
+      {/* Winner buttons — of the match on court */}
+      {onCourt && (
         <div className="grid grid-cols-2 gap-2 mt-3">
-          {[0, 1].map(idx => {
+          {onCourt.map(idx => {
             const btnTeamName = event.teamNames?.[idx] ?? `Tým ${idx + 1}`;
             return (
               <button
                 key={idx}
-                onClick={() => teamManagement.setWinner(idx as 0 | 1)}
+                onClick={() => teamManagement.setWinner(idx)}
                 className="py-2 px-3 rounded-lg text-sm font-medium transition-all flex items-center justify-center gap-1.5 bg-slate-100 text-slate-600 hover:bg-slate-200"
                 data-testid={`winner-btn-${idx}`}
               >
@@ -141,11 +181,14 @@ export const TeamSection: React.FC<TeamSectionProps> = ({
         </div>
       )}
 
+      <MatchSchedule event={event} teamManagement={teamManagement} />
+
       {/* Score tracking */}
-      <ScoreEditor event={event} scoreTracking={scoreTracking} />
+      <ScoreEditor event={event} scoreTracking={scoreTracking} liveScore={liveScore} />
+      <LiveScoreboard event={event} liveScore={liveScore} />
 
       {/* Winner announcement */}
-      {event.winningTeam !== undefined && (
+      {!isMultiTeam && event.winningTeam !== undefined && (
         <div className="mt-3 text-center text-sm text-green-600 font-medium flex items-center justify-center gap-1.5">
           <Trophy size={14} />
           {event.teamNames?.[event.winningTeam] ?? `Tým ${event.winningTeam + 1}`} vyhrál! Klikněte „Nová hra" pro další kolo.
@@ -37,7 +37,7 @@ export const WaitlistSection: React.FC<WaitlistSectionProps> = ({ waitlistedPart
         ))}
       </div>
       <p className="text-xs text-amber-600 mt-2 italic">
-        Automaticky zařazeni při uvolnění místa.
+        Při uvolnění místa postupuje první v pořadí.
       </p>
     </div>
   );
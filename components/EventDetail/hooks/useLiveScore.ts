@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { ScoringRules, SportEvent } from '@/types.ts';
+import { getScoringRules, scorePoint, startLiveScore, LiveScore } from '@/utils/scoring.ts';
+import { currentMatch, recordMatchWinner } from '@/utils/matchSchedule.ts';
+
+interface UseLiveScoreProps {
+  event: SportEvent;
+  /** The rules of the event's sport config, if it sets its own */
+  scoring?: ScoringRules;
+  onUpdate: (event: SportEvent) => void;
+}
+
+/**
+ * Court-side live scoring. Points stay on this device; every finished set is
+ * written into `event.score` (and the winner once the match is decided), so
+ * a reload continues from the last set. With more than two teams the decided
+ * match goes into the round's matches and the next pairing is up.
+ */
+export function useLiveScore({ event, scoring, onUpdate }: UseLiveScoreProps) {
+  const rules = getScoringRules(event.sportType, scoring);
+  const [isLive, setIsLive] = useState(false);
+  const [score, setScore] = useState<LiveScore>(() => startLiveScore(event.score, rules));
+  const [history, setHistory] = useState<LiveScore[]>([]);
+  const isMultiTeam = (event.teams?.length ?? 0) > 2;
+  /** The teams on court, home side first — kept while the recorded match moves the schedule on */
+  const [match, setMatch] = useState<[number, number]>(() => currentMatch(event) ?? [0, 1]);
+
+  /** Save finished sets — only when a set ended or an undo reopened one */
+  const saveSets = (next: LiveScore) => {
+    if (next.sets.length === score.sets.length) return;
+    const withSets = { ...event, score: next.sets.length > 0 ? next.sets : undefined };
+    if (isMultiTeam && next.winner !== undefined) {
+      onUpdate(recordMatchWinner(withSets, match[next.winner]));
+      return;
+    }
+    onUpdate(isMultiTeam ? withSets : { ...withSets, winningTeam: next.winner });
+  };
+
+  const handleOpen = () => {
+    setMatch(currentMatch(event) ?? [0, 1]);
+    setScore(startLiveScore(event.score, rules));
+    setHistory([]);
+    setIsLive(true);
+  };
+
+  const handleClose = () => setIsLive(false);
+
+  const handlePoint = (team: 0 | 1) => {
+    const next = scorePoint(score, team, rules);
+    if (next === score) return;
+    setHistory(prev => [...prev, score]);
+    setScore(next);
+    saveSets(next);
+  };
+
+  const handleUndo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory(prev => prev.slice(0, -1));
+    setScore(previous);
+    saveSets(previous);
+  };
+
+  /**
+   * Same teams again — the finished match goes into the game history. With
+   * more teams the match is already recorded, the next pairing starts.
+   */
+  const handleRematch = () => {
+    if (!event.teams || score.winner === undefined) return;
+    if (isMultiTeam) {
+      const next = currentMatch(event);
+      if (!next) {
+        setIsLive(false);
+        return;
+      }
+      setMatch(next);
+      setScore(startLiveScore([], rules));
+      setHistory([]);
+      return;
+    }
+    const gameHistory = [
+      ...(event.gameHistory || []),
+      { teams: event.teams, teamNames: event.teamNames, winningTeam: score.winner, score: score.sets },
+    ];
+    onUpdate({ ...event, gameHistory, winningTeam: undefined, score: undefined });
+    setScore(startLiveScore([], rules));
+    setHistory([]);
+  };
+
+  return {
+    rules,
+    isMultiTeam,
+    match,
+    isLive,
+    score,
+    canUndo: history.length > 0,
+    handleOpen,
+    handleClose,
+    handlePoint,
+    handleUndo,
+    handleRematch,
+  };
+}
+
+export type LiveScoreState = ReturnType<typeof useLiveScore>;
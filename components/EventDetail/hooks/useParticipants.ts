@@ -1,6 +1,9 @@
 import { useState } from 'react';
 import { SportEvent, Participant, User, SportConfig } from '@/types.ts';
 import * as storage from '@/services/storage.ts';
+import { can } from '@/utils/permissions.ts';
+import { payerOf } from '@/shared/debt.ts';
+import { canHostRemoveGuest, hoursUntilStart, isLateCancelWindow, isRsvpLocked } from '@/shared/attendancePolicy.ts';
 import { updateTeamsForParticipantChange } from '../teamUtils';
 
 interface UseParticipantsProps {
@@ -20,37 +23,81 @@ export function useParticipants({ event, currentUser, sportConfig, onUpdate }: U
 
   const currentUserParticipant = event.participants.find(p => p.userId === currentUser.id);
   const isCurrentUserJoined = currentUserParticipant?.status === 'joined';
+  // Everyone confirms their own payment, others' only a treasurer/admin
+  const canMarkPayments = can(currentUser, 'payment:mark');
+  // Whoever pays for a guest confirms the guest's payment too
+  const canTogglePayment = (p: Participant) => payerOf(p) === currentUser.id || canMarkPayments;
+  const canManageAttendance = can(currentUser, 'attendance:manage');
+  const canRemoveGuest = (p: Participant) =>
+    !!p.isGuest && (canManageAttendance || (p.invitedBy === currentUser.id && canHostRemoveGuest(p, event, [sportConfig])));
+
+  // Past the sport's RSVP cut-off only organizers change attendance
+  const rsvpLocked = isRsvpLocked(event, [sportConfig]) && !canManageAttendance;
+  // Leaving now still costs the share — answering a held spot doesn't
+  const leavingIsLate = isCurrentUserJoined && !currentUserParticipant?.confirmBy && isLateCancelWindow(event, [sportConfig]);
+  // No-shows are marked once the event has started
+  const canMarkNoShow = canManageAttendance && hoursUntilStart(event) <= 0;
 
   const refreshEventData = async () => {
     setIsLoading(true);
-    const allEvents = await storage.getEvents();
-    const refreshed = allEvents.find(e => e.id === event.id);
+    const refreshed = await storage.getEvent(event.id);
     if (refreshed) {
       onUpdate(refreshed);
     }
     setIsLoading(false);
   };
 
-  const handleStatusChange = async (userId: string, status: Participant['status']) => {
-    let effectiveStatus = status;
-    if (status === 'joined') {
-      const currentJoined = event.participants.filter(p => p.status === 'joined');
-      const isAlreadyJoined = currentJoined.some(p => p.userId === userId);
-      if (!isAlreadyJoined && currentJoined.length >= sportConfig.maxPlayers) {
-        effectiveStatus = 'waitlist';
-        setCapacityError(`Kapacita ${sportConfig.maxPlayers} hráčů je plná — zařazeni do čekací listiny.`);
-        setTimeout(() => setCapacityError(null), 3000);
-      }
+  /** Joining a full event lands on the waitlist — guests count toward capacity like members */
+  const resolveCapacity = (status: Participant['status'], userId?: string): Participant['status'] => {
+    if (status !== 'joined') return status;
+    const currentJoined = event.participants.filter(p => p.status === 'joined');
+    const isAlreadyJoined = currentJoined.some(p => p.userId === userId);
+    if (!isAlreadyJoined && currentJoined.length >= sportConfig.maxPlayers) {
+      setCapacityError(`Kapacita ${sportConfig.maxPlayers} hráčů je plná — zařazeni do čekací listiny.`);
+      setTimeout(() => setCapacityError(null), 3000);
+      return 'waitlist';
     }
     setCapacityError(null);
+    return status;
+  };
+
+  /** Update teams to reflect a participant change */
+  const withUpdatedTeams = (participants: Participant[]): SportEvent => {
+    const joined = participants.filter(p => p.status === 'joined');
+    const updatedTeams = updateTeamsForParticipantChange(event.teams, joined, sportConfig);
+    const teamUpdates: Partial<SportEvent> = {};
+    if (event.teams) {
+      if (updatedTeams === null) {
+        teamUpdates.teams = undefined;
+        teamUpdates.teamNames = undefined;
+        teamUpdates.winningTeam = undefined;
+        teamUpdates.matches = undefined;
+      } else {
+        teamUpdates.teams = updatedTeams;
+      }
+    }
+    return { ...event, participants, ...teamUpdates };
+  };
+
+  const reloadEvent = async () => {
+    const refreshed = await storage.getEvent(event.id);
+    if (refreshed) onUpdate(refreshed);
+  };
+
+  const handleStatusChange = async (userId: string, status: Participant['status']) => {
+    if (rsvpLocked && !currentUserParticipant?.confirmBy) return;
+    const effectiveStatus = resolveCapacity(status, userId);
 
     const prevParticipants = event.participants;
     const existing = prevParticipants.find(p => p.userId === userId);
+    // Leaving too late keeps the share, joining again clears it — the server has the final word
+    const lateCancel = effectiveStatus === 'joined' ? undefined : (userId === currentUser.id && leavingIsLate) || existing?.lateCancel;
 
+    // Waitlist promotion happens on the server — the reload below shows who moved up
     let optimisticParticipants: Participant[];
     if (existing) {
       optimisticParticipants = prevParticipants.map(p =>
-        p.userId === userId ? { ...p, status: effectiveStatus } : p
+        p.userId === userId ? { ...p, status: effectiveStatus, confirmBy: undefined, lateCancel } : p
       );
     } else {
       optimisticParticipants = [
@@ -59,39 +106,12 @@ export function useParticipants({ event, currentUser, sportConfig, onUpdate }: U
       ];
     }
 
-    // Auto-promote first waitlisted user when someone leaves/declines
-    if ((status === 'declined' || status === 'maybe') && existing?.status === 'joined') {
-      const waitlisted = optimisticParticipants.filter(p => p.status === 'waitlist');
-      if (waitlisted.length > 0) {
-        const promoted = waitlisted[0];
-        optimisticParticipants = optimisticParticipants.map(p =>
-          p.userId === promoted.userId ? { ...p, status: 'joined' as const } : p
-        );
-        storage.updateAttendance(event.id, promoted.userId, 'joined').catch(() => {});
-      }
-    }
-
-    // Update teams to reflect participant change
-    const optimisticJoined = optimisticParticipants.filter(p => p.status === 'joined');
-    const updatedTeams = updateTeamsForParticipantChange(event.teams, optimisticJoined, sportConfig);
-    const teamUpdates: Partial<SportEvent> = {};
-    if (event.teams) {
-      if (updatedTeams === null) {
-        teamUpdates.teams = undefined;
-        teamUpdates.teamNames = undefined;
-        teamUpdates.winningTeam = undefined;
-      } else {
-        teamUpdates.teams = updatedTeams;
-      }
-    }
-    onUpdate({ ...event, participants: optimisticParticipants, ...teamUpdates });
+    onUpdate(withUpdatedTeams(optimisticParticipants));
     startSaving(userId);
 
     try {
       await storage.updateAttendance(event.id, userId, effectiveStatus);
-      const allEvents = await storage.getEvents();
-      const refreshed = allEvents.find(e => e.id === event.id);
-      if (refreshed) onUpdate(refreshed);
+      await reloadEvent();
     } catch {
       onUpdate({ ...event, participants: prevParticipants });
     } finally {
@@ -102,6 +122,7 @@ export function useParticipants({ event, currentUser, sportConfig, onUpdate }: U
   const handlePaymentToggle = async (userId: string, currentStatus: boolean) => {
     const participant = event.participants.find(p => p.userId === userId);
     if (!participant) return;
+    if (!canTogglePayment(participant)) return;
 
     const prevParticipants = event.participants;
     const optimisticParticipants = prevParticipants.map(p =>
@@ -119,15 +140,94 @@ export function useParticipants({ event, currentUser, sportConfig, onUpdate }: U
     }
   };
 
+  const handleNoShowToggle = async (userId: string) => {
+    const participant = event.participants.find(p => p.userId === userId);
+    if (!participant || !canMarkNoShow) return;
+
+    const prevParticipants = event.participants;
+    onUpdate({ ...event, participants: prevParticipants.map(p => (p.userId === userId ? { ...p, noShow: !p.noShow } : p)) });
+    startSaving(userId);
+
+    try {
+      await storage.markNoShow(event.id, userId, !participant.noShow);
+    } catch {
+      onUpdate({ ...event, participants: prevParticipants });
+    } finally {
+      stopSaving(userId);
+    }
+  };
+
+  const handleWaiveLateCancel = async (userId: string) => {
+    const participant = event.participants.find(p => p.userId === userId);
+    if (!participant?.lateCancel || !canManageAttendance) return;
+
+    const prevParticipants = event.participants;
+    onUpdate({ ...event, participants: prevParticipants.map(p => (p.userId === userId ? { ...p, lateCancel: undefined } : p)) });
+    startSaving(userId);
+
+    try {
+      await storage.waiveLateCancel(event.id, userId, participant.status);
+    } catch {
+      onUpdate({ ...event, participants: prevParticipants });
+    } finally {
+      stopSaving(userId);
+    }
+  };
+
+  const handleAddGuest = async (name: string, paidBy: string = currentUser.id) => {
+    const status = resolveCapacity('joined');
+    const prevParticipants = event.participants;
+    setIsLoading(true);
+    try {
+      const guestId = await storage.addGuest(event.id, { name, invitedBy: currentUser.id, paidBy }, status);
+      const guest: Participant = { userId: guestId, name, status, hasPaid: false, isGuest: true, invitedBy: currentUser.id, paidBy };
+      onUpdate(withUpdatedTeams([...prevParticipants, guest]));
+      await reloadEvent();
+    } catch {
+      onUpdate({ ...event, participants: prevParticipants });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemoveGuest = async (guestId: string) => {
+    const guest = event.participants.find(p => p.userId === guestId);
+    if (!guest || !canRemoveGuest(guest)) return;
+
+    const prevParticipants = event.participants;
+    onUpdate(withUpdatedTeams(prevParticipants.filter(p => p.userId !== guestId)));
+    startSaving(guestId);
+
+    try {
+      await storage.removeGuest(event.id, guestId);
+      await reloadEvent();
+    } catch {
+      onUpdate({ ...event, participants: prevParticipants });
+    } finally {
+      stopSaving(guestId);
+    }
+  };
+
   return {
     isLoading,
     savingUsers,
     capacityError,
     currentUserParticipant,
     isCurrentUserJoined,
+    canMarkPayments,
+    canTogglePayment,
+    canRemoveGuest,
+    canManageAttendance,
+    rsvpLocked,
+    leavingIsLate,
+    canMarkNoShow,
     refreshEventData,
     handleStatusChange,
     handlePaymentToggle,
+    handleNoShowToggle,
+    handleWaiveLateCancel,
+    handleAddGuest,
+    handleRemoveGuest,
   };
 }
 
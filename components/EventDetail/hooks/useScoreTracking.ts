@@ -1,12 +1,13 @@
 import { useState } from 'react';
 import { SportEvent } from '@/types.ts';
 
-interface UseScoreTrackingProps {
-  event: SportEvent;
-  onUpdate: (event: SportEvent) => void;
+/** Anything with set scores — an event, or a tournament match shown as one */
+interface UseScoreTrackingProps<T extends Pick<SportEvent, 'score'>> {
+  event: T;
+  onUpdate: (event: T) => void;
 }
 
-export function useScoreTracking({ event, onUpdate }: UseScoreTrackingProps) {
+export function useScoreTracking<T extends Pick<SportEvent, 'score'>>({ event, onUpdate }: UseScoreTrackingProps<T>) {
   const [setScores, setSetScores] = useState<[number, number][]>([]);
   const [isEditingScore, setIsEditingScore] = useState(false);
 
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { SportEvent, Participant, SportConfig, TeamMember } from '@/types.ts';
-import { balanceTeams } from '@/utils/teamBalancer.ts';
+import { SportEvent, Participant, SportConfig, TeamMember, MatchFormat, User } from '@/types.ts';
+import { balanceTeams, PlayerProfiles } from '@/utils/teamBalancer.ts';
+import { currentRound, recordMatchWinner } from '@/utils/matchSchedule.ts';
+import type { HistoryState } from '@/hooks/useDataLoading.ts';
 import { pickRandomTeamNames, updateTeamsForParticipantChange } from '../teamUtils';
 
 interface UseTeamManagementProps {
@@ -8,75 +10,126 @@ interface UseTeamManagementProps {
   joinedParticipants: Participant[];
   sportConfig: SportConfig;
   allEvents: SportEvent[];
+  /** Profiles of the players — their positions and skill levels feed the balancer */
+  allUsers?: User[];
+  /** Loading of the older events — the balancer rates players from the whole history */
+  history?: HistoryState;
+  onLoadHistory?: () => void;
   onUpdate: (event: SportEvent) => void;
   onScoreReset: () => void;
 }
 
+/** Positions are volleyball's — other sports only use the skill level */
+const POSITION_SPORTS = ['volejbal'];
+
 export function useTeamManagement({
   event,
   joinedParticipants,
   sportConfig,
   allEvents,
+  allUsers = [],
+  history,
+  onLoadHistory,
   onUpdate,
   onScoreReset,
 }: UseTeamManagementProps) {
-  const [editingTeamNameIdx, setEditingTeamNameIdx] = useState<0 | 1 | null>(null);
+  const [editingTeamNameIdx, setEditingTeamNameIdx] = useState<number | null>(null);
   const [tempTeamName, setTempTeamName] = useState('');
 
-  const minPlayersForTeams = sportConfig.teamSize !== null ? sportConfig.teamSize * 2 : 2;
-  const canShuffleTeams = joinedParticipants.length >= minPlayersForTeams;
-
-  const shuffleTeams = async () => {
+  // Ratings from the open calendar page alone would change with the page
+  useEffect(() => {
+    onLoadHistory?.();
+  }, [onLoadHistory]);
+  const historyReady = !history || history.complete;
+
+  // The current split decides, the sport's setting before the first shuffle
+  const teamCount = event.teams?.length || sportConfig.teamCount || 2;
+  const minPlayersFor = (count: number) => sportConfig.teamSize !== null ? sportConfig.teamSize * count : count;
+  const minPlayersForTeams = minPlayersFor(teamCount);
+  const canShuffleTeams = joinedParticipants.length >= minPlayersForTeams && !history?.loading;
+
+  const shuffleTeams = async (count: number = teamCount) => {
+    // A failed history load is retried instead of balancing on part of it
+    if (!historyReady) {
+      onLoadHistory?.();
+      return;
+    }
     const teamSize = sportConfig.teamSize;
 
+    const usesPositions = POSITION_SPORTS.includes(sportConfig.type);
+    const profiles: PlayerProfiles = Object.fromEntries(allUsers.map(u => [u.id, {
+      ...(usesPositions && u.positions && { positions: u.positions }),
+      ...(u.skillLevel !== undefined && { skillLevel: u.skillLevel }),
+    }]));
+
     // Pass current teams so the balancer avoids producing the same split
     const balanced = balanceTeams(joinedParticipants, allEvents, {
       teamSize,
+      teamCount: count,
       previousTeams: event.teams ?? null,
+      profiles,
+      constraints: event.teamConstraints,
+      sportType: sportConfig.type,
     });
 
-    let newTeams: [TeamMember[], TeamMember[]];
+    let newTeams: TeamMember[][];
     if (balanced) {
       newTeams = balanced;
     } else {
       const shuffled = [...joinedParticipants].sort(() => Math.random() - 0.5);
-      if (teamSize !== null) {
-        newTeams = [
-          shuffled.slice(0, teamSize).map(p => ({ userId: p.userId, name: p.name, photoUrl: p.photoUrl })),
-          shuffled.slice(teamSize, teamSize * 2).map(p => ({ userId: p.userId, name: p.name, photoUrl: p.photoUrl })),
-        ];
-      } else {
-        const mid = Math.ceil(shuffled.length / 2);
-        newTeams = [
-          shuffled.slice(0, mid).map(p => ({ userId: p.userId, name: p.name, photoUrl: p.photoUrl })),
-          shuffled.slice(mid).map(p => ({ userId: p.userId, name: p.name, photoUrl: p.photoUrl })),
-        ];
-      }
+      const size = teamSize ?? Math.ceil(shuffled.length / count);
+      newTeams = Array.from({ length: count }, (_, i) =>
+        shuffled.slice(i * size, (i + 1) * size).map(p => ({ userId: p.userId, name: p.name, photoUrl: p.photoUrl })),
+      );
     }
 
-    // If current round has a winner, save it to history before starting new round
+    // If current round has a result, save it to history before starting new round
     const history = [...(event.gameHistory || [])];
-    if (event.teams && event.winningTeam !== undefined) {
-      history.push({ teams: event.teams, teamNames: event.teamNames, winningTeam: event.winningTeam, score: event.score });
-    }
+    const finished = currentRound(event);
+    if (finished) history.push(finished);
 
-    const newTeamNames = pickRandomTeamNames();
+    const newTeamNames = pickRandomTeamNames(count);
     onScoreReset();
-    onUpdate({ ...event, teams: newTeams, teamNames: newTeamNames, winningTeam: undefined, score: undefined, gameHistory: history });
+    onUpdate({
+      ...event,
+      teams: newTeams,
+      teamNames: newTeamNames,
+      winningTeam: undefined,
+      score: undefined,
+      matches: undefined,
+      matchFormat: count > 2 ? event.matchFormat : undefined,
+      gameHistory: history,
+    });
+  };
+
+  const canSplitInto = (count: number) => joinedParticipants.length >= minPlayersFor(count);
+
+  /** Split into a different number of teams — a new round */
+  const changeTeamCount = (count: number) => {
+    if (count === teamCount || !canSplitInto(count)) return;
+    shuffleTeams(count);
+  };
+
+  /** How the teams of this round take turns — the matches played so far stay */
+  const setMatchFormat = (matchFormat: MatchFormat) => {
+    onUpdate({ ...event, matchFormat });
   };
 
-  const setWinner = (teamIdx: 0 | 1) => {
-    onUpdate({ ...event, winningTeam: teamIdx });
+  /** The team that won the match on court — the round's winner when there are two */
+  const setWinner = (teamIdx: number) => {
+    // The next match starts from a blank score
+    if (teamCount > 2) onScoreReset();
+    onUpdate(recordMatchWinner(event, teamIdx));
   };
 
-  const handleStartEditTeamName = (idx: 0 | 1) => {
+  const handleStartEditTeamName = (idx: number) => {
     setEditingTeamNameIdx(idx);
     setTempTeamName(event.teamNames?.[idx] ?? `Tým ${idx + 1}`);
   };
 
   const handleSaveTeamName = () => {
     if (editingTeamNameIdx === null || !event.teamNames) return;
-    const newNames: [string, string] = [...event.teamNames] as [string, string];
+    const newNames = [...event.teamNames];
     newNames[editingTeamNameIdx] = tempTeamName.trim() || newNames[editingTeamNameIdx];
     onUpdate({ ...event, teamNames: newNames });
     setEditingTeamNameIdx(null);
@@ -91,12 +144,12 @@ export function useTeamManagement({
   // Auto-generate/update teams when participants change
   useEffect(() => {
     const hasValidTeams = Array.isArray(event.teams) && event.teams.length >= 2;
-    if (!hasValidTeams && joinedParticipants.length >= minPlayersForTeams) {
+    if (!hasValidTeams && historyReady && joinedParticipants.length >= minPlayersForTeams) {
       shuffleTeams();
     } else if (hasValidTeams) {
       const updatedTeams = updateTeamsForParticipantChange(event.teams!, joinedParticipants, sportConfig);
       if (updatedTeams === null) {
-        onUpdate({ ...event, teams: undefined, teamNames: undefined, winningTeam: undefined });
+        onUpdate({ ...event, teams: undefined, teamNames: undefined, winningTeam: undefined, matches: undefined });
       } else {
         const currentIds = event.teams!.flatMap(t => t.map(m => m.userId)).sort().join(',');
         const newIds = updatedTeams.flatMap(t => t.map(m => m.userId)).sort().join(',');
@@ -105,10 +158,12 @@ export function useTeamManagement({
         }
       }
     }
-  }, [event.id, joinedParticipants.length]);
+  }, [event.id, joinedParticipants.length, historyReady]);
 
   return {
     shuffleTeams,
+    changeTeamCount,
+    setMatchFormat,
     setWinner,
     handleStartEditTeamName,
     handleSaveTeamName,
@@ -118,6 +173,8 @@ export function useTeamManagement({
     setTempTeamName,
     canShuffleTeams,
     minPlayersForTeams,
+    teamCount,
+    canSplitInto,
   };
 }
 
@@ -1,4 +1,4 @@
 // Barrel file — preserves existing import paths
 export { EventDetail } from './EventDetail';
-export { convertToCZIBAN } from '@/utils/iban.ts';
+export { convertToCZIBAN } from '@/shared/iban.ts';
 
@@ -1,50 +1,45 @@
 import { Participant, SportConfig, TeamMember, TEAM_COLOR_NAMES } from '@/types.ts';
 
-/** Pick two random distinct team color names */
-export const pickRandomTeamNames = (): [string, string] => {
+/** Pick random distinct team color names, one per team */
+export const pickRandomTeamNames = (count: number = 2): string[] => {
   const shuffled = [...TEAM_COLOR_NAMES].sort(() => Math.random() - 0.5);
-  return [shuffled[0], shuffled[1]];
+  return shuffled.slice(0, count);
 };
 
 /**
  * Incrementally update existing teams when participants join or leave.
  * - Removes team members who are no longer in the joined list.
- * - Adds new joined participants to the smaller team.
+ * - Adds new joined participants to the smallest team.
  * - Keeps existing assignments stable (no full re-shuffle).
  * Returns null if teams don't exist or there aren't enough players.
  */
 export const updateTeamsForParticipantChange = (
-  currentTeams: [TeamMember[], TeamMember[]] | undefined,
+  currentTeams: TeamMember[][] | undefined,
   newJoined: Participant[],
   sportConfig: SportConfig,
-): [TeamMember[], TeamMember[]] | null => {
+): TeamMember[][] | null => {
   if (!currentTeams) return null;
 
   const joinedIds = new Set(newJoined.map(p => p.userId));
 
   // Remove players who left from their teams
-  let team0 = currentTeams[0].filter(m => joinedIds.has(m.userId));
-  let team1 = currentTeams[1].filter(m => joinedIds.has(m.userId));
+  const teams = currentTeams.map(team => team.filter(m => joinedIds.has(m.userId)));
 
   // Find newly joined players not yet assigned to any team
-  const assignedIds = new Set([...team0, ...team1].map(m => m.userId));
+  const assignedIds = new Set(teams.flat().map(m => m.userId));
   const newPlayers = newJoined.filter(p => !assignedIds.has(p.userId));
 
-  // Add each new player to the smaller team
+  // Add each new player to the smallest team (the first of equals)
   for (const p of newPlayers) {
     const member: TeamMember = { userId: p.userId, name: p.name, photoUrl: p.photoUrl };
-    if (team0.length <= team1.length) {
-      team0 = [...team0, member];
-    } else {
-      team1 = [...team1, member];
-    }
+    const smallest = teams.reduce((min, team, i) => (team.length < teams[min].length ? i : min), 0);
+    teams[smallest] = [...teams[smallest], member];
   }
 
   // If not enough players for teams, clear them
   const teamSize = sportConfig.teamSize;
-  const minPlayers = teamSize !== null ? teamSize * 2 : 2;
-  if (team0.length + team1.length < minPlayers) return null;
+  const minPlayers = teamSize !== null ? teamSize * teams.length : teams.length;
+  if (teams.flat().length < minPlayers) return null;
 
-  return [team0, team1];
+  return teams;
 };
-
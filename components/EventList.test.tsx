@@ -98,6 +98,18 @@ describe('EventList', () => {
     expect(screen.queryByText('Zobrazit nadcházející')).not.toBeInTheDocument();
   });
 
+  it('loads more upcoming events while there are more', async () => {
+    const onLoadMore = vi.fn();
+    const user = userEvent.setup();
+    const { rerender } = render(<EventList {...baseProps} events={[makeEvent('e1', 'Match')]} onLoadMore={onLoadMore} />);
+
+    await user.click(screen.getByText('Načíst další události'));
+    expect(onLoadMore).toHaveBeenCalled();
+
+    rerender(<EventList {...baseProps} events={[makeEvent('e1', 'Match')]} />);
+    expect(screen.queryByText('Načíst další události')).not.toBeInTheDocument();
+  });
+
   describe('Sport Filter', () => {
     it('renders sport filter pills when sportConfigs and onSportFilterChange are provided', () => {
       render(
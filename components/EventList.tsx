@@ -1,7 +1,7 @@
 import React from 'react';
-import { SportEvent, SportConfig, SportType, SPORT_EMOJI } from '../types';
+import { SportEvent, SportConfig, SportType, sportEmoji } from '../types';
 import { EventCard } from './EventCard';
-import { Plus, ListFilter, Calendar as CalendarIcon, ArrowLeft } from 'lucide-react';
+import { Plus, ListFilter, Calendar as CalendarIcon, ArrowLeft, Loader2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { cs } from 'date-fns/locale';
 
@@ -10,9 +10,11 @@ interface EventListProps {
   selectedEventId: string | null;
   selectedDate: Date | null;
   onSelectEvent: (id: string) => void;
-  onDeleteEvent: (id: string) => void;
+  /** Omitted for users who may not delete events */
+  onDeleteEvent?: (id: string) => void;
   onShowUpcoming: () => void;
-  onCreateEvent: () => void;
+  /** Omitted for users who may not create events */
+  onCreateEvent?: () => void;
   /** Show chevron on cards instead of delete button (mobile mode) */
   showChevron?: boolean;
   /** Show the "Přidat" button in the header */
@@ -23,6 +25,9 @@ interface EventListProps {
   sportFilter?: SportType | null;
   /** Callback when sport filter changes */
   onSportFilterChange?: (sport: SportType | null) => void;
+  /** Load the next page of upcoming events — omitted when all are loaded */
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
 }
 
 export const EventList: React.FC<EventListProps> = ({
@@ -38,6 +43,8 @@ export const EventList: React.FC<EventListProps> = ({
   sportConfigs = [],
   sportFilter = null,
   onSportFilterChange,
+  onLoadMore,
+  isLoadingMore = false,
 }) => {
   const isUpcomingMode = selectedDate === null;
 
@@ -75,7 +82,7 @@ export const EventList: React.FC<EventListProps> = ({
           )}
         </div>
 
-        {showAddButton && (
+        {showAddButton && onCreateEvent && (
           <button
             onClick={onCreateEvent}
             className="text-sm text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1 bg-blue-50 px-3 py-1.5 rounded-lg hover:bg-blue-100 transition-colors"
@@ -109,7 +116,7 @@ export const EventList: React.FC<EventListProps> = ({
                   : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'
               }`}
             >
-              <span>{SPORT_EMOJI[config.type] ?? '🏅'}</span>
+              <span>{sportEmoji(config.type, sportConfigs)}</span>
               {config.label}
             </button>
           ))}
@@ -126,12 +133,14 @@ export const EventList: React.FC<EventListProps> = ({
                   ? 'Žádné nadcházející události.'
                   : 'Žádné události pro tento den.'}
             </p>
-            <button
-              onClick={onCreateEvent}
-              className="mt-2 text-blue-600 text-sm hover:underline font-medium"
-            >
-              Vytvořit novou
-            </button>
+            {onCreateEvent && (
+              <button
+                onClick={onCreateEvent}
+                className="mt-2 text-blue-600 text-sm hover:underline font-medium"
+              >
+                Vytvořit novou
+              </button>
+            )}
           </div>
         ) : (
           filteredEvents.map(event => (
@@ -142,9 +151,21 @@ export const EventList: React.FC<EventListProps> = ({
               onSelect={onSelectEvent}
               onDelete={onDeleteEvent}
               showChevron={showChevron}
+              sportConfigs={sportConfigs}
             />
           ))
         )}
+
+        {isUpcomingMode && onLoadMore && (
+          <button
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="w-full py-2 text-sm font-medium text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-60"
+          >
+            {isLoadingMore && <Loader2 size={14} className="animate-spin" />}
+            Načíst další události
+          </button>
+        )}
       </div>
     </div>
   );
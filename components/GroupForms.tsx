@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Loader2, Plus, Ticket, AlertTriangle } from 'lucide-react';
+
+interface GroupFormsProps {
+  onCreate: (name: string) => Promise<void>;
+  onJoin: (inviteCode: string) => Promise<void>;
+}
+
+/** "Create a group" and "join by invite code" forms, shared by the setup screen and settings */
+export const GroupForms: React.FC<GroupFormsProps> = ({ onCreate, onJoin }) => {
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, reset: () => void) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      reset();
+    } catch (err: any) {
+      setError(err.message || 'Akce se nezdařila.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    run(() => onCreate(name.trim()), () => setName(''));
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    run(() => onJoin(code.trim()), () => setCode(''));
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm flex items-center gap-2">
+          <AlertTriangle size={16} />
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-2">
+        <label className="block text-xs font-medium text-slate-600">Založit novou skupinu</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Např. Volejbal Pondělí"
+            className="flex-1 px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-200 focus:border-blue-500 outline-none"
+            data-testid="group-create-name"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !name.trim()}
+            className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1.5 transition-colors"
+            data-testid="group-create-submit"
+          >
+            {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+            Založit
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handleJoin} className="space-y-2">
+        <label className="block text-xs font-medium text-slate-600">Připojit se kódem pozvánky</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Kód z pozvánky"
+            className="flex-1 px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-200 focus:border-blue-500 outline-none"
+            data-testid="group-join-code"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !code.trim()}
+            className="px-3 py-2 bg-slate-700 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:opacity-50 flex items-center gap-1.5 transition-colors"
+            data-testid="group-join-submit"
+          >
+            <Ticket size={14} />
+            Připojit
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
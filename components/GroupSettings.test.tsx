@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { GroupSettings } from './GroupSettings';
+import { Group, User } from '../types';
+
+vi.mock('../services/storage', () => ({
+  rotateInviteCode: vi.fn(),
+  removeGroupMember: vi.fn(),
+}));
+
+import * as storage from '../services/storage';
+
+const organizer: User = { id: 'u1', name: 'Alice', role: 'organizer' };
+const player: User = { id: 'u2', name: 'Bob', role: 'player' };
+const group: Group = { id: 'g1', name: 'Pondělí', inviteCode: 'abc123', role: 'organizer' };
+
+const renderSettings = (currentUser: User, overrides: Partial<React.ComponentProps<typeof GroupSettings>> = {}) =>
+  render(
+    <GroupSettings
+      currentUser={currentUser}
+      group={currentUser.role === 'player' ? { ...group, inviteCode: undefined, role: 'player' } : group}
+      onGroupsChange={vi.fn().mockResolvedValue(undefined)}
+      onCreateGroup={vi.fn()}
+      onJoinGroup={vi.fn()}
+      {...overrides}
+    />
+  );
+
+describe('GroupSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the invite link to organizers', () => {
+    renderSettings(organizer);
+
+    expect(screen.getByTestId('group-settings-name')).toHaveTextContent('Pondělí');
+    expect(screen.getByTestId('group-invite-link')).toHaveValue(`${window.location.origin}${window.location.pathname}?invite=abc123`);
+  });
+
+  it('hides the invite link from players', () => {
+    renderSettings(player);
+
+    expect(screen.queryByTestId('group-invite-link')).not.toBeInTheDocument();
+  });
+
+  it('issues a new invite code and reloads the group', async () => {
+    vi.mocked(storage.rotateInviteCode).mockResolvedValue({ ...group, inviteCode: 'xyz789' });
+    const onGroupsChange = vi.fn().mockResolvedValue(undefined);
+    const user = userEvent.setup();
+    renderSettings(organizer, { onGroupsChange });
+
+    await user.click(screen.getByTestId('group-invite-rotate'));
+
+    expect(storage.rotateInviteCode).toHaveBeenCalled();
+    await waitFor(() => expect(onGroupsChange).toHaveBeenCalledWith('g1'));
+  });
+
+  it('leaves the group after confirmation', async () => {
+    vi.mocked(storage.removeGroupMember).mockResolvedValue();
+    const onGroupsChange = vi.fn().mockResolvedValue(undefined);
+    const user = userEvent.setup();
+    renderSettings(player, { onGroupsChange });
+
+    await user.click(screen.getByTestId('group-leave-btn'));
+    await user.click(screen.getByText('Smazat'));
+
+    expect(storage.removeGroupMember).toHaveBeenCalledWith('u2');
+    await waitFor(() => expect(onGroupsChange).toHaveBeenCalled());
+  });
+
+  it('shows why leaving was rejected', async () => {
+    vi.mocked(storage.removeGroupMember).mockRejectedValue(new Error('Skupina musí mít alespoň jednoho správce.'));
+    const user = userEvent.setup();
+    renderSettings(organizer);
+
+    await user.click(screen.getByTestId('group-leave-btn'));
+    await user.click(screen.getByText('Smazat'));
+
+    expect(await screen.findByText('Skupina musí mít alespoň jednoho správce.')).toBeInTheDocument();
+  });
+});
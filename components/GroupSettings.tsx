@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Group, User } from '../types';
+import * as storage from '../services/storage';
+import { can } from '../utils/permissions';
+import { Users, Copy, Check, RefreshCw, LogOut, AlertTriangle } from 'lucide-react';
+import { ConfirmModal } from './ConfirmModal';
+import { GroupForms } from './GroupForms';
+
+interface GroupSettingsProps {
+  currentUser: User;
+  group: Group;
+  /** Reload the group list, optionally switching to the given group */
+  onGroupsChange: (groupId?: string) => Promise<void>;
+  onCreateGroup: (name: string) => Promise<void>;
+  onJoinGroup: (inviteCode: string) => Promise<void>;
+}
+
+const inviteLink = (code: string): string =>
+  `${window.location.origin}${window.location.pathname}?invite=${encodeURIComponent(code)}`;
+
+/** Settings section "Skupina": invite link, leaving the group, creating or joining another */
+export const GroupSettings: React.FC<GroupSettingsProps> = ({
+  currentUser,
+  group,
+  onGroupsChange,
+  onCreateGroup,
+  onJoinGroup,
+}) => {
+  const [isCopied, setIsCopied] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLeaveConfirmOpen, setIsLeaveConfirmOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canInvite = can(currentUser, 'group:invite') && group.inviteCode;
+
+  const handleCopy = async () => {
+    if (!group.inviteCode) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink(group.inviteCode));
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleRotate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await storage.rotateInviteCode();
+      await onGroupsChange(group.id);
+    } catch (err: any) {
+      setError(err.message || 'Nepodařilo se vytvořit nový odkaz.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    setIsLeaveConfirmOpen(false);
+    setIsSaving(true);
+    setError(null);
+    try {
+      await storage.removeGroupMember(currentUser.id);
+      await onGroupsChange();
+    } catch (err: any) {
+      setError(err.message || 'Skupinu se nepodařilo opustit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div data-testid="group-settings">
+      <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3 flex items-center gap-2">
+        <Users size={16} className="text-indigo-500" />
+        Skupina
+      </h4>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm flex items-center gap-2">
+          <AlertTriangle size={16} />
+          {error}
+        </div>
+      )}
+
+      <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="font-semibold text-slate-800 truncate" data-testid="group-settings-name">{group.name}</p>
+          <button
+            onClick={() => setIsLeaveConfirmOpen(true)}
+            disabled={isSaving}
+            className="text-xs text-slate-400 hover:text-red-600 flex items-center gap-1 transition-colors shrink-0"
+            data-testid="group-leave-btn"
+          >
+            <LogOut size={12} />
+            Opustit skupinu
+          </button>
+        </div>
+
+        {canInvite && (
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Odkaz pro pozvání hráčů</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={inviteLink(group.inviteCode!)}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-3 py-2 bg-white text-slate-700 border border-slate-300 rounded-lg text-xs font-mono outline-none"
+                data-testid="group-invite-link"
+              />
+              <button
+                onClick={handleCopy}
+                className="px-2.5 py-2 bg-white border border-slate-300 rounded-lg text-slate-500 hover:text-blue-600 transition-colors"
+                title="Kopírovat odkaz"
+                data-testid="group-invite-copy"
+              >
+                {isCopied ? <Check size={14} className="text-green-600" /> : <Copy size={14} />}
+              </button>
+              <button
+                onClick={handleRotate}
+                disabled={isSaving}
+                className="px-2.5 py-2 bg-white border border-slate-300 rounded-lg text-slate-500 hover:text-amber-600 transition-colors disabled:opacity-50"
+                title="Vytvořit nový odkaz (starý přestane platit)"
+                data-testid="group-invite-rotate"
+              >
+                <RefreshCw size={14} />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4">
+        <GroupForms onCreate={onCreateGroup} onJoin={onJoinGroup} />
+      </div>
+
+      <ConfirmModal
+        isOpen={isLeaveConfirmOpen}
+        title="Opustit skupinu?"
+        message={`Opravdu chcete opustit skupinu ${group.name}? Zpět se dostanete jen s novou pozvánkou.`}
+        onConfirm={handleLeave}
+        onCancel={() => setIsLeaveConfirmOpen(false)}
+      />
+    </div>
+  );
+};
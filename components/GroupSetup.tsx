@@ -0,0 +1,48 @@
+import React from 'react';
+import { Trophy, LogOut, AlertTriangle } from 'lucide-react';
+import { User } from '../types';
+import { GroupForms } from './GroupForms';
+
+interface GroupSetupProps {
+  currentUser: User;
+  onCreate: (name: string) => Promise<void>;
+  onJoin: (inviteCode: string) => Promise<void>;
+  onLogout: () => void;
+  /** Why a pending invite link could not be accepted */
+  inviteError?: string | null;
+}
+
+/** Shown after login to users who are not a member of any group yet */
+export const GroupSetup: React.FC<GroupSetupProps> = ({ currentUser, onCreate, onJoin, onLogout, inviteError }) => (
+  <div className="min-h-screen bg-slate-100 md:flex md:items-center md:justify-center md:p-4" data-testid="group-setup">
+    <div className="bg-white md:rounded-2xl shadow-xl w-full md:max-w-md overflow-hidden min-h-screen md:min-h-0">
+      <div className="bg-blue-600 px-6 py-4 text-white flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-white/20 rounded-full shrink-0">
+            <Trophy size={24} />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold leading-tight">Ahoj, {currentUser.name}</h1>
+            <p className="text-blue-100 text-sm">Zatím nejste v žádné skupině.</p>
+          </div>
+        </div>
+        <button onClick={onLogout} className="bg-white/20 p-2 rounded-full hover:bg-white/30 transition-colors" title="Odhlásit">
+          <LogOut size={18} />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {inviteError && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-700 text-sm flex items-center gap-2">
+            <AlertTriangle size={16} />
+            {inviteError}
+          </div>
+        )}
+        <p className="text-sm text-slate-600">
+          Založte skupinu pro svůj tým, nebo se připojte ke stávající pomocí kódu, který vám poslal organizátor.
+        </p>
+        <GroupForms onCreate={onCreate} onJoin={onJoin} />
+      </div>
+    </div>
+  </div>
+);
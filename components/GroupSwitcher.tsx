@@ -0,0 +1,48 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { Group } from '../types';
+
+interface GroupSwitcherProps {
+  groups: Group[];
+  activeGroupId: string;
+  onSelect: (groupId: string) => void;
+  /** Light text for the blue mobile header */
+  variant?: 'light' | 'dark';
+}
+
+/** Active group name — a select when the user belongs to more than one group */
+export const GroupSwitcher: React.FC<GroupSwitcherProps> = ({
+  groups,
+  activeGroupId,
+  onSelect,
+  variant = 'dark',
+}) => {
+  const textClass = variant === 'light' ? 'text-white/90' : 'text-slate-500';
+  const active = groups.find(g => g.id === activeGroupId);
+
+  if (groups.length <= 1) {
+    return (
+      <span className={`flex items-center gap-1 text-xs font-medium truncate ${textClass}`} data-testid="group-name">
+        <Users size={12} />
+        {active?.name}
+      </span>
+    );
+  }
+
+  return (
+    <label className={`flex items-center gap-1 text-xs font-medium ${textClass}`}>
+      <Users size={12} />
+      <select
+        value={activeGroupId}
+        onChange={(e) => onSelect(e.target.value)}
+        className={`bg-transparent outline-none cursor-pointer max-w-[160px] truncate ${variant === 'light' ? '[&>option]:text-slate-900' : ''}`}
+        aria-label="Skupina"
+        data-testid="group-switcher"
+      >
+        {groups.map(group => (
+          <option key={group.id} value={group.id}>{group.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -10,6 +10,7 @@ vi.mock('../services/storage', () => ({
   getUsers: vi.fn(),
   createUser: vi.fn(),
   deleteUser: vi.fn(),
+  login: vi.fn(),
 }));
 
 describe('LoginScreen - Photo Upload Feature', () => {
@@ -17,7 +18,6 @@ describe('LoginScreen - Photo Upload Feature', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    vi.mocked(storage.getUsers).mockResolvedValue([]);
   });
 
   it('displays photo upload area in create user form', async () => {
@@ -35,6 +35,7 @@ describe('LoginScreen - Photo Upload Feature', () => {
   it('creates user without photo', async () => {
     const mockUser: User = { id: '1', name: 'Test User' };
     vi.mocked(storage.createUser).mockResolvedValue(mockUser);
+    vi.mocked(storage.login).mockResolvedValue({ user: mockUser, token: 'tok' });
 
     const user = userEvent.setup();
     render(<LoginScreen onLogin={mockOnLogin} />);
@@ -45,36 +46,34 @@ describe('LoginScreen - Photo Upload Feature', () => {
 
     const input = screen.getByPlaceholderText('Vaše jméno...');
     await user.type(input, 'Test User');
+    await user.type(screen.getByPlaceholderText('PIN'), '1234');
 
     const createBtn = screen.getByText('Vytvořit');
     await user.click(createBtn);
 
     await waitFor(() => {
-      expect(storage.createUser).toHaveBeenCalledWith('Test User', undefined);
-      expect(mockOnLogin).toHaveBeenCalledWith(mockUser);
+      expect(storage.createUser).toHaveBeenCalledWith('Test User', undefined, '1234');
+      expect(storage.login).toHaveBeenCalledWith('Test User', '1234');
+      expect(mockOnLogin).toHaveBeenCalledWith({ user: mockUser, token: 'tok' });
     });
   });
 
-  it('displays users with photos correctly', async () => {
-    const usersWithPhotos: User[] = [
-      { id: '1', name: 'User With Photo', photoUrl: 'data:image/png;base64,test' },
-      { id: '2', name: 'User Without Photo' },
-    ];
-    vi.mocked(storage.getUsers).mockResolvedValue(usersWithPhotos);
-
+  it('rejects a PIN shorter than 4 digits when creating user', async () => {
+    const user = userEvent.setup();
     render(<LoginScreen onLogin={mockOnLogin} />);
 
     await waitFor(() => {
-      expect(screen.getByText('User With Photo')).toBeInTheDocument();
-      expect(screen.getByText('User Without Photo')).toBeInTheDocument();
+      expect(screen.getByText('Vítejte v Sport Plánovači')).toBeInTheDocument();
     });
 
-    // User with photo should have img element
-    const imgElements = screen.getAllByRole('img');
-    expect(imgElements.some(img => img.getAttribute('alt') === 'User With Photo')).toBe(true);
+    await user.type(screen.getByPlaceholderText('Vaše jméno...'), 'Test User');
+    await user.type(screen.getByPlaceholderText('PIN'), '12');
+    await user.click(screen.getByText('Vytvořit'));
 
-    // User without photo should display initial
-    expect(screen.getByText('U')).toBeInTheDocument(); // First letter of "User Without Photo"
+    await waitFor(() => {
+      expect(screen.getByText('PIN musí mít 4 až 8 číslic.')).toBeInTheDocument();
+    });
+    expect(storage.createUser).not.toHaveBeenCalled();
   });
 
   it('shows file size validation error', async () => {
@@ -97,48 +96,70 @@ describe('LoginScreen - Photo Upload Feature', () => {
       expect(screen.getByText(/příliš velký/i)).toBeInTheDocument();
     });
   });
+});
+
+describe('LoginScreen - PIN login', () => {
+  const mockOnLogin = vi.fn();
+  const alice: User = { id: '1', name: 'Alice' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const fillLogin = async (user: ReturnType<typeof userEvent.setup>, name: string, pin: string) => {
+    await user.type(screen.getByPlaceholderText('Jméno profilu'), name);
+    await user.type(screen.getByPlaceholderText('Zadejte PIN'), pin);
+    await user.click(screen.getByText('Přihlásit'));
+  };
 
-  it('displays initials for users without photos', async () => {
-    const users: User[] = [
-      { id: '1', name: 'Alice' },
-      { id: '2', name: 'Bob' },
-    ];
-    vi.mocked(storage.getUsers).mockResolvedValue(users);
+  it('does not list any accounts', () => {
+    render(<LoginScreen onLogin={mockOnLogin} />);
+
+    expect(screen.queryByPlaceholderText('Hledat hráče...')).not.toBeInTheDocument();
+    expect(storage.getUsers).not.toHaveBeenCalled();
+  });
 
+  it('logs in with the profile name and PIN', async () => {
+    vi.mocked(storage.login).mockResolvedValue({ user: alice, token: 'tok' });
+    const user = userEvent.setup();
     render(<LoginScreen onLogin={mockOnLogin} />);
 
+    await fillLogin(user, 'Alice', '4321');
+
     await waitFor(() => {
-      expect(screen.getByText('Alice')).toBeInTheDocument();
-      expect(screen.getByText('Bob')).toBeInTheDocument();
+      expect(storage.login).toHaveBeenCalledWith('Alice', '4321', undefined);
+      expect(mockOnLogin).toHaveBeenCalledWith({ user: alice, token: 'tok' });
     });
-
-    // Check that initials are displayed
-    expect(screen.getByText('A')).toBeInTheDocument();
-    expect(screen.getByText('B')).toBeInTheDocument();
   });
 
-  it('search functionality works with photo users', async () => {
-    const users: User[] = [
-      { id: '1', name: 'Šimon', photoUrl: 'data:image/png;base64,test' },
-      { id: '2', name: 'Petr' },
-    ];
-    vi.mocked(storage.getUsers).mockResolvedValue(users);
-
+  it('shows the server error and clears the PIN on failed login', async () => {
+    vi.mocked(storage.login).mockRejectedValue(new Error('Nesprávný PIN.'));
     const user = userEvent.setup();
     render(<LoginScreen onLogin={mockOnLogin} />);
 
+    await fillLogin(user, 'Alice', '0000');
+
     await waitFor(() => {
-      expect(screen.getByText('Šimon')).toBeInTheDocument();
-      expect(screen.getByText('Petr')).toBeInTheDocument();
+      expect(screen.getByText('Nesprávný PIN.')).toBeInTheDocument();
     });
+    expect(screen.getByPlaceholderText('Zadejte PIN')).toHaveValue('');
+    expect(mockOnLogin).not.toHaveBeenCalled();
+  });
+
+  it('takes the setup code from an admin for a profile without a PIN', async () => {
+    vi.mocked(storage.login).mockResolvedValueOnce({ user: alice, token: 'tok' });
+    const user = userEvent.setup();
+    render(<LoginScreen onLogin={mockOnLogin} />);
 
-    const searchInput = screen.getByPlaceholderText('Hledat hráče...');
-    await user.type(searchInput, 'simon');
+    await user.click(screen.getByText('Mám kód od správce'));
+    await user.type(screen.getByPlaceholderText('Jméno profilu'), 'Alice');
+    await user.type(screen.getByTestId('setup-code-input'), '12345678');
+    await user.type(screen.getByPlaceholderText('Nový PIN'), '4321');
+    await user.click(screen.getByText('Přihlásit'));
 
     await waitFor(() => {
-      expect(screen.getByText('Šimon')).toBeInTheDocument();
-      expect(screen.queryByText('Petr')).not.toBeInTheDocument();
+      expect(storage.login).toHaveBeenLastCalledWith('Alice', '4321', '12345678');
+      expect(mockOnLogin).toHaveBeenCalledWith({ user: alice, token: 'tok' });
     });
   });
 });
-
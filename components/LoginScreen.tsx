@@ -1,39 +1,27 @@
-import React, { useState, useEffect } from 'react';
-import { User } from '../types';
+import React, { useState } from 'react';
+import { AuthSession, PIN_PATTERN, SETUP_CODE_PATTERN } from '../types';
 import * as storage from '../services/storage';
-import { UserPlus, Trophy, Trash2, Loader2, Search } from 'lucide-react';
-import { ConfirmModal } from './ConfirmModal';
+import { UserPlus, Trophy, Loader2, KeyRound, Ticket, UserRound } from 'lucide-react';
 
 interface LoginScreenProps {
-  onLogin: (user: User) => void;
+  onLogin: (session: AuthSession) => void;
 }
 
 export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
-  const [users, setUsers] = useState<User[]>([]);
   const [newName, setNewName] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [newPin, setNewPin] = useState('');
 
-  // State for deleting user
-  const [userToDelete, setUserToDelete] = useState<User | null>(null);
-
-  const loadUsers = async () => {
-    setIsLoading(true);
-    try {
-      const data = await storage.getUsers();
-      setUsers(data);
-    } catch (_e) {
-      setError("Nepodařilo se načíst uživatele.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadUsers();
-  }, []);
+  // Login by name — accounts of other groups are never listed
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [loginError, setLoginError] = useState<string | null>(null);
+  // A profile without a PIN sets its first one with a code from a group admin —
+  // the user says so, the API never tells which profiles have a PIN
+  const [needsSetupCode, setNeedsSetupCode] = useState(false);
+  const [setupCode, setSetupCode] = useState('');
 
   const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -58,14 +46,19 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
     setError(null);
     
     if (!newName.trim()) return;
+    if (!PIN_PATTERN.test(newPin)) {
+      setError('PIN musí mít 4 až 8 číslic.');
+      return;
+    }
 
     setIsLoading(true);
     try {
-      const newUser = await storage.createUser(newName, photoPreview || undefined);
-      setUsers(prev => [...prev, newUser]);
+      const newUser = await storage.createUser(newName, photoPreview || undefined, newPin);
+      const session = await storage.login(newUser.name, newPin);
       setNewName('');
+      setNewPin('');
       setPhotoPreview(null);
-      onLogin(newUser);
+      onLogin(session);
     } catch (err: any) {
       setError(err.message || 'Chyba při vytváření uživatele.');
     } finally {
@@ -73,35 +66,30 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
     }
   };
 
-  const confirmDeleteUser = async () => {
-    if (userToDelete) {
-      setIsLoading(true);
-      try {
-        await storage.deleteUser(userToDelete.id);
-        setUsers(prev => prev.filter(u => u.id !== userToDelete.id));
-        setUserToDelete(null);
-      } catch (_e) {
-        setError("Chyba při mazání uživatele.");
-      } finally {
-        setIsLoading(false);
-      }
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    if (!PIN_PATTERN.test(pin)) {
+      setLoginError('PIN musí mít 4 až 8 číslic.');
+      return;
+    }
+    if (needsSetupCode && !SETUP_CODE_PATTERN.test(setupCode)) {
+      setLoginError('Kód pro nastavení PINu má 8 číslic.');
+      return;
     }
-  };
 
-  // Normalize string to remove diacritics for search
-  const normalizeString = (str: string): string => {
-    return str.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    setIsLoading(true);
+    setLoginError(null);
+    try {
+      onLogin(await storage.login(name.trim(), pin, needsSetupCode ? setupCode : undefined));
+    } catch (err: any) {
+      setLoginError(err.message || 'Přihlášení se nezdařilo.');
+      setPin('');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  // Filter users by search (server already returns sorted order)
-  const filteredUsers = users
-    .filter(user => {
-      if (!searchQuery.trim()) return true;
-      const normalizedName = normalizeString(user.name);
-      const normalizedQuery = normalizeString(searchQuery);
-      return normalizedName.includes(normalizedQuery);
-    });
-
   return (
     <div className="min-h-screen bg-slate-100 md:flex md:items-center md:justify-center md:p-4">
       <div className="bg-white md:rounded-2xl shadow-xl w-full md:max-w-2xl overflow-hidden relative min-h-screen md:min-h-0">
@@ -122,69 +110,81 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
         </div>
 
         <div className="p-6 md:p-8">
-          {/* User List */}
-          <div className="mb-6">
-             <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Vyberte svůj profil</h2>
+          {/* Login */}
+          <form onSubmit={handleLogin} className="mb-6">
+            <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Přihlášení</h2>
 
-             {/* Search Bar */}
-             <div className="relative mb-3">
-               <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
-               <input
-                 type="text"
-                 value={searchQuery}
-                 onChange={(e) => setSearchQuery(e.target.value)}
-                 placeholder="Hledat hráče..."
-                 className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-               />
-             </div>
+            <div className="space-y-3">
+              <div className="relative">
+                <UserRound className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                <input
+                  type="text"
+                  autoComplete="username"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Jméno profilu"
+                  className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
 
-             <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-[50vh] md:max-h-80 overflow-y-auto custom-scrollbar">
-               {filteredUsers.map(user => (
-                 <div key={user.id} className="relative group">
-                   <button
-                     onClick={() => onLogin(user)}
-                     className="w-full flex items-center gap-3 p-3 rounded-lg border border-slate-200 hover:border-blue-500 hover:bg-blue-50 transition-all text-left pr-10"
-                   >
-                     {user.photoUrl ? (
-                       <img
-                         src={user.photoUrl}
-                         alt={user.name}
-                         className="w-8 h-8 md:w-10 md:h-10 rounded-full object-cover shrink-0"
-                       />
-                     ) : (
-                       <div className="w-8 h-8 md:w-10 md:h-10 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center font-bold text-sm group-hover:bg-blue-200 group-hover:text-blue-700 shrink-0">
-                         {user.name.charAt(0).toUpperCase()}
-                       </div>
-                     )}
-                     <span className="font-medium text-slate-700 group-hover:text-blue-900 truncate">{user.name}</span>
-                   </button>
-                   
-                   <button
-                     onClick={(e) => {
-                       e.stopPropagation();
-                       setUserToDelete(user);
-                     }}
-                     className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-full opacity-0 group-hover:opacity-100 transition-all"
-                     title="Smazat uživatele"
-                   >
-                     <Trash2 size={16} />
-                   </button>
-                 </div>
-               ))}
+              {needsSetupCode && (
+                <div className="relative">
+                  <Ticket className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={setupCode}
+                    onChange={(e) => setSetupCode(e.target.value.replace(/\D/g, ''))}
+                    placeholder="Kód od správce"
+                    maxLength={8}
+                    className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    data-testid="setup-code-input"
+                  />
+                </div>
+              )}
 
-               {!isLoading && filteredUsers.length === 0 && users.length > 0 && (
-                 <div className="col-span-2 md:col-span-3 text-center text-slate-400 text-sm py-4 italic">
-                   Žádný hráč nenalezen.
-                 </div>
-               )}
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete={needsSetupCode ? 'new-password' : 'current-password'}
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder={needsSetupCode ? 'Nový PIN' : 'Zadejte PIN'}
+                  maxLength={8}
+                  className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              {needsSetupCode
+                ? 'Zadejte kód, který vám vydal správce skupiny, a zvolte si PIN. '
+                : 'Nemáte ještě PIN? Kód pro jeho nastavení vám vydá správce skupiny. '}
+              <button
+                type="button"
+                onClick={() => { setNeedsSetupCode(!needsSetupCode); setSetupCode(''); setLoginError(null); }}
+                className="text-blue-600 hover:underline"
+              >
+                {needsSetupCode ? 'Přihlásit se PINem' : 'Mám kód od správce'}
+              </button>
+            </p>
 
-               {!isLoading && users.length === 0 && (
-                 <div className="col-span-2 md:col-span-3 text-center text-slate-400 text-sm py-4 italic">
-                   Zatím žádní uživatelé. Vytvořte prvního.
-                 </div>
-               )}
-             </div>
-          </div>
+            <button
+              type="submit"
+              disabled={!name.trim() || !pin || isLoading}
+              className="mt-3 w-full bg-blue-600 text-white py-2 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              Přihlásit
+            </button>
+            {loginError && (
+              <p className="text-red-500 text-sm mt-3 flex items-center gap-1">
+                <span className="inline-block w-1.5 h-1.5 bg-red-500 rounded-full"></span>
+                {loginError}
+              </p>
+            )}
+          </form>
 
           <div className="relative">
              <div className="absolute inset-0 flex items-center">
@@ -234,9 +234,19 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
                 placeholder="Vaše jméno..."
                 className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                value={newPin}
+                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+                placeholder="PIN"
+                maxLength={8}
+                className="w-24 px-3 py-2 border border-slate-300 rounded-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
               <button 
                 type="submit"
-                disabled={!newName.trim() || isLoading}
+                disabled={!newName.trim() || !newPin || isLoading}
                 className="bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900 disabled:opacity-50 transition-colors flex items-center gap-2"
               >
                 <UserPlus size={18} />
@@ -252,15 +262,6 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
           </form>
         </div>
       </div>
-
-      {/* Delete Confirmation Modal */}
-      <ConfirmModal 
-        isOpen={!!userToDelete}
-        title="Smazat uživatele?"
-        message={`Opravdu chcete smazat uživatele "${userToDelete?.name}"? Tímto krokem smažete i jeho historii účasti na všech akcích.`}
-        onConfirm={confirmDeleteUser}
-        onCancel={() => setUserToDelete(null)}
-      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemberManagement } from './MemberManagement';
+import { User } from '../types';
+
+vi.mock('../services/storage', () => ({
+  updateMemberRole: vi.fn(),
+  removeGroupMember: vi.fn(),
+  issueSetupCode: vi.fn(),
+}));
+
+import * as storage from '../services/storage';
+
+const admin: User = { id: 'u1', name: 'Alice', role: 'admin' };
+const player: User = { id: 'u2', name: 'Bob' };
+
+describe('MemberManagement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists members with their roles, defaulting to player', () => {
+    render(<MemberManagement currentUser={admin} users={[admin, player]} onUsersChange={vi.fn()} />);
+
+    expect(screen.getByTestId('member-role-u1')).toHaveValue('admin');
+    expect(screen.getByTestId('member-role-u2')).toHaveValue('player');
+  });
+
+  it('does not offer removing yourself', () => {
+    render(<MemberManagement currentUser={admin} users={[admin, player]} onUsersChange={vi.fn()} />);
+
+    expect(screen.queryByTestId('member-delete-u1')).not.toBeInTheDocument();
+    expect(screen.getByTestId('member-delete-u2')).toBeInTheDocument();
+  });
+
+  it('changes a role and reloads users', async () => {
+    vi.mocked(storage.updateMemberRole).mockResolvedValue();
+    const onUsersChange = vi.fn();
+    const user = userEvent.setup();
+    render(<MemberManagement currentUser={admin} users={[admin, player]} onUsersChange={onUsersChange} />);
+
+    await user.selectOptions(screen.getByTestId('member-role-u2'), 'treasurer');
+
+    expect(storage.updateMemberRole).toHaveBeenCalledWith('u2', 'treasurer');
+    await waitFor(() => expect(onUsersChange).toHaveBeenCalled());
+  });
+
+  it('shows the server error when a role change is rejected', async () => {
+    vi.mocked(storage.updateMemberRole).mockRejectedValue(new Error('Skupina musí mít alespoň jednoho správce.'));
+    const user = userEvent.setup();
+    render(<MemberManagement currentUser={admin} users={[admin, player]} onUsersChange={vi.fn()} />);
+
+    await user.selectOptions(screen.getByTestId('member-role-u1'), 'player');
+
+    expect(await screen.findByText('Skupina musí mít alespoň jednoho správce.')).toBeInTheDocument();
+  });
+
+  it('removes another member from the group after confirmation', async () => {
+    vi.mocked(storage.removeGroupMember).mockResolvedValue();
+    const onUsersChange = vi.fn();
+    const user = userEvent.setup();
+    render(<MemberManagement currentUser={admin} users={[admin, player]} onUsersChange={onUsersChange} />);
+
+    await user.click(screen.getByTestId('member-delete-u2'));
+    await user.click(screen.getByText('Smazat'));
+
+    expect(storage.removeGroupMember).toHaveBeenCalledWith('u2');
+    await waitFor(() => expect(onUsersChange).toHaveBeenCalled());
+  });
+
+  it('issues a PIN setup code for another member and shows it once', async () => {
+    vi.mocked(storage.issueSetupCode).mockResolvedValue('12345678');
+    const user = userEvent.setup();
+    render(<MemberManagement currentUser={admin} users={[admin, player]} onUsersChange={vi.fn()} />);
+
+    expect(screen.queryByTestId('member-setup-code-u1')).not.toBeInTheDocument();
+    await user.click(screen.getByTestId('member-setup-code-u2'));
+
+    expect(storage.issueSetupCode).toHaveBeenCalledWith('u2');
+    expect(await screen.findByTestId('setup-code-issued')).toHaveTextContent('Bob');
+    expect(screen.getByTestId('setup-code-issued')).toHaveTextContent('12345678');
+  });
+});
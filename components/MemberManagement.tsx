@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { User, UserRole } from '../types';
+import * as storage from '../services/storage';
+import { ROLE_LABELS, getRole } from '../utils/permissions';
+import { ROLES } from '../shared/permissions';
+import { ShieldCheck, Trash2, AlertTriangle, KeyRound } from 'lucide-react';
+import { ConfirmModal } from './ConfirmModal';
+
+interface MemberManagementProps {
+  currentUser: User;
+  users: User[];
+  /** Called after a role change or removal so the parent can reload members */
+  onUsersChange: () => void;
+}
+
+/** Admin-only settings section: assign group roles, issue PIN setup codes and remove other members */
+export const MemberManagement: React.FC<MemberManagementProps> = ({
+  currentUser,
+  users,
+  onUsersChange,
+}) => {
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The code is shown once — the server keeps only its hash
+  const [issuedCode, setIssuedCode] = useState<{ name: string; code: string } | null>(null);
+
+  const handleIssueSetupCode = async (user: User) => {
+    setSavingUserId(user.id);
+    setError(null);
+    setIssuedCode(null);
+    try {
+      setIssuedCode({ name: user.name, code: await storage.issueSetupCode(user.id) });
+    } catch (err: any) {
+      setError(err.message || 'Kód se nepodařilo vydat.');
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const handleRoleChange = async (user: User, role: UserRole) => {
+    setSavingUserId(user.id);
+    setError(null);
+    try {
+      await storage.updateMemberRole(user.id, role);
+      onUsersChange();
+    } catch (err: any) {
+      setError(err.message || 'Chyba při změně role.');
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!userToDelete) return;
+    const user = userToDelete;
+    setUserToDelete(null);
+    setSavingUserId(user.id);
+    setError(null);
+    try {
+      await storage.removeGroupMember(user.id);
+      onUsersChange();
+    } catch (err: any) {
+      setError(err.message || 'Chyba při odebírání člena.');
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  return (
+    <div data-testid="member-management">
+      <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3 flex items-center gap-2">
+        <ShieldCheck size={16} className="text-emerald-500" />
+        Členové a role
+      </h4>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm flex items-center gap-2">
+          <AlertTriangle size={16} />
+          {error}
+        </div>
+      )}
+
+      {issuedCode && (
+        <div className="mb-3 p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-emerald-800 text-sm" data-testid="setup-code-issued">
+          Kód pro nastavení PINu ({issuedCode.name}): <span className="font-mono font-bold tracking-widest">{issuedCode.code}</span>
+          <p className="text-xs text-emerald-700 mt-1">Platí týden a jen pro první přihlášení. Předejte ho členovi osobně.</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {users.map(user => {
+          const isMe = user.id === currentUser.id;
+          return (
+            <div
+              key={user.id}
+              className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 flex items-center justify-between gap-2"
+              data-testid={`member-${user.id}`}
+            >
+              <span className="text-sm font-medium text-slate-800 truncate">
+                {user.name}
+                {isMe && <span className="text-xs text-slate-400 font-normal"> (vy)</span>}
+              </span>
+              <div className="flex items-center gap-1 shrink-0">
+                <select
+                  value={getRole(user)}
+                  onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                  disabled={savingUserId === user.id}
+                  className="px-2 py-1 bg-white text-slate-900 border border-slate-300 rounded text-xs focus:ring-1 focus:ring-blue-200 outline-none"
+                  data-testid={`member-role-${user.id}`}
+                >
+                  {ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                {!isMe && (
+                  <button
+                    onClick={() => handleIssueSetupCode(user)}
+                    disabled={savingUserId === user.id}
+                    className="text-slate-400 hover:text-emerald-600 p-1 rounded transition-colors"
+                    title="Vydat kód pro nastavení PINu"
+                    data-testid={`member-setup-code-${user.id}`}
+                  >
+                    <KeyRound size={14} />
+                  </button>
+                )}
+                {!isMe && (
+                  <button
+                    onClick={() => setUserToDelete(user)}
+                    disabled={savingUserId === user.id}
+                    className="text-slate-400 hover:text-red-600 p-1 rounded transition-colors"
+                    title="Odebrat člena"
+                    data-testid={`member-delete-${user.id}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <ConfirmModal
+        isOpen={!!userToDelete}
+        title="Odebrat člena?"
+        message={`Opravdu chcete odebrat ${userToDelete?.name ?? ''} ze skupiny? Jeho účet i historie účasti zůstanou zachovány.`}
+        onConfirm={handleRemove}
+        onCancel={() => setUserToDelete(null)}
+      />
+    </div>
+  );
+};
@@ -54,6 +54,14 @@ describe('MobileBottomNav', () => {
     expect(onNavigate).toHaveBeenCalledWith('stats');
   });
 
+  it('calls onNavigate("tournaments") when tournaments tab is clicked', async () => {
+    const onNavigate = vi.fn();
+    const user = userEvent.setup();
+    render(<MobileBottomNav {...baseProps} onNavigate={onNavigate} />);
+    await user.click(screen.getByTestId('nav-tournaments'));
+    expect(onNavigate).toHaveBeenCalledWith('tournaments');
+  });
+
   it('calls onOpenSettings when settings tab is clicked (not onNavigate)', async () => {
     const onNavigate = vi.fn();
     const onOpenSettings = vi.fn();
@@ -71,5 +79,10 @@ describe('MobileBottomNav', () => {
     await user.click(screen.getByTestId('nav-create'));
     expect(onCreateEvent).toHaveBeenCalled();
   });
-});
 
+  it('hides the create tab when onCreateEvent is not provided', () => {
+    render(<MobileBottomNav {...baseProps} onCreateEvent={undefined} />);
+    expect(screen.queryByTestId('nav-create')).not.toBeInTheDocument();
+    expect(screen.getByTestId('nav-settings')).toBeInTheDocument();
+  });
+});
@@ -1,13 +1,14 @@
 import React from 'react';
-import { Calendar, BarChart3, Settings, PlusCircle } from 'lucide-react';
+import { Calendar, BarChart3, Settings, PlusCircle, Medal } from 'lucide-react';
 
-export type MobileView = 'calendar' | 'detail' | 'stats' | 'changelog';
+export type MobileView = 'calendar' | 'detail' | 'stats' | 'tournaments' | 'changelog';
 
 interface MobileBottomNavProps {
   activeView: MobileView;
   onNavigate: (view: MobileView) => void;
   onOpenSettings: () => void;
-  onCreateEvent: () => void;
+  /** Omitted for users who may not create events — the tab is hidden */
+  onCreateEvent?: () => void;
 }
 
 export const MobileBottomNav: React.FC<MobileBottomNavProps> = ({
@@ -21,7 +22,7 @@ export const MobileBottomNav: React.FC<MobileBottomNavProps> = ({
       data-testid="mobile-bottom-nav"
       className="md:hidden fixed bottom-0 left-0 right-0 z-50 bg-white border-t border-slate-200 shadow-[0_-2px_10px_rgba(0,0,0,0.06)]"
     >
-      <div className="grid grid-cols-4 h-16 max-w-md mx-auto relative">
+      <div className={`grid ${onCreateEvent ? 'grid-cols-5' : 'grid-cols-4'} h-16 max-w-md mx-auto relative`}>
         {/* Calendar Tab */}
         <button
           data-testid="nav-calendar"
@@ -35,14 +36,16 @@ export const MobileBottomNav: React.FC<MobileBottomNavProps> = ({
         </button>
 
         {/* Add Event Tab */}
-        <button
-          data-testid="nav-create"
-          onClick={onCreateEvent}
-          className="flex flex-col items-center justify-center gap-0.5 transition-colors duration-200 text-slate-400 active:text-blue-600"
-        >
-          <PlusCircle size={22} />
-          <span className="text-[10px] font-medium">Přidat</span>
-        </button>
+        {onCreateEvent && (
+          <button
+            data-testid="nav-create"
+            onClick={onCreateEvent}
+            className="flex flex-col items-center justify-center gap-0.5 transition-colors duration-200 text-slate-400 active:text-blue-600"
+          >
+            <PlusCircle size={22} />
+            <span className="text-[10px] font-medium">Přidat</span>
+          </button>
+        )}
 
         {/* Stats Tab */}
         <button
@@ -56,6 +59,18 @@ export const MobileBottomNav: React.FC<MobileBottomNavProps> = ({
           <span className="text-[10px] font-medium">Statistiky</span>
         </button>
 
+        {/* Tournaments Tab */}
+        <button
+          data-testid="nav-tournaments"
+          onClick={() => onNavigate('tournaments')}
+          className={`flex flex-col items-center justify-center gap-0.5 transition-colors duration-200 ${
+            activeView === 'tournaments' ? 'text-blue-600' : 'text-slate-400 active:text-slate-600'
+          }`}
+        >
+          <Medal size={22} />
+          <span className="text-[10px] font-medium">Turnaje</span>
+        </button>
+
         {/* Settings Tab */}
         <button
           data-testid="nav-settings"
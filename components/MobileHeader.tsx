@@ -1,7 +1,8 @@
 import React from 'react';
 import { Trophy, LogOut, ArrowLeft } from 'lucide-react';
 import { MobileView } from './MobileBottomNav';
-import { User, SportEvent } from '../types';
+import { GroupSwitcher } from './GroupSwitcher';
+import { User, SportEvent, Group } from '../types';
 
 interface MobileHeaderProps {
   mobileView: MobileView;
@@ -9,6 +10,9 @@ interface MobileHeaderProps {
   selectedEvent: SportEvent | undefined;
   onBack: () => void;
   onLogout: () => void;
+  groups?: Group[];
+  activeGroupId?: string;
+  onSelectGroup?: (groupId: string) => void;
 }
 
 export const MobileHeader: React.FC<MobileHeaderProps> = ({
@@ -17,6 +21,9 @@ export const MobileHeader: React.FC<MobileHeaderProps> = ({
   selectedEvent,
   onBack,
   onLogout,
+  groups = [],
+  activeGroupId,
+  onSelectGroup,
 }) => {
   return (
     <div className="flex flex-col shadow-md z-20 relative bg-blue-700 text-white">
@@ -49,6 +56,19 @@ export const MobileHeader: React.FC<MobileHeaderProps> = ({
             <span data-testid="mobile-title" className="font-bold text-base">Statistiky</span>
             <div className="w-16" />
           </>
+        ) : mobileView === 'tournaments' ? (
+          <>
+            <button
+              data-testid="mobile-back"
+              onClick={onBack}
+              className="flex items-center gap-1.5 text-white/90 hover:text-white transition-colors"
+            >
+              <ArrowLeft size={20} />
+              <span className="text-sm font-medium">Zpět</span>
+            </button>
+            <span data-testid="mobile-title" className="font-bold text-base">Turnaje</span>
+            <div className="w-16" />
+          </>
         ) : mobileView === 'changelog' ? (
           <>
             <button
@@ -64,9 +84,14 @@ export const MobileHeader: React.FC<MobileHeaderProps> = ({
           </>
         ) : (
           <>
-            <div className="flex items-center gap-2 font-bold text-lg">
-              <Trophy size={24} />
-              <span>Sport Plánovač</span>
+            <div className="flex items-center gap-2 min-w-0">
+              <Trophy size={24} className="shrink-0" />
+              <div className="min-w-0">
+                <span className="block font-bold text-lg leading-tight">Sport Plánovač</span>
+                {activeGroupId && onSelectGroup && (
+                  <GroupSwitcher groups={groups} activeGroupId={activeGroupId} onSelect={onSelectGroup} variant="light" />
+                )}
+              </div>
             </div>
             <div className="flex items-center gap-2">
               {currentUser.photoUrl && (
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { ScoringRules, SportConfig, SportType } from '../types';
+
+interface NewSportFormProps {
+  /** Ids already taken — the new sport's id is derived from its label */
+  existingTypes: SportType[];
+  onAdd: (config: SportConfig) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+/** Scoring the form starts from, like volleyball */
+const DEFAULT_SCORING: ScoringRules = { kind: 'rally', setsToWin: 2, pointsPerSet: 25, winBy: 2 };
+
+/** 'Plážový volejbal' → 'plazovy-volejbal', numbered when taken */
+function sportTypeId(label: string, existingTypes: SportType[]): SportType {
+  const base = label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 26)
+    .replace(/-+$/, '') || 'sport';
+  let id = base;
+  for (let n = 2; existingTypes.includes(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-blue-300 rounded text-sm focus:ring-1 focus:ring-blue-200 outline-none';
+
+/** A sport of the group's own, e.g. florbal — label, capacity, teams and how a match is scored */
+export const NewSportForm: React.FC<NewSportFormProps> = ({ existingTypes, onAdd, onCancel, disabled = false }) => {
+  const [label, setLabel] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const [maxPlayers, setMaxPlayers] = useState(12);
+  const [defaultCost, setDefaultCost] = useState(0);
+  const [defaultLocation, setDefaultLocation] = useState('');
+  const [teamSize, setTeamSize] = useState('');
+  const [teamCount, setTeamCount] = useState(2);
+  const [scoring, setScoring] = useState<ScoringRules>(DEFAULT_SCORING);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+    onAdd({
+      type: sportTypeId(label, existingTypes),
+      label: label.trim(),
+      ...(emoji.trim() ? { emoji: emoji.trim() } : {}),
+      maxPlayers,
+      defaultCost,
+      defaultLocation: defaultLocation.trim(),
+      teamSize: teamSize ? Number(teamSize) : null,
+      teamCount,
+      scoring,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-50 border border-blue-200 rounded-lg p-3 space-y-2" data-testid="new-sport-form">
+      <p className="font-medium text-slate-800 text-sm">Nový sport</p>
+      <div className="grid grid-cols-[1fr_4rem] gap-2">
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">Název</label>
+          <input type="text" value={label} onChange={e => setLabel(e.target.value)} placeholder="Např. Florbal" maxLength={50} className={inputClass} data-testid="new-sport-label" />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">Emoji</label>
+          <input type="text" value={emoji} onChange={e => setEmoji(e.target.value)} placeholder="🏅" className={inputClass} data-testid="new-sport-emoji" />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">Max hráčů</label>
+          <input type="number" min="1" value={maxPlayers} onChange={e => setMaxPlayers(Number(e.target.value))} className={inputClass} data-testid="new-sport-max-players" />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">Výchozí cena (Kč)</label>
+          <input type="number" min="0" value={defaultCost} onChange={e => setDefaultCost(Number(e.target.value))} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">Hráčů v týmu (prázdné = rozdělit všechny)</label>
+          <input type="number" min="1" value={teamSize} onChange={e => setTeamSize(e.target.value)} className={inputClass} data-testid="new-sport-team-size" />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">Počet týmů</label>
+          <input type="number" min="2" max="8" value={teamCount} onChange={e => setTeamCount(Number(e.target.value))} className={inputClass} data-testid="new-sport-team-count" />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs text-slate-500 mb-0.5">Výchozí místo</label>
+        <input type="text" value={defaultLocation} onChange={e => setDefaultLocation(e.target.value)} className={inputClass} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">Počítání skóre</label>
+          <select
+            value={scoring.kind}
+            onChange={e => setScoring({ ...scoring, kind: e.target.value as ScoringRules['kind'] })}
+            className={inputClass}
+            data-testid="new-sport-scoring-kind"
+          >
+            <option value="rally">Body do setu</option>
+            <option value="tennis">Tenisové gemy</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">Vítězných setů</label>
+          <input type="number" min="1" max="5" value={scoring.setsToWin} onChange={e => setScoring({ ...scoring, setsToWin: Number(e.target.value) })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">{scoring.kind === 'tennis' ? 'Gemů na set' : 'Bodů na set'}</label>
+          <input type="number" min="1" value={scoring.pointsPerSet} onChange={e => setScoring({ ...scoring, pointsPerSet: Number(e.target.value) })} className={inputClass} data-testid="new-sport-points-per-set" />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500 mb-0.5">Rozdíl pro výhru</label>
+          <input type="number" min="1" value={scoring.winBy} onChange={e => setScoring({ ...scoring, winBy: Number(e.target.value) })} className={inputClass} />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button type="submit" disabled={disabled || !label.trim()} className="text-green-600 hover:bg-green-50 p-1 rounded transition-colors disabled:opacity-50" data-testid="new-sport-submit">
+          <Check size={16} />
+        </button>
+        <button type="button" onClick={onCancel} className="text-red-500 hover:bg-red-50 p-1 rounded transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { NotificationSettings } from './NotificationSettings';
+import { User } from '../types';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '../shared/notificationSettings';
+
+vi.mock('../services/storage', () => ({
+  getNotificationConfig: vi.fn(),
+  updateNotificationSettings: vi.fn(),
+  savePushSubscription: vi.fn(),
+  deletePushSubscription: vi.fn(),
+}));
+
+vi.mock('../utils/push', () => ({
+  isPushSupported: vi.fn(),
+  getPushSubscription: vi.fn(),
+  subscribeToPush: vi.fn(),
+}));
+
+import * as storage from '../services/storage';
+import * as push from '../utils/push';
+
+const organizer: User = { id: 'u1', name: 'Alice', role: 'organizer' };
+const player: User = { id: 'u2', name: 'Bob', role: 'player' };
+
+describe('NotificationSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(push.isPushSupported).mockReturnValue(true);
+    vi.mocked(push.getPushSubscription).mockResolvedValue(null);
+    vi.mocked(storage.getNotificationConfig).mockResolvedValue({ publicKey: 'BPublicKey', settings: DEFAULT_NOTIFICATION_SETTINGS });
+  });
+
+  it('subscribes this device and stores the subscription', async () => {
+    const subscriptionJson = { endpoint: 'https://push.example/1', keys: { p256dh: 'p', auth: 'a' } };
+    vi.mocked(push.subscribeToPush).mockResolvedValue({ toJSON: () => subscriptionJson } as unknown as PushSubscription);
+    vi.mocked(storage.savePushSubscription).mockResolvedValue();
+    const user = userEvent.setup();
+    render(<NotificationSettings currentUser={player} />);
+
+    await user.click(await screen.findByTestId('notifications-enable'));
+
+    expect(push.subscribeToPush).toHaveBeenCalledWith('BPublicKey');
+    expect(storage.savePushSubscription).toHaveBeenCalledWith(subscriptionJson);
+    expect(await screen.findByTestId('notifications-disable')).toBeInTheDocument();
+  });
+
+  it('shows why notifications could not be enabled', async () => {
+    vi.mocked(push.subscribeToPush).mockRejectedValue(new Error('Upozornění jsou v prohlížeči zakázaná.'));
+    const user = userEvent.setup();
+    render(<NotificationSettings currentUser={player} />);
+
+    await user.click(await screen.findByTestId('notifications-enable'));
+
+    expect(await screen.findByText('Upozornění jsou v prohlížeči zakázaná.')).toBeInTheDocument();
+  });
+
+  it('explains when the browser has no push support', async () => {
+    vi.mocked(push.isPushSupported).mockReturnValue(false);
+    render(<NotificationSettings currentUser={player} />);
+
+    expect(screen.getByTestId('notifications-unsupported')).toBeInTheDocument();
+    expect(screen.queryByTestId('notifications-enable')).not.toBeInTheDocument();
+  });
+
+  it('lets organizers change when reminders are sent', async () => {
+    vi.mocked(storage.updateNotificationSettings).mockImplementation(async settings => settings);
+    const user = userEvent.setup();
+    render(<NotificationSettings currentUser={organizer} />);
+
+    const hours = await screen.findByTestId('notification-hours-input');
+    await user.clear(hours);
+    await user.type(hours, '12');
+    const days = screen.getByTestId('notification-days-input');
+    await user.clear(days);
+    await user.type(days, '10, 5 ,x');
+    const confirmHours = screen.getByTestId('notification-confirm-hours-input');
+    await user.clear(confirmHours);
+    await user.type(confirmHours, '6');
+    await user.click(screen.getByTestId('notification-settings-save'));
+
+    await waitFor(() => expect(storage.updateNotificationSettings).toHaveBeenCalledWith({
+      eventReminderHours: 12,
+      debtReminderDays: [5, 10],
+      promotionConfirmHours: 6,
+    }));
+    expect(screen.getByTestId('notification-days-input')).toHaveValue('5, 10');
+  });
+
+  it('hides the group settings from players', async () => {
+    render(<NotificationSettings currentUser={player} />);
+
+    await screen.findByTestId('notifications-enable');
+    expect(screen.queryByTestId('notification-hours-input')).not.toBeInTheDocument();
+  });
+});
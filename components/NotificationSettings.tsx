@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { User } from '../types';
+import { reminderDays, type NotificationConfig } from '../shared/notificationSettings';
+import * as storage from '../services/storage';
+import { can } from '../utils/permissions';
+import { getPushSubscription, isPushSupported, subscribeToPush } from '../utils/push';
+import { Bell, BellOff, Loader2, AlertTriangle } from 'lucide-react';
+
+interface NotificationSettingsProps {
+  currentUser: User;
+}
+
+/** "3, 7,14" → [3, 7, 14] */
+const parseDays = (value: string): number[] => reminderDays(value.split(/[\s,;]+/).map(Number));
+
+/** Settings section "Upozornění": push on this device, and for organizers when reminders go out */
+export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ currentUser }) => {
+  const [config, setConfig] = useState<NotificationConfig | null>(null);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [tempHours, setTempHours] = useState('');
+  const [tempDays, setTempDays] = useState('');
+  const [tempConfirmHours, setTempConfirmHours] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const canEdit = can(currentUser, 'event:edit');
+  const isSupported = isPushSupported();
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([storage.getNotificationConfig(), getPushSubscription()])
+      .then(([loaded, subscription]) => {
+        if (cancelled) return;
+        setConfig(loaded);
+        setTempHours(String(loaded.settings.eventReminderHours));
+        setTempDays(loaded.settings.debtReminderDays.join(', '));
+        setTempConfirmHours(String(loaded.settings.promotionConfirmHours ?? 0));
+        setIsSubscribed(!!subscription);
+      })
+      .catch(err => !cancelled && setError(err.message || 'Nastavení upozornění se nepodařilo načíst.'));
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleEnable = async () => {
+    if (!config?.publicKey) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const subscription = await subscribeToPush(config.publicKey);
+      await storage.savePushSubscription(subscription.toJSON());
+      setIsSubscribed(true);
+    } catch (err: any) {
+      setError(err.message || 'Upozornění se nepodařilo zapnout.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const subscription = await getPushSubscription();
+      if (subscription) {
+        await storage.deletePushSubscription(subscription.endpoint);
+        await subscription.unsubscribe();
+      }
+      setIsSubscribed(false);
+    } catch (err: any) {
+      setError(err.message || 'Upozornění se nepodařilo vypnout.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const settings = await storage.updateNotificationSettings({
+        eventReminderHours: Math.max(0, Number(tempHours) || 0),
+        debtReminderDays: parseDays(tempDays),
+        promotionConfirmHours: Math.max(0, Number(tempConfirmHours) || 0),
+      });
+      setConfig(prev => (prev ? { ...prev, settings } : prev));
+      setTempDays(settings.debtReminderDays.join(', '));
+      setIsSaved(true);
+      setTimeout(() => setIsSaved(false), 2000);
+    } catch (err: any) {
+      setError(err.message || 'Nastavení se nepodařilo uložit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div data-testid="notification-settings">
+      <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3 flex items-center gap-2">
+        <Bell size={16} className="text-amber-500" />
+        Upozornění
+      </h4>
+
+      <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+        <p className="text-xs text-slate-500">
+          Připomínka před akcí, na kterou chybí hráči, zpráva o uvolněném místě z čekací listiny a upomínka nezaplacených akcí.
+        </p>
+
+        {!isSupported ? (
+          <p className="text-sm text-slate-500 italic" data-testid="notifications-unsupported">
+            Tento prohlížeč upozornění nepodporuje.
+          </p>
+        ) : config && !config.publicKey ? (
+          <p className="text-sm text-slate-500 italic">Upozornění zatím nejsou na serveru nastavená.</p>
+        ) : isSubscribed ? (
+          <button
+            onClick={handleDisable}
+            disabled={isSaving}
+            className="w-full bg-slate-200 text-slate-700 py-2 rounded-lg font-medium hover:bg-slate-300 transition-colors text-sm disabled:opacity-50 flex items-center justify-center gap-2"
+            data-testid="notifications-disable"
+          >
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <BellOff size={16} />}
+            Vypnout na tomto zařízení
+          </button>
+        ) : (
+          <button
+            onClick={handleEnable}
+            disabled={isSaving || !config}
+            className="w-full bg-blue-600 text-white py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 flex items-center justify-center gap-2"
+            data-testid="notifications-enable"
+          >
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Bell size={16} />}
+            Zapnout upozornění
+          </button>
+        )}
+
+        {canEdit && config && (
+          <form onSubmit={handleSaveSettings} className="pt-3 border-t border-slate-200 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Připomenout před akcí (h)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={tempHours}
+                  onChange={(e) => setTempHours(e.target.value)}
+                  className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                  data-testid="notification-hours-input"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Upomínky dluhů (dní po akci)</label>
+                <input
+                  type="text"
+                  value={tempDays}
+                  onChange={(e) => setTempDays(e.target.value)}
+                  placeholder="3, 7, 14"
+                  className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                  data-testid="notification-days-input"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Potvrzení místa z čekací listiny (h)</label>
+              <input
+                type="number"
+                min="0"
+                value={tempConfirmHours}
+                onChange={(e) => setTempConfirmHours(e.target.value)}
+                className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                data-testid="notification-confirm-hours-input"
+              />
+              <p className="text-xs text-slate-500 mt-1">0 = hráč je přesunut hned, jinak místo propadne dalšímu v pořadí.</p>
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-blue-600 text-white py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+              data-testid="notification-settings-save"
+            >
+              {isSaved ? 'Uloženo' : 'Uložit pro skupinu'}
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm flex items-center gap-2">
+            <AlertTriangle size={16} />
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { OfflineBanner } from './OfflineBanner';
+import { SportEvent } from '../types';
+
+const events: SportEvent[] = [{
+  id: 'e1', title: 'Pondělní volejbal', date: '2025-03-03', time: '18:00', location: 'Hala', totalCost: 1000, accountNumber: '', participants: [],
+}];
+
+describe('OfflineBanner', () => {
+  it('renders nothing when online with nothing pending', () => {
+    render(<OfflineBanner isOnline pendingCount={0} rejected={[]} events={events} onDismissRejected={vi.fn()} />);
+    expect(screen.queryByTestId('offline-banner')).not.toBeInTheDocument();
+  });
+
+  it('tells how many changes wait for the connection', () => {
+    render(<OfflineBanner isOnline={false} pendingCount={3} rejected={[]} events={events} onDismissRejected={vi.fn()} />);
+    expect(screen.getByTestId('offline-state')).toHaveTextContent('3 změny se odešle po připojení');
+  });
+
+  it('lists writes the server refused and lets the user dismiss them', async () => {
+    const onDismissRejected = vi.fn();
+    const rejected = [{
+      write: { id: 'q1', groupId: 'g1', queuedAt: 1, kind: 'attendance' as const, eventId: 'e1', userId: 'u1', status: 'joined' as const },
+      error: 'Přihlašování je uzavřeno.',
+    }];
+    render(<OfflineBanner isOnline pendingCount={0} rejected={rejected} events={events} onDismissRejected={onDismissRejected} />);
+
+    expect(screen.getByTestId('offline-rejected')).toHaveTextContent('Pondělní volejbal');
+    expect(screen.getByTestId('offline-rejected')).toHaveTextContent('Přihlašování je uzavřeno.');
+    await userEvent.click(screen.getByTestId('offline-dismiss'));
+    expect(onDismissRejected).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,65 @@
+import React from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, X } from 'lucide-react';
+import { RejectedWrite } from '../utils/outbox';
+import { SportEvent } from '../types';
+
+interface OfflineBannerProps {
+  isOnline: boolean;
+  /** Writes made offline that haven't reached the server yet */
+  pendingCount: number;
+  /** Offline writes the server refused on replay */
+  rejected: RejectedWrite[];
+  events: SportEvent[];
+  onDismissRejected: () => void;
+}
+
+const changesLabel = (count: number) => (count === 1 ? 'změna' : count < 5 ? 'změny' : 'změn');
+
+function describeWrite(write: RejectedWrite['write'], events: SportEvent[]): string {
+  if (write.kind === 'attendance') {
+    const title = events.find(e => e.id === write.eventId)?.title ?? 'událost';
+    return `Přihláška na „${title}"`;
+  }
+  return write.kind === 'createEvent' ? `Nová událost „${write.event.title}"` : `Úprava „${write.event.title}"`;
+}
+
+/** Offline state, the changes waiting to be sent, and those the server refused once back online */
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({ isOnline, pendingCount, rejected, events, onDismissRejected }) => {
+  if (isOnline && pendingCount === 0 && rejected.length === 0) return null;
+
+  return (
+    <div className="border-b border-slate-200" data-testid="offline-banner">
+      {!isOnline && (
+        <div className="px-4 py-2 bg-slate-800 text-white text-sm flex items-center gap-2" data-testid="offline-state">
+          <CloudOff size={16} className="shrink-0" />
+          <span>
+            Jste offline — zobrazujeme poslední uložená data.
+            {pendingCount > 0 && ` ${pendingCount} ${changesLabel(pendingCount)} se odešle po připojení.`}
+          </span>
+        </div>
+      )}
+      {isOnline && pendingCount > 0 && (
+        <div className="px-4 py-2 bg-blue-50 text-blue-800 text-sm flex items-center gap-2" data-testid="offline-syncing">
+          <RefreshCw size={16} className="shrink-0 animate-spin" />
+          Odesílám {pendingCount} {changesLabel(pendingCount)} z doby offline…
+        </div>
+      )}
+      {rejected.length > 0 && (
+        <div className="px-4 py-2 bg-amber-50 text-amber-900 text-sm flex items-start gap-2" data-testid="offline-rejected">
+          <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="font-medium">Některé změny z doby offline se nepodařilo uložit:</p>
+            <ul className="text-xs mt-1 space-y-0.5">
+              {rejected.map(({ write, error }) => (
+                <li key={write.id}>{describeWrite(write, events)} — {error}</li>
+              ))}
+            </ul>
+          </div>
+          <button onClick={onDismissRejected} className="p-1 rounded hover:bg-amber-100" title="Zavřít" data-testid="offline-dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PaymentImportModal } from './PaymentImportModal';
+import { SportEvent } from '../types';
+import { getVariableSymbol } from '../shared/variableSymbol';
+
+vi.mock('../services/storage', () => ({
+  markPaid: vi.fn(),
+}));
+
+import * as storage from '../services/storage';
+
+const event: SportEvent = {
+  id: 'e1',
+  title: 'Volejbal',
+  date: '2026-03-20',
+  time: '18:00',
+  location: 'Hala',
+  totalCost: 600,
+  accountNumber: '123/0100',
+  participants: [
+    { userId: 'u1', name: 'Jan Novák', status: 'joined', hasPaid: false },
+    { userId: 'u2', name: 'Eva Malá', status: 'joined', hasPaid: false },
+  ],
+};
+
+const statement = [
+  'Datum;Objem;VS;Název protiúčtu',
+  `20.03.2026;300,00;${getVariableSymbol('e1', 'u1')};NOVAK JAN`,
+  '21.03.2026;300,00;;MALA EVA',
+  '21.03.2026;999,00;;NEZNAMY',
+].join('\n');
+
+const upload = async (user: ReturnType<typeof userEvent.setup>, content: string) => {
+  const file = new File([content], 'vypis.csv', { type: 'text/csv' });
+  await user.upload(screen.getByTestId('payment-import-file'), file);
+};
+
+describe('PaymentImportModal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('preselects VS matches and leaves name matches for review', async () => {
+    const user = userEvent.setup();
+    render(<PaymentImportModal events={[event]} onClose={vi.fn()} onImported={vi.fn()} />);
+
+    await upload(user, statement);
+
+    expect(await screen.findByTestId('payment-match-e1:u1')).toBeChecked();
+    expect(screen.getByTestId('payment-match-e1:u2')).not.toBeChecked();
+    expect(screen.getByTestId('payment-import-unmatched')).toHaveTextContent('1');
+  });
+
+  it('marks the selected matches as paid', async () => {
+    vi.mocked(storage.markPaid).mockResolvedValue();
+    const onImported = vi.fn();
+    const onClose = vi.fn();
+    const user = userEvent.setup();
+    render(<PaymentImportModal events={[event]} onClose={onClose} onImported={onImported} />);
+
+    await upload(user, statement);
+    await user.click(await screen.findByTestId('payment-match-e1:u2'));
+    await user.click(screen.getByTestId('payment-import-confirm'));
+
+    await waitFor(() => expect(onImported).toHaveBeenCalled());
+    expect(storage.markPaid).toHaveBeenCalledTimes(2);
+    expect(storage.markPaid).toHaveBeenCalledWith('e1', 'u1', true);
+    expect(storage.markPaid).toHaveBeenCalledWith('e1', 'u2', true);
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('shows parser errors', async () => {
+    const user = userEvent.setup();
+    render(<PaymentImportModal events={[event]} onClose={vi.fn()} onImported={vi.fn()} />);
+
+    await upload(user, 'Datum;Poznámka\n20.03.2026;nic');
+
+    expect(await screen.findByText('Ve výpisu chybí sloupec s částkou.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { SportEvent, SportConfig, PaymentMatch } from '../types';
+import * as storage from '../services/storage';
+import { decodeStatement, parseStatement } from '../utils/bankStatement';
+import { matchPayments } from '../utils/paymentMatching';
+import { X, FileUp, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { cs } from 'date-fns/locale';
+
+interface PaymentImportModalProps {
+  events: SportEvent[];
+  sportConfigs?: SportConfig[];
+  onClose: () => void;
+  /** Called after payments were marked so the caller can reload events */
+  onImported: () => void;
+}
+
+const matchKey = (match: PaymentMatch) => `${match.eventId}:${match.userId}`;
+
+/** Upload a bank statement, review matched payments and mark them as paid */
+export const PaymentImportModal: React.FC<PaymentImportModalProps> = ({ events, sportConfigs = [], onClose, onImported }) => {
+  const [matches, setMatches] = useState<PaymentMatch[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [unmatchedCount, setUnmatchedCount] = useState(0);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const eventById = new Map(events.map(e => [e.id, e]));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setFileName(file.name);
+    try {
+      const transactions = parseStatement(decodeStatement(await file.arrayBuffer()));
+      const found = matchPayments(transactions, events, sportConfigs);
+      setMatches(found);
+      // Only VS matches are preselected — name matches need a human look
+      setSelected(new Set(found.filter(m => m.confidence === 'exact').map(matchKey)));
+      setUnmatchedCount(transactions.filter(t => t.amount > 0).length - found.length);
+    } catch (err: any) {
+      setMatches(null);
+      setError(err.message || 'Výpis se nepodařilo načíst.');
+    }
+  };
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!matches) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      for (const match of matches.filter(m => selected.has(matchKey(m)))) {
+        await storage.markPaid(match.eventId, match.userId, true);
+      }
+      onImported();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Platby se nepodařilo uložit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50 flex-shrink-0">
+          <h3 className="font-bold text-lg text-slate-800">Import bankovního výpisu</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          <p className="text-sm text-slate-500">
+            Nahrajte výpis z banky (CSV, ABO/GPC nebo CAMT.053). Příchozí platby se spárují s dlužníky podle variabilního symbolu a částky.
+          </p>
+
+          <label className="flex items-center justify-center gap-2 border-2 border-dashed border-slate-300 rounded-lg p-4 text-sm text-slate-600 cursor-pointer hover:border-blue-400 hover:text-blue-600 transition-colors">
+            <FileUp size={18} />
+            {fileName ?? 'Vybrat soubor s výpisem'}
+            <input
+              type="file"
+              accept=".csv,.gpc,.abo,.xml,.txt"
+              onChange={handleFile}
+              className="hidden"
+              data-testid="payment-import-file"
+            />
+          </label>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm flex items-center gap-2">
+              <AlertTriangle size={16} />
+              {error}
+            </div>
+          )}
+
+          {matches && (
+            <div className="space-y-2" data-testid="payment-import-matches">
+              {matches.length === 0 ? (
+                <p className="text-sm text-slate-500 italic">Žádná platba ve výpisu neodpovídá nezaplacené účasti.</p>
+              ) : (
+                matches.map(match => {
+                  const key = matchKey(match);
+                  const event = eventById.get(match.eventId);
+                  const participant = event?.participants.find(p => p.userId === match.userId);
+                  return (
+                    <label
+                      key={key}
+                      className="flex items-start gap-3 bg-slate-50 border border-slate-200 rounded-lg p-3 cursor-pointer hover:bg-slate-100 transition-colors"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.has(key)}
+                        onChange={() => toggle(key)}
+                        className="mt-1 w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                        data-testid={`payment-match-${key}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="font-medium text-slate-800 text-sm truncate">{participant?.name ?? match.userId}</p>
+                          <span className="font-bold text-slate-800 text-sm shrink-0">{match.transaction.amount} Kč</span>
+                        </div>
+                        <p className="text-xs text-slate-500 truncate">
+                          {event?.title}
+                          {event && ` • ${format(new Date(event.date), 'd. M.', { locale: cs })}`}
+                          {match.transaction.counterpartyName && ` • od ${match.transaction.counterpartyName}`}
+                        </p>
+                        <span
+                          className={`inline-block mt-1 text-[10px] font-bold px-1.5 py-0.5 rounded ${
+                            match.confidence === 'exact' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'
+                          }`}
+                        >
+                          {match.confidence === 'exact' ? 'Shoda VS' : 'Podle jména'}
+                        </span>
+                      </div>
+                    </label>
+                  );
+                })
+              )}
+              {unmatchedCount > 0 && (
+                <p className="text-xs text-slate-400" data-testid="payment-import-unmatched">
+                  Nespárované příchozí platby: {unmatchedCount}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 bg-slate-50 flex-shrink-0">
+          <button
+            onClick={handleConfirm}
+            disabled={isSaving || selected.size === 0}
+            className="w-full bg-blue-600 text-white py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 flex items-center justify-center gap-2"
+            data-testid="payment-import-confirm"
+          >
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle2 size={16} />}
+            Označit jako zaplacené ({selected.size})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PlayerProfileSettings } from './PlayerProfileSettings';
+import { User } from '../types';
+
+vi.mock('../services/storage', () => ({
+  updateUser: vi.fn(),
+}));
+
+import * as storage from '../services/storage';
+
+const player: User = { id: 'u1', name: 'Alice' };
+
+describe('PlayerProfileSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.updateUser).mockImplementation(async (id, updates) => ({ ...player, ...updates }));
+  });
+
+  it('saves positions in the order picked together with the skill level', async () => {
+    const onUserUpdate = vi.fn();
+    const user = userEvent.setup();
+    render(<PlayerProfileSettings currentUser={player} onUserUpdate={onUserUpdate} />);
+
+    await user.click(screen.getByTestId('position-libero'));
+    await user.click(screen.getByTestId('position-setter'));
+    await user.selectOptions(screen.getByTestId('skill-level-select'), '4');
+    await user.click(screen.getByTestId('player-profile-save'));
+
+    await waitFor(() => expect(storage.updateUser).toHaveBeenCalledWith('u1', { positions: ['libero', 'setter'], skillLevel: 4 }));
+    expect(onUserUpdate).toHaveBeenCalledWith(expect.objectContaining({ skillLevel: 4 }));
+  });
+
+  it('starts from the saved profile and lets positions be removed', async () => {
+    const user = userEvent.setup();
+    render(<PlayerProfileSettings currentUser={{ ...player, positions: ['hitter', 'blocker'], skillLevel: 2 }} onUserUpdate={vi.fn()} />);
+
+    expect(screen.getByTestId('position-hitter')).toBeChecked();
+    expect(screen.getByTestId('skill-level-select')).toHaveValue('2');
+    await user.click(screen.getByTestId('position-hitter'));
+    await user.click(screen.getByTestId('player-profile-save'));
+
+    await waitFor(() => expect(storage.updateUser).toHaveBeenCalledWith('u1', { positions: ['blocker'], skillLevel: 2 }));
+  });
+});
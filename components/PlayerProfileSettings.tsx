@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { MAX_SKILL_LEVEL, MIN_SKILL_LEVEL, PlayerPosition, User } from '../types';
+import * as storage from '../services/storage';
+import { POSITION_LABELS } from '../utils/teamBalancer';
+import { Target, Loader2, AlertTriangle } from 'lucide-react';
+
+interface PlayerProfileSettingsProps {
+  currentUser: User;
+  onUserUpdate: (user: User) => void;
+}
+
+const SKILL_LABELS: Record<number, string> = {
+  1: 'Začátečník',
+  2: 'Rekreační hráč',
+  3: 'Průměrný hráč',
+  4: 'Zkušený hráč',
+  5: 'Závodní hráč',
+};
+
+/** Settings section "Herní profil": volleyball positions and a skill self-assessment for the team balancer */
+export const PlayerProfileSettings: React.FC<PlayerProfileSettingsProps> = ({ currentUser, onUserUpdate }) => {
+  const [positions, setPositions] = useState<PlayerPosition[]>(currentUser.positions ?? []);
+  const [skillLevel, setSkillLevel] = useState<number | undefined>(currentUser.skillLevel);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+
+  // Checked in the order clicked — the first one is the preferred position
+  const togglePosition = (position: PlayerPosition) => {
+    setPositions(prev => (prev.includes(position) ? prev.filter(p => p !== position) : [...prev, position]));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await storage.updateUser(currentUser.id, { positions, ...(skillLevel !== undefined && { skillLevel }) });
+      onUserUpdate(updated);
+      setIsSaved(true);
+      setTimeout(() => setIsSaved(false), 2000);
+    } catch (err: any) {
+      setError(err.message || 'Herní profil se nepodařilo uložit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div data-testid="player-profile-settings">
+      <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3 flex items-center gap-2">
+        <Target size={16} className="text-rose-500" />
+        Herní profil
+      </h4>
+
+      <form onSubmit={handleSave} className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+        <p className="text-xs text-slate-500">
+          Podle pozic rozdělí míchání volejbalových týmů nahrávače, libera i blokaře rovnoměrně. Sebehodnocení platí, dokud nemáte odehráno dost her.
+        </p>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Pozice ve volejbale</label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(POSITION_LABELS) as PlayerPosition[]).map(position => (
+              <label key={position} className="flex items-center gap-2 text-sm text-slate-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={positions.includes(position)}
+                  onChange={() => togglePosition(position)}
+                  disabled={isSaving}
+                  className="w-4 h-4 text-rose-600 border-slate-300 rounded focus:ring-rose-500"
+                  data-testid={`position-${position}`}
+                />
+                {POSITION_LABELS[position]}
+                {positions[0] === position && positions.length > 1 && <span className="text-xs text-slate-400">nejraději</span>}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Jak se hodnotíte</label>
+          <select
+            value={skillLevel ?? ''}
+            onChange={(e) => setSkillLevel(e.target.value === '' ? undefined : Number(e.target.value))}
+            className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            disabled={isSaving}
+            data-testid="skill-level-select"
+          >
+            {/* A saved level can be changed, not removed — the update only merges fields */}
+            {currentUser.skillLevel === undefined && <option value="">Neuvedeno</option>}
+            {Array.from({ length: MAX_SKILL_LEVEL - MIN_SKILL_LEVEL + 1 }, (_, i) => MIN_SKILL_LEVEL + i).map(level => (
+              <option key={level} value={level}>{level} — {SKILL_LABELS[level]}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="w-full bg-blue-600 text-white py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 flex items-center justify-center gap-2"
+          data-testid="player-profile-save"
+        >
+          {isSaving && <Loader2 size={16} className="animate-spin" />}
+          {isSaved ? 'Uloženo' : 'Uložit'}
+        </button>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm flex items-center gap-2">
+            <AlertTriangle size={16} />
+            {error}
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
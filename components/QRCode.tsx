@@ -0,0 +1,10 @@
+import React from 'react';
+import * as QRCodeModule from 'react-qr-code';
+
+// Safely resolve QRCode component — handles CJS/ESM interop differences
+// between Vite dev (esbuild) and production (Rollup) builds.
+export const QRCode: React.ComponentType<any> =
+  (QRCodeModule as any).default?.render ? (QRCodeModule as any).default      // ESM: module.default is the component
+  : (QRCodeModule as any).QRCode?.render ? (QRCodeModule as any).QRCode      // Named export
+  : (QRCodeModule as any).default?.default?.render ? (QRCodeModule as any).default.default  // Double-wrapped
+  : (QRCodeModule as any).default ?? (QRCodeModule as any);                  // Fallback
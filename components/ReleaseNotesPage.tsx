@@ -1,5 +1,5 @@
 import React from 'react';
-import { Sparkles, Zap, CheckCircle2, Smartphone, Layout, FlaskConical, CreditCard, ArrowLeft, Trophy, BookOpen, UserCircle, BarChart3, Target, Puzzle, RefreshCw, Repeat2, Link, PawPrint, Swords, Download, Ticket } from 'lucide-react';
+import { Sparkles, Zap, CheckCircle2, Smartphone, Layout, FlaskConical, CreditCard, ArrowLeft, Trophy, BookOpen, UserCircle, BarChart3, Target, Puzzle, RefreshCw, Repeat2, Link, PawPrint, Swords, Download, Ticket, KeyRound, ShieldCheck, History, Users, FileUp, Wallet, Calculator, UserPlus, Bell, Mail, Clock, Lock, Radio, Eye, GitMerge, CloudOff, ClipboardCheck, Gauge, Dumbbell, Crown, Medal } from 'lucide-react';
 
 interface ReleaseNotesPageProps {
   onClose: () => void;
@@ -12,6 +12,248 @@ interface ChangeEntry {
 }
 
 const versions: { version: string; date: string; title: string; changes: ChangeEntry[] }[] = [
+  {
+    version: '1.8.0',
+    date: '18. 10. 2026',
+    title: 'Přihlášení PINem, skupiny, role a historie změn',
+    changes: [
+      {
+        icon: <KeyRound size={16} />,
+        title: 'Přihlášení PINem',
+        items: [
+          'Po výběru profilu je nutné zadat PIN (4–8 číslic)',
+          'Stávající profily bez PINu si ho nastaví s jednorázovým kódem od správce skupiny',
+          'Nový hráč zadává PIN už při vytvoření profilu',
+          'Změna PINu v nastavení, smazání vlastního účtu přesunuto do nastavení',
+          'Server ověřuje přihlášení u každé změny dat — nikdo už nemůže upravovat data za někoho jiného',
+        ],
+      },
+      {
+        icon: <ShieldCheck size={16} />,
+        title: 'Role a oprávnění',
+        items: [
+          'Role správce, organizátor, pokladník a hráč',
+          'Události vytváří, upravuje a maže organizátor, typy sportů upravuje také organizátor',
+          'Platby ostatních hráčů potvrzuje pokladník, svou platbu si každý označí sám',
+          'Správce přiděluje role a může odebrat člena ze skupiny v nastavení (sekce „Členové a role")',
+          'Akce, na které hráč nemá oprávnění, se v aplikaci nezobrazují',
+        ],
+      },
+      {
+        icon: <Users size={16} />,
+        title: 'Skupiny',
+        items: [
+          'Jedna aplikace pro více týmů — každá skupina má vlastní události, členy, účty a typy sportů',
+          'Pozvání hráčů odkazem z nastavení (sekce „Skupina"), odkaz lze kdykoli zneplatnit',
+          'Přepínání mezi skupinami v hlavičce, založení nové skupiny nebo připojení kódem',
+          'Role platí vždy v rámci skupiny — v jedné můžete být správce, v jiné hráč',
+          'Stávající data se automaticky přesunula do skupiny „Můj tým"',
+        ],
+      },
+      {
+        icon: <History size={16} />,
+        title: 'Historie změn',
+        items: [
+          'Každá změna účasti, platby, události, profilu i bankovního účtu se zaznamená — kdo, kdy a co změnil',
+          'Nový panel „Historie změn" v detailu události',
+          'Záznamy nelze upravit ani smazat',
+        ],
+      },
+      {
+        icon: <FileUp size={16} />,
+        title: 'Import bankovního výpisu',
+        items: [
+          'Pokladník nahraje výpis z banky (CSV, ABO/GPC nebo CAMT.053) v nastavení (sekce „Platby")',
+          'Příchozí platby se spárují s dlužníky podle variabilního symbolu a částky',
+          'Platby bez symbolu se navrhnou podle jména plátce — ty je potřeba potvrdit ručně',
+          'Potvrzené platby se označí jako zaplacené jedním kliknutím',
+        ],
+      },
+      {
+        icon: <CreditCard size={16} />,
+        title: 'Variabilní symbol',
+        items: [
+          'Každý hráč má u každé události vlastní variabilní symbol',
+          'Symbol je součástí QR platby i zkopírovaných platebních údajů',
+          'Upozornění na nezaplacené akce ukazuje symbol u každé dlužné částky',
+        ],
+      },
+      {
+        icon: <Wallet size={16} />,
+        title: 'Zaplatit vše najednou',
+        items: [
+          'Z pruhu s nezaplacenými akcemi jedním tlačítkem otevřete souhrnnou platbu',
+          'Dluhy se seskupí podle účtu příjemce — pro každý účet jeden QR kód se součtem a seznamem akcí ve zprávě',
+          'Pokladník v nastavení (sekce „Platby") vybere hráče a po přijetí platby ji potvrdí — všechny zahrnuté akce se označí jako zaplacené',
+        ],
+      },
+      {
+        icon: <Calculator size={16} />,
+        title: 'Férové dělení ceny',
+        items: [
+          'Multisport karta už není jen informativní — držitel platí méně o částku, kterou hradí karta',
+          'Příplatek pro hosty, o který se ostatním cena sníží',
+          'Organizátor může hrát zdarma',
+          'Organizátor nastaví konkrétnímu hráči vlastní částku v „Rozpisu ceny" v detailu události',
+          'Výchozí pravidla se nastavují u typu sportu, u každé akce je lze změnit',
+          'Dluhy, QR platba, párování výpisu i statistiky počítají se stejnými částkami',
+        ],
+      },
+      {
+        icon: <UserPlus size={16} />,
+        title: 'Hosté',
+        items: [
+          'Na akci můžete přivést kamaráda bez účtu — tlačítko „Přidat hosta" v seznamu účastníků',
+          'U hosta zvolíte, kdo za něj platí; jeho podíl se připíše k dluhům plátce',
+          'Hosté se počítají do kapacity a do losování týmů',
+          'Hosta může odebrat ten, kdo ho pozval, nebo organizátor',
+        ],
+      },
+      {
+        icon: <Bell size={16} />,
+        title: 'Upozornění',
+        items: [
+          'Upozornění do telefonu i počítače — zapnete je v Nastavení',
+          'Připomínka před akcí, na kterou ještě chybí hráči',
+          'Zpráva, když se pro vás uvolní místo z čekací listiny',
+          'Upomínka nezaplacené akce po nastaveném počtu dní',
+          'Organizátor nastaví, kolik hodin předem a po kolika dnech se připomíná',
+        ],
+      },
+      {
+        icon: <Mail size={16} />,
+        title: 'Týdenní přehled e-mailem',
+        items: [
+          'Každé pondělí e-mail s akcemi na příští týden a vaší účastí',
+          'Nezaplacené akce včetně QR platby přímo v e-mailu',
+          'E-mail a odběr nastavíte v Nastavení, odhlásit se dá i odkazem v e-mailu',
+        ],
+      },
+      {
+        icon: <Clock size={16} />,
+        title: 'Čekací listina',
+        items: [
+          'Uvolněné místo dostane vždy ten, kdo čeká nejdéle — ať se hráč odhlásí odkudkoli',
+          'Organizátor může nastavit, do kolika hodin musí náhradník místo potvrdit',
+          'Nepotvrzené místo automaticky přejde na dalšího v pořadí',
+        ],
+      },
+      {
+        icon: <Lock size={16} />,
+        title: 'Uzávěrka přihlášek a pozdní odhlášení',
+        items: [
+          'U každého sportu lze nastavit, kolik hodin před začátkem se přihlašování uzavře — pak mění účast jen organizátor',
+          'Kdo se odhlásí příliš pozdě, svůj podíl platí dál, takže ostatním se cena nezvýší',
+          'Organizátor může pozdní odhlášení prominout a po začátku akce označit, kdo nedorazil',
+          'Pozdní odhlášení a nedostavení snižují spolehlivost ve statistikách',
+        ],
+      },
+      {
+        icon: <Radio size={16} />,
+        title: 'Živé skóre',
+        items: [
+          'Režim „Živě" u skóre: velká tlačítka pro každý tým, body se přičítají po jednom a jdou vrátit',
+          'Set končí sám podle pravidel sportu — volejbal do 25 (tiebreak do 15), badminton do 21 o dva body, tenis na gemy se shodou a tiebreakem',
+          'Odehrané sety se ukládají do skóre zápasu, odveta přesune zápas do předchozích her',
+        ],
+      },
+      {
+        icon: <Eye size={16} />,
+        title: 'Synchronizace v reálném čase',
+        items: [
+          'Změny týmů, skóre a přihlášek z jiných zařízení se projeví hned, bez obnovení stránky',
+          'V detailu události je vidět, kdo další si ji právě prohlíží',
+          'Po výpadku spojení se aplikace sama připojí a doplní zmeškané změny',
+        ],
+      },
+      {
+        icon: <GitMerge size={16} />,
+        title: 'Souběžné úpravy bez přepisování',
+        items: [
+          'Úprava události se uloží jen nad verzí, ze které vznikla — cizí změny už nic tiše nepřepíše',
+          'Změny různých polí (třeba týmy na jednom telefonu a skóre na druhém) se spojí samy',
+          'Když dva lidé změní totéž, aplikace se zeptá, čí hodnota platí',
+        ],
+      },
+      {
+        icon: <CloudOff size={16} />,
+        title: 'Offline režim a instalace do telefonu',
+        items: [
+          'Aplikaci lze nainstalovat na plochu telefonu i počítače a otevře se i bez připojení',
+          'Bez signálu se zobrazí poslední načtené události a hráči',
+          'Přihlášky a úpravy událostí provedené offline se odešlou, jakmile se zařízení připojí',
+          'Kolize s mezitím provedenými změnami řeší stejná nabídka jako u souběžných úprav, odmítnuté změny aplikace vypíše',
+        ],
+      },
+      {
+        icon: <ClipboardCheck size={16} />,
+        title: 'Kontrola ukládaných dat',
+        items: [
+          'Server přijme jen platné údaje — neznámá pole, neplatný stav účasti nebo nesmyslný počet hráčů odmítne',
+          'Chybová hláška uvádí, které pole je špatně (např. „totalCost: Nejméně 0.")',
+          'Aplikace kontroluje změny stejnými pravidly ještě před odesláním, i v režimu bez serveru',
+        ],
+      },
+      {
+        icon: <Gauge size={16} />,
+        title: 'Rychlejší načítání událostí',
+        items: [
+          'Aplikace načítá jen to, co je vidět: posledních 6 měsíců, nejbližší události a zobrazený měsíc kalendáře',
+          'Další nadcházející události přidá tlačítko „Načíst další události" pod seznamem',
+          'Statistiky si starší historii dotáhnou postupně, průběh je vidět nahoře na stránce',
+        ],
+      },
+      {
+        icon: <Dumbbell size={16} />,
+        title: 'Vlastní sporty',
+        items: [
+          'Admini v nastavení přidají vlastní sport (např. florbal) s názvem, emoji, kapacitou, velikostí týmu a počtem týmů',
+          'Každý sport může mít vlastní pravidla počítání skóre pro živé skóre',
+          'Odebraný sport zmizí z nabídky, už vytvořené události zůstanou',
+        ],
+      },
+      {
+        icon: <Crown size={16} />,
+        title: 'Více týmů a král kurtu',
+        items: [
+          'Hráče lze rozdělit až do 8 týmů — vyvážení podle výkonnosti funguje pro libovolný počet',
+          'Formáty pro víc týmů: každý s každým, vítěz zůstává a král kurtu',
+          'Tabulka kola s body, sety a rozdílem skóre, zápas na kurtu se vybere sám',
+          'Statistiky a ELO počítají každý odehraný zápas mezi dvojicí týmů',
+        ],
+      },
+      {
+        icon: <Medal size={16} />,
+        title: 'Turnaje',
+        items: [
+          'Nová sekce Turnaje — organizátor zaregistruje pevné týmy v pořadí nasazení',
+          'Skupiny každý s každým s tabulkou (body, rozdíl setů a míčů) nebo vyřazovací pavouk, i s dvojitou eliminací',
+          'Výsledek zápasu se zadává ve stejném editoru skóre jako u událostí, vítěz postoupí sám',
+          'Odehrané turnajové zápasy se počítají do statistik a ELO',
+        ],
+      },
+      {
+        icon: <Target size={16} />,
+        title: 'Pozice a dvojice při míchání',
+        items: [
+          'V nastavení je nový herní profil — volejbalové pozice (nahrávač, libero, smečař, blokař) a sebehodnocení',
+          'Míchání volejbalu rozdělí hráče stejných pozic rovnoměrně, třeba dva nahrávače do různých týmů',
+          'Organizátor u události nastaví dvojice, které mají hrát spolu nebo proti sobě',
+          'Sebehodnocení určuje výkonnost nových hráčů, dokud nemají odehráno dost her',
+        ],
+      },
+      {
+        icon: <Gauge size={16} />,
+        title: 'Nové hodnocení hráčů (Glicko-2)',
+        items: [
+          'ELO nahradilo hodnocení Glicko-2 — každý hráč má rating a jeho nejistotu (±)',
+          'Zadané skóre se počítá: vysoká výhra zvedne rating víc než těsná',
+          'Kdo dlouho nehraje, tomu nejistota roste, dokud zase nenastoupí',
+          'Rating se vede zvlášť pro každý sport; podle něj se řadí žebříček i míchají týmy',
+        ],
+      },
+    ],
+  },
   {
     version: '1.7.0',
     date: '15. 5. 2026',
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SettlementModal } from './SettlementModal';
+import { BankAccount, SportEvent, User } from '../types';
+
+vi.mock('../services/storage', () => ({
+  markPaid: vi.fn(),
+}));
+
+import * as storage from '../services/storage';
+
+const player: User = { id: 'u1', name: 'Alice', role: 'player' };
+const treasurer: User = { id: 'u2', name: 'Bob', role: 'treasurer' };
+
+const accounts: BankAccount[] = [
+  { id: 'b1', ownerName: 'Bob', accountNumber: '123456789/0100', userId: 'u2' },
+  { id: 'b2', ownerName: 'Cyril', accountNumber: '987654321/0800', userId: 'u3' },
+];
+
+const makeEvent = (id: string, bankAccountId: string): SportEvent => ({
+  id,
+  title: 'Volejbal',
+  date: '2024-03-20',
+  time: '18:00',
+  location: 'Hala',
+  totalCost: 400,
+  accountNumber: '',
+  selectedBankAccountId: bankAccountId,
+  participants: [
+    { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+    { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: true },
+  ],
+});
+
+const events = [makeEvent('e1', 'b1'), makeEvent('e2', 'b1'), makeEvent('e3', 'b2')];
+
+const renderModal = (currentUser: User, onSettled = vi.fn()) =>
+  render(
+    <SettlementModal
+      currentUser={currentUser}
+      events={events}
+      users={[player, treasurer]}
+      bankAccounts={accounts}
+      onClose={vi.fn()}
+      onSettled={onSettled}
+    />
+  );
+
+describe('SettlementModal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows one payment per receiving account', () => {
+    renderModal(player);
+
+    const groups = screen.getAllByTestId('settlement-group');
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toHaveTextContent('400 Kč');
+    expect(groups[1]).toHaveTextContent('200 Kč');
+  });
+
+  it('lets only treasurers confirm', () => {
+    renderModal(player);
+
+    expect(screen.queryByTestId('settlement-confirm')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('settlement-debtor-select')).not.toBeInTheDocument();
+  });
+
+  it('marks every event of the account paid after the treasurer confirms', async () => {
+    vi.mocked(storage.markPaid).mockResolvedValue();
+    const onSettled = vi.fn();
+    const user = userEvent.setup();
+    renderModal(treasurer, onSettled);
+
+    await user.selectOptions(screen.getByTestId('settlement-debtor-select'), 'u1');
+    await user.click(screen.getAllByTestId('settlement-confirm')[0]);
+
+    await waitFor(() => expect(onSettled).toHaveBeenCalled());
+    expect(storage.markPaid).toHaveBeenCalledTimes(2);
+    expect(storage.markPaid).toHaveBeenCalledWith('e1', 'u1', true);
+    expect(storage.markPaid).toHaveBeenCalledWith('e2', 'u1', true);
+  });
+
+  it('says when there is nothing to pay', () => {
+    renderModal(treasurer);
+
+    expect(screen.getByText('Nemáte žádné dluhy.')).toBeInTheDocument();
+  });
+});
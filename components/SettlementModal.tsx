@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { SportEvent, User, BankAccount, SportConfig, Settlement, maskAccountNumber } from '../types';
+import * as storage from '../services/storage';
+import { calculateDebts } from '../shared/debt';
+import { groupDebtsByAccount } from '../utils/settlement';
+import { buildSpayd } from '../shared/spayd';
+import { convertToCZIBAN } from '../shared/iban';
+import { can } from '../utils/permissions';
+import { X, Landmark, Loader2, AlertTriangle, CheckCircle2, ChevronDown } from 'lucide-react';
+import { format } from 'date-fns';
+import { cs } from 'date-fns/locale';
+import { QRCode } from './QRCode';
+
+interface SettlementModalProps {
+  currentUser: User;
+  events: SportEvent[];
+  /** Members of the active group — treasurers pick whose debts to settle */
+  users: User[];
+  bankAccounts: BankAccount[];
+  sportConfigs?: SportConfig[];
+  onClose: () => void;
+  /** Called after payments were confirmed so the caller can reload events */
+  onSettled: () => void;
+}
+
+/** All unpaid events of one player, one QR payment per receiving account */
+export const SettlementModal: React.FC<SettlementModalProps> = ({
+  currentUser,
+  events,
+  users,
+  bankAccounts,
+  sportConfigs = [],
+  onClose,
+  onSettled,
+}) => {
+  const [debtorId, setDebtorId] = useState(currentUser.id);
+  const [savingAccount, setSavingAccount] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canConfirm = can(currentUser, 'payment:mark');
+
+  // Treasurers can switch to any member who owes something
+  const debtors = useMemo(
+    () => (canConfirm ? users.filter(u => u.id === currentUser.id || calculateDebts(events, u.id, sportConfigs).length > 0) : []),
+    [canConfirm, users, events, sportConfigs, currentUser.id],
+  );
+  const debtor = users.find(u => u.id === debtorId) ?? currentUser;
+  const settlements = useMemo(
+    () => groupDebtsByAccount(calculateDebts(events, debtor.id, sportConfigs), bankAccounts),
+    [events, debtor, sportConfigs, bankAccounts],
+  );
+
+  const handleConfirm = async (settlement: Settlement) => {
+    setSavingAccount(settlement.accountNumber);
+    setError(null);
+    try {
+      for (const { event, guest } of settlement.debts) {
+        await storage.markPaid(event.id, guest?.userId ?? debtor.id, true);
+      }
+      onSettled();
+    } catch (err: any) {
+      setError(err.message || 'Platby se nepodařilo potvrdit.');
+    } finally {
+      setSavingAccount(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50 flex-shrink-0">
+          <h3 className="font-bold text-lg text-slate-800">Zaplatit vše najednou</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          {debtors.length > 1 && (
+            <div className="relative">
+              <select
+                value={debtorId}
+                onChange={(e) => setDebtorId(e.target.value)}
+                className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm appearance-none pr-8 cursor-pointer"
+                data-testid="settlement-debtor-select"
+              >
+                {debtors.map(u => (
+                  <option key={u.id} value={u.id}>{u.name}</option>
+                ))}
+              </select>
+              <ChevronDown size={16} className="absolute right-2.5 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm flex items-center gap-2">
+              <AlertTriangle size={16} />
+              {error}
+            </div>
+          )}
+
+          {settlements.length === 0 && (
+            <p className="text-sm text-slate-500 italic text-center py-4">
+              {debtor.id === currentUser.id ? 'Nemáte žádné dluhy.' : `${debtor.name} nemá žádné dluhy.`}
+            </p>
+          )}
+
+          {settlements.map(settlement => {
+            const iban = convertToCZIBAN(settlement.accountNumber);
+            const qrString = iban
+              ? buildSpayd({ iban, amount: settlement.amount, message: settlement.message })
+              : null;
+            return (
+              <div
+                key={settlement.accountNumber || 'none'}
+                className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3"
+                data-testid="settlement-group"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Landmark size={16} className="text-blue-500 shrink-0" />
+                    <div className="min-w-0">
+                      {settlement.ownerName && <p className="text-xs text-slate-500 truncate">{settlement.ownerName}</p>}
+                      <p className="font-mono text-sm text-slate-800 truncate">
+                        {settlement.accountNumber ? maskAccountNumber(settlement.accountNumber) : 'Bez bankovního účtu'}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="text-xl font-bold text-blue-600 shrink-0">{settlement.amount} Kč</span>
+                </div>
+
+                <ul className="text-xs text-slate-600 space-y-1">
+                  {settlement.debts.map(({ event, amount, variableSymbol, guest }) => (
+                    <li key={`${event.id}:${guest?.userId ?? ''}`} className="flex justify-between gap-2">
+                      <span className="truncate">
+                        {event.title} • {format(new Date(event.date), 'd. M.', { locale: cs })}
+                        {guest && ` • host ${guest.name}`}
+                        <span className="font-mono text-slate-400"> • VS {variableSymbol}</span>
+                      </span>
+                      <span className="font-medium shrink-0">{amount} Kč</span>
+                    </li>
+                  ))}
+                </ul>
+
+                {qrString ? (
+                  <div className="flex flex-col items-center bg-white p-3 rounded-lg border border-slate-100">
+                    <QRCode value={qrString} size={160} level="M" viewBox={`0 0 256 256`} />
+                    <p className="text-xs text-slate-400 mt-2 text-center">Naskenujte ve svém bankovnictví</p>
+                  </div>
+                ) : (
+                  <p className="text-xs text-slate-400 italic text-center">
+                    {settlement.accountNumber ? 'Nelze vygenerovat QR kód (chybné číslo účtu).' : 'Organizátor u těchto událostí nevybral účet.'}
+                  </p>
+                )}
+
+                {canConfirm ? (
+                  <button
+                    onClick={() => handleConfirm(settlement)}
+                    disabled={savingAccount !== null}
+                    className="w-full bg-green-600 text-white py-2 rounded-lg font-medium hover:bg-green-700 transition-colors text-sm disabled:opacity-50 flex items-center justify-center gap-2"
+                    data-testid="settlement-confirm"
+                  >
+                    {savingAccount === settlement.accountNumber ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle2 size={16} />}
+                    Potvrdit přijetí platby
+                  </button>
+                ) : (
+                  <p className="text-xs text-slate-400 text-center">Po přijetí platby ji potvrdí pokladník.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
-import React, { useState, useMemo } from 'react';
-import { SportEvent, User, UserStats, Badge, DuoStats, SportConfig, SportType, SPORT_EMOJI, LeaderboardEntry, PlayerFormTrend, NemesisData, EventHealthMetrics, ClutchData } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { SportEvent, User, UserStats, Badge, DuoStats, SportConfig, SportType, Tournament, sportEmoji, LeaderboardEntry, PlayerFormTrend, NemesisData, EventHealthMetrics, ClutchData } from '../types';
 import { useStatistics } from '../services/useStatistics';
+import { tournamentEvents } from '../utils/tournament';
 import {
   ArrowLeft, Loader2, Trophy, Flame, Ghost, HelpCircle, Wallet,
   PartyPopper, TrendingUp, Calendar, Users, Target, BarChart3, Star, Swords, Zap, AlertCircle
@@ -12,8 +13,15 @@ interface StatsPageProps {
   isLoading: boolean;
   onClose: () => void;
   sportConfigs?: SportConfig[];
+  /** Events older than the ones loaded up front — asked for when the page opens */
+  history?: { loading: boolean; complete: boolean; loaded: number };
+  onLoadHistory?: () => void;
+  /** Their played matches count like the rounds of events */
+  tournaments?: Tournament[];
 }
 
+const NO_TOURNAMENTS: Tournament[] = [];
+
 const badgeIcons: Record<string, React.ReactNode> = {
   Flame: <Flame size={24} />,
   Ghost: <Ghost size={24} />,
@@ -102,13 +110,19 @@ function Sparkline({ results }: { results: boolean[] }) {
 
 // ── Section Cards ──
 
-function LeaderboardCard({ entries, currentUserId }: { entries: LeaderboardEntry[]; currentUserId: string }) {
+/** `sportType` is named in the title when the page shows a table per sport */
+function LeaderboardCard({ entries, currentUserId, sportConfigs, sportType }: { entries: LeaderboardEntry[]; currentUserId: string; sportConfigs: SportConfig[]; sportType?: SportType }) {
   if (entries.length === 0) return <InsufficientData message="Nedostatek dat pro žebříček (min. 3 události na hráče)" />;
   return (
-    <div className="bg-white rounded-2xl border border-slate-200 p-5 shadow-sm">
+    <div className="bg-white rounded-2xl border border-slate-200 p-5 shadow-sm" data-testid={`leaderboard-${sportType ?? 'all'}`}>
       <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
         <Trophy size={18} className="text-yellow-500" />
         Žebříček
+        {sportType && (
+          <span className="font-medium text-slate-500">
+            · {sportEmoji(sportType, sportConfigs)} {sportConfigs.find(c => c.type === sportType)?.label ?? sportType}
+          </span>
+        )}
       </h3>
       <div className="overflow-x-auto">
         <table className="w-full text-sm">
@@ -116,10 +130,10 @@ function LeaderboardCard({ entries, currentUserId }: { entries: LeaderboardEntry
             <tr className="text-xs text-slate-500 border-b border-slate-100">
               <th className="text-left py-2 pr-2">#</th>
               <th className="text-left py-2">Hráč</th>
-              <th className="text-right py-2 px-2" title="Hodnocení síly hráče (start 1000). Roste s výhrami, klesá s prohrami. Výhra proti silnějšímu soupeři dá více bodů.">ELO</th>
+              <th className="text-right py-2 px-2" title="Hodnocení síly hráče (start 1500) ± nejistota. Výhra proti silnějším a vyšším skóre dá víc bodů, nejistota roste, když hráč delší dobu nehraje. Pořadí bere v úvahu i nejistotu.">Rating</th>
               <th className="text-right py-2 px-2">Výhry</th>
               <th className="text-right py-2 px-2 hidden sm:table-cell">Zápasy</th>
-              <th className="text-right py-2 pl-2 hidden sm:table-cell" title="Spolehlivost: 60% docházka + 40% platební morálka">Spolehl.</th>
+              <th className="text-right py-2 pl-2 hidden sm:table-cell" title="Spolehlivost: 60% docházka + 40% platební morálka, −5 za pozdní odhlášení, −10 za nedostavení">Spolehl.</th>
             </tr>
           </thead>
           <tbody>
@@ -132,7 +146,10 @@ function LeaderboardCard({ entries, currentUserId }: { entries: LeaderboardEntry
                     <span className={`font-medium truncate max-w-[120px] ${entry.userId === currentUserId ? 'text-blue-700' : 'text-slate-700'}`}>{entry.name}</span>
                   </div>
                 </td>
-                <td className="text-right py-2 px-2 font-bold text-slate-700">{entry.eloRating}</td>
+                <td className="text-right py-2 px-2 whitespace-nowrap" data-testid={`leaderboard-rating-${entry.userId}`}>
+                  <span className="font-bold text-slate-700">{entry.rating}</span>
+                  <span className="text-xs text-slate-400"> ±{entry.ratingDeviation}</span>
+                </td>
                 <td className="text-right py-2 px-2 text-slate-600">{Math.round(entry.winRate * 100)}%</td>
                 <td className="text-right py-2 px-2 text-slate-500 hidden sm:table-cell">{entry.gamesPlayed}</td>
                 <td className="text-right py-2 pl-2 text-slate-500 hidden sm:table-cell">{entry.reliabilityScore}%</td>
@@ -283,7 +300,7 @@ function PersonalStatsCard({ stats, totalEventsCount }: { stats: UserStats; tota
     { icon: <Target size={18} />, label: 'Docházka', value: `${attendanceVsAll}%`, color: 'text-emerald-600', tooltip: `Účast na ${stats.eventsJoined} z ${totalEventsCount} všech událostí` },
     ...(stats.gamesPlayed > 0 ? [{ icon: <Trophy size={18} />, label: 'Výhry', value: `${stats.gamesWon}/${stats.gamesPlayed} (${Math.round(stats.winRate * 100)}%)`, color: 'text-indigo-600', tooltip: 'Počet vyhraných zápasů / celkem odehraných' }] : []),
     ...((stats.setsWon + stats.setsLost) > 0 ? [{ icon: <Swords size={18} />, label: 'Sety', value: `${stats.setsWon}:${stats.setsLost} (${Math.round(stats.setWinRate * 100)}%)`, color: 'text-purple-600', tooltip: 'Poměr vyhraných a prohraných setů' }] : []),
-    ...(stats.eloRating ? [{ icon: <Star size={18} />, label: 'ELO', value: `${stats.eloRating}`, color: 'text-yellow-600', tooltip: 'Hodnocení síly hráče. Start 1000, roste s výhrami proti silným soupeřům.' }] : []),
+    ...(stats.rating ? [{ icon: <Star size={18} />, label: 'Rating', value: `${stats.rating} ±${stats.ratingDeviation}`, color: 'text-yellow-600', tooltip: 'Hodnocení síly hráče. Start 1500, roste s výhrami proti silným soupeřům. Druhé číslo je nejistota — klesá s odehranými zápasy.' }] : []),
   ];
 
   return (
@@ -402,15 +419,22 @@ function EventHealthCard({ health }: { health: EventHealthMetrics }) {
 
 // ── Main Page ──
 
-export const StatsPage: React.FC<StatsPageProps> = ({ events, currentUser, isLoading, onClose, sportConfigs = [] }) => {
+export const StatsPage: React.FC<StatsPageProps> = ({ events: loadedEvents, currentUser, isLoading, onClose, sportConfigs = [], history, onLoadHistory, tournaments = NO_TOURNAMENTS }) => {
   const [sportFilter, setSportFilter] = useState<SportType | null>(null);
 
+  // Stats cover the whole history — it streams in while the page is open
+  useEffect(() => {
+    onLoadHistory?.();
+  }, [onLoadHistory]);
+
+  const events = useMemo(() => [...loadedEvents, ...tournamentEvents(tournaments)], [loadedEvents, tournaments]);
+
   const filteredEvents = useMemo(
     () => sportFilter ? events.filter(e => (e.sportType ?? 'volejbal') === sportFilter) : events,
     [events, sportFilter]
   );
 
-  const { personalStats, badges, duoStats, leaderboard, formTrend, nemesis, eventHealth, clutchData, dayHeatmap } = useStatistics(filteredEvents, currentUser, false, sportConfigs);
+  const { personalStats, badges, duoStats, leaderboards, formTrend, nemesis, eventHealth, clutchData, dayHeatmap } = useStatistics(filteredEvents, currentUser, false, sportConfigs);
 
   const hasEnoughData = filteredEvents.length >= 3;
 
@@ -437,6 +461,13 @@ export const StatsPage: React.FC<StatsPageProps> = ({ events, currentUser, isLoa
         </h2>
       </div>
 
+      {history?.loading && (
+        <div className="flex items-center gap-2 text-xs text-slate-500 mb-4" role="status">
+          <Loader2 size={14} className="animate-spin" />
+          Načítám starší události… ({history.loaded})
+        </div>
+      )}
+
       {activeSports.length > 1 && (
         <div className="flex flex-wrap gap-1.5 mb-6" data-testid="stats-sport-filter">
           <button onClick={() => setSportFilter(null)} className={`px-3 py-1.5 rounded-full text-xs font-medium transition-all border ${sportFilter === null ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'}`}>
@@ -444,7 +475,7 @@ export const StatsPage: React.FC<StatsPageProps> = ({ events, currentUser, isLoa
           </button>
           {activeSports.map(config => (
             <button key={config.type} onClick={() => setSportFilter(sportFilter === config.type ? null : config.type)} className={`px-3 py-1.5 rounded-full text-xs font-medium transition-all border flex items-center gap-1 ${sportFilter === config.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'}`}>
-              <span>{SPORT_EMOJI[config.type] ?? '🏅'}</span>
+              <span>{sportEmoji(config.type, sportConfigs)}</span>
               {config.label}
             </button>
           ))}
@@ -460,7 +491,17 @@ export const StatsPage: React.FC<StatsPageProps> = ({ events, currentUser, isLoa
       ) : (
         <div className="space-y-6">
           {/* Leaderboard */}
-          <LeaderboardCard entries={leaderboard} currentUserId={currentUser.id} />
+          {leaderboards.length === 0 ? (
+            <LeaderboardCard entries={[]} currentUserId={currentUser.id} sportConfigs={sportConfigs} />
+          ) : leaderboards.map(board => (
+            <LeaderboardCard
+              key={board.sportType}
+              entries={board.entries}
+              currentUserId={currentUser.id}
+              sportConfigs={sportConfigs}
+              sportType={leaderboards.length > 1 ? board.sportType : undefined}
+            />
+          ))}
 
           {/* Form */}
           {formTrend && formTrend.recentResults.length >= 2 && <FormCard formTrend={formTrend} />}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TournamentsPage } from './Tournaments';
+import { DEFAULT_SPORT_CONFIGS, Tournament, User } from '../types';
+import { createTournamentMatches } from '../utils/tournament';
+
+const organizer: User = { id: 'u1', name: 'Alice', role: 'organizer' };
+const player: User = { id: 'u2', name: 'Bob', role: 'player' };
+const users: User[] = [organizer, player, { id: 'u3', name: 'Cyril' }, { id: 'u4', name: 'Dana' }];
+
+const teams = [
+  { id: 't1', name: 'Modří', members: [{ userId: 'u1', name: 'Alice' }] },
+  { id: 't2', name: 'Červení', members: [{ userId: 'u2', name: 'Bob' }] },
+  { id: 't3', name: 'Zelení', members: [{ userId: 'u3', name: 'Cyril' }] },
+];
+
+const tournament: Tournament = {
+  id: 'tour-1',
+  name: 'Jarní turnaj',
+  date: '2026-04-18',
+  format: 'single-elimination',
+  teams,
+  matches: createTournamentMatches('single-elimination', teams.map(t => t.id)),
+  version: 1,
+};
+
+const renderPage = (props: Partial<React.ComponentProps<typeof TournamentsPage>> = {}) => {
+  const handlers = {
+    onClose: vi.fn(),
+    onCreate: vi.fn(async (t: Tournament) => ({ ...t, id: 'new' })),
+    onUpdate: vi.fn(async (_t: Tournament) => {}),
+    onDelete: vi.fn(async () => {}),
+  };
+  render(
+    <TournamentsPage
+      tournaments={[tournament]}
+      currentUser={organizer}
+      users={users}
+      sportConfigs={DEFAULT_SPORT_CONFIGS}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe('TournamentsPage', () => {
+  it('lists tournaments and hides creating and deleting from players', async () => {
+    const user = userEvent.setup();
+    renderPage({ currentUser: player });
+
+    expect(screen.queryByTestId('tournament-new')).not.toBeInTheDocument();
+    await user.click(screen.getByTestId('tournament-item-tour-1'));
+    expect(screen.getByTestId('tournament-bracket')).toBeInTheDocument();
+    expect(screen.queryByTestId('tournament-delete')).not.toBeInTheDocument();
+  });
+
+  it('creates a tournament of the registered teams', async () => {
+    const user = userEvent.setup();
+    const { onCreate } = renderPage({ tournaments: [] });
+
+    await user.click(screen.getByTestId('tournament-new'));
+    await user.type(screen.getByTestId('tournament-name'), 'Podzimní turnaj');
+    await user.click(screen.getByTestId('tournament-create'));
+    expect(screen.getByRole('alert')).toHaveTextContent('alespoň jednoho hráče');
+
+    await user.selectOptions(screen.getByTestId('tournament-player-u1'), '0');
+    await user.selectOptions(screen.getByTestId('tournament-player-u2'), '1');
+    await user.click(screen.getByTestId('tournament-create'));
+
+    await waitFor(() => expect(onCreate).toHaveBeenCalled());
+    const created = onCreate.mock.calls[0][0];
+    expect(created.name).toBe('Podzimní turnaj');
+    expect(created.teams.map(t => t.members.map(m => m.userId))).toEqual([['u1'], ['u2']]);
+    expect(created.matches.map(m => m.id)).toEqual(['w0-0']);
+  });
+
+  it('records a bracket result through the score editor', async () => {
+    const user = userEvent.setup();
+    const { onUpdate } = renderPage();
+
+    await user.click(screen.getByTestId('tournament-item-tour-1'));
+    // Seed 1 has a bye, so the only playable opening match is seeds 2 and 3
+    const playable = tournament.matches.find(m => m.round === 0 && m.teams[0] && m.teams[1])!;
+    await user.click(screen.getByTestId(`tournament-match-${playable.id}`));
+
+    const editor = screen.getByTestId('tournament-match-editor');
+    await user.click(within(editor).getByTestId('score-edit-btn'));
+    await user.click(within(editor).getByTestId('score-add-set-btn'));
+    await user.type(within(editor).getByTestId('score-set-0-team-0'), '25');
+    await user.type(within(editor).getByTestId('score-set-0-team-1'), '20');
+    await user.click(within(editor).getByTestId('score-save-btn'));
+
+    await waitFor(() => expect(onUpdate).toHaveBeenCalled());
+    const updated = onUpdate.mock.calls[0][0];
+    expect(updated.matches.find(m => m.id === playable.id)).toMatchObject({ winner: 0, score: [[25, 20]] });
+  });
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { TournamentMatch } from '@/types.ts';
+import { isPlayable } from '@/utils/tournament.ts';
+
+interface MatchCardProps {
+  match: TournamentMatch;
+  teamName: (teamId: string) => string;
+  selected: boolean;
+  onSelect: (matchId: string) => void;
+}
+
+/** One match: both teams, the winner highlighted, the sets won — playable ones open the score editor */
+export const MatchCard: React.FC<MatchCardProps> = ({ match, teamName, selected, onSelect }) => {
+  const playable = isPlayable(match);
+  const sets = match.score ?? [];
+  const setsWon = [sets.filter(([a, b]) => a > b).length, sets.filter(([a, b]) => b > a).length];
+
+  const side = (idx: 0 | 1) => {
+    const teamId = match.teams[idx];
+    const label = teamId ? teamName(teamId) : match.walkover ? 'volný los' : '?';
+    return (
+      <div className={`flex items-center justify-between gap-2 px-2 py-1 ${idx === 0 ? 'border-b border-slate-100' : ''}`}>
+        <span className={`truncate ${match.winner === idx ? 'font-semibold text-green-700' : teamId ? 'text-slate-700' : 'text-slate-400 italic'}`}>
+          {label}
+        </span>
+        {sets.length > 0 && <span className="font-mono text-slate-500">{setsWon[idx]}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(match.id)}
+      disabled={!playable}
+      className={`w-full text-left text-xs bg-white rounded-lg border transition-colors ${
+        selected ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-slate-200'
+      } ${playable ? 'hover:border-indigo-300 cursor-pointer' : 'opacity-70 cursor-default'}`}
+      data-testid={`tournament-match-${match.id}`}
+    >
+      {side(0)}
+      {side(1)}
+    </button>
+  );
+};
+
+interface BracketViewProps {
+  matches: TournamentMatch[];
+  teamName: (teamId: string) => string;
+  selectedMatchId: string | null;
+  onSelect: (matchId: string) => void;
+}
+
+const STAGE_TITLES: Record<'winners' | 'losers' | 'final', string> = {
+  winners: 'Pavouk',
+  losers: 'Pavouk poražených',
+  final: 'Finále',
+};
+
+/** Heading of a column — winners rounds are named counting back from their final */
+function columnTitle(stage: keyof typeof STAGE_TITLES, round: number, rounds: number, doubleElimination: boolean): string {
+  if (stage === 'final') return round === 0 ? 'Finále' : 'Opakované finále';
+  const fromEnd = rounds - 1 - round;
+  if (stage === 'losers' || fromEnd > 2) return `${round + 1}. kolo`;
+  if (fromEnd === 0) return doubleElimination ? 'Finále pavouku' : 'Finále';
+  return fromEnd === 1 ? 'Semifinále' : 'Čtvrtfinále';
+}
+
+/** Rounds of a bracket side by side, the final on the right */
+export const BracketView: React.FC<BracketViewProps> = ({ matches, teamName, selectedMatchId, onSelect }) => {
+  const doubleElimination = matches.some(m => m.stage === 'final');
+
+  return (
+    <div className="space-y-5" data-testid="tournament-bracket">
+      {(['winners', 'losers', 'final'] as const).map(stage => {
+        const stageMatches = matches.filter(m => m.stage === stage);
+        if (stageMatches.length === 0) return null;
+        const rounds = Math.max(...stageMatches.map(m => m.round)) + 1;
+
+        return (
+          <section key={stage}>
+            {doubleElimination && (
+              <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">{STAGE_TITLES[stage]}</h4>
+            )}
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {Array.from({ length: rounds }, (_, round) => (
+                <div key={round} className="flex flex-col justify-around gap-2 min-w-[150px] flex-1">
+                  <div className="text-[10px] font-medium text-slate-400 text-center">
+                    {columnTitle(stage, round, rounds, doubleElimination)}
+                  </div>
+                  {stageMatches.filter(m => m.round === round).map(m => (
+                    <MatchCard key={m.id} match={m} teamName={teamName} selected={selectedMatchId === m.id} onSelect={onSelect} />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
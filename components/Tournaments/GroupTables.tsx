@@ -0,0 +1,59 @@
+import React from 'react';
+import { Tournament } from '@/types.ts';
+import { groupStandings } from '@/utils/tournament.ts';
+import { MatchCard } from './BracketView';
+
+interface GroupTablesProps {
+  tournament: Tournament;
+  teamName: (teamId: string) => string;
+  selectedMatchId: string | null;
+  onSelect: (matchId: string) => void;
+}
+
+/** Table and matches of every group */
+export const GroupTables: React.FC<GroupTablesProps> = ({ tournament, teamName, selectedMatchId, onSelect }) => {
+  const groups = groupStandings(tournament);
+
+  return (
+    <div className="space-y-5">
+      {groups.map((table, group) => (
+        <section key={group} data-testid={`tournament-group-${group}`}>
+          {groups.length > 1 && (
+            <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">
+              Skupina {String.fromCharCode(65 + group)}
+            </h4>
+          )}
+          <table className="w-full text-xs mb-3" data-testid={`tournament-standings-${group}`}>
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left font-medium py-0.5">Tým</th>
+                <th className="font-medium" title="Zápasy">Z</th>
+                <th className="font-medium" title="Výhry">V</th>
+                <th className="font-medium" title="Prohry">P</th>
+                <th className="font-medium" title="Sety">Sety</th>
+                <th className="font-medium" title="Rozdíl míčů">Míče</th>
+              </tr>
+            </thead>
+            <tbody>
+              {table.map((s, pos) => (
+                <tr key={s.teamId} className={`text-center ${pos === 0 && s.won > 0 ? 'text-green-700 font-semibold' : 'text-slate-600'}`}>
+                  <td className="text-left py-0.5 truncate">{pos + 1}. {teamName(s.teamId)}</td>
+                  <td>{s.played}</td>
+                  <td>{s.won}</td>
+                  <td>{s.lost}</td>
+                  <td>{s.setsWon}:{s.setsLost}</td>
+                  <td>{s.pointsFor - s.pointsAgainst > 0 ? '+' : ''}{s.pointsFor - s.pointsAgainst}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {tournament.matches.filter(m => m.group === group).map(m => (
+              <MatchCard key={m.id} match={m} teamName={teamName} selected={selectedMatchId === m.id} onSelect={onSelect} />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { TournamentMatch, TournamentTeam } from '@/types.ts';
+import { ScoreEditor } from '../EventDetail/ScoreEditor';
+import { useScoreTracking } from '../EventDetail/hooks/useScoreTracking';
+
+interface MatchResultEditorProps {
+  match: TournamentMatch;
+  home: TournamentTeam;
+  away: TournamentTeam;
+  onSave: (matchId: string, score: [number, number][]) => void;
+}
+
+/**
+ * The sets of a tournament match, entered in the event's score editor —
+ * the match is shown to it as a round of the two teams.
+ */
+export const MatchResultEditor: React.FC<MatchResultEditorProps> = ({ match, home, away, onSave }) => {
+  const round = { teams: [home.members, away.members], teamNames: [home.name, away.name], score: match.score };
+  const scoreTracking = useScoreTracking({ event: round, onUpdate: updated => onSave(match.id, updated.score ?? []) });
+
+  return (
+    <div data-testid="tournament-match-editor">
+      <ScoreEditor event={round} scoreTracking={scoreTracking} />
+      {match.score && match.winner === undefined && (
+        <p className="text-xs text-amber-600 mt-1 text-center">Sety jsou nerozhodné — zápas zatím nemá vítěze.</p>
+      )}
+    </div>
+  );
+};
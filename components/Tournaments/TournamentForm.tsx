@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { MAX_TOURNAMENT_TEAMS, SportConfig, TEAM_COLOR_NAMES, Tournament, TournamentFormat, User } from '@/types.ts';
+import { Plus, X } from 'lucide-react';
+import { format as formatDate } from 'date-fns';
+import { createTournamentMatches, TOURNAMENT_FORMAT_LABELS } from '@/utils/tournament.ts';
+
+interface TournamentFormProps {
+  users: User[];
+  sportConfigs: SportConfig[];
+  onCreate: (tournament: Tournament) => Promise<void>;
+  onCancel: () => void;
+}
+
+const defaultTeamName = (idx: number) => TEAM_COLOR_NAMES[idx] ?? `Tým ${idx + 1}`;
+
+const inputClass = 'w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+/** A new tournament: its teams are registered here and stay fixed, listed in seeding order */
+export const TournamentForm: React.FC<TournamentFormProps> = ({ users, sportConfigs, onCreate, onCancel }) => {
+  const [name, setName] = useState('');
+  const [date, setDate] = useState(() => formatDate(new Date(), 'yyyy-MM-dd'));
+  const [location, setLocation] = useState('');
+  const [sportType, setSportType] = useState(sportConfigs[0]?.type ?? '');
+  const [tournamentFormat, setTournamentFormat] = useState<TournamentFormat>('single-elimination');
+  const [groupCount, setGroupCount] = useState(1);
+  const [teamNames, setTeamNames] = useState<string[]>([defaultTeamName(0), defaultTeamName(1)]);
+  // userId → team index
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const addTeam = () => setTeamNames(prev => [...prev, defaultTeamName(prev.length)]);
+
+  const removeTeam = (idx: number) => {
+    setTeamNames(prev => prev.filter((_, i) => i !== idx));
+    // Players of the removed team become unassigned, the later teams move up
+    setAssignments(prev => Object.fromEntries(Object.entries(prev)
+      .filter(([, team]) => team !== idx)
+      .map(([userId, team]) => [userId, team > idx ? team - 1 : team])));
+  };
+
+  const assign = (userId: string, team: number | null) => {
+    setAssignments(prev => {
+      const { [userId]: _previous, ...rest } = prev;
+      return team === null ? rest : { ...rest, [userId]: team };
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const teams = teamNames.map((teamName, idx) => ({
+      id: `t${idx + 1}`,
+      name: teamName.trim() || defaultTeamName(idx),
+      members: users
+        .filter(u => assignments[u.id] === idx)
+        .map(u => ({ userId: u.id, name: u.name, ...(u.photoUrl && { photoUrl: u.photoUrl }) })),
+    }));
+
+    if (teams.some(t => t.members.length === 0)) {
+      setError('Každý tým potřebuje alespoň jednoho hráče.');
+      return;
+    }
+
+    const groups = tournamentFormat === 'groups' ? groupCount : undefined;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onCreate({
+        id: '',
+        name: name.trim(),
+        date,
+        ...(location.trim() && { location: location.trim() }),
+        ...(sportType && { sportType }),
+        format: tournamentFormat,
+        ...(groups !== undefined && { groupCount: groups }),
+        teams,
+        matches: createTournamentMatches(tournamentFormat, teams.map(t => t.id), groups),
+      });
+    } catch (err: any) {
+      setError(err.message || 'Turnaj se nepodařilo vytvořit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-2xl border border-slate-200 p-4 space-y-4" data-testid="tournament-form">
+      <h3 className="text-lg font-bold text-slate-800">Nový turnaj</h3>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Název</label>
+        <input value={name} onChange={e => setName(e.target.value)} required className={inputClass} placeholder="např. Jarní turnaj" data-testid="tournament-name" />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Datum</label>
+          <input type="date" value={date} onChange={e => setDate(e.target.value)} required className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Místo</label>
+          <input value={location} onChange={e => setLocation(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Sport</label>
+          <select value={sportType} onChange={e => setSportType(e.target.value)} className={inputClass}>
+            {sportConfigs.map(c => <option key={c.type} value={c.type}>{c.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Formát</label>
+          <select
+            value={tournamentFormat}
+            onChange={e => setTournamentFormat(e.target.value as TournamentFormat)}
+            className={inputClass}
+            data-testid="tournament-format"
+          >
+            {(Object.keys(TOURNAMENT_FORMAT_LABELS) as TournamentFormat[]).map(f => (
+              <option key={f} value={f}>{TOURNAMENT_FORMAT_LABELS[f]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {tournamentFormat === 'groups' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Počet skupin</label>
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, Math.floor(teamNames.length / 2))}
+            value={groupCount}
+            onChange={e => setGroupCount(Math.max(1, Number(e.target.value)))}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-sm font-medium text-slate-700">Týmy (v pořadí nasazení)</label>
+          {teamNames.length < MAX_TOURNAMENT_TEAMS && (
+            <button type="button" onClick={addTeam} className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1" data-testid="tournament-add-team">
+              <Plus size={12} />
+              Přidat tým
+            </button>
+          )}
+        </div>
+        <div className="space-y-1.5">
+          {teamNames.map((teamName, idx) => (
+            <div key={idx} className="flex items-center gap-2">
+              <span className="text-xs text-slate-400 w-5 text-right">{idx + 1}.</span>
+              <input
+                value={teamName}
+                onChange={e => setTeamNames(prev => prev.map((n, i) => (i === idx ? e.target.value : n)))}
+                className="flex-1 px-2 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                data-testid={`tournament-team-name-${idx}`}
+              />
+              {teamNames.length > 2 && (
+                <button type="button" onClick={() => removeTeam(idx)} className="p-1 text-slate-400 hover:text-red-500" title="Odebrat tým">
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Hráči</label>
+        <div className="max-h-60 overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-lg">
+          {users.map(u => (
+            <div key={u.id} className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm">
+              <span className="truncate text-slate-700">{u.name}</span>
+              <select
+                value={assignments[u.id] ?? ''}
+                onChange={e => assign(u.id, e.target.value === '' ? null : Number(e.target.value))}
+                className="text-xs border border-slate-300 rounded px-1.5 py-1 bg-white"
+                data-testid={`tournament-player-${u.id}`}
+              >
+                <option value="">—</option>
+                {teamNames.map((teamName, idx) => <option key={idx} value={idx}>{teamName || defaultTeamName(idx)}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+          Zrušit
+        </button>
+        <button type="submit" disabled={isSaving} className="px-4 py-2 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50" data-testid="tournament-create">
+          Vytvořit turnaj
+        </button>
+      </div>
+    </form>
+  );
+};
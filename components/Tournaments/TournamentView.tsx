@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { SportConfig, Tournament, sportEmoji } from '@/types.ts';
+import { ArrowLeft, Trash2, Trophy, Calendar, MapPin } from 'lucide-react';
+import { format } from 'date-fns';
+import { TOURNAMENT_FORMAT_LABELS, tournamentChampion } from '@/utils/tournament.ts';
+import { ConfirmModal } from '../ConfirmModal';
+import { BracketView } from './BracketView';
+import { GroupTables } from './GroupTables';
+import { MatchResultEditor } from './MatchResultEditor';
+
+interface TournamentViewProps {
+  tournament: Tournament;
+  sportConfigs: SportConfig[];
+  onBack: () => void;
+  onRecord: (matchId: string, score: [number, number][]) => void;
+  /** Omitted for users who may not delete events — the button is hidden */
+  onDelete?: () => void;
+}
+
+/** A tournament's tables or bracket, with the score editor of the match picked */
+export const TournamentView: React.FC<TournamentViewProps> = ({ tournament, sportConfigs, onBack, onRecord, onDelete }) => {
+  const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const teams = new Map(tournament.teams.map(t => [t.id, t]));
+  const teamName = (teamId: string) => teams.get(teamId)?.name ?? '?';
+  const champion = tournamentChampion(tournament);
+
+  const selected = tournament.matches.find(m => m.id === selectedMatchId);
+  const home = selected?.teams[0] ? teams.get(selected.teams[0]) : undefined;
+  const away = selected?.teams[1] ? teams.get(selected.teams[1]) : undefined;
+
+  const handleSelect = (matchId: string) => setSelectedMatchId(prev => (prev === matchId ? null : matchId));
+
+  return (
+    <div className="space-y-4" data-testid="tournament-view">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2 min-w-0">
+          <button onClick={onBack} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-200 rounded-lg transition-colors" title="Zpět na turnaje">
+            <ArrowLeft size={18} />
+          </button>
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-800 truncate">
+              {tournament.sportType && <span className="mr-1">{sportEmoji(tournament.sportType, sportConfigs)}</span>}
+              {tournament.name}
+            </h3>
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5 text-xs text-slate-500">
+              <span className="flex items-center gap-1"><Calendar size={12} />{format(new Date(tournament.date), 'd. M. yyyy')}</span>
+              {tournament.location && <span className="flex items-center gap-1"><MapPin size={12} />{tournament.location}</span>}
+              <span>{TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.teams.length} týmů</span>
+            </div>
+          </div>
+        </div>
+        {onDelete && (
+          <button
+            onClick={() => setConfirmDelete(true)}
+            className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+            title="Smazat turnaj"
+            data-testid="tournament-delete"
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+
+      {champion && (
+        <div className="flex items-center justify-center gap-2 bg-amber-50 border border-amber-200 text-amber-700 rounded-xl py-3 font-semibold" data-testid="tournament-champion">
+          <Trophy size={18} />
+          Vítěz turnaje: {teamName(champion)}
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border border-slate-200 p-4">
+        {tournament.format === 'groups' ? (
+          <GroupTables tournament={tournament} teamName={teamName} selectedMatchId={selectedMatchId} onSelect={handleSelect} />
+        ) : (
+          <BracketView matches={tournament.matches} teamName={teamName} selectedMatchId={selectedMatchId} onSelect={handleSelect} />
+        )}
+      </div>
+
+      {selected && home && away ? (
+        <MatchResultEditor key={selected.id} match={selected} home={home} away={away} onSave={onRecord} />
+      ) : (
+        <p className="text-xs text-slate-400 text-center">Výsledek zadáte po kliknutí na zápas.</p>
+      )}
+
+      <div className="bg-white rounded-2xl border border-slate-200 p-4">
+        <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Týmy</h4>
+        <ul className="space-y-1 text-sm">
+          {tournament.teams.map((team, seed) => (
+            <li key={team.id} className="flex gap-2">
+              <span className="text-slate-400 w-5 text-right">{seed + 1}.</span>
+              <span className="font-medium text-slate-700">{team.name}</span>
+              <span className="text-slate-500 truncate">{team.members.map(m => m.name).join(', ')}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <ConfirmModal
+        isOpen={confirmDelete}
+        title="Smazat turnaj?"
+        message="Opravdu chcete turnaj nenávratně odstranit? Jeho výsledky zmizí i ze statistik."
+        onConfirm={() => { setConfirmDelete(false); onDelete?.(); }}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </div>
+  );
+};
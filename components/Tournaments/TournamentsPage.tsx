@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { SportConfig, Tournament, User, sportEmoji } from '@/types.ts';
+import { ArrowLeft, Medal, Plus, Trophy, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { recordTournamentResult, TOURNAMENT_FORMAT_LABELS, tournamentChampion } from '@/utils/tournament.ts';
+import { can } from '@/utils/permissions.ts';
+import { TournamentForm } from './TournamentForm';
+import { TournamentView } from './TournamentView';
+
+interface TournamentsPageProps {
+  tournaments: Tournament[];
+  currentUser: User;
+  users: User[];
+  sportConfigs: SportConfig[];
+  onClose: () => void;
+  onCreate: (tournament: Tournament) => Promise<Tournament>;
+  onUpdate: (tournament: Tournament) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+/** The group's tournaments — organizers create them, anyone records results */
+export const TournamentsPage: React.FC<TournamentsPageProps> = ({
+  tournaments, currentUser, users, sportConfigs, onClose, onCreate, onUpdate, onDelete,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = tournaments.find(t => t.id === selectedId);
+
+  const handleCreate = async (tournament: Tournament) => {
+    const created = await onCreate(tournament);
+    setIsCreating(false);
+    setSelectedId(created.id);
+  };
+
+  const handleRecord = async (matchId: string, score: [number, number][]) => {
+    if (!selected) return;
+    setError(null);
+    try {
+      await onUpdate(recordTournamentResult(selected, matchId, score));
+    } catch (err: any) {
+      setError(err.status === 409 ? 'Turnaj mezitím upravil někdo jiný — zkontrolujte výsledek a zadejte ho znovu.' : err.message || 'Výsledek se nepodařilo uložit.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    await onDelete(selected.id);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto w-full" data-testid="tournaments-page">
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-200 rounded-lg transition-colors">
+            <ArrowLeft size={20} />
+          </button>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <Medal size={24} className="text-amber-500" />
+            Turnaje
+          </h2>
+        </div>
+        {can(currentUser, 'event:create') && !isCreating && !selected && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="px-3 py-2 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-1"
+            data-testid="tournament-new"
+          >
+            <Plus size={16} />
+            Nový turnaj
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4" role="alert">{error}</p>}
+
+      {isCreating ? (
+        <TournamentForm users={users} sportConfigs={sportConfigs} onCreate={handleCreate} onCancel={() => setIsCreating(false)} />
+      ) : selected ? (
+        <TournamentView
+          tournament={selected}
+          sportConfigs={sportConfigs}
+          onBack={() => { setSelectedId(null); setError(null); }}
+          onRecord={handleRecord}
+          onDelete={can(currentUser, 'event:delete') ? handleDelete : undefined}
+        />
+      ) : tournaments.length === 0 ? (
+        <div className="text-center py-16 text-slate-400 border-2 border-dashed border-slate-200 rounded-2xl">
+          <Medal size={48} className="mx-auto mb-4 text-slate-300" />
+          <p className="text-lg font-medium">Zatím žádné turnaje</p>
+          <p className="text-sm mt-1">Turnaj pevných týmů se skupinami nebo pavoukem.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {tournaments.map(t => {
+            const champion = tournamentChampion(t);
+            return (
+              <button
+                key={t.id}
+                onClick={() => setSelectedId(t.id)}
+                className="w-full bg-white rounded-xl border border-slate-200 p-4 flex items-center justify-between gap-3 text-left hover:border-blue-300 transition-colors"
+                data-testid={`tournament-item-${t.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="font-semibold text-slate-800 truncate">
+                    {t.sportType && <span className="mr-1">{sportEmoji(t.sportType, sportConfigs)}</span>}
+                    {t.name}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {format(new Date(t.date), 'd. M. yyyy')} · {TOURNAMENT_FORMAT_LABELS[t.format]} · {t.teams.length} týmů
+                  </div>
+                  {champion && (
+                    <div className="text-xs text-amber-600 font-medium flex items-center gap-1 mt-0.5">
+                      <Trophy size={12} />
+                      {t.teams.find(team => team.id === champion)?.name}
+                    </div>
+                  )}
+                </div>
+                <ChevronRight size={18} className="text-slate-300 shrink-0" />
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+// Barrel file
+export { TournamentsPage } from './TournamentsPage';
@@ -1,15 +1,9 @@
 import React from 'react';
-import { SportEvent } from '../types';
+import { DebtItem } from '../types';
 import { AlertCircle, Calendar, Wallet } from 'lucide-react';
 import { format } from 'date-fns';
 import { cs } from 'date-fns/locale';
 
-export interface DebtItem {
-  event: SportEvent;
-  amount: number;
-  daysOverdue: number;
-}
-
 interface UnpaidAlertModalProps {
   debts: DebtItem[];
   onClose: () => void;
@@ -39,14 +33,17 @@ export const UnpaidAlertModal: React.FC<UnpaidAlertModalProps> = ({ debts, onClo
 
         {/* List */}
         <div className="flex-1 overflow-y-auto p-6 space-y-4 bg-slate-50">
-          {debts.map(({ event, amount, daysOverdue }) => (
-            <div key={event.id} className="bg-white border border-red-100 rounded-xl p-4 shadow-sm relative overflow-hidden">
+          {debts.map(({ event, amount, daysOverdue, variableSymbol, guest }) => (
+            <div key={`${event.id}:${guest?.userId ?? ''}`} className="bg-white border border-red-100 rounded-xl p-4 shadow-sm relative overflow-hidden">
               <div className="absolute top-0 right-0 bg-red-100 text-red-600 text-[10px] px-2 py-1 rounded-bl-lg font-bold">
                 {daysOverdue} dní po
               </div>
               
               <div className="flex justify-between items-start mb-2 pr-12">
-                <h3 className="font-bold text-slate-800">{event.title}</h3>
+                <h3 className="font-bold text-slate-800">
+                  {event.title}
+                  {guest && <span className="block text-xs font-normal text-slate-500">za hosta {guest.name}</span>}
+                </h3>
               </div>
               
               <div className="flex items-center gap-4 text-sm text-slate-600 mb-3">
@@ -59,7 +56,10 @@ export const UnpaidAlertModal: React.FC<UnpaidAlertModalProps> = ({ debts, onClo
               </div>
 
               <div className="flex items-center justify-between pt-3 border-t border-slate-100">
-                <span className="text-xs text-slate-400">Dlužná částka</span>
+                <span className="text-xs text-slate-400">
+                  Dlužná částka
+                  <span className="block font-mono text-slate-500" data-testid={`debt-vs-${guest?.userId ?? event.id}`}>VS {variableSymbol}</span>
+                </span>
                 <span className="font-bold text-red-600 text-lg">{amount} Kč</span>
               </div>
             </div>
@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
 import { DebtItem } from '../types';
-import { AlertCircle, ChevronDown, ChevronUp, Calendar } from 'lucide-react';
+import { AlertCircle, ChevronDown, ChevronUp, Calendar, QrCode } from 'lucide-react';
 import { format } from 'date-fns';
 import { cs } from 'date-fns/locale';
 
 interface UnpaidBannerProps {
   debts: DebtItem[];
+  /** Opens the settlement view with one QR payment per account */
+  onSettle?: () => void;
 }
 
-export const UnpaidBanner: React.FC<UnpaidBannerProps> = ({ debts }) => {
+export const UnpaidBanner: React.FC<UnpaidBannerProps> = ({ debts, onSettle }) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
   if (debts.length === 0) return null;
@@ -60,9 +62,20 @@ export const UnpaidBanner: React.FC<UnpaidBannerProps> = ({ debts }) => {
               <span className="font-bold text-red-600 text-sm">{amount} Kč</span>
             </div>
           ))}
-          <div className="pt-2 text-center text-xs text-slate-400 italic">
-            Pro zaplacení rozklikněte detail události v kalendáři a naskenujte QR kód.
-          </div>
+          {onSettle ? (
+            <button
+              onClick={onSettle}
+              className="w-full py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+              data-testid="unpaid-settle-btn"
+            >
+              <QrCode size={16} />
+              Zaplatit vše najednou
+            </button>
+          ) : (
+            <div className="pt-2 text-center text-xs text-slate-400 italic">
+              Pro zaplacení rozklikněte detail události v kalendáři a naskenujte QR kód.
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -52,6 +52,14 @@ export default tseslint.config(
     },
   },
 
+  // Service worker — plain JS served from public/
+  {
+    files: ['public/sw.js'],
+    languageOptions: {
+      globals: globals.serviceworker,
+    },
+  },
+
   // services/storage.ts — useApi() is a regular function, not a hook
   {
     files: ['services/storage.ts'],
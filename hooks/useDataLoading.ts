@@ -1,30 +1,212 @@
-import { useState, useEffect, useCallback } from 'react';
-import { SportEvent, User, DebtItem, BankAccount, SportConfig } from '@/types.ts';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { subDays, subMonths } from 'date-fns';
+import { SportEvent, EventQuery, User, DebtItem, BankAccount, SportConfig } from '@/types.ts';
 import * as storage from '@/services/storage.ts';
-import { calculateDebts } from '@/utils/debt.ts';
+import { calculateDebts } from '@/shared/debt.ts';
+import { mergeChangedEvents } from '@/utils/liveSync.ts';
+import { changedFields, keepMine, mergeEventChanges, EventMerge } from '@/utils/eventMerge.ts';
+import { addRange, coversRange, dayBefore, replaceRange, toIsoDate, upsertEvents, DateRange } from '@/utils/eventRange.ts';
+
+/** Changes arriving together (a batch, a waitlist promotion) are loaded once */
+const SYNC_DEBOUNCE_MS = 300;
+
+/**
+ * Past events loaded up front; the stats page loads the rest on demand.
+ * Older events someone still owes for are loaded with them, so debts, the
+ * settlement and the payment import see every unpaid share.
+ */
+const RECENT_MONTHS = 6;
+/** Upcoming events per page of the list */
+const UPCOMING_PAGE_SIZE = 20;
+/** Older events per request while the stats page loads the history */
+const HISTORY_PAGE_SIZE = 100;
+
+/** Loading of the events before the recent window, for the stats page */
+export interface HistoryState {
+  loading: boolean;
+  complete: boolean;
+  /** Older events loaded so far */
+  loaded: number;
+}
+
+const NO_HISTORY: HistoryState = { loading: false, complete: false, loaded: 0 };
+
+/** A save that collided with someone else's edit of the same fields — the user decides */
+export interface EventConflict {
+  mine: SportEvent;
+  theirs: SportEvent;
+  merge: EventMerge;
+}
 
 interface UseDataLoadingProps {
   currentUser: User | null;
+  /** Active group — nothing is loaded until one is selected */
+  groupId: string | null;
+  /** Event open in the detail — its viewers are reported in `viewers` */
+  viewingEventId?: string | null;
+  /** A tournament was changed on another device — the stream is shared with the tournaments */
+  onTournamentChange?: () => void;
 }
 
-export function useDataLoading({ currentUser }: UseDataLoadingProps) {
+export function useDataLoading({ currentUser, groupId, viewingEventId = null, onTournamentChange }: UseDataLoadingProps) {
   const [events, setEvents] = useState<SportEvent[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // Another month of the calendar is being loaded — shown in the calendar, not as an overlay
+  const [isLoadingRange, setIsLoadingRange] = useState(false);
+  const [upcomingCursor, setUpcomingCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [history, setHistory] = useState<HistoryState>(NO_HISTORY);
   const [unpaidDebts, setUnpaidDebts] = useState<DebtItem[]>([]);
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
   const [sportConfigs, setSportConfigs] = useState<SportConfig[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [viewers, setViewers] = useState<string[]>([]);
+  // Replaying offline edits can collide on several events — they are asked about one by one
+  const [conflicts, setConflicts] = useState<EventConflict[]>([]);
+
+  // Saves need the copy an edit started from, without re-creating updateEvent on every load
+  const eventsRef = useRef(events);
+  useEffect(() => { eventsRef.current = events; }, [events]);
+
+  // Date ranges whose events are all loaded, and where the first load of the group started
+  const rangesRef = useRef<DateRange[]>([]);
+  const recentFromRef = useRef('');
+  // Bumped when the group changes, so loads still running for the old one are dropped
+  const generationRef = useRef(0);
+  // The calendar's month grid — part of the first load of a group too
+  const visibleRangeRef = useRef<Required<DateRange> | null>(null);
+  // Ranges on their way, by `from..to` — both layouts show a calendar
+  const pendingRangesRef = useRef(new Set<string>());
+  const historyRef = useRef(history);
+  useEffect(() => { historyRef.current = history; }, [history]);
+  // Followed without re-subscribing to the stream when the callback changes
+  const onTournamentChangeRef = useRef(onTournamentChange);
+  useEffect(() => { onTournamentChangeRef.current = onTournamentChange; }, [onTournamentChange]);
+
+  /**
+   * Load one page and lay it over the loaded events. Pages run oldest first
+   * from `query.from`, so once one ends the days before its last event are
+   * complete (that day itself may go on in the next page).
+   */
+  const loadPage = useCallback(async (query: EventQuery) => {
+    const generation = generationRef.current;
+    const page = await storage.getEventsPage(query);
+    if (generation !== generationRef.current) return null;
+
+    const last = page.events[page.events.length - 1];
+    const complete = page.nextCursor ? { from: query.from, to: dayBefore(last.date) } : { from: query.from, to: query.to };
+    rangesRef.current = addRange(rangesRef.current, complete);
+    setEvents(prev => upsertEvents(prev, page.events));
+    return page;
+  }, []);
+
+  /** Load every event of a bounded date range, replacing what was loaded of it before */
+  const loadRange = useCallback(async (range: DateRange) => {
+    const generation = generationRef.current;
+    const fresh = await storage.getEvents(range);
+    if (generation !== generationRef.current) return;
+
+    rangesRef.current = addRange(rangesRef.current, range);
+    setEvents(prev => replaceRange(prev, fresh, range));
+  }, []);
+
+  /** Events before the recent window that someone still owes for */
+  const loadUnpaid = useCallback(async () => {
+    const generation = generationRef.current;
+    const unpaid = await storage.getUnpaidEvents(dayBefore(recentFromRef.current));
+    if (generation !== generationRef.current) return;
+    setEvents(prev => upsertEvents(prev, unpaid));
+  }, []);
+
+  /** The first load of a group: the recent past, older unpaid events and the first page of upcoming events */
+  const loadInitialEvents = useCallback(async () => {
+    const now = new Date();
+    recentFromRef.current = toIsoDate(subMonths(now, RECENT_MONTHS));
+    const [, upcoming] = await Promise.all([
+      loadRange({ from: recentFromRef.current, to: toIsoDate(subDays(now, 1)) }),
+      loadPage({ from: toIsoDate(now), limit: UPCOMING_PAGE_SIZE }),
+      loadUnpaid(),
+      visibleRangeRef.current && loadRange(visibleRangeRef.current),
+    ]);
+    if (upcoming) setUpcomingCursor(upcoming.nextCursor);
+  }, [loadRange, loadPage, loadUnpaid]);
 
+  /**
+   * Reload everything loaded so far — after a replay of offline writes, a
+   * payment import or a settlement. Before the first load of a group, the
+   * first load.
+   */
   const loadEvents = useCallback(async () => {
     setIsLoading(true);
     try {
-      setEvents(await storage.getEvents());
+      const ranges = rangesRef.current;
+      if (ranges.length === 0) {
+        await loadInitialEvents();
+      } else {
+        await Promise.all([...ranges.map(loadRange), loadUnpaid()]);
+      }
     } catch (error) {
       console.error("Failed to load events", error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [loadInitialEvents, loadRange, loadUnpaid]);
+
+  /** Make sure a range is loaded — the calendar asks for the month grid it shows */
+  const ensureRange = useCallback(async (range: Required<DateRange>) => {
+    visibleRangeRef.current = range;
+    const key = `${range.from}..${range.to}`;
+    if (coversRange(rangesRef.current, range) || pendingRangesRef.current.has(key)) return;
+
+    pendingRangesRef.current.add(key);
+    setIsLoadingRange(true);
+    try {
+      await loadRange(range);
+    } catch (error) {
+      console.error("Failed to load events", error);
+    } finally {
+      pendingRangesRef.current.delete(key);
+      setIsLoadingRange(pendingRangesRef.current.size > 0);
+    }
+  }, [loadRange]);
+
+  /** Next page of the upcoming events list */
+  const loadMoreUpcoming = useCallback(async () => {
+    if (!upcomingCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await loadPage({ from: toIsoDate(new Date()), cursor: upcomingCursor, limit: UPCOMING_PAGE_SIZE });
+      if (page) setUpcomingCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Failed to load events", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [upcomingCursor, loadPage]);
+
+  /** Load all events before the recent window, page by page, for the stats page */
+  const loadHistory = useCallback(async () => {
+    if (historyRef.current.loading || historyRef.current.complete || !recentFromRef.current) return;
+    const generation = generationRef.current;
+    // Set right away — a second call before the next render must not start another run
+    historyRef.current = { loading: true, complete: false, loaded: 0 };
+    setHistory(historyRef.current);
+
+    let cursor: string | undefined;
+    let loaded = 0;
+    try {
+      do {
+        const page = await loadPage({ to: dayBefore(recentFromRef.current), cursor, limit: HISTORY_PAGE_SIZE });
+        if (!page) return;
+        loaded += page.events.length;
+        cursor = page.nextCursor ?? undefined;
+        setHistory({ loading: !!cursor, complete: !cursor, loaded });
+      } while (cursor);
+    } catch (error) {
+      console.error("Failed to load event history", error);
+      if (generation === generationRef.current) setHistory({ loading: false, complete: false, loaded });
+    }
+  }, [loadPage]);
 
   const loadUsers = useCallback(async () => {
     try {
@@ -51,12 +233,80 @@ export function useDataLoading({ currentUser }: UseDataLoadingProps) {
   }, []);
 
   useEffect(() => {
-    if (!currentUser) return;
+    generationRef.current++;
+    rangesRef.current = [];
+    setEvents([]);
+    setUpcomingCursor(null);
+    setHistory(NO_HISTORY);
+    if (!currentUser || !groupId) {
+      setUsers([]);
+      setBankAccounts([]);
+      return;
+    }
     loadEvents();
     loadUsers();
     loadBankAccounts();
     loadSportConfigs();
-  }, [currentUser, loadEvents, loadUsers, loadBankAccounts, loadSportConfigs]);
+  }, [currentUser, groupId, loadEvents, loadUsers, loadBankAccounts, loadSportConfigs]);
+
+  // Live sync — reload the events changed on other devices while the app is open
+  const userId = currentUser?.id;
+  useEffect(() => {
+    if (!userId || !groupId) return;
+
+    const changedIds = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const syncChanged = async () => {
+      const ids = new Set(changedIds);
+      changedIds.clear();
+      try {
+        const changed = await Promise.all([...ids].map(id => storage.getEvent(id)));
+        setEvents(prev => {
+          // An event created for (or moved to) a date not loaded yet comes with that date
+          const shown = new Set(prev.map(e => e.id));
+          const fresh = changed.filter((e): e is SportEvent =>
+            !!e && (shown.has(e.id) || coversRange(rangesRef.current, { from: e.date, to: e.date })));
+          return mergeChangedEvents(prev, [...prev.filter(e => !ids.has(e.id)), ...fresh], ids);
+        });
+      } catch (error) {
+        console.error("Failed to sync events", error);
+      }
+    };
+
+    const unsubscribe = storage.subscribeToChanges({
+      eventId: viewingEventId,
+      onChange: change => {
+        if (change.kind === 'tournament') {
+          onTournamentChangeRef.current?.();
+          return;
+        }
+        changedIds.add(change.eventId);
+        clearTimeout(timer);
+        timer = setTimeout(syncChanged, SYNC_DEBOUNCE_MS);
+      },
+      onPresence: setViewers,
+    });
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+      setViewers([]);
+    };
+  }, [userId, groupId, viewingEventId]);
+
+  // A linked event may lie outside the loaded dates
+  useEffect(() => {
+    if (!userId || !groupId || !viewingEventId) return;
+    if (eventsRef.current.some(e => e.id === viewingEventId)) return;
+
+    const generation = generationRef.current;
+    storage.getEvent(viewingEventId)
+      .then(event => {
+        if (event && generation === generationRef.current) setEvents(prev => upsertEvents(prev, [event]));
+      })
+      .catch(error => console.error("Failed to load event", error));
+  }, [userId, groupId, viewingEventId]);
 
   // Recalculate debts
   useEffect(() => {
@@ -64,54 +314,118 @@ export function useDataLoading({ currentUser }: UseDataLoadingProps) {
       setUnpaidDebts([]);
       return;
     }
-    setUnpaidDebts(calculateDebts(events, currentUser));
-  }, [currentUser, events]);
+    setUnpaidDebts(calculateDebts(events, currentUser.id, sportConfigs));
+  }, [currentUser, events, sportConfigs]);
 
   const createEvent = useCallback(async (newEvent: SportEvent) => {
     setIsLoading(true);
-    const updatedList = await storage.createEvent(newEvent);
-    setEvents(updatedList);
-    setIsLoading(false);
-    return updatedList;
+    try {
+      const created = await storage.createEvent(newEvent);
+      if (created) setEvents(prev => upsertEvents(prev, [created]));
+      return created;
+    } finally {
+      setIsLoading(false);
+    }
   }, []);
 
   const createEventsBatch = useCallback(async (newEvents: SportEvent[]) => {
     setIsLoading(true);
     try {
-      const updatedList = await storage.createEventsBatch(newEvents);
-      setEvents(updatedList);
-      return updatedList;
+      const created = await storage.createEventsBatch(newEvents);
+      setEvents(prev => upsertEvents(prev, created));
+      return created;
     } finally {
       setIsLoading(false);
     }
   }, []);
 
-  const updateEvent = useCallback(async (updatedEvent: SportEvent) => {
-    setEvents(await storage.updateEvent(updatedEvent));
+  const showSaved = useCallback((saved: SportEvent | null) => {
+    if (saved) setEvents(prev => upsertEvents(prev, [saved]));
   }, []);
 
+  /**
+   * A save was rejected as stale: put my changes on top of the server copy,
+   * or ask when both sides changed the same fields. Without the copy the
+   * edit started from, every differing field is asked about.
+   */
+  const settleConflict = useCallback(async (base: SportEvent | undefined, mine: SportEvent, current: SportEvent, ownWrite = false) => {
+    const merge = base
+      ? mergeEventChanges(base, mine, current)
+      : { merged: current, conflicts: changedFields(mine, current) };
+    if (merge.conflicts.length > 0 && !ownWrite) {
+      setEvents(prev => prev.map(e => (e.id === current.id ? current : e)));
+      setConflicts(prev => [...prev, { mine, theirs: current, merge }]);
+      return;
+    }
+
+    // Someone else changed other fields, or this tab saved a moment ago — the newer edit goes on top
+    const resolved = keepMine(merge, mine);
+    if (changedFields(current, resolved).length === 0) {
+      setEvents(prev => prev.map(e => (e.id === current.id ? current : e)));
+      return;
+    }
+    showSaved(await storage.updateEvent({ ...resolved, version: current.version }));
+  }, [showSaved]);
+
+  const updateEvent = useCallback(async (updatedEvent: SportEvent) => {
+    const base = eventsRef.current.find(e => e.id === updatedEvent.id);
+    try {
+      showSaved(await storage.updateEvent(updatedEvent));
+    } catch (error) {
+      if (!(error instanceof storage.EventConflictError) || !base) throw error;
+      await settleConflict(base, updatedEvent, error.current, error.ownWrite);
+    }
+  }, [settleConflict, showSaved]);
+
+  const conflict = conflicts[0] ?? null;
+
+  /** Settle the first open conflict: keep my values of the contested fields, or take theirs */
+  const resolveConflict = useCallback(async (keep: 'mine' | 'theirs') => {
+    if (!conflict) return;
+    setConflicts(prev => prev.slice(1));
+
+    const { mine, theirs, merge } = conflict;
+    const resolved = keep === 'mine' ? keepMine(merge, mine) : merge.merged;
+    // Their copy is already on screen — nothing of mine left to save
+    if (changedFields(theirs, resolved).length === 0) return;
+    await updateEvent({ ...resolved, version: theirs.version });
+  }, [conflict, updateEvent]);
+
   const deleteEvent = useCallback(async (id: string) => {
     setIsLoading(true);
-    const updatedList = await storage.deleteEvent(id);
-    setEvents(updatedList);
-    setIsLoading(false);
-    return updatedList;
+    try {
+      await storage.deleteEvent(id);
+      setEvents(prev => prev.filter(e => e.id !== id));
+    } finally {
+      setIsLoading(false);
+    }
   }, []);
 
   return {
     events,
     isLoading,
+    isLoadingRange,
+    ensureRange,
+    hasMoreUpcoming: upcomingCursor !== null,
+    isLoadingMore,
+    loadMoreUpcoming,
+    history,
+    loadHistory,
     unpaidDebts,
     bankAccounts,
     setBankAccounts,
     sportConfigs,
     setSportConfigs,
     users,
+    viewers,
     loadEvents,
     loadUsers,
     createEvent,
     createEventsBatch,
     updateEvent,
+    conflict,
+    settleConflict,
+    resolveConflict,
     deleteEvent,
   };
 }
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Group, User } from '@/types.ts';
+import * as storage from '@/services/storage.ts';
+
+const ACTIVE_GROUP_KEY = 'activeGroupId';
+const INVITE_PARAM = 'invite';
+
+/** Invite code from a shared link (`?invite=CODE`), read once on page load */
+function readInviteCode(): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get(INVITE_PARAM);
+}
+
+function clearInviteCode() {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(INVITE_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+}
+
+interface UseGroupsProps {
+  currentUser: User | null;
+}
+
+/**
+ * Groups of the signed-in user and the active one. The active group is sent
+ * with every API request, so data loading waits until `activeGroup` is set.
+ * A pending invite link is accepted right after login.
+ */
+export function useGroups({ currentUser }: UseGroupsProps) {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
+  // False until the first list for the signed-in user arrives — avoids flashing the setup screen
+  const [hasLoadedGroups, setHasLoadedGroups] = useState(false);
+  const inviteCodeRef = useRef<string | null>(readInviteCode());
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  const selectGroup = useCallback((groupId: string | null) => {
+    storage.setActiveGroup(groupId);
+    setActiveGroupId(groupId);
+    if (groupId) localStorage.setItem(ACTIVE_GROUP_KEY, groupId);
+  }, []);
+
+  /** Reload the group list; keeps the active group when still a member */
+  const loadGroups = useCallback(async (preferredId?: string) => {
+    try {
+      const list = await storage.getGroups();
+      setGroups(list);
+      const saved = preferredId ?? localStorage.getItem(ACTIVE_GROUP_KEY);
+      selectGroup(list.find(g => g.id === saved)?.id ?? list[0]?.id ?? null);
+    } catch (error) {
+      console.error("Failed to load groups", error);
+    } finally {
+      setHasLoadedGroups(true);
+    }
+  }, [selectGroup]);
+
+  const userId = currentUser?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      // Signed out — no group scope
+      storage.setActiveGroup(null);
+      setGroups([]);
+      setActiveGroupId(null);
+      setHasLoadedGroups(false);
+      return;
+    }
+
+    const inviteCode = inviteCodeRef.current;
+    if (!inviteCode) {
+      loadGroups();
+      return;
+    }
+
+    inviteCodeRef.current = null;
+    clearInviteCode();
+    storage.joinGroup(inviteCode)
+      .then(group => loadGroups(group.id))
+      .catch((error: any) => {
+        setInviteError(error.message || 'Pozvánku se nepodařilo přijmout.');
+        loadGroups();
+      });
+  }, [userId, loadGroups]);
+
+  const createGroup = useCallback(async (name: string) => {
+    const group = await storage.createGroup(name);
+    await loadGroups(group.id);
+  }, [loadGroups]);
+
+  const joinGroup = useCallback(async (code: string) => {
+    const group = await storage.joinGroup(code);
+    await loadGroups(group.id);
+  }, [loadGroups]);
+
+  return {
+    groups,
+    activeGroup: groups.find(g => g.id === activeGroupId) ?? null,
+    hasLoadedGroups,
+    inviteError,
+    dismissInviteError: () => setInviteError(null),
+    selectGroup,
+    loadGroups,
+    createGroup,
+    joinGroup,
+  };
+}
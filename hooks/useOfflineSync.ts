@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SportEvent } from '@/types.ts';
+import * as storage from '@/services/storage.ts';
+import { RejectedWrite } from '@/utils/outbox.ts';
+
+interface UseOfflineSyncProps {
+  /** Signed in with an active group — replays wait until then */
+  enabled: boolean;
+  /** Something was sent — reload what the server has now */
+  onSynced: () => void;
+  /** An offline edit of an event collided with someone else's */
+  onConflict: (base: SportEvent | undefined, mine: SportEvent, theirs: SportEvent) => void;
+}
+
+/**
+ * Connection state and the outbox of writes made offline: they are replayed
+ * as soon as the browser is back online (and on start-up, for writes left
+ * over from the last visit).
+ */
+export function useOfflineSync({ enabled, onSynced, onConflict }: UseOfflineSyncProps) {
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine !== false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [rejected, setRejected] = useState<RejectedWrite[]>([]);
+
+  // Latest callbacks without restarting the replay effect whenever they change
+  const callbacks = useRef({ onSynced, onConflict });
+  useEffect(() => { callbacks.current = { onSynced, onConflict }; }, [onSynced, onConflict]);
+
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    storage.setOutboxListener(setPendingCount);
+    storage.getPendingWriteCount().then(setPendingCount);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      storage.setOutboxListener(null);
+    };
+  }, []);
+
+  const replay = useCallback(async () => {
+    try {
+      const report = await storage.replayOutbox();
+      for (const { base, mine, theirs } of report.conflicts) {
+        callbacks.current.onConflict(base, mine, theirs);
+      }
+      if (report.rejected.length > 0) {
+        setRejected(prev => [...prev, ...report.rejected]);
+      }
+      if (report.sent > 0 || report.conflicts.length > 0 || report.rejected.length > 0) {
+        callbacks.current.onSynced();
+      }
+    } catch (error) {
+      console.error('Failed to replay offline changes', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled && isOnline) replay();
+  }, [enabled, isOnline, replay]);
+
+  const dismissRejected = useCallback(() => setRejected([]), []);
+
+  return { isOnline, pendingCount, rejected, dismissRejected };
+}
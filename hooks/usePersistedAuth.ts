@@ -1,33 +1,61 @@
-import { useState, useCallback } from 'react';
-import { User } from '@/types.ts';
+import { useState, useCallback, useEffect } from 'react';
+import { User, AuthSession } from '@/types.ts';
+import * as storage from '@/services/storage.ts';
 
 const STORAGE_KEY = 'currentUser';
+const TOKEN_KEY = 'sessionToken';
+
+function readSession(): AuthSession | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const token = localStorage.getItem(TOKEN_KEY);
+    // A user saved without a token comes from before PIN login — ask to sign in again
+    if (!saved || !token) return null;
+    return { user: JSON.parse(saved), token };
+  } catch {
+    return null;
+  }
+}
 
 export function usePersistedAuth() {
-  const [currentUser, setCurrentUser] = useState<User | null>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      return saved ? JSON.parse(saved) : null;
-    } catch {
-      return null;
-    }
+  const [session, setSession] = useState<AuthSession | null>(() => {
+    const restored = readSession();
+    storage.setAuthToken(restored?.token ?? null);
+    return restored;
   });
 
-  const login = useCallback((user: User) => {
-    setCurrentUser(user);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
+  const login = useCallback((newSession: AuthSession) => {
+    storage.setAuthToken(newSession.token);
+    setSession(newSession);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(newSession.user));
+    localStorage.setItem(TOKEN_KEY, newSession.token);
   }, []);
 
   const logout = useCallback(() => {
-    setCurrentUser(null);
+    storage.setAuthToken(null);
+    storage.setActiveGroup(null);
+    setSession(null);
     localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(TOKEN_KEY);
   }, []);
 
   const updateUser = useCallback((user: User) => {
-    setCurrentUser(user);
+    setSession(prev => (prev ? { ...prev, user } : prev));
     localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
   }, []);
 
-  return { currentUser, login, logout, updateUser };
-}
+  /** A new token for the same user — after a PIN change the old one stops working */
+  const renewToken = useCallback((token: string) => {
+    storage.setAuthToken(token);
+    setSession(prev => (prev ? { ...prev, token } : prev));
+    localStorage.setItem(TOKEN_KEY, token);
+  }, []);
+
+  // Expired or revoked token → back to the login screen
+  useEffect(() => {
+    storage.setUnauthorizedHandler(logout);
+    return () => storage.setUnauthorizedHandler(null);
+  }, [logout]);
 
+  return { currentUser: session?.user ?? null, login, logout, updateUser, renewToken };
+}
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Tournament } from '@/types.ts';
+import * as storage from '@/services/storage.ts';
+
+interface UseTournamentsProps {
+  /** Active group — nothing is loaded until one is selected */
+  groupId: string | null;
+}
+
+/**
+ * Tournaments of the active group. Saves replace the whole tournament; one
+ * rejected as stale (someone else recorded a result meanwhile) brings in
+ * the current copy and rethrows, so the page can tell the user to retry.
+ */
+export function useTournaments({ groupId }: UseTournamentsProps) {
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+
+  const loadTournaments = useCallback(async () => {
+    try {
+      setTournaments(await storage.getTournaments());
+    } catch (error) {
+      console.error("Failed to load tournaments", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setTournaments([]);
+    if (groupId) loadTournaments();
+  }, [groupId, loadTournaments]);
+
+  const replace = (saved: Tournament) =>
+    setTournaments(prev => prev.map(t => (t.id === saved.id ? saved : t)));
+
+  const createTournament = async (tournament: Tournament): Promise<Tournament> => {
+    const created = await storage.createTournament(tournament);
+    setTournaments(prev => [created, ...prev]);
+    return created;
+  };
+
+  const updateTournament = async (tournament: Tournament): Promise<void> => {
+    try {
+      replace(await storage.updateTournament(tournament));
+    } catch (error) {
+      if (error instanceof storage.ApiError && error.status === 409 && error.body.current) {
+        replace(error.body.current);
+      }
+      throw error;
+    }
+  };
+
+  const deleteTournament = async (id: string): Promise<void> => {
+    await storage.deleteTournament(id);
+    setTournaments(prev => prev.filter(t => t.id !== id));
+  };
+
+  return { tournaments, loadTournaments, createTournament, updateTournament, deleteTournament };
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './utils/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,4 +13,9 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Only the build — under `vite dev` a cached module would break hot reload
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
@@ -0,0 +1,120 @@
+/**
+ * Service worker of the installable app:
+ *  - caches the app shell so it opens offline (the data comes from the
+ *    IndexedDB mirror in services/offlineStore.ts, never from here),
+ *  - shows Web Push notifications sent by /api/notifications/run; the
+ *    payload is the PushMessage JSON from api/_lib/push.ts.
+ */
+
+// Bump to drop every cache of the previous version on activation
+const CACHE = 'sport-planovac-v2';
+const SHELL = ['/', '/index.html', '/favicon.svg', '/manifest.webmanifest'];
+// Tailwind, fonts and the import map's modules load from CDNs
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // API responses are never cached here — storage.ts mirrors what it needs
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    // Vite's hashed build output never changes under the same name
+    event.respondWith(cacheFirst(request));
+  } else if ((url.origin === self.location.origin && SHELL.includes(url.pathname)) || CDN_HOSTS.includes(url.hostname)) {
+    // Other same-origin requests go to the network — under `vite dev` (a worker
+    // registered for push) they are the modules hot reload replaces
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallbackUrl, response.clone());
+    return response;
+  } catch {
+    return (await cache.match(fallbackUrl)) || Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+async function staleWhileRevalidate(event) {
+  const { request } = event;
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const fresh = fetch(request)
+    .then((response) => {
+      // Opaque cross-origin responses (status 0) are still worth keeping for offline
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  if (cached) {
+    // Answer from the cache now, refresh it in the background for next time
+    event.waitUntil(fresh);
+    return cached;
+  }
+  return fresh;
+}
+
+self.addEventListener('push', (event) => {
+  let message = { title: 'Sport Plánovač', body: '' };
+  try {
+    message = { ...message, ...event.data.json() };
+  } catch {
+    if (event.data) message.body = event.data.text();
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag,
+      icon: '/favicon.svg',
+      data: { url: message.url || '/' },
+    }),
+  );
+});
+
+// Focus an open tab of the app (navigating it to the event) or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find(c => c.url.startsWith(self.location.origin));
+      if (client) {
+        return client.navigate(url).then(c => (c || client).focus());
+      }
+      return self.clients.openWindow(url);
+    }),
+  );
+});
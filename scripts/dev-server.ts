@@ -3,6 +3,10 @@
  * on port 3001. Vite proxies /api/* here during local development.
  *
  * Usage: npm run dev:api  (or: npx tsx scripts/dev-server.ts)
+ *
+ * Storage: Upstash Redis from .env.local by default; `--storage=memory`
+ * (npm run dev:api:memory) keeps everything in this process instead — no
+ * cloud account needed, empty on every restart.
  */
 
 import { config } from 'dotenv';
@@ -12,6 +16,12 @@ import express from 'express';
 // Load .env.local from project root
 config({ path: resolve(process.cwd(), '.env.local') });
 
+// Chosen before the handlers load — they take their storage clients at import
+const storageFlag = process.argv.find(arg => arg.startsWith('--storage='));
+if (storageFlag) {
+  process.env.STORAGE_BACKEND = storageFlag.slice('--storage='.length);
+}
+
 const app = express();
 app.use(express.json({ limit: '5mb' }));
 
@@ -31,6 +41,7 @@ function wrapHandler(handlerModule: any) {
 
 async function start() {
   // Dynamically import the API handlers (after env vars are loaded)
+  const authHandler = await import('../api/auth.js');
   const usersHandler = await import('../api/users.js');
   const eventsHandler = await import('../api/events.js');
   const eventsBatchHandler = await import('../api/events-batch.js');
@@ -38,7 +49,19 @@ async function start() {
   const photosHandler = await import('../api/photos.js');
   const bankAccountsHandler = await import('../api/bank-accounts.js');
   const sportConfigsHandler = await import('../api/sport-configs.js');
+  const tournamentsHandler = await import('../api/tournaments.js');
+  const auditHandler = await import('../api/audit.js');
+  const groupsHandler = await import('../api/groups.js');
+  const notificationsHandler = await import('../api/notifications/index.js');
+  const notificationsRunHandler = await import('../api/notifications/run.js');
+  const digestRunHandler = await import('../api/digest/run.js');
+  const digestUnsubscribeHandler = await import('../api/digest/unsubscribe.js');
+  const streamHandler = await import('../api/stream.js');
+  const { getStandInOutbox } = await import('../api/_lib/push.js');
+  const { getMailOutbox } = await import('../api/_lib/mail.js');
+  const { getStorageBackend } = await import('../api/_lib/db.js');
 
+  app.all('/api/auth', wrapHandler(authHandler));
   app.all('/api/users', wrapHandler(usersHandler));
   app.all('/api/events-batch', wrapHandler(eventsBatchHandler));
   app.all('/api/events', wrapHandler(eventsHandler));
@@ -46,12 +69,35 @@ async function start() {
   app.all('/api/photos', wrapHandler(photosHandler));
   app.all('/api/bank-accounts', wrapHandler(bankAccountsHandler));
   app.all('/api/sport-configs', wrapHandler(sportConfigsHandler));
+  app.all('/api/tournaments', wrapHandler(tournamentsHandler));
+  app.all('/api/audit', wrapHandler(auditHandler));
+  app.all('/api/groups', wrapHandler(groupsHandler));
+  app.all('/api/notifications/run', wrapHandler(notificationsRunHandler));
+  app.all('/api/notifications', wrapHandler(notificationsHandler));
+  app.all('/api/digest/run', wrapHandler(digestRunHandler));
+  app.all('/api/digest/unsubscribe', wrapHandler(digestUnsubscribeHandler));
+  app.all('/api/stream', wrapHandler(streamHandler));
+
+  // Local push stand-in: what /api/notifications/run would have delivered
+  app.get('/api/dev/push-outbox', (_req, res) => {
+    res.json(getStandInOutbox());
+  });
+
+  // Local mail stand-in (no SMTP_URL): what /api/digest/run would have sent
+  app.get('/api/dev/mail-outbox', (_req, res) => {
+    res.json(getMailOutbox().map(({ message, sentAt }) => ({ ...message, attachments: message.attachments?.map(a => a.filename), sentAt })));
+  });
 
   const PORT = 3001;
   app.listen(PORT, () => {
     console.log(`🚀 Local API server running on http://localhost:${PORT}`);
-    console.log(`   Routes: /api/users, /api/events, /api/events-batch, /api/attendance, /api/photos, /api/bank-accounts, /api/sport-configs`);
-    console.log(`   Redis: ${process.env.volejbal_KV_REST_API_URL ? '✅ connected' : '❌ missing volejbal_KV_REST_API_URL'}`);
+    console.log(`   Routes: /api/auth, /api/users, /api/events, /api/events-batch, /api/attendance, /api/photos, /api/bank-accounts, /api/sport-configs, /api/tournaments, /api/audit, /api/groups, /api/notifications, /api/notifications/run, /api/digest/run, /api/digest/unsubscribe, /api/stream`);
+    console.log(`   Data:  ${getStorageBackend() === 'memory'
+      ? '🧠 in memory — empty on every restart'
+      : process.env.volejbal_KV_REST_API_URL ? '✅ Upstash Redis' : '❌ missing volejbal_KV_REST_API_URL (or run with --storage=memory)'}`);
+    console.log(`   Auth:  ${process.env.AUTH_SECRET ? '✅ AUTH_SECRET set' : '❌ missing AUTH_SECRET (login will fail)'}`);
+    console.log(`   Push:  ${process.env.VAPID_PRIVATE_KEY && process.env.PUSH_STANDIN !== '1' ? '✅ Web Push' : '🔔 stand-in — see /api/dev/push-outbox'}`);
+    console.log(`   Mail:  ${process.env.SMTP_URL ? `✅ SMTP ${new URL(process.env.SMTP_URL).host}` : '✉️  stand-in — see /api/dev/mail-outbox'}`);
   });
 }
 
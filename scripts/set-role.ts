@@ -0,0 +1,74 @@
+/**
+ * Assign a group role to an existing member — used to recover a group that
+ * lost its admin or to name one after the migration to groups.
+ *
+ * Usage: npm run set-role -- "<user name>" <admin|organizer|treasurer|player> ["<group name>"]
+ *        The group may be omitted when the user belongs to exactly one.
+ *        (reads volejbal_KV_REST_API_URL/TOKEN from .env.local)
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'node:path';
+import { Redis } from '@upstash/redis';
+import { migrateLegacyData } from '../api/_lib/groups.js';
+import { ROLES } from '../shared/permissions.js';
+
+config({ path: resolve(process.cwd(), '.env.local') });
+
+function parse(raw: any): any {
+  return typeof raw === 'string' ? JSON.parse(raw) : raw;
+}
+
+async function setRole() {
+  const [name, role, groupName] = process.argv.slice(2);
+  if (!name || !(ROLES as string[]).includes(role)) {
+    console.error(`Usage: npm run set-role -- "<user name>" <${ROLES.join('|')}> ["<group name>"]`);
+    process.exit(1);
+  }
+
+  const redis = new Redis({
+    url: process.env.volejbal_KV_REST_API_URL!,
+    token: process.env.volejbal_KV_REST_API_TOKEN!,
+  });
+
+  // A user from before groups has none until the migration runs
+  await migrateLegacyData(redis);
+
+  const userIds = await redis.smembers('users:all');
+  let user: any = null;
+  for (const id of userIds) {
+    const candidate = parse(await redis.get(`user:${id}`));
+    if (candidate && candidate.name.toLowerCase() === name.toLowerCase()) {
+      user = candidate;
+      break;
+    }
+  }
+  if (!user) {
+    console.error(`❌ User "${name}" not found`);
+    process.exit(1);
+  }
+
+  const groups: any[] = [];
+  for (const groupId of await redis.smembers(`user:${user.id}:groups`)) {
+    const group = parse(await redis.get(`group:${groupId}`));
+    if (group) groups.push(group);
+  }
+
+  const matching = groupName
+    ? groups.filter(g => g.name.toLowerCase() === groupName.toLowerCase())
+    : groups;
+  if (matching.length !== 1) {
+    const names = groups.map(g => `"${g.name}"`).join(', ') || '—';
+    console.error(`❌ Specify one of the user's groups: ${names}`);
+    process.exit(1);
+  }
+
+  const group = matching[0];
+  await redis.hset(`group:${group.id}:members`, { [user.id]: role });
+  console.log(`✅ ${user.name} (${user.id}) → ${role} in "${group.name}"`);
+}
+
+setRole().catch((err) => {
+  console.error('❌ Failed to set role:', err);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+/**
+ * Issue a one-time code for setting the first PIN of a profile that has
+ * none — the way in for the first admin after the move to PINs, when nobody
+ * can sign in to issue codes from the app yet. Runs the migration of
+ * pre-group data first, so the profile has a group once signed in.
+ *
+ * Usage: npm run setup-code -- "<user name>"
+ *        (reads volejbal_KV_REST_API_URL/TOKEN from .env.local)
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'node:path';
+import { Redis } from '@upstash/redis';
+import { createSetupCode } from '../api/_lib/auth.js';
+import { migrateLegacyData } from '../api/_lib/groups.js';
+import { createUpstashRepos } from '../api/_lib/repos/upstash.js';
+
+config({ path: resolve(process.cwd(), '.env.local') });
+
+async function setupCode() {
+  const [name] = process.argv.slice(2);
+  if (!name) {
+    console.error('Usage: npm run setup-code -- "<user name>"');
+    process.exit(1);
+  }
+
+  const redis = new Redis({
+    url: process.env.volejbal_KV_REST_API_URL!,
+    token: process.env.volejbal_KV_REST_API_TOKEN!,
+  });
+
+  const migrated = await migrateLegacyData(redis);
+  if (migrated) {
+    console.log(`📦 Pre-group data moved into "${migrated.name}" (${migrated.id})`);
+  }
+
+  const users = await createUpstashRepos(redis).users.list();
+  const user = users.find(u => u.name.toLowerCase() === name.toLowerCase());
+  if (!user) {
+    console.error(`❌ User "${name}" not found`);
+    process.exit(1);
+  }
+
+  // Same rule as PUT /api/groups — a code must not take over an account in use
+  if (await redis.get(`credentials:${user.id}`)) {
+    console.error(`❌ ${user.name} already has a PIN`);
+    process.exit(1);
+  }
+
+  const code = await createSetupCode(redis, user.id);
+  console.log(`✅ Setup code for ${user.name} (${user.id}): ${code}`);
+  console.log('   Valid for 7 days — sign in with the name, the code and a new PIN.');
+}
+
+setupCode().catch((err) => {
+  console.error('❌ Failed to issue a setup code:', err);
+  process.exit(1);
+});
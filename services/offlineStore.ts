@@ -0,0 +1,82 @@
+import { SportEvent, User } from '../types';
+import { QueuedWrite } from '../utils/outbox';
+
+/**
+ * IndexedDB copy of what the app needs offline: the last events and users
+ * loaded per group, and the outbox of writes waiting for the network.
+ * One key-value store:
+ *   events:{groupId}  → SportEvent[]
+ *   users:{groupId}   → User[]
+ *   outbox            → QueuedWrite[] in the order they were made
+ *
+ * Every call resolves to a fallback instead of throwing when IndexedDB is
+ * unavailable (private mode, old browsers) — the app then simply works
+ * online only.
+ */
+
+const DB_NAME = 'sport-planovac';
+const DB_VERSION = 1;
+const STORE = 'kv';
+const OUTBOX_KEY = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function read<T>(key: string, fallback: T): Promise<T> {
+  try {
+    return (await run<T | undefined>('readonly', store => store.get(key))) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function write(key: string, value: unknown): Promise<void> {
+  try {
+    await run('readwrite', store => store.put(value, key));
+  } catch (error) {
+    console.error('Failed to write offline data', error);
+  }
+}
+
+export const getMirroredEvents = (groupId: string) => read<SportEvent[] | null>(`events:${groupId}`, null);
+export const mirrorEvents = (groupId: string, events: SportEvent[]) => write(`events:${groupId}`, events);
+
+export const getMirroredUsers = (groupId: string) => read<User[] | null>(`users:${groupId}`, null);
+export const mirrorUsers = (groupId: string, users: User[]) => write(`users:${groupId}`, users);
+
+export const getOutbox = () => read<QueuedWrite[]>(OUTBOX_KEY, []);
+export const saveOutbox = (queue: QueuedWrite[]) => write(OUTBOX_KEY, queue);
+
+/** Signed out — nothing of the group stays on the device */
+export async function clearOfflineData(): Promise<void> {
+  try {
+    await run('readwrite', store => store.clear());
+  } catch {
+    // Nothing stored
+  }
+}
@@ -1,11 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import { SportEvent, TeamMember } from '../types';
 import {
-  computeEloRatings, computeFormTrend, computeDayHeatmap,
+  computeFormTrend, computeDayHeatmap,
   computeNemesis, computeClutchFactor, computeReliabilityScore,
   computeLeaderboard, computeEventHealth, computeUserStats,
   computeExtendedBadges, computeDuoStats,
 } from './statsEngine';
+import { computeSkillRatings, SkillRating } from '../utils/rating';
 
 // ── Helpers ──
 
@@ -33,55 +34,6 @@ function createGames(count: number, winnerId: string, loserId: string, startDate
   });
 }
 
-// ── ELO Tests ──
-
-describe('computeEloRatings', () => {
-  it('returns initial rating of ~1000 for players with no games', () => {
-    const events = [makeEvent('e1', PAST, [
-      { userId: 'a', name: 'A', status: 'joined', hasPaid: true },
-    ])];
-    const elo = computeEloRatings(events);
-    // No games played, so no rating entries
-    expect(elo.size).toBe(0);
-  });
-
-  it('winner ELO increases, loser ELO decreases after a game', () => {
-    const events = createGames(1, 'a', 'b');
-    const elo = computeEloRatings(events);
-    expect(elo.get('a')!).toBeGreaterThan(1000);
-    expect(elo.get('b')!).toBeLessThan(1000);
-  });
-
-  it('winning against higher-rated opponent gives more points', () => {
-    // First: b wins 5 games to get high ELO
-    const bWins = createGames(5, 'b', 'c', '2025-01-01');
-    // Then: a (1000) beats b (high ELO)
-    const upset = [makeEvent('upset', '2025-02-01', [
-      { userId: 'a', name: 'A', status: 'joined', hasPaid: true },
-      { userId: 'b', name: 'B', status: 'joined', hasPaid: true },
-    ], {
-      teams: [[tm('a')], [tm('b')]],
-      winningTeam: 0,
-    })];
-
-    const elo = computeEloRatings([...bWins, ...upset]);
-    // a's gain should be more than half of K since b was stronger
-    expect(elo.get('a')!).toBeGreaterThan(1000 + 16); // more than K/2
-  });
-
-  it('two equal players converge: repeated games keep them near 1000', () => {
-    const events: SportEvent[] = [];
-    for (let i = 0; i < 10; i++) {
-      const winner = i % 2 === 0 ? 'a' : 'b';
-      const loser = i % 2 === 0 ? 'b' : 'a';
-      events.push(...createGames(1, winner, loser, `2025-01-${String(i + 1).padStart(2, '0')}`));
-    }
-    const elo = computeEloRatings(events);
-    expect(Math.abs(elo.get('a')! - 1000)).toBeLessThan(50);
-    expect(Math.abs(elo.get('b')! - 1000)).toBeLessThan(50);
-  });
-});
-
 // ── Form Trend Tests ──
 
 describe('computeFormTrend', () => {
@@ -259,30 +211,45 @@ describe('computeReliabilityScore', () => {
     expect(computeReliabilityScore(highAttendance)).toBe(60);
     expect(computeReliabilityScore(highPayment)).toBe(40);
   });
+
+  it('takes points off for late cancellations and no-shows, never below 0', () => {
+    expect(computeReliabilityScore({ attendanceRate: 1, paymentRate: 1, lateCancellations: 2, noShows: 1 } as any)).toBe(80);
+    expect(computeReliabilityScore({ attendanceRate: 0.2, paymentRate: 0, noShows: 3 } as any)).toBe(0);
+  });
 });
 
 // ── Leaderboard Tests ──
 
 describe('computeLeaderboard', () => {
-  it('sorts by ELO descending and assigns ranks', () => {
+  const rated = (userId: string, rating: number, deviation = 60): [string, SkillRating] => [
+    userId, { userId, sportType: 'volejbal', rating, deviation, volatility: 0.06, gamesPlayed: 10, lastPlayed: PAST },
+  ];
+
+  it('sorts by rating descending and assigns ranks', () => {
     const statsMap = new Map<string, any>([
       ['a', { userId: 'a', name: 'A', eventsJoined: 5, winRate: 0.8, gamesPlayed: 10, attendanceRate: 0.9, paymentRate: 1 }],
       ['b', { userId: 'b', name: 'B', eventsJoined: 5, winRate: 0.6, gamesPlayed: 10, attendanceRate: 0.7, paymentRate: 0.8 }],
     ]);
-    const eloMap = new Map([['a', 1100], ['b', 1050]]);
-    const lb = computeLeaderboard(statsMap, eloMap);
-    expect(lb[0].userId).toBe('a');
-    expect(lb[0].rank).toBe(1);
+    const lb = computeLeaderboard(statsMap, new Map([rated('a', 1600), rated('b', 1550)]));
+    expect(lb[0]).toMatchObject({ userId: 'a', rank: 1, rating: 1600, ratingDeviation: 60, sportType: 'volejbal' });
     expect(lb[1].rank).toBe(2);
   });
 
+  it('ranks an uncertain rating below a proven one of a similar mean', () => {
+    const statsMap = new Map<string, any>([
+      ['a', { userId: 'a', name: 'A', eventsJoined: 5, winRate: 1, gamesPlayed: 3, attendanceRate: 1, paymentRate: 1 }],
+      ['b', { userId: 'b', name: 'B', eventsJoined: 5, winRate: 0.6, gamesPlayed: 30, attendanceRate: 1, paymentRate: 1 }],
+    ]);
+    const lb = computeLeaderboard(statsMap, new Map([rated('a', 1650, 200), rated('b', 1600, 50)]));
+    expect(lb.map(e => e.userId)).toEqual(['b', 'a']);
+  });
+
   it('excludes players below event threshold', () => {
     const statsMap = new Map<string, any>([
       ['a', { userId: 'a', name: 'A', eventsJoined: 2, winRate: 1, gamesPlayed: 5, attendanceRate: 1, paymentRate: 1 }],
       ['b', { userId: 'b', name: 'B', eventsJoined: 5, winRate: 0.5, gamesPlayed: 5, attendanceRate: 0.7, paymentRate: 0.8 }],
     ]);
-    const eloMap = new Map([['a', 1200], ['b', 1050]]);
-    const lb = computeLeaderboard(statsMap, eloMap);
+    const lb = computeLeaderboard(statsMap, new Map([rated('a', 1700), rated('b', 1550)]));
     expect(lb).toHaveLength(1);
     expect(lb[0].userId).toBe('b');
   });
@@ -369,6 +336,47 @@ describe('computeUserStats', () => {
     expect(stats.get('b')!.eventsDeclined).toBe(1);
     expect(stats.get('a')!.attendanceRate).toBe(1);
   });
+
+  it('sums paid and owed amounts using the pricing rules', () => {
+    const events = [makeEvent('e1', PAST, [
+      { userId: 'a', name: 'A', status: 'joined', hasPaid: true },
+      { userId: 'b', name: 'B', status: 'joined', hasPaid: false, hasMultisportCard: true },
+    ], { organizerId: 'a', pricing: { multisportDeduction: 100 } })];
+    const stats = computeUserStats(events);
+    expect(stats.get('a')!.totalPaid).toBe(500);
+    expect(stats.get('b')!.totalOwed).toBe(400);
+  });
+
+  it('bills late cancellations and no-shows without counting them as attendance', () => {
+    const events = [makeEvent('e1', PAST, [
+      { userId: 'a', name: 'A', status: 'joined', hasPaid: true },
+      { userId: 'b', name: 'B', status: 'declined', hasPaid: false, lateCancel: true },
+      { userId: 'c', name: 'C', status: 'joined', hasPaid: true, noShow: true },
+      { userId: 'd', name: 'D', status: 'declined', hasPaid: false },
+    ])];
+    const stats = computeUserStats(events);
+    expect(stats.get('b')).toMatchObject({ lateCancellations: 1, eventsDeclined: 1, eventsJoined: 0, totalOwed: 334, paymentRate: 0 });
+    expect(stats.get('c')).toMatchObject({ noShows: 1, eventsJoined: 0, attendanceRate: 0, totalPaid: 334, paymentRate: 1, currentStreak: 0 });
+    expect(stats.get('d')).toMatchObject({ lateCancellations: 0, totalOwed: 0 });
+  });
+
+  it('counts every match of a round of three teams, also one still being played', () => {
+    const joined = ['a', 'b', 'c'].map(id => ({ userId: id, name: id.toUpperCase(), status: 'joined' as const, hasPaid: true }));
+    const teams = [[tm('a')], [tm('b')], [tm('c')]];
+    const events = [makeEvent('e1', PAST, joined, {
+      gameHistory: [{ teams, matchFormat: 'winner-stays', matches: [{ teams: [0, 1], winner: 0, score: [[25, 20]] }, { teams: [0, 2], winner: 1 }] }],
+      teams,
+      matches: [{ teams: [1, 2], winner: 1 }],
+    })];
+    const stats = computeUserStats(events);
+    expect(stats.get('a')).toMatchObject({ gamesPlayed: 2, gamesWon: 1, setsWon: 1, setsLost: 0 });
+    expect(stats.get('c')).toMatchObject({ gamesPlayed: 2, gamesWon: 2, winStreak: 2 });
+    expect(stats.get('b')).toMatchObject({ gamesPlayed: 2, gamesWon: 0, setsLost: 1 });
+
+    const ratings = computeSkillRatings(events).get('volejbal')!;
+    expect(ratings.get('c')!.rating).toBeGreaterThan(ratings.get('a')!.rating);
+    expect(ratings.get('a')!.rating).toBeGreaterThan(ratings.get('b')!.rating);
+  });
 });
 
 // ── Duo Stats threshold ──
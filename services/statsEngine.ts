@@ -1,4 +1,8 @@
-import { SportEvent, UserStats, GameRound, MonthlyTrend, Badge, DuoStats, LeaderboardEntry, PlayerFormTrend, NemesisData, EventHealthMetrics, ClutchData, SportConfig, TeamMember } from '../types';
+import { SportEvent, UserStats, GameRound, MonthlyTrend, Badge, DuoStats, LeaderboardEntry, PlayerFormTrend, NemesisData, EventHealthMetrics, ClutchData, SportConfig, Participant } from '../types';
+import { computeShares, getPricingRules } from '../shared/pricing';
+import { currentRound, roundMatches, PlayedMatch } from '../utils/matchSchedule';
+import { isBilled } from '../shared/attendancePolicy';
+import { conservativeRating, SkillRating } from '../utils/rating';
 import { format } from 'date-fns';
 import { cs } from 'date-fns/locale';
 
@@ -18,23 +22,28 @@ export const THRESHOLDS = {
 
 export function getAllRounds(event: SportEvent): GameRound[] {
   const rounds: GameRound[] = [...(event.gameHistory || [])];
-  if (event.teams && event.winningTeam !== undefined) {
-    rounds.push({ teams: event.teams, winningTeam: event.winningTeam, score: event.score });
-  }
+  const current = currentRound(event);
+  if (current) rounds.push(current);
   return rounds;
 }
 
+/** Every decided match of the event — a two-team round is one, a round of more teams one per pairing */
+export function getAllMatches(event: SportEvent): PlayedMatch[] {
+  return getAllRounds(event).flatMap(roundMatches);
+}
+
 // ── Core User Stats (extracted from useStatistics) ──
 
-export function computeUserStats(events: SportEvent[]): Map<string, UserStats> {
+export function computeUserStats(events: SportEvent[], sportConfigs: SportConfig[] = []): Map<string, UserStats> {
   const statsMap = new Map<string, UserStats>();
   const sortedEvents = [...events].sort(
     (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
   );
 
-  // First pass: init all users
+  // First pass: init all users — guests play one-off and get no stats
   for (const event of sortedEvents) {
     for (const p of event.participants) {
+      if (p.isGuest) continue;
       if (!statsMap.has(p.userId)) {
         statsMap.set(p.userId, {
           userId: p.userId, name: p.name, photoUrl: p.photoUrl,
@@ -44,6 +53,7 @@ export function computeUserStats(events: SportEvent[]): Map<string, UserStats> {
           gamesPlayed: 0, gamesWon: 0, winRate: 0,
           winStreak: 0, longestWinStreak: 0,
           setsWon: 0, setsLost: 0, setWinRate: 0,
+          lateCancellations: 0, noShows: 0,
         });
       }
     }
@@ -54,21 +64,29 @@ export function computeUserStats(events: SportEvent[]): Map<string, UserStats> {
   const locations = new Map<string, Map<string, number>>();
 
   for (const event of sortedEvents) {
-    const joinedCount = event.participants.filter(p => p.status === 'joined').length;
-    const costPerPerson = joinedCount > 0 ? Math.ceil(event.totalCost / joinedCount) : 0;
+    const shares = new Map(computeShares(event, getPricingRules(event, sportConfigs)).map(s => [s.userId, s.amount]));
 
     for (const p of event.participants) {
+      if (p.isGuest) continue;
       const stats = statsMap.get(p.userId)!;
       stats.totalEvents++;
 
-      if (p.status === 'joined') {
-        stats.eventsJoined++;
-        if (p.hasPaid) stats.totalPaid += costPerPerson;
-        else stats.totalOwed += costPerPerson;
+      // No-shows and late cancellations didn't play, but they pay
+      const attended = p.status === 'joined' && !p.noShow;
+      if (isBilled(p)) {
+        const share = shares.get(p.userId) ?? 0;
+        if (p.hasPaid) stats.totalPaid += share;
+        else stats.totalOwed += share;
+      }
+      if (p.lateCancel) stats.lateCancellations = (stats.lateCancellations ?? 0) + 1;
 
+      if (attended) {
+        stats.eventsJoined++;
         if (!locations.has(p.userId)) locations.set(p.userId, new Map());
         const locMap = locations.get(p.userId)!;
         locMap.set(event.location, (locMap.get(event.location) || 0) + 1);
+      } else if (p.noShow) {
+        stats.noShows = (stats.noShows ?? 0) + 1;
       } else if (p.status === 'declined') {
         stats.eventsDeclined++;
       } else if (p.status === 'maybe') {
@@ -77,7 +95,7 @@ export function computeUserStats(events: SportEvent[]): Map<string, UserStats> {
 
       if (!streaks.has(p.userId)) streaks.set(p.userId, { current: 0, longest: 0, lastJoined: false });
       const streak = streaks.get(p.userId)!;
-      if (p.status === 'joined') {
+      if (attended) {
         streak.current++;
         streak.lastJoined = true;
         if (streak.current > streak.longest) streak.longest = streak.current;
@@ -88,15 +106,13 @@ export function computeUserStats(events: SportEvent[]): Map<string, UserStats> {
     }
 
     // Win + set tracking
-    const allRounds = getAllRounds(event);
-    for (const round of allRounds) {
-      if (round.winningTeam === undefined) continue;
-      const winningTeam = round.teams[round.winningTeam];
-      const losingTeam = round.teams[1 - round.winningTeam];
+    for (const match of getAllMatches(event)) {
+      const winningTeam = match.teams[match.winner];
+      const losingTeam = match.teams[1 - match.winner];
 
       const teamSetsWon: [number, number] = [0, 0];
-      if (round.score && Array.isArray(round.score)) {
-        for (const [s0, s1] of round.score) {
+      if (match.score && Array.isArray(match.score)) {
+        for (const [s0, s1] of match.score) {
           if (s0 + s1 === 0) continue;
           if (s0 > s1) teamSetsWon[0]++;
           else if (s1 > s0) teamSetsWon[1]++;
@@ -110,11 +126,11 @@ export function computeUserStats(events: SportEvent[]): Map<string, UserStats> {
         const isWinner = winningTeam.some(m => m.userId === member.userId);
         if (isWinner) {
           stats.gamesWon++;
-          stats.setsWon += teamSetsWon[round.winningTeam];
-          stats.setsLost += teamSetsWon[1 - round.winningTeam];
+          stats.setsWon += teamSetsWon[match.winner];
+          stats.setsLost += teamSetsWon[1 - match.winner];
         } else {
-          stats.setsWon += teamSetsWon[1 - round.winningTeam];
-          stats.setsLost += teamSetsWon[round.winningTeam];
+          stats.setsWon += teamSetsWon[1 - match.winner];
+          stats.setsLost += teamSetsWon[match.winner];
         }
       }
     }
@@ -123,11 +139,9 @@ export function computeUserStats(events: SportEvent[]): Map<string, UserStats> {
   // Win streak tracking
   const winStreaks = new Map<string, { current: number; longest: number }>();
   for (const event of sortedEvents) {
-    const allRounds = getAllRounds(event);
-    for (const round of allRounds) {
-      if (round.winningTeam === undefined) continue;
-      const winningTeam = round.teams[round.winningTeam];
-      const losingTeam = round.teams[1 - round.winningTeam];
+    for (const match of getAllMatches(event)) {
+      const winningTeam = match.teams[match.winner];
+      const losingTeam = match.teams[1 - match.winner];
 
       for (const member of [...winningTeam, ...losingTeam]) {
         if (!winStreaks.has(member.userId)) winStreaks.set(member.userId, { current: 0, longest: 0 });
@@ -145,11 +159,11 @@ export function computeUserStats(events: SportEvent[]): Map<string, UserStats> {
   // Finalize rates
   for (const [userId, stats] of statsMap) {
     stats.attendanceRate = stats.totalEvents > 0 ? stats.eventsJoined / stats.totalEvents : 0;
-    const paidCount = events.reduce((sum, e) => {
-      const p = e.participants.find(p => p.userId === userId);
-      return sum + (p && p.status === 'joined' && p.hasPaid ? 1 : 0);
-    }, 0);
-    stats.paymentRate = stats.eventsJoined > 0 ? paidCount / stats.eventsJoined : 0;
+    const billed = events
+      .map(e => e.participants.find(p => p.userId === userId))
+      .filter((p): p is Participant => !!p && isBilled(p));
+    const paidCount = billed.filter(p => p.hasPaid).length;
+    stats.paymentRate = billed.length > 0 ? paidCount / billed.length : 0;
 
     const streak = streaks.get(userId);
     if (streak) {
@@ -178,41 +192,6 @@ export function computeUserStats(events: SportEvent[]): Map<string, UserStats> {
   return statsMap;
 }
 
-// ── ELO ──
-
-const ELO_INITIAL = 1000;
-const ELO_K = 32;
-
-function teamAvgRating(team: TeamMember[], ratings: Map<string, number>): number {
-  if (team.length === 0) return ELO_INITIAL;
-  return team.reduce((s, m) => s + (ratings.get(m.userId) ?? ELO_INITIAL), 0) / team.length;
-}
-
-export function computeEloRatings(events: SportEvent[]): Map<string, number> {
-  const ratings = new Map<string, number>();
-  const sorted = [...events].sort((a, b) => a.date.localeCompare(b.date));
-
-  for (const event of sorted) {
-    for (const round of getAllRounds(event)) {
-      if (round.winningTeam === undefined) continue;
-      const winners = round.teams[round.winningTeam];
-      const losers = round.teams[1 - round.winningTeam];
-
-      const avgW = teamAvgRating(winners, ratings);
-      const avgL = teamAvgRating(losers, ratings);
-      const expectedW = 1 / (1 + Math.pow(10, (avgL - avgW) / 400));
-
-      for (const m of winners) {
-        ratings.set(m.userId, (ratings.get(m.userId) ?? ELO_INITIAL) + ELO_K * (1 - expectedW));
-      }
-      for (const m of losers) {
-        ratings.set(m.userId, (ratings.get(m.userId) ?? ELO_INITIAL) + ELO_K * (0 - (1 - expectedW)));
-      }
-    }
-  }
-  return ratings;
-}
-
 // ── Form Curve ──
 
 function getChronologicalResults(events: SportEvent[], userId: string): boolean[] {
@@ -220,11 +199,10 @@ function getChronologicalResults(events: SportEvent[], userId: string): boolean[
   const results: boolean[] = [];
 
   for (const event of sorted) {
-    for (const round of getAllRounds(event)) {
-      if (round.winningTeam === undefined) continue;
-      const isIn = round.teams[0].some(m => m.userId === userId) || round.teams[1].some(m => m.userId === userId);
+    for (const match of getAllMatches(event)) {
+      const isIn = match.teams[0].some(m => m.userId === userId) || match.teams[1].some(m => m.userId === userId);
       if (!isIn) continue;
-      results.push(round.teams[round.winningTeam].some(m => m.userId === userId));
+      results.push(match.teams[match.winner].some(m => m.userId === userId));
     }
   }
   return results;
@@ -270,14 +248,13 @@ export function computeNemesis(events: SportEvent[], userId: string): NemesisDat
   const opponents = new Map<string, { name: string; photoUrl?: string; wins: number; losses: number }>();
 
   for (const event of events) {
-    for (const round of getAllRounds(event)) {
-      if (round.winningTeam === undefined) continue;
-      const myTeamIdx = round.teams[0].some(m => m.userId === userId) ? 0
-        : round.teams[1].some(m => m.userId === userId) ? 1 : -1;
+    for (const match of getAllMatches(event)) {
+      const myTeamIdx = match.teams[0].some(m => m.userId === userId) ? 0
+        : match.teams[1].some(m => m.userId === userId) ? 1 : -1;
       if (myTeamIdx === -1) continue;
 
-      const isWin = myTeamIdx === round.winningTeam;
-      for (const opp of round.teams[1 - myTeamIdx]) {
+      const isWin = myTeamIdx === match.winner;
+      for (const opp of match.teams[1 - myTeamIdx]) {
         if (!opponents.has(opp.userId)) opponents.set(opp.userId, { name: opp.name, photoUrl: opp.photoUrl, wins: 0, losses: 0 });
         const r = opponents.get(opp.userId)!;
         if (isWin) r.wins++; else r.losses++;
@@ -312,14 +289,14 @@ export function computeClutchFactor(events: SportEvent[], userId: string): Clutc
   let clutchWins = 0, clutchLosses = 0, blowoutWins = 0, blowoutLosses = 0;
 
   for (const event of events) {
-    for (const round of getAllRounds(event)) {
-      if (round.winningTeam === undefined || !round.score) continue;
-      const myTeamIdx = round.teams[0].some(m => m.userId === userId) ? 0
-        : round.teams[1].some(m => m.userId === userId) ? 1 : -1;
+    for (const match of getAllMatches(event)) {
+      if (!match.score) continue;
+      const myTeamIdx = match.teams[0].some(m => m.userId === userId) ? 0
+        : match.teams[1].some(m => m.userId === userId) ? 1 : -1;
       if (myTeamIdx === -1) continue;
-      const isWin = myTeamIdx === round.winningTeam;
+      const isWin = myTeamIdx === match.winner;
 
-      for (const [s0, s1] of round.score) {
+      for (const [s0, s1] of match.score) {
         if (s0 + s1 === 0) continue;
         const margin = Math.abs(s0 - s1);
         if (margin <= 3) { if (isWin) clutchWins++; else clutchLosses++; }
@@ -339,27 +316,38 @@ export function computeClutchFactor(events: SportEvent[], userId: string): Clutc
 
 // ── Reliability Score ──
 
+/** Points taken off the score for each late cancellation / no-show */
+export const RELIABILITY_PENALTY = {
+  LATE_CANCEL: 5,
+  NO_SHOW: 10,
+} as const;
+
+/** 60 % attendance + 40 % payments, minus the penalties, never below 0 */
 export function computeReliabilityScore(stats: UserStats): number {
-  return Math.round((0.6 * stats.attendanceRate + 0.4 * stats.paymentRate) * 100);
+  const base = (0.6 * stats.attendanceRate + 0.4 * stats.paymentRate) * 100;
+  const penalty = RELIABILITY_PENALTY.LATE_CANCEL * (stats.lateCancellations ?? 0) + RELIABILITY_PENALTY.NO_SHOW * (stats.noShows ?? 0);
+  return Math.max(0, Math.round(base - penalty));
 }
 
 // ── Leaderboard ──
 
-export function computeLeaderboard(statsMap: Map<string, UserStats>, eloMap: Map<string, number>): LeaderboardEntry[] {
-  const entries: LeaderboardEntry[] = [];
+/** Players who have played a match, best first — an uncertain rating ranks lower than a proven one of the same mean */
+export function computeLeaderboard(statsMap: Map<string, UserStats>, ratings: Map<string, SkillRating>): LeaderboardEntry[] {
+  const entries: (LeaderboardEntry & { conservative: number })[] = [];
   for (const [userId, stats] of statsMap) {
-    if (stats.eventsJoined < THRESHOLDS.LEADERBOARD_MIN_EVENTS) continue;
+    const rating = ratings.get(userId);
+    if (stats.eventsJoined < THRESHOLDS.LEADERBOARD_MIN_EVENTS || !rating) continue;
     entries.push({
       userId, name: stats.name, photoUrl: stats.photoUrl, rank: 0,
-      eloRating: Math.round(eloMap.get(userId) ?? ELO_INITIAL),
+      rating: Math.round(rating.rating), ratingDeviation: Math.round(rating.deviation), sportType: rating.sportType,
+      conservative: conservativeRating(rating),
       winRate: stats.winRate, gamesPlayed: stats.gamesPlayed,
       attendanceRate: stats.attendanceRate,
       reliabilityScore: computeReliabilityScore(stats),
     });
   }
-  entries.sort((a, b) => b.eloRating - a.eloRating);
-  entries.forEach((e, i) => { e.rank = i + 1; });
-  return entries;
+  entries.sort((a, b) => b.conservative - a.conservative);
+  return entries.map(({ conservative: _conservative, ...entry }, i) => ({ ...entry, rank: i + 1 }));
 }
 
 // ── Event Health ──
@@ -375,9 +363,9 @@ export function computeEventHealth(events: SportEvent[], sportConfigs: SportConf
     if (maxPlayers > 0) { totalFillRate += Math.min(joinedCount / maxPlayers, 1); eventsWithFill++; }
 
     const margins: number[] = [];
-    for (const round of getAllRounds(event)) {
-      if (!round.score) continue;
-      for (const [s0, s1] of round.score) {
+    for (const match of getAllMatches(event)) {
+      if (!match.score) continue;
+      for (const [s0, s1] of match.score) {
         if (s0 + s1 === 0) continue;
         margins.push(Math.abs(s0 - s1));
       }
@@ -425,18 +413,17 @@ export function computeDuoStats(events: SportEvent[]): DuoStats[] {
   const pairMap = new Map<string, { players: [string, string]; names: [string, string]; photos: [string | undefined, string | undefined]; played: number; won: number; setsWon: number; setsLost: number }>();
 
   for (const event of events) {
-    for (const round of getAllRounds(event)) {
-      if (round.winningTeam === undefined) continue;
+    for (const match of getAllMatches(event)) {
       const teamSetsWon: [number, number] = [0, 0];
-      if (round.score && Array.isArray(round.score)) {
-        for (const [s0, s1] of round.score) {
+      if (match.score && Array.isArray(match.score)) {
+        for (const [s0, s1] of match.score) {
           if (s0 + s1 === 0) continue;
           if (s0 > s1) teamSetsWon[0]++; else if (s1 > s0) teamSetsWon[1]++;
         }
       }
       for (let teamIdx = 0; teamIdx < 2; teamIdx++) {
-        const team = round.teams[teamIdx];
-        const isWin = teamIdx === round.winningTeam;
+        const team = match.teams[teamIdx];
+        const isWin = teamIdx === match.winner;
         for (let i = 0; i < team.length; i++) {
           for (let j = i + 1; j < team.length; j++) {
             const ids = [team[i].userId, team[j].userId].sort();
@@ -513,13 +500,13 @@ export function computeExtendedBadges(statsMap: Map<string, UserStats>, events:
   // Comeback King
   const comebackCounts = new Map<string, number>();
   for (const event of events) {
-    for (const round of getAllRounds(event)) {
-      if (round.winningTeam === undefined || !round.score || round.score.length < 2) continue;
-      const [s0, s1] = round.score[0];
+    for (const match of getAllMatches(event)) {
+      if (!match.score || match.score.length < 2) continue;
+      const [s0, s1] = match.score[0];
       if (s0 + s1 === 0) continue;
       const set1Loser = s0 > s1 ? 1 : 0;
-      if (set1Loser === round.winningTeam) {
-        for (const m of round.teams[round.winningTeam]) {
+      if (set1Loser === match.winner) {
+        for (const m of match.teams[match.winner]) {
           comebackCounts.set(m.userId, (comebackCounts.get(m.userId) ?? 0) + 1);
         }
       }
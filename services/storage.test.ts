@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as storage from './storage';
-import { SportEvent } from '../types';
+import { SportEvent, DEFAULT_SPORT_CONFIGS } from '../types';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '../shared/notificationSettings';
 
 // Spy on fetch to guarantee tests never hit the real API
 const fetchSpy = vi.spyOn(globalThis, 'fetch');
@@ -110,26 +111,37 @@ describe('Storage Service (localStorage)', () => {
     });
 
     it('creates and retrieves an event', async () => {
-      const events = await storage.createEvent(makeEvent({ id: 'evt-1', title: 'Match A' }));
+      await storage.createEvent(makeEvent({ id: 'evt-1', title: 'Match A' }));
+      const events = await storage.getEvents();
       expect(events).toHaveLength(1);
       expect(events[0].title).toBe('Match A');
       expect(events[0].participants).toEqual([]);
     });
 
+    it('rejects an invalid event with the same 400 the API would send', async () => {
+      const error = await storage.createEvent(makeEvent({ totalCost: -5 })).catch(e => e);
+      expect(error).toBeInstanceOf(storage.ApiError);
+      expect(error.status).toBe(400);
+      expect(error.issues).toEqual([{ path: 'totalCost', message: 'Nejméně 0.' }]);
+      expect(await storage.getEvents()).toEqual([]);
+    });
+
     it('creates multiple events', async () => {
       await storage.createEvent(makeEvent({ id: 'evt-1' }));
-      const events = await storage.createEvent(makeEvent({ id: 'evt-2' }));
+      await storage.createEvent(makeEvent({ id: 'evt-2' }));
+      const events = await storage.getEvents();
       expect(events).toHaveLength(2);
     });
 
     it('updates an event', async () => {
       await storage.createEvent(makeEvent({ id: 'evt-upd', title: 'Old Title', totalCost: 100 }));
 
-      const updated = await storage.updateEvent(makeEvent({
+      await storage.updateEvent(makeEvent({
         id: 'evt-upd',
         title: 'New Title',
         totalCost: 300,
       }));
+      const updated = await storage.getEvents();
 
       const evt = updated.find(e => e.id === 'evt-upd');
       expect(evt?.title).toBe('New Title');
@@ -144,22 +156,32 @@ describe('Storage Service (localStorage)', () => {
         description: 'Important game',
       }));
 
-      const updated = await storage.updateEvent(makeEvent({
+      await storage.updateEvent(makeEvent({
         id: 'evt-merge',
         title: 'Updated',
         location: 'Hall A',
       }));
+      const updated = await storage.getEvents();
 
       const evt = updated.find(e => e.id === 'evt-merge');
       expect(evt?.title).toBe('Updated');
       expect(evt?.location).toBe('Hall A');
     });
 
+    it('counts versions on every update', async () => {
+      const created = await storage.createEvent(makeEvent({ id: 'evt-ver' }));
+      expect(created?.version).toBe(1);
+
+      const updated = await storage.updateEvent({ ...created!, title: 'Renamed' });
+      expect(updated?.version).toBe(2);
+    });
+
     it('deletes an event', async () => {
       await storage.createEvent(makeEvent({ id: 'evt-keep' }));
       await storage.createEvent(makeEvent({ id: 'evt-del' }));
 
-      const remaining = await storage.deleteEvent('evt-del');
+      await storage.deleteEvent('evt-del');
+      const remaining = await storage.getEvents();
       expect(remaining).toHaveLength(1);
       expect(remaining[0].id).toBe('evt-keep');
     });
@@ -168,6 +190,43 @@ describe('Storage Service (localStorage)', () => {
       const events = await storage.getEvents();
       expect(events).toEqual([]);
     });
+
+    it('pages events oldest first, filtered by dates and sport', async () => {
+      await storage.createEventsBatch([
+        makeEvent({ id: 'b', date: '2024-06-10' }),
+        makeEvent({ id: 'a', date: '2024-06-10' }),
+        makeEvent({ id: 'c', date: '2024-06-01', sportType: 'tenis' }),
+        makeEvent({ id: 'd', date: '2024-07-01' }),
+      ]);
+
+      const first = await storage.getEventsPage({ limit: 2 });
+      expect(first.events.map(e => e.id)).toEqual(['c', 'a']);
+      const second = await storage.getEventsPage({ limit: 2, cursor: first.nextCursor! });
+      expect(second).toMatchObject({ events: [{ id: 'b' }, { id: 'd' }], nextCursor: null });
+
+      expect((await storage.getEvents({ from: '2024-06-05', to: '2024-06-30' })).map(e => e.id)).toEqual(['a', 'b']);
+      expect((await storage.getEvents({ sportType: 'volejbal' })).map(e => e.id)).toEqual(['a', 'b', 'd']);
+    });
+
+    it('lists the events someone still owes for, however old', async () => {
+      await storage.createEvent(makeEvent({ id: 'old', date: '2023-01-10' }));
+      await storage.createEvent(makeEvent({ id: 'paid', date: '2023-02-10' }));
+      await storage.createEvent(makeEvent({ id: 'later', date: '2024-06-20' }));
+      for (const id of ['old', 'paid', 'later']) {
+        await storage.updateAttendance(id, 'u1', 'joined');
+      }
+      await storage.markPaid('paid', 'u1', true);
+
+      expect((await storage.getUnpaidEvents('2024-06-01')).map(e => e.id)).toEqual(['old']);
+    });
+
+    it('gets one event, null once it is deleted', async () => {
+      await storage.createEvent(makeEvent({ id: 'evt-one', title: 'Single' }));
+      expect((await storage.getEvent('evt-one'))?.title).toBe('Single');
+
+      await storage.deleteEvent('evt-one');
+      expect(await storage.getEvent('evt-one')).toBeNull();
+    });
   });
 
   // ---- Attendance ----
@@ -320,6 +379,170 @@ describe('Storage Service (localStorage)', () => {
       const participant = events[0].participants[0];
       expect(participant.name).toBe('Neznámý');
     });
+
+    it('adds a guest with the inviter and payer', async () => {
+      const user = await createTestSetup();
+      const guestId = await storage.addGuest('evt-att', { name: 'Karel', invitedBy: user.id }, 'joined');
+
+      expect(guestId).toMatch(/^guest_/);
+      const events = await storage.getEvents();
+      const guest = events[0].participants.find(p => p.userId === guestId);
+      expect(guest).toMatchObject({
+        name: 'Karel',
+        status: 'joined',
+        hasPaid: false,
+        isGuest: true,
+        invitedBy: user.id,
+        paidBy: user.id,
+      });
+    });
+
+    it('keeps guest details when the guest pays', async () => {
+      const user = await createTestSetup();
+      const guestId = await storage.addGuest('evt-att', { name: 'Karel', invitedBy: user.id }, 'joined');
+      await storage.updateAttendance('evt-att', guestId, 'joined', true);
+
+      const events = await storage.getEvents();
+      const guest = events[0].participants.find(p => p.userId === guestId);
+      expect(guest?.hasPaid).toBe(true);
+      expect(guest?.name).toBe('Karel');
+      expect(guest?.isGuest).toBe(true);
+    });
+
+    it('removes a guest', async () => {
+      const user = await createTestSetup();
+      await storage.updateAttendance('evt-att', user.id, 'joined');
+      const guestId = await storage.addGuest('evt-att', { name: 'Karel', invitedBy: user.id }, 'joined');
+      await storage.removeGuest('evt-att', guestId);
+
+      const events = await storage.getEvents();
+      expect(events[0].participants.map(p => p.userId)).toEqual([user.id]);
+    });
+
+    describe('Waitlist', () => {
+      // Tenis holds 4 players by default; a ticking clock keeps the waitlist order stable
+      let clock = 1_000;
+      const nowSpy = vi.spyOn(Date, 'now');
+      const fillTenisEvent = async (date = '2099-01-01', time = '18:00') => {
+        nowSpy.mockImplementation(() => clock++);
+        await storage.createEvent({
+          id: 'evt-wl',
+          title: 'Tenis',
+          date,
+          time,
+          location: 'Kurt',
+          totalCost: 400,
+          accountNumber: '',
+          sportType: 'tenis',
+          participants: [],
+        });
+        const players = [];
+        for (const name of ['A', 'B', 'C', 'D']) {
+          const player = await storage.createUser(name);
+          await storage.updateAttendance('evt-wl', player.id, 'joined');
+          players.push(player);
+        }
+        const first = await storage.createUser('First');
+        const second = await storage.createUser('Second');
+        await storage.updateAttendance('evt-wl', first.id, 'waitlist');
+        await storage.updateAttendance('evt-wl', second.id, 'waitlist');
+        return { players, first, second };
+      };
+
+      afterEach(() => {
+        nowSpy.mockReset();
+      });
+
+      it('promotes the longest-waiting player when someone leaves', async () => {
+        const { players, first, second } = await fillTenisEvent();
+
+        await storage.updateAttendance('evt-wl', players[0].id, 'declined');
+
+        const [event] = await storage.getEvents();
+        const status = (id: string) => event.participants.find(p => p.userId === id)?.status;
+        expect(status(first.id)).toBe('joined');
+        expect(status(second.id)).toBe('waitlist');
+      });
+
+      it('holds the spot until the promoted player confirms', async () => {
+        await storage.updateNotificationSettings({ ...DEFAULT_NOTIFICATION_SETTINGS, promotionConfirmHours: 6 });
+        const { players, first } = await fillTenisEvent();
+
+        await storage.updateAttendance('evt-wl', players[0].id, 'declined');
+        let [event] = await storage.getEvents();
+        expect(event.participants.find(p => p.userId === first.id)).toMatchObject({ status: 'joined', confirmBy: expect.any(Number) });
+
+        await storage.updateAttendance('evt-wl', first.id, 'joined');
+        [event] = await storage.getEvents();
+        expect(event.participants.find(p => p.userId === first.id)?.confirmBy).toBeUndefined();
+      });
+
+      it('holds the spot no longer than until the start, in Prague time', async () => {
+        await storage.updateNotificationSettings({ ...DEFAULT_NOTIFICATION_SETTINGS, promotionConfirmHours: 6 });
+        clock = Date.parse('2026-03-20T11:00:00Z'); // 12:00 in Prague
+        const { players, first } = await fillTenisEvent('2026-03-20', '14:00');
+
+        await storage.updateAttendance('evt-wl', players[0].id, 'declined');
+
+        const [event] = await storage.getEvents();
+        expect(event.participants.find(p => p.userId === first.id)?.confirmBy).toBe(Date.parse('2026-03-20T13:00:00Z'));
+      });
+    });
+
+    describe('Late cancellation', () => {
+      const withLateCancelWindow = () => storage.updateSportConfigs(
+        DEFAULT_SPORT_CONFIGS.map(c => (c.type === 'volejbal' ? { ...c, attendancePolicy: { lateCancelHours: 24 } } : c)),
+      );
+      const participantOf = async (userId: string) => (await storage.getEvents())[0].participants.find(p => p.userId === userId);
+
+      it('keeps billing a player who leaves inside the window until they join again', async () => {
+        await withLateCancelWindow();
+        const user = await createTestSetup();
+        await storage.updateAttendance('evt-att', user.id, 'joined');
+
+        await storage.updateAttendance('evt-att', user.id, 'declined');
+        expect(await participantOf(user.id)).toMatchObject({ status: 'declined', lateCancel: true });
+
+        await storage.updateAttendance('evt-att', user.id, 'declined', true);
+        expect(await participantOf(user.id)).toMatchObject({ hasPaid: true, lateCancel: true });
+
+        await storage.updateAttendance('evt-att', user.id, 'joined');
+        expect((await participantOf(user.id))?.lateCancel).toBeUndefined();
+      });
+
+      it('confirms the payment of a late cancellation without joining the player again', async () => {
+        await withLateCancelWindow();
+        const user = await createTestSetup();
+        await storage.updateAttendance('evt-att', user.id, 'joined');
+        await storage.updateAttendance('evt-att', user.id, 'declined');
+
+        await storage.markPaid('evt-att', user.id, true);
+        expect(await participantOf(user.id)).toMatchObject({ status: 'declined', hasPaid: true, lateCancel: true });
+      });
+
+      it('does not bill leaving without a window', async () => {
+        const user = await createTestSetup();
+        await storage.updateAttendance('evt-att', user.id, 'joined');
+        await storage.updateAttendance('evt-att', user.id, 'declined');
+
+        expect((await participantOf(user.id))?.lateCancel).toBeUndefined();
+      });
+
+      it('marks no-shows and waives late cancellations', async () => {
+        await withLateCancelWindow();
+        const user = await createTestSetup();
+        const other = await storage.createUser('Other');
+        await storage.updateAttendance('evt-att', user.id, 'joined');
+        await storage.updateAttendance('evt-att', other.id, 'joined');
+        await storage.updateAttendance('evt-att', other.id, 'declined');
+
+        await storage.markNoShow('evt-att', user.id, true);
+        await storage.waiveLateCancel('evt-att', other.id, 'declined');
+
+        expect((await participantOf(user.id))?.noShow).toBe(true);
+        expect((await participantOf(other.id))?.lateCancel).toBeUndefined();
+      });
+    });
   });
 
   // ---- Cascade Deletes ----
@@ -383,7 +606,8 @@ describe('Storage Service (localStorage)', () => {
       await storage.updateAttendance('evt-to-keep', user.id, 'joined');
 
       // Delete event
-      const remaining = await storage.deleteEvent('evt-to-delete');
+      await storage.deleteEvent('evt-to-delete');
+      const remaining = await storage.getEvents();
 
       // Kept event still has attendance
       expect(remaining).toHaveLength(1);
@@ -418,6 +642,205 @@ describe('Storage Service (localStorage)', () => {
       const tenis = fetched.find(c => c.type === 'tenis');
       expect(tenis?.maxPlayers).toBe(6);
     });
+
+    it('keeps a sport the admins added, and events of it', async () => {
+      const florbal = { type: 'florbal', label: 'Florbal', emoji: '🏑', maxPlayers: 12, defaultCost: 800, defaultLocation: 'Hala', teamSize: 5 };
+      const configs = [...await storage.getSportConfigs(), florbal];
+      await storage.updateSportConfigs(configs);
+      expect((await storage.getSportConfigs()).map(c => c.type)).toEqual(['volejbal', 'tenis', 'badminton', 'florbal']);
+
+      await storage.createEvent({
+        id: 'f1', title: 'Florbal', date: '2024-06-15', time: '18:00', location: 'Hala', totalCost: 800, accountNumber: '', participants: [], sportType: 'florbal',
+      });
+      expect((await storage.getEvents())[0].sportType).toBe('florbal');
+
+      await expect(storage.updateSportConfigs([...configs, florbal])).rejects.toMatchObject({ status: 400 });
+    });
+  });
+
+  // ---- Tournaments ----
+
+  describe('Tournaments', () => {
+    const cup = {
+      id: '', name: 'Jarní turnaj', date: '2024-04-20', format: 'single-elimination' as const,
+      teams: [
+        { id: 'a', name: 'Vlci', members: [{ userId: 'u1', name: 'Jan' }] },
+        { id: 'b', name: 'Orli', members: [{ userId: 'u2', name: 'Eva' }] },
+      ],
+      matches: [{ id: 'w0-0', stage: 'winners' as const, round: 0, slot: 0, teams: ['a', 'b'] as [string, string] }],
+    };
+
+    it('creates, records a result and deletes a tournament', async () => {
+      const created = await storage.createTournament(cup);
+      expect(created).toMatchObject({ name: 'Jarní turnaj', version: 1 });
+      expect(created.id).not.toBe('');
+
+      const matches = [{ ...cup.matches[0], winner: 0 as const, score: [[25, 20]] as [number, number][] }];
+      const saved = await storage.updateTournament({ ...created, matches });
+      expect(saved.version).toBe(2);
+      expect((await storage.getTournaments())[0].matches[0].winner).toBe(0);
+
+      await storage.deleteTournament(created.id);
+      expect(await storage.getTournaments()).toEqual([]);
+    });
+
+    it('rejects a tournament of a single team', async () => {
+      await expect(storage.createTournament({ ...cup, teams: [cup.teams[0]] })).rejects.toMatchObject({ status: 400 });
+    });
+  });
+
+  // ---- Auth ----
+
+  describe('Auth', () => {
+    it('logs in with the PIN set at registration', async () => {
+      const user = await storage.createUser('Alice', undefined, '1234');
+      const session = await storage.login('Alice', '1234');
+      expect(session.user).toEqual(user);
+      expect(session.token).toBeTruthy();
+    });
+
+    it('rejects a wrong PIN', async () => {
+      await storage.createUser('Alice', undefined, '1234');
+      await expect(storage.login('Alice', '9999')).rejects.toThrow('Nesprávný PIN.');
+    });
+
+    it('does not store the PIN in plain text', async () => {
+      await storage.createUser('Alice', undefined, '1234');
+      expect(localStorage.getItem('volleyball_credentials_db_v1')).not.toContain('1234');
+    });
+
+    it('sets the PIN on first login for profiles without credentials', async () => {
+      await storage.createUser('Legacy');
+      await storage.login('Legacy', '5555');
+      await expect(storage.login('Legacy', '1111')).rejects.toThrow('Nesprávný PIN.');
+      await expect(storage.login('Legacy', '5555')).resolves.toBeDefined();
+    });
+
+    it('finds the profile by name, case aside', async () => {
+      const user = await storage.createUser('Alice', undefined, '1234');
+      await expect(storage.login(' alice', '1234')).resolves.toMatchObject({ user });
+      await expect(storage.login('Bob', '1234')).rejects.toThrow('Uživatel nenalezen.');
+    });
+
+    it('changes the PIN only with the correct current PIN', async () => {
+      const user = await storage.createUser('Alice', undefined, '1234');
+      await expect(storage.changePin(user.id, '0000', '4321')).rejects.toThrow('Nesprávný současný PIN.');
+      await storage.changePin(user.id, '1234', '4321');
+      await expect(storage.login('Alice', '4321')).resolves.toBeDefined();
+    });
+
+    it('removes credentials when the user is deleted', async () => {
+      const user = await storage.createUser('Alice', undefined, '1234');
+      await storage.deleteUser(user.id);
+      expect(JSON.parse(localStorage.getItem('volleyball_credentials_db_v1') || '[]')).toEqual([]);
+    });
+  });
+
+  // ---- Groups ----
+
+  describe('Groups', () => {
+    const signInAs = (userId: string) => storage.setAuthToken(`local.${userId}`);
+
+    afterEach(() => {
+      storage.setAuthToken(null);
+      storage.setActiveGroup(null);
+    });
+
+    it('makes the creator the admin and hands out the invite code', async () => {
+      const alice = await storage.createUser('Alice');
+      signInAs(alice.id);
+
+      const group = await storage.createGroup('  Pondělí  ');
+      expect(group.name).toBe('Pondělí');
+      expect(group.role).toBe('admin');
+      expect(group.inviteCode).toBeTruthy();
+      expect(await storage.getGroups()).toEqual([group]);
+    });
+
+    it('joins by invite code as a player without seeing the code', async () => {
+      const alice = await storage.createUser('Alice');
+      const bob = await storage.createUser('Bob');
+      signInAs(alice.id);
+      const { inviteCode } = await storage.createGroup('Pondělí');
+
+      signInAs(bob.id);
+      const joined = await storage.joinGroup(inviteCode!);
+      expect(joined.role).toBe('player');
+      expect(joined.inviteCode).toBeUndefined();
+      await expect(storage.joinGroup('wrong')).rejects.toThrow('Neplatný kód pozvánky.');
+    });
+
+    it('scopes members, events and sport configs to the active group', async () => {
+      const alice = await storage.createUser('Alice');
+      const bob = await storage.createUser('Bob');
+      signInAs(alice.id);
+      const monday = await storage.createGroup('Pondělí');
+      const friday = await storage.createGroup('Pátek');
+      signInAs(bob.id);
+      await storage.joinGroup(monday.inviteCode!);
+
+      storage.setActiveGroup(monday.id);
+      await storage.createEvent({ id: 'e1', title: 'Monday', date: '2024-06-15', time: '18:00', location: 'Gym', totalCost: 0, accountNumber: '', participants: [] });
+      await storage.updateSportConfigs([{ type: 'volejbal', label: 'Volejbal', maxPlayers: 8, defaultCost: 0, defaultLocation: '', teamSize: null }]);
+      expect((await storage.getUsers()).map(u => [u.name, u.role])).toEqual([['Alice', 'admin'], ['Bob', 'player']]);
+
+      storage.setActiveGroup(friday.id);
+      expect(await storage.getEvents()).toEqual([]);
+      expect((await storage.getUsers()).map(u => u.name)).toEqual(['Alice']);
+      expect((await storage.getSportConfigs()).find(c => c.type === 'volejbal')?.maxPlayers).toBe(12);
+    });
+
+    it('changes roles but keeps at least one admin', async () => {
+      const alice = await storage.createUser('Alice');
+      const bob = await storage.createUser('Bob');
+      signInAs(alice.id);
+      const group = await storage.createGroup('Pondělí');
+      signInAs(bob.id);
+      await storage.joinGroup(group.inviteCode!);
+      storage.setActiveGroup(group.id);
+
+      await storage.updateMemberRole(bob.id, 'treasurer');
+      expect((await storage.getUsers()).find(u => u.id === bob.id)?.role).toBe('treasurer');
+      await expect(storage.updateMemberRole(alice.id, 'player')).rejects.toThrow('Skupina musí mít alespoň jednoho správce.');
+    });
+
+    it('removes a member without deleting the account', async () => {
+      const alice = await storage.createUser('Alice');
+      const bob = await storage.createUser('Bob');
+      signInAs(alice.id);
+      const group = await storage.createGroup('Pondělí');
+      signInAs(bob.id);
+      await storage.joinGroup(group.inviteCode!);
+      storage.setActiveGroup(group.id);
+
+      await storage.removeGroupMember(bob.id);
+      expect((await storage.getUsers()).map(u => u.name)).toEqual(['Alice']);
+      expect(await storage.getGroups()).toEqual([]);
+
+      storage.setActiveGroup(null);
+      expect(await storage.getUser(bob.id)).toBeDefined();
+    });
+  });
+
+  // ---- Live sync ----
+
+  describe('Live sync', () => {
+    it('has nothing to follow in local mode', () => {
+      const onChange = vi.fn();
+      const unsubscribe = storage.subscribeToChanges({ eventId: 'evt-1', onChange });
+
+      unsubscribe();
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---- Offline outbox ----
+
+  describe('Offline outbox', () => {
+    it('has nothing queued or to replay in local mode', async () => {
+      expect(await storage.getPendingWriteCount()).toBe(0);
+      expect(await storage.replayOutbox()).toEqual({ sent: 0, conflicts: [], rejected: [] });
+    });
   });
 
   // ---- Backward Compat ----
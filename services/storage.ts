@@ -1,4 +1,27 @@
-import { SportEvent, User, AttendanceRecord, Participant, BankAccount, SportConfig, SportType, VALID_SPORT_TYPES, DEFAULT_SPORT_CONFIGS } from '../types';
+import { SportEvent, EventPage, EventQuery, User, AttendanceRecord, ChangeNotice, Participant, BankAccount, SportConfig, Tournament, AuthSession, UserRole, AuditEntry, AuditFilter, Group, DEFAULT_SPORT_CONFIGS } from '../types';
+import { can } from '../utils/permissions';
+import { getVariableSymbol } from '../shared/variableSymbol';
+import { planWaitlist } from '../shared/waitlist';
+import { isLateCancelWindow } from '../shared/attendancePolicy';
+import { hasUnpaidShare } from '../shared/debt';
+import { eventStartsAt } from '../shared/eventTime';
+import { normalizeNotificationSettings, type NotificationConfig, type NotificationSettings } from '../shared/notificationSettings';
+import { createSseParser } from '../utils/liveSync';
+import { applyQueuedWrites, enqueueWrite, QueuedWrite, RejectedWrite } from '../utils/outbox';
+import * as offlineStore from './offlineStore';
+import { invalidRequest, validate, Schema, ValidationIssue } from '../shared/schema';
+import {
+  attendanceSchema,
+  bankAccountSchema,
+  createEventSchema,
+  createEventsBatchSchema,
+  createTournamentSchema,
+  notificationSettingsSchema,
+  sportConfigsSchema,
+  updateEventSchema,
+  updateTournamentSchema,
+} from '../shared/apiSchemas';
+import { compareEvents, decodeCursor, matchesQuery, MAX_EVENTS_PAGE, pageEvents } from '../shared/eventPages';
 
 // Local Storage Keys (fallback for offline / test / dev:vite mode)
 const LS_USERS = 'volleyball_users_db_v1';
@@ -6,6 +29,10 @@ const LS_EVENTS = 'volleyball_events_db_v1';
 const LS_ATTENDANCE = 'volleyball_attendance_db_v1';
 const LS_BANK_ACCOUNTS = 'volleyball_bank_accounts_db_v1';
 const LS_SPORT_CONFIGS = 'sport_configs_db_v1';
+const LS_CREDENTIALS = 'volleyball_credentials_db_v1';
+const LS_GROUPS = 'volleyball_groups_db_v1';
+const LS_NOTIFICATION_SETTINGS = 'notification_settings_v1';
+const LS_TOURNAMENTS = 'tournaments_db_v1';
 
 // Detect if API is available (running via `vercel dev` or deployed on Vercel)
 const API_BASE = '/api';
@@ -38,15 +65,79 @@ const setLS = (key: string, data: any[]) => {
   localStorage.setItem(key, JSON.stringify(data));
 };
 
+// --- Session token ---
+let authToken: string | null = null;
+let onUnauthorized: (() => void) | null = null;
+
+/** Set (or clear) the session token attached to every API request */
+export const setAuthToken = (token: string | null) => { authToken = token; };
+
+/** Register a callback fired when the API rejects the session (expired / revoked token) */
+export const setUnauthorizedHandler = (handler: (() => void) | null) => { onUnauthorized = handler; };
+
+// --- Active group ---
+let activeGroupId: string | null = null;
+// Last live sync notice seen in the active group — a resubscribe (another event opened) resumes from it
+let streamLastEventId: string | null = null;
+
+/** Scope every following request to a group (sent as `X-Group-Id`); clears the caches */
+export const setActiveGroup = (groupId: string | null) => {
+  if (groupId === activeGroupId) return;
+  activeGroupId = groupId;
+  invalidateUsersCache();
+  invalidateEventsCache();
+  invalidateBankAccountsCache();
+  streamLastEventId = null;
+};
+
+// Identifies this tab in live sync notices, so it skips the changes it made itself
+const CLIENT_ID = generateId();
+
 // --- Fetch helper ---
+const apiHeaders = (): Record<string, string> => ({
+  ...(authToken && { Authorization: `Bearer ${authToken}` }),
+  ...(activeGroupId && { 'X-Group-Id': activeGroupId }),
+  'X-Client-Id': CLIENT_ID,
+});
+
+/** Non-2xx API response — the message is the server's `error`, `body` the whole JSON */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: any;
+  /** Rejected fields of a 400, see shared/schema.ts */
+  readonly issues: ValidationIssue[];
+
+  constructor(status: number, body: any) {
+    super(body.error || `API error ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+    this.issues = Array.isArray(body.issues) ? body.issues : [];
+  }
+}
+
+/**
+ * Check a write with the API's own schema before it is stored locally, sent
+ * or queued — the same 400 ApiError the server would answer, without the
+ * round trip (and without a queued write that could never be replayed).
+ */
+function checkRequest<T>(schema: Schema<T>, body: unknown): void {
+  const issues = validate(schema, body);
+  if (issues.length > 0) throw new ApiError(400, invalidRequest(issues));
+}
+
 async function apiFetch<T>(path: string, options?: RequestInit): Promise<T> {
   const res = await fetch(`${API_BASE}${path}`, {
-    headers: { 'Content-Type': 'application/json' },
     ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...apiHeaders(),
+      ...options?.headers,
+    },
   });
   if (!res.ok) {
-    const body = await res.json().catch(() => ({}));
-    throw new Error(body.error || `API error ${res.status}`);
+    if (res.status === 401 && authToken) onUnauthorized?.();
+    throw new ApiError(res.status, await res.json().catch(() => ({})));
   }
   return res.json();
 }
@@ -62,7 +153,8 @@ const EVENTS_CACHE_TTL = 30_000; // 30 seconds
 const BANK_ACCOUNTS_CACHE_TTL = 30_000; // 30 seconds
 
 let usersCache: CacheEntry<User[]> | null = null;
-let eventsCache: CacheEntry<SportEvent[]> | null = null;
+// Pages by query string
+const eventsCache = new Map<string, CacheEntry<EventPage>>();
 let bankAccountsCache: CacheEntry<BankAccount[]> | null = null;
 
 function getCached<T>(entry: CacheEntry<T> | null, ttl: number): T | null {
@@ -73,14 +165,300 @@ function getCached<T>(entry: CacheEntry<T> | null, ttl: number): T | null {
 }
 
 export const invalidateUsersCache = () => { usersCache = null; };
-export const invalidateEventsCache = () => { eventsCache = null; };
+export const invalidateEventsCache = () => { eventsCache.clear(); };
 export const invalidateBankAccountsCache = () => { bankAccountsCache = null; };
 
+// --- Offline ---
+// Events and users are mirrored to IndexedDB; RSVPs and event writes made
+// without a network wait in an outbox and are replayed by replayOutbox().
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/** fetch() rejects with a TypeError when the request never reached the server */
+const isNetworkError = (error: unknown): boolean => error instanceof TypeError;
+
+let onOutboxChange: ((pending: number) => void) | null = null;
+
+/** Register a callback fired with the number of queued writes whenever the outbox changes */
+export const setOutboxListener = (listener: ((pending: number) => void) | null) => { onOutboxChange = listener; };
+
+export const getPendingWriteCount = async (): Promise<number> =>
+  useApi() ? (await offlineStore.getOutbox()).length : 0;
+
+const queueMeta = () => ({ id: generateId(), groupId: activeGroupId ?? '', queuedAt: Date.now() });
+
+/** Send the write now, or queue it when there is no network */
+async function sendOrQueue(send: () => Promise<unknown>, queued: () => Promise<QueuedWrite> | QueuedWrite): Promise<void> {
+  if (!isOffline()) {
+    try {
+      await send();
+      return;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  const queue = enqueueWrite(await offlineStore.getOutbox(), await queued());
+  await offlineStore.saveOutbox(queue);
+  onOutboxChange?.(queue.length);
+}
+
+/** Lay the queued writes of the active group over events loaded from the server or the mirror */
+async function withQueuedWrites(events: SportEvent[]): Promise<SportEvent[]> {
+  if (!activeGroupId) return events;
+  const groupId = activeGroupId;
+  const queue = (await offlineStore.getOutbox()).filter(w => w.groupId === groupId);
+  if (queue.length === 0) return events;
+  const users = usersCache?.data ?? await offlineStore.getMirroredUsers(groupId) ?? [];
+  return applyQueuedWrites(events, queue, users);
+}
+
+/** Signed out on purpose — drop the mirrored group data and unsent writes from this device */
+export const clearOfflineData = async (): Promise<void> => {
+  if (!useApi()) return;
+  await offlineStore.clearOfflineData();
+  onOutboxChange?.(0);
+};
+
+// --- Auth ---
+
+interface LocalCredentials {
+  userId: string;
+  salt: string;
+  hash: string;
+}
+
+// Local fallback mode never leaves the browser, but PINs are still not kept in plain text
+const hashPinLocal = async (pin: string, salt: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const storeLocalCredentials = async (userId: string, pin: string) => {
+  const salt = generateId();
+  const credentials = getLS<LocalCredentials>(LS_CREDENTIALS).filter(c => c.userId !== userId);
+  credentials.push({ userId, salt, hash: await hashPinLocal(pin, salt) });
+  setLS(LS_CREDENTIALS, credentials);
+};
+
+/**
+ * Log in with the profile's name and PIN — names are unique, case aside.
+ * Profiles created before PINs existed have no credentials — the API sets
+ * their first PIN only with the `setupCode` a group admin issued (a missing
+ * one fails like a wrong PIN). Local mode keeps one browser's own profiles,
+ * so there the first login still sets the PIN.
+ */
+export const login = async (name: string, pin: string, setupCode?: string): Promise<AuthSession> => {
+  if (!useApi()) {
+    const user = getLS<User>(LS_USERS).find(u => u.name.toLowerCase() === name.trim().toLowerCase());
+    if (!user) throw new Error('Uživatel nenalezen.');
+    const existing = getLS<LocalCredentials>(LS_CREDENTIALS).find(c => c.userId === user.id);
+    if (existing) {
+      if (await hashPinLocal(pin, existing.salt) !== existing.hash) throw new Error('Nesprávný PIN.');
+    } else {
+      await storeLocalCredentials(user.id, pin);
+    }
+    return { user, token: `local.${user.id}` };
+  }
+
+  return apiFetch<AuthSession>('/auth', {
+    method: 'POST',
+    body: JSON.stringify({ name, pin, setupCode }),
+  });
+};
+
+/**
+ * Change the signed-in user's PIN. The API ends every session issued before
+ * the new PIN — returns the token that replaces this device's one (none in
+ * local mode, where the token stays as it is).
+ */
+export const changePin = async (userId: string, currentPin: string, newPin: string): Promise<string | null> => {
+  if (!useApi()) {
+    const existing = getLS<LocalCredentials>(LS_CREDENTIALS).find(c => c.userId === userId);
+    if (existing && await hashPinLocal(currentPin, existing.salt) !== existing.hash) {
+      throw new Error('Nesprávný současný PIN.');
+    }
+    await storeLocalCredentials(userId, newPin);
+    return null;
+  }
+
+  const { token } = await apiFetch<{ token: string }>('/auth', {
+    method: 'PUT',
+    body: JSON.stringify({ currentPin, newPin }),
+  });
+  return token;
+};
+
+// --- Groups ---
+
+interface LocalGroup {
+  id: string;
+  name: string;
+  inviteCode: string;
+  members: Record<string, UserRole>;
+}
+
+/** Signed-in user in local mode — the token is `local.{userId}` */
+const localUserId = (): string | null =>
+  authToken?.startsWith('local.') ? authToken.slice('local.'.length) : null;
+
+const toGroup = (group: LocalGroup, role: UserRole): Group => ({
+  id: group.id,
+  name: group.name,
+  role,
+  ...(can({ role }, 'group:invite') && { inviteCode: group.inviteCode }),
+});
+
+/** Run `update` on the active local group and persist it */
+const updateLocalGroup = (update: (group: LocalGroup) => void): LocalGroup => {
+  const groups = getLS<LocalGroup>(LS_GROUPS);
+  const group = groups.find(g => g.id === activeGroupId);
+  if (!group) throw new Error('Skupina nenalezena.');
+  update(group);
+  setLS(LS_GROUPS, groups.filter(g => Object.keys(g.members).length > 0));
+  return group;
+};
+
+/** Groups of the signed-in user, each with the user's role in it */
+export const getGroups = async (): Promise<Group[]> => {
+  if (!useApi()) {
+    const userId = localUserId();
+    return getLS<LocalGroup>(LS_GROUPS)
+      .filter(g => userId && g.members[userId])
+      .map(g => toGroup(g, g.members[userId!]));
+  }
+
+  return apiFetch<Group[]>('/groups');
+};
+
+/** Create a group — the creator becomes its admin */
+export const createGroup = async (name: string): Promise<Group> => {
+  if (!useApi()) {
+    const userId = localUserId();
+    if (!userId) throw new Error('Nejste přihlášeni.');
+    const group: LocalGroup = {
+      id: generateId(),
+      name: name.trim(),
+      inviteCode: generateId().replace(/-/g, '').slice(0, 12),
+      members: { [userId]: 'admin' },
+    };
+    setLS(LS_GROUPS, [...getLS<LocalGroup>(LS_GROUPS), group]);
+    return toGroup(group, 'admin');
+  }
+
+  return apiFetch<Group>('/groups', {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+};
+
+/** Join a group with the code from an invite link — new members start as players */
+export const joinGroup = async (inviteCode: string): Promise<Group> => {
+  if (!useApi()) {
+    const userId = localUserId();
+    if (!userId) throw new Error('Nejste přihlášeni.');
+    const groups = getLS<LocalGroup>(LS_GROUPS);
+    const group = groups.find(g => g.inviteCode === inviteCode.trim());
+    if (!group) throw new Error('Neplatný kód pozvánky.');
+    group.members[userId] = group.members[userId] ?? 'player';
+    setLS(LS_GROUPS, groups);
+    return toGroup(group, group.members[userId]);
+  }
+
+  return apiFetch<Group>('/groups', {
+    method: 'POST',
+    body: JSON.stringify({ inviteCode }),
+  });
+};
+
+/** Set a member's role in the active group — the API only accepts this from an admin */
+export const updateMemberRole = async (userId: string, role: UserRole): Promise<void> => {
+  if (!useApi()) {
+    updateLocalGroup(group => {
+      if (!group.members[userId]) throw new Error('Člen nenalezen.');
+      const otherAdmins = Object.entries(group.members).filter(([id, r]) => id !== userId && r === 'admin');
+      if (group.members[userId] === 'admin' && role !== 'admin' && otherAdmins.length === 0) {
+        throw new Error('Skupina musí mít alespoň jednoho správce.');
+      }
+      group.members[userId] = role;
+    });
+    return;
+  }
+
+  await apiFetch<void>('/groups', {
+    method: 'PUT',
+    body: JSON.stringify({ memberId: userId, role }),
+  });
+  invalidateUsersCache();
+};
+
+/** One-time code for a member without a PIN to set their first one — admins only, shown once */
+export const issueSetupCode = async (userId: string): Promise<string> => {
+  if (!useApi()) {
+    throw new Error('V místním režimu si člen PIN nastaví sám při prvním přihlášení.');
+  }
+
+  const { setupCode } = await apiFetch<{ userId: string; setupCode: string }>('/groups', {
+    method: 'PUT',
+    body: JSON.stringify({ memberId: userId, issueSetupCode: true }),
+  });
+  return setupCode;
+};
+
+/** Remove a member from the active group (or leave it, with the own id) */
+export const removeGroupMember = async (userId: string): Promise<void> => {
+  if (!useApi()) {
+    updateLocalGroup(group => {
+      const members = Object.entries(group.members);
+      const otherAdmins = members.filter(([id, r]) => id !== userId && r === 'admin');
+      if (group.members[userId] === 'admin' && members.length > 1 && otherAdmins.length === 0) {
+        throw new Error('Skupina musí mít alespoň jednoho správce.');
+      }
+      delete group.members[userId];
+    });
+    return;
+  }
+
+  await apiFetch<void>(`/groups?memberId=${encodeURIComponent(userId)}`, {
+    method: 'DELETE',
+  });
+  invalidateUsersCache();
+};
+
+/** Issue a new invite code for the active group — the previous link stops working */
+export const rotateInviteCode = async (): Promise<Group> => {
+  if (!useApi()) {
+    const group = updateLocalGroup(g => {
+      g.inviteCode = generateId().replace(/-/g, '').slice(0, 12);
+    });
+    return toGroup(group, group.members[localUserId() ?? ''] ?? 'player');
+  }
+
+  return apiFetch<Group>('/groups', {
+    method: 'PUT',
+    body: JSON.stringify({ rotateInvite: true }),
+  });
+};
+
+/** Members of the active local group, or null when no group is selected */
+const localMembers = (): Record<string, UserRole> | null => {
+  if (!activeGroupId) return null;
+  return getLS<LocalGroup>(LS_GROUPS).find(g => g.id === activeGroupId)?.members ?? {};
+};
+
 // --- Users ---
 
+/**
+ * Users of the active group with their group role. With no active group the
+ * API lists everyone sharing a group with the signed-in user (local mode: all
+ * of this browser's profiles).
+ */
 export const getUsers = async (): Promise<User[]> => {
   if (!useApi()) {
-    return getLS<User>(LS_USERS);
+    const members = localMembers();
+    const users = getLS<User>(LS_USERS);
+    return members
+      ? users.filter(u => members[u.id]).map(u => ({ ...u, role: members[u.id] }))
+      : users;
   }
 
   const cached = getCached(usersCache, USERS_CACHE_TTL);
@@ -89,10 +467,12 @@ export const getUsers = async (): Promise<User[]> => {
   try {
     const data = await apiFetch<User[]>('/users');
     usersCache = { data, timestamp: Date.now() };
+    if (activeGroupId) await offlineStore.mirrorUsers(activeGroupId, data);
     return data;
   } catch (e) {
-    console.error("Failed to load users from API, falling back to localStorage", e);
-    return getLS<User>(LS_USERS);
+    console.error("Failed to load users from API, using the offline copy", e);
+    const mirrored = activeGroupId ? await offlineStore.getMirroredUsers(activeGroupId) : null;
+    return mirrored ?? getLS<User>(LS_USERS);
   }
 };
 
@@ -101,7 +481,7 @@ export const getUser = async (id: string): Promise<User | undefined> => {
   return users.find(u => u.id === id);
 };
 
-export const createUser = async (name: string, photoUrl?: string): Promise<User> => {
+export const createUser = async (name: string, photoUrl?: string, pin?: string): Promise<User> => {
   if (!useApi()) {
     const users = getLS<User>(LS_USERS);
     if (users.some(u => u.name.toLowerCase() === name.trim().toLowerCase())) {
@@ -114,12 +494,13 @@ export const createUser = async (name: string, photoUrl?: string): Promise<User>
     };
     users.push(newUser);
     setLS(LS_USERS, users);
+    if (pin) await storeLocalCredentials(newUser.id, pin);
     return newUser;
   }
 
   const newUser = await apiFetch<User>('/users', {
     method: 'POST',
-    body: JSON.stringify({ name, photoUrl }),
+    body: JSON.stringify({ name, photoUrl, pin }),
   });
   invalidateUsersCache();
   return newUser;
@@ -149,6 +530,10 @@ export const deleteUser = async (userId: string): Promise<void> => {
     setLS(LS_USERS, users);
     const attendance = getLS<AttendanceRecord>(LS_ATTENDANCE).filter(a => a.userId !== userId);
     setLS(LS_ATTENDANCE, attendance);
+    setLS(LS_CREDENTIALS, getLS<LocalCredentials>(LS_CREDENTIALS).filter(c => c.userId !== userId));
+    const groups = getLS<LocalGroup>(LS_GROUPS);
+    for (const group of groups) delete group.members[userId];
+    setLS(LS_GROUPS, groups.filter(g => Object.keys(g.members).length > 0));
     return;
   }
 
@@ -198,94 +583,354 @@ export const deleteUserPhoto = async (userId: string): Promise<void> => {
 
 // --- Attendance ---
 
+/** Local counterpart of the server's waitlist handling — apply lapsed offers and promotions */
+const settleLocalWaitlist = (all: AttendanceRecord[], eventId: string): AttendanceRecord[] => {
+  const event = getLS<SportEvent>(LS_EVENTS).find(e => e.id === eventId);
+  const configs = getLS<SportConfig>(sportConfigsKey());
+  const maxPlayers = (configs.length > 0 ? configs : DEFAULT_SPORT_CONFIGS).find(c => c.type === (event?.sportType ?? 'volejbal'))?.maxPlayers;
+  if (!event || !maxPlayers) return all;
+
+  const stored = localStorage.getItem(notificationSettingsKey());
+  const settings = normalizeNotificationSettings(stored ? JSON.parse(stored) : null);
+  const now = Date.now();
+  const changes = planWaitlist(all.filter(a => a.eventId === eventId), maxPlayers, {
+    now,
+    confirmHours: settings.promotionConfirmHours,
+    // The stored date and time are Prague wall clock, whatever the browser's zone
+    startsAt: eventStartsAt(event, new Date(now)),
+  });
+  const changed = new Map(changes.map(c => [c.after.userId, c.after]));
+  return all.map(a => (a.eventId === eventId ? changed.get(a.userId) ?? a : a));
+};
+
+/** Local counterpart of the server's late-cancellation rule — a joined player leaving inside the window */
+const leavesLocalLate = (eventId: string, existing: AttendanceRecord | undefined, status: Participant['status']): boolean => {
+  if (existing?.status !== 'joined' || status === 'joined' || existing.confirmBy !== undefined) return false;
+  const event = getLS<SportEvent>(LS_EVENTS).find(e => e.id === eventId);
+  const configs = getLS<SportConfig>(sportConfigsKey());
+  return !!event && isLateCancelWindow(event, configs.length > 0 ? configs : DEFAULT_SPORT_CONFIGS);
+};
+
+/**
+ * RSVP or payment change. Joining a full event lands on the waitlist and a
+ * freed spot goes to the next in line — the server decides, reload to see it.
+ * Past the sport's RSVP cut-off the server only takes changes from organizers.
+ */
 export const updateAttendance = async (eventId: string, userId: string, status: Participant['status'], hasPaid?: boolean): Promise<void> => {
+  checkRequest(attendanceSchema, { eventId, userId, status, hasPaid });
+
   if (!useApi()) {
+    const all = getLS<AttendanceRecord>(LS_ATTENDANCE);
+    const existingIndex = all.findIndex(a => a.eventId === eventId && a.userId === userId);
+    const existing = existingIndex >= 0 ? all[existingIndex] : undefined;
+    const statusChanged = existing?.status !== status;
+    // Answering yourself confirms a held spot, a payment change keeps the offer
+    const { confirmBy: _confirmBy, ...rest } = existing ?? ({} as Partial<AttendanceRecord>);
+    const { lateCancel: _lateCancel, noShow: _noShow, ...kept } = (hasPaid === undefined ? rest : existing) ?? {};
+    const lateCancel = status !== 'joined' && (!!existing?.lateCancel || leavesLocalLate(eventId, existing, status));
     const record: AttendanceRecord = {
+      ...kept,
       eventId,
       userId,
       status,
-      hasPaid: hasPaid || false,
-      timestamp: Date.now()
+      hasPaid: hasPaid ?? existing?.hasPaid ?? false,
+      timestamp: statusChanged || !existing ? Date.now() : existing.timestamp,
+      variableSymbol: existing?.variableSymbol ?? getVariableSymbol(eventId, userId),
+      ...(lateCancel ? { lateCancel: true } : {}),
+      ...(status === 'joined' && existing?.noShow ? { noShow: true } : {}),
     };
-    const all = getLS<AttendanceRecord>(LS_ATTENDANCE);
-    const existingIndex = all.findIndex(a => a.eventId === eventId && a.userId === userId);
-    if (existingIndex >= 0) {
-      all[existingIndex] = { ...all[existingIndex], ...record };
+    if (existing) {
+      all[existingIndex] = record;
     } else {
       all.push(record);
     }
-    setLS(LS_ATTENDANCE, all);
+    setLS(LS_ATTENDANCE, settleLocalWaitlist(all, eventId));
+    return;
+  }
+
+  await sendOrQueue(
+    () => apiFetch<void>('/attendance', {
+      method: 'PUT',
+      body: JSON.stringify({ eventId, userId, status, hasPaid }),
+    }),
+    () => ({ kind: 'attendance', eventId, userId, status, hasPaid, ...queueMeta() }),
+  );
+  invalidateEventsCache();
+};
+
+const patchLocalAttendance = (eventId: string, userId: string, patch: (record: AttendanceRecord) => AttendanceRecord): void => {
+  const all = getLS<AttendanceRecord>(LS_ATTENDANCE);
+  setLS(LS_ATTENDANCE, all.map(a => (a.eventId === eventId && a.userId === userId ? patch(a) : a)));
+};
+
+/**
+ * Confirm (or take back) a payment without touching the RSVP — a late
+ * cancellation stays declined and billed, a treasurer needs no attendance rights.
+ */
+export const markPaid = async (eventId: string, userId: string, hasPaid: boolean): Promise<void> => {
+  if (!useApi()) {
+    patchLocalAttendance(eventId, userId, record => ({ ...record, hasPaid }));
     return;
   }
 
   await apiFetch<void>('/attendance', {
     method: 'PUT',
-    body: JSON.stringify({ eventId, userId, status, hasPaid }),
+    body: JSON.stringify({ eventId, userId, hasPaid }),
   });
   invalidateEventsCache();
 };
 
-// --- Events ---
+/** Organizer marks a joined player who didn't turn up (after the start) — they still pay */
+export const markNoShow = async (eventId: string, userId: string, noShow: boolean): Promise<void> => {
+  if (!useApi()) {
+    patchLocalAttendance(eventId, userId, ({ noShow: _noShow, ...record }) => (noShow ? { ...record, noShow: true } : record));
+    return;
+  }
 
-export const getEvents = async (): Promise<SportEvent[]> => {
+  await apiFetch<void>('/attendance', {
+    method: 'PUT',
+    body: JSON.stringify({ eventId, userId, status: 'joined', noShow }),
+  });
+  invalidateEventsCache();
+};
+
+/** Organizer lets a late cancellation off — the player no longer owes their share */
+export const waiveLateCancel = async (eventId: string, userId: string, status: Participant['status']): Promise<void> => {
   if (!useApi()) {
-    // Local join logic (same as before)
-    const rawEvents = getLS<Omit<SportEvent, 'participants'>>(LS_EVENTS);
-    const attendances = getLS<AttendanceRecord>(LS_ATTENDANCE);
-    const users = getLS<User>(LS_USERS);
+    patchLocalAttendance(eventId, userId, ({ lateCancel: _lateCancel, ...record }) => record);
+    return;
+  }
+
+  await apiFetch<void>('/attendance', {
+    method: 'PUT',
+    body: JSON.stringify({ eventId, userId, status, lateCancel: false }),
+  });
+  invalidateEventsCache();
+};
 
-    return rawEvents.map(event => {
-      const eventAttendance = attendances.filter(a => a.eventId === event.id);
-      const participants: Participant[] = eventAttendance.map(record => {
-        const user = users.find(u => u.id === record.userId);
-        return {
-          userId: record.userId,
-          name: user ? user.name : 'Neznámý',
-          photoUrl: user?.photoUrl,
-          status: record.status,
-          hasPaid: record.hasPaid
-        };
-      });
-      const rawType = (event as any).sportType ?? 'volejbal';
-      const sportType = (VALID_SPORT_TYPES as readonly string[]).includes(rawType) ? rawType : 'volejbal';
-      return { ...event, participants, sportType: sportType as SportType };
+/** Add a non-member to an event; returns the guest's `guest_` id */
+export const addGuest = async (
+  eventId: string,
+  guest: { name: string; invitedBy: string; paidBy?: string },
+  status: Participant['status'],
+): Promise<string> => {
+  const userId = `guest_${generateId()}`;
+  const paidBy = guest.paidBy ?? guest.invitedBy;
+  checkRequest(attendanceSchema, { eventId, userId, status, guest: { ...guest, paidBy } });
+
+  if (!useApi()) {
+    const all = getLS<AttendanceRecord>(LS_ATTENDANCE);
+    all.push({
+      eventId,
+      userId,
+      status,
+      hasPaid: false,
+      timestamp: Date.now(),
+      variableSymbol: getVariableSymbol(eventId, userId),
+      isGuest: true,
+      guestName: guest.name,
+      invitedBy: guest.invitedBy,
+      paidBy,
     });
+    setLS(LS_ATTENDANCE, all);
+    return userId;
   }
 
-  const cached = getCached(eventsCache, EVENTS_CACHE_TTL);
-  if (cached) return cached;
+  await apiFetch<void>('/attendance', {
+    method: 'PUT',
+    body: JSON.stringify({ eventId, userId, status, guest: { ...guest, paidBy } }),
+  });
+  invalidateEventsCache();
+  return userId;
+};
+
+export const removeGuest = async (eventId: string, guestId: string): Promise<void> => {
+  if (!useApi()) {
+    const all = getLS<AttendanceRecord>(LS_ATTENDANCE).filter(a => !(a.eventId === eventId && a.userId === guestId));
+    setLS(LS_ATTENDANCE, settleLocalWaitlist(all, eventId));
+    return;
+  }
+
+  await apiFetch<void>(`/attendance?eventId=${encodeURIComponent(eventId)}&userId=${encodeURIComponent(guestId)}`, {
+    method: 'DELETE',
+  });
+  invalidateEventsCache();
+};
+
+// --- Events ---
+
+/** The active group's events from localStorage, joined with attendance and user names */
+const getLocalEvents = (): SportEvent[] => {
+  const rawEvents = getLS<Omit<SportEvent, 'participants'>>(LS_EVENTS)
+    .filter(e => !activeGroupId || e.groupId === activeGroupId);
+  const attendances = getLS<AttendanceRecord>(LS_ATTENDANCE);
+  const users = getLS<User>(LS_USERS);
+
+  return rawEvents.map(event => {
+    // Oldest answer first — the waitlist is served in this order
+    const eventAttendance = attendances
+      .filter(a => a.eventId === event.id)
+      .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+    const participants: Participant[] = eventAttendance.map(record => {
+      const user = users.find(u => u.id === record.userId);
+      return {
+        userId: record.userId,
+        name: record.isGuest ? record.guestName ?? 'Host' : user ? user.name : 'Neznámý',
+        photoUrl: user?.photoUrl,
+        hasMultisportCard: user?.hasMultisportCard,
+        status: record.status,
+        hasPaid: record.hasPaid,
+        ...(record.isGuest ? { isGuest: true, invitedBy: record.invitedBy, paidBy: record.paidBy } : {}),
+        ...(record.confirmBy ? { confirmBy: record.confirmBy } : {}),
+        ...(record.lateCancel ? { lateCancel: true } : {}),
+        ...(record.noShow ? { noShow: true } : {}),
+        variableSymbol: record.variableSymbol ?? getVariableSymbol(event.id, record.userId),
+      };
+    });
+    return { ...event, participants, sportType: event.sportType ?? 'volejbal' };
+  });
+};
+
+const eventQueryString = (query: EventQuery): string =>
+  new URLSearchParams(
+    Object.entries(query).filter(([, value]) => value !== undefined).map(([key, value]) => [key, String(value)]),
+  ).toString();
+
+/** The part of the list a page stands for: from its query's start (or cursor) up to its last event */
+const pageCovers = (query: EventQuery, page: EventPage) => {
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const last = page.nextCursor ? decodeCursor(page.nextCursor) : null;
+  return (event: SportEvent) => matchesQuery(event, query)
+    && (!after || compareEvents(event, after) > 0)
+    && (!last || compareEvents(event, last) <= 0);
+};
+
+/** Replace the mirrored events a page stands for — those it no longer lists were deleted */
+async function mirrorPage(query: EventQuery, page: EventPage): Promise<void> {
+  if (!activeGroupId) return;
+  const covers = pageCovers(query, page);
+  const mirrored = await offlineStore.getMirroredEvents(activeGroupId) ?? [];
+  await offlineStore.mirrorEvents(activeGroupId, [...mirrored.filter(e => !covers(e)), ...page.events]);
+}
+
+/** Put one loaded event into the mirror, or take a deleted one (null) out */
+async function mirrorEvent(id: string, event: SportEvent | null): Promise<void> {
+  if (!activeGroupId) return;
+  const mirrored = await offlineStore.getMirroredEvents(activeGroupId) ?? [];
+  await offlineStore.mirrorEvents(activeGroupId, [...mirrored.filter(e => e.id !== id), ...(event ? [event] : [])]);
+}
+
+/**
+ * One page of the active group's events, oldest first — pass the previous
+ * page's `nextCursor` for the next one. Without a network the page comes
+ * from the IndexedDB mirror, i.e. from what was loaded before.
+ */
+export const getEventsPage = async (query: EventQuery = {}): Promise<EventPage> => {
+  if (!useApi()) {
+    return pageEvents(getLocalEvents(), query);
+  }
+
+  const key = eventQueryString(query);
+  let page = getCached(eventsCache.get(key) ?? null, EVENTS_CACHE_TTL);
+  if (!page) {
+    try {
+      page = await apiFetch<EventPage>(`/events?${key}`);
+      eventsCache.set(key, { data: page, timestamp: Date.now() });
+      await mirrorPage(query, page);
+    } catch (e) {
+      console.error("Failed to load events from API, using the offline copy", e);
+      page = pageEvents(activeGroupId ? await offlineStore.getMirroredEvents(activeGroupId) ?? [] : [], query);
+    }
+  }
+
+  // Queued writes land on the page they belong to — a new event on no other
+  const covers = pageCovers(query, page);
+  const events = (await withQueuedWrites(page.events)).filter(covers).sort(compareEvents);
+  return { events, nextCursor: page.nextCursor };
+};
+
+/** Every event matching `query`, all its pages — meant for bounded date ranges */
+export const getEvents = async (query: Omit<EventQuery, 'cursor'> = {}): Promise<SportEvent[]> => {
+  const events: SportEvent[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getEventsPage({ ...query, cursor, limit: query.limit ?? MAX_EVENTS_PAGE });
+    events.push(...page.events);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return events;
+};
+
+/**
+ * Every event up to `to` in which someone still owes a share, unpaged —
+ * debts, the settlement and the payment import must see all of them,
+ * however far back. Offline, only what the mirror holds.
+ */
+export const getUnpaidEvents = async (to: string): Promise<SportEvent[]> => {
+  const configs = await getSportConfigs();
+  const unpaid = (events: SportEvent[]) => events.filter(e => e.date <= to && hasUnpaidShare(e, configs));
+  if (!useApi()) {
+    return unpaid(getLocalEvents());
+  }
 
   try {
-    const data = await apiFetch<SportEvent[]>('/events');
-    eventsCache = { data, timestamp: Date.now() };
-    return data;
+    return await apiFetch<SportEvent[]>(`/events?unpaid=true&to=${to}`);
   } catch (e) {
-    console.error("Failed to load events from API", e);
-    return [];
+    console.error("Failed to load unpaid events from API, using the offline copy", e);
+    return unpaid(activeGroupId ? await offlineStore.getMirroredEvents(activeGroupId) ?? [] : []);
   }
 };
 
-export const createEvent = async (event: SportEvent): Promise<SportEvent[]> => {
+/** One event of the active group, null when it doesn't exist (any more) */
+export const getEvent = async (id: string): Promise<SportEvent | null> => {
+  if (!useApi()) {
+    return getLocalEvents().find(e => e.id === id) ?? null;
+  }
+
+  let event: SportEvent | null = null;
+  try {
+    event = await apiFetch<SportEvent>(`/events?id=${encodeURIComponent(id)}`);
+    await mirrorEvent(id, event);
+  } catch (e) {
+    if (e instanceof ApiError && e.status === 404) {
+      await mirrorEvent(id, null);
+    } else {
+      console.error("Failed to load the event from API, using the offline copy", e);
+      const mirrored = activeGroupId ? await offlineStore.getMirroredEvents(activeGroupId) : null;
+      event = mirrored?.find(m => m.id === id) ?? null;
+    }
+  }
+  // A queued new event isn't on the server yet
+  return (await withQueuedWrites(event ? [event] : [])).find(e => e.id === id) ?? null;
+};
+
+/** Resolves with the new event as it is listed now (queued, when offline) */
+export const createEvent = async (event: SportEvent): Promise<SportEvent | null> => {
   if (!event.id) {
     event.id = generateId();
   }
   const { participants: _participants, ...eventData } = event;
+  checkRequest(createEventSchema, eventData);
 
   if (!useApi()) {
     const events = getLS<Omit<SportEvent, 'participants'>>(LS_EVENTS);
-    events.push(eventData);
+    events.push({ ...eventData, version: 1, ...(activeGroupId && { groupId: activeGroupId }), ...(localUserId() && { organizerId: localUserId()! }) });
     setLS(LS_EVENTS, events);
-    return getEvents();
+    return getEvent(event.id);
   }
 
-  await apiFetch('/events', {
-    method: 'POST',
-    body: JSON.stringify(eventData),
-  });
+  await sendOrQueue(
+    () => apiFetch('/events', {
+      method: 'POST',
+      body: JSON.stringify(eventData),
+    }),
+    () => ({ kind: 'createEvent', event: { ...eventData, participants: [] }, ...queueMeta() }),
+  );
   invalidateEventsCache();
-  return getEvents();
+  return getEvent(event.id);
 };
 
+/** Resolves with the new events */
 export const createEventsBatch = async (events: SportEvent[]): Promise<SportEvent[]> => {
   const preparedEvents = events.map(event => {
     if (!event.id) {
@@ -294,12 +939,13 @@ export const createEventsBatch = async (events: SportEvent[]): Promise<SportEven
     const { participants: _participants, ...eventData } = event;
     return eventData;
   });
+  checkRequest(createEventsBatchSchema, { events: preparedEvents });
 
   if (!useApi()) {
     const existing = getLS<Omit<SportEvent, 'participants'>>(LS_EVENTS);
-    existing.push(...preparedEvents);
+    existing.push(...preparedEvents.map(e => ({ ...e, version: 1, ...(activeGroupId && { groupId: activeGroupId }), ...(localUserId() && { organizerId: localUserId()! }) })));
     setLS(LS_EVENTS, existing);
-    return getEvents();
+    return getCreated(preparedEvents);
   }
 
   await apiFetch('/events-batch', {
@@ -307,54 +953,127 @@ export const createEventsBatch = async (events: SportEvent[]): Promise<SportEven
     body: JSON.stringify({ events: preparedEvents }),
   });
   invalidateEventsCache();
-  return getEvents();
+  return getCreated(preparedEvents);
 };
 
-export const updateEvent = async (updatedEvent: SportEvent): Promise<SportEvent[]> => {
+/** Load back the events of a batch — one range query rather than one request each */
+async function getCreated(created: Omit<SportEvent, 'participants'>[]): Promise<SportEvent[]> {
+  const dates = created.map(e => e.date).sort();
+  const ids = new Set(created.map(e => e.id));
+  const events = await getEvents({ from: dates[0], to: dates[dates.length - 1] });
+  return events.filter(e => ids.has(e.id));
+}
+
+/** Thrown by updateEvent when the event was saved by someone else since this copy was loaded */
+export class EventConflictError extends Error {
+  /** The current server copy */
+  readonly current: SportEvent;
+  /** The newer version came from this tab — two quick edits, not another user */
+  readonly ownWrite: boolean;
+
+  constructor(current: SportEvent, ownWrite: boolean) {
+    super('Událost mezitím upravil někdo jiný.');
+    this.name = 'EventConflictError';
+    this.current = current;
+    this.ownWrite = ownWrite;
+  }
+}
+
+// Event versions this tab saved last — tells its own quick successive edits from other users
+const savedVersions = new Map<string, number>();
+
+/**
+ * Save an event. The API only accepts it on top of the `version` it was
+ * edited from; a stale one throws EventConflictError with the server copy.
+ * Local mode has a single writer and only counts the versions. Resolves
+ * with the saved event.
+ */
+export const updateEvent = async (updatedEvent: SportEvent): Promise<SportEvent | null> => {
   const { participants: _participants, ...eventData } = updatedEvent;
+  checkRequest(updateEventSchema, eventData);
 
   if (!useApi()) {
     const events = getLS<Omit<SportEvent, 'participants'>>(LS_EVENTS);
     const idx = events.findIndex(e => e.id === updatedEvent.id);
     if (idx !== -1) {
-      events[idx] = { ...events[idx], ...eventData };
+      events[idx] = { ...events[idx], ...eventData, version: (events[idx].version ?? 0) + 1 };
       setLS(LS_EVENTS, events);
     }
-    return getEvents();
+    return getEvent(updatedEvent.id);
   }
 
-  // Use custom replacer so that undefined → null survives JSON serialization.
-  // Without this, JSON.stringify strips undefined keys and the API merge
-  // would keep stale values (e.g. winningTeam from the previous round).
-  await apiFetch('/events', {
-    method: 'PUT',
-    body: JSON.stringify(eventData, (_key, value) => (value === undefined ? null : value)),
-  });
+  await sendOrQueue(
+    () => putEvent(eventData),
+    // The mirror holds the server copy the edit started from
+    async () => {
+      const base = activeGroupId ? (await offlineStore.getMirroredEvents(activeGroupId))?.find(e => e.id === updatedEvent.id) : undefined;
+      return { kind: 'updateEvent', event: updatedEvent, base, ...queueMeta() };
+    },
+  );
   invalidateEventsCache();
-  return getEvents();
+  return getEvent(updatedEvent.id);
 };
 
-export const deleteEvent = async (id: string): Promise<SportEvent[]> => {
+async function putEvent(eventData: Omit<SportEvent, 'participants'>, groupId?: string): Promise<void> {
+  try {
+    // Use custom replacer so that undefined → null survives JSON serialization.
+    // Without this, JSON.stringify strips undefined keys and the API merge
+    // would keep stale values (e.g. winningTeam from the previous round).
+    const { version } = await apiFetch<{ version: number }>('/events', {
+      method: 'PUT',
+      body: JSON.stringify(eventData, (_key, value) => (value === undefined ? null : value)),
+      ...(groupId && { headers: { 'X-Group-Id': groupId } }),
+    });
+    savedVersions.set(eventData.id, version);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 409 && error.body.current) {
+      invalidateEventsCache();
+      const current: SportEvent = error.body.current;
+      throw new EventConflictError(current, current.version === savedVersions.get(eventData.id));
+    }
+    throw error;
+  }
+}
+
+export const deleteEvent = async (id: string): Promise<void> => {
   if (!useApi()) {
     const events = getLS<Omit<SportEvent, 'participants'>>(LS_EVENTS).filter(e => e.id !== id);
     setLS(LS_EVENTS, events);
     const attendance = getLS<AttendanceRecord>(LS_ATTENDANCE).filter(a => a.eventId !== id);
     setLS(LS_ATTENDANCE, attendance);
-    return getEvents();
+    return;
   }
 
   await apiFetch(`/events?id=${encodeURIComponent(id)}`, {
     method: 'DELETE',
   });
   invalidateEventsCache();
-  return getEvents();
+  await mirrorEvent(id, null);
+};
+
+// --- Audit Trail ---
+
+/** Newest first. The trail is written server-side only — local mode has none. */
+export const getAuditLog = async (filter: AuditFilter = {}): Promise<AuditEntry[]> => {
+  if (!useApi()) {
+    return [];
+  }
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const query = params.toString();
+  return apiFetch<AuditEntry[]>(`/audit${query ? `?${query}` : ''}`);
 };
 
 // --- Bank Accounts ---
 
+/** Bank accounts of the active group's members */
 export const getBankAccounts = async (): Promise<BankAccount[]> => {
   if (!useApi()) {
-    return getLS<BankAccount>(LS_BANK_ACCOUNTS);
+    const members = localMembers();
+    return getLS<BankAccount>(LS_BANK_ACCOUNTS).filter(a => !members || members[a.userId]);
   }
 
   const cached = getCached(bankAccountsCache, BANK_ACCOUNTS_CACHE_TTL);
@@ -375,6 +1094,8 @@ export const createBankAccount = async (
   accountNumber: string,
   userId: string,
 ): Promise<BankAccount> => {
+  checkRequest(bankAccountSchema, { ownerName, accountNumber, userId });
+
   if (!useApi()) {
     const accounts = getLS<BankAccount>(LS_BANK_ACCOUNTS);
 
@@ -403,19 +1124,17 @@ export const createBankAccount = async (
 
 // --- Sport Configs ---
 
-/** Only keep configs whose type is in the valid allow-list */
-const filterValidConfigs = (configs: SportConfig[]): SportConfig[] =>
-  configs.filter(c => (VALID_SPORT_TYPES as readonly string[]).includes(c.type));
+/** Sport configs are stored per group */
+const sportConfigsKey = () => (activeGroupId ? `${LS_SPORT_CONFIGS}:${activeGroupId}` : LS_SPORT_CONFIGS);
 
 export const getSportConfigs = async (): Promise<SportConfig[]> => {
   if (!useApi()) {
-    const stored = getLS<SportConfig>(LS_SPORT_CONFIGS);
-    return filterValidConfigs(stored.length > 0 ? stored : DEFAULT_SPORT_CONFIGS);
+    const stored = getLS<SportConfig>(sportConfigsKey());
+    return stored.length > 0 ? stored : DEFAULT_SPORT_CONFIGS;
   }
 
   try {
-    const data = await apiFetch<SportConfig[]>('/sport-configs');
-    return filterValidConfigs(data);
+    return await apiFetch<SportConfig[]>('/sport-configs');
   } catch (e) {
     console.error("Failed to load sport configs from API", e);
     return DEFAULT_SPORT_CONFIGS;
@@ -423,17 +1142,279 @@ export const getSportConfigs = async (): Promise<SportConfig[]> => {
 };
 
 export const updateSportConfigs = async (configs: SportConfig[]): Promise<SportConfig[]> => {
-  // Strip out any invalid sport types before persisting
-  const valid = filterValidConfigs(configs);
+  checkRequest(sportConfigsSchema, configs);
 
   if (!useApi()) {
-    setLS(LS_SPORT_CONFIGS, valid);
-    return valid;
+    setLS(sportConfigsKey(), configs);
+    return configs;
   }
 
-  const updated = await apiFetch<SportConfig[]>('/sport-configs', {
+  return apiFetch<SportConfig[]>('/sport-configs', {
     method: 'PUT',
-    body: JSON.stringify(valid),
+    body: JSON.stringify(configs),
   });
-  return filterValidConfigs(updated);
+};
+
+// --- Tournaments ---
+
+/** Tournaments are stored per group */
+const tournamentsKey = () => (activeGroupId ? `${LS_TOURNAMENTS}:${activeGroupId}` : LS_TOURNAMENTS);
+
+/** The active group's tournaments, newest first */
+export const getTournaments = async (): Promise<Tournament[]> => {
+  if (!useApi()) {
+    return getLS<Tournament>(tournamentsKey()).sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+  }
+
+  try {
+    return await apiFetch<Tournament[]>('/tournaments');
+  } catch (e) {
+    console.error("Failed to load tournaments from API", e);
+    return [];
+  }
+};
+
+/** Resolves with the stored tournament */
+export const createTournament = async (tournament: Tournament): Promise<Tournament> => {
+  if (!tournament.id) tournament = { ...tournament, id: generateId() };
+  checkRequest(createTournamentSchema, tournament);
+
+  if (!useApi()) {
+    const created: Tournament = {
+      ...tournament,
+      version: 1,
+      ...(activeGroupId && { groupId: activeGroupId }),
+      ...(localUserId() && { organizerId: localUserId()! }),
+    };
+    setLS(tournamentsKey(), [...getLS<Tournament>(tournamentsKey()), created]);
+    return created;
+  }
+
+  return apiFetch<Tournament>('/tournaments', {
+    method: 'POST',
+    body: JSON.stringify(tournament),
+  });
+};
+
+/**
+ * Save the whole tournament on top of the `version` it was edited from — a
+ * stale one is rejected with a 409 ApiError whose body has the `current` copy.
+ * Resolves with the stored tournament.
+ */
+export const updateTournament = async (tournament: Tournament): Promise<Tournament> => {
+  checkRequest(updateTournamentSchema, tournament);
+
+  if (!useApi()) {
+    const tournaments = getLS<Tournament>(tournamentsKey());
+    const idx = tournaments.findIndex(t => t.id === tournament.id);
+    const updated = { ...tournament, version: (tournaments[idx]?.version ?? 0) + 1 };
+    if (idx !== -1) {
+      tournaments[idx] = updated;
+      setLS(tournamentsKey(), tournaments);
+    }
+    return updated;
+  }
+
+  return apiFetch<Tournament>('/tournaments', {
+    method: 'PUT',
+    body: JSON.stringify(tournament),
+  });
+};
+
+export const deleteTournament = async (id: string): Promise<void> => {
+  if (!useApi()) {
+    setLS(tournamentsKey(), getLS<Tournament>(tournamentsKey()).filter(t => t.id !== id));
+    return;
+  }
+
+  await apiFetch<void>(`/tournaments?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+};
+
+// --- Notifications ---
+
+const notificationSettingsKey = () => (activeGroupId ? `${LS_NOTIFICATION_SETTINGS}:${activeGroupId}` : LS_NOTIFICATION_SETTINGS);
+
+export const getNotificationConfig = async (): Promise<NotificationConfig> => {
+  if (!useApi()) {
+    // Push needs the server — local mode only keeps the settings
+    const stored = localStorage.getItem(notificationSettingsKey());
+    return { publicKey: null, settings: normalizeNotificationSettings(stored ? JSON.parse(stored) : null) };
+  }
+
+  return apiFetch<NotificationConfig>('/notifications');
+};
+
+export const updateNotificationSettings = async (settings: NotificationSettings): Promise<NotificationSettings> => {
+  checkRequest(notificationSettingsSchema, settings);
+
+  if (!useApi()) {
+    const normalized = normalizeNotificationSettings(settings);
+    localStorage.setItem(notificationSettingsKey(), JSON.stringify(normalized));
+    return normalized;
+  }
+
+  return apiFetch<NotificationSettings>('/notifications', {
+    method: 'PUT',
+    body: JSON.stringify(settings),
+  });
+};
+
+/** Register this device for Web Push under the signed-in user */
+export const savePushSubscription = async (subscription: PushSubscriptionJSON): Promise<void> => {
+  if (!useApi()) return;
+  await apiFetch<void>('/notifications', {
+    method: 'POST',
+    body: JSON.stringify({ subscription }),
+  });
+};
+
+export const deletePushSubscription = async (endpoint: string): Promise<void> => {
+  if (!useApi()) return;
+  await apiFetch<void>(`/notifications?endpoint=${encodeURIComponent(endpoint)}`, {
+    method: 'DELETE',
+  });
+};
+
+// --- Outbox replay ---
+
+/** Outcome of replayOutbox() — conflicting event edits and refused writes are dropped from the queue */
+export interface ReplayReport {
+  sent: number;
+  conflicts: { base?: SportEvent; mine: SportEvent; theirs: SportEvent }[];
+  rejected: RejectedWrite[];
+}
+
+let replaying: Promise<ReplayReport> | null = null;
+
+async function sendQueued(write: QueuedWrite): Promise<void> {
+  const headers = { 'X-Group-Id': write.groupId };
+  switch (write.kind) {
+    case 'attendance': {
+      const { eventId, userId, status, hasPaid } = write;
+      await apiFetch<void>('/attendance', { method: 'PUT', headers, body: JSON.stringify({ eventId, userId, status, hasPaid }) });
+      return;
+    }
+    case 'createEvent': {
+      const { participants: _participants, ...eventData } = write.event;
+      await apiFetch('/events', { method: 'POST', headers, body: JSON.stringify(eventData) });
+      return;
+    }
+    case 'updateEvent': {
+      const { participants: _participants, ...eventData } = write.event;
+      await putEvent(eventData, write.groupId);
+    }
+  }
+}
+
+/**
+ * Send the queued writes in the order they were made. Stops at the first
+ * one the network still can't deliver; writes the server refuses are
+ * reported instead of retried forever.
+ */
+export const replayOutbox = (): Promise<ReplayReport> => {
+  if (!replaying) {
+    replaying = replayQueued().finally(() => { replaying = null; });
+  }
+  return replaying;
+};
+
+async function replayQueued(): Promise<ReplayReport> {
+  const report: ReplayReport = { sent: 0, conflicts: [], rejected: [] };
+  if (!useApi() || isOffline()) return report;
+
+  // Writes queued meanwhile are appended — always take the oldest still waiting
+  const attempted = new Set<string>();
+  for (let [write] = await offlineStore.getOutbox(); write && !attempted.has(write.id); [write] = await offlineStore.getOutbox()) {
+    attempted.add(write.id);
+    try {
+      await sendQueued(write);
+      report.sent++;
+    } catch (error) {
+      // Still offline, or signed out — keep the rest for later
+      if (isNetworkError(error) || (error instanceof ApiError && error.status === 401)) break;
+      if (error instanceof EventConflictError && write.kind === 'updateEvent') {
+        report.conflicts.push({ base: write.base, mine: write.event, theirs: error.current });
+      } else {
+        report.rejected.push({ write, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    const queue = (await offlineStore.getOutbox()).filter(w => w.id !== write.id);
+    await offlineStore.saveOutbox(queue);
+    onOutboxChange?.(queue.length);
+  }
+
+  invalidateEventsCache();
+  return report;
+}
+
+// --- Live sync ---
+
+const STREAM_RETRY_MS = 3_000;
+
+interface ChangeSubscription {
+  /** Event on screen — the stream reports who else is viewing it */
+  eventId?: string | null;
+  onChange: (change: ChangeNotice) => void;
+  onPresence?: (userIds: string[]) => void;
+}
+
+/**
+ * Follow changes other devices make in the active group (GET /api/stream).
+ * Reconnects until unsubscribed; local mode has nobody to sync with.
+ * Returns the unsubscribe function.
+ */
+export const subscribeToChanges = ({ eventId, onChange, onPresence }: ChangeSubscription): (() => void) => {
+  if (!useApi()) return () => {};
+
+  const controller = new AbortController();
+  let retryMs = STREAM_RETRY_MS;
+
+  const parse = createSseParser(message => {
+    if (message.retry) retryMs = message.retry;
+    if (message.id) streamLastEventId = message.id;
+    if (message.event === 'change') {
+      const change: ChangeNotice = JSON.parse(message.data);
+      invalidateEventsCache();
+      if (change.clientId !== CLIENT_ID) onChange(change);
+    } else if (message.event === 'presence') {
+      onPresence?.(JSON.parse(message.data).userIds);
+    }
+  });
+
+  const follow = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        const query = eventId ? `?eventId=${encodeURIComponent(eventId)}` : '';
+        const res = await fetch(`${API_BASE}/stream${query}`, {
+          headers: {
+            Accept: 'text/event-stream',
+            ...apiHeaders(),
+            ...(streamLastEventId && { 'Last-Event-ID': streamLastEventId }),
+          },
+          signal: controller.signal,
+        });
+        if (res.status === 401 && authToken) {
+          onUnauthorized?.();
+          return;
+        }
+        if (!res.ok || !res.body) throw new Error(`API error ${res.status}`);
+
+        const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+        let chunk = await reader.read();
+        while (!chunk.done) {
+          parse(chunk.value);
+          chunk = await reader.read();
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Live sync disconnected', error);
+      }
+      await new Promise(resolve => setTimeout(resolve, retryMs));
+    }
+  };
+
+  follow();
+  return () => controller.abort();
 };
@@ -290,3 +290,26 @@ describe('useStatistics — consistency with teamBalancer', () => {
   });
 });
 
+
+describe('useStatistics — leaderboards', () => {
+  const duel = (id: string, winner: string, loser: string, sportType?: string): SportEvent =>
+    makeEvent(id, PAST, [
+      { userId: winner, name: `P${winner}`, status: 'joined', hasPaid: true },
+      { userId: loser, name: `P${loser}`, status: 'joined', hasPaid: true },
+    ], { teams: [[tm(winner)], [tm(loser)]], winningTeam: 0, sportType });
+
+  it('keeps a table per sport, counting only that sport', () => {
+    const events = [
+      ...['v1', 'v2', 'v3'].map(id => duel(id, 'a', 'b')),
+      ...['t1', 't2', 't3'].map(id => duel(id, 'b', 'a', 'tenis')),
+    ];
+
+    const { result } = renderHook(() => useStatistics(events, makeUser('a')));
+    const boards = new Map(result.current.leaderboards.map(board => [board.sportType, board.entries]));
+
+    expect([...boards.keys()].sort()).toEqual(['tenis', 'volejbal']);
+    expect(boards.get('volejbal')!.map(e => e.userId)).toEqual(['a', 'b']);
+    expect(boards.get('tenis')!.map(e => e.userId)).toEqual(['b', 'a']);
+    expect(boards.get('tenis')![0].winRate).toBe(1);
+  });
+});
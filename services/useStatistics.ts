@@ -1,19 +1,26 @@
 import { useMemo } from 'react';
-import { SportEvent, User, UserStats, MonthlyTrend, Badge, DuoStats, LeaderboardEntry, PlayerFormTrend, NemesisData, EventHealthMetrics, ClutchData, SportConfig } from '../types';
+import { SportEvent, SportType, User, UserStats, MonthlyTrend, Badge, DuoStats, LeaderboardEntry, PlayerFormTrend, NemesisData, EventHealthMetrics, ClutchData, SportConfig } from '../types';
 import { startOfDay } from 'date-fns';
 import {
-  computeUserStats, computeEloRatings, computeFormTrend, computeDayHeatmap,
+  computeUserStats, computeFormTrend, computeDayHeatmap,
   computeNemesis, computeClutchFactor, computeReliabilityScore, computeLeaderboard,
   computeEventHealth, computeMonthlyTrends, computeDuoStats, computeExtendedBadges,
   THRESHOLDS,
 } from './statsEngine';
+import { computeSkillRatings, primaryRatings } from '../utils/rating';
+
+/** Ratings of different sports don't compare — each sport gets its own table */
+export interface SportLeaderboard {
+  sportType: SportType;
+  entries: LeaderboardEntry[];
+}
 
 export interface StatisticsResult {
   personalStats: UserStats | null;
   monthlyTrends: MonthlyTrend[];
   badges: Badge[];
   duoStats: DuoStats[];
-  leaderboard: LeaderboardEntry[];
+  leaderboards: SportLeaderboard[];
   formTrend: PlayerFormTrend | null;
   nemesis: NemesisData | null;
   eventHealth: EventHealthMetrics | null;
@@ -31,7 +38,7 @@ export function useStatistics(
   return useMemo(() => {
     const empty: StatisticsResult = {
       personalStats: null, monthlyTrends: [], badges: [], duoStats: [],
-      leaderboard: [], formTrend: null, nemesis: null,
+      leaderboards: [], formTrend: null, nemesis: null,
       eventHealth: null, clutchData: null, dayHeatmap: null,
       isReady: !isLoading && events.length > 0,
     };
@@ -42,12 +49,18 @@ export function useStatistics(
     const pastEvents = events.filter(e => new Date(e.date) <= today);
     if (pastEvents.length === 0) return { ...empty, isReady: true };
 
-    const statsMap = computeUserStats(pastEvents);
-    const eloMap = computeEloRatings(pastEvents);
+    const statsMap = computeUserStats(pastEvents, sportConfigs);
+    // Per sport — the personal card shows the sport the player plays most
+    const ratingsBySport = computeSkillRatings(pastEvents);
+    const ratings = primaryRatings(ratingsBySport);
 
     // Enrich stats with v1.6 fields
     for (const [userId, stats] of statsMap) {
-      stats.eloRating = Math.round(eloMap.get(userId) ?? 1000);
+      const rating = ratings.get(userId);
+      if (rating) {
+        stats.rating = Math.round(rating.rating);
+        stats.ratingDeviation = Math.round(rating.deviation);
+      }
       stats.reliabilityScore = computeReliabilityScore(stats);
       stats.dayOfWeekDistribution = computeDayHeatmap(pastEvents, userId);
       const form = computeFormTrend(pastEvents, userId);
@@ -58,7 +71,15 @@ export function useStatistics(
     const monthlyTrends = computeMonthlyTrends(pastEvents);
     const badges = computeExtendedBadges(statsMap, pastEvents);
     const duoStats = computeDuoStats(pastEvents);
-    const leaderboard = computeLeaderboard(statsMap, eloMap);
+    // With more sports, wins and games in a table count that sport only
+    const leaderboards = [...ratingsBySport]
+      .map(([sportType, sportRatings]) => {
+        const sportStats = ratingsBySport.size > 1
+          ? computeUserStats(pastEvents.filter(e => (e.sportType ?? 'volejbal') === sportType), sportConfigs)
+          : statsMap;
+        return { sportType, entries: computeLeaderboard(sportStats, sportRatings) };
+      })
+      .filter(board => board.entries.length > 0);
 
     // Per-user metrics
     let formTrend: PlayerFormTrend | null = null;
@@ -79,7 +100,7 @@ export function useStatistics(
 
     return {
       personalStats, monthlyTrends, badges, duoStats,
-      leaderboard, formTrend, nemesis, eventHealth, clutchData, dayHeatmap,
+      leaderboards, formTrend, nemesis, eventHealth, clutchData, dayHeatmap,
       isReady: true,
     };
   }, [events, currentUser, isLoading, sportConfigs]);
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attendanceSchema,
+  createEventSchema,
+  createEventsBatchSchema,
+  createTournamentSchema,
+  createUserSchema,
+  eventsQuerySchema,
+  pushSubscriptionSchema,
+  sportConfigsSchema,
+  unknownSportIssues,
+  unknownTeamIssues,
+  updateEventSchema,
+  updateUserSchema,
+} from './apiSchemas.js';
+import { describeIssues, invalidRequest, validate } from './schema.js';
+import { DEFAULT_SPORT_CONFIGS } from '../types.js';
+import { MAX_POLICY_HOURS } from './attendancePolicy.js';
+
+const event = {
+  id: 'e1',
+  title: 'Pondělní volejbal',
+  date: '2025-03-03',
+  time: '18:00',
+  location: 'Hala',
+  totalCost: 1000,
+  accountNumber: '123456789/0100',
+  sportType: 'volejbal',
+};
+
+describe('createEventSchema', () => {
+  it('accepts an event as the create form builds it', () => {
+    expect(validate(createEventSchema, { ...event, participants: [], selectedBankAccountId: undefined })).toEqual([]);
+  });
+
+  it('rejects unknown fields instead of storing them', () => {
+    expect(validate(createEventSchema, { ...event, isAdmin: true })).toEqual([{ path: 'isAdmin', message: 'Neznámé pole.' }]);
+  });
+
+  it('reports every problem with its field path', () => {
+    const issues = validate(createEventSchema, {
+      ...event,
+      title: ' ',
+      totalCost: '1000',
+      sportType: 'Plážový volejbal',
+      teams: [[{ userId: 'u1', name: 'Jan' }], [{ name: 'Eva' }]],
+    });
+    expect(issues.map(i => i.path)).toEqual(['title', 'totalCost', 'teams[1][0].userId', 'sportType']);
+  });
+
+  it('takes a round of more teams with its matches', () => {
+    const teams = [[{ userId: 'u1', name: 'Jan' }], [{ userId: 'u2', name: 'Eva' }], [{ userId: 'u3', name: 'Petr' }]];
+    const round = { teams, matchFormat: 'king-of-the-court', matches: [{ teams: [0, 1], winner: 1, score: [[15, 12]] }] };
+    expect(validate(createEventSchema, { ...event, ...round, gameHistory: [round] })).toEqual([]);
+    expect(validate(createEventSchema, { ...event, teams, matches: [{ teams: [0, 8], winner: 2 }] }).map(i => i.path)).toEqual([
+      'matches[0].teams[1]', 'matches[0].winner',
+    ]);
+  });
+
+  it('takes pairs of players for the balancer', () => {
+    expect(validate(createEventSchema, { ...event, teamConstraints: [{ userIds: ['u1', 'u2'], together: false }] })).toEqual([]);
+    expect(validate(createEventSchema, { ...event, teamConstraints: [{ userIds: ['u1'], together: 'yes' }] }).map(i => i.path)).toEqual([
+      'teamConstraints[0].userIds', 'teamConstraints[0].together',
+    ]);
+  });
+
+  it('requires the fields of SportEvent', () => {
+    const { date: _date, ...withoutDate } = event;
+    expect(validate(createEventSchema, withoutDate)).toEqual([{ path: 'date', message: 'Povinné pole.' }]);
+    expect(validate(createEventSchema, null)).toEqual([{ path: '', message: 'Chybí data požadavku.' }]);
+  });
+});
+
+describe('updateEventSchema', () => {
+  it('takes null for cleared optional fields, at any depth', () => {
+    const round = { teams: [[{ userId: 'u1', name: 'Jan', photoUrl: null }], []], winningTeam: 0 };
+    expect(validate(updateEventSchema, { ...event, version: 3, winningTeam: null, gameHistory: [round] })).toEqual([]);
+  });
+
+  it('needs the event id', () => {
+    const { id: _id, ...withoutId } = event;
+    expect(validate(updateEventSchema, withoutId)).toEqual([{ path: 'id', message: 'Povinné pole.' }]);
+  });
+});
+
+describe('createUserSchema', () => {
+  it('leaves the id to the server', () => {
+    expect(validate(createUserSchema, { name: 'Alice', pin: '1234' })).toEqual([]);
+    expect(validate(createUserSchema, { id: 'u1', name: 'Alice', pin: '1234' }).map(i => i.path)).toEqual(['id']);
+  });
+});
+
+describe('updateUserSchema', () => {
+  it('takes volleyball positions and a skill level from 1 to 5', () => {
+    expect(validate(updateUserSchema, { id: 'u1', positions: ['setter', 'libero'], skillLevel: 4 })).toEqual([]);
+    expect(validate(updateUserSchema, { id: 'u1', positions: ['goalkeeper'], skillLevel: 6 }).map(i => i.path)).toEqual([
+      'positions[0]', 'skillLevel',
+    ]);
+  });
+});
+
+describe('eventsQuerySchema', () => {
+  it('takes the query parameters as text', () => {
+    expect(validate(eventsQuerySchema, { from: '2025-03-01', sportType: 'tenis', cursor: '2025-03-03.e1', limit: '20' })).toEqual([]);
+    expect(validate(eventsQuerySchema, { from: '1.3.2025', limit: '0', page: '2' }).map(i => i.path)).toEqual(['from', 'limit', 'page']);
+  });
+});
+
+describe('createEventsBatchSchema', () => {
+  it('takes 1 to 26 events', () => {
+    expect(validate(createEventsBatchSchema, { events: [event] })).toEqual([]);
+    expect(validate(createEventsBatchSchema, { events: [] })[0].path).toBe('events');
+    expect(validate(createEventsBatchSchema, { events: Array(27).fill(event) })[0].message).toBe('Počet položek: nejvýše 26.');
+  });
+});
+
+describe('attendanceSchema', () => {
+  it('only takes the four RSVP statuses', () => {
+    expect(validate(attendanceSchema, { eventId: 'e1', userId: 'u1', status: 'joined', hasPaid: true })).toEqual([]);
+    expect(validate(attendanceSchema, { eventId: 'e1', userId: 'u1', status: 'coming' })).toEqual([
+      { path: 'status', message: 'Povolené hodnoty: joined, declined, maybe, waitlist.' },
+    ]);
+  });
+
+  it('checks a new guest', () => {
+    const issues = validate(attendanceSchema, { eventId: 'e1', userId: 'guest_1', status: 'joined', guest: { name: '', invitedBy: 'u1' } });
+    expect(issues).toEqual([{ path: 'guest.name', message: 'Povinné pole.' }]);
+  });
+});
+
+describe('sportConfigsSchema', () => {
+  it('accepts the default configs', () => {
+    expect(validate(sportConfigsSchema, DEFAULT_SPORT_CONFIGS)).toEqual([]);
+  });
+
+  it('needs a whole, positive maxPlayers', () => {
+    const configs = DEFAULT_SPORT_CONFIGS.map((c, i) => (i === 1 ? { ...c, maxPlayers: 0 } : i === 2 ? { ...c, maxPlayers: 2.5 } : c));
+    expect(validate(sportConfigsSchema, configs)).toEqual([
+      { path: '[1].maxPlayers', message: 'Nejméně 1.' },
+      { path: '[2].maxPlayers', message: 'Očekáváno celé číslo.' },
+    ]);
+  });
+
+  it('caps the attendance policy at the hours the policy applies', () => {
+    const configs = DEFAULT_SPORT_CONFIGS.map((c, i) => (i === 0 ? { ...c, attendancePolicy: { rsvpLockHours: MAX_POLICY_HOURS, lateCancelHours: MAX_POLICY_HOURS + 1 } } : c));
+    expect(validate(sportConfigsSchema, configs).map(issue => issue.path)).toEqual(['[0].attendancePolicy.lateCancelHours']);
+  });
+
+  it('takes sports of the group\'s own, each once', () => {
+    const florbal = { type: 'florbal', label: 'Florbal', emoji: '🏑', maxPlayers: 20, defaultCost: 0, defaultLocation: '', teamSize: 5, teamCount: 3 };
+    expect(validate(sportConfigsSchema, [...DEFAULT_SPORT_CONFIGS, florbal])).toEqual([]);
+    expect(validate(sportConfigsSchema, [florbal, { ...florbal, label: 'Florbal 2' }])).toEqual([
+      { path: '[1].type', message: 'Sport s tímto označením už existuje.' },
+    ]);
+    expect(validate(sportConfigsSchema, [])[0].path).toBe('');
+  });
+});
+
+describe('pushSubscriptionSchema', () => {
+  it('takes only https endpoints, the only ones Web Push delivers to', () => {
+    const subscription = (endpoint: string) => ({ subscription: { endpoint, keys: { p256dh: 'key', auth: 'auth' } } });
+    expect(validate(pushSubscriptionSchema, subscription('https://push.example/abc'))).toEqual([]);
+    expect(validate(pushSubscriptionSchema, subscription('http://push.example/abc'))[0].path).toBe('subscription.endpoint');
+  });
+});
+
+describe('unknownSportIssues', () => {
+  it('reports events of sports the group has not configured', () => {
+    const events = [{ sportType: 'tenis' }, {}, { sportType: 'florbal' }];
+    expect(unknownSportIssues(events, DEFAULT_SPORT_CONFIGS, i => `events[${i}].sportType`)).toEqual([
+      { path: 'events[2].sportType', message: 'Sport „florbal“ skupina nemá v nastavení.' },
+    ]);
+    expect(unknownSportIssues(events, [...DEFAULT_SPORT_CONFIGS, { type: 'florbal' }])).toEqual([]);
+  });
+});
+
+describe('createTournamentSchema', () => {
+  const cup = {
+    name: 'Jarní turnaj',
+    date: '2026-04-18',
+    format: 'single-elimination',
+    teams: [
+      { id: 'a', name: 'Vlci', members: [{ userId: 'u1', name: 'Jan' }] },
+      { id: 'b', name: 'Orli', members: [{ userId: 'u2', name: 'Eva' }] },
+    ],
+    matches: [{ id: 'w0-0', stage: 'winners', round: 0, slot: 0, teams: ['a', null], winner: 0, walkover: true }],
+  };
+
+  it('accepts a bracket with byes', () => {
+    expect(validate(createTournamentSchema, cup)).toEqual([]);
+    expect(unknownTeamIssues(cup as any)).toEqual([]);
+  });
+
+  it('needs two teams with players and a known format', () => {
+    const issues = validate(createTournamentSchema, { ...cup, format: 'swiss', teams: [{ ...cup.teams[0], members: [] }] });
+    expect(issues.map(i => i.path)).toEqual(['format', 'teams', 'teams[0].members']);
+  });
+
+  it('reports matches of teams that are not registered', () => {
+    const matches = [{ ...cup.matches[0], teams: ['a', 'x'] }];
+    expect(unknownTeamIssues({ ...cup, matches } as any)).toEqual([
+      { path: 'matches[0].teams[1]', message: 'Tým „x“ v turnaji není.' },
+    ]);
+  });
+});
+
+describe('invalidRequest', () => {
+  it('sums up the first issues for display and keeps them all', () => {
+    const issues = [1, 2, 3, 4].map(n => ({ path: `f${n}`, message: 'Povinné pole.' }));
+    expect(describeIssues(issues)).toBe('Neplatná data — f1: Povinné pole. f2: Povinné pole. f3: Povinné pole. (a 1 další)');
+    expect(invalidRequest(issues).issues).toHaveLength(4);
+  });
+});
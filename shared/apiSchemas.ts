@@ -0,0 +1,394 @@
+import {
+  MAX_SKILL_LEVEL,
+  MAX_TEAMS,
+  MAX_TOURNAMENT_TEAMS,
+  MIN_SKILL_LEVEL,
+  PIN_PATTERN,
+  SETUP_CODE_PATTERN,
+  type AttendancePolicy,
+  type AttendanceRecord,
+  type BankAccount,
+  type EventQuery,
+  type GameRound,
+  type MatchFormat,
+  type Participant,
+  type PlayerPosition,
+  type PricingRules,
+  type RoundMatch,
+  type ScoringRules,
+  type SportConfig,
+  type SportEvent,
+  type SportType,
+  type TeamConstraint,
+  type TeamMember,
+  type Tournament,
+  type TournamentFormat,
+  type TournamentMatch,
+  type TournamentStage,
+  type TournamentTeam,
+  type User,
+  type UserRole,
+} from '../types.js';
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  tuple,
+  unchecked,
+  type Schema,
+  type ValidationIssue,
+} from './schema.js';
+import { CURSOR_PATTERN } from './eventPages.js';
+import { MAX_POLICY_HOURS } from './attendancePolicy.js';
+import { MAX_NOTIFICATION_HOURS, MAX_REMINDER_DAY, MIN_REMINDER_DAY, type NotificationSettings } from './notificationSettings.js';
+
+/**
+ * Request bodies of the API routes, built against the interfaces in
+ * types.ts — a field added there has to be added here too, or the
+ * type-check fails. The API validates every body with these (see
+ * api/_lib/validation.ts); services/storage.ts checks its writes with the
+ * same schemas in both storage modes.
+ */
+
+/** Most events the batch import takes at once */
+export const MAX_EVENTS_BATCH = 26;
+/** Sports a group may configure */
+export const MAX_SPORT_TYPES = 20;
+
+const id = () => string({ min: 1, max: 100 });
+const amount = () => number({ min: 0 });
+const isoDate = () => string({ pattern: /^\d{4}-\d{2}-\d{2}$/, message: 'Datum ve tvaru RRRR-MM-DD.' });
+/** Only the shape — which sports exist is up to the group's configs, see unknownSportIssues */
+const sportType = () => string({ max: 30, pattern: /^[a-z0-9]+(-[a-z0-9]+)*$/, message: 'Malá písmena bez diakritiky, číslice a pomlčky.' });
+const pin = () => string({ pattern: PIN_PATTERN, message: 'PIN musí mít 4 až 8 číslic.' });
+
+const attendanceStatus = oneOf<AttendanceRecord['status']>(['joined', 'declined', 'maybe', 'waitlist']);
+const userRole = oneOf<UserRole>(['admin', 'organizer', 'treasurer', 'player']);
+
+// --- Events ---
+
+const pricingRules = object<PricingRules>({
+  multisportDeduction: optional(amount()),
+  guestSurcharge: optional(amount()),
+  organizerFree: optional(boolean()),
+});
+
+const teamMember = object<TeamMember>({
+  userId: id(),
+  name: string(),
+  photoUrl: optional(string()),
+});
+
+const teams = array(array(teamMember), { min: 2, max: MAX_TEAMS });
+const teamNames = array(string(), { max: MAX_TEAMS });
+const setScores = array(tuple<[number, number]>(number({ integer: true, min: 0 }), number({ integer: true, min: 0 })));
+const matchFormat = oneOf<MatchFormat>(['round-robin', 'winner-stays', 'king-of-the-court']);
+const teamIndex = () => number({ integer: true, min: 0, max: MAX_TEAMS - 1 });
+
+const roundMatch = object<RoundMatch>({
+  teams: tuple<[number, number]>(teamIndex(), teamIndex()),
+  winner: oneOf<0 | 1>([0, 1]),
+  score: optional(setScores),
+});
+
+const gameRound = object<GameRound>({
+  teams,
+  teamNames: optional(teamNames),
+  winningTeam: optional(oneOf<0 | 1>([0, 1])),
+  score: optional(setScores),
+  matchFormat: optional(matchFormat),
+  matches: optional(array(roundMatch)),
+});
+
+const teamConstraint = object<TeamConstraint>({
+  userIds: tuple<[string, string]>(id(), id()),
+  together: boolean(),
+});
+
+/** An event as the client sends it — the API keeps the attendance apart and sets groupId itself */
+type EventBody = Omit<SportEvent, 'id' | 'participants'> & { id?: string; participants?: Participant[] };
+
+const eventShape = {
+  id: optional(id()),
+  title: string({ min: 1, max: 200 }),
+  date: isoDate(),
+  time: string({ pattern: /^\d{1,2}:\d{2}$/, message: 'Čas ve tvaru HH:MM.' }),
+  location: string({ max: 200 }),
+  totalCost: amount(),
+  accountNumber: string({ max: 50 }),
+  selectedBankAccountId: optional(string()),
+  description: optional(string({ max: 2000 })),
+  // Hydrated by the API from the attendance records, ignored on write
+  participants: optional(unchecked<Participant[]>()),
+  teams: optional(teams),
+  teamNames: optional(teamNames),
+  winningTeam: optional(oneOf<0 | 1>([0, 1])),
+  score: optional(setScores),
+  matchFormat: optional(matchFormat),
+  matches: optional(array(roundMatch)),
+  gameHistory: optional(array(gameRound)),
+  sportType: optional(sportType()),
+  groupId: optional(string()),
+  organizerId: optional(string()),
+  version: optional(number({ integer: true, min: 0 })),
+  pricing: optional(pricingRules),
+  customShares: optional(record(amount())),
+  teamConstraints: optional(array(teamConstraint, { max: 50 })),
+};
+
+/** POST /api/events */
+export const createEventSchema = object<EventBody>(eventShape);
+
+/** PUT /api/events — the whole event, `version` the one it was edited from */
+export const updateEventSchema = object<EventBody & { id: string }>({ ...eventShape, id: id() });
+
+/**
+ * GET /api/events — query parameters arrive as text. `id` asks for one
+ * event; `groupId` may pick the group instead of the X-Group-Id header.
+ */
+export const eventsQuerySchema = object<Omit<EventQuery, 'limit'> & { limit?: string; id?: string; groupId?: string; unpaid?: 'true' }>({
+  id: optional(id()),
+  unpaid: optional(oneOf(['true'] as const)),
+  groupId: optional(id()),
+  from: optional(isoDate()),
+  to: optional(isoDate()),
+  sportType: optional(sportType()),
+  cursor: optional(string({ pattern: CURSOR_PATTERN, message: 'Neplatný kurzor.' })),
+  limit: optional(string({ pattern: /^[1-9]\d{0,3}$/, message: 'Počet celým číslem od 1.' })),
+});
+
+/** POST /api/events-batch */
+export const createEventsBatchSchema = object<{ events: EventBody[] }>({
+  events: array(createEventSchema, { min: 1, max: MAX_EVENTS_BATCH }),
+});
+
+// --- Tournaments ---
+
+const tournamentTeam = object<TournamentTeam>({
+  id: id(),
+  name: string({ min: 1, max: 100 }),
+  members: array(teamMember, { min: 1, max: 50 }),
+});
+
+const tournamentMatch = object<TournamentMatch>({
+  id: id(),
+  stage: oneOf<TournamentStage>(['group', 'winners', 'losers', 'final']),
+  group: optional(number({ integer: true, min: 0, max: MAX_TOURNAMENT_TEAMS })),
+  round: number({ integer: true, min: 0, max: 2 * MAX_TOURNAMENT_TEAMS }),
+  slot: number({ integer: true, min: 0, max: MAX_TOURNAMENT_TEAMS }),
+  teams: tuple<[string | null, string | null]>(nullable(id()), nullable(id())),
+  winner: optional(oneOf<0 | 1>([0, 1])),
+  score: optional(setScores),
+  walkover: optional(boolean()),
+});
+
+/** A tournament as the client sends it — the API sets groupId and organizerId itself */
+type TournamentBody = Omit<Tournament, 'id'> & { id?: string };
+
+const tournamentShape = {
+  id: optional(id()),
+  name: string({ min: 1, max: 200 }),
+  date: isoDate(),
+  location: optional(string({ max: 200 })),
+  sportType: optional(sportType()),
+  format: oneOf<TournamentFormat>(['groups', 'single-elimination', 'double-elimination']),
+  groupCount: optional(number({ integer: true, min: 1, max: MAX_TOURNAMENT_TEAMS / 2 })),
+  teams: array(tournamentTeam, { min: 2, max: MAX_TOURNAMENT_TEAMS }),
+  matches: array(tournamentMatch, { max: MAX_TOURNAMENT_TEAMS * MAX_TOURNAMENT_TEAMS }),
+  groupId: optional(string()),
+  organizerId: optional(string()),
+  version: optional(number({ integer: true, min: 0 })),
+};
+
+/** POST /api/tournaments */
+export const createTournamentSchema = object<TournamentBody>(tournamentShape);
+
+/** PUT /api/tournaments — the whole tournament, `version` the one it was edited from */
+export const updateTournamentSchema = object<TournamentBody & { id: string }>({ ...tournamentShape, id: id() });
+
+/**
+ * Match teams that are not registered — a check of the whole body no field
+ * schema can make.
+ */
+export function unknownTeamIssues(tournament: Pick<Tournament, 'teams' | 'matches'>): ValidationIssue[] {
+  const registered = new Set(tournament.teams.map(t => t.id));
+  return tournament.matches.flatMap((m, i) => m.teams.flatMap((teamId, side) =>
+    teamId === null || registered.has(teamId)
+      ? []
+      : [{ path: `matches[${i}].teams[${side}]`, message: `Tým „${teamId}“ v turnaji není.` }]));
+}
+
+// --- Attendance ---
+
+/** PUT /api/attendance — `guest` adds a new guest, `noShow`/`lateCancel` are for organizers */
+export const attendanceSchema = object<
+  Pick<AttendanceRecord, 'eventId' | 'userId'>
+  & Partial<Pick<AttendanceRecord, 'status' | 'hasPaid' | 'noShow' | 'lateCancel'>>
+  & { guest?: { name: string; invitedBy?: string; paidBy?: string } }
+>({
+  eventId: id(),
+  userId: id(),
+  // Left out by a payment-only update, which keeps the stored status
+  status: optional(attendanceStatus),
+  hasPaid: optional(boolean()),
+  noShow: optional(boolean()),
+  lateCancel: optional(boolean()),
+  guest: optional(object({
+    name: string({ min: 1, max: 100 }),
+    invitedBy: optional(id()),
+    paidBy: optional(id()),
+  })),
+});
+
+// --- Sport configs ---
+
+const attendancePolicy = object<AttendancePolicy>({
+  rsvpLockHours: optional(number({ min: 0, max: MAX_POLICY_HOURS })),
+  lateCancelHours: optional(number({ min: 0, max: MAX_POLICY_HOURS })),
+});
+
+const scoringRules = object<ScoringRules>({
+  kind: oneOf<ScoringRules['kind']>(['rally', 'tennis']),
+  setsToWin: number({ integer: true, min: 1, max: 5 }),
+  pointsPerSet: number({ integer: true, min: 1, max: 99 }),
+  decidingSetPoints: optional(number({ integer: true, min: 1, max: 99 })),
+  winBy: number({ integer: true, min: 1, max: 10 }),
+  maxPoints: optional(number({ integer: true, min: 1, max: 199 })),
+});
+
+const sportConfig = object<SportConfig>({
+  type: sportType(),
+  label: string({ min: 1, max: 50 }),
+  emoji: optional(string({ min: 1, max: 8 })),
+  maxPlayers: number({ integer: true, min: 1, max: 100 }),
+  defaultCost: amount(),
+  defaultLocation: string({ max: 200 }),
+  teamSize: nullable(number({ integer: true, min: 1, max: 50 })),
+  teamCount: optional(number({ integer: true, min: 2, max: MAX_TEAMS })),
+  scoring: optional(scoringRules),
+  pricing: optional(pricingRules),
+  attendancePolicy: optional(attendancePolicy),
+});
+
+const sportConfigList = array(sportConfig, { min: 1, max: MAX_SPORT_TYPES });
+
+/** PUT /api/sport-configs — every config of the group, each sport once */
+export const sportConfigsSchema: Schema<SportConfig[]> = {
+  ...sportConfigList,
+  check(value, path, issues) {
+    sportConfigList.check(value, path, issues);
+    if (!Array.isArray(value)) return;
+    const seen = new Set<unknown>();
+    value.forEach((config, i) => {
+      const type = config?.type;
+      if (seen.has(type)) issues.push({ path: `${path}[${i}].type`, message: 'Sport s tímto označením už existuje.' });
+      seen.add(type);
+    });
+  },
+};
+
+/**
+ * Events whose sport the group has not configured — a check no schema can
+ * make, the API runs it against the group's configs. Events without a sport
+ * are volleyball from before sport types and always pass.
+ */
+export function unknownSportIssues(
+  events: { sportType?: SportType }[],
+  configs: Pick<SportConfig, 'type'>[],
+  path: (index: number) => string = () => 'sportType',
+): ValidationIssue[] {
+  const known = new Set(configs.map(c => c.type));
+  return events.flatMap((event, i) =>
+    event.sportType === undefined || known.has(event.sportType)
+      ? []
+      : [{ path: path(i), message: `Sport „${event.sportType}“ skupina nemá v nastavení.` }]);
+}
+
+// --- Users, auth, bank accounts ---
+
+/** POST /api/users — registration; the server picks the id, a new account never takes over an existing one */
+export const createUserSchema = object<Pick<User, 'name' | 'photoUrl'> & { pin: string }>({
+  name: string({ min: 1, max: 100 }),
+  photoUrl: optional(string()),
+  pin: pin(),
+});
+
+/** PUT /api/users — own profile; `role` is per group and ignored */
+export const updateUserSchema = object<Partial<User> & { id: string }>({
+  id: id(),
+  name: optional(string({ min: 1, max: 100 })),
+  photoUrl: optional(string()),
+  hasMultisportCard: optional(boolean()),
+  role: optional(userRole),
+  email: optional(string({ max: 200 })),
+  emailDigest: optional(boolean()),
+  positions: optional(array(oneOf<PlayerPosition>(['setter', 'libero', 'hitter', 'blocker']), { max: 4 })),
+  skillLevel: optional(number({ integer: true, min: MIN_SKILL_LEVEL, max: MAX_SKILL_LEVEL })),
+});
+
+/** POST /api/auth — log in by name; a profile without a PIN sets its first one with an admin-issued `setupCode` */
+export const loginSchema = object<{ name: string; pin: string; setupCode?: string }>({
+  name: string({ min: 1, max: 100 }),
+  pin: pin(),
+  setupCode: optional(string({ pattern: SETUP_CODE_PATTERN, message: 'Kód pro nastavení PINu má 8 číslic.' })),
+});
+
+/** PUT /api/auth — change own PIN; profiles without one yet send no `currentPin` */
+export const changePinSchema = object<{ currentPin?: string; newPin: string }>({
+  currentPin: optional(string()),
+  newPin: pin(),
+});
+
+/** POST /api/photos */
+export const photoSchema = object<{ userId: string; photoBase64: string }>({
+  userId: id(),
+  photoBase64: string({ pattern: /^data:image\//, message: 'Očekáván obrázek.' }),
+});
+
+/** POST /api/bank-accounts */
+export const bankAccountSchema = object<Omit<BankAccount, 'id'>>({
+  ownerName: string({ min: 1, max: 100 }),
+  accountNumber: string({ min: 1, max: 50 }),
+  userId: id(),
+});
+
+// --- Groups, notifications ---
+
+/** POST /api/groups — create `{ name }` or join `{ inviteCode }` */
+export const groupPostSchema = object<{ name?: string; inviteCode?: string }>({
+  name: optional(string({ min: 1, max: 100 })),
+  inviteCode: optional(string({ max: 100 })),
+});
+
+/** PUT /api/groups — one change of the active group */
+export const groupPutSchema = object<{ memberId?: string; role?: UserRole; issueSetupCode?: boolean; name?: string; rotateInvite?: boolean }>({
+  memberId: optional(id()),
+  role: optional(userRole),
+  issueSetupCode: optional(boolean()),
+  name: optional(string({ min: 1, max: 100 })),
+  rotateInvite: optional(boolean()),
+});
+
+/** PUT /api/notifications */
+export const notificationSettingsSchema = object<NotificationSettings>({
+  eventReminderHours: number({ min: 0, max: MAX_NOTIFICATION_HOURS }),
+  debtReminderDays: array(number({ integer: true, min: MIN_REMINDER_DAY, max: MAX_REMINDER_DAY }), { max: 10 }),
+  promotionConfirmHours: number({ min: 0, max: MAX_NOTIFICATION_HOURS }),
+});
+
+/** POST /api/notifications — a browser's PushSubscription.toJSON() */
+export const pushSubscriptionSchema = object<{
+  subscription: { endpoint: string; expirationTime?: number; keys: { p256dh: string; auth: string } };
+}>({
+  subscription: object({
+    endpoint: string({ pattern: /^https:\/\//, message: 'Očekávána adresa https://.' }),
+    expirationTime: optional(number()),
+    keys: object({ p256dh: string({ min: 1 }), auth: string({ min: 1 }) }),
+  }),
+});
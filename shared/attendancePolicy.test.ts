@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { getAttendancePolicy, hoursUntilStart, isRsvpLocked, isLateCancelWindow, isBilled, canHostRemoveGuest } from './attendancePolicy.js';
+import type { SportConfig, SportEvent } from '../types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('attendancePolicy', () => {
+  const event: SportEvent = {
+    id: 'e1',
+    title: 'Game',
+    date: '2026-03-20',
+    time: '18:00',
+    location: 'Hall',
+    totalCost: 1000,
+    accountNumber: '123/0100',
+    participants: [],
+    sportType: 'volejbal',
+  };
+  // Event times are Prague wall clock — 18:00 in March is 17:00 UTC
+  const startsAt = new Date('2026-03-20T18:00+01:00').getTime();
+
+  const configs: SportConfig[] = [{
+    type: 'volejbal', label: 'Volejbal', maxPlayers: 12, defaultCost: 1000, defaultLocation: 'Hala', teamSize: null,
+    attendancePolicy: { rsvpLockHours: 2, lateCancelHours: 24 },
+  }];
+
+  it('reads the policy of the event\'s sport', () => {
+    expect(getAttendancePolicy(event, configs)).toEqual({ rsvpLockHours: 2, lateCancelHours: 24 });
+    expect(getAttendancePolicy({ ...event, sportType: 'tenis' }, configs)).toEqual({ rsvpLockHours: 0, lateCancelHours: 0 });
+  });
+
+  it('counts the hours left until the start', () => {
+    expect(hoursUntilStart(event, startsAt - 3 * HOUR)).toBe(3);
+    expect(hoursUntilStart(event, startsAt + HOUR)).toBe(-1);
+  });
+
+  it('locks the RSVP after the cut-off', () => {
+    expect(isRsvpLocked(event, configs, startsAt - 3 * HOUR)).toBe(false);
+    expect(isRsvpLocked(event, configs, startsAt - HOUR)).toBe(true);
+    expect(isRsvpLocked(event, [], startsAt - HOUR)).toBe(false);
+  });
+
+  it('opens the late-cancellation window before the start', () => {
+    expect(isLateCancelWindow(event, configs, startsAt - 25 * HOUR)).toBe(false);
+    expect(isLateCancelWindow(event, configs, startsAt - 5 * 60 * 1000)).toBe(true);
+  });
+
+  it('bills joined players and late cancellations', () => {
+    expect(isBilled({ userId: 'u1', name: 'A', status: 'joined', hasPaid: false })).toBe(true);
+    expect(isBilled({ userId: 'u2', name: 'B', status: 'declined', hasPaid: false, lateCancel: true })).toBe(true);
+    expect(isBilled({ userId: 'u3', name: 'C', status: 'declined', hasPaid: false })).toBe(false);
+  });
+
+  it('lets the host remove a guest only while the guest could leave for free', () => {
+    const joined = { userId: 'guest_a', name: 'Host', status: 'joined' as const, hasPaid: false, isGuest: true };
+    const declined = { ...joined, status: 'declined' as const };
+
+    expect(canHostRemoveGuest(joined, event, configs, startsAt - 25 * HOUR)).toBe(true);
+    expect(canHostRemoveGuest(joined, event, configs, startsAt - 5 * HOUR)).toBe(false);
+    expect(canHostRemoveGuest(declined, event, configs, startsAt - 5 * HOUR)).toBe(true);
+    expect(canHostRemoveGuest(declined, event, configs, startsAt - HOUR)).toBe(false);
+    expect(canHostRemoveGuest(joined, event, [], startsAt + HOUR)).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import type { SportEvent, SportConfig, AttendancePolicy, Participant } from '../types.js';
+import { eventStart, pragueWallClock } from './eventTime.js';
+
+/**
+ * RSVP cut-off and late cancellations, shared by /api/attendance, which
+ * enforces them on every attendance change, and the UI, which locks the
+ * buttons and warns before a late cancellation.
+ *
+ *   - after `rsvpLockHours` before the start only an organizer changes attendance
+ *   - a joined player who leaves within `lateCancelHours` keeps owing their share
+ *   - an organizer marks players who joined but didn't come as no-shows
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Longest cut-off or late-cancellation window — a week */
+export const MAX_POLICY_HOURS = 168;
+
+/** Hours between 0 and MAX_POLICY_HOURS, anything else counts as off */
+const hours = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(MAX_POLICY_HOURS, Math.max(0, value)) : 0;
+
+/** The policy of the event's sport, 0 where a rule is off */
+export function getAttendancePolicy(event: Pick<SportEvent, 'sportType'>, sportConfigs: SportConfig[] = []): Required<AttendancePolicy> {
+  const type = event.sportType ?? 'volejbal';
+  const raw = sportConfigs.find(c => c.type === type)?.attendancePolicy;
+  return { rsvpLockHours: hours(raw?.rsvpLockHours), lateCancelHours: hours(raw?.lateCancelHours) };
+}
+
+/** Hours left until the event starts, negative once it has started */
+export function hoursUntilStart(event: Pick<SportEvent, 'date' | 'time'>, now = Date.now()): number {
+  return (eventStart(event) - pragueWallClock(new Date(now))) / HOUR_MS;
+}
+
+/** Past the RSVP cut-off — players can no longer change their answer */
+export function isRsvpLocked(event: SportEvent, sportConfigs: SportConfig[] = [], now = Date.now()): boolean {
+  const { rsvpLockHours } = getAttendancePolicy(event, sportConfigs);
+  return rsvpLockHours > 0 && hoursUntilStart(event, now) < rsvpLockHours;
+}
+
+/** Inside the late-cancellation window — a joined player who leaves still pays */
+export function isLateCancelWindow(event: SportEvent, sportConfigs: SportConfig[] = [], now = Date.now()): boolean {
+  const { lateCancelHours } = getAttendancePolicy(event, sportConfigs);
+  return lateCancelHours > 0 && hoursUntilStart(event, now) < lateCancelHours;
+}
+
+/** Players who pay for the event — everyone joined plus late cancellations */
+export const isBilled = (participant: Participant): boolean =>
+  participant.status === 'joined' || !!participant.lateCancel;
+
+/**
+ * Removing a guest drops their share, so whoever brought them may do it only
+ * while the guest could still leave for free: before the cut-off and, once
+ * billed, before the late-cancellation window and the start. Organizers
+ * remove guests any time.
+ */
+export function canHostRemoveGuest(guest: Participant, event: SportEvent, sportConfigs: SportConfig[] = [], now = Date.now()): boolean {
+  if (isRsvpLocked(event, sportConfigs, now) || guest.lateCancel) return false;
+  if (!isBilled(guest)) return true;
+  return hoursUntilStart(event, now) > 0 && !isLateCancelWindow(event, sportConfigs, now);
+}
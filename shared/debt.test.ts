@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { calculateDebts, hasUnpaidShare } from './debt.js';
+import { getVariableSymbol } from './variableSymbol.js';
+import { DEFAULT_SPORT_CONFIGS, type SportEvent, type User } from '../types.js';
+
+describe('calculateDebts', () => {
+  const user: User = { id: 'u1', name: 'Alice' };
+
+  const makeEvent = (overrides: Partial<SportEvent> = {}): SportEvent => ({
+    id: 'e1',
+    title: 'Game',
+    date: '2026-03-20',
+    time: '18:00',
+    location: 'Hall',
+    totalCost: 1000,
+    accountNumber: '123/0100',
+    participants: [],
+    sportType: 'volejbal',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-29T12:00:00'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns empty array when no events', () => {
+    expect(calculateDebts([], user.id)).toEqual([]);
+  });
+
+  it('returns empty array when user has no participation', () => {
+    const events = [makeEvent()];
+    expect(calculateDebts(events, user.id)).toEqual([]);
+  });
+
+  it('returns empty array when user has paid', () => {
+    const events = [makeEvent({
+      participants: [{ userId: 'u1', name: 'Alice', status: 'joined', hasPaid: true }],
+    })];
+    expect(calculateDebts(events, user.id)).toEqual([]);
+  });
+
+  it('returns empty array when user declined', () => {
+    const events = [makeEvent({
+      participants: [{ userId: 'u1', name: 'Alice', status: 'declined', hasPaid: false }],
+    })];
+    expect(calculateDebts(events, user.id)).toEqual([]);
+  });
+
+  it('returns empty array for events less than 2 days ago', () => {
+    const events = [makeEvent({
+      date: '2026-03-28', // 1 day ago
+      participants: [{ userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false }],
+    })];
+    expect(calculateDebts(events, user.id)).toEqual([]);
+  });
+
+  it('counts the days in Prague, where the events take place', () => {
+    const events = [makeEvent({
+      date: '2026-03-20',
+      participants: [{ userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false }],
+    })];
+    // 23:30 UTC on the 21st is already the 22nd in Prague
+    expect(calculateDebts(events, user.id, [], new Date('2026-03-21T23:30:00Z'))[0].daysOverdue).toBe(2);
+  });
+
+  it('detects unpaid debt for overdue event', () => {
+    const events = [makeEvent({
+      date: '2026-03-20', // 9 days ago
+      totalCost: 1000,
+      participants: [
+        { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+        { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: true },
+      ],
+    })];
+    const debts = calculateDebts(events, user.id);
+    expect(debts).toHaveLength(1);
+    expect(debts[0].amount).toBe(500); // 1000 / 2
+    expect(debts[0].daysOverdue).toBe(9);
+  });
+
+  it('skips events the user plays for free', () => {
+    const events = [makeEvent({
+      date: '2026-03-20',
+      organizerId: 'u1',
+      pricing: { organizerFree: true },
+      participants: [
+        { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+        { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: false },
+      ],
+    })];
+    expect(calculateDebts(events, user.id)).toEqual([]);
+    expect(calculateDebts(events, 'u2')[0].amount).toBe(1000);
+  });
+
+  it('carries the persisted variable symbol, computing it for old records', () => {
+    const events = [
+      makeEvent({
+        id: 'e1',
+        date: '2026-03-20',
+        participants: [{ userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false, variableSymbol: '1234567890' }],
+      }),
+      makeEvent({
+        id: 'e2',
+        date: '2026-03-21',
+        participants: [{ userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false }],
+      }),
+    ];
+    const debts = calculateDebts(events, user.id);
+    expect(debts.map(d => d.variableSymbol)).toEqual(['1234567890', getVariableSymbol('e2', 'u1')]);
+  });
+
+  it('rounds cost per person up', () => {
+    const events = [makeEvent({
+      date: '2026-03-20',
+      totalCost: 1000,
+      participants: [
+        { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+        { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: false },
+        { userId: 'u3', name: 'Carl', status: 'joined', hasPaid: false },
+      ],
+    })];
+    const debts = calculateDebts(events, user.id);
+    expect(debts[0].amount).toBe(334); // ceil(1000/3)
+  });
+
+  it('calculates multiple debts across events', () => {
+    const events = [
+      makeEvent({
+        id: 'e1', date: '2026-03-20', totalCost: 600,
+        participants: [
+          { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+          { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: true },
+        ],
+      }),
+      makeEvent({
+        id: 'e2', date: '2026-03-15', totalCost: 900,
+        participants: [
+          { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+          { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: true },
+          { userId: 'u3', name: 'Carl', status: 'joined', hasPaid: true },
+        ],
+      }),
+    ];
+    const debts = calculateDebts(events, user.id);
+    expect(debts).toHaveLength(2);
+    expect(debts[0].amount).toBe(300); // 600/2
+    expect(debts[1].amount).toBe(300); // 900/3
+  });
+
+  it('ignores declined participants in cost split', () => {
+    const events = [makeEvent({
+      date: '2026-03-20', totalCost: 1000,
+      participants: [
+        { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+        { userId: 'u2', name: 'Bob', status: 'declined', hasPaid: false },
+      ],
+    })];
+    const debts = calculateDebts(events, user.id);
+    expect(debts[0].amount).toBe(1000); // only 1 joined
+  });
+
+  it('bills a late cancellation like a joined player', () => {
+    const events = [makeEvent({
+      date: '2026-03-20', totalCost: 1000,
+      participants: [
+        { userId: 'u1', name: 'Alice', status: 'declined', hasPaid: false, lateCancel: true },
+        { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: false },
+      ],
+    })];
+    const debts = calculateDebts(events, user.id);
+    expect(debts).toHaveLength(1);
+    expect(debts[0].amount).toBe(500);
+  });
+
+  it('returns empty array when user is on waitlist', () => {
+    const events = [makeEvent({
+      date: '2026-03-20',
+      participants: [{ userId: 'u1', name: 'Alice', status: 'waitlist', hasPaid: false }],
+    })];
+    expect(calculateDebts(events, user.id)).toEqual([]);
+  });
+
+  it('ignores waitlisted participants in cost split', () => {
+    const events = [makeEvent({
+      date: '2026-03-20', totalCost: 1000,
+      participants: [
+        { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+        { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: true },
+        { userId: 'u3', name: 'Carl', status: 'waitlist', hasPaid: false },
+      ],
+    })];
+    const debts = calculateDebts(events, user.id);
+    expect(debts[0].amount).toBe(500); // 1000/2, waitlisted Carl excluded
+  });
+
+  it('calculates debts correctly for different sport types', () => {
+    const events = [
+      makeEvent({
+        id: 'e1', date: '2026-03-20', totalCost: 500, sportType: 'tenis',
+        participants: [
+          { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+          { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: true },
+        ],
+      }),
+      makeEvent({
+        id: 'e2', date: '2026-03-15', totalCost: 1000, sportType: 'volejbal',
+        participants: [
+          { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+          { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: true },
+        ],
+      }),
+    ];
+    const debts = calculateDebts(events, user.id);
+    expect(debts).toHaveLength(2);
+    expect(debts[0].amount).toBe(250); // tenis: 500/2
+    expect(debts[1].amount).toBe(500); // volejbal: 1000/2
+  });
+
+  it('bills guests to the inviting member', () => {
+    const events = [makeEvent({
+      totalCost: 900,
+      participants: [
+        { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: true },
+        { userId: 'u2', name: 'Bob', status: 'joined', hasPaid: true },
+        { userId: 'guest_1', name: 'Karel', status: 'joined', hasPaid: false, isGuest: true, invitedBy: 'u1', variableSymbol: '1000000042' },
+      ],
+    })];
+
+    const debts = calculateDebts(events, user.id);
+    expect(debts).toHaveLength(1);
+    expect(debts[0]).toMatchObject({ amount: 300, variableSymbol: '1000000042', guest: { userId: 'guest_1', name: 'Karel' } });
+  });
+
+  it('bills guests to the chosen payer instead of the inviter', () => {
+    const events = [makeEvent({
+      participants: [
+        { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: true },
+        { userId: 'guest_1', name: 'Karel', status: 'joined', hasPaid: false, isGuest: true, invitedBy: 'u1', paidBy: 'u2' },
+      ],
+    })];
+
+    expect(calculateDebts(events, user.id)).toEqual([]);
+    expect(calculateDebts(events, 'u2')).toHaveLength(1);
+  });
+
+  it('adds the guest debt next to the member\'s own', () => {
+    const events = [makeEvent({
+      participants: [
+        { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: false },
+        { userId: 'guest_1', name: 'Karel', status: 'joined', hasPaid: false, isGuest: true, invitedBy: 'u1' },
+        { userId: 'guest_2', name: 'Pepa', status: 'waitlist', hasPaid: false, isGuest: true, invitedBy: 'u1' },
+      ],
+    })];
+
+    const debts = calculateDebts(events, user.id);
+    expect(debts.map(d => d.guest?.userId)).toEqual([undefined, 'guest_1']);
+    expect(debts.every(d => d.amount === 500)).toBe(true);
+  });
+});
+
+describe('hasUnpaidShare', () => {
+  const event: SportEvent = {
+    id: 'e1', title: 'Game', date: '2026-03-20', time: '18:00', location: 'Hall',
+    totalCost: 400, accountNumber: '123/0100', organizerId: 'u1',
+    participants: [
+      { userId: 'u1', name: 'Alice', status: 'joined', hasPaid: true },
+      { userId: 'u2', name: 'Bob', status: 'declined', hasPaid: false },
+    ],
+  };
+
+  it('finds a billed share nobody paid yet', () => {
+    expect(hasUnpaidShare(event)).toBe(false);
+    expect(hasUnpaidShare({ ...event, participants: [...event.participants, { userId: 'u3', name: 'Cyril', status: 'joined', hasPaid: false }] })).toBe(true);
+  });
+
+  it('skips players who owe nothing', () => {
+    const free = { ...event, participants: [{ userId: 'u1', name: 'Alice', status: 'joined' as const, hasPaid: false }] };
+    expect(hasUnpaidShare(free, [{ ...DEFAULT_SPORT_CONFIGS[0], pricing: { organizerFree: true } }])).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import type { SportEvent, DebtItem, SportConfig, Participant } from '../types.js';
+import { getVariableSymbol } from './variableSymbol.js';
+import { getShare } from './pricing.js';
+import { isBilled } from './attendancePolicy.js';
+import { pragueWallClock } from './eventTime.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Who is billed for a participant — guests are paid for by the member who brought them */
+export const payerOf = (participant: Participant): string | undefined =>
+  participant.isGuest ? participant.paidBy ?? participant.invitedBy : participant.userId;
+
+/** Someone still owes a share of the event — such events are loaded whatever their date */
+export function hasUnpaidShare(event: SportEvent, sportConfigs: SportConfig[] = []): boolean {
+  return (event.participants ?? []).some(p => isBilled(p) && !p.hasPaid && getShare(event, p.userId, sportConfigs) > 0);
+}
+
+/** Whole calendar days from the event date to today in Prague */
+function calendarDaysSince(date: string, now: Date): number {
+  const eventDay = Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)));
+  const today = Math.floor(pragueWallClock(now) / DAY_MS) * DAY_MS;
+  return Math.round((today - eventDay) / DAY_MS);
+}
+
+/**
+ * Calculate unpaid debts for a given user across all events,
+ * including the guests the user pays for.
+ * Pure function — the debt list, settlement, reminders and the digest all use it.
+ */
+export function calculateDebts(events: SportEvent[], userId: string, sportConfigs: SportConfig[] = [], now = new Date()): DebtItem[] {
+  const debts: DebtItem[] = [];
+
+  events.forEach(event => {
+    const diff = calendarDaysSince(event.date, now);
+
+    // Not overdue yet (event is today or in the future, or only 1 day ago)
+    if (diff <= 1) return;
+
+    // Only count participants who joined (or cancelled too late) AND have NOT paid
+    const billed = (event.participants ?? []).filter(p =>
+      payerOf(p) === userId && isBilled(p) && !p.hasPaid,
+    );
+
+    for (const participant of billed) {
+      const amount = getShare(event, participant.userId, sportConfigs);
+      // Nothing to pay, e.g. the organizer playing for free
+      if (amount === 0) continue;
+
+      debts.push({
+        event,
+        amount,
+        daysOverdue: diff,
+        variableSymbol: participant.variableSymbol ?? getVariableSymbol(event.id, participant.userId),
+        ...(participant.isGuest ? { guest: { userId: participant.userId, name: participant.name } } : {}),
+      });
+    }
+  });
+
+  return debts;
+}
@@ -0,0 +1,54 @@
+import type { EventPage, EventQuery, SportEvent } from '../types.js';
+
+/**
+ * Paging of event lists, shared by GET /api/events and the client's local
+ * mode. Events come oldest first — by date, then by id, so the events of
+ * one day keep a stable order — and a page that isn't the last one ends
+ * with a cursor naming its last event. The next page starts right after it,
+ * whatever was added or removed in between.
+ */
+
+export const DEFAULT_EVENTS_PAGE = 50;
+export const MAX_EVENTS_PAGE = 200;
+
+/** Where an event stands in the list order */
+export interface EventPosition {
+  date: string;
+  id: string;
+}
+
+export const compareEvents = (a: EventPosition, b: EventPosition): number =>
+  a.date < b.date ? -1 : a.date > b.date ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+
+/** The cursor after `event` — dates have a fixed width, so the id needs no escaping */
+export const encodeCursor = (event: EventPosition): string => `${event.date}.${event.id}`;
+
+export const decodeCursor = (cursor: string): EventPosition => ({ date: cursor.slice(0, 10), id: cursor.slice(11) });
+
+export const CURSOR_PATTERN = /^\d{4}-\d{2}-\d{2}\..+$/;
+
+/** Whether an event falls in the dates and sport of `query` — events saved without a sport are volleyball */
+export function matchesQuery(event: Pick<SportEvent, 'date' | 'sportType'>, query: EventQuery): boolean {
+  return (!query.from || event.date >= query.from)
+    && (!query.to || event.date <= query.to)
+    && (!query.sportType || (event.sportType ?? 'volejbal') === query.sportType);
+}
+
+/** Page size of a query — the default when unset, never more than MAX_EVENTS_PAGE */
+export const pageLimit = (query: EventQuery): number =>
+  Math.min(Math.max(1, query.limit ?? DEFAULT_EVENTS_PAGE), MAX_EVENTS_PAGE);
+
+/** One page of `events`, in any order — for lists that are in memory anyway */
+export function pageEvents(events: SportEvent[], query: EventQuery): EventPage {
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const matching = events
+    .filter(event => matchesQuery(event, query) && (!after || compareEvents(event, after) > 0))
+    .sort(compareEvents);
+  return toPage(matching, pageLimit(query));
+}
+
+/** The first `limit` of `events` (sorted, possibly one more) with the cursor to the rest */
+export function toPage<T extends EventPosition>(events: T[], limit: number): { events: T[]; nextCursor: string | null } {
+  const page = events.slice(0, limit);
+  return { events: page, nextCursor: events.length > limit ? encodeCursor(page[page.length - 1]) : null };
+}
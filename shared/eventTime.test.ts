@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { eventStartsAt } from './eventTime.js';
+
+describe('eventStartsAt', () => {
+  it('reads the stored date and time as Prague wall clock, in winter and in summer', () => {
+    expect(eventStartsAt({ date: '2026-03-20', time: '18:00' }, new Date('2026-03-20T11:00:00Z'))).toBe(Date.parse('2026-03-20T17:00:00Z'));
+    expect(eventStartsAt({ date: '2026-07-01', time: '18:00' }, new Date('2026-07-01T11:00:00Z'))).toBe(Date.parse('2026-07-01T16:00:00Z'));
+  });
+
+  it('does not shift by the seconds of the current time', () => {
+    expect(eventStartsAt({ date: '2026-03-20', time: '18:00' }, new Date('2026-03-20T11:00:42.123Z'))).toBe(Date.parse('2026-03-20T17:00:00Z'));
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Event dates and times are Prague wall clock, stored without a time zone.
+ * Both sides compare them as UTC timestamps of that wall clock, so the
+ * server (running in UTC) and a browser anywhere agree on when an event starts.
+ */
+
+/** Wall-clock time in Prague as a UTC timestamp, comparable with eventStart() */
+export function pragueWallClock(now: Date): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: 'Europe/Prague',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    }).formatToParts(now).map(p => [p.type, p.value]),
+  );
+  return Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute));
+}
+
+export const eventStart = (event: { date: string; time?: string }): number => {
+  const [hour, minute] = String(event.time ?? '00:00').split(':').map(Number);
+  return Date.UTC(Number(event.date.slice(0, 4)), Number(event.date.slice(5, 7)) - 1, Number(event.date.slice(8, 10)), hour || 0, minute || 0);
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * The event's start as a real timestamp, comparable with Date.now() — the
+ * Prague wall clock shifted by Prague's offset at `now` (the offset at the
+ * start may differ by an hour across a DST change; deadlines don't mind).
+ */
+export function eventStartsAt(event: { date: string; time?: string }, now = new Date()): number {
+  // pragueWallClock() keeps whole minutes only
+  const offset = pragueWallClock(now) - Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+  return eventStart(event) - offset;
+}
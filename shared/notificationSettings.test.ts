@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_NOTIFICATION_SETTINGS, normalizeNotificationSettings, reminderDays } from './notificationSettings.js';
+import { notificationSettingsSchema } from './apiSchemas.js';
+import { validate } from './schema.js';
+
+describe('notification settings', () => {
+  it('keeps reminder days from the second day on, each once and in order', () => {
+    expect(reminderDays([14, 1, 3, 0, 3, 2.5, 7])).toEqual([3, 7, 14]);
+  });
+
+  it('rejects the same days in the API schema that normalizing drops', () => {
+    const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, debtReminderDays: [1, 3] };
+
+    expect(validate(notificationSettingsSchema, settings)).toEqual([
+      { path: 'debtReminderDays[0]', message: 'Nejméně 2.' },
+    ]);
+    expect(normalizeNotificationSettings(settings).debtReminderDays).toEqual([3]);
+  });
+
+  it('falls back to the defaults and caps the hours at a week', () => {
+    expect(normalizeNotificationSettings(null)).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
+    expect(normalizeNotificationSettings({ eventReminderHours: 500, debtReminderDays: [], promotionConfirmHours: -1 }))
+      .toEqual({ eventReminderHours: 168, debtReminderDays: [], promotionConfirmHours: 0 });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * When /api/notifications/run reminds a group, shared by the API, which
+ * stores and plans by these settings, and the settings form, which edits
+ * them (and keeps them in local mode).
+ */
+
+export interface NotificationSettings {
+  /** Remind members who haven't answered this many hours before a non-full event (0 = off) */
+  eventReminderHours: number;
+  /** Days after the event at which an unpaid share is reminded, e.g. [3, 7, 14] */
+  debtReminderDays: number[];
+  /** A player promoted from the waitlist must confirm within this many hours (0 = no confirmation) */
+  promotionConfirmHours: number;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  eventReminderHours: 24,
+  debtReminderDays: [3, 7, 14],
+  promotionConfirmHours: 0,
+};
+
+/** GET /api/notifications — publicKey is null when the server has no VAPID keys */
+export interface NotificationConfig {
+  publicKey: string | null;
+  settings: NotificationSettings;
+}
+
+/** Longest lead time of an event reminder or a promotion confirmation — a week */
+export const MAX_NOTIFICATION_HOURS = 24 * 7;
+
+/** A share is overdue from the second day after the event (see calculateDebts) — no reminder goes out earlier */
+export const MIN_REMINDER_DAY = 2;
+export const MAX_REMINDER_DAY = 365;
+
+/** A day after the event at which a debt reminder can go out */
+export const isReminderDay = (day: number): boolean =>
+  Number.isInteger(day) && day >= MIN_REMINDER_DAY && day <= MAX_REMINDER_DAY;
+
+/** Valid reminder days, each once, in order */
+export const reminderDays = (days: number[]): number[] =>
+  [...new Set(days.filter(isReminderDay))].sort((a, b) => a - b);
+
+const hours = (value: unknown, fallback: number): number => {
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? Math.min(number, MAX_NOTIFICATION_HOURS) : fallback;
+};
+
+/** Stored or submitted settings with defaults for what's missing and invalid values dropped */
+export function normalizeNotificationSettings(value: any): NotificationSettings {
+  const days = Array.isArray(value?.debtReminderDays) ? value.debtReminderDays : DEFAULT_NOTIFICATION_SETTINGS.debtReminderDays;
+  return {
+    eventReminderHours: hours(value?.eventReminderHours, DEFAULT_NOTIFICATION_SETTINGS.eventReminderHours),
+    debtReminderDays: reminderDays(days.map(Number)),
+    promotionConfirmHours: hours(value?.promotionConfirmHours, DEFAULT_NOTIFICATION_SETTINGS.promotionConfirmHours),
+  };
+}
@@ -0,0 +1,36 @@
+import type { UserRole } from '../types.js';
+
+/**
+ * Actions guarded by roles — one matrix for the API, which enforces it
+ * (api/_lib/permissions.ts), and the UI, which hides what a role can't do
+ * (utils/permissions.ts).
+ *
+ * Roles are per group. Joining/leaving an event, paying your own share and
+ * game-day actions (teams, score) stay open to every signed-in player.
+ */
+export type Permission =
+  | 'event:create'
+  | 'event:edit'         // title, date, cost, bank account
+  | 'event:delete'
+  | 'attendance:manage'  // change the RSVP of another player
+  | 'payment:mark'       // toggle hasPaid of another player
+  | 'sportconfig:edit'
+  | 'user:manage'        // assign group roles, remove members
+  | 'group:invite';      // see and rotate the group's invite link
+
+export const ROLES: UserRole[] = ['admin', 'organizer', 'treasurer', 'player'];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: ['event:create', 'event:edit', 'event:delete', 'attendance:manage', 'payment:mark', 'sportconfig:edit', 'user:manage', 'group:invite'],
+  organizer: ['event:create', 'event:edit', 'event:delete', 'attendance:manage', 'sportconfig:edit', 'group:invite'],
+  treasurer: ['payment:mark'],
+  player: [],
+};
+
+/** A stored role as one of ROLES — anything unknown counts as 'player' */
+export const toRole = (role: unknown): UserRole =>
+  typeof role === 'string' && (ROLES as string[]).includes(role) ? role as UserRole : 'player';
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
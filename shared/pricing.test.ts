@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { computeShares, getShare, getBaseShare, getPricingRules } from './pricing.js';
+import type { Participant, SportConfig, SportEvent } from '../types.js';
+
+describe('pricing', () => {
+  const joined = (userId: string, extra: Partial<Participant> = {}): Participant => ({
+    userId, name: userId, status: 'joined', hasPaid: false, ...extra,
+  });
+
+  const makeEvent = (overrides: Partial<SportEvent> = {}): SportEvent => ({
+    id: 'e1',
+    title: 'Game',
+    date: '2026-03-20',
+    time: '18:00',
+    location: 'Hall',
+    totalCost: 1000,
+    accountNumber: '123/0100',
+    participants: [joined('u1'), joined('u2'), joined('u3'), joined('u4')],
+    organizerId: 'u1',
+    ...overrides,
+  });
+
+  const amounts = (event: SportEvent, rules = {}) =>
+    Object.fromEntries(computeShares(event, rules).map(s => [s.userId, s.amount]));
+
+  it('splits evenly without rules, rounding up', () => {
+    expect(amounts(makeEvent())).toEqual({ u1: 250, u2: 250, u3: 250, u4: 250 });
+    expect(amounts(makeEvent({ totalCost: 1001 })).u1).toBe(251);
+  });
+
+  it('ignores players who did not join', () => {
+    const event = makeEvent({ participants: [joined('u1'), { ...joined('u2'), status: 'declined' }, { ...joined('u3'), status: 'waitlist' }] });
+    expect(amounts(event)).toEqual({ u1: 1000 });
+  });
+
+  it('lets the organizer play for free', () => {
+    expect(amounts(makeEvent(), { organizerFree: true })).toEqual({ u1: 0, u2: 334, u3: 334, u4: 334 });
+  });
+
+  it('takes custom shares out of the total first', () => {
+    const event = makeEvent({ customShares: { u2: 100 } });
+    expect(amounts(event)).toEqual({ u1: 300, u2: 100, u3: 300, u4: 300 });
+  });
+
+  it('charges guests a surcharge that lowers the members\' shares', () => {
+    const event = makeEvent({ participants: [joined('u1'), joined('u2'), joined('u3'), joined('g1', { isGuest: true })] });
+    const shares = computeShares(event, { guestSurcharge: 100 });
+    expect(shares.find(s => s.userId === 'g1')).toEqual({ userId: 'g1', amount: 325, reason: 'guest' });
+    expect(shares.find(s => s.userId === 'u1')!.amount).toBe(225);
+    expect(shares.reduce((sum, s) => sum + s.amount, 0)).toBe(1000);
+  });
+
+  it('deducts the Multisport entry fee from card holders', () => {
+    const event = makeEvent({ participants: [joined('u1', { hasMultisportCard: true }), joined('u2'), joined('u3'), joined('u4')] });
+    const shares = computeShares(event, { multisportDeduction: 100 });
+    expect(shares[0]).toEqual({ userId: 'u1', amount: 150, reason: 'multisport' });
+    expect(shares[1].amount).toBe(250);
+  });
+
+  it('never goes below zero', () => {
+    const event = makeEvent({ totalCost: 100, participants: [joined('u1', { hasMultisportCard: true })] });
+    expect(amounts(event, { multisportDeduction: 200 })).toEqual({ u1: 0 });
+  });
+
+  it('prefers event rules over the sport defaults', () => {
+    const configs: SportConfig[] = [{
+      type: 'volejbal', label: 'Volejbal', maxPlayers: 12, defaultCost: 1000, defaultLocation: 'Hala', teamSize: null,
+      pricing: { organizerFree: true },
+    }];
+
+    expect(getPricingRules(makeEvent(), configs)).toEqual({ organizerFree: true });
+    expect(getShare(makeEvent(), 'u2', configs)).toBe(334);
+    expect(getPricingRules(makeEvent({ pricing: { guestSurcharge: 50 } }), configs)).toEqual({ guestSurcharge: 50 });
+    expect(getShare(makeEvent({ pricing: {} }), 'u2', configs)).toBe(250);
+  });
+
+  it('reports the regular member share', () => {
+    expect(getBaseShare(makeEvent({ customShares: { u2: 100 } }))).toBe(300);
+    expect(getBaseShare(makeEvent({ participants: [] }))).toBe(0);
+    expect(getShare(makeEvent(), 'nobody')).toBe(0);
+  });
+
+  it('keeps late cancellations in the split so the others do not pay more', () => {
+    const event = makeEvent({
+      participants: [joined('u1'), joined('u2'), joined('u3', { status: 'declined', lateCancel: true }), joined('u4', { status: 'declined' })],
+    });
+    expect(amounts(event)).toEqual({ u1: 334, u2: 334, u3: 334 });
+  });
+});
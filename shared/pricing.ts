@@ -0,0 +1,80 @@
+import type { SportEvent, SportConfig, PricingRules, Participant } from '../types.js';
+import { isBilled } from './attendancePolicy.js';
+
+/**
+ * Shared cost splitting — the only place that decides how much a player owes.
+ * Used by the event detail, the QR payment, debts, payment matching and stats,
+ * and by the API for debt reminders and the digest.
+ *
+ * The event is split among the billed players — joined ones and late
+ * cancellations — so a player leaving at the last minute doesn't make the
+ * others pay more.
+ *
+ * Order of rules:
+ *   1. organizer plays for free (organizerFree)
+ *   2. custom shares are fixed amounts taken out of the total
+ *   3. the rest is split evenly; guests pay guestSurcharge more, members less
+ *   4. Multisport holders pay multisportDeduction less (the card covers it)
+ * Every share is rounded up to whole Kč.
+ */
+
+export interface ShareBreakdown {
+  userId: string;
+  amount: number;
+  reason?: 'organizer' | 'custom' | 'guest' | 'multisport';
+}
+
+/** Event rules win over the sport's defaults */
+export function getPricingRules(event: SportEvent, sportConfigs: SportConfig[] = []): PricingRules {
+  if (event.pricing) return event.pricing;
+  const type = event.sportType ?? 'volejbal';
+  return sportConfigs.find(c => c.type === type)?.pricing ?? {};
+}
+
+const billedParticipants = (event: SportEvent): Participant[] =>
+  (Array.isArray(event.participants) ? event.participants : []).filter(isBilled);
+
+function splitEvent(event: SportEvent, rules: PricingRules) {
+  const billed = billedParticipants(event);
+  const customShares = event.customShares ?? {};
+
+  const isFree = (p: Participant) => !!rules.organizerFree && p.userId === event.organizerId;
+  const hasCustomShare = (p: Participant) => !isFree(p) && customShares[p.userId] !== undefined;
+  const splitters = billed.filter(p => !isFree(p) && !hasCustomShare(p));
+
+  const customTotal = billed.filter(hasCustomShare).reduce((sum, p) => sum + customShares[p.userId], 0);
+  const remaining = Math.max(0, event.totalCost - customTotal);
+  const guestCount = splitters.filter(p => p.isGuest).length;
+  const surcharge = rules.guestSurcharge ?? 0;
+  // Members pay less by exactly what the guests pay extra, so the total stays the same
+  const memberBase = splitters.length > 0 ? Math.max(0, (remaining - guestCount * surcharge) / splitters.length) : 0;
+
+  return { billed, customShares, isFree, hasCustomShare, surcharge, memberBase };
+}
+
+export function computeShares(event: SportEvent, rules: PricingRules = {}): ShareBreakdown[] {
+  const { billed, customShares, isFree, hasCustomShare, surcharge, memberBase } = splitEvent(event, rules);
+
+  return billed.map(p => {
+    if (isFree(p)) return { userId: p.userId, amount: 0, reason: 'organizer' };
+    if (hasCustomShare(p)) return { userId: p.userId, amount: Math.ceil(customShares[p.userId]), reason: 'custom' };
+
+    let amount = memberBase + (p.isGuest ? surcharge : 0);
+    let reason: ShareBreakdown['reason'] = p.isGuest && surcharge > 0 ? 'guest' : undefined;
+    if (p.hasMultisportCard && rules.multisportDeduction) {
+      amount = Math.max(0, amount - rules.multisportDeduction);
+      reason = 'multisport';
+    }
+    return { userId: p.userId, amount: Math.ceil(amount), reason };
+  });
+}
+
+/** Amount one player owes for the event, 0 when they did not join (or cancelled in time) */
+export function getShare(event: SportEvent, userId: string, sportConfigs: SportConfig[] = []): number {
+  return computeShares(event, getPricingRules(event, sportConfigs)).find(s => s.userId === userId)?.amount ?? 0;
+}
+
+/** What a regular member pays — shown as "per person" in the event detail */
+export function getBaseShare(event: SportEvent, sportConfigs: SportConfig[] = []): number {
+  return Math.ceil(splitEvent(event, getPricingRules(event, sportConfigs)).memberBase);
+}
@@ -0,0 +1,18 @@
+import type { BankAccount, SportEvent } from '../types.js';
+
+/**
+ * The account an event's shares are paid to — the same resolution for the
+ * event detail, settlement and the e-mail digest: the selected personal
+ * account first, then the number stored on the event ('' when neither).
+ */
+export function receivingAccount(
+  event: Pick<SportEvent, 'selectedBankAccountId' | 'accountNumber'>,
+  bankAccounts: BankAccount[],
+): { accountNumber: string; ownerName?: string } {
+  const selected = event.selectedBankAccountId
+    ? bankAccounts.find(a => a.id === event.selectedBankAccountId)
+    : undefined;
+  return selected
+    ? { accountNumber: selected.accountNumber, ownerName: selected.ownerName }
+    : { accountNumber: event.accountNumber ?? '' };
+}
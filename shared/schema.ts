@@ -0,0 +1,200 @@
+/**
+ * Tiny runtime schemas for the JSON the client sends to the API. Both sides
+ * check request bodies with the same schemas (./apiSchemas.ts): the API
+ * answers 400 with every problem found, the client stops a bad write before
+ * it is sent or queued.
+ *
+ * A schema only checks — a valid value is used as it came. Problems are
+ * reported with the path of the offending field, e.g. `teams[0][1].userId`.
+ */
+
+export interface ValidationIssue {
+  /** Field path, '' for the body itself */
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  /** May be missing (or null) — see optional() */
+  readonly optional: boolean;
+  check(value: unknown, path: string, issues: ValidationIssue[]): void;
+  /** Never set — carries the checked type for Infer and object() shapes */
+  readonly _type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** One schema per key of T, nothing more — the compiler keeps shapes in step with types.ts */
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const define = <T>(check: Schema<T>['check']): Schema<T> => ({ optional: false, check });
+
+const fieldPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'pole' : typeof value;
+
+interface StringOptions {
+  /** Length limits, counted on the trimmed text */
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  /** Shown instead of the generic message when `pattern` does not match */
+  message?: string;
+}
+
+export function string(opts: StringOptions = {}): Schema<string> {
+  return define((value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `Očekáván text, přišlo ${describe(value)}.` });
+      return;
+    }
+    const length = value.trim().length;
+    if (opts.min !== undefined && length < opts.min) {
+      issues.push({ path, message: opts.min === 1 ? 'Povinné pole.' : `Alespoň ${opts.min} znaků.` });
+    } else if (opts.max !== undefined && length > opts.max) {
+      issues.push({ path, message: `Nejvýše ${opts.max} znaků.` });
+    } else if (opts.pattern && !opts.pattern.test(value)) {
+      issues.push({ path, message: opts.message ?? 'Neplatný formát.' });
+    }
+  });
+}
+
+interface NumberOptions {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export function number(opts: NumberOptions = {}): Schema<number> {
+  return define((value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ path, message: `Očekáváno číslo, přišlo ${describe(value)}.` });
+    } else if (opts.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: 'Očekáváno celé číslo.' });
+    } else if (opts.min !== undefined && value < opts.min) {
+      issues.push({ path, message: `Nejméně ${opts.min}.` });
+    } else if (opts.max !== undefined && value > opts.max) {
+      issues.push({ path, message: `Nejvýše ${opts.max}.` });
+    }
+  });
+}
+
+export function boolean(): Schema<boolean> {
+  return define((value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: `Očekáváno ano/ne, přišlo ${describe(value)}.` });
+    }
+  });
+}
+
+/** One of a fixed list of strings or numbers */
+export function oneOf<const T extends string | number>(values: readonly T[]): Schema<T> {
+  return define((value, path, issues) => {
+    if (!values.includes(value as T)) {
+      issues.push({ path, message: `Povolené hodnoty: ${values.join(', ')}.` });
+    }
+  });
+}
+
+/** Anything — for fields the API ignores, such as the hydrated participants of an event */
+export function unchecked<T = any>(): Schema<T> {
+  return define(() => {});
+}
+
+export function array<T>(item: Schema<T>, opts: { min?: number; max?: number } = {}): Schema<T[]> {
+  return define((value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `Očekáván seznam, přišlo ${describe(value)}.` });
+      return;
+    }
+    if (opts.min !== undefined && value.length < opts.min) {
+      issues.push({ path, message: `Počet položek: nejméně ${opts.min}.` });
+    } else if (opts.max !== undefined && value.length > opts.max) {
+      issues.push({ path, message: `Počet položek: nejvýše ${opts.max}.` });
+    }
+    value.forEach((entry, i) => item.check(entry, `${path}[${i}]`, issues));
+  });
+}
+
+/** Fixed-length array, e.g. the two teams of a round */
+export function tuple<T extends unknown[]>(...items: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return define((value, path, issues) => {
+    if (!Array.isArray(value) || value.length !== items.length) {
+      issues.push({ path, message: `Očekáváno ${items.length} položek.` });
+      return;
+    }
+    items.forEach((item, i) => item.check(value[i], `${path}[${i}]`, issues));
+  });
+}
+
+/** String keys, every value checked by `value` — e.g. customShares by userId */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return define((input, path, issues) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      issues.push({ path, message: `Očekáván objekt, přišlo ${describe(input)}.` });
+      return;
+    }
+    for (const [key, entry] of Object.entries(input)) {
+      value.check(entry, fieldPath(path, key), issues);
+    }
+  });
+}
+
+/** A JSON object with exactly the keys of `shape` — unknown keys are reported, not stored */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return define((value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `Očekáván objekt, přišlo ${describe(value)}.` });
+      return;
+    }
+    const input = value as Record<string, unknown>;
+    for (const [key, field] of Object.entries(shape) as [string, Schema<unknown>][]) {
+      const entry = input[key];
+      if (entry === undefined || (entry === null && field.optional)) {
+        if (!field.optional) issues.push({ path: fieldPath(path, key), message: 'Povinné pole.' });
+      } else {
+        field.check(entry, fieldPath(path, key), issues);
+      }
+    }
+    for (const key of Object.keys(input)) {
+      if (!(key in shape)) issues.push({ path: fieldPath(path, key), message: 'Neznámé pole.' });
+    }
+  });
+}
+
+/**
+ * May be missing. Null counts as missing too: the event PUT sends cleared
+ * fields as null (undefined does not survive JSON), at any depth.
+ */
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return { ...inner, optional: true };
+}
+
+/** Null is a value of its own here, e.g. SportConfig.teamSize */
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return define((value, path, issues) => {
+    if (value !== null) inner.check(value, path, issues);
+  });
+}
+
+/** Every problem of `value`, none when it is valid */
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (value === undefined || value === null) {
+    issues.push({ path: '', message: 'Chybí data požadavku.' });
+  } else {
+    schema.check(value, '', issues);
+  }
+  return issues;
+}
+
+/** Readable summary of the first few issues, shown as the error message */
+export function describeIssues(issues: ValidationIssue[], limit = 3): string {
+  const listed = issues.slice(0, limit).map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+  const more = issues.length > limit ? ` (a ${issues.length - limit} další)` : '';
+  return `Neplatná data — ${listed.join(' ')}${more}`;
+}
+
+/** Body of a 400 response: `error` for display, `issues` with every field path */
+export const invalidRequest = (issues: ValidationIssue[]) => ({ error: describeIssues(issues), issues });
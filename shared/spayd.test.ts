@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { buildSpayd } from './spayd.js';
+
+describe('buildSpayd', () => {
+  const iban = 'CZ6508000000192000145399';
+
+  it('builds the payment string with a variable symbol', () => {
+    expect(buildSpayd({ iban, amount: 334, variableSymbol: '1234567890', message: 'Volejbal 2026-03-20' }))
+      .toBe(`SPD*1.0*ACC:${iban}*AM:334.00*CC:CZK*X-VS:1234567890*MSG:Volejbal 2026-03-20`);
+  });
+
+  it('omits optional fields', () => {
+    expect(buildSpayd({ iban, amount: 100 })).toBe(`SPD*1.0*ACC:${iban}*AM:100.00*CC:CZK`);
+  });
+
+  it('strips field separators from the message', () => {
+    expect(buildSpayd({ iban, amount: 100, message: 'A*B' })).toContain('*MSG:AB');
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Short Payment Descriptor (SPAYD) — the string behind Czech QR payments.
+ * https://qr-platba.cz/pro-vyvojare/specifikace-formatu/
+ */
+export interface SpaydPayment {
+  iban: string;
+  amount: number;
+  message?: string;
+  variableSymbol?: string;
+}
+
+/** `*` separates fields, so it cannot appear inside a value */
+const clean = (value: string): string => value.replace(/\*/g, '').trim();
+
+export function buildSpayd({ iban, amount, message, variableSymbol }: SpaydPayment): string {
+  const fields = [`ACC:${iban}`, `AM:${amount.toFixed(2)}`, 'CC:CZK'];
+  if (variableSymbol) fields.push(`X-VS:${variableSymbol}`);
+  if (message) fields.push(`MSG:${clean(message).slice(0, 60)}`);
+  return `SPD*1.0*${fields.join('*')}`;
+}
@@ -0,0 +1,92 @@
+import type { TournamentMatch } from '../types.js';
+
+/**
+ * Bracket pairings of a tournament, re-derived from its results. The app
+ * runs it after every recorded result (utils/tournament.ts); the API runs
+ * it on a player's save, so players can report results but not pairings
+ * (api/tournaments.ts).
+ */
+
+interface MatchSource {
+  match: string;
+  take: 'winner' | 'loser';
+}
+
+/** Where the two teams of a bracket match come from — null for the seeded first round */
+function matchSources(match: TournamentMatch, levels: number): [MatchSource, MatchSource] | null {
+  const { round, slot } = match;
+  const w = (r: number, s: number, take: MatchSource['take']): MatchSource => ({ match: `w${r}-${s}`, take });
+  const l = (r: number, s: number): MatchSource => ({ match: `l${r}-${s}`, take: 'winner' });
+
+  switch (match.stage) {
+    case 'winners':
+      return round === 0 ? null : [w(round - 1, 2 * slot, 'winner'), w(round - 1, 2 * slot + 1, 'winner')];
+    case 'losers': {
+      if (round === 0) return [w(0, 2 * slot, 'loser'), w(0, 2 * slot + 1, 'loser')];
+      if (round % 2 === 0) return [l(round - 1, 2 * slot), l(round - 1, 2 * slot + 1)];
+      // Newcomers from the winners bracket come in reversed, so early opponents don't meet again
+      const winnersRound = (round + 1) / 2;
+      const newcomers = 2 ** (levels - winnersRound - 1);
+      return [l(round - 1, slot), w(winnersRound, newcomers - 1 - slot, 'loser')];
+    }
+    case 'final':
+      if (round === 1) return [{ match: 'f0', take: 'loser' }, { match: 'f0', take: 'winner' }];
+      return [w(levels - 1, 0, 'winner'), levels > 1 ? l(2 * levels - 3, 0) : w(0, 0, 'loser')];
+    default:
+      return null;
+  }
+}
+
+/** The match without its result */
+export const blank = (match: TournamentMatch, teams: TournamentMatch['teams'] = match.teams): TournamentMatch => ({
+  id: match.id,
+  stage: match.stage,
+  ...(match.group !== undefined && { group: match.group }),
+  round: match.round,
+  slot: match.slot,
+  teams,
+});
+
+/**
+ * Fill in the bracket from the results: each match takes its teams from the
+ * matches before it, a result stays only while its teams do, and a team
+ * facing a bye goes through without playing. The replayed final is there
+ * only once the losers' side won the first one.
+ */
+export function resolveBracket(matches: TournamentMatch[]): TournamentMatch[] {
+  const levels = Math.log2(2 * matches.filter(m => m.stage === 'winners' && m.round === 0).length);
+  const settled = new Map<string, TournamentMatch>();
+
+  // undefined while the source match is still to be played
+  const team = (source: MatchSource): string | null | undefined => {
+    const from = settled.get(source.match);
+    if (from?.winner === undefined) return undefined;
+    return from.teams[source.take === 'winner' ? from.winner : 1 - from.winner];
+  };
+
+  const settle = (match: TournamentMatch): TournamentMatch => {
+    const sources = matchSources(match, levels);
+    let next = match;
+    let pending = false;
+    if (sources) {
+      const sides = sources.map(team);
+      pending = sides.includes(undefined);
+      const teams: TournamentMatch['teams'] = [sides[0] ?? null, sides[1] ?? null];
+      if (pending || teams[0] !== match.teams[0] || teams[1] !== match.teams[1]) next = blank(match, teams);
+    }
+    if (!pending && next.winner === undefined && (next.teams[0] === null || next.teams[1] === null)) {
+      next = { ...next, winner: next.teams[0] === null ? 1 : 0, walkover: true };
+    }
+    settled.set(next.id, next);
+    return next;
+  };
+
+  const resolved = matches.filter(m => m.id !== 'f1').map(m => (m.stage === 'group' ? m : settle(m)));
+
+  const final = settled.get('f0');
+  if (final?.winner === 1 && !final.walkover) {
+    const replay = matches.find(m => m.id === 'f1') ?? { id: 'f1', stage: 'final' as const, round: 1, slot: 0, teams: [null, null] as TournamentMatch['teams'] };
+    resolved.push(settle(replay));
+  }
+  return resolved;
+}
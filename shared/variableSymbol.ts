@@ -0,0 +1,20 @@
+/**
+ * Deterministic variable symbol (VS) for one player's share of one event.
+ * Czech banks carry up to 10 digits; the result never starts with zero,
+ * because banks drop leading zeros from the VS on statements.
+ * The API stores it on the attendance record on the first RSVP; the client
+ * computes the same one for records older than that.
+ *
+ * A 32-bit hash can collide. The API registers every VS it issues and
+ * moves on to the next `attempt` when one is taken by another share;
+ * payment matching doesn't trust a VS that two open shares carry.
+ */
+export function getVariableSymbol(eventId: string, userId: string, attempt = 0): string {
+  // FNV-1a (32 bit) over "eventId:userId", then ":attempt" after a collision
+  let hash = 0x811c9dc5;
+  for (const char of attempt > 0 ? `${eventId}:${userId}:${attempt}` : `${eventId}:${userId}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return String(1_000_000_000 + hash);
+}
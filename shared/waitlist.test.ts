@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { planWaitlist } from './waitlist.js';
+import type { AttendanceRecord } from '../types.js';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 18, 12, 0);
+
+const record = (userId: string, status: AttendanceRecord['status'], timestamp: number, extra: Partial<AttendanceRecord> = {}): AttendanceRecord => ({
+  eventId: 'e1',
+  userId,
+  status,
+  hasPaid: false,
+  timestamp,
+  ...extra,
+});
+
+describe('planWaitlist', () => {
+  it('promotes the longest-waiting player into a free spot', () => {
+    const records = [
+      record('u1', 'joined', 1),
+      record('u3', 'waitlist', 30),
+      record('u2', 'waitlist', 20),
+    ];
+
+    const changes = planWaitlist(records, 2, { now: NOW, confirmHours: 0 });
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].after).toMatchObject({ userId: 'u2', status: 'joined', timestamp: NOW });
+    expect(changes[0].after.confirmBy).toBeUndefined();
+  });
+
+  it('fills every free spot and nothing more', () => {
+    const records = [
+      record('u1', 'waitlist', 10),
+      record('u2', 'waitlist', 20),
+      record('u3', 'waitlist', 30),
+    ];
+
+    const changes = planWaitlist(records, 2, { now: NOW, confirmHours: 0 });
+
+    expect(changes.map(c => c.after.userId)).toEqual(['u1', 'u2']);
+  });
+
+  it('does nothing while the event is full', () => {
+    const records = [record('u1', 'joined', 1), record('u2', 'waitlist', 2)];
+
+    expect(planWaitlist(records, 1, { now: NOW, confirmHours: 0 })).toEqual([]);
+  });
+
+  it('holds the spot until the confirmation deadline, capped at the event start', () => {
+    const records = [record('u1', 'waitlist', 1), record('u2', 'waitlist', 2)];
+
+    const [first, second] = planWaitlist(records, 2, { now: NOW, confirmHours: 12, startsAt: NOW + 6 * HOUR });
+    expect(first.after.confirmBy).toBe(NOW + 6 * HOUR);
+    expect(second.after.confirmBy).toBe(NOW + 6 * HOUR);
+
+    const [later] = planWaitlist(records, 1, { now: NOW, confirmHours: 2, startsAt: NOW + 6 * HOUR });
+    expect(later.after.confirmBy).toBe(NOW + 2 * HOUR);
+  });
+
+  it('promotes guests without asking — their host already answered for them', () => {
+    const records = [record('guest_1', 'waitlist', 1, { isGuest: true, invitedBy: 'u1' })];
+
+    const [change] = planWaitlist(records, 1, { now: NOW, confirmHours: 12 });
+
+    expect(change.after.status).toBe('joined');
+    expect(change.after.confirmBy).toBeUndefined();
+  });
+
+  it('passes a lapsed offer to the next in line', () => {
+    const records = [
+      record('u1', 'joined', 1, { confirmBy: NOW - 1 }),
+      record('u2', 'waitlist', 2),
+    ];
+
+    const changes = planWaitlist(records, 1, { now: NOW, confirmHours: 12, startsAt: NOW + 24 * HOUR });
+
+    expect(changes[0].after).toEqual(expect.objectContaining({ userId: 'u1', status: 'declined' }));
+    expect(changes[0].after).not.toHaveProperty('confirmBy');
+    expect(changes[1].after).toEqual(expect.objectContaining({ userId: 'u2', status: 'joined', confirmBy: NOW + 12 * HOUR }));
+  });
+
+  it('keeps an offer that has not lapsed yet', () => {
+    const records = [
+      record('u1', 'joined', 1, { confirmBy: NOW + HOUR }),
+      record('u2', 'waitlist', 2),
+    ];
+
+    expect(planWaitlist(records, 1, { now: NOW, confirmHours: 12 })).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import type { AttendanceRecord } from '../types.js';
+
+/**
+ * Waitlist rules. The API applies them on every attendance change
+ * (api/_lib/waitlist.ts), local mode applies them in storage.ts.
+ *
+ * The waitlist is ordered by the attendance `timestamp` — the time of the
+ * last status change. With a confirmation window a promoted player holds
+ * the spot until `confirmBy`; when it lapses they count as declined and
+ * the spot goes to the next in line.
+ */
+
+export interface WaitlistOptions {
+  now: number;
+  /** 0 = promoted players are joined right away */
+  confirmHours: number;
+  /** Event start — a confirmation never runs past it */
+  startsAt?: number;
+}
+
+export interface WaitlistChange {
+  before: AttendanceRecord;
+  after: AttendanceRecord;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const withoutConfirmBy = ({ confirmBy: _confirmBy, ...record }: AttendanceRecord): AttendanceRecord => record;
+
+/** Lapsed offers and promotions needed to fill the free spots, in the order they apply */
+export function planWaitlist(records: AttendanceRecord[], maxPlayers: number, { now, confirmHours, startsAt }: WaitlistOptions): WaitlistChange[] {
+  const changes: WaitlistChange[] = [];
+
+  for (const record of records) {
+    if (record.status === 'joined' && record.confirmBy !== undefined && record.confirmBy <= now) {
+      changes.push({ before: record, after: { ...withoutConfirmBy(record), status: 'declined', timestamp: now } });
+    }
+  }
+
+  const lapsed = new Set(changes.map(c => c.before.userId));
+  let joined = records.filter(r => r.status === 'joined' && !lapsed.has(r.userId)).length;
+  const queue = records
+    .filter(r => r.status === 'waitlist')
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const record of queue) {
+    if (joined >= maxPlayers) break;
+    const needsConfirmation = confirmHours > 0 && !record.isGuest && (startsAt === undefined || startsAt > now);
+    const after: AttendanceRecord = { ...withoutConfirmBy(record), status: 'joined', timestamp: now };
+    if (needsConfirmation) {
+      after.confirmBy = Math.min(now + confirmHours * HOUR_MS, startsAt ?? Infinity);
+    }
+    changes.push({ before: record, after });
+    joined++;
+  }
+
+  return changes;
+}
@@ -1,14 +1,21 @@
-export type SportType = 'volejbal' | 'tenis' | 'badminton';
-
-/** Runtime array of allowed sport types — used for validation / filtering */
-export const VALID_SPORT_TYPES: SportType[] = ['volejbal', 'tenis', 'badminton'];
+/**
+ * Id of a sport — the `type` of one of the group's SportConfigs, e.g.
+ * 'volejbal' or 'florbal'. Admins add their own; events saved before sport
+ * types existed are 'volejbal'.
+ */
+export type SportType = string;
 
+/** Emoji of the built-in sports, for configs saved without their own */
 export const SPORT_EMOJI: Record<SportType, string> = {
   volejbal: '🏐',
   tenis: '🎾',
   badminton: '🏸',
 };
 
+/** Emoji shown for a sport — its config's own, the built-in one, or a generic medal */
+export const sportEmoji = (type: SportType, sportConfigs: SportConfig[] = []): string =>
+  sportConfigs.find(c => c.type === type)?.emoji ?? SPORT_EMOJI[type] ?? '🏅';
+
 /** Mask a bank account number, showing only the last 8 characters */
 export const maskAccountNumber = (accountNumber: string): string => {
   if (accountNumber.length <= 8) return accountNumber;
@@ -18,11 +25,53 @@ export const maskAccountNumber = (accountNumber: string): string => {
 export interface SportConfig {
   type: SportType;
   label: string;
+  emoji?: string;
   maxPlayers: number;
   defaultCost: number;
   defaultLocation: string;
-  /** null = split evenly into 2 teams, number = fixed team size (e.g. 2 for doubles) */
+  /** null = split everyone evenly into the teams, number = fixed team size (e.g. 2 for doubles) */
   teamSize: number | null;
+  /** Teams a round is split into, 2 when unset */
+  teamCount?: number;
+  /** How the live scoreboard counts — the built-in sport's rules when unset, see utils/scoring.ts */
+  scoring?: ScoringRules;
+  /** Default pricing rules for events of this sport — see shared/pricing.ts */
+  pricing?: PricingRules;
+  /** RSVP cut-off and late-cancellation rules — see shared/attendancePolicy.ts */
+  attendancePolicy?: AttendancePolicy;
+}
+
+/** When players may still change their RSVP — enforced by /api/attendance */
+export interface AttendancePolicy {
+  /** Hours before the start after which only an organizer can change attendance, 0 = never locked */
+  rsvpLockHours?: number;
+  /** Hours before the start within which a joined player who leaves still owes their share, 0 = off */
+  lateCancelHours?: number;
+}
+
+/** Scoring of a match, set by set — see utils/scoring.ts */
+export interface ScoringRules {
+  /** rally: every rally is a point; tennis: 15/30/40 games */
+  kind: 'rally' | 'tennis';
+  /** Sets needed to win the match */
+  setsToWin: number;
+  /** Points (rally) or games (tennis) that win a set */
+  pointsPerSet: number;
+  /** Rally: points of the deciding set, e.g. 15 in volleyball */
+  decidingSetPoints?: number;
+  winBy: number;
+  /** Rally: the set ends here even without the lead, e.g. 30 in badminton */
+  maxPoints?: number;
+}
+
+/** How an event's cost is split — set on a SportConfig, overridable per event */
+export interface PricingRules {
+  /** Kč covered by the Multisport card, subtracted from a holder's share */
+  multisportDeduction?: number;
+  /** Kč a guest pays on top of the regular share (lowers the members' shares) */
+  guestSurcharge?: number;
+  /** The event's organizer plays for free */
+  organizerFree?: boolean;
 }
 
 export const DEFAULT_SPORT_CONFIGS: SportConfig[] = [
@@ -31,11 +80,49 @@ export const DEFAULT_SPORT_CONFIGS: SportConfig[] = [
   { type: 'badminton', label: 'Badminton', maxPlayers: 4, defaultCost: 400, defaultLocation: 'Sportovní centrum', teamSize: 2 },
 ];
 
+/** Role within a group — decides which actions a user may perform (see shared/permissions.ts) */
+export type UserRole = 'admin' | 'organizer' | 'treasurer' | 'player';
+
 export interface User {
   id: string;
   name: string;
   photoUrl?: string; // URL or base64 encoded image
   hasMultisportCard?: boolean; // Multisport discount card holder
+  role?: UserRole; // role in the active group; missing = 'player'
+  email?: string; // only sent to its owner — used for the weekly digest
+  emailDigest?: boolean; // false = unsubscribed from the digest
+  positions?: PlayerPosition[]; // volleyball positions the player prefers, best first
+  skillLevel?: number; // self-assessment 1–5, rates the player until they have played enough games
+}
+
+/** Volleyball positions — the balancer spreads the players declaring them over the teams */
+export type PlayerPosition = 'setter' | 'libero' | 'hitter' | 'blocker';
+
+/** Self-assessed skill, 1 = beginner … 5 = top player */
+export const MIN_SKILL_LEVEL = 1;
+export const MAX_SKILL_LEVEL = 5;
+
+/** A club / team — events, members and sport configs are scoped to one group */
+export interface Group {
+  id: string;
+  name: string;
+  inviteCode?: string; // only sent to members allowed to invite
+  role: UserRole; // current user's role in this group
+}
+
+/** PIN rule shared by login, registration and PIN change — 4 to 8 digits */
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+/** One-time code a group admin issues to a profile without a PIN — 8 digits */
+export const SETUP_CODE_PATTERN = /^\d{8}$/;
+
+/** Loose e-mail check, same as the server's EMAIL_PATTERN */
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Signed-in user together with the session token sent as `Authorization: Bearer` */
+export interface AuthSession {
+  user: User;
+  token: string;
 }
 
 export interface BankAccount {
@@ -51,6 +138,14 @@ export interface Participant {
   photoUrl?: string; // Denormalized photo for display
   status: 'joined' | 'declined' | 'maybe' | 'waitlist';
   hasPaid: boolean;
+  variableSymbol?: string; // VS for this player's payment, see shared/variableSymbol.ts
+  hasMultisportCard?: boolean; // Denormalized from User for pricing
+  isGuest?: boolean; // Not a member of the group — pays the guest surcharge
+  invitedBy?: string; // Guests only: the member who brought them
+  paidBy?: string; // Guests only: the member billed for them, defaults to invitedBy
+  confirmBy?: number; // Promoted from the waitlist — the spot is held until this time unless confirmed
+  lateCancel?: boolean; // Left inside the late-cancellation window — still pays their share
+  noShow?: boolean; // Joined but didn't turn up, marked by an organizer — still pays
 }
 
 export interface TeamMember {
@@ -59,17 +154,40 @@ export interface TeamMember {
   photoUrl?: string;
 }
 
+/** Most teams a round is split into */
+export const MAX_TEAMS = 8;
+
 /** Default team animal names — randomly assigned on shuffle */
 export const TEAM_COLOR_NAMES = [
   'Vlci', 'Orli', 'Medvědi', 'Tygři', 'Lvi', 'Panteři', 'Jestřábi', 'Sokoli', 'Rysové', 'Žraloci',
 ] as const;
 
+/**
+ * How the teams of a round of more than two take turns on the court — see
+ * utils/matchSchedule.ts. Two teams simply play each other.
+ */
+export type MatchFormat = 'round-robin' | 'winner-stays' | 'king-of-the-court';
+
+/** One match of a round of more than two teams */
+export interface RoundMatch {
+  /** Indexes into the round's teams, the home side (the king's court) first */
+  teams: [number, number];
+  /** Relative to `teams`: 0 = home side won */
+  winner: 0 | 1;
+  /** Set scores, home side first */
+  score?: [number, number][];
+}
+
 export interface GameRound {
-  teams: [TeamMember[], TeamMember[]];
-  teamNames?: [string, string];
+  teams: TeamMember[][];
+  teamNames?: string[];
+  /** Two-team rounds only — rounds of more teams record their matches */
   winningTeam?: 0 | 1;
   /** Set scores for the round, e.g. [[25,20],[25,18],[22,25]] */
   score?: [number, number][];
+  matchFormat?: MatchFormat;
+  /** Matches played so far, for rounds of more than two teams */
+  matches?: RoundMatch[];
 }
 
 export interface SportEvent {
@@ -83,30 +201,204 @@ export interface SportEvent {
   selectedBankAccountId?: string; // ID of selected bank account from the bank accounts list
   description?: string;
   participants: Participant[]; // Constructed/Hydrated array, not necessarily stored directly
-  teams?: [TeamMember[], TeamMember[]]; // current round team split
-  teamNames?: [string, string]; // current round team names
-  winningTeam?: 0 | 1; // current round winner
-  /** Set scores for the current round */
+  teams?: TeamMember[][]; // current round team split
+  teamNames?: string[]; // current round team names
+  winningTeam?: 0 | 1; // current round winner, two teams only
+  /** Set scores for the current round — of the match being played when there are more teams */
   score?: [number, number][];
+  matchFormat?: MatchFormat; // current round, more than two teams
+  matches?: RoundMatch[]; // current round, more than two teams
   gameHistory?: GameRound[]; // completed previous rounds
   sportType?: SportType; // optional for backward compat — defaults to 'volejbal'
+  groupId?: string; // owning group, set by the API
+  organizerId?: string; // who created the event, set by the API
+  version?: number; // bumped by the API on every update — a save based on an older one is rejected
+  /** Overrides the sport's pricing rules for this event */
+  pricing?: PricingRules;
+  /** Fixed amount in Kč per userId, taken out of the split before everyone else */
+  customShares?: Record<string, number>;
+  /** Pairs the balancer keeps in one team or in different ones — see utils/teamBalancer.ts */
+  teamConstraints?: TeamConstraint[];
+}
+
+/** Two players who must play together, or must not */
+export interface TeamConstraint {
+  userIds: [string, string];
+  together: boolean;
 }
 
 /** @deprecated Use SportEvent instead */
 export type VolleyballEvent = SportEvent;
 
+/**
+ * How a tournament is played — see utils/tournament.ts. Groups play each
+ * within their group (round-robin tables); a bracket knocks teams out after
+ * one loss, or after two with double elimination.
+ */
+export type TournamentFormat = 'groups' | 'single-elimination' | 'double-elimination';
+
+/** Most teams a tournament takes */
+export const MAX_TOURNAMENT_TEAMS = 32;
+
+/** A fixed team, registered for the whole tournament */
+export interface TournamentTeam {
+  id: string;
+  name: string;
+  members: TeamMember[];
+}
+
+/** Double elimination has a losers bracket and a final of the two brackets' winners */
+export type TournamentStage = 'group' | 'winners' | 'losers' | 'final';
+
+export interface TournamentMatch {
+  id: string;
+  stage: TournamentStage;
+  group?: number; // group stage only
+  round: number;
+  slot: number; // position within the round
+  /** Team ids, home side first — null while the bracket has not decided it yet, or a bye */
+  teams: [string | null, string | null];
+  /** Relative to `teams`: 0 = home side won */
+  winner?: 0 | 1;
+  /** Set scores, home side first */
+  score?: [number, number][];
+  walkover?: boolean; // advanced without playing, against a bye
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  date: string; // ISO string YYYY-MM-DD
+  location?: string;
+  sportType?: SportType;
+  format: TournamentFormat;
+  groupCount?: number; // groups format only, defaults to 1
+  teams: TournamentTeam[]; // in seeding order
+  matches: TournamentMatch[];
+  groupId?: string; // owning group, set by the API
+  organizerId?: string; // who created the tournament, set by the API
+  version?: number; // bumped by the API on every update — a save based on an older one is rejected
+}
+
+/** GET /api/events — every filter optional, see shared/eventPages.ts for the order */
+export interface EventQuery {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+  sportType?: SportType;
+  cursor?: string; // nextCursor of the previous page
+  limit?: number;
+}
+
+export interface EventPage {
+  events: SportEvent[];
+  nextCursor: string | null; // null on the last page
+}
+
 export interface AttendanceRecord {
   eventId: string;
   userId: string;
   status: 'joined' | 'declined' | 'maybe' | 'waitlist';
   hasPaid: boolean;
   timestamp: number;
+  variableSymbol?: string; // assigned on the first RSVP, never changes
+  // Guests have a `guest_` userId and no user record — their name lives here
+  isGuest?: boolean;
+  guestName?: string;
+  invitedBy?: string;
+  paidBy?: string;
+  confirmBy?: number; // see Participant.confirmBy
+  lateCancel?: boolean; // see Participant.lateCancel
+  noShow?: boolean; // see Participant.noShow
 }
 
+/** What an audit entry records — the API writes them (api/_lib/audit.ts), the history view shows them */
+export type AuditAction =
+  | 'attendance.update'
+  | 'event.create'
+  | 'event.update'
+  | 'event.delete'
+  | 'user.create'
+  | 'user.update'
+  | 'user.delete'
+  | 'bankaccount.create'
+  | 'group.create'
+  | 'group.update'
+  | 'member.join'
+  | 'member.update'
+  | 'member.remove'
+  | 'tournament.create'
+  | 'tournament.update'
+  | 'tournament.delete';
+
+/** One append-only audit trail record, written by the API on every mutation */
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  actorId: string; // who made the change
+  action: AuditAction;
+  eventId?: string;
+  userId?: string; // whose record changed (attendance owner, edited profile)
+  changes: Record<string, { before: unknown; after: unknown }>;
+}
+
+export interface AuditFilter {
+  eventId?: string;
+  userId?: string;
+  from?: number; // ms timestamp, inclusive
+  to?: number;   // ms timestamp, inclusive
+  limit?: number;
+}
+
+/** Live sync notice from /api/stream — only which event or tournament changed, the client reloads it */
+export type ChangeNotice = (
+  | { kind: 'event' | 'attendance' | 'delete'; eventId: string }
+  | { kind: 'tournament'; tournamentId: string }
+) & {
+  rev: number;
+  actorId: string;
+  clientId?: string; // browser tab that made the change
+  at: number;
+};
+
 export interface DebtItem {
   event: SportEvent;
   amount: number;
   daysOverdue: number;
+  variableSymbol: string;
+  guest?: { userId: string; name: string }; // set when the debt is for a guest the user pays for
+}
+
+/** Debts owed to one receiving account, paid together with one QR payment */
+export interface Settlement {
+  accountNumber: string; // '' when the events have no receiving account
+  ownerName?: string;
+  debts: DebtItem[];
+  amount: number;
+  message: string;
+}
+
+/** Supported bank statement formats — see utils/bankStatement.ts */
+export type StatementFormat = 'csv' | 'gpc' | 'camt';
+
+/** One booked transaction from an imported bank statement */
+export interface BankTransaction {
+  id: string; // bank reference, or the row number when the statement has none
+  date?: string; // ISO YYYY-MM-DD
+  amount: number; // Kč; incoming payments are positive
+  variableSymbol?: string; // without leading zeros
+  counterpartyName?: string;
+  counterpartyAccount?: string;
+  message?: string;
+}
+
+/** A statement transaction proposed as the payment of one participant */
+export interface PaymentMatch {
+  transaction: BankTransaction;
+  eventId: string;
+  userId: string;
+  amount: number; // expected share
+  /** exact = variable symbol and amount; probable = amount and payer name only */
+  confidence: 'exact' | 'probable';
 }
 
 export type ViewMode = 'calendar' | 'list';
@@ -119,8 +411,8 @@ export interface UserStats {
   eventsJoined: number;
   eventsDeclined: number;
   eventsMaybe: number;
-  attendanceRate: number;     // eventsJoined / totalEvents (0-1)
-  paymentRate: number;        // timesPaid / eventsJoined (0-1)
+  attendanceRate: number;     // eventsJoined / totalEvents (0-1), no-shows don't count as joined
+  paymentRate: number;        // timesPaid / events billed, incl. late cancellations and no-shows (0-1)
   totalPaid: number;          // sum of cost-per-person for paid events (CZK)
   totalOwed: number;          // sum of cost-per-person for unpaid joined events (CZK)
   longestStreak: number;      // consecutive joined events by date
@@ -135,11 +427,14 @@ export interface UserStats {
   setsLost: number;
   setWinRate: number;          // setsWon / (setsWon + setsLost) (0-1)
   // v1.6 additions
-  eloRating?: number;
+  rating?: number;             // see utils/rating.ts — in the sport the player plays most
+  ratingDeviation?: number;    // uncertainty of the rating
   reliabilityScore?: number;
   dayOfWeekDistribution?: number[];  // [Mon,Tue,Wed,Thu,Fri,Sat,Sun]
   recentFormRate?: number;
   averageSetMargin?: number;
+  lateCancellations?: number;  // left inside the late-cancellation window
+  noShows?: number;            // joined but didn't turn up
 }
 
 export interface MonthlyTrend {
@@ -167,7 +462,9 @@ export interface LeaderboardEntry {
   name: string;
   photoUrl?: string;
   rank: number;
-  eloRating: number;
+  rating: number;
+  ratingDeviation: number;
+  sportType: SportType;         // the sport the rating is from
   winRate: number;
   gamesPlayed: number;
   attendanceRate: number;
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { describeAuditEntry, resolveUserName } from './audit';
+import { AuditEntry, User } from '../types';
+
+describe('audit formatting', () => {
+  const users: User[] = [
+    { id: 'u1', name: 'Alice' },
+    { id: 'u2', name: 'Bob' },
+  ];
+
+  const makeEntry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+    id: 'a1',
+    timestamp: 1_700_000_000_000,
+    actorId: 'u1',
+    action: 'event.update',
+    eventId: 'e1',
+    changes: {},
+    ...overrides,
+  });
+
+  it('resolves actor names and falls back for unknown users', () => {
+    expect(resolveUserName('u2', users)).toBe('Bob');
+    expect(resolveUserName('gone', users)).toBe('Neznámý');
+    expect(resolveUserName(undefined, users)).toBe('Neznámý');
+    expect(resolveUserName('system', users)).toBe('Automaticky');
+  });
+
+  it('describes a payment flip with the affected player', () => {
+    const entry = makeEntry({
+      action: 'attendance.update',
+      userId: 'u2',
+      changes: { hasPaid: { before: false, after: true } },
+    });
+    expect(describeAuditEntry(entry, users)).toEqual(['Platba (Bob): Nezaplaceno → Zaplaceno']);
+  });
+
+  it('describes the first RSVP without a previous status', () => {
+    const entry = makeEntry({
+      action: 'attendance.update',
+      userId: 'u1',
+      changes: { status: { before: null, after: 'joined' }, hasPaid: { before: null, after: false } },
+    });
+    expect(describeAuditEntry(entry, users)).toEqual(['Účast (Alice): — → Jde hrát']);
+  });
+
+  it('describes late cancellations and no-shows', () => {
+    const late = makeEntry({
+      action: 'attendance.update',
+      userId: 'u1',
+      changes: { status: { before: 'joined', after: 'declined' }, lateCancel: { before: null, after: true } },
+    });
+    expect(describeAuditEntry(late, users)).toEqual(['Účast (Alice): Jde hrát → Nejde', 'Pozdní odhlášení (Alice): platí podíl']);
+
+    const waived = makeEntry({ action: 'attendance.update', userId: 'u1', changes: { lateCancel: { before: true, after: null } } });
+    expect(describeAuditEntry(waived, users)).toEqual(['Pozdní odhlášení (Alice): prominuto']);
+
+    const noShow = makeEntry({ action: 'attendance.update', userId: 'u2', changes: { noShow: { before: null, after: true } } });
+    expect(describeAuditEntry(noShow, users)).toEqual(['Nedorazil (Bob)']);
+  });
+
+  it('summarizes reshuffled teams instead of listing players', () => {
+    const entry = makeEntry({
+      changes: { teams: { before: [[{ userId: 'u1' }], [{ userId: 'u2' }]], after: [[{ userId: 'u2' }], [{ userId: 'u1' }]] } },
+    });
+    expect(describeAuditEntry(entry, users)).toEqual(['Týmy: změněno']);
+  });
+
+  it('shows cost changes with currency and the winning team number', () => {
+    const entry = makeEntry({
+      changes: {
+        totalCost: { before: 1000, after: 1200 },
+        winningTeam: { before: null, after: 1 },
+      },
+    });
+    expect(describeAuditEntry(entry, users)).toEqual([
+      'Celková cena: 1000 Kč → 1200 Kč',
+      'Vítěz: Tým 2',
+    ]);
+  });
+
+  it('labels creation and deletion of events', () => {
+    expect(describeAuditEntry(makeEntry({ action: 'event.create', changes: { title: { before: null, after: 'X' } } }), users))
+      .toEqual(['Událost vytvořena']);
+    expect(describeAuditEntry(makeEntry({ action: 'event.delete', changes: { title: { before: 'X', after: null } } }), users))
+      .toEqual(['Událost smazána']);
+  });
+});
@@ -0,0 +1,109 @@
+import { AuditEntry, Participant, User } from '../types';
+
+const STATUS_LABELS: Record<Participant['status'], string> = {
+  joined: 'Jde hrát',
+  declined: 'Nejde',
+  maybe: 'Možná',
+  waitlist: 'Čeká na místo',
+};
+
+/** Event fields shown by name; anything else falls back to the raw key */
+const EVENT_FIELD_LABELS: Record<string, string> = {
+  title: 'Název',
+  date: 'Datum',
+  time: 'Čas',
+  location: 'Místo',
+  totalCost: 'Celková cena',
+  accountNumber: 'Číslo účtu',
+  selectedBankAccountId: 'Bankovní účet',
+  description: 'Popis',
+  sportType: 'Sport',
+  teams: 'Týmy',
+  teamNames: 'Názvy týmů',
+  winningTeam: 'Vítěz',
+  score: 'Skóre',
+  matchFormat: 'Formát zápasů',
+  matches: 'Zápasy',
+  gameHistory: 'Odehrané hry',
+  teamConstraints: 'Dvojice do týmů',
+};
+
+export const eventFieldLabel = (key: string): string => EVENT_FIELD_LABELS[key] ?? key;
+
+/** Structured values (teams, score…) are too long to show inline */
+const SUMMARY_ONLY_FIELDS = ['teams', 'score', 'matches', 'gameHistory', 'selectedBankAccountId', 'teamConstraints'];
+
+/** Actor of changes made by the server itself, e.g. a lapsed waitlist offer */
+export const SYSTEM_ACTOR = 'system';
+
+export function resolveUserName(userId: string | undefined, users: User[]): string {
+  if (!userId) return 'Neznámý';
+  if (userId === SYSTEM_ACTOR) return 'Automaticky';
+  return users.find(u => u.id === userId)?.name ?? 'Neznámý';
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'ano' : 'ne';
+  if (Array.isArray(value)) return value.join(' / ');
+  return String(value);
+}
+
+function formatEventField(key: string, before: unknown, after: unknown): string {
+  const label = eventFieldLabel(key);
+  if (SUMMARY_ONLY_FIELDS.includes(key)) {
+    return after === null ? `${label}: odstraněno` : `${label}: změněno`;
+  }
+  if (key === 'winningTeam') {
+    return `${label}: ${after === null ? '—' : `Tým ${Number(after) + 1}`}`;
+  }
+  if (key === 'totalCost') {
+    return `${label}: ${formatValue(before)} Kč → ${formatValue(after)} Kč`;
+  }
+  return `${label}: ${formatValue(before)} → ${formatValue(after)}`;
+}
+
+/**
+ * Human-readable lines for one audit entry, e.g.
+ * "Platba (Jan Novák): Nezaplaceno → Zaplaceno".
+ * Pure function — the actor is resolved separately via resolveUserName.
+ */
+export function describeAuditEntry(entry: AuditEntry, users: User[]): string[] {
+  const { changes } = entry;
+
+  switch (entry.action) {
+    case 'attendance.update': {
+      const name = resolveUserName(entry.userId, users);
+      const lines: string[] = [];
+      if (changes.status) {
+        const before = changes.status.before as Participant['status'] | null;
+        const after = changes.status.after as Participant['status'];
+        lines.push(`Účast (${name}): ${before ? STATUS_LABELS[before] : '—'} → ${STATUS_LABELS[after] ?? after}`);
+      }
+      // A first RSVP records hasPaid null → false, which is not a payment change
+      if (changes.hasPaid && Boolean(changes.hasPaid.before) !== Boolean(changes.hasPaid.after)) {
+        const paid = (value: unknown) => (value ? 'Zaplaceno' : 'Nezaplaceno');
+        lines.push(`Platba (${name}): ${paid(changes.hasPaid.before)} → ${paid(changes.hasPaid.after)}`);
+      }
+      if (changes.lateCancel) {
+        lines.push(changes.lateCancel.after ? `Pozdní odhlášení (${name}): platí podíl` : `Pozdní odhlášení (${name}): prominuto`);
+      }
+      if (changes.noShow) {
+        lines.push(changes.noShow.after ? `Nedorazil (${name})` : `Nedorazil (${name}): zrušeno`);
+      }
+      return lines;
+    }
+    case 'event.create':
+      return ['Událost vytvořena'];
+    case 'event.delete':
+      return ['Událost smazána'];
+    case 'event.update':
+      return Object.entries(changes).map(([key, change]) => formatEventField(key, change.before, change.after));
+    case 'tournament.create':
+      return ['Turnaj vytvořen'];
+    case 'tournament.delete':
+      return ['Turnaj smazán'];
+    default:
+      return Object.keys(changes).map(key => `${key}: změněno`);
+  }
+}
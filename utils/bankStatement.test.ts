@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseStatement,
+  parseCsvStatement,
+  parseGpcStatement,
+  parseCamtStatement,
+  detectStatementFormat,
+  decodeStatement,
+  parseAmount,
+  parseStatementDate,
+  normalizeVariableSymbol,
+} from './bankStatement';
+
+describe('bank statement helpers', () => {
+  it('parses Czech and plain amounts', () => {
+    expect(parseAmount('1 234,50')).toBe(1234.5);
+    expect(parseAmount('-200,00 CZK')).toBe(-200);
+    expect(parseAmount('1.234,5')).toBe(1234.5);
+    expect(parseAmount('250.00')).toBe(250);
+  });
+
+  it('parses statement dates', () => {
+    expect(parseStatementDate('15.06.2024')).toBe('2024-06-15');
+    expect(parseStatementDate('5.6.2024')).toBe('2024-06-05');
+    expect(parseStatementDate('2024-06-15+02:00')).toBe('2024-06-15');
+    expect(parseStatementDate('150624')).toBe('2024-06-15');
+    expect(parseStatementDate('')).toBeUndefined();
+  });
+
+  it('strips leading zeros from variable symbols', () => {
+    expect(normalizeVariableSymbol('0000123456')).toBe('123456');
+    expect(normalizeVariableSymbol('0000000000')).toBeUndefined();
+    expect(normalizeVariableSymbol(undefined)).toBeUndefined();
+  });
+
+  it('detects the statement format', () => {
+    expect(detectStatementFormat('<?xml version="1.0"?><Document/>')).toBe('camt');
+    expect(detectStatementFormat('0740000002001234567...')).toBe('gpc');
+    expect(detectStatementFormat('Datum;Objem;VS')).toBe('csv');
+  });
+
+  it('falls back to Windows-1250 for non-UTF-8 files', () => {
+    // "Novák" in Windows-1250
+    const bytes = new Uint8Array([0x4e, 0x6f, 0x76, 0xe1, 0x6b]);
+    expect(decodeStatement(bytes.buffer)).toBe('Novák');
+  });
+});
+
+describe('parseCsvStatement', () => {
+  it('reads a Fio export with an account preamble', () => {
+    const csv = [
+      '"accountId";"2001234567"',
+      '"bankId";"2010"',
+      '',
+      '"ID pohybu";"Datum";"Objem";"Měna";"Protiúčet";"Kód banky";"Název protiúčtu";"VS";"Zpráva pro příjemce"',
+      '"2612345";"15.06.2024";"250,00";"CZK";"1234567";"0800";"NOVÁK JAN";"1234567890";"volejbal"',
+      '"2612346";"16.06.2024";"-1 200,00";"CZK";"";"";"";"";"pronájem"',
+    ].join('\n');
+
+    const transactions = parseCsvStatement(csv);
+
+    expect(transactions).toEqual([
+      {
+        id: '2612345',
+        date: '2024-06-15',
+        amount: 250,
+        variableSymbol: '1234567890',
+        counterpartyName: 'NOVÁK JAN',
+        counterpartyAccount: '1234567/0800',
+        message: 'volejbal',
+      },
+      {
+        id: '2612346',
+        date: '2024-06-16',
+        amount: -1200,
+        variableSymbol: undefined,
+        counterpartyName: undefined,
+        counterpartyAccount: undefined,
+        message: 'pronájem',
+      },
+    ]);
+  });
+
+  it('handles comma-separated exports with quoted cells', () => {
+    const csv = 'Date,Amount,Variable symbol,Counterparty name\n2024-06-15,250.00,42,"Novák, Jan"';
+
+    const [transaction] = parseCsvStatement(csv);
+
+    expect(transaction).toMatchObject({ id: 'row-1', amount: 250, variableSymbol: '42', counterpartyName: 'Novák, Jan' });
+  });
+
+  it('rejects files without an amount column', () => {
+    expect(() => parseCsvStatement('Datum;Poznámka\n15.06.2024;nic')).toThrow('Ve výpisu chybí sloupec s částkou.');
+  });
+});
+
+describe('parseGpcStatement', () => {
+  const gpcLine = (fields: {
+    account: string; id: string; amount: number; code: string; vs: string; bankCode: string; date: string; name: string;
+  }) =>
+    '075' +
+    '0000002001234567' +
+    fields.account.padStart(16, '0') +
+    fields.id.padStart(13, '0') +
+    String(Math.round(fields.amount * 100)).padStart(12, '0') +
+    fields.code +
+    fields.vs.padStart(10, '0') +
+    ('00' + fields.bankCode + '0308') +
+    '0000000000' +
+    fields.date +
+    fields.name.padEnd(20, ' ') +
+    '00203' +
+    '150624';
+
+  it('reads transactions and their message lines', () => {
+    const content = [
+      '0740000002001234567FIO               010624000000000000+000000000000+000000000000000000000000000000001150624',
+      gpcLine({ account: '0000190001234567', id: '2612345', amount: 250, code: '2', vs: '1234567890', bankCode: '0800', date: '150624', name: 'NOVAK JAN' }),
+      '078volejbal 15.6.',
+      gpcLine({ account: '0', id: '2612346', amount: 1200, code: '1', vs: '0', bankCode: '0000', date: '160624', name: '' }),
+    ].join('\r\n');
+
+    const transactions = parseGpcStatement(content);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0]).toEqual({
+      id: '0000002612345',
+      date: '2024-06-15',
+      amount: 250,
+      variableSymbol: '1234567890',
+      counterpartyAccount: '19-1234567/0800',
+      counterpartyName: 'NOVAK JAN',
+      message: 'volejbal 15.6.',
+    });
+    expect(transactions[1]).toMatchObject({ amount: -1200, variableSymbol: undefined, counterpartyAccount: undefined });
+  });
+
+  it('rejects statements without transactions', () => {
+    expect(() => parseGpcStatement('074000000200123')).toThrow('neobsahuje žádné transakce');
+  });
+});
+
+describe('parseCamtStatement', () => {
+  const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt><Stmt>
+    <Ntry>
+      <NtryRef>1</NtryRef>
+      <Amt Ccy="CZK">250.00</Amt>
+      <CdtDbtInd>CRDT</CdtDbtInd>
+      <BookgDt><Dt>2024-06-15</Dt></BookgDt>
+      <AcctSvcrRef>2612345</AcctSvcrRef>
+      <NtryDtls><TxDtls>
+        <Refs><EndToEndId>VS:1234567890/SS:/KS:0308</EndToEndId></Refs>
+        <RltdPties>
+          <Dbtr><Nm>Jan Novák</Nm></Dbtr>
+          <DbtrAcct><Id><IBAN>CZ6508000000192000145399</IBAN></Id></DbtrAcct>
+          <Cdtr><Nm>Pořadatel</Nm></Cdtr>
+        </RltdPties>
+        <RmtInf><Ustrd>volejbal</Ustrd></RmtInf>
+      </TxDtls></NtryDtls>
+    </Ntry>
+    <Ntry>
+      <Amt Ccy="CZK">1200.00</Amt>
+      <CdtDbtInd>DBIT</CdtDbtInd>
+      <BookgDt><Dt>2024-06-16</Dt></BookgDt>
+      <NtryDtls><TxDtls>
+        <Refs><EndToEndId>0000042</EndToEndId></Refs>
+        <RltdPties><Cdtr><Nm>Sportovní hala</Nm></Cdtr></RltdPties>
+      </TxDtls></NtryDtls>
+    </Ntry>
+  </Stmt></BkToCstmrStmt>
+</Document>`;
+
+  it('reads credit and debit entries', () => {
+    const transactions = parseCamtStatement(camt);
+
+    expect(transactions).toEqual([
+      {
+        id: '2612345',
+        date: '2024-06-15',
+        amount: 250,
+        variableSymbol: '1234567890',
+        counterpartyName: 'Jan Novák',
+        counterpartyAccount: 'CZ6508000000192000145399',
+        message: 'volejbal',
+      },
+      {
+        id: 'row-2',
+        date: '2024-06-16',
+        amount: -1200,
+        variableSymbol: '42',
+        counterpartyName: 'Sportovní hala',
+        counterpartyAccount: undefined,
+        message: undefined,
+      },
+    ]);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseCamtStatement('<Document><Ntry>')).toThrow('neplatné XML');
+  });
+
+  it('is picked by parseStatement', () => {
+    expect(parseStatement(`\uFEFF${camt}`)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,251 @@
+import { BankTransaction, StatementFormat } from '../types';
+
+/**
+ * Parsers for bank statements exported by Czech banks:
+ *   - CSV (Fio, KB, ČSOB, Air Bank, Raiffeisen… — columns detected by header name)
+ *   - ABO/GPC fixed-width text (`074` header, `075` transactions, `078`/`079` messages)
+ *   - CAMT.053 XML (ISO 20022)
+ * Every parser returns all booked transactions; incoming payments have a positive amount.
+ */
+
+const normalize = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/** Variable symbol without leading zeros, or undefined when empty */
+export const normalizeVariableSymbol = (value: string | undefined | null): string | undefined => {
+  const digits = (value ?? '').replace(/\D/g, '').replace(/^0+/, '');
+  return digits || undefined;
+};
+
+/** "1 234,50", "-200,00 CZK", "1234.5" → number */
+export const parseAmount = (value: string): number => {
+  let s = value.replace(/[\s\u00a0]/g, '').replace(/CZK|Kč/gi, '');
+  if (/,\d{1,2}$/.test(s)) {
+    s = s.replace(/\./g, '').replace(',', '.');
+  } else {
+    s = s.replace(/,/g, '');
+  }
+  return Number(s);
+};
+
+/** "15.06.2024", "15.6.2024", "2024-06-15", "150624" (GPC) → "2024-06-15" */
+export const parseStatementDate = (value: string): string | undefined => {
+  const s = value.trim();
+  let match = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = s.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  match = s.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (match) return `20${match[3]}-${match[2]}-${match[1]}`;
+  return undefined;
+};
+
+export function detectStatementFormat(content: string): StatementFormat {
+  const start = content.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('<')) return 'camt';
+  if (start.startsWith('074')) return 'gpc';
+  return 'csv';
+}
+
+/**
+ * Statement files are UTF-8 or (GPC and older CSV exports) Windows-1250.
+ */
+export function decodeStatement(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1250').decode(buffer);
+  }
+}
+
+export function parseStatement(content: string): BankTransaction[] {
+  const text = content.replace(/^\uFEFF/, '');
+  switch (detectStatementFormat(text)) {
+    case 'camt':
+      return parseCamtStatement(text);
+    case 'gpc':
+      return parseGpcStatement(text);
+    default:
+      return parseCsvStatement(text);
+  }
+}
+
+// --- CSV ---
+
+const CSV_COLUMNS = {
+  id: ['id pohybu', 'id transakce', 'transaction id', 'reference banky'],
+  date: ['datum', 'date', 'datum zauctovani', 'datum provedeni', 'datum transakce', 'booking date', 'datum splatnosti'],
+  amount: ['objem', 'castka', 'amount', 'zauctovana castka', 'castka v mene uctu'],
+  variableSymbol: ['vs', 'variabilni symbol', 'variable symbol'],
+  counterpartyName: ['nazev protiuctu', 'nazev protistrany', 'protistrana', 'nazev uctu protistrany', 'jmeno protistrany', 'counterparty name'],
+  counterpartyAccount: ['protiucet', 'cislo protiuctu', 'cislo uctu protistrany', 'counterparty account'],
+  bankCode: ['kod banky', 'kod banky protiuctu', 'bank code'],
+  message: ['zprava pro prijemce', 'zprava', 'poznamka', 'popis', 'message', 'informace pro prijemce', 'popis transakce'],
+};
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map(c => c.trim());
+}
+
+export function parseCsvStatement(content: string): BankTransaction[] {
+  const lines = content.split(/\r?\n/).filter(l => l.trim());
+  const delimiter = [';', '\t', ','].find(d => lines.some(l => l.includes(d))) ?? ';';
+
+  // Fio and others put account info above the header — find the first row naming an amount column
+  const headerIndex = lines.findIndex(line =>
+    splitCsvLine(line, delimiter).some(cell => CSV_COLUMNS.amount.includes(normalize(cell))),
+  );
+  if (headerIndex === -1) {
+    throw new Error('Ve výpisu chybí sloupec s částkou.');
+  }
+
+  const header = splitCsvLine(lines[headerIndex], delimiter).map(normalize);
+  const column = (key: CsvColumn) => header.findIndex(h => CSV_COLUMNS[key].includes(h));
+  const idx = Object.fromEntries(
+    (Object.keys(CSV_COLUMNS) as CsvColumn[]).map(key => [key, column(key)]),
+  ) as Record<CsvColumn, number>;
+
+  const transactions: BankTransaction[] = [];
+  lines.slice(headerIndex + 1).forEach((line, row) => {
+    const cells = splitCsvLine(line, delimiter);
+    const cell = (i: number) => (i >= 0 ? cells[i] ?? '' : '');
+    const amount = parseAmount(cell(idx.amount));
+    if (!cell(idx.amount) || Number.isNaN(amount)) return;
+
+    const account = cell(idx.counterpartyAccount);
+    const bankCode = cell(idx.bankCode);
+    transactions.push({
+      id: cell(idx.id) || `row-${row + 1}`,
+      date: parseStatementDate(cell(idx.date)),
+      amount,
+      variableSymbol: normalizeVariableSymbol(cell(idx.variableSymbol)),
+      counterpartyName: cell(idx.counterpartyName) || undefined,
+      counterpartyAccount: account ? (bankCode && !account.includes('/') ? `${account}/${bankCode}` : account) : undefined,
+      message: cell(idx.message) || undefined,
+    });
+  });
+  return transactions;
+}
+
+// --- ABO / GPC ---
+
+/** Debit (1) and reversed credit (5) move money out of the account */
+const GPC_OUTGOING_CODES = ['1', '5'];
+
+function formatGpcAccount(raw: string, bankCode: string): string | undefined {
+  const digits = raw.trim();
+  if (!digits || /^0+$/.test(digits)) return undefined;
+  const prefix = digits.slice(0, 6).replace(/^0+/, '');
+  const number = digits.slice(6).replace(/^0+/, '');
+  const code = bankCode.trim();
+  return `${prefix ? `${prefix}-` : ''}${number}${code && !/^0+$/.test(code) ? `/${code}` : ''}`;
+}
+
+export function parseGpcStatement(content: string): BankTransaction[] {
+  const transactions: BankTransaction[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const type = line.slice(0, 3);
+    if (type === '075') {
+      const amount = Number(line.slice(48, 60)) / 100;
+      const code = line.charAt(60);
+      transactions.push({
+        id: line.slice(35, 48).trim() || `row-${transactions.length + 1}`,
+        date: parseStatementDate(line.slice(91, 97)),
+        amount: GPC_OUTGOING_CODES.includes(code) ? -amount : amount,
+        variableSymbol: normalizeVariableSymbol(line.slice(61, 71)),
+        counterpartyAccount: formatGpcAccount(line.slice(19, 35), line.slice(73, 77)),
+        counterpartyName: line.slice(97, 117).trim() || undefined,
+      });
+    } else if ((type === '078' || type === '079') && transactions.length > 0) {
+      // Message lines (AV fields) belong to the preceding transaction
+      const last = transactions[transactions.length - 1];
+      const text = [line.slice(3, 38), line.slice(38, 73)].map(s => s.trim()).filter(Boolean).join(' ');
+      if (text) last.message = last.message ? `${last.message} ${text}` : text;
+    }
+  }
+
+  if (transactions.length === 0) {
+    throw new Error('Výpis ve formátu ABO/GPC neobsahuje žádné transakce.');
+  }
+  return transactions;
+}
+
+// --- CAMT.053 ---
+
+/** First descendant with the given local names, in order (namespace-agnostic) */
+function find(el: Element | null | undefined, ...path: string[]): Element | undefined {
+  let current: Element | undefined = el ?? undefined;
+  for (const name of path) {
+    if (!current) return undefined;
+    current = Array.from(current.getElementsByTagNameNS('*', name))[0];
+  }
+  return current;
+}
+
+const text = (el: Element | undefined): string => el?.textContent?.trim() ?? '';
+
+/** Czech banks send the VS in EndToEndId or a structured reference like "VS:123/SS:/KS:" */
+function camtVariableSymbol(entry: Element): string | undefined {
+  const candidates = [
+    text(find(entry, 'Refs', 'EndToEndId')),
+    text(find(entry, 'CdtrRefInf', 'Ref')),
+    text(find(entry, 'RmtInf', 'Ustrd')),
+  ];
+  for (const candidate of candidates) {
+    const tagged = candidate.match(/VS[:\s]*(\d{1,10})/i);
+    if (tagged) return normalizeVariableSymbol(tagged[1]);
+  }
+  const plain = candidates.slice(0, 2).find(c => /^\d{1,10}$/.test(c));
+  return normalizeVariableSymbol(plain);
+}
+
+export function parseCamtStatement(content: string): BankTransaction[] {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Soubor CAMT.053 nelze načíst — neplatné XML.');
+  }
+
+  return Array.from(doc.getElementsByTagNameNS('*', 'Ntry')).map((entry, i) => {
+    const amount = parseAmount(text(find(entry, 'Amt')));
+    const isCredit = text(find(entry, 'CdtDbtInd')) === 'CRDT';
+    // The other party is the debtor of an incoming payment and the creditor of an outgoing one
+    const party = isCredit ? 'Dbtr' : 'Cdtr';
+    const partyAccount = find(entry, 'RltdPties', `${party}Acct`);
+    return {
+      id: text(find(entry, 'AcctSvcrRef')) || text(find(entry, 'NtryRef')) || `row-${i + 1}`,
+      date: parseStatementDate(text(find(entry, 'BookgDt', 'Dt')) || text(find(entry, 'ValDt', 'Dt'))),
+      amount: isCredit ? amount : -amount,
+      variableSymbol: camtVariableSymbol(entry),
+      counterpartyName: text(find(entry, 'RltdPties', party, 'Nm')) || undefined,
+      counterpartyAccount: text(find(partyAccount, 'IBAN')) || text(find(partyAccount, 'Othr', 'Id')) || undefined,
+      message: text(find(entry, 'RmtInf', 'Ustrd')) || undefined,
+    };
+  });
+}
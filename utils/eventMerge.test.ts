@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { changedFields, keepMine, mergeEventChanges } from './eventMerge';
+import { SportEvent } from '../types';
+
+const base: SportEvent = {
+  id: 'e1',
+  title: 'Pondělní volejbal',
+  date: '2025-03-03',
+  time: '18:00',
+  location: 'Hala',
+  totalCost: 1000,
+  accountNumber: '',
+  participants: [],
+  version: 3,
+  teams: [[{ userId: 'u1', name: 'Jan' }], [{ userId: 'u2', name: 'Petr' }]],
+};
+
+const swappedTeams: SportEvent['teams'] = [[{ userId: 'u2', name: 'Petr' }], [{ userId: 'u1', name: 'Jan' }]];
+
+describe('eventMerge', () => {
+  it('lists changed fields, ignoring version and participants', () => {
+    const next = { ...base, version: 4, participants: [{ userId: 'u1', name: 'Jan', status: 'joined' as const, hasPaid: false }], score: [[25, 20]] as [number, number][] };
+    expect(changedFields(base, next)).toEqual(['score']);
+  });
+
+  it('merges changes of different fields without conflicts', () => {
+    const mine = { ...base, score: [[25, 20]] as [number, number][] };
+    const theirs = { ...base, version: 4, teams: swappedTeams };
+
+    const { merged, conflicts } = mergeEventChanges(base, mine, theirs);
+    expect(conflicts).toEqual([]);
+    expect(merged.teams).toEqual(swappedTeams);
+    expect(merged.score).toEqual([[25, 20]]);
+    expect(merged.version).toBe(4);
+  });
+
+  it('reports fields both sides changed differently and keeps theirs', () => {
+    const mine = { ...base, totalCost: 1200, title: 'Volejbal' };
+    const theirs = { ...base, version: 4, totalCost: 900 };
+
+    const merge = mergeEventChanges(base, mine, theirs);
+    expect(merge.conflicts).toEqual(['totalCost']);
+    expect(merge.merged.totalCost).toBe(900);
+    expect(merge.merged.title).toBe('Volejbal');
+
+    expect(keepMine(merge, mine).totalCost).toBe(1200);
+  });
+
+  it('treats the same change on both sides as no conflict', () => {
+    const mine = { ...base, winningTeam: 1 as const };
+    const theirs = { ...base, version: 4, winningTeam: 1 as const };
+
+    expect(mergeEventChanges(base, mine, theirs).conflicts).toEqual([]);
+  });
+
+  it('carries cleared fields over', () => {
+    const mine = { ...base, teams: undefined };
+    const theirs = { ...base, version: 4, location: 'Tělocvična' };
+
+    const { merged } = mergeEventChanges(base, mine, theirs);
+    expect(merged.teams).toBeUndefined();
+    expect(merged.location).toBe('Tělocvična');
+  });
+});
@@ -0,0 +1,60 @@
+import { SportEvent } from '../types';
+
+/**
+ * Three-way merge of an event save the server rejected as stale (409).
+ *
+ *   base   — the event as it was when the edit started
+ *   mine   — what this device tried to save
+ *   theirs — the current server copy
+ *
+ * Fields only one side changed merge on their own, e.g. teams reshuffled on
+ * one phone while the score was typed on another. Fields both sides changed
+ * to different values are conflicts the user has to decide.
+ */
+
+/** Hydrated from attendance or kept by the server — never part of a merge */
+const IGNORED_FIELDS = ['participants', 'version'];
+
+const same = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Fields whose values differ between the two copies */
+export function changedFields(before: SportEvent, after: SportEvent): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(key =>
+    !IGNORED_FIELDS.includes(key) &&
+    !same(before[key as keyof SportEvent], after[key as keyof SportEvent])
+  );
+}
+
+export interface EventMerge {
+  /** The server copy with every non-conflicting change of mine applied */
+  merged: SportEvent;
+  /** Fields both sides changed differently — `merged` keeps their value */
+  conflicts: string[];
+}
+
+export function mergeEventChanges(base: SportEvent, mine: SportEvent, theirs: SportEvent): EventMerge {
+  const theirChanges = new Set(changedFields(base, theirs));
+  const merged: Record<string, unknown> = { ...theirs };
+  const conflicts: string[] = [];
+
+  for (const key of changedFields(base, mine)) {
+    const value = mine[key as keyof SportEvent];
+    if (theirChanges.has(key) && !same(value, theirs[key as keyof SportEvent])) {
+      conflicts.push(key);
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return { merged: merged as unknown as SportEvent, conflicts };
+}
+
+/** Resolve conflicts in favour of mine — the copy to save over theirs */
+export function keepMine(merge: EventMerge, mine: SportEvent): SportEvent {
+  const resolved: Record<string, unknown> = { ...merge.merged };
+  for (const key of merge.conflicts) {
+    resolved[key] = mine[key as keyof SportEvent];
+  }
+  return resolved as unknown as SportEvent;
+}
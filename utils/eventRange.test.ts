@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { addRange, coversRange, replaceRange, upsertEvents } from './eventRange';
+import { SportEvent } from '../types';
+
+const event = (id: string, date: string, title = 'Trénink'): SportEvent => ({
+  id, title, date, time: '18:00', location: 'Hala', totalCost: 1000, accountNumber: '', participants: [],
+});
+
+describe('eventRange', () => {
+  it('joins ranges that overlap or touch, keeps gaps apart', () => {
+    let ranges = addRange([], { from: '2026-03-01', to: '2026-03-31' });
+    ranges = addRange(ranges, { from: '2026-04-01', to: '2026-04-30' });
+    ranges = addRange(ranges, { from: '2026-06-01' });
+    expect(ranges).toEqual([{ from: '2026-03-01', to: '2026-04-30' }, { from: '2026-06-01', to: undefined }]);
+
+    expect(coversRange(ranges, { from: '2026-03-15', to: '2026-04-10' })).toBe(true);
+    expect(coversRange(ranges, { from: '2026-04-15', to: '2026-05-10' })).toBe(false);
+    expect(coversRange(ranges, { from: '2027-01-01', to: '2027-01-31' })).toBe(true);
+    expect(addRange(ranges, { to: '2026-12-31' })).toEqual([{ from: undefined, to: undefined }]);
+  });
+
+  it('replaces the events of a loaded range and keeps the rest', () => {
+    const current = [event('e1', '2026-03-02', 'Old'), event('e2', '2026-03-09'), event('e3', '2026-05-04')];
+    const fresh = [event('e1', '2026-03-02', 'New'), event('e4', '2026-03-16')];
+
+    const merged = replaceRange(current, fresh, { from: '2026-03-01', to: '2026-03-31' });
+    expect(merged.map(e => `${e.id} ${e.title}`)).toEqual(['e3 Trénink', 'e1 New', 'e4 Trénink']);
+    expect(upsertEvents(current, fresh).map(e => e.id)).toEqual(['e2', 'e3', 'e1', 'e4']);
+  });
+});
@@ -0,0 +1,62 @@
+import { addDays, format } from 'date-fns';
+import { SportEvent } from '../types';
+
+/**
+ * Bookkeeping of which dates the app has loaded events for — it only loads
+ * what is on screen (see hooks/useDataLoading.ts), so it has to know which
+ * ranges are complete and which are not.
+ */
+
+/** Inclusive YYYY-MM-DD dates; a missing end is open */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export const toIsoDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const shiftDate = (date: string, days: number): string => toIsoDate(addDays(new Date(date + 'T00:00:00'), days));
+
+export const dayBefore = (date: string): string => shiftDate(date, -1);
+
+const inRange = (date: string, range: DateRange): boolean =>
+  (!range.from || date >= range.from) && (!range.to || date <= range.to);
+
+/** Add `range` to a list of loaded ranges, joining those that overlap or touch */
+export function addRange(ranges: DateRange[], range: DateRange): DateRange[] {
+  if (range.from && range.to && range.from > range.to) return ranges;
+
+  let joined = range;
+  const rest: DateRange[] = [];
+  for (const other of ranges) {
+    const apart = (joined.to && other.from && shiftDate(joined.to, 1) < other.from)
+      || (other.to && joined.from && shiftDate(other.to, 1) < joined.from);
+    if (apart) {
+      rest.push(other);
+    } else {
+      joined = {
+        from: joined.from && other.from ? (joined.from < other.from ? joined.from : other.from) : undefined,
+        to: joined.to && other.to ? (joined.to > other.to ? joined.to : other.to) : undefined,
+      };
+    }
+  }
+  return [...rest, joined].sort((a, b) => (a.from ?? '').localeCompare(b.from ?? ''));
+}
+
+/** Whether the whole of `range` is loaded */
+export function coversRange(ranges: DateRange[], range: DateRange): boolean {
+  return ranges.some(loaded =>
+    (!loaded.from || (range.from !== undefined && range.from >= loaded.from))
+    && (!loaded.to || (range.to !== undefined && range.to <= loaded.to)));
+}
+
+/** Put fresh copies of events in place and add the new ones */
+export function upsertEvents(current: SportEvent[], fresh: SportEvent[]): SportEvent[] {
+  const freshIds = new Set(fresh.map(e => e.id));
+  return [...current.filter(e => !freshIds.has(e.id)), ...fresh];
+}
+
+/** The complete events of `range` replace those on screen — any missing from `fresh` were deleted */
+export function replaceRange(current: SportEvent[], fresh: SportEvent[], range: DateRange): SportEvent[] {
+  return upsertEvents(current.filter(e => !inRange(e.date, range)), fresh);
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createSseParser, mergeChangedEvents, SseMessage } from './liveSync';
+import { SportEvent } from '../types';
+
+const parseAll = (chunks: string[]): SseMessage[] => {
+  const messages: SseMessage[] = [];
+  const parse = createSseParser(message => messages.push(message));
+  chunks.forEach(parse);
+  return messages;
+};
+
+const event = (id: string, title: string): SportEvent => ({
+  id, title, date: '2025-03-01', time: '18:00', location: 'Hala', totalCost: 1000, accountNumber: '', participants: [],
+});
+
+describe('liveSync', () => {
+  describe('createSseParser', () => {
+    it('parses named events with id and data', () => {
+      expect(parseAll(['id: 7\nevent: change\ndata: {"eventId":"e1"}\n\n'])).toEqual([
+        { id: '7', event: 'change', data: '{"eventId":"e1"}' },
+      ]);
+    });
+
+    it('joins chunks split mid-line and skips comments', () => {
+      const messages = parseAll([': ping\n\nevent: pres', 'ence\ndata: {"userIds":', '["u1"]}\r\n', '\r\n']);
+      expect(messages).toEqual([{ event: 'presence', data: '{"userIds":["u1"]}' }]);
+    });
+
+    it('defaults to the message event and joins multi-line data', () => {
+      expect(parseAll(['data: a\ndata: b\n\n'])).toEqual([{ event: 'message', data: 'a\nb' }]);
+    });
+
+    it('reports the retry delay', () => {
+      expect(parseAll(['retry: 3000\n\n'])).toEqual([{ event: 'message', data: '', retry: 3000 }]);
+    });
+
+    it('waits for the blank line before dispatching', () => {
+      expect(parseAll(['event: change\ndata: {}\n'])).toEqual([]);
+    });
+  });
+
+  describe('mergeChangedEvents', () => {
+    it('takes only the changed events from the fresh list', () => {
+      const current = [event('e1', 'Local edit'), event('e2', 'Old')];
+      const fresh = [event('e1', 'Server'), event('e2', 'New')];
+
+      expect(mergeChangedEvents(current, fresh, new Set(['e2'])).map(e => e.title)).toEqual(['Local edit', 'New']);
+    });
+
+    it('adds created and drops deleted events', () => {
+      const current = [event('e1', 'Stays'), event('e2', 'Deleted')];
+      const fresh = [event('e1', 'Stays'), event('e3', 'Created')];
+
+      expect(mergeChangedEvents(current, fresh, new Set(['e2', 'e3'])).map(e => e.id)).toEqual(['e1', 'e3']);
+    });
+  });
+});
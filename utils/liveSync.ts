@@ -0,0 +1,68 @@
+import { SportEvent } from '../types';
+
+/**
+ * Helpers for the live sync over /api/stream. The stream is read with
+ * fetch() rather than EventSource, which can't send the Authorization and
+ * X-Group-Id headers — so the Server-Sent Events framing is parsed here.
+ */
+
+export interface SseMessage {
+  /** `message` when the block has no `event:` field */
+  event: string;
+  data: string;
+  id?: string;
+  /** Reconnection delay the server asked for, in ms */
+  retry?: number;
+}
+
+/**
+ * Incremental SSE parser — feed it text chunks as they arrive, split
+ * anywhere; every complete block is passed to `onMessage`. Comment lines
+ * (`: ping`) are skipped.
+ */
+export function createSseParser(onMessage: (message: SseMessage) => void): (chunk: string) => void {
+  let buffer = '';
+  let message: Partial<SseMessage> & { dataLines: string[] } = { dataLines: [] };
+
+  const dispatch = () => {
+    const { dataLines, ...fields } = message;
+    if (dataLines.length > 0 || fields.id !== undefined || fields.retry !== undefined) {
+      onMessage({ ...fields, event: fields.event ?? 'message', data: dataLines.join('\n') });
+    }
+    message = { dataLines: [] };
+  };
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r\n|\r|\n/);
+    // The last piece may be an unfinished line — keep it for the next chunk
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        dispatch();
+        continue;
+      }
+      if (line.startsWith(':')) continue;
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'data') message.dataLines.push(value);
+      else if (field === 'event') message.event = value;
+      else if (field === 'id') message.id = value;
+      else if (field === 'retry' && /^\d+$/.test(value)) message.retry = Number(value);
+    }
+  };
+}
+
+/**
+ * Take the changed events from a fresh load and keep everything else as it
+ * is on screen, so an edit still on its way to the server isn't overwritten.
+ * Changed events missing from the fresh list were deleted.
+ */
+export function mergeChangedEvents(current: SportEvent[], fresh: SportEvent[], changedIds: Set<string>): SportEvent[] {
+  const currentById = new Map(current.map(e => [e.id, e]));
+  return fresh.map(e => (changedIds.has(e.id) ? e : currentById.get(e.id) ?? e));
+}
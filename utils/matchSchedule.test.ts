@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { computeStandings, currentRound, nextMatch, recordMatchWinner, roundMatches, roundRobinPairs } from './matchSchedule';
+import { RoundMatch, SportEvent, TeamMember } from '../types';
+
+const tm = (id: string): TeamMember => ({ userId: id, name: `Player ${id}` });
+
+const event = (teamCount: number, extra: Partial<SportEvent> = {}): SportEvent => ({
+  id: 'e1', title: 'Trénink', date: '2026-03-02', time: '18:00', location: 'Hala', totalCost: 1000, accountNumber: '', participants: [],
+  teams: Array.from({ length: teamCount }, (_, i) => [tm(`p${i}`)]),
+  ...extra,
+});
+
+describe('roundRobinPairs', () => {
+  it('pairs every team with every other once, rotating who sits out', () => {
+    expect(roundRobinPairs(3)).toEqual([[1, 2], [0, 2], [0, 1]]);
+    const pairs = roundRobinPairs(4);
+    expect(pairs).toHaveLength(6);
+    expect(new Set(pairs.map(p => p.join('-'))).size).toBe(6);
+  });
+});
+
+describe('nextMatch', () => {
+  it('walks through the round-robin and ends after the last pairing', () => {
+    const played: RoundMatch[] = [];
+    for (const pair of [[1, 2], [0, 2], [0, 1]]) {
+      expect(nextMatch(3, 'round-robin', played)).toEqual(pair);
+      played.push({ teams: pair as [number, number], winner: 0 });
+    }
+    expect(nextMatch(3, 'round-robin', played)).toBeNull();
+  });
+
+  it('keeps the winner on and sends the loser to the back of the queue', () => {
+    // 0 beats 1, then 2 beats 0, then 2 beats 3
+    const played: RoundMatch[] = [
+      { teams: [0, 1], winner: 0 },
+      { teams: [0, 2], winner: 1 },
+      { teams: [2, 3], winner: 0 },
+    ];
+    expect(nextMatch(4, 'winner-stays', [])).toEqual([0, 1]);
+    expect(nextMatch(4, 'winner-stays', played.slice(0, 1))).toEqual([0, 2]);
+    expect(nextMatch(4, 'winner-stays', played.slice(0, 2))).toEqual([2, 3]);
+    expect(nextMatch(4, 'king-of-the-court', played)).toEqual([2, 1]);
+  });
+});
+
+describe('recordMatchWinner', () => {
+  it('sets the winner of a two-team round', () => {
+    expect(recordMatchWinner(event(2), 1).winningTeam).toBe(1);
+  });
+
+  it('records the match on court with its score and clears the score for the next one', () => {
+    const updated = recordMatchWinner(event(3, { score: [[25, 20]] }), 2);
+    expect(updated.matches).toEqual([{ teams: [1, 2], winner: 1, score: [[25, 20]] }]);
+    expect(updated.score).toBeUndefined();
+    expect(updated.winningTeam).toBeUndefined();
+  });
+
+  it('ignores a team that is not on court', () => {
+    const before = event(3);
+    expect(recordMatchWinner(before, 0)).toBe(before);
+  });
+});
+
+describe('roundMatches / currentRound', () => {
+  it('resolves the players of every match', () => {
+    const e = event(3, { matches: [{ teams: [1, 2], winner: 1 }] });
+    expect(roundMatches(currentRound(e)!)).toEqual([{ teams: [[tm('p1')], [tm('p2')]], winner: 1, score: undefined }]);
+  });
+
+  it('has no current round until something is decided', () => {
+    expect(currentRound(event(3))).toBeNull();
+    expect(currentRound(event(2))).toBeNull();
+    expect(currentRound(event(2, { winningTeam: 0 }))?.winningTeam).toBe(0);
+  });
+});
+
+describe('computeStandings', () => {
+  const matches: RoundMatch[] = [
+    { teams: [0, 1], winner: 0, score: [[25, 20], [25, 23]] },
+    { teams: [0, 2], winner: 1, score: [[20, 25], [25, 22], [10, 15]] },
+    { teams: [2, 1], winner: 0, score: [[25, 10], [25, 12]] },
+  ];
+
+  it('ranks by points, then set and point difference', () => {
+    const table = computeStandings({ teams: [[], [], []], matchFormat: 'winner-stays', matches });
+    expect(table.map(s => [s.team, s.points])).toEqual([[2, 2], [0, 1], [1, 0]]);
+    expect(table[0]).toMatchObject({ played: 2, won: 2, setsWon: 4, setsLost: 1, pointsFor: 112, pointsAgainst: 77 });
+  });
+
+  it('scores king of the court only for defending the court', () => {
+    const table = computeStandings({ teams: [[], [], []], matchFormat: 'king-of-the-court', matches });
+    // 0 defends against 1, 2 takes the court from 0 without a point, then defends against 1
+    expect(table.map(s => [s.team, s.points])).toEqual([[2, 1], [0, 1], [1, 0]]);
+  });
+});
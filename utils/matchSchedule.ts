@@ -0,0 +1,170 @@
+import { GameRound, MatchFormat, RoundMatch, SportEvent, TeamMember } from '../types';
+
+/**
+ * Who plays whom when a round has more than two teams. Pure functions — the
+ * round keeps the matches played so far in `matches` and the next pairing
+ * is always derived from them, so any device can continue the round.
+ *
+ *   - round-robin: every team plays every other once (circle method, the
+ *     team sitting out rotates), the round is over after the last pairing
+ *   - winner-stays: the winner stays on, the loser goes to the back of the
+ *     queue and the next team in line comes on; every win scores a point
+ *   - king-of-the-court: the same rotation, but only the king's side (home)
+ *     scores — a challenger who wins takes over the court without a point
+ *
+ * A round of two teams has no schedule: its result is `winningTeam` and
+ * `score`, as it always was.
+ */
+
+export const MATCH_FORMAT_LABELS: Record<MatchFormat, string> = {
+  'round-robin': 'Každý s každým',
+  'winner-stays': 'Vítěz zůstává',
+  'king-of-the-court': 'Král kurtu',
+};
+
+export const DEFAULT_MATCH_FORMAT: MatchFormat = 'round-robin';
+
+/** A match with its players resolved — what the statistics and ratings count */
+export interface PlayedMatch {
+  teams: [TeamMember[], TeamMember[]];
+  winner: 0 | 1;
+  score?: [number, number][];
+}
+
+export interface TeamStanding {
+  team: number;
+  played: number;
+  won: number;
+  lost: number;
+  points: number;
+  setsWon: number;
+  setsLost: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+export const teamName = (round: Pick<GameRound, 'teamNames'>, idx: number): string =>
+  round.teamNames?.[idx] ?? `Tým ${idx + 1}`;
+
+/** All pairings of a round-robin in playing order */
+export function roundRobinPairs(teamCount: number): [number, number][] {
+  const BYE = -1;
+  let order = Array.from({ length: teamCount }, (_, i) => i);
+  if (teamCount % 2 === 1) order.push(BYE);
+  const pairs: [number, number][] = [];
+  for (let r = 0; r < order.length - 1; r++) {
+    for (let i = 0; i < order.length / 2; i++) {
+      const a = order[i];
+      const b = order[order.length - 1 - i];
+      if (a !== BYE && b !== BYE) pairs.push([Math.min(a, b), Math.max(a, b)]);
+    }
+    order = [order[0], order[order.length - 1], ...order.slice(1, -1)];
+  }
+  return pairs;
+}
+
+const samePair = (a: [number, number], b: [number, number]) =>
+  (a[0] === b[0] && a[1] === b[1]) || (a[0] === b[1] && a[1] === b[0]);
+
+/** The pairing to play next, home side first — null once a round-robin is complete */
+export function nextMatch(teamCount: number, format: MatchFormat, matches: RoundMatch[]): [number, number] | null {
+  if (teamCount < 2) return null;
+  if (format === 'round-robin') {
+    return roundRobinPairs(teamCount).find(pair => !matches.some(m => samePair(m.teams, pair))) ?? null;
+  }
+
+  // Winner stays on (as the home side), loser to the back of the queue
+  let onCourt: [number, number] = [0, 1];
+  let queue = Array.from({ length: teamCount - 2 }, (_, i) => i + 2);
+  for (const m of matches) {
+    const winner = m.teams[m.winner];
+    const loser = m.teams[1 - m.winner];
+    queue = [...queue.filter(t => t !== winner && t !== loser), loser];
+    onCourt = [winner, queue.shift()!];
+  }
+  return onCourt;
+}
+
+/** The pairing on court now: the two teams, or the schedule's next match */
+export function currentMatch(round: Partial<Pick<GameRound, 'teams' | 'matchFormat' | 'matches'>>): [number, number] | null {
+  const teamCount = round.teams?.length ?? 0;
+  if (teamCount < 2) return null;
+  if (teamCount === 2) return [0, 1];
+  return nextMatch(teamCount, round.matchFormat ?? DEFAULT_MATCH_FORMAT, round.matches ?? []);
+}
+
+/** The matches of a round with a winner, each as two teams of players */
+export function roundMatches(round: GameRound): PlayedMatch[] {
+  if (!Array.isArray(round.teams)) return [];
+  if (round.teams.length <= 2) {
+    if (round.winningTeam === undefined || !round.teams[0] || !round.teams[1]) return [];
+    return [{ teams: [round.teams[0], round.teams[1]], winner: round.winningTeam, score: round.score }];
+  }
+  return (round.matches ?? [])
+    .filter(m => round.teams[m.teams[0]] && round.teams[m.teams[1]])
+    .map(m => ({ teams: [round.teams[m.teams[0]], round.teams[m.teams[1]]], winner: m.winner, score: m.score }));
+}
+
+/**
+ * The event's current round once something in it was decided, as it goes
+ * into the game history. The score of a match still being played stays out.
+ */
+export function currentRound(event: SportEvent): GameRound | null {
+  if (!event.teams) return null;
+  const round: GameRound = event.teams.length > 2
+    ? { teams: event.teams, teamNames: event.teamNames, matchFormat: event.matchFormat ?? DEFAULT_MATCH_FORMAT, matches: event.matches }
+    : { teams: event.teams, teamNames: event.teamNames, winningTeam: event.winningTeam, score: event.score };
+  return roundMatches(round).length > 0 ? round : null;
+}
+
+/**
+ * Record the winner of the match on court. Two teams: the round's winner.
+ * More teams: the match goes into `matches` with the score entered for it,
+ * and the next pairing starts from a blank score.
+ */
+export function recordMatchWinner(event: SportEvent, teamIdx: number): SportEvent {
+  const pair = currentMatch(event);
+  if (!pair || !pair.includes(teamIdx)) return event;
+  const winner = pair.indexOf(teamIdx) as 0 | 1;
+  if (event.teams!.length === 2) return { ...event, winningTeam: winner };
+  const match: RoundMatch = { teams: pair, winner, ...(event.score?.length ? { score: event.score } : {}) };
+  return { ...event, matches: [...(event.matches ?? []), match], score: undefined };
+}
+
+/**
+ * The table of a round of more than two teams: points, then wins, set
+ * difference and point difference, then the team order.
+ */
+export function computeStandings(round: Pick<GameRound, 'teams' | 'matchFormat' | 'matches'>): TeamStanding[] {
+  const format = round.matchFormat ?? DEFAULT_MATCH_FORMAT;
+  const table: TeamStanding[] = round.teams.map((_, team) => ({
+    team, played: 0, won: 0, lost: 0, points: 0, setsWon: 0, setsLost: 0, pointsFor: 0, pointsAgainst: 0,
+  }));
+
+  for (const m of round.matches ?? []) {
+    const sides = [table[m.teams[0]], table[m.teams[1]]];
+    if (!sides[0] || !sides[1]) continue;
+    sides.forEach((s, side) => {
+      s.played++;
+      if (side === m.winner) s.won++;
+      else s.lost++;
+      for (const set of m.score ?? []) {
+        const own = set[side], other = set[1 - side];
+        s.pointsFor += own;
+        s.pointsAgainst += other;
+        if (own > other) s.setsWon++;
+        else if (other > own) s.setsLost++;
+      }
+    });
+    // The king only scores defending the court
+    if (format !== 'king-of-the-court' || m.winner === 0) sides[m.winner].points++;
+  }
+
+  return [...table].sort((a, b) =>
+    b.points - a.points
+    || b.won - a.won
+    || (b.setsWon - b.setsLost) - (a.setsWon - a.setsLost)
+    || (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst)
+    || a.team - b.team,
+  );
+}
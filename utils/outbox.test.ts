@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { applyQueuedWrites, enqueueWrite, QueuedAttendance, QueuedEventCreate, QueuedEventUpdate } from './outbox';
+import { SportEvent } from '../types';
+
+const event: SportEvent = {
+  id: 'e1',
+  title: 'Pondělní volejbal',
+  date: '2025-03-03',
+  time: '18:00',
+  location: 'Hala',
+  totalCost: 1000,
+  accountNumber: '',
+  participants: [{ userId: 'u1', name: 'Jan', status: 'joined', hasPaid: true }],
+  version: 2,
+};
+
+const answer = (userId: string, status: QueuedAttendance['status'], extra: Partial<QueuedAttendance> = {}): QueuedAttendance => ({
+  id: `q-${userId}-${status}`, groupId: 'g1', queuedAt: 1, kind: 'attendance', eventId: 'e1', userId, status, ...extra,
+});
+
+const edit = (changes: Partial<SportEvent>, base?: SportEvent): QueuedEventUpdate => ({
+  id: `q-edit-${Object.keys(changes).join()}`, groupId: 'g1', queuedAt: 2, kind: 'updateEvent', event: { ...event, ...changes }, base,
+});
+
+describe('outbox', () => {
+  it('keeps only the last answer of a player, with the payment flag of an earlier one', () => {
+    let queue = enqueueWrite([], answer('u2', 'joined', { hasPaid: true }));
+    queue = enqueueWrite(queue, answer('u3', 'joined'));
+    queue = enqueueWrite(queue, answer('u2', 'declined'));
+
+    expect(queue).toHaveLength(2);
+    expect(queue[1]).toMatchObject({ userId: 'u2', status: 'declined', hasPaid: true });
+  });
+
+  it('folds an edit into the queued creation of the same event', () => {
+    const create: QueuedEventCreate = { id: 'q-new', groupId: 'g1', queuedAt: 1, kind: 'createEvent', event: { ...event, id: 'e-new' } };
+    const queue = enqueueWrite([create], { ...edit({ location: 'Venku' }), event: { ...event, id: 'e-new', location: 'Venku' } });
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ kind: 'createEvent', event: { id: 'e-new', location: 'Venku' } });
+  });
+
+  it('keeps the first base when an event is edited twice offline', () => {
+    let queue = enqueueWrite([], edit({ location: 'Venku' }, event));
+    queue = enqueueWrite(queue, edit({ totalCost: 1200 }, { ...event, location: 'Venku' }));
+
+    expect(queue).toHaveLength(1);
+    expect((queue[0] as QueuedEventUpdate).base).toBe(event);
+    expect((queue[0] as QueuedEventUpdate).event.totalCost).toBe(1200);
+  });
+
+  it('shows queued writes over the mirrored events', () => {
+    const created: QueuedEventCreate = { id: 'q-new', groupId: 'g1', queuedAt: 3, kind: 'createEvent', event: { ...event, id: 'e-new', participants: [] } };
+    const shown = applyQueuedWrites(
+      [event],
+      [answer('u1', 'declined'), answer('u2', 'joined'), edit({ location: 'Venku' }), created],
+      [{ id: 'u2', name: 'Petr' }],
+    );
+
+    expect(shown.map(e => e.id)).toEqual(['e1', 'e-new']);
+    expect(shown[0].location).toBe('Venku');
+    expect(shown[0].participants).toEqual([
+      { userId: 'u1', name: 'Jan', status: 'declined', hasPaid: true },
+      { userId: 'u2', name: 'Petr', photoUrl: undefined, status: 'joined', hasPaid: false },
+    ]);
+  });
+});
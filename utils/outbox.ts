@@ -0,0 +1,104 @@
+import { Participant, SportEvent, User } from '../types';
+
+/**
+ * Writes made while offline wait in an outbox (kept in IndexedDB by
+ * services/offlineStore.ts) and are replayed in order once the device is
+ * back online. Until then they are laid over the mirrored events, so the
+ * app shows them as if they had been saved.
+ *
+ * Pure functions — storage.ts does the I/O.
+ */
+
+interface QueuedBase {
+  id: string;
+  /** Group the write belongs to — replayed with its X-Group-Id */
+  groupId: string;
+  queuedAt: number;
+}
+
+export interface QueuedAttendance extends QueuedBase {
+  kind: 'attendance';
+  eventId: string;
+  userId: string;
+  status: Participant['status'];
+  hasPaid?: boolean;
+}
+
+export interface QueuedEventUpdate extends QueuedBase {
+  kind: 'updateEvent';
+  event: SportEvent;
+  /** The event as the edit started from it — for the merge when the replay hits a conflict */
+  base?: SportEvent;
+}
+
+export interface QueuedEventCreate extends QueuedBase {
+  kind: 'createEvent';
+  event: SportEvent;
+}
+
+export type QueuedWrite = QueuedAttendance | QueuedEventUpdate | QueuedEventCreate;
+
+/** A queued write the server refused on replay, e.g. the RSVP cut-off passed meanwhile */
+export interface RejectedWrite {
+  write: QueuedWrite;
+  error: string;
+}
+
+/**
+ * Append a write, folding it into an earlier one of the same record:
+ * the last RSVP of a player wins, an event edited before it was ever sent
+ * is created with the edit, repeated edits keep the first base.
+ */
+export function enqueueWrite(queue: QueuedWrite[], write: QueuedWrite): QueuedWrite[] {
+  if (write.kind === 'attendance') {
+    const earlier = queue.find((q): q is QueuedAttendance =>
+      q.kind === 'attendance' && q.eventId === write.eventId && q.userId === write.userId);
+    if (!earlier) return [...queue, write];
+    const merged = { ...write, hasPaid: write.hasPaid ?? earlier.hasPaid };
+    return [...queue.filter(q => q !== earlier), merged];
+  }
+
+  if (write.kind === 'updateEvent') {
+    const earlier = queue.find((q): q is QueuedEventCreate | QueuedEventUpdate =>
+      q.kind !== 'attendance' && q.event.id === write.event.id);
+    if (earlier?.kind === 'createEvent') {
+      return queue.map(q => (q === earlier ? { ...earlier, event: { ...earlier.event, ...write.event } } : q));
+    }
+    if (earlier) {
+      return [...queue.filter(q => q !== earlier), { ...write, base: earlier.base }];
+    }
+  }
+
+  return [...queue, write];
+}
+
+/** The events as they will be once the queued writes of the group reach the server */
+export function applyQueuedWrites(events: SportEvent[], queue: QueuedWrite[], users: User[] = []): SportEvent[] {
+  return queue.reduce<SportEvent[]>((list, write) => {
+    switch (write.kind) {
+      case 'createEvent':
+        return list.some(e => e.id === write.event.id) ? list : [...list, { ...write.event, participants: [] }];
+      case 'updateEvent':
+        return list.map(e => (e.id === write.event.id ? { ...e, ...write.event, participants: e.participants } : e));
+      case 'attendance':
+        return list.map(e => (e.id === write.eventId ? { ...e, participants: withAnswer(e.participants, write, users) } : e));
+    }
+  }, events);
+}
+
+function withAnswer(participants: Participant[], write: QueuedAttendance, users: User[]): Participant[] {
+  const existing = participants.find(p => p.userId === write.userId);
+  if (existing) {
+    return participants.map(p => (p === existing
+      ? { ...p, status: write.status, hasPaid: write.hasPaid ?? p.hasPaid }
+      : p));
+  }
+  const user = users.find(u => u.id === write.userId);
+  return [...participants, {
+    userId: write.userId,
+    name: user?.name ?? 'Neznámý',
+    photoUrl: user?.photoUrl,
+    status: write.status,
+    hasPaid: write.hasPaid ?? false,
+  }];
+}
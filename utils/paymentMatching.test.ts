@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { matchPayments } from './paymentMatching';
+import { getVariableSymbol } from '../shared/variableSymbol';
+import { BankTransaction, SportEvent } from '../types';
+
+describe('getVariableSymbol', () => {
+  it('is deterministic, 10 digits and never starts with zero', () => {
+    const vs = getVariableSymbol('e1', 'u1');
+    expect(vs).toBe(getVariableSymbol('e1', 'u1'));
+    expect(vs).toMatch(/^[1-9]\d{9}$/);
+  });
+
+  it('differs between players and events', () => {
+    expect(getVariableSymbol('e1', 'u1')).not.toBe(getVariableSymbol('e1', 'u2'));
+    expect(getVariableSymbol('e1', 'u1')).not.toBe(getVariableSymbol('e2', 'u1'));
+  });
+
+  it('offers another candidate after a collision', () => {
+    expect(getVariableSymbol('e1', 'u1', 1)).not.toBe(getVariableSymbol('e1', 'u1'));
+    expect(getVariableSymbol('e1', 'u1', 1)).toMatch(/^[1-9]\d{9}$/);
+  });
+});
+
+describe('matchPayments', () => {
+  const makeEvent = (overrides: Partial<SportEvent> = {}): SportEvent => ({
+    id: 'e1',
+    title: 'Game',
+    date: '2026-03-20',
+    time: '18:00',
+    location: 'Hall',
+    totalCost: 1000,
+    accountNumber: '123/0100',
+    participants: [
+      { userId: 'u1', name: 'Jan Novák', status: 'joined', hasPaid: false },
+      { userId: 'u2', name: 'Eva Malá', status: 'joined', hasPaid: false },
+      { userId: 'u3', name: 'Petr Král', status: 'joined', hasPaid: true },
+      { userId: 'u4', name: 'Karel Dvořák', status: 'declined', hasPaid: false },
+    ],
+    ...overrides,
+  });
+
+  const makeTransaction = (overrides: Partial<BankTransaction>): BankTransaction => ({
+    id: 't1',
+    amount: 334,
+    ...overrides,
+  });
+
+  it('matches by variable symbol and amount', () => {
+    const transaction = makeTransaction({ variableSymbol: getVariableSymbol('e1', 'u2') });
+
+    expect(matchPayments([transaction], [makeEvent()])).toEqual([
+      { transaction, eventId: 'e1', userId: 'u2', amount: 334, confidence: 'exact' },
+    ]);
+  });
+
+  it('accepts overpayments but not underpayments with a matching VS', () => {
+    const vs = getVariableSymbol('e1', 'u1');
+
+    expect(matchPayments([makeTransaction({ variableSymbol: vs, amount: 400 })], [makeEvent()])).toHaveLength(1);
+    expect(matchPayments([makeTransaction({ variableSymbol: vs, amount: 300 })], [makeEvent()])).toEqual([]);
+  });
+
+  it('falls back to the payer name when the amount fits exactly', () => {
+    const transaction = makeTransaction({ counterpartyName: 'NOVAK JAN' });
+
+    expect(matchPayments([transaction], [makeEvent()])).toEqual([
+      { transaction, eventId: 'e1', userId: 'u1', amount: 334, confidence: 'probable' },
+    ]);
+  });
+
+  it('finds the name in the payment message', () => {
+    const [match] = matchPayments([makeTransaction({ message: 'volejbal - eva mala' })], [makeEvent()]);
+
+    expect(match).toMatchObject({ userId: 'u2', confidence: 'probable' });
+  });
+
+  it('ignores outgoing payments, paid shares and non-joined players', () => {
+    const transactions = [
+      makeTransaction({ id: 't1', amount: -334, variableSymbol: getVariableSymbol('e1', 'u1') }),
+      makeTransaction({ id: 't2', variableSymbol: getVariableSymbol('e1', 'u3') }),
+      makeTransaction({ id: 't3', counterpartyName: 'Karel Dvořák' }),
+    ];
+
+    expect(matchPayments(transactions, [makeEvent()])).toEqual([]);
+  });
+
+  it('does not trust a VS that two open shares carry', () => {
+    const vs = getVariableSymbol('e1', 'u1');
+    const event = makeEvent({
+      participants: [
+        { userId: 'u1', name: 'Jan Novák', status: 'joined', hasPaid: false, variableSymbol: vs },
+        { userId: 'u2', name: 'Eva Malá', status: 'joined', hasPaid: false, variableSymbol: vs },
+      ],
+      totalCost: 668,
+    });
+
+    expect(matchPayments([makeTransaction({ variableSymbol: vs })], [event])).toEqual([]);
+    expect(matchPayments([makeTransaction({ variableSymbol: vs, counterpartyName: 'Eva Malá' })], [event])[0])
+      .toMatchObject({ userId: 'u2', confidence: 'probable' });
+  });
+
+  it('uses each transaction and share only once, preferring exact matches', () => {
+    const vs = getVariableSymbol('e1', 'u1');
+    const transactions = [
+      makeTransaction({ id: 't1', counterpartyName: 'Jan Novák' }),
+      makeTransaction({ id: 't2', variableSymbol: vs, counterpartyName: 'Jan Novák' }),
+      makeTransaction({ id: 't3', variableSymbol: vs }),
+    ];
+
+    const matches = matchPayments(transactions, [makeEvent()]);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ userId: 'u1', confidence: 'exact' });
+    expect(matches[0].transaction.id).toBe('t2');
+  });
+});
@@ -0,0 +1,85 @@
+import { BankTransaction, PaymentMatch, SportEvent, SportConfig } from '../types';
+import { getVariableSymbol } from '../shared/variableSymbol';
+import { computeShares, getPricingRules } from '../shared/pricing';
+import { isBilled } from '../shared/attendancePolicy';
+
+const normalize = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const nameWords = (value: string): string[] => normalize(value).split(/[^a-z0-9]+/).filter(Boolean);
+
+interface OpenShare {
+  eventId: string;
+  userId: string;
+  name: string;
+  amount: number;
+  variableSymbol: string;
+}
+
+/** Every billed, unpaid participant together with the amount they owe */
+function openShares(events: SportEvent[], sportConfigs: SportConfig[]): OpenShare[] {
+  return events.flatMap(event => {
+    const amounts = new Map(computeShares(event, getPricingRules(event, sportConfigs)).map(s => [s.userId, s.amount]));
+    return event.participants
+      .filter(p => isBilled(p) && !p.hasPaid && (amounts.get(p.userId) ?? 0) > 0)
+      .map(p => ({
+        eventId: event.id,
+        userId: p.userId,
+        name: p.name,
+        amount: amounts.get(p.userId)!,
+        variableSymbol: p.variableSymbol ?? getVariableSymbol(event.id, p.userId),
+      }));
+  });
+}
+
+/**
+ * Pair incoming bank transactions with unpaid event shares.
+ *   - exact: the variable symbol identifies the share and the amount covers it
+ *   - probable: no VS match, but the amount fits and the payer's name appears
+ *     in the counterparty name or the message
+ * A VS that two open shares carry (a hash collision of old records) names
+ * neither — such a payment can only match as probable.
+ * Each transaction and each share is used at most once; exact matches win.
+ */
+export function matchPayments(
+  transactions: BankTransaction[],
+  events: SportEvent[],
+  sportConfigs: SportConfig[] = [],
+): PaymentMatch[] {
+  const shares = openShares(events, sportConfigs);
+  const sharesPerSymbol = new Map<string, number>();
+  for (const share of shares) {
+    sharesPerSymbol.set(share.variableSymbol, (sharesPerSymbol.get(share.variableSymbol) ?? 0) + 1);
+  }
+  const incoming = transactions.filter(t => t.amount > 0);
+  const usedShares = new Set<OpenShare>();
+  const usedTransactions = new Set<BankTransaction>();
+  const matches: PaymentMatch[] = [];
+
+  const take = (transaction: BankTransaction, share: OpenShare, confidence: PaymentMatch['confidence']) => {
+    usedShares.add(share);
+    usedTransactions.add(transaction);
+    matches.push({ transaction, eventId: share.eventId, userId: share.userId, amount: share.amount, confidence });
+  };
+
+  for (const transaction of incoming) {
+    if (!transaction.variableSymbol || sharesPerSymbol.get(transaction.variableSymbol) !== 1) continue;
+    const share = shares.find(s =>
+      !usedShares.has(s) && s.variableSymbol === transaction.variableSymbol && transaction.amount >= s.amount,
+    );
+    if (share) take(transaction, share, 'exact');
+  }
+
+  for (const transaction of incoming) {
+    if (usedTransactions.has(transaction)) continue;
+    const words = new Set(nameWords(`${transaction.counterpartyName ?? ''} ${transaction.message ?? ''}`));
+    if (words.size === 0) continue;
+    // Banks often print "NOVAK JAN" — compare word sets, not the whole string
+    const share = shares.find(s =>
+      !usedShares.has(s) && s.amount === transaction.amount && nameWords(s.name).every(w => words.has(w)),
+    );
+    if (share) take(transaction, share, 'probable');
+  }
+
+  return matches;
+}
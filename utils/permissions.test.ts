@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { can, getRole } from './permissions';
+import { User } from '../types';
+
+describe('permissions', () => {
+  const userWith = (role?: User['role']): User => ({ id: 'u1', name: 'Alice', role });
+
+  it('treats users without a role as players', () => {
+    expect(getRole(userWith())).toBe('player');
+    expect(getRole(null)).toBe('player');
+  });
+
+  it('falls back to player for unknown roles', () => {
+    expect(getRole({ role: 'superuser' as User['role'] })).toBe('player');
+  });
+
+  it('denies everything to a signed-out user', () => {
+    expect(can(null, 'event:create')).toBe(false);
+  });
+
+  it('gives players no management permissions', () => {
+    const player = userWith('player');
+    expect(can(player, 'event:create')).toBe(false);
+    expect(can(player, 'event:delete')).toBe(false);
+    expect(can(player, 'payment:mark')).toBe(false);
+    expect(can(player, 'sportconfig:edit')).toBe(false);
+  });
+
+  it('lets organizers manage events but not payments or members', () => {
+    const organizer = userWith('organizer');
+    expect(can(organizer, 'event:create')).toBe(true);
+    expect(can(organizer, 'event:edit')).toBe(true);
+    expect(can(organizer, 'event:delete')).toBe(true);
+    expect(can(organizer, 'sportconfig:edit')).toBe(true);
+    expect(can(organizer, 'group:invite')).toBe(true);
+    expect(can(organizer, 'payment:mark')).toBe(false);
+    expect(can(organizer, 'user:manage')).toBe(false);
+  });
+
+  it('lets treasurers mark payments only', () => {
+    const treasurer = userWith('treasurer');
+    expect(can(treasurer, 'payment:mark')).toBe(true);
+    expect(can(treasurer, 'event:delete')).toBe(false);
+  });
+
+  it('lets admins do everything', () => {
+    const admin = userWith('admin');
+    expect(can(admin, 'user:manage')).toBe(true);
+    expect(can(admin, 'payment:mark')).toBe(true);
+    expect(can(admin, 'event:delete')).toBe(true);
+  });
+});
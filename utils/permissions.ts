@@ -0,0 +1,21 @@
+import { User, UserRole } from '../types';
+import { hasPermission, toRole, type Permission } from '../shared/permissions';
+
+/** Role checks for the UI — the matrix itself is shared with the API, see shared/permissions.ts */
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Správce',
+  organizer: 'Organizátor',
+  treasurer: 'Pokladník',
+  player: 'Hráč',
+};
+
+export function getRole(user: Pick<User, 'role'> | null | undefined): UserRole {
+  return toRole(user?.role);
+}
+
+/** Whether the user may perform the action — use to hide controls in the UI */
+export function can(user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  return hasPermission(getRole(user), permission);
+}
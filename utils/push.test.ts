@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { urlBase64ToUint8Array } from './push';
+
+describe('urlBase64ToUint8Array', () => {
+  it('decodes URL-safe base64 without padding', () => {
+    // "-_8" is URL-safe for "+/8=" → bytes 0xfb 0xff
+    expect(Array.from(urlBase64ToUint8Array('-_8'))).toEqual([0xfb, 0xff]);
+  });
+
+  it('decodes a full VAPID-sized key', () => {
+    const bytes = new Uint8Array(65).map((_, i) => i);
+    const encoded = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    expect(Array.from(urlBase64ToUint8Array(encoded))).toEqual(Array.from(bytes));
+  });
+});
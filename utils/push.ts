@@ -0,0 +1,49 @@
+/**
+ * Browser side of Web Push: registers public/sw.js and subscribes the
+ * device with the server's VAPID key. The subscription itself is stored
+ * through services/storage.ts.
+ */
+
+import { SERVICE_WORKER_URL } from './pwa';
+
+export function isPushSupported(): boolean {
+  return typeof window !== 'undefined'
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+}
+
+/** VAPID keys are URL-safe base64 — PushManager wants the raw bytes */
+export function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/** Subscription of this device, or null when it has none (or push is unsupported) */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/** Ask for permission and subscribe; throws with a Czech message when the user refuses */
+export async function subscribeToPush(publicKey: string): Promise<PushSubscription> {
+  if (!isPushSupported()) {
+    throw new Error('Tento prohlížeč upozornění nepodporuje.');
+  }
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Upozornění jsou v prohlížeči zakázaná.');
+  }
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey),
+  });
+}
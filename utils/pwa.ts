@@ -0,0 +1,17 @@
+/**
+ * Installable app: public/sw.js caches the app shell so the app opens
+ * without a connection (the data then comes from services/offlineStore.ts),
+ * and receives Web Push (utils/push.ts).
+ */
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+/** Register the service worker once the page has loaded; a no-op where unsupported */
+export function registerServiceWorker(): void {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+      console.error('Service worker registration failed', error);
+    });
+  });
+}
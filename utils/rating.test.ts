@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { SportEvent, TeamMember } from '../types';
+import {
+  computeSkillRatings,
+  primaryRatings,
+  conservativeRating,
+  skillStrength,
+  RATING_INITIAL,
+  DEVIATION_INITIAL,
+} from './rating';
+
+// ── Helpers ──
+
+const tm = (id: string): TeamMember => ({ userId: id, name: `Player ${id}` });
+
+let eventCount = 0;
+/** One event a day from 2025-01-01 on, with a single two-team round */
+const game = (
+  winners: string[],
+  losers: string[],
+  options: { date?: string; score?: [number, number][]; sportType?: string } = {},
+): SportEvent => {
+  const day = new Date(Date.UTC(2025, 0, 1 + eventCount++));
+  return {
+    id: `e${eventCount}`,
+    title: 'Hra',
+    date: options.date ?? day.toISOString().slice(0, 10),
+    time: '18:00',
+    location: 'Hala',
+    totalCost: 0,
+    accountNumber: '',
+    participants: [],
+    teams: [winners.map(tm), losers.map(tm)],
+    winningTeam: 0,
+    score: options.score,
+    sportType: options.sportType,
+  };
+};
+
+const AS_OF = new Date('2025-03-01');
+const volleyball = (events: SportEvent[], asOf = AS_OF) => computeSkillRatings(events, asOf).get('volejbal')!;
+
+describe('computeSkillRatings', () => {
+  it('rates nobody without matches', () => {
+    expect(computeSkillRatings([{ ...game(['a'], ['b']), teams: undefined, winningTeam: undefined }], AS_OF).get('volejbal')?.size ?? 0).toBe(0);
+  });
+
+  it('raises the winner, lowers the loser and makes both more certain', () => {
+    const ratings = volleyball([game(['a'], ['b'])]);
+    expect(ratings.get('a')!.rating).toBeGreaterThan(RATING_INITIAL);
+    expect(ratings.get('b')!.rating).toBeLessThan(RATING_INITIAL);
+    expect(ratings.get('a')!.deviation).toBeLessThan(DEVIATION_INITIAL);
+    expect(ratings.get('a')!.gamesPlayed).toBe(1);
+  });
+
+  it('gives more for beating a stronger opponent', () => {
+    const history = Array.from({ length: 5 }, () => game(['b'], ['c']));
+    const upset = volleyball([...history, game(['a'], ['b'])]).get('a')!.rating;
+    const expected = volleyball([...history, game(['a'], ['c'])]).get('a')!.rating;
+    expect(upset).toBeGreaterThan(expected);
+  });
+
+  it('keeps two equal players near the start and narrows their uncertainty', () => {
+    const events = Array.from({ length: 10 }, (_, i) => (i % 2 === 0 ? game(['a'], ['b']) : game(['b'], ['a'])));
+    const ratings = volleyball(events);
+    expect(Math.abs(ratings.get('a')!.rating - RATING_INITIAL)).toBeLessThan(60);
+    expect(ratings.get('a')!.deviation).toBeLessThan(150);
+  });
+
+  it('counts a rout as more of a win than a narrow one', () => {
+    const narrow = volleyball([game(['a'], ['b'], { score: [[25, 23], [25, 23]] })]).get('a')!.rating;
+    const rout = volleyball([game(['a'], ['b'], { score: [[25, 10], [25, 8]] })]).get('a')!.rating;
+    expect(rout).toBeGreaterThan(narrow);
+    expect(narrow).toBeGreaterThan(RATING_INITIAL);
+  });
+
+  it('rates team members by the difference of the teams', () => {
+    const history = Array.from({ length: 6 }, () => game(['strong'], ['weak']));
+    // The strong player carried a newcomer to a win over two newcomers
+    const ratings = volleyball([...history, game(['strong', 'n1'], ['n2', 'n3'])]);
+    expect(ratings.get('n1')!.rating).toBeGreaterThan(RATING_INITIAL);
+    expect(ratings.get('n1')!.rating).toBeLessThan(ratings.get('strong')!.rating);
+  });
+
+  it('grows the uncertainty of players who stopped playing', () => {
+    const events = Array.from({ length: 8 }, () => game(['a'], ['b']));
+    const soon = volleyball(events, new Date('2025-01-10')).get('a')!;
+    const later = volleyball(events, new Date('2026-01-10')).get('a')!;
+    expect(later.deviation).toBeGreaterThan(soon.deviation);
+    expect(later.deviation).toBeLessThanOrEqual(DEVIATION_INITIAL);
+    expect(later.rating).toBeCloseTo(soon.rating);
+  });
+
+  it('keeps a rating per sport', () => {
+    const ratings = computeSkillRatings([
+      game(['a'], ['b']),
+      game(['b'], ['a'], { sportType: 'tenis' }),
+    ], AS_OF);
+    expect(ratings.get('volejbal')!.get('a')!.rating).toBeGreaterThan(RATING_INITIAL);
+    expect(ratings.get('tenis')!.get('a')!.rating).toBeLessThan(RATING_INITIAL);
+  });
+
+  it('rates the matches of one event against the ratings from before it', () => {
+    const round = (winner: string, loser: string) => ({ teams: [[tm(winner)], [tm(loser)]], winningTeam: 0 as const });
+    const base = { ...game(['x'], ['y']), teams: undefined, winningTeam: undefined };
+    const ab = volleyball([{ ...base, gameHistory: [round('a', 'b'), round('b', 'a'), round('a', 'b')] }]);
+    const ba = volleyball([{ ...base, gameHistory: [round('a', 'b'), round('a', 'b'), round('b', 'a')] }]);
+    expect(ab.get('a')!.rating).toBeCloseTo(ba.get('a')!.rating);
+  });
+});
+
+describe('primaryRatings', () => {
+  it('picks the sport the player played most', () => {
+    const bySport = computeSkillRatings([
+      game(['a'], ['b'], { sportType: 'tenis' }),
+      game(['a'], ['b']),
+      game(['b'], ['a']),
+    ], AS_OF);
+    expect(primaryRatings(bySport).get('a')!.sportType).toBe('volejbal');
+  });
+});
+
+describe('conservativeRating and skillStrength', () => {
+  it('discount uncertainty', () => {
+    expect(conservativeRating({ rating: 1600, deviation: 50 })).toBe(1500);
+    expect(skillStrength({ rating: RATING_INITIAL, deviation: 100 })).toBeCloseTo(0.5);
+    expect(skillStrength({ rating: 1700, deviation: 50 })).toBeGreaterThan(skillStrength({ rating: 1700, deviation: 300 }));
+    expect(skillStrength({ rating: 1700, deviation: 300 })).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,246 @@
+import { SportEvent, SportType, GameRound } from '../types';
+import { currentRound, roundMatches } from './matchSchedule';
+
+/**
+ * Player ratings — Glicko-2 adapted to teams, one rating per player and
+ * sport. Used by the stats leaderboard and by the team balancer.
+ *
+ * - Every player has a mean (`rating`, 1500 for a newcomer) and an
+ *   uncertainty (`deviation`, 350 for a newcomer). The deviation shrinks with
+ *   every match and grows back while the player doesn't play, one rating
+ *   period per week.
+ * - An event is one rating period: its matches are all rated against the
+ *   ratings from before it.
+ * - A team match is rated per player. The opponent is the other team, seen
+ *   from the player's own rating: what decides is the difference of the two
+ *   teams' average ratings.
+ * - With a score, a rout counts as more of a win than a narrow one.
+ */
+
+export interface SkillRating {
+  userId: string;
+  sportType: SportType;
+  /** Mean, 1500 for a player without matches */
+  rating: number;
+  /** Uncertainty of the mean — the true rating is within two deviations with ~95 % */
+  deviation: number;
+  /** Glicko-2 volatility — how erratic the player's results are */
+  volatility: number;
+  gamesPlayed: number;
+  /** Date of the last event the player played a match at */
+  lastPlayed: string;
+}
+
+export const RATING_INITIAL = 1500;
+export const DEVIATION_INITIAL = 350;
+const VOLATILITY_INITIAL = 0.06;
+/** Glicko-2 system constant — how much the volatility may change */
+const TAU = 0.5;
+/** Glicko-2 works on its own scale: (rating − 1500) / 173.7178 */
+const GLICKO2_SCALE = 173.7178;
+/** Length of a rating period — a week without playing adds one period of uncertainty */
+const RATING_PERIOD_DAYS = 7;
+
+/** Result of a win without a score, and of the narrowest one with a score — a loss is 1 minus it */
+const UNSCORED_WIN = 0.85;
+const NARROW_WIN = 0.7;
+/** Point share over 50 % times this is the margin; 62.5 % of the points is a rout */
+const MARGIN_SCALE = 8;
+
+interface State {
+  mu: number;
+  phi: number;
+  sigma: number;
+  games: number;
+  lastPlayed: string;
+}
+
+interface Result {
+  /** The opponent the match is rated against, Glicko-2 scale */
+  mu: number;
+  phi: number;
+  /** 1 = a clear win, 0 = a clear loss */
+  score: number;
+}
+
+const PHI_MAX = DEVIATION_INITIAL / GLICKO2_SCALE;
+
+const g = (phi: number) => 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+const expected = (mu: number, opponentMu: number, opponentPhi: number) =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+const periodsBetween = (from: string, to: string) =>
+  Math.max(0, Math.floor((new Date(to).getTime() - new Date(from).getTime()) / (RATING_PERIOD_DAYS * 86_400_000)));
+
+/** The uncertainty grows by one volatility per rating period not played */
+function inflate(state: State, periods: number): void {
+  state.phi = Math.min(PHI_MAX, Math.sqrt(state.phi * state.phi + periods * state.sigma * state.sigma));
+}
+
+/** The winner's result — 0.7 for a narrow win up to 1 for a rout, by the share of points won */
+function winnerScore(score: [number, number][] | undefined, winner: 0 | 1): number {
+  const points = (score ?? []).reduce(([own, all], set) => [own + set[winner], all + set[0] + set[1]], [0, 0]);
+  if (points[1] === 0) return UNSCORED_WIN;
+  const margin = Math.min(1, Math.max(0, (points[0] / points[1] - 0.5) * MARGIN_SCALE));
+  return NARROW_WIN + (1 - NARROW_WIN) * margin;
+}
+
+/** New volatility — step 5 of Glickman's Glicko-2 paper, by the Illinois algorithm */
+function newVolatility(state: State, v: number, delta: number): number {
+  const { phi, sigma } = state;
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return ex * (delta * delta - phi * phi - v - ex) / (2 * (phi * phi + v + ex) ** 2) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  for (let iter = 0; iter < 100 && Math.abs(B - A) > 1e-6; iter++) {
+    const C = A + (A - B) * fA / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+/** One rating period of a player — steps 3 to 7 of the paper */
+function update(state: State, results: Result[]): void {
+  let vInverse = 0;
+  let improvement = 0;
+  for (const r of results) {
+    const gPhi = g(r.phi);
+    const e = expected(state.mu, r.mu, r.phi);
+    vInverse += gPhi * gPhi * e * (1 - e);
+    improvement += gPhi * (r.score - e);
+  }
+  const v = 1 / vInverse;
+
+  state.sigma = newVolatility(state, v, v * improvement);
+  const phiStar = Math.sqrt(state.phi * state.phi + state.sigma * state.sigma);
+  state.phi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  state.mu += state.phi * state.phi * improvement;
+  state.games += results.length;
+}
+
+const mean = (values: number[]) => values.reduce((s, x) => s + x, 0) / values.length;
+
+/**
+ * Rate every player of the events, per sport. Ratings are as of `asOf` —
+ * the uncertainty of a player who hasn't played since has grown.
+ */
+export function computeSkillRatings(events: SportEvent[], asOf: Date = new Date()): Map<SportType, Map<string, SkillRating>> {
+  const states = new Map<SportType, Map<string, State>>();
+  const sorted = [...events].sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const event of sorted) {
+    const sport = event.sportType ?? 'volejbal';
+    if (!states.has(sport)) states.set(sport, new Map());
+    const sportStates = states.get(sport)!;
+
+    const rounds: GameRound[] = [...(Array.isArray(event.gameHistory) ? event.gameHistory : [])];
+    const current = currentRound(event);
+    if (current) rounds.push(current);
+    const matches = rounds.flatMap(roundMatches).filter(m => m.teams[0].length > 0 && m.teams[1].length > 0);
+    if (matches.length === 0) continue;
+
+    // Everyone is rated against the ratings from before the event
+    const before = new Map<string, State>();
+    for (const member of matches.flatMap(m => [...m.teams[0], ...m.teams[1]])) {
+      if (before.has(member.userId)) continue;
+      let state = sportStates.get(member.userId);
+      if (!state) {
+        state = { mu: 0, phi: PHI_MAX, sigma: VOLATILITY_INITIAL, games: 0, lastPlayed: event.date };
+        sportStates.set(member.userId, state);
+      }
+      // The period played adds its own volatility in update()
+      inflate(state, Math.max(0, periodsBetween(state.lastPlayed, event.date) - 1));
+      before.set(member.userId, { ...state });
+    }
+
+    const results = new Map<string, Result[]>();
+    for (const match of matches) {
+      const sides = match.teams.map(team => ({
+        mu: mean(team.map(m => before.get(m.userId)!.mu)),
+        phi: Math.sqrt(mean(team.map(m => before.get(m.userId)!.phi ** 2))),
+      }));
+      const won = winnerScore(match.score, match.winner);
+      match.teams.forEach((team, side) => {
+        const own = sides[side];
+        const other = sides[1 - side];
+        for (const member of team) {
+          const mu = before.get(member.userId)!.mu;
+          const list = results.get(member.userId) ?? [];
+          list.push({ mu: mu - (own.mu - other.mu), phi: other.phi, score: side === match.winner ? won : 1 - won });
+          results.set(member.userId, list);
+        }
+      });
+    }
+
+    for (const [userId, list] of results) {
+      const state = sportStates.get(userId)!;
+      update(state, list);
+      state.lastPlayed = event.date;
+    }
+  }
+
+  const today = asOf.toISOString().slice(0, 10);
+  const ratings = new Map<SportType, Map<string, SkillRating>>();
+  for (const [sport, sportStates] of states) {
+    const sportRatings = new Map<string, SkillRating>();
+    for (const [userId, state] of sportStates) {
+      inflate(state, periodsBetween(state.lastPlayed, today));
+      sportRatings.set(userId, {
+        userId,
+        sportType: sport,
+        rating: RATING_INITIAL + GLICKO2_SCALE * state.mu,
+        deviation: GLICKO2_SCALE * state.phi,
+        volatility: state.sigma,
+        gamesPlayed: state.games,
+        lastPlayed: state.lastPlayed,
+      });
+    }
+    ratings.set(sport, sportRatings);
+  }
+  return ratings;
+}
+
+/** Each player's rating in the sport they played the most matches of */
+export function primaryRatings(bySport: Map<SportType, Map<string, SkillRating>>): Map<string, SkillRating> {
+  const primary = new Map<string, SkillRating>();
+  for (const sportRatings of bySport.values()) {
+    for (const [userId, rating] of sportRatings) {
+      const other = primary.get(userId);
+      if (!other || rating.gamesPlayed > other.gamesPlayed) primary.set(userId, rating);
+    }
+  }
+  return primary;
+}
+
+/** Rating the player almost surely has — ranks an uncertain newcomer below a proven player of the same mean */
+export const conservativeRating = (r: Pick<SkillRating, 'rating' | 'deviation'>): number => r.rating - 2 * r.deviation;
+
+/**
+ * Chance (0–1) of beating a newcomer of 1500 — the balancer's strength of a
+ * player. The less certain the rating, the closer it stays to 0.5.
+ */
+export function skillStrength(r: Pick<SkillRating, 'rating' | 'deviation'>): number {
+  return expected((r.rating - RATING_INITIAL) / GLICKO2_SCALE, 0, r.deviation / GLICKO2_SCALE);
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { getScoringRules, scorePoint, startLiveScore, setsWon, tennisPointLabels, isTiebreak, LiveScore, ScoringRules } from './scoring';
+
+/** Play rallies in order, e.g. play(score, rules, [0, 0, 1]) */
+const play = (score: LiveScore, rules: ScoringRules, rallies: (0 | 1)[]): LiveScore =>
+  rallies.reduce((s, team) => scorePoint(s, team, rules), score);
+
+const times = (count: number, team: 0 | 1): (0 | 1)[] => Array(count).fill(team);
+
+describe('scoring', () => {
+  describe('volleyball', () => {
+    const rules = getScoringRules('volejbal');
+
+    it('ends a set at 25 points', () => {
+      const score = play(startLiveScore([], rules), rules, [...times(24, 0), ...times(20, 1), 0]);
+      expect(score.sets).toEqual([[25, 20]]);
+      expect(score.current).toEqual([0, 0]);
+    });
+
+    it('needs a two-point lead', () => {
+      let score = play(startLiveScore([], rules), rules, [...times(24, 0), ...times(24, 1), 0]);
+      expect(score.sets).toEqual([]);
+      expect(score.current).toEqual([25, 24]);
+
+      score = play(score, rules, [1, 1, 1]);
+      expect(score.sets).toEqual([[25, 27]]);
+    });
+
+    it('plays the deciding set to 15 and decides the match', () => {
+      const start = startLiveScore([[25, 20], [20, 25], [25, 23], [23, 25]], rules);
+      expect(start.winner).toBeUndefined();
+
+      const score = play(start, rules, [...times(14, 1), ...times(10, 0), 1]);
+      expect(score.sets[4]).toEqual([10, 15]);
+      expect(score.winner).toBe(1);
+      expect(setsWon(score.sets)).toEqual([2, 3]);
+    });
+
+    it('ignores points after the match is over', () => {
+      const finished = startLiveScore([[25, 0], [25, 0], [25, 0]], rules);
+      expect(finished.winner).toBe(0);
+      expect(scorePoint(finished, 1, rules)).toBe(finished);
+    });
+  });
+
+  describe('badminton', () => {
+    const rules = getScoringRules('badminton');
+
+    it('ends a set at 21 with a two-point lead, at 30 at the latest', () => {
+      expect(play(startLiveScore([], rules), rules, times(21, 0)).sets).toEqual([[21, 0]]);
+
+      const alternating = Array.from({ length: 29 }, () => [0, 1] as (0 | 1)[]).flat();
+      const capped = play(startLiveScore([], rules), rules, [...alternating, 1]);
+      expect(capped.sets).toEqual([[29, 30]]);
+    });
+
+    it('wins the match with two sets', () => {
+      const score = play(startLiveScore([], rules), rules, [...times(21, 0), ...times(21, 0)]);
+      expect(score.winner).toBe(0);
+    });
+  });
+
+  describe('tennis', () => {
+    const rules = getScoringRules('tenis');
+
+    it('counts 15, 30, 40 and wins the game', () => {
+      let score = play(startLiveScore([], rules), rules, [0, 0, 1]);
+      expect(tennisPointLabels(score, rules)).toEqual(['30', '15']);
+
+      score = play(score, rules, [0, 0]);
+      expect(score.current).toEqual([1, 0]);
+      expect(score.points).toEqual([0, 0]);
+    });
+
+    it('plays deuce and advantage', () => {
+      let score = play(startLiveScore([], rules), rules, [0, 0, 0, 1, 1, 1]);
+      expect(tennisPointLabels(score, rules)).toEqual(['40', '40']);
+
+      score = play(score, rules, [1]);
+      expect(tennisPointLabels(score, rules)).toEqual(['40', 'AD']);
+
+      score = play(score, rules, [0]);
+      expect(tennisPointLabels(score, rules)).toEqual(['40', '40']);
+
+      score = play(score, rules, [0, 0]);
+      expect(score.current).toEqual([1, 0]);
+    });
+
+    const game = (team: 0 | 1) => times(4, team);
+
+    it('wins a set at 6 games with a two-game lead', () => {
+      const score = play(startLiveScore([], rules), rules, [...game(1), ...game(1), ...game(1), ...game(1), ...Array(6).fill(game(0)).flat()]);
+      expect(score.sets).toEqual([[6, 4]]);
+    });
+
+    it('decides 6:6 with a tiebreak to 7', () => {
+      const twelveGames = Array.from({ length: 6 }, () => [...game(0), ...game(1)]).flat();
+      let score = play(startLiveScore([], rules), rules, twelveGames);
+      expect(score.current).toEqual([6, 6]);
+      expect(isTiebreak(score, rules)).toBe(true);
+
+      score = play(score, rules, [...times(6, 0), ...times(6, 1)]);
+      expect(tennisPointLabels(score, rules)).toEqual(['6', '6']);
+
+      score = play(score, rules, [1, 1]);
+      expect(score.sets).toEqual([[6, 7]]);
+    });
+  });
+
+  describe('sports of a group\'s own', () => {
+    it('counts with the rules of their config, volleyball\'s without one', () => {
+      const florbal: ScoringRules = { kind: 'rally', setsToWin: 1, pointsPerSet: 10, winBy: 1 };
+      const rules = getScoringRules('florbal', florbal);
+      expect(play(startLiveScore([], rules), rules, [...times(9, 1), ...times(10, 0)]).winner).toBe(0);
+
+      expect(getScoringRules('florbal')).toEqual(getScoringRules('volejbal'));
+    });
+  });
+});
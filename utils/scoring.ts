@@ -0,0 +1,113 @@
+import { ScoringRules, SportType } from '../types';
+
+export type { ScoringRules };
+
+/**
+ * Point-by-point scoring for the live scoreboard. Pure functions — the hook
+ * keeps the previous states for undo and writes finished sets into
+ * `event.score`.
+ *
+ *   - rally (volejbal, badminton): every rally is a point, a set is won at
+ *     `pointsPerSet` with a `winBy` lead, badminton stops at `maxPoints`
+ *   - tennis: 15/30/40 with deuce and advantage, a set is won at 6 games
+ *     with a 2-game lead, a tiebreak to 7 decides it at 6:6
+ *
+ * Tennis sets are stored as games, e.g. [[6, 4], [7, 6]]. A sport's config
+ * may set its own rules; the built-in sports fall back to SCORING_RULES and
+ * anything else to volleyball's.
+ */
+
+/** Rules of the built-in sports */
+export const SCORING_RULES: Record<SportType, ScoringRules> = {
+  volejbal: { kind: 'rally', setsToWin: 3, pointsPerSet: 25, decidingSetPoints: 15, winBy: 2 },
+  badminton: { kind: 'rally', setsToWin: 2, pointsPerSet: 21, winBy: 2, maxPoints: 30 },
+  tenis: { kind: 'tennis', setsToWin: 2, pointsPerSet: 6, winBy: 2 },
+};
+
+const TIEBREAK_POINTS = 7;
+const TENNIS_POINT_LABELS = ['0', '15', '30', '40'];
+
+export interface LiveScore {
+  /** Finished sets */
+  sets: [number, number][];
+  /** Rally: points of the current set; tennis: games of the current set */
+  current: [number, number];
+  /** Tennis: points of the current game or tiebreak */
+  points: [number, number];
+  /** Set once the match is decided */
+  winner?: 0 | 1;
+}
+
+export const getScoringRules = (sportType: SportType = 'volejbal', configured?: ScoringRules): ScoringRules =>
+  configured ?? SCORING_RULES[sportType] ?? SCORING_RULES.volejbal;
+
+export function setsWon(sets: [number, number][]): [number, number] {
+  return [sets.filter(([a, b]) => a > b).length, sets.filter(([a, b]) => b > a).length];
+}
+
+const matchWinner = (sets: [number, number][], rules: ScoringRules): 0 | 1 | undefined => {
+  const [won0, won1] = setsWon(sets);
+  if (won0 >= rules.setsToWin) return 0;
+  if (won1 >= rules.setsToWin) return 1;
+  return undefined;
+};
+
+/** Continue from sets already recorded on the event */
+export function startLiveScore(sets: [number, number][] = [], rules: ScoringRules): LiveScore {
+  return { sets: [...sets], current: [0, 0], points: [0, 0], winner: matchWinner(sets, rules) };
+}
+
+/** The current tennis game is a tiebreak */
+export const isTiebreak = (score: LiveScore, rules: ScoringRules): boolean =>
+  rules.kind === 'tennis' && score.current[0] === rules.pointsPerSet && score.current[1] === rules.pointsPerSet;
+
+/** Points needed to win the current set (rally) or game (tennis) */
+function target(score: LiveScore, rules: ScoringRules): number {
+  if (rules.kind === 'tennis') return isTiebreak(score, rules) ? TIEBREAK_POINTS : 4;
+  const isDecidingSet = score.sets.length === rules.setsToWin * 2 - 2;
+  return isDecidingSet && rules.decidingSetPoints ? rules.decidingSetPoints : rules.pointsPerSet;
+}
+
+const bump = ([a, b]: [number, number], team: 0 | 1): [number, number] => (team === 0 ? [a + 1, b] : [a, b + 1]);
+
+const wins = (tally: [number, number], team: 0 | 1, needed: number, winBy: number, max?: number): boolean => {
+  const mine = tally[team];
+  const theirs = tally[1 - team];
+  return (mine >= needed && mine - theirs >= winBy) || (max !== undefined && mine >= max);
+};
+
+function endSet(score: LiveScore, set: [number, number], rules: ScoringRules): LiveScore {
+  const sets = [...score.sets, set];
+  return { sets, current: [0, 0], points: [0, 0], winner: matchWinner(sets, rules) };
+}
+
+/** The state after `team` wins a rally — the match, set and game end on their own */
+export function scorePoint(score: LiveScore, team: 0 | 1, rules: ScoringRules): LiveScore {
+  if (score.winner !== undefined) return score;
+
+  if (rules.kind === 'rally') {
+    const current = bump(score.current, team);
+    return wins(current, team, target(score, rules), rules.winBy, rules.maxPoints)
+      ? endSet(score, current, rules)
+      : { ...score, current };
+  }
+
+  const tiebreak = isTiebreak(score, rules);
+  const points = bump(score.points, team);
+  if (!wins(points, team, target(score, rules), 2)) return { ...score, points };
+
+  const games = bump(score.current, team);
+  if (tiebreak || wins(games, team, rules.pointsPerSet, rules.winBy)) return endSet(score, games, rules);
+  return { ...score, current: games, points: [0, 0] };
+}
+
+/** Tennis point labels of the current game, e.g. ['40', 'AD'] — plain numbers in a tiebreak */
+export function tennisPointLabels(score: LiveScore, rules: ScoringRules): [string, string] {
+  const [a, b] = score.points;
+  if (isTiebreak(score, rules)) return [String(a), String(b)];
+  if (a >= 3 && b >= 3) {
+    if (a === b) return ['40', '40'];
+    return a > b ? ['AD', '40'] : ['40', 'AD'];
+  }
+  return [TENNIS_POINT_LABELS[a], TENNIS_POINT_LABELS[b]];
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { groupDebtsByAccount, settlementMessage } from './settlement';
+import { BankAccount, DebtItem, SportEvent } from '../types';
+
+describe('groupDebtsByAccount', () => {
+  const accounts: BankAccount[] = [
+    { id: 'b1', ownerName: 'Alice', accountNumber: '123456789/0100', userId: 'u1' },
+    { id: 'b2', ownerName: 'Bob', accountNumber: '987654321/0800', userId: 'u2' },
+  ];
+
+  const makeDebt = (id: string, overrides: Partial<SportEvent>, amount = 200): DebtItem => ({
+    event: {
+      id,
+      title: 'Volejbal',
+      date: '2026-03-20',
+      time: '18:00',
+      location: 'Hala',
+      totalCost: 1000,
+      accountNumber: '',
+      participants: [],
+      ...overrides,
+    },
+    amount,
+    daysOverdue: 5,
+    variableSymbol: '1234567890',
+  });
+
+  it('sums debts owed to the same account', () => {
+    const settlements = groupDebtsByAccount([
+      makeDebt('e1', { selectedBankAccountId: 'b1', date: '2026-03-20' }),
+      makeDebt('e2', { selectedBankAccountId: 'b2' }, 150),
+      makeDebt('e3', { selectedBankAccountId: 'b1', date: '2026-03-13', title: 'Fotbal' }, 250),
+    ], accounts);
+
+    expect(settlements).toHaveLength(2);
+    expect(settlements[0]).toMatchObject({ accountNumber: '123456789/0100', ownerName: 'Alice', amount: 450 });
+    expect(settlements[0].debts.map(d => d.event.id)).toEqual(['e1', 'e3']);
+    expect(settlements[0].message).toBe('Fotbal 13.3., Volejbal 20.3.');
+    expect(settlements[1]).toMatchObject({ accountNumber: '987654321/0800', amount: 150 });
+  });
+
+  it('falls back to the account number stored on the event', () => {
+    const settlements = groupDebtsByAccount([
+      makeDebt('e1', { accountNumber: '123456789/0100' }),
+      makeDebt('e2', { selectedBankAccountId: 'b1' }),
+    ], accounts);
+
+    expect(settlements).toHaveLength(1);
+    expect(settlements[0].amount).toBe(400);
+  });
+
+  it('puts debts without an account last', () => {
+    const settlements = groupDebtsByAccount([
+      makeDebt('e1', {}, 500),
+      makeDebt('e2', { selectedBankAccountId: 'b2' }, 100),
+    ], accounts);
+
+    expect(settlements.map(s => s.accountNumber)).toEqual(['987654321/0800', '']);
+  });
+
+  it('returns nothing without debts', () => {
+    expect(groupDebtsByAccount([], accounts)).toEqual([]);
+    expect(settlementMessage([])).toBe('');
+  });
+});
@@ -0,0 +1,40 @@
+import { BankAccount, DebtItem, Settlement } from '../types';
+import { format } from 'date-fns';
+import { receivingAccount } from '../shared/receivingAccount';
+
+const accountKey = (accountNumber: string): string => accountNumber.replace(/\s/g, '');
+
+/** "Volejbal 20.3., Fotbal 27.3." — oldest first, fits the payment message */
+export function settlementMessage(debts: DebtItem[]): string {
+  return [...debts]
+    .sort((a, b) => a.event.date.localeCompare(b.event.date))
+    .map(d => `${d.event.title} ${format(new Date(d.event.date), 'd.M.')}`)
+    .join(', ');
+}
+
+/**
+ * Group debts by the bank account they are owed to, so each account gets one
+ * payment with the summed amount. Debts without an account come last.
+ */
+export function groupDebtsByAccount(debts: DebtItem[], bankAccounts: BankAccount[]): Settlement[] {
+  const groups = new Map<string, Settlement>();
+
+  for (const debt of debts) {
+    const account = receivingAccount(debt.event, bankAccounts);
+    const key = accountKey(account.accountNumber);
+    const settlement = groups.get(key) ?? {
+      accountNumber: account.accountNumber,
+      ownerName: account.ownerName,
+      debts: [],
+      amount: 0,
+      message: '',
+    };
+    settlement.debts.push(debt);
+    settlement.amount += debt.amount;
+    groups.set(key, settlement);
+  }
+
+  return Array.from(groups.values())
+    .map(s => ({ ...s, message: settlementMessage(s.debts) }))
+    .sort((a, b) => (a.accountNumber ? 0 : 1) - (b.accountNumber ? 0 : 1) || b.amount - a.amount);
+}
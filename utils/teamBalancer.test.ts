@@ -8,11 +8,13 @@ import {
   jitteredSnakeDraft,
   greedySwapBalance,
   randomPartitionBalance,
+  constrainedBalance,
   DEFAULT_MIN_GAMES_THRESHOLD,
   ALL_STRATEGIES,
   PlayerRating,
 } from './teamBalancer';
 import { SportEvent, Participant, TeamMember } from '../types';
+import { computeSkillRatings, primaryRatings, skillStrength } from './rating';
 
 // ── Test helpers ──
 
@@ -128,8 +130,10 @@ describe('computePlayerRatings', () => {
     expect(ratingA.winRate).toBeCloseTo(2 / 3);
     expect(ratingA.hasEnoughData).toBe(true);
     // With no score data, setWinRatio defaults to 0.5
-    // effectiveRating = 0.6 * (2/3) + 0.4 * 0.5 = 0.4 + 0.2 = 0.6
-    expect(ratingA.effectiveRating).toBeCloseTo(0.6 * (2 / 3) + 0.4 * 0.5);
+    expect(ratingA.setWinRatio).toBe(0.5);
+    // Two wins of three — stronger than a newcomer and than d, who lost all
+    expect(ratingA.effectiveRating).toBeGreaterThan(0.5);
+    expect(ratingA.effectiveRating).toBeGreaterThan(ratings.find(r => r.userId === 'd')!.effectiveRating);
   });
 
   it('assigns average rating to players below minimum data threshold', () => {
@@ -149,8 +153,8 @@ describe('computePlayerRatings', () => {
     const ratingB = ratings.find(r => r.userId === 'b')!;
 
     expect(ratingA.hasEnoughData).toBe(true);
-    // A: winRate=1, setWinRatio=0.5 → effective = 0.6*1 + 0.4*0.5 = 0.8
-    expect(ratingA.effectiveRating).toBeCloseTo(0.6 + 0.4 * 0.5);
+    // A won all three
+    expect(ratingA.effectiveRating).toBeGreaterThan(0.5);
 
     expect(ratingB.hasEnoughData).toBe(false);
     // Player B should get the average of reliable players (just A)
@@ -230,7 +234,7 @@ describe('computePlayerRatings', () => {
     expect(ratings2.every(r => !r.hasEnoughData)).toBe(true);
   });
 
-  it('uses set scores to compute setWinRatio and blended effectiveRating', () => {
+  it('uses set scores to compute setWinRatio and rates by the skill rating', () => {
     // Player A wins with score 25:20, 25:15 → setRatio for A: (25/45 + 25/40) / 2
     // Player B loses → setRatio for B: (20/45 + 15/40) / 2
     const events = [
@@ -264,17 +268,15 @@ describe('computePlayerRatings', () => {
     // A's setWinRatio: per set 25/45 and 25/40 → avg across all 6 sets
     const aSetRatio = ((25 / 45 + 25 / 40) * 3) / 6;
     expect(ratingA.setWinRatio).toBeCloseTo(aSetRatio);
-    // effectiveRating = 0.6 * 1 + 0.4 * aSetRatio
-    expect(ratingA.effectiveRating).toBeCloseTo(0.6 + 0.4 * aSetRatio);
+    expect(ratingA.effectiveRating).toBeCloseTo(skillStrength(primaryRatings(computeSkillRatings(events)).get('a')!));
 
     // B: winRate = 0.0
     expect(ratingB.winRate).toBeCloseTo(0.0);
     const bSetRatio = ((20 / 45 + 15 / 40) * 3) / 6;
     expect(ratingB.setWinRatio).toBeCloseTo(bSetRatio);
-    expect(ratingB.effectiveRating).toBeCloseTo(0.4 * bSetRatio);
 
-    // Blended ratings should differentiate better than pure win rate
-    expect(ratingA.effectiveRating).toBeGreaterThan(ratingB.effectiveRating);
+    expect(ratingA.effectiveRating).toBeGreaterThan(0.5);
+    expect(ratingB.effectiveRating).toBeLessThan(0.5);
   });
 
   it('handles rounds with score containing [0,0] sets (skipped)', () => {
@@ -770,3 +772,155 @@ describe('balanceTeams with forced strategy', () => {
   });
 });
 
+
+// ── More than two teams ──
+
+describe('balanceTeams with teamCount', () => {
+  it('splits 18 players into three teams of six with every strategy', () => {
+    const players = Array.from({ length: 18 }, (_, i) => makeParticipant(`p${i}`));
+    for (const strategy of ALL_STRATEGIES) {
+      const result = balanceTeams(players, [], { teamSize: null, teamCount: 3, strategy });
+      expect(result!.map(t => t.length)).toEqual([6, 6, 6]);
+      expect(new Set(result!.flat().map(m => m.userId)).size).toBe(18);
+    }
+  });
+
+  it('needs a full team for each with fixed team size', () => {
+    const players = Array.from({ length: 8 }, (_, i) => makeParticipant(`p${i}`));
+    expect(balanceTeams(players, [], { teamSize: 3, teamCount: 3 })).toBeNull();
+    expect(balanceTeams(players, [], { teamSize: 2, teamCount: 3 })!.map(t => t.length)).toEqual([2, 2, 2]);
+  });
+
+  it('evens out the teams across all pairs', () => {
+    const ratings: PlayerRating[] = [0.9, 0.85, 0.8, 0.5, 0.45, 0.4, 0.2, 0.15, 0.1].map((r, i) => ({
+      userId: `p${i}`, name: `Player ${i}`, gamesPlayed: 5, gamesWon: 2, winRate: 0.4, setWinRatio: 0.5, effectiveRating: r, hasEnoughData: true,
+    }));
+    for (const teams of [greedySwapBalance(ratings, null, 3), randomPartitionBalance(ratings, null, 3), jitteredSnakeDraft(ratings, null, 3, 0)]) {
+      const sums = teams.map(t => teamRating(t, ratings));
+      expect(Math.max(...sums) - Math.min(...sums)).toBeLessThan(0.3);
+    }
+  });
+
+  it('rates players from every match of a multi-team round', () => {
+    const event: SportEvent = {
+      ...emptyEvent,
+      teams: [[tm('a')], [tm('b')], [tm('c')]],
+      matches: [{ teams: [1, 2], winner: 0 }, { teams: [0, 2], winner: 0 }, { teams: [0, 1], winner: 0 }],
+    };
+    const ratings = computePlayerRatings([event], [makeParticipant('a'), makeParticipant('c')], 1);
+    expect(ratings.map(r => [r.userId, r.gamesPlayed, r.gamesWon])).toEqual([['a', 2, 2], ['c', 2, 0]]);
+  });
+});
+
+describe('teamsAreSame with more teams', () => {
+  it('ignores the order of the teams', () => {
+    expect(teamsAreSame([[tm('a')], [tm('b')], [tm('c')]], [[tm('c')], [tm('a')], [tm('b')]])).toBe(true);
+    expect(teamsAreSame([[tm('a')], [tm('b')], [tm('c')]], [[tm('a'), tm('b')], [tm('c')]])).toBe(false);
+  });
+});
+
+describe('constrainedBalance', () => {
+  const rate = (id: string, effectiveRating: number, positions?: PlayerRating['positions']): PlayerRating => ({
+    userId: id, name: `Player ${id}`, gamesPlayed: 5, gamesWon: 2, winRate: 0.4, setWinRatio: 0.5, effectiveRating, hasEnoughData: true,
+    ...(positions && { positions }),
+  });
+  const teamOf = (teams: TeamMember[][], id: string) => teams.findIndex(t => t.some(m => m.userId === id));
+
+  it('puts the setters and liberos in different teams', () => {
+    const ratings = [
+      rate('s1', 0.5, ['setter']), rate('s2', 0.5, ['setter']),
+      rate('l1', 0.5, ['libero']), rate('l2', 0.5, ['libero']),
+      rate('h1', 0.5, ['hitter', 'blocker']), rate('h2', 0.5, ['hitter']),
+      rate('x1', 0.5), rate('x2', 0.5),
+    ];
+    for (let run = 0; run < 10; run++) {
+      const teams = constrainedBalance(ratings, null, 2);
+      expect(teamOf(teams, 's1')).not.toBe(teamOf(teams, 's2'));
+      expect(teamOf(teams, 'l1')).not.toBe(teamOf(teams, 'l2'));
+      expect(teams.map(t => t.length)).toEqual([4, 4]);
+    }
+  });
+
+  it('keeps pairs together or apart', () => {
+    const ratings = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => rate(id, 0.5));
+    for (let run = 0; run < 10; run++) {
+      const teams = constrainedBalance(ratings, null, 2, [
+        { userIds: ['a', 'b'], together: true },
+        { userIds: ['a', 'c'], together: false },
+      ]);
+      expect(teamOf(teams, 'a')).toBe(teamOf(teams, 'b'));
+      expect(teamOf(teams, 'a')).not.toBe(teamOf(teams, 'c'));
+    }
+  });
+
+  it('still balances the rating', () => {
+    const ratings = [0.9, 0.8, 0.6, 0.5, 0.3, 0.2].map((r, i) => rate(`p${i}`, r));
+    const teams = constrainedBalance(ratings, null, 2, [{ userIds: ['p0', 'p5'], together: true }]);
+    const sums = teams.map(t => teamRating(t, ratings));
+    expect(teamOf(teams, 'p0')).toBe(teamOf(teams, 'p5'));
+    expect(Math.abs(sums[0] - sums[1])).toBeLessThan(0.15);
+  });
+
+  it('brings a left-out partner in with a fixed team size', () => {
+    const ratings = ['a', 'b', 'c', 'd', 'e'].map(id => rate(id, 0.5));
+    for (let run = 0; run < 10; run++) {
+      const teams = constrainedBalance(ratings, 2, 2, [{ userIds: ['a', 'e'], together: true }]);
+      expect(teams.flat()).toHaveLength(4);
+      const playing = teams.flat().map(m => m.userId);
+      expect(playing.includes('a')).toBe(playing.includes('e'));
+      if (playing.includes('a')) expect(teamOf(teams, 'a')).toBe(teamOf(teams, 'e'));
+    }
+  });
+});
+
+describe('balanceTeams with profiles and pairs', () => {
+  const players = ['a', 'b', 'c', 'd'].map(id => makeParticipant(id));
+
+  it('switches to the constrained strategy once players declare positions', () => {
+    for (let run = 0; run < 10; run++) {
+      const teams = balanceTeams(players, [], {
+        teamSize: null,
+        profiles: { a: { positions: ['setter'] }, b: { positions: ['setter'] } },
+      })!;
+      expect(teams.findIndex(t => t.some(m => m.userId === 'a'))).not.toBe(teams.findIndex(t => t.some(m => m.userId === 'b')));
+    }
+  });
+
+  it('respects the event pairs', () => {
+    for (let run = 0; run < 10; run++) {
+      const teams = balanceTeams(players, [], { teamSize: null, constraints: [{ userIds: ['c', 'd'], together: true }] })!;
+      expect(teams.some(t => t.some(m => m.userId === 'c') && t.some(m => m.userId === 'd'))).toBe(true);
+    }
+  });
+
+  it('rates players without enough games by their skill level', () => {
+    const ratings = computePlayerRatings([], players, 3, { a: { skillLevel: 5 }, b: { skillLevel: 1 } });
+    const byId = Object.fromEntries(ratings.map(r => [r.userId, r.effectiveRating]));
+    expect(byId.a).toBeCloseTo(0.6);
+    expect(byId.b).toBeCloseTo(0.4);
+    expect(byId.c).toBe(0.5);
+  });
+});
+
+describe('balanceTeams with sportType', () => {
+  it('rates players only by matches of the sport', () => {
+    // a and b are the strong volleyball pair, c and d the strong tennis pair
+    // e and f switch sides every round
+    const volleyball = makeEventWithHistory('v1', Array.from({ length: 6 }, (_, i) => ({
+      teams: [[tm('a'), tm('b'), tm(i % 2 ? 'e' : 'f')], [tm('c'), tm('d'), tm(i % 2 ? 'f' : 'e')]] as [TeamMember[], TeamMember[]],
+      winningTeam: 0 as const,
+    })));
+    const tennis = { ...makeEventWithHistory('t1', Array.from({ length: 6 }, (_, i) => ({
+      teams: [[tm('c'), tm('d'), tm(i % 2 ? 'e' : 'f')], [tm('a'), tm('b'), tm(i % 2 ? 'f' : 'e')]] as [TeamMember[], TeamMember[]],
+      winningTeam: 0 as const,
+    }))), sportType: 'tenis' };
+    const players = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => makeParticipant(id));
+    const apart = (teams: TeamMember[][] | null, x: string, y: string) =>
+      !teams!.some(team => team.some(m => m.userId === x) && team.some(m => m.userId === y));
+
+    const forVolleyball = balanceTeams(players, [volleyball, tennis], { teamSize: 3, strategy: 'greedy-swap', sportType: 'volejbal' });
+    expect(apart(forVolleyball, 'a', 'b')).toBe(true);
+    const forTennis = balanceTeams(players, [volleyball, tennis], { teamSize: 3, strategy: 'greedy-swap', sportType: 'tenis' });
+    expect(apart(forTennis, 'c', 'd')).toBe(true);
+  });
+});
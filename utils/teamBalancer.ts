@@ -1,4 +1,6 @@
-import { SportEvent, Participant, TeamMember, GameRound } from '../types';
+import { SportEvent, SportType, Participant, TeamMember, GameRound, User, PlayerPosition, TeamConstraint, MIN_SKILL_LEVEL, MAX_SKILL_LEVEL } from '../types';
+import { currentRound, roundMatches } from './matchSchedule';
+import { computeSkillRatings, primaryRatings, skillStrength } from './rating';
 
 export interface PlayerRating {
   userId: string;
@@ -7,25 +9,36 @@ export interface PlayerRating {
   gamesPlayed: number;
   gamesWon: number;
   winRate: number;
-  /** Average set win ratio across all sets played (0–1). Captures margin of victory. */
+  /** Average set win ratio across all sets played (0–1) */
   setWinRatio: number;
-  /** Effective rating used for balancing (may be averaged if below threshold) */
+  /** Strength used for balancing, 0–1 (may be averaged if below threshold) — see utils/rating.ts */
   effectiveRating: number;
   /** Whether the player has enough data to have a reliable rating */
   hasEnoughData: boolean;
+  /** Positions from the player's profile, best first — spread by the constrained strategy */
+  positions?: PlayerPosition[];
 }
 
+/** What players say about themselves on their profile, by userId */
+export type PlayerProfiles = Record<string, Pick<User, 'positions' | 'skillLevel'>>;
+
+export const POSITION_LABELS: Record<PlayerPosition, string> = {
+  setter: 'Nahrávač',
+  libero: 'Libero',
+  hitter: 'Smečař',
+  blocker: 'Blokař',
+};
+
 /** Default minimum number of games a player must have played for their rating to be considered reliable */
 export const DEFAULT_MIN_GAMES_THRESHOLD = 3;
 
-/** Weight given to win rate vs set performance when computing effective rating */
-const WIN_RATE_WEIGHT = 0.6;
-const SET_PERFORMANCE_WEIGHT = 0.4;
+/** Rating step of one skill level away from the middle one, for players without enough games */
+const SKILL_LEVEL_STEP = 0.05;
 
 /** Available balancing strategies */
-export type BalancingStrategy = 'jittered-snake' | 'greedy-swap' | 'random-partition';
+export type BalancingStrategy = 'jittered-snake' | 'greedy-swap' | 'random-partition' | 'constrained';
 
-/** All strategies in rotation order */
+/** Strategies rotated through when there are no positions or pairs to respect, in rotation order */
 export const ALL_STRATEGIES: BalancingStrategy[] = ['jittered-snake', 'greedy-swap', 'random-partition'];
 
 /**
@@ -33,34 +46,30 @@ export const ALL_STRATEGIES: BalancingStrategy[] = ['jittered-snake', 'greedy-sw
  */
 export function extractRounds(event: SportEvent): GameRound[] {
   const rounds: GameRound[] = [...(Array.isArray(event.gameHistory) ? event.gameHistory : [])];
-  if (event.teams && event.winningTeam !== undefined) {
-    rounds.push({
-      teams: event.teams,
-      teamNames: event.teamNames,
-      winningTeam: event.winningTeam,
-      score: event.score,
-    });
-  }
+  const current = currentRound(event);
+  if (current) rounds.push(current);
   return rounds;
 }
 
 /**
  * Compute a performance rating for each player based on historical win/loss data
- * and set scores.
+ * and set scores. Every match counts — a round of three teams is up to three.
  *
- * The effective rating blends:
- *   - **Win rate** (60%): fraction of games won
- *   - **Set performance** (40%): average ratio of own-set-points / total-set-points
- *     across all sets the player participated in.
+ * The effective rating is the player's strength from their Glicko-2 rating
+ * (utils/rating.ts, the same one the leaderboard shows): the chance of
+ * beating a newcomer, kept closer to 0.5 the less certain the rating is.
+ * Win rate and set ratio are reported alongside.
  *
  * Players below the minimum data threshold receive an "average" rating
  * computed from all players who *do* have enough data. If nobody has enough
- * data, every player gets a neutral 0.5 rating.
+ * data, every player gets a neutral 0.5 rating. A skill level on the
+ * player's profile moves that rating up or down from the average.
  */
 export function computePlayerRatings(
   allEvents: SportEvent[],
   players: Participant[],
   minGamesThreshold: number = DEFAULT_MIN_GAMES_THRESHOLD,
+  profiles: PlayerProfiles = {},
 ): PlayerRating[] {
   // Per-player accumulators
   const statsMap = new Map<string, {
@@ -73,10 +82,9 @@ export function computePlayerRatings(
   for (const event of allEvents) {
     const rounds = extractRounds(event);
 
-    for (const round of rounds) {
-      if (round.winningTeam === undefined) continue;
-      const winners = round.teams[round.winningTeam];
-      const losers = round.teams[1 - round.winningTeam];
+    for (const match of rounds.flatMap(roundMatches)) {
+      const winners = match.teams[match.winner];
+      const losers = match.teams[1 - match.winner];
 
       for (const member of [...winners, ...losers]) {
         if (!statsMap.has(member.userId)) {
@@ -89,9 +97,9 @@ export function computePlayerRatings(
         }
 
         // Accumulate set-level performance if scores are available
-        if (round.score && round.score.length > 0) {
-          const isTeam0 = round.teams[0].some(m => m.userId === member.userId);
-          for (const [s0, s1] of round.score) {
+        if (match.score && match.score.length > 0) {
+          const isTeam0 = match.teams[0].some(m => m.userId === member.userId);
+          for (const [s0, s1] of match.score) {
             const total = s0 + s1;
             if (total === 0) continue;
             const own = isTeam0 ? s0 : s1;
@@ -120,13 +128,16 @@ export function computePlayerRatings(
       setWinRatio,
       effectiveRating: 0, // computed below
       hasEnoughData: played >= minGamesThreshold,
+      ...(profiles[p.userId]?.positions?.length && { positions: profiles[p.userId].positions }),
     };
   });
 
-  // Compute blended rating for players with enough data
+  // Rate players with enough data by their skill rating
+  const skill = primaryRatings(computeSkillRatings(allEvents));
   for (const r of rawRatings) {
+    const rating = skill.get(r.userId);
     if (r.hasEnoughData) {
-      r.effectiveRating = WIN_RATE_WEIGHT * r.winRate + SET_PERFORMANCE_WEIGHT * r.setWinRatio;
+      r.effectiveRating = rating ? skillStrength(rating) : 0.5;
     }
   }
 
@@ -138,9 +149,12 @@ export function computePlayerRatings(
       : 0.5; // neutral when nobody has data
 
   // Assign effective rating for players below threshold
+  const middleSkill = (MIN_SKILL_LEVEL + MAX_SKILL_LEVEL) / 2;
   for (const r of rawRatings) {
     if (!r.hasEnoughData) {
-      r.effectiveRating = averageRating;
+      const skill = profiles[r.userId]?.skillLevel;
+      const offset = skill !== undefined ? (skill - middleSkill) * SKILL_LEVEL_STEP : 0;
+      r.effectiveRating = Math.min(1, Math.max(0, averageRating + offset));
     }
   }
 
@@ -157,23 +171,11 @@ const toMember = (r: PlayerRating): TeamMember => ({
 
 // ── Helper: Check if two team configurations are the same ──
 
-export function teamsAreSame(
-  a: [TeamMember[], TeamMember[]],
-  b: [TeamMember[], TeamMember[]],
-): boolean {
-  const idsA0 = new Set(a[0].map(m => m.userId));
-  const idsA1 = new Set(a[1].map(m => m.userId));
-  const idsB0 = new Set(b[0].map(m => m.userId));
-  const idsB1 = new Set(b[1].map(m => m.userId));
-
-  const setsEqual = (x: Set<string>, y: Set<string>) =>
-    x.size === y.size && [...x].every(id => y.has(id));
-
-  // Same if (A0≡B0 and A1≡B1) or (A0≡B1 and A1≡B0) — teams can be swapped
-  return (
-    (setsEqual(idsA0, idsB0) && setsEqual(idsA1, idsB1)) ||
-    (setsEqual(idsA0, idsB1) && setsEqual(idsA1, idsB0))
-  );
+export function teamsAreSame(a: TeamMember[][], b: TeamMember[][]): boolean {
+  if (a.length !== b.length) return false;
+  // Teams can come in any order — compare each team's sorted member ids
+  const key = (teams: TeamMember[][]) => teams.map(t => t.map(m => m.userId).sort().join(',')).sort().join('|');
+  return key(a) === key(b);
 }
 
 // ── Helper: Sum effective rating of a team ──
@@ -182,6 +184,21 @@ function sumRating(team: PlayerRating[]): number {
   return team.reduce((s, r) => s + r.effectiveRating, 0);
 }
 
+// ── Helper: Random split into teams ──
+// Fixed team size leaves the surplus players out; otherwise sizes differ by at most 1.
+
+function randomPartition(ratings: PlayerRating[], teamSize: number | null, teamCount: number): PlayerRating[][] {
+  const shuffled = [...ratings].sort(() => Math.random() - 0.5);
+  const teams: PlayerRating[][] = [];
+  let start = 0;
+  for (let t = 0; t < teamCount; t++) {
+    const size = teamSize ?? Math.floor(shuffled.length / teamCount) + (t < shuffled.length % teamCount ? 1 : 0);
+    teams.push(shuffled.slice(start, start + size));
+    start += size;
+  }
+  return teams;
+}
+
 // ── Strategy 1: Jittered Snake Draft ──
 // Adds controlled random noise to ratings before sorting, so players with
 // similar ratings get ordered differently each time.
@@ -189,8 +206,9 @@ function sumRating(team: PlayerRating[]): number {
 export function jitteredSnakeDraft(
   ratings: PlayerRating[],
   teamSize: number | null,
+  teamCount: number = 2,
   jitterFactor: number = 0.2,
-): [TeamMember[], TeamMember[]] {
+): TeamMember[][] {
   const maxR = Math.max(...ratings.map(r => r.effectiveRating), 0.001);
   const minR = Math.min(...ratings.map(r => r.effectiveRating));
   const spread = Math.max(maxR - minR, 0.1);
@@ -201,120 +219,197 @@ export function jitteredSnakeDraft(
   }));
   jittered.sort((a, b) => b._jittered - a._jittered);
 
-  const pickCount = teamSize !== null ? teamSize * 2 : jittered.length;
-  const team0: TeamMember[] = [];
-  const team1: TeamMember[] = [];
+  // Snake order: 0, 1, …, n-1, n-1, …, 1, 0, 0, 1, …
+  const pickCount = teamSize !== null ? teamSize * teamCount : jittered.length;
+  const teams: TeamMember[][] = Array.from({ length: teamCount }, () => []);
 
   for (let i = 0; i < Math.min(pickCount, jittered.length); i++) {
-    const round = Math.floor(i / 2);
-    const isEvenRound = round % 2 === 0;
-    const pickFirst = i % 2 === 0;
-
-    if (teamSize !== null) {
-      if (team0.length < teamSize && (pickFirst || team1.length >= teamSize)) {
-        team0.push(toMember(jittered[i]));
-      } else {
-        team1.push(toMember(jittered[i]));
-      }
-    } else {
-      if (pickFirst === isEvenRound) {
-        (team0.length <= team1.length ? team0 : team1).push(toMember(jittered[i]));
-      } else {
-        (team1.length <= team0.length ? team1 : team0).push(toMember(jittered[i]));
-      }
-    }
+    const round = Math.floor(i / teamCount);
+    const pos = i % teamCount;
+    teams[round % 2 === 0 ? pos : teamCount - 1 - pos].push(toMember(jittered[i]));
   }
 
-  return [team0, team1];
+  return teams;
 }
 
 // ── Strategy 2: Greedy Swap ──
 // Start with a random partition, then greedily swap players between teams
-// to minimize the total rating difference.
+// to minimize the total rating difference. A swap only changes the two
+// teams involved, so evening out any pair evens out the whole split.
 
 export function greedySwapBalance(
   ratings: PlayerRating[],
   teamSize: number | null,
-): [TeamMember[], TeamMember[]] {
+  teamCount: number = 2,
+): TeamMember[][] {
   // 1. Random initial partition
-  const shuffled = [...ratings].sort(() => Math.random() - 0.5);
-  const size = teamSize ?? Math.ceil(shuffled.length / 2);
-  const team0: PlayerRating[] = shuffled.slice(0, size);
-  const team1: PlayerRating[] = shuffled.slice(size, teamSize !== null ? size * 2 : undefined);
+  const teams = randomPartition(ratings, teamSize, teamCount);
 
   // 2. Greedy pairwise swaps to minimize rating difference
   const MAX_PASSES = 50;
   for (let pass = 0; pass < MAX_PASSES; pass++) {
     let improved = false;
-    const s0 = sumRating(team0);
-    const s1 = sumRating(team1);
-    const currentDiff = Math.abs(s0 - s1);
-
-    for (let i = 0; i < team0.length; i++) {
-      for (let j = 0; j < team1.length; j++) {
-        const newS0 = s0 - team0[i].effectiveRating + team1[j].effectiveRating;
-        const newS1 = s1 - team1[j].effectiveRating + team0[i].effectiveRating;
-        if (Math.abs(newS0 - newS1) < currentDiff - 0.001) {
-          const tmp = team0[i];
-          team0[i] = team1[j];
-          team1[j] = tmp;
-          improved = true;
-          break;
+
+    for (let a = 0; a < teamCount && !improved; a++) {
+      for (let b = a + 1; b < teamCount && !improved; b++) {
+        const teamA = teams[a], teamB = teams[b];
+        const sA = sumRating(teamA);
+        const sB = sumRating(teamB);
+        const currentDiff = Math.abs(sA - sB);
+
+        for (let i = 0; i < teamA.length && !improved; i++) {
+          for (let j = 0; j < teamB.length; j++) {
+            const newSA = sA - teamA[i].effectiveRating + teamB[j].effectiveRating;
+            const newSB = sB - teamB[j].effectiveRating + teamA[i].effectiveRating;
+            if (Math.abs(newSA - newSB) < currentDiff - 0.001) {
+              const tmp = teamA[i];
+              teamA[i] = teamB[j];
+              teamB[j] = tmp;
+              improved = true;
+              break;
+            }
+          }
         }
       }
-      if (improved) break;
     }
     if (!improved) break;
   }
 
-  return [team0.map(toMember), team1.map(toMember)];
+  return teams.map(team => team.map(toMember));
 }
 
 // ── Strategy 3: Random Partition with Hill-Climbing ──
-// Randomly shuffle players, split in half, then repeatedly move
-// the highest-rated player from the heavier team to the lighter team.
+// Randomly shuffle players, split them into the teams, then repeatedly make
+// the swap between any two teams that evens them out the most.
 
 export function randomPartitionBalance(
   ratings: PlayerRating[],
   teamSize: number | null,
-): [TeamMember[], TeamMember[]] {
-  const shuffled = [...ratings].sort(() => Math.random() - 0.5);
-  const size = teamSize ?? Math.ceil(shuffled.length / 2);
-  const team0: PlayerRating[] = shuffled.slice(0, size);
-  const team1: PlayerRating[] = shuffled.slice(size, teamSize !== null ? size * 2 : undefined);
+  teamCount: number = 2,
+): TeamMember[][] {
+  const teams = randomPartition(ratings, teamSize, teamCount);
 
   // Hill-climbing: repeatedly swap the member that most reduces imbalance
   const MAX_ITER = 30;
   for (let iter = 0; iter < MAX_ITER; iter++) {
-    const s0 = sumRating(team0);
-    const s1 = sumRating(team1);
-    const currentDiff = Math.abs(s0 - s1);
-    if (currentDiff < 0.01) break;
-
-    let bestSwap: { i: number; j: number; newDiff: number } | null = null;
-
-    for (let i = 0; i < team0.length; i++) {
-      for (let j = 0; j < team1.length; j++) {
-        const newS0 = s0 - team0[i].effectiveRating + team1[j].effectiveRating;
-        const newS1 = s1 - team1[j].effectiveRating + team0[i].effectiveRating;
-        const newDiff = Math.abs(newS0 - newS1);
-        if (newDiff < currentDiff && (!bestSwap || newDiff < bestSwap.newDiff)) {
-          bestSwap = { i, j, newDiff };
+    const sums = teams.map(sumRating);
+    if (Math.max(...sums) - Math.min(...sums) < 0.01) break;
+
+    // Gain = how much the swap shrinks the squared difference of the pair
+    let bestSwap: { a: number; b: number; i: number; j: number; gain: number } | null = null;
+
+    for (let a = 0; a < teamCount; a++) {
+      for (let b = a + 1; b < teamCount; b++) {
+        const currentDiff = sums[a] - sums[b];
+        for (let i = 0; i < teams[a].length; i++) {
+          for (let j = 0; j < teams[b].length; j++) {
+            const delta = teams[b][j].effectiveRating - teams[a][i].effectiveRating;
+            const newDiff = currentDiff + 2 * delta;
+            const gain = currentDiff * currentDiff - newDiff * newDiff;
+            if (gain > 0 && (!bestSwap || gain > bestSwap.gain)) {
+              bestSwap = { a, b, i, j, gain };
+            }
+          }
         }
       }
     }
 
     if (!bestSwap) break;
-    const tmp = team0[bestSwap.i];
-    team0[bestSwap.i] = team1[bestSwap.j];
-    team1[bestSwap.j] = tmp;
+    const { a, b, i, j } = bestSwap;
+    const tmp = teams[a][i];
+    teams[a][i] = teams[b][j];
+    teams[b][j] = tmp;
+  }
+
+  return teams.map(team => team.map(toMember));
+}
+
+// ── Strategy 4: Constrained ──
+// Balances rating like the others, but also spreads the declared positions
+// (two setters end up in different teams) and keeps the "together/apart"
+// pairs. Everything is one penalty — a broken pair costs far more than any
+// rating gap, an uneven position a bit more than a typical one — minimized
+// by hill-climbing swaps from several random starts. Conflicting pairs
+// simply break as few as they can.
+
+/** Penalty of a broken pair */
+const CONSTRAINT_PENALTY = 10;
+/** Penalty per player a position is off between the teams that have the most and fewest of it */
+const POSITION_PENALTY = 0.3;
+const CONSTRAINED_RESTARTS = 8;
+
+function constrainedCost(teams: PlayerRating[][], constraints: TeamConstraint[]): number {
+  const sums = teams.map(sumRating);
+  let cost = Math.max(...sums) - Math.min(...sums);
+
+  // A player with several positions counts as a part of each
+  const positions: PlayerPosition[] = ['setter', 'libero', 'hitter', 'blocker'];
+  for (const position of positions) {
+    const counts = teams.map(team => team.reduce((n, r) => {
+      const declared = r.positions ?? [];
+      return declared.includes(position) ? n + 1 / declared.length : n;
+    }, 0));
+    cost += POSITION_PENALTY * (Math.max(...counts) - Math.min(...counts));
   }
 
-  return [team0.map(toMember), team1.map(toMember)];
+  const teamOf = new Map<string, number>();
+  teams.forEach((team, idx) => team.forEach(r => teamOf.set(r.userId, idx)));
+  for (const { userIds: [a, b], together } of constraints) {
+    const teamA = teamOf.get(a);
+    const teamB = teamOf.get(b);
+    // Players not playing this round — left out by a fixed team size — break nothing
+    if (teamA === undefined && teamB === undefined) continue;
+    if (together ? teamA !== teamB : teamA === teamB) cost += CONSTRAINT_PENALTY;
+  }
+  return cost;
+}
+
+export function constrainedBalance(
+  ratings: PlayerRating[],
+  teamSize: number | null,
+  teamCount: number = 2,
+  constraints: TeamConstraint[] = [],
+): TeamMember[][] {
+  let best: { teams: PlayerRating[][]; cost: number } | null = null;
+
+  for (let restart = 0; restart < CONSTRAINED_RESTARTS; restart++) {
+    const teams = randomPartition(ratings, teamSize, teamCount);
+    // Left-out players can swap in, so the pairs decide who sits out too
+    const bench = ratings.filter(r => !teams.some(team => team.includes(r)));
+    const groups = bench.length > 0 ? [...teams, bench] : teams;
+    let cost = constrainedCost(teams, constraints);
+
+    // Take the best swap between any two groups until none helps
+    const MAX_ITER = 50;
+    for (let iter = 0; iter < MAX_ITER; iter++) {
+      let bestSwap: { a: number; b: number; i: number; j: number; cost: number } | null = null;
+      for (let a = 0; a < teamCount; a++) {
+        for (let b = a + 1; b < groups.length; b++) {
+          for (let i = 0; i < groups[a].length; i++) {
+            for (let j = 0; j < groups[b].length; j++) {
+              [groups[a][i], groups[b][j]] = [groups[b][j], groups[a][i]];
+              const swapped = constrainedCost(teams, constraints);
+              [groups[a][i], groups[b][j]] = [groups[b][j], groups[a][i]];
+              if (swapped < (bestSwap?.cost ?? cost - 0.001)) bestSwap = { a, b, i, j, cost: swapped };
+            }
+          }
+        }
+      }
+      if (!bestSwap) break;
+      const { a, b, i, j } = bestSwap;
+      [groups[a][i], groups[b][j]] = [groups[b][j], groups[a][i]];
+      cost = bestSwap.cost;
+    }
+
+    if (!best || cost < best.cost) best = { teams: teams.map(team => [...team]), cost };
+  }
+
+  return best!.teams.map(team => team.map(toMember));
 }
 
 /**
- * Balance players into two teams using one of multiple strategies.
+ * Balance players into `teamCount` teams (two by default) using one of
+ * multiple strategies.
  *
  * When `previousTeams` is provided, the algorithm tries up to `maxAttempts`
  * times across different strategies to produce a **different** team
@@ -326,54 +421,74 @@ export function randomPartitionBalance(
  * - **greedy-swap**: Random partition → greedy optimization
  * - **random-partition**: Random partition → hill-climbing optimization
  *
+ * Once players declare positions or the event has pairs to respect, the
+ * **constrained** strategy takes over every attempt instead.
+ *
  * All strategies maintain balance: the total rating difference between
- * teams stays small.
+ * any two teams stays small.
  *
- * Returns `null` if there aren't enough players for two teams.
+ * Returns `null` if there aren't enough players for the teams.
  */
 export function balanceTeams(
   players: Participant[],
   allEvents: SportEvent[],
   options: {
     teamSize: number | null;
+    /** Number of teams (default 2) */
+    teamCount?: number;
     minGamesThreshold?: number;
     /** Current/previous teams — algorithm avoids producing the same split */
-    previousTeams?: [TeamMember[], TeamMember[]] | null;
+    previousTeams?: TeamMember[][] | null;
     /** Maximum attempts to find a different configuration (default 12) */
     maxAttempts?: number;
     /** Force a specific strategy (default: rotate through all) */
     strategy?: BalancingStrategy;
+    /** Positions and skill levels from the players' profiles */
+    profiles?: PlayerProfiles;
+    /** Pairs to keep together or apart */
+    constraints?: TeamConstraint[];
+    /** Rate players only by matches of this sport */
+    sportType?: SportType;
   } = { teamSize: null },
-): [TeamMember[], TeamMember[]] | null {
+): TeamMember[][] | null {
   const {
     teamSize,
+    teamCount = 2,
     minGamesThreshold = DEFAULT_MIN_GAMES_THRESHOLD,
     previousTeams,
     maxAttempts = 12,
     strategy,
+    profiles = {},
+    constraints = [],
+    sportType,
   } = options;
 
-  const minPlayers = teamSize !== null ? teamSize * 2 : 2;
+  const minPlayers = teamSize !== null ? teamSize * teamCount : teamCount;
   if (players.length < minPlayers) return null;
 
-  const ratings = computePlayerRatings(allEvents, players, minGamesThreshold);
+  const sportEvents = sportType ? allEvents.filter(e => (e.sportType ?? 'volejbal') === sportType) : allEvents;
+  const ratings = computePlayerRatings(sportEvents, players, minGamesThreshold, profiles);
+  const isConstrained = constraints.length > 0 || ratings.some(r => r.positions);
 
   // Generate candidates across strategies, pick first that differs from previous
-  let bestCandidate: [TeamMember[], TeamMember[]] | null = null;
+  let bestCandidate: TeamMember[][] | null = null;
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const strat = strategy ?? ALL_STRATEGIES[attempt % ALL_STRATEGIES.length];
+    const strat = strategy ?? (isConstrained ? 'constrained' : ALL_STRATEGIES[attempt % ALL_STRATEGIES.length]);
 
-    let candidate: [TeamMember[], TeamMember[]];
+    let candidate: TeamMember[][];
     switch (strat) {
       case 'jittered-snake':
-        candidate = jitteredSnakeDraft(ratings, teamSize);
+        candidate = jitteredSnakeDraft(ratings, teamSize, teamCount);
         break;
       case 'greedy-swap':
-        candidate = greedySwapBalance(ratings, teamSize);
+        candidate = greedySwapBalance(ratings, teamSize, teamCount);
         break;
       case 'random-partition':
-        candidate = randomPartitionBalance(ratings, teamSize);
+        candidate = randomPartitionBalance(ratings, teamSize, teamCount);
+        break;
+      case 'constrained':
+        candidate = constrainedBalance(ratings, teamSize, teamCount, constraints);
         break;
     }
 
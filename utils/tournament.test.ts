@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTournamentMatches,
+  groupStandings,
+  groupTeamIds,
+  recordTournamentResult,
+  tournamentChampion,
+  tournamentEvents,
+} from './tournament';
+import { Tournament, TournamentFormat } from '../types';
+
+const ids = (n: number) => Array.from({ length: n }, (_, i) => `t${i + 1}`);
+
+const tournament = (format: TournamentFormat, teamCount: number, groupCount?: number): Tournament => ({
+  id: 'cup',
+  name: 'Jarní turnaj',
+  date: '2026-04-18',
+  format,
+  groupCount,
+  teams: ids(teamCount).map(id => ({ id, name: `Tým ${id}`, members: [{ userId: `${id}-p`, name: `Hráč ${id}` }] })),
+  matches: createTournamentMatches(format, ids(teamCount), groupCount),
+});
+
+const HOME_WINS: [number, number][] = [[25, 20], [25, 18]];
+const AWAY_WINS: [number, number][] = [[20, 25], [18, 25]];
+
+const match = (t: Tournament, id: string) => t.matches.find(m => m.id === id)!;
+
+describe('groupTeamIds', () => {
+  it('deals the seeds there and back', () => {
+    expect(groupTeamIds(ids(8), 2)).toEqual([['t1', 't4', 't5', 't8'], ['t2', 't3', 't6', 't7']]);
+    expect(groupTeamIds(ids(3), 4)).toEqual([['t1', 't2', 't3']]);
+  });
+});
+
+describe('group stage', () => {
+  it('plays everyone within the group and ranks by wins, then sets', () => {
+    let t = tournament('groups', 3);
+    expect(t.matches.map(m => m.teams)).toEqual([['t2', 't3'], ['t1', 't3'], ['t1', 't2']]);
+
+    t = recordTournamentResult(t, 'g0-0', [[25, 20], [20, 25], [15, 10]]); // t2 beats t3 2:1
+    t = recordTournamentResult(t, 'g0-1', HOME_WINS); // t1 beats t3
+    expect(tournamentChampion(t)).toBeNull();
+    t = recordTournamentResult(t, 'g0-2', AWAY_WINS); // t2 beats t1
+
+    const [table] = groupStandings(t);
+    expect(table.map(s => s.teamId)).toEqual(['t2', 't1', 't3']);
+    expect(table[0]).toMatchObject({ won: 2, setsWon: 4, setsLost: 1 });
+    expect(tournamentChampion(t)).toBe('t2');
+  });
+
+  it('keeps a drawn score without a winner', () => {
+    const t = recordTournamentResult(tournament('groups', 3), 'g0-0', [[25, 20], [20, 25]]);
+    expect(match(t, 'g0-0')).toMatchObject({ score: [[25, 20], [20, 25]] });
+    expect(match(t, 'g0-0').winner).toBeUndefined();
+  });
+});
+
+describe('single elimination', () => {
+  it('seeds the bracket and gives the top seeds the byes', () => {
+    const t = tournament('single-elimination', 6);
+    expect(t.matches.filter(m => m.round === 0).map(m => m.teams)).toEqual([
+      ['t1', null], ['t4', 't5'], ['t2', null], ['t3', 't6'],
+    ]);
+    expect(match(t, 'w0-0')).toMatchObject({ winner: 0, walkover: true });
+    expect(match(t, 'w1-0').teams).toEqual(['t1', null]);
+    expect(match(t, 'w1-1').teams).toEqual(['t2', null]);
+  });
+
+  it('advances winners and clears what depended on a corrected result', () => {
+    let t = tournament('single-elimination', 4);
+    t = recordTournamentResult(t, 'w0-0', HOME_WINS);
+    t = recordTournamentResult(t, 'w0-1', AWAY_WINS);
+    expect(match(t, 'w1-0').teams).toEqual(['t1', 't3']);
+
+    t = recordTournamentResult(t, 'w1-0', HOME_WINS);
+    expect(tournamentChampion(t)).toBe('t1');
+
+    t = recordTournamentResult(t, 'w0-1', HOME_WINS);
+    expect(match(t, 'w1-0')).toEqual({ id: 'w1-0', stage: 'winners', round: 1, slot: 0, teams: ['t1', 't2'] });
+    expect(tournamentChampion(t)).toBeNull();
+  });
+});
+
+describe('double elimination', () => {
+  it('sends the losers into the losers bracket and replays the final once the losers\' side wins', () => {
+    let t = tournament('double-elimination', 4);
+    expect(t.matches.map(m => m.id)).toEqual(['w0-0', 'w0-1', 'w1-0', 'l0-0', 'l1-0', 'f0']);
+
+    t = recordTournamentResult(t, 'w0-0', HOME_WINS); // t1 beats t4
+    t = recordTournamentResult(t, 'w0-1', HOME_WINS); // t2 beats t3
+    expect(match(t, 'l0-0').teams).toEqual(['t4', 't3']);
+
+    t = recordTournamentResult(t, 'w1-0', HOME_WINS); // t1 beats t2
+    t = recordTournamentResult(t, 'l0-0', AWAY_WINS); // t3 beats t4
+    expect(match(t, 'l1-0').teams).toEqual(['t3', 't2']);
+
+    t = recordTournamentResult(t, 'l1-0', HOME_WINS); // t3 beats t2
+    expect(match(t, 'f0').teams).toEqual(['t1', 't3']);
+
+    t = recordTournamentResult(t, 'f0', AWAY_WINS);
+    expect(match(t, 'f1').teams).toEqual(['t1', 't3']);
+    expect(tournamentChampion(t)).toBeNull();
+
+    t = recordTournamentResult(t, 'f1', AWAY_WINS);
+    expect(tournamentChampion(t)).toBe('t3');
+
+    // The winners' champion taking the first final needs no replay
+    t = recordTournamentResult(t, 'f0', HOME_WINS);
+    expect(t.matches.some(m => m.id === 'f1')).toBe(false);
+    expect(tournamentChampion(t)).toBe('t1');
+  });
+
+  it('sizes the losers bracket of eight teams', () => {
+    const t = tournament('double-elimination', 8);
+    const losers = t.matches.filter(m => m.stage === 'losers');
+    expect([0, 1, 2, 3].map(r => losers.filter(m => m.round === r).length)).toEqual([2, 2, 1, 1]);
+  });
+
+  it('lets two teams play each other again in the final', () => {
+    let t = tournament('double-elimination', 2);
+    t = recordTournamentResult(t, 'w0-0', HOME_WINS);
+    expect(match(t, 'f0').teams).toEqual(['t1', 't2']);
+  });
+});
+
+describe('tournamentEvents', () => {
+  it('turns played matches into game history, leaving out byes', () => {
+    let t = tournament('single-elimination', 3);
+    t = recordTournamentResult(t, 'w0-1', AWAY_WINS); // t3 beats t2
+    const [event] = tournamentEvents([t]);
+
+    expect(event).toMatchObject({ id: 'tournament-cup', title: 'Jarní turnaj', date: '2026-04-18', totalCost: 0 });
+    expect(event.participants.map(p => p.userId)).toEqual(['t1-p', 't2-p', 't3-p']);
+    expect(event.gameHistory).toEqual([{
+      teams: [[{ userId: 't2-p', name: 'Hráč t2' }], [{ userId: 't3-p', name: 'Hráč t3' }]],
+      teamNames: ['Tým t2', 'Tým t3'],
+      winningTeam: 1,
+      score: AWAY_WINS,
+    }]);
+  });
+});
@@ -0,0 +1,191 @@
+import { GameRound, Participant, SportEvent, Tournament, TournamentFormat, TournamentMatch } from '../types';
+import { computeStandings, roundRobinPairs, TeamStanding } from './matchSchedule';
+import { blank, resolveBracket } from '../shared/tournamentBracket';
+
+/**
+ * Tournaments of fixed teams. Pure functions — a tournament keeps all its
+ * matches, and bracket pairings are re-derived from the results after every
+ * change, so correcting an early result clears whatever depended on it.
+ *
+ *   - groups: teams are dealt into groups by seed (snake order) and play
+ *     everyone in their group; tables rank by wins, then set and point
+ *     difference (computeStandings)
+ *   - single-elimination: seeds 1 vs last, 2 vs second-to-last, … in a
+ *     bracket padded to a power of two — top seeds get the byes
+ *   - double-elimination: losers drop into a losers bracket and meet the
+ *     next losers of the winners bracket; the two brackets' winners play
+ *     the final, replayed once when the losers' side wins it
+ *
+ * Match ids tell their place: `g{group}-{n}`, `w{round}-{slot}`,
+ * `l{round}-{slot}`, `f0` and `f1` for the replayed final.
+ */
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  groups: 'Skupiny (každý s každým)',
+  'single-elimination': 'Vyřazovací pavouk',
+  'double-elimination': 'Dvojitá eliminace',
+};
+
+export interface TournamentStanding extends TeamStanding {
+  teamId: string;
+}
+
+/** Team ids of each group — seeds dealt there and back, so groups come out even */
+export function groupTeamIds(teamIds: string[], groupCount: number): string[][] {
+  const count = Math.max(1, Math.min(groupCount, Math.floor(teamIds.length / 2) || 1));
+  const groups: string[][] = Array.from({ length: count }, () => []);
+  teamIds.forEach((id, i) => {
+    const row = Math.floor(i / count);
+    const col = i % count;
+    groups[row % 2 === 0 ? col : count - 1 - col].push(id);
+  });
+  return groups;
+}
+
+/** Bracket positions of the seeds, e.g. 8 → 0 7 3 4 1 6 2 5 (seed 1 meets seed 2 in the final at the earliest) */
+function seedOrder(size: number): number[] {
+  let order = [0];
+  while (order.length < size) {
+    const doubled = order.length * 2;
+    order = order.flatMap(seed => [seed, doubled - 1 - seed]);
+  }
+  return order;
+}
+
+const bracketLevels = (teamCount: number) => Math.max(1, Math.ceil(Math.log2(teamCount)));
+
+/** Matches in a losers round — rounds alternate between taking in the winners bracket's losers and halving the field */
+const losersRoundSize = (size: number, round: number) =>
+  round % 2 === 0 ? size / 2 ** (round / 2 + 2) : size / 2 ** ((round + 1) / 2 + 1);
+
+/** All matches of a new tournament — `teamIds` in seeding order */
+export function createTournamentMatches(format: TournamentFormat, teamIds: string[], groupCount = 1): TournamentMatch[] {
+  if (format === 'groups') {
+    return groupTeamIds(teamIds, groupCount).flatMap((ids, group) => {
+      const perRound = Math.max(1, Math.floor(ids.length / 2));
+      return roundRobinPairs(ids.length).map(([a, b], slot): TournamentMatch => ({
+        id: `g${group}-${slot}`,
+        stage: 'group',
+        group,
+        round: Math.floor(slot / perRound),
+        slot,
+        teams: [ids[a], ids[b]],
+      }));
+    });
+  }
+
+  const levels = bracketLevels(teamIds.length);
+  const size = 2 ** levels;
+  const seeds = seedOrder(size);
+  const matches: TournamentMatch[] = [];
+
+  for (let round = 0; round < levels; round++) {
+    for (let slot = 0; slot < size / 2 ** (round + 1); slot++) {
+      const teams: TournamentMatch['teams'] = round === 0
+        ? [teamIds[seeds[2 * slot]] ?? null, teamIds[seeds[2 * slot + 1]] ?? null]
+        : [null, null];
+      matches.push({ id: `w${round}-${slot}`, stage: 'winners', round, slot, teams });
+    }
+  }
+
+  if (format === 'double-elimination') {
+    for (let round = 0; round < 2 * levels - 2; round++) {
+      for (let slot = 0; slot < losersRoundSize(size, round); slot++) {
+        matches.push({ id: `l${round}-${slot}`, stage: 'losers', round, slot, teams: [null, null] });
+      }
+    }
+    matches.push({ id: 'f0', stage: 'final', round: 0, slot: 0, teams: [null, null] });
+  }
+
+  return resolveBracket(matches);
+}
+
+/** Both teams are known and nobody got a bye — the match can be played (or corrected) */
+export const isPlayable = (match: TournamentMatch): boolean =>
+  match.teams[0] !== null && match.teams[1] !== null && !match.walkover;
+
+/**
+ * Record the sets of a match; the winner is whoever won more of them. An
+ * empty score clears the result. Later bracket matches follow.
+ */
+export function recordTournamentResult(tournament: Tournament, matchId: string, score: [number, number][]): Tournament {
+  const match = tournament.matches.find(m => m.id === matchId);
+  if (!match || !isPlayable(match)) return tournament;
+
+  const sets = score.filter(([a, b]) => a > 0 || b > 0);
+  const won0 = sets.filter(([a, b]) => a > b).length;
+  const won1 = sets.filter(([a, b]) => b > a).length;
+  const recorded: TournamentMatch = {
+    ...blank(match),
+    ...(won0 !== won1 && { winner: won0 > won1 ? 0 : 1 }),
+    ...(sets.length > 0 && { score: sets }),
+  };
+
+  const matches = tournament.matches.map(m => (m.id === matchId ? recorded : m));
+  return { ...tournament, matches: tournament.format === 'groups' ? matches : resolveBracket(matches) };
+}
+
+/** The table of each group */
+export function groupStandings(tournament: Pick<Tournament, 'teams' | 'groupCount' | 'matches'>): TournamentStanding[][] {
+  const groups = groupTeamIds(tournament.teams.map(t => t.id), tournament.groupCount ?? 1);
+  return groups.map((ids, group) => {
+    const matches = tournament.matches
+      .filter(m => m.stage === 'group' && m.group === group && m.winner !== undefined)
+      .map(m => ({
+        teams: [ids.indexOf(m.teams[0]!), ids.indexOf(m.teams[1]!)] as [number, number],
+        winner: m.winner!,
+        score: m.score,
+      }));
+    return computeStandings({ teams: ids.map(() => []), matchFormat: 'round-robin', matches })
+      .map(s => ({ ...s, teamId: ids[s.team] }));
+  });
+}
+
+/** Id of the winning team, once the tournament is decided — groups only have one with a single group */
+export function tournamentChampion(tournament: Tournament): string | null {
+  if (tournament.format === 'groups') {
+    const groups = groupStandings(tournament);
+    const finished = tournament.matches.every(m => m.winner !== undefined);
+    return groups.length === 1 && finished ? groups[0][0]?.teamId ?? null : null;
+  }
+  const final = tournament.format === 'double-elimination'
+    ? tournament.matches.find(m => m.id === 'f1') ?? tournament.matches.find(m => m.id === 'f0')
+    : tournament.matches.filter(m => m.stage === 'winners').at(-1);
+  if (final?.winner === undefined) return null;
+  return final.teams[final.winner];
+}
+
+/**
+ * Tournaments as events for the statistics: every team member took part,
+ * every played match is a two-team round of the game history — ratings,
+ * duos and streaks count them like any other game.
+ */
+export function tournamentEvents(tournaments: Tournament[]): SportEvent[] {
+  return tournaments.map(tournament => {
+    const teams = new Map(tournament.teams.map(t => [t.id, t]));
+    const gameHistory: GameRound[] = tournament.matches.flatMap(m => {
+      const home = m.teams[0] ? teams.get(m.teams[0]) : undefined;
+      const away = m.teams[1] ? teams.get(m.teams[1]) : undefined;
+      if (!home || !away || m.winner === undefined || m.walkover) return [];
+      return [{ teams: [home.members, away.members], teamNames: [home.name, away.name], winningTeam: m.winner, score: m.score }];
+    });
+
+    const participants = new Map<string, Participant>();
+    for (const member of tournament.teams.flatMap(t => t.members)) {
+      participants.set(member.userId, { userId: member.userId, name: member.name, photoUrl: member.photoUrl, status: 'joined', hasPaid: true });
+    }
+
+    return {
+      id: `tournament-${tournament.id}`,
+      title: tournament.name,
+      date: tournament.date,
+      time: '',
+      location: tournament.location ?? '',
+      totalCost: 0,
+      accountNumber: '',
+      sportType: tournament.sportType,
+      participants: [...participants.values()],
+      gameHistory,
+    };
+  });
+}